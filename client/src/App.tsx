@@ -15,6 +15,10 @@ import SignupPage from "@/pages/auth/SignupPage";
 import SocialAccountsPage from "@/pages/settings/SocialAccountsPage";
 import BillingSettingsPage from "@/pages/settings/BillingSettingsPage";
 import CaptionSettingsPage from "@/pages/settings/CaptionSettingsPage";
+import WorkspaceSettingsPage from "@/pages/settings/WorkspaceSettingsPage";
+import ApiKeysSettingsPage from "@/pages/settings/ApiKeysSettingsPage";
+import WebhooksSettingsPage from "@/pages/settings/WebhooksSettingsPage";
+import PostingSlotsSettingsPage from "@/pages/settings/PostingSlotsSettingsPage";
 import OAuthCallbackPage from "@/pages/OAuthCallbackPage";
 // import PricingPage from "@/pages/PricingPage"; // Hidden - credits system replaces subscription pricing
 import AIStudioPage from "@/pages/AIStudioPage";
@@ -116,6 +120,26 @@ function Router() {
             <CaptionSettingsPage />
           </ProtectedRoute>
         </Route>
+        <Route path="/settings/workspace">
+          <ProtectedRoute>
+            <WorkspaceSettingsPage />
+          </ProtectedRoute>
+        </Route>
+        <Route path="/settings/api-keys">
+          <ProtectedRoute>
+            <ApiKeysSettingsPage />
+          </ProtectedRoute>
+        </Route>
+        <Route path="/settings/webhooks">
+          <ProtectedRoute>
+            <WebhooksSettingsPage />
+          </ProtectedRoute>
+        </Route>
+        <Route path="/settings/posting-slots">
+          <ProtectedRoute>
+            <PostingSlotsSettingsPage />
+          </ProtectedRoute>
+        </Route>
 
         {/* Admin routes - protected, backend enforces admin check */}
         <Route path="/admin/credits">
@@ -18,6 +18,9 @@ import { useAuth } from "@/contexts/AuthContext";
 
 interface CreditBalanceData {
   balance: number;
+  reserved: number; // held by generations still in progress
+  planCredits: number; // from the monthly plan - expire past the rollover cap
+  topUpCredits: number; // purchased packs - never expire
   lifetimePurchased: number;
   lifetimeUsed: number;
 }
@@ -91,9 +94,17 @@ export function CreditBalance({
             </TooltipTrigger>
             <TooltipContent>
               <p>{balance.toLocaleString()} XPAND Credits</p>
+              <p className="text-xs text-gray-400">
+                Plan: {data.planCredits.toLocaleString()} | Top-up: {data.topUpCredits.toLocaleString()}
+              </p>
               <p className="text-xs text-gray-400">
                 Used: {data.lifetimeUsed.toLocaleString()} | Purchased: {data.lifetimePurchased.toLocaleString()}
               </p>
+              {data.reserved > 0 && (
+                <p className="text-xs text-gray-400">
+                  {data.reserved.toLocaleString()} held for generations in progress
+                </p>
+              )}
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
@@ -115,7 +126,11 @@ export function CreditBalance({
         <Coins className="h-5 w-5 text-yellow-500" />
         <div>
           <div className="text-lg font-bold text-white">{balance.toLocaleString()}</div>
-          <div className="text-xs text-gray-400">XPAND Credits</div>
+          <div className="text-xs text-gray-400">
+            {data.planCredits > 0
+              ? `${data.planCredits.toLocaleString()} plan · ${data.topUpCredits.toLocaleString()} top-up`
+              : "XPAND Credits"}
+          </div>
         </div>
       </div>
       {showBuyButton && (
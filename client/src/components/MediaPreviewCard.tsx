@@ -2,8 +2,9 @@
  * Media Preview Card Component - Phase 4.4 (Updated Dec 2025)
  *
  * Gallery card for displaying AI-generated media assets
- * - Shows image or video preview
- * - Status badges (processing/ready/error)
+ * - Shows image or video preview (video tiles use the generated poster /
+ *   hover preview / sprite sheet - the MP4 only loads in the modal)
+ * - Status badges (processing/ready/error), with live stage + progress while processing
  * - Action buttons (Post, Download)
  * - Rating (1-5 stars)
  * - Delete button with confirmation
@@ -36,6 +37,11 @@ import { formatDistanceToNow } from "date-fns";
 import { RatingStars } from "@/components/ui/RatingStars";
 import { useToast } from "@/hooks/use-toast";
 import { getAuthHeaders } from "@/lib/queryClient";
+import { VideoThumbnail } from "@/components/VideoThumbnail";
+import { Progress } from "@/components/ui/progress";
+import type { VideoSpriteSheet } from "@shared/videoFormats";
+import { ASSET_PROGRESS_STAGE_LABELS, type AssetProgressEvent } from "@shared/assetProgress";
+import { getMediaProvider } from "@shared/mediaProviders";
 
 // TypeScript interface
 interface MediaAsset {
@@ -49,6 +55,9 @@ interface MediaAsset {
   taskId?: string;
   resultUrl?: string;
   resultUrls?: string[];
+  posterUrl?: string | null;
+  previewUrl?: string | null;
+  spriteSheet?: VideoSpriteSheet | null;
   errorMessage?: string;
   retryCount: number;
   metadata?: any;
@@ -64,9 +73,10 @@ interface MediaPreviewCardProps {
   asset: MediaAsset;
   onClick?: () => void;
   onDeleteSuccess?: () => void; // ✅ Callback to notify parent when delete succeeds
+  progress?: AssetProgressEvent; // Live progress from useAssetProgress
 }
 
-export function MediaPreviewCard({ asset, onClick, onDeleteSuccess }: MediaPreviewCardProps) {
+export function MediaPreviewCard({ asset, onClick, onDeleteSuccess, progress }: MediaPreviewCardProps) {
   const [showPostModal, setShowPostModal] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -214,13 +224,7 @@ export function MediaPreviewCard({ asset, onClick, onDeleteSuccess }: MediaPrevi
 
   // Format provider name for display
   const formatProviderName = (provider: string) => {
-    const providerNames: Record<string, string> = {
-      'kie-veo3': 'KIE Veo3',
-      'kie-4o-image': 'KIE 4O Image',
-      'kie-flux-kontext': 'KIE Flux Kontext',
-      'gemini-flash': 'Gemini Flash',
-    };
-    return providerNames[provider] || provider;
+    return getMediaProvider(provider)?.label || provider;
   };
 
   // Get status badge variant
@@ -255,10 +259,19 @@ export function MediaPreviewCard({ asset, onClick, onDeleteSuccess }: MediaPrevi
         {asset.status === 'processing' && (
           <div className="absolute inset-0 flex flex-col items-center justify-center">
             <Loader2 className="h-8 w-8 text-white animate-spin mb-3" />
-            <p className="text-sm text-white/70 font-medium">Creating Ad...</p>
-            <p className="text-xs text-white/50 mt-1">
-              Usually takes 1–2 minutes
+            <p className="text-sm text-white/70 font-medium">
+              {progress?.status === 'processing' ? `${ASSET_PROGRESS_STAGE_LABELS[progress.stage]}...` : 'Creating Ad...'}
             </p>
+            {progress?.status === 'processing' ? (
+              <div className="w-2/3 mt-3">
+                <Progress value={progress.progress} className="h-1.5" />
+                <p className="text-xs text-white/50 mt-1 text-center">{progress.progress}%</p>
+              </div>
+            ) : (
+              <p className="text-xs text-white/50 mt-1">
+                Usually takes 1–2 minutes
+              </p>
+            )}
           </div>
         )}
 
@@ -282,13 +295,23 @@ export function MediaPreviewCard({ asset, onClick, onDeleteSuccess }: MediaPrevi
           </>
         )}
 
-        {/* Ready State - Video */}
-        {asset.status === 'ready' && asset.type === 'video' && mediaUrl && (
+        {/* Ready State - Video (thumbnails) */}
+        {asset.status === 'ready' && asset.type === 'video' && mediaUrl && asset.posterUrl && (
+          <VideoThumbnail
+            posterUrl={asset.posterUrl}
+            previewUrl={asset.previewUrl}
+            spriteSheet={asset.spriteSheet}
+            alt={asset.prompt}
+          />
+        )}
+
+        {/* Ready State - Video (thumbnails not generated yet) */}
+        {asset.status === 'ready' && asset.type === 'video' && mediaUrl && !asset.posterUrl && (
           <video
             src={mediaUrl}
             controls
             className="w-full h-full object-cover"
-            preload="auto"
+            preload="metadata"
             playsInline
             crossOrigin="anonymous"
           >
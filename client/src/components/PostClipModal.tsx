@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/use-time-zone';
 import {
   Dialog,
   DialogContent,
@@ -15,7 +16,7 @@ import { Label } from './ui/label';
 import { Alert, AlertDescription } from './ui/alert';
 import { Checkbox } from './ui/checkbox';
 import { Input } from './ui/input';
-import { CheckCircle2, XCircle, Loader2, ExternalLink, Sparkles, Calendar } from 'lucide-react';
+import { CheckCircle2, XCircle, Loader2, ExternalLink, Sparkles, Calendar, ListPlus } from 'lucide-react';
 
 interface PostClipModalProps {
   isOpen: boolean;
@@ -33,8 +34,10 @@ export function PostClipModal({
   const [caption, setCaption] = useState('');
   const [isScheduled, setIsScheduled] = useState(false); // Phase 3: Scheduling toggle
   const [scheduledDateTime, setScheduledDateTime] = useState(''); // Phase 3: ISO datetime-local input
+  const [addToQueue, setAddToQueue] = useState(false); // Next free posting slot instead of a set time
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { timeZone, fromWallClock, formatInTimeZone } = useTimeZone();
 
   // AI Caption Generation mutation
   const generateMutation = useMutation({
@@ -75,9 +78,8 @@ export function PostClipModal({
       let scheduledForUTC: string | undefined = undefined;
 
       if (isScheduled && scheduledDateTime) {
-        // Parse local datetime and convert to UTC ISO 8601
-        const localDate = new Date(scheduledDateTime);
-        scheduledForUTC = localDate.toISOString();
+        // The input is wall-clock time in the user's timezone
+        scheduledForUTC = fromWallClock(new Date(scheduledDateTime)).toISOString();
       }
 
       const response = await apiRequest('POST', '/api/social/post', {
@@ -85,6 +87,7 @@ export function PostClipModal({
         platform: 'instagram',
         caption,
         ...(scheduledForUTC && { scheduledFor: scheduledForUTC }), // Include only if scheduled
+        ...(addToQueue && { queue: true }),
       });
 
       return await response.json();
@@ -107,6 +110,7 @@ export function PostClipModal({
       setCaption('');
       setIsScheduled(false); // Phase 3: Reset scheduling state
       setScheduledDateTime(''); // Phase 3: Reset datetime
+      setAddToQueue(false);
       postMutation.reset();
       onClose();
     }
@@ -171,7 +175,10 @@ export function PostClipModal({
                   <Checkbox
                     id="schedule-post"
                     checked={isScheduled}
-                    onCheckedChange={(checked) => setIsScheduled(checked === true)}
+                    onCheckedChange={(checked) => {
+                      setIsScheduled(checked === true);
+                      if (checked === true) setAddToQueue(false);
+                    }}
                     disabled={postMutation.isPending || generateMutation.isPending}
                     aria-label="Schedule post for later"
                   />
@@ -194,17 +201,43 @@ export function PostClipModal({
                       type="datetime-local"
                       value={scheduledDateTime}
                       onChange={(e) => setScheduledDateTime(e.target.value)}
-                      min={new Date().toISOString().slice(0, 16)} // Prevent past dates
+                      min={formatInTimeZone(new Date(), "yyyy-MM-dd'T'HH:mm")} // Prevent past dates
                       disabled={postMutation.isPending || generateMutation.isPending}
                       className="w-full"
                       aria-label="Select scheduled date and time"
                       aria-describedby="schedule-help"
                     />
                     <p id="schedule-help" className="text-xs text-muted-foreground">
-                      Your post will be published at this time (converts to UTC automatically)
+                      Your post will be published at this time in {timeZone}
                     </p>
                   </div>
                 )}
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="queue-post"
+                    checked={addToQueue}
+                    onCheckedChange={(checked) => {
+                      setAddToQueue(checked === true);
+                      if (checked === true) setIsScheduled(false);
+                    }}
+                    disabled={postMutation.isPending || generateMutation.isPending}
+                    aria-label="Add post to queue"
+                    aria-describedby="queue-help"
+                  />
+                  <Label
+                    htmlFor="queue-post"
+                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer flex items-center gap-2"
+                  >
+                    <ListPlus className="h-4 w-4" aria-hidden="true" />
+                    Add to queue
+                  </Label>
+                </div>
+                {addToQueue && (
+                  <p id="queue-help" className="text-xs text-muted-foreground pl-6">
+                    Posts in your Instagram account's next free posting slot
+                  </p>
+                )}
               </div>
 
               <div className="flex gap-2">
@@ -230,12 +263,13 @@ export function PostClipModal({
                   {postMutation.isPending ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
-                      {isScheduled ? 'Scheduling...' : 'Posting...'}
+                      {isScheduled || addToQueue ? 'Scheduling...' : 'Posting...'}
                     </>
                   ) : (
                     <>
                       {isScheduled && <Calendar className="mr-2 h-4 w-4" aria-hidden="true" />}
-                      {isScheduled ? 'Schedule Post' : 'Post Now'}
+                      {addToQueue && <ListPlus className="mr-2 h-4 w-4" aria-hidden="true" />}
+                      {isScheduled ? 'Schedule Post' : addToQueue ? 'Add to Queue' : 'Post Now'}
                     </>
                   )}
                 </Button>
@@ -255,7 +289,7 @@ export function PostClipModal({
                 </p>
                 <p className="text-sm text-green-800 dark:text-green-200">
                   {postMutation.data.scheduledFor
-                    ? `Your Reel will be published at ${new Date(postMutation.data.scheduledFor).toLocaleString()}`
+                    ? `Your Reel will be published at ${formatInTimeZone(postMutation.data.scheduledFor, 'PPpp')}`
                     : 'Your Reel has been published and should appear on Instagram shortly.'}
                 </p>
                 {postMutation.data.platformUrl && (
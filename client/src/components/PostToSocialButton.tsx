@@ -2,19 +2,23 @@ import { useState } from 'react';
 import { Button } from './ui/button';
 import { Upload } from 'lucide-react';
 import { PostClipModal } from './PostClipModal';
+import { pickVariantForPlatform, type MediaAssetVariant } from '@shared/videoFormats';
 
 interface PostToSocialButtonProps {
   projectId: string;
   exportUrl: string | null;
+  variants?: MediaAssetVariant[] | null; // multi-aspect-ratio renders - the Reels-friendly one is posted
   disabled?: boolean;
 }
 
 export function PostToSocialButton({
   projectId,
-  exportUrl,
+  exportUrl: defaultExportUrl,
+  variants,
   disabled
 }: PostToSocialButtonProps) {
   const [showModal, setShowModal] = useState(false);
+  const exportUrl = pickVariantForPlatform(variants, 'instagram')?.url ?? defaultExportUrl;
 
   const handleClick = () => {
     if (!exportUrl) {
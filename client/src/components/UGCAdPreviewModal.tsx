@@ -12,6 +12,7 @@ import { useState, useMemo } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/use-time-zone';
 import {
   Dialog,
   DialogContent,
@@ -35,6 +36,9 @@ import {
   Image as ImageIcon,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { pickVariantForPlatform, type MediaAssetVariant } from '@shared/videoFormats';
+import { getMediaProvider } from '@shared/mediaProviders';
+import { describeFailoverHop, type FailoverState } from '@shared/failoverPolicies';
 
 interface MediaAsset {
   id: string;
@@ -47,9 +51,12 @@ interface MediaAsset {
   taskId?: string;
   resultUrl?: string;
   resultUrls?: string[];
+  variants?: MediaAssetVariant[] | null;
+  posterUrl?: string | null;
   errorMessage?: string;
   retryCount: number;
   metadata?: any;
+  chainMetadata?: { failover?: FailoverState } | null;
   apiResponse?: any;
   createdAt: string;
   updatedAt: string;
@@ -77,6 +84,7 @@ export function UGCAdPreviewModal({ asset, onClose }: UGCAdPreviewModalProps) {
   // Context hooks
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { timeZone, fromWallClock, formatInTimeZone } = useTimeZone();
 
   // Memoized URL extraction with crash protection
   const mediaUrl = useMemo(() => {
@@ -126,16 +134,13 @@ export function UGCAdPreviewModal({ asset, onClose }: UGCAdPreviewModalProps) {
     }
   }, [asset]);
 
+  // Multi-aspect-ratio renders: post the variant that fits Instagram Reels
+  const instagramVideoUrl = pickVariantForPlatform(asset?.variants, 'instagram')?.url || mediaUrl;
+
   // Memoized provider name formatting
   const providerName = useMemo(() => {
     if (!asset?.provider) return 'Unknown Provider';
-    const providerNames: Record<string, string> = {
-      'kie-veo3': 'KIE Veo3',
-      'kie-4o-image': 'KIE 4O Image',
-      'kie-flux-kontext': 'KIE Flux Kontext',
-      'gemini-flash': 'Gemini Flash',
-    };
-    return providerNames[asset.provider] || asset.provider;
+    return getMediaProvider(asset.provider)?.label || asset.provider;
   }, [asset?.provider]);
 
   // Use for Video mutation (image → video)
@@ -170,12 +175,12 @@ export function UGCAdPreviewModal({ asset, onClose }: UGCAdPreviewModalProps) {
       let scheduledForUTC: string | undefined = undefined;
 
       if (isScheduled && scheduledDateTime) {
-        const localDate = new Date(scheduledDateTime);
-        scheduledForUTC = localDate.toISOString();
+        // The input is wall-clock time in the user's timezone
+        scheduledForUTC = fromWallClock(new Date(scheduledDateTime)).toISOString();
       }
 
       const response = await apiRequest('POST', '/api/social/post', {
-        videoUrl: mediaUrl,
+        videoUrl: instagramVideoUrl,
         platform: 'instagram',
         caption,
         ...(scheduledForUTC && { scheduledFor: scheduledForUTC }),
@@ -246,7 +251,7 @@ export function UGCAdPreviewModal({ asset, onClose }: UGCAdPreviewModalProps) {
     try {
       console.log('[UGC Modal] Posting asset to Instagram:', asset.id);
       const response = await apiRequest('POST', '/api/social/post', {
-        videoUrl: mediaUrl,
+        videoUrl: instagramVideoUrl,
         mediaAssetId: asset.id, // ✅ Send UGC video asset ID for database reference
         platform: 'instagram',
         caption: '',
@@ -310,6 +315,13 @@ export function UGCAdPreviewModal({ asset, onClose }: UGCAdPreviewModalProps) {
                   : 'Recently created'}
               </span>
             </div>
+            {/* Why this came from a different model (provider failover) */}
+            {asset.chainMetadata?.failover?.hops.map(hop => (
+              <span key={hop.at} className="block text-xs text-amber-300/80 mt-1">
+                {describeFailoverHop(hop)}
+                {hop.creditsRefunded > 0 && ` (${hop.creditsRefunded} credits refunded)`}
+              </span>
+            ))}
           </DialogDescription>
         </DialogHeader>
 
@@ -328,6 +340,7 @@ export function UGCAdPreviewModal({ asset, onClose }: UGCAdPreviewModalProps) {
               asset.type === 'video' ? (
                 <video
                   src={mediaUrl}
+                  poster={asset.posterUrl || undefined}
                   controls
                   className="max-h-[500px] rounded-lg shadow-xl"
                   preload="auto"
@@ -482,12 +495,12 @@ export function UGCAdPreviewModal({ asset, onClose }: UGCAdPreviewModalProps) {
                           type="datetime-local"
                           value={scheduledDateTime}
                           onChange={(e) => setScheduledDateTime(e.target.value)}
-                          min={new Date().toISOString().slice(0, 16)}
+                          min={formatInTimeZone(new Date(), "yyyy-MM-dd'T'HH:mm")}
                           disabled={postMutation.isPending}
                           className="w-full bg-white/10 border-white/20 text-white"
                         />
                         <p className="text-xs text-white/50">
-                          Your post will be published at this time (converts to UTC automatically)
+                          Your post will be published at this time in {timeZone}
                         </p>
                       </div>
                     )}
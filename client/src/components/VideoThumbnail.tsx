@@ -0,0 +1,82 @@
+/**
+ * Video Thumbnail Component (Feb 2026)
+ *
+ * Lightweight tile for a video asset - never loads the MP4:
+ * - Poster JPEG at rest
+ * - Looping WebP preview while hovered
+ * - Sprite sheet scrubbing along the bottom strip (hover position = time)
+ *
+ * Thumbnails are generated after each render / KIE completion; callers fall
+ * back to a <video> tile while posterUrl is still missing.
+ */
+
+import { useState } from "react";
+import { getSpriteFrameIndex, type VideoSpriteSheet } from "@shared/videoFormats";
+
+interface VideoThumbnailProps {
+  posterUrl: string;
+  previewUrl?: string | null;
+  spriteSheet?: VideoSpriteSheet | null;
+  alt: string;
+  className?: string;
+}
+
+// Share of the tile height (from the bottom) that scrubs instead of playing the preview
+const SCRUB_ZONE = 0.3;
+
+export function VideoThumbnail({ posterUrl, previewUrl, spriteSheet, alt, className = "" }: VideoThumbnailProps) {
+  const [isHovering, setIsHovering] = useState(false);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!spriteSheet) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const inScrubZone = e.clientY - rect.top > rect.height * (1 - SCRUB_ZONE);
+    setScrubPosition(inScrubZone ? (e.clientX - rect.left) / rect.width : null);
+  };
+
+  const handleMouseLeave = () => {
+    setIsHovering(false);
+    setScrubPosition(null);
+  };
+
+  // Background offsets for the sprite frame under the cursor
+  const getSpriteStyle = (sheet: VideoSpriteSheet, position: number): React.CSSProperties => {
+    const frame = getSpriteFrameIndex(sheet, position);
+    const column = frame % sheet.columns;
+    const row = Math.floor(frame / sheet.columns);
+    return {
+      aspectRatio: `${sheet.frameWidth} / ${sheet.frameHeight}`,
+      backgroundImage: `url(${sheet.url})`,
+      backgroundSize: `${sheet.columns * 100}% ${sheet.rows * 100}%`,
+      backgroundPosition: `${sheet.columns > 1 ? (column / (sheet.columns - 1)) * 100 : 0}% ${sheet.rows > 1 ? (row / (sheet.rows - 1)) * 100 : 0}%`,
+    };
+  };
+
+  return (
+    <div
+      className={`relative w-full h-full overflow-hidden ${className}`}
+      onMouseEnter={() => setIsHovering(true)}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={handleMouseLeave}
+      data-testid="video-thumbnail"
+    >
+      <img
+        src={isHovering && previewUrl && scrubPosition === null ? previewUrl : posterUrl}
+        alt={alt}
+        className="w-full h-full object-cover"
+        loading="lazy"
+      />
+
+      {/* Scrubbing - frame under the cursor plus a position bar */}
+      {spriteSheet && scrubPosition !== null && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black">
+          <div className="h-full" style={getSpriteStyle(spriteSheet, scrubPosition)} />
+          <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/20">
+            <div className="h-full bg-white" style={{ width: `${scrubPosition * 100}%` }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * WorkspaceSwitcher - Pick the active workspace (Feb 2026)
+ *
+ * Every API call is scoped to the active workspace, so switching refetches
+ * everything. Hidden until the user belongs to another workspace or has an
+ * invitation.
+ */
+
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Check, ChevronDown, Mail, Users } from 'lucide-react';
+import { queryClient } from '@/lib/queryClient';
+import { setActiveWorkspaceId } from '@/lib/workspace';
+import type { WorkspaceRole } from '@shared/workspaces';
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  ownerId: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspacesResponse {
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string;
+  invitations: Array<{ id: string; token: string; workspaceName: string; role: WorkspaceRole }>;
+}
+
+export function WorkspaceSwitcher() {
+  const { data } = useQuery<WorkspacesResponse>({
+    queryKey: ['/api/workspaces'],
+    staleTime: 60 * 1000,
+  });
+
+  if (!data || (data.workspaces.length < 2 && data.invitations.length === 0)) {
+    return null;
+  }
+
+  const active = data.workspaces.find(w => w.id === data.activeWorkspaceId);
+
+  const switchTo = (workspace: WorkspaceSummary) => {
+    if (workspace.id === data.activeWorkspaceId) return;
+    // The user's own workspace is the default - no header needed
+    setActiveWorkspaceId(workspace.role === 'owner' ? null : workspace.id);
+    queryClient.invalidateQueries();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="inline-flex items-center gap-1.5 text-sm text-white/90 hover:text-white max-w-[160px]">
+          <Users className="h-4 w-4 shrink-0" />
+          <span className="truncate">{active?.name ?? 'Workspace'}</span>
+          {data.invitations.length > 0 && (
+            <span className="h-2 w-2 rounded-full bg-blue-400 shrink-0" />
+          )}
+          <ChevronDown className="h-3 w-3 shrink-0" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-64 z-[110]" align="end">
+        <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+        {data.workspaces.map(workspace => (
+          <DropdownMenuItem key={workspace.id} onClick={() => switchTo(workspace)}>
+            <div className="flex w-full items-center justify-between gap-2">
+              <span className="truncate">{workspace.name}</span>
+              <span className="flex items-center gap-1 text-xs text-muted-foreground capitalize">
+                {workspace.role}
+                {workspace.id === data.activeWorkspaceId && <Check className="h-3 w-3" />}
+              </span>
+            </div>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        {data.invitations.length > 0 && (
+          <DropdownMenuItem asChild>
+            <Link href="/settings/workspace">
+              <a className="flex w-full items-center">
+                <Mail className="mr-2 h-4 w-4" />
+                {data.invitations.length} pending invitation{data.invitations.length === 1 ? '' : 's'}
+              </a>
+            </Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem asChild>
+          <Link href="/settings/workspace">
+            <a className="flex w-full items-center">
+              <Users className="mr-2 h-4 w-4" />
+              Manage members
+            </a>
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
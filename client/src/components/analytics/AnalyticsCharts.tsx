@@ -22,6 +22,8 @@ import {
   Legend,
 } from 'recharts';
 import { format, parseISO } from 'date-fns';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { toZonedWallClock } from '@shared/timezones';
 import {
   Eye,
   TrendingUp,
@@ -96,12 +98,16 @@ const PLATFORM_COLORS: Record<string, string> = {
 // HELPER FUNCTIONS
 // ============================================
 
-// Aggregate posts by date
-function aggregateByDate(posts: AnalyticsPost[], metricKey: MetricKey): { date: string; value: number; formattedDate: string }[] {
+// Aggregate posts by date - calendar days in the user's timezone
+function aggregateByDate(
+  posts: AnalyticsPost[],
+  metricKey: MetricKey,
+  timeZone: string
+): { date: string; value: number; formattedDate: string }[] {
   const dateMap = new Map<string, number>();
 
   posts.forEach((post) => {
-    const date = format(parseISO(post.createdAt), 'yyyy-MM-dd');
+    const date = format(toZonedWallClock(parseISO(post.createdAt), timeZone), 'yyyy-MM-dd');
     const currentValue = dateMap.get(date) || 0;
     dateMap.set(date, currentValue + (post.metrics[metricKey] || 0));
   });
@@ -167,11 +173,12 @@ function CustomTooltip({ active, payload, label }: any) {
 
 export default function AnalyticsCharts({ summary, posts }: AnalyticsChartsProps) {
   const [selectedMetric, setSelectedMetric] = useState<MetricKey>('views');
+  const { timeZone } = useTimeZone();
 
   // Memoized data aggregations
   const timeSeriesData = useMemo(
-    () => aggregateByDate(posts, selectedMetric),
-    [posts, selectedMetric]
+    () => aggregateByDate(posts, selectedMetric, timeZone),
+    [posts, selectedMetric, timeZone]
   );
 
   const platformData = useMemo(
@@ -0,0 +1,710 @@
+/**
+ * ContentCalendar Component (Feb 2026)
+ *
+ * Week and month calendar of the workspace's social posts:
+ * - Week: one lane per connected account (platform + account), a column per day
+ * - Month: a cell per day, entries grouped by platform
+ *
+ * Scheduled posts can be dragged to another day to reschedule them (keeping
+ * their time of day) until Late.dev's lock window. Clicking + on a future day
+ * schedules a new post from a ready media asset. Upcoming Autopilot runs show
+ * as dashed ghost entries - they become posts once generated.
+ *
+ * Days and times are in the user's timezone (useTimeZone), not the browser's.
+ */
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { SCHEDULED_POST_LOCK_MINUTES, isScheduledPostLocked } from '@shared/socialPosts';
+import { Bot, ChevronLeft, ChevronRight, Film, Loader2, Plus } from 'lucide-react';
+import {
+  addDays,
+  addHours,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isBefore,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfHour,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface CalendarPlatformPost {
+  id: number;
+  platform: string;
+  status: string;
+  scheduledFor: string | null;
+  platformPostUrl: string | null;
+  lateTarget: { accountId?: string } | null;
+}
+
+interface CalendarPost {
+  groupId: number | null;
+  status: string;
+  caption: string | null;
+  scheduledFor: string | null;
+  createdAt: string;
+  thumbnailUrl: string | null;
+  posts: CalendarPlatformPost[];
+}
+
+interface UpcomingGeneration {
+  configId: string;
+  storeId: string;
+  storeName: string | null;
+  platforms: string[];
+  scheduledAt: string;
+}
+
+interface CalendarResponse {
+  posts: CalendarPost[];
+  autopilot: UpcomingGeneration[];
+}
+
+interface ConnectedAccount {
+  _id: string;
+  platform: string;
+  username: string;
+  displayName: string;
+  isActive: boolean;
+}
+
+interface MediaListResponse {
+  assets: Array<{
+    id: string;
+    type: string;
+    status: string;
+    prompt: string;
+    resultUrl: string | null;
+    posterUrl: string | null;
+    createdAt: string;
+  }>;
+}
+
+// One platform of a post, placed on the day it goes out (or went out) - `at`
+// is wall-clock time in the user's timezone
+interface CalendarEntry {
+  item: CalendarPost;
+  post: CalendarPlatformPost;
+  at: Date;
+}
+
+interface CalendarLane {
+  key: string;
+  platform: string;
+  accountId?: string;
+  label: string;
+}
+
+// Slot picked for a new post - the lane preselects its account
+interface NewPostSlot {
+  day: Date;
+  accountId?: string;
+}
+
+type CalendarView = 'week' | 'month';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+const DEFAULT_POST_HOUR = 10;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatPlatform = (platform: string): string =>
+  platform.charAt(0).toUpperCase() + platform.slice(1);
+
+const laneKey = (platform: string, accountId?: string): string => `${platform}:${accountId ?? ''}`;
+
+const entryAt = (item: CalendarPost, post: CalendarPlatformPost): Date =>
+  new Date(post.scheduledFor ?? item.scheduledFor ?? item.createdAt);
+
+const canReschedule = (item: CalendarPost): boolean =>
+  item.status === 'scheduled' && !!item.scheduledFor && !isScheduledPostLocked(item.scheduledFor);
+
+// Same time of day, on another day (wall-clock times)
+const moveToDay = (time: Date, day: Date): Date => {
+  const moved = new Date(day);
+  moved.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  return moved;
+};
+
+// Default time for a new post on a day: mid-morning, or the next full hour today
+const defaultPostTime = (day: Date, now: Date): Date => {
+  const time = new Date(day);
+  time.setHours(DEFAULT_POST_HOUR, 0, 0, 0);
+  const earliest = startOfHour(addHours(now, 1));
+  return isBefore(time, earliest) ? earliest : time;
+};
+
+const toLocalInputValue = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const entryStatusColor: Record<string, string> = {
+  scheduled: 'border-blue-500/40 bg-blue-500/10',
+  posting: 'border-yellow-500/40 bg-yellow-500/10',
+  published: 'border-green-500/40 bg-green-500/10',
+  failed: 'border-red-500/40 bg-red-500/10',
+  cancelled: 'border-gray-500/40 bg-gray-500/10 opacity-60',
+};
+
+// ============================================
+// ENTRIES
+// ============================================
+
+function PostChip({
+  entry,
+  onDragStart,
+  onDragEnd,
+}: {
+  entry: CalendarEntry;
+  onDragStart: (item: CalendarPost) => void;
+  onDragEnd: () => void;
+}) {
+  const { item, post, at } = entry;
+  const draggable = canReschedule(item);
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', String(post.id));
+        onDragStart(item);
+      }}
+      onDragEnd={onDragEnd}
+      title={item.caption || 'No caption'}
+      className={`
+        flex items-center gap-1.5 rounded-md border p-1 text-xs text-white
+        ${entryStatusColor[post.status] || 'border-white/10 bg-white/5'}
+        ${draggable ? 'cursor-grab active:cursor-grabbing' : ''}
+      `}
+    >
+      {item.thumbnailUrl ? (
+        <img src={item.thumbnailUrl} alt="" className="h-8 w-6 shrink-0 rounded object-cover" />
+      ) : (
+        <div className="flex h-8 w-6 shrink-0 items-center justify-center rounded bg-white/10">
+          <Film className="h-3 w-3 text-white/40" />
+        </div>
+      )}
+      <div className="min-w-0">
+        <p className="font-medium">{format(at, 'h:mm a')}</p>
+        <p className="truncate text-white/50">{post.status}</p>
+      </div>
+    </div>
+  );
+}
+
+function AutopilotGhost({ generation }: { generation: UpcomingGeneration }) {
+  const { formatInTimeZone } = useTimeZone();
+
+  return (
+    <div
+      title="Autopilot generates and posts a video around this time"
+      className="flex items-center gap-1.5 rounded-md border border-dashed border-purple-500/40 p-1 text-xs text-purple-200/70"
+    >
+      <Bot className="h-3.5 w-3.5 shrink-0" />
+      <div className="min-w-0">
+        <p className="font-medium">{formatInTimeZone(generation.scheduledAt, 'h:mm a')}</p>
+        <p className="truncate text-purple-200/50">
+          {generation.storeName || 'Autopilot'}
+          {generation.platforms.length > 0 && ` · ${generation.platforms.map(formatPlatform).join(', ')}`}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// A day cell (of a lane in week view) - drop target, and + for a new post
+function DayCell({
+  day,
+  dragging,
+  className,
+  onDrop,
+  onCreate,
+  children,
+}: {
+  day: Date;
+  dragging: boolean;
+  className?: string;
+  onDrop: (day: Date) => void;
+  onCreate?: () => void;
+  children: ReactNode;
+}) {
+  const { toWallClock } = useTimeZone();
+  const [isOver, setIsOver] = useState(false);
+  const isPast = isBefore(day, startOfDay(toWallClock(new Date())));
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!dragging || isPast) return;
+        e.preventDefault();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsOver(false);
+        onDrop(day);
+      }}
+      className={`group relative space-y-1 p-1 transition-colors ${isOver ? 'bg-blue-500/20' : ''} ${className ?? ''}`}
+    >
+      {children}
+      {onCreate && !isPast && (
+        <button
+          onClick={onCreate}
+          title="Schedule a post"
+          className="flex w-full items-center justify-center rounded-md py-1 text-white/30 opacity-0 transition-opacity hover:bg-white/10 hover:text-white group-hover:opacity-100"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// NEW POST DIALOG
+// ============================================
+
+function NewPostDialog({
+  slot,
+  accounts,
+  onClose,
+}: {
+  slot: NewPostSlot | null;
+  accounts: ConnectedAccount[];
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const { toWallClock, fromWallClock, formatInTimeZone } = useTimeZone();
+  const [mediaAssetId, setMediaAssetId] = useState('');
+  const [accountIds, setAccountIds] = useState<string[]>([]);
+  const [caption, setCaption] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
+
+  // Start fresh for each slot
+  useEffect(() => {
+    if (!slot) return;
+    setMediaAssetId('');
+    setAccountIds(slot.accountId ? [slot.accountId] : []);
+    setCaption('');
+    setScheduledFor(toLocalInputValue(defaultPostTime(slot.day, toWallClock(new Date()))));
+  }, [slot, toWallClock]);
+
+  const { data: media } = useQuery<MediaListResponse>({
+    queryKey: ['/api/ai/media'],
+    enabled: !!slot,
+  });
+  const videos = (media?.assets ?? []).filter(
+    asset => asset.type === 'video' && asset.status === 'ready' && asset.resultUrl
+  );
+  const video = videos.find(asset => asset.id === mediaAssetId);
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest('POST', '/api/social/post', {
+        videoUrl: video!.resultUrl,
+        mediaAssetId,
+        caption,
+        scheduledFor: fromWallClock(new Date(scheduledFor)).toISOString(),
+        targets: accountIds.map(accountId => ({
+          platform: accounts.find(account => account._id === accountId)!.platform,
+          accountId,
+        })),
+      })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/social/calendar'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/social/scheduled'] });
+      toast({ title: 'Post scheduled' });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to schedule post', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleAccount = (accountId: string, checked: boolean) => {
+    setAccountIds(current => checked ? [...current, accountId] : current.filter(id => id !== accountId));
+  };
+
+  const canSubmit = !!video
+    && accountIds.length > 0
+    && !!scheduledFor
+    && !isScheduledPostLocked(fromWallClock(new Date(scheduledFor)));
+
+  return (
+    <Dialog open={!!slot} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-[#0B0B0B] border-white/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Schedule a Post</DialogTitle>
+          <DialogDescription className="text-white/60">
+            {slot && `Post one of your videos on ${format(slot.day, 'EEEE, MMM d')}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Video</Label>
+            <Select value={mediaAssetId} onValueChange={setMediaAssetId}>
+              <SelectTrigger className="bg-white/5 border-white/10 text-white">
+                <SelectValue placeholder={videos.length > 0 ? 'Pick a video' : 'No ready videos'} />
+              </SelectTrigger>
+              <SelectContent>
+                {videos.map(asset => (
+                  <SelectItem key={asset.id} value={asset.id}>
+                    {asset.prompt.slice(0, 50) || 'Untitled video'} · {formatInTimeZone(asset.createdAt, 'MMM d')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Accounts</Label>
+            {accounts.length === 0 ? (
+              <p className="text-sm text-white/40">Connect a social account in settings first</p>
+            ) : (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {accounts.map(account => (
+                  <label key={account._id} className="flex items-center gap-2 rounded-lg bg-white/5 p-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={accountIds.includes(account._id)}
+                      onCheckedChange={(checked) => toggleAccount(account._id, checked === true)}
+                    />
+                    <span className="truncate">
+                      {formatPlatform(account.platform)} · @{account.username}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-post-time">Scheduled for</Label>
+            <Input
+              id="new-post-time"
+              type="datetime-local"
+              value={scheduledFor}
+              onChange={(e) => setScheduledFor(e.target.value)}
+              className="bg-white/5 border-white/10 text-white"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-post-caption">Caption</Label>
+            <Textarea
+              id="new-post-caption"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              maxLength={2200}
+              rows={4}
+              placeholder="Leave empty to auto-generate"
+              className="bg-white/5 border-white/10 text-white"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} className="text-white hover:bg-white/10">
+            Close
+          </Button>
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !canSubmit}>
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============================================
+// CALENDAR
+// ============================================
+
+export default function ContentCalendar() {
+  const { toast } = useToast();
+  const { timeZone, toWallClock, fromWallClock } = useTimeZone();
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [dragging, setDragging] = useState<CalendarPost | null>(null);
+  const [newPostSlot, setNewPostSlot] = useState<NewPostSlot | null>(null);
+
+  // Days are wall-clock dates in the user's timezone. Month view shows whole
+  // weeks, so the leading/trailing days are fetched too
+  const days = useMemo(() => {
+    const start = view === 'week' ? startOfWeek(anchor, WEEK_OPTIONS) : startOfWeek(startOfMonth(anchor), WEEK_OPTIONS);
+    const end = view === 'week' ? endOfWeek(anchor, WEEK_OPTIONS) : endOfWeek(endOfMonth(anchor), WEEK_OPTIONS);
+    const result: Date[] = [];
+    for (let day = start; !isBefore(end, day); day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [view, anchor]);
+
+  const from = fromWallClock(days[0]).toISOString();
+  const to = fromWallClock(addDays(days[days.length - 1], 1)).toISOString();
+  const today = toWallClock(new Date());
+
+  const { data, isLoading } = useQuery<CalendarResponse>({
+    queryKey: ['/api/social/calendar', from, to],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to });
+      return (await apiRequest('GET', `/api/social/calendar?${params}`)).json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const { data: accountsData } = useQuery<{ accounts: ConnectedAccount[] }>({
+    queryKey: ['/api/social/accounts'],
+  });
+  const accounts = (accountsData?.accounts ?? []).filter(account => account.isActive);
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ item, scheduledFor }: { item: CalendarPost; scheduledFor: Date }) =>
+      (await apiRequest('PATCH', `/api/social/posts/${item.posts[0].id}`, {
+        scheduledFor: scheduledFor.toISOString(),
+      })).json(),
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/social/calendar'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/social/scheduled'] });
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to reschedule post', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const entries = useMemo<CalendarEntry[]>(() =>
+    (data?.posts ?? []).flatMap(item => item.posts.map(post => ({ item, post, at: toWallClock(entryAt(item, post)) }))),
+    [data, toWallClock]
+  );
+  const autopilot = data?.autopilot ?? [];
+
+  // Connected accounts, plus accounts that have since been disconnected
+  const lanes = useMemo<CalendarLane[]>(() => {
+    const byKey = new Map<string, CalendarLane>();
+    for (const account of accounts) {
+      byKey.set(laneKey(account.platform, account._id), {
+        key: laneKey(account.platform, account._id),
+        platform: account.platform,
+        accountId: account._id,
+        label: `${formatPlatform(account.platform)} · @${account.username}`,
+      });
+    }
+    for (const { post } of entries) {
+      const key = laneKey(post.platform, post.lateTarget?.accountId);
+      if (!byKey.has(key)) {
+        byKey.set(key, { key, platform: post.platform, label: formatPlatform(post.platform) });
+      }
+    }
+    return Array.from(byKey.values()).sort((a, b) => a.label.localeCompare(b.label));
+  }, [accounts, entries]);
+
+  const entriesOn = (day: Date, lane?: string) => entries
+    .filter(entry => isSameDay(entry.at, day))
+    .filter(entry => !lane || laneKey(entry.post.platform, entry.post.lateTarget?.accountId) === lane)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const autopilotOn = (day: Date) => autopilot.filter(generation => isSameDay(toWallClock(generation.scheduledAt), day));
+
+  const handleDrop = (day: Date) => {
+    const item = dragging;
+    setDragging(null);
+    if (!item?.scheduledFor) return;
+
+    const current = toWallClock(item.scheduledFor);
+    if (isSameDay(current, day)) return;
+
+    const scheduledFor = fromWallClock(moveToDay(current, day));
+    if (isScheduledPostLocked(scheduledFor)) {
+      toast({
+        title: "Can't move post there",
+        description: `Posts must be scheduled at least ${SCHEDULED_POST_LOCK_MINUTES} minutes ahead`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    rescheduleMutation.mutate({ item, scheduledFor });
+  };
+
+  const step = (direction: 1 | -1) => {
+    setAnchor(current => view === 'week' ? addWeeks(current, direction) : addMonths(current, direction));
+  };
+
+  const chipProps = { onDragStart: setDragging, onDragEnd: () => setDragging(null) };
+  const title = view === 'week'
+    ? `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+    : format(anchor, 'MMMM yyyy');
+
+  return (
+    <div className="space-y-4">
+      {/* Navigation */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => step(-1)} className="border-white/20 text-white hover:bg-white/10">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(toWallClock(new Date()))} className="border-white/20 text-white hover:bg-white/10">
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => step(1)} className="border-white/20 text-white hover:bg-white/10">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="ml-2 text-lg font-medium text-white">{title}</h3>
+          <span className="text-xs text-white/40">{timeZone}</span>
+          {(isLoading || rescheduleMutation.isPending) && <Loader2 className="h-4 w-4 animate-spin text-white/60" />}
+        </div>
+        <div className="inline-flex rounded-lg border border-white/10 bg-white/5 p-1">
+          {(['week', 'month'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`
+                px-4 py-1.5 rounded-md text-sm font-medium transition-all
+                ${view === option ? 'bg-blue-600 text-white' : 'text-white/60 hover:text-white'}
+              `}
+            >
+              {formatPlatform(option)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'week' ? (
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5">
+          <div className="grid min-w-[56rem] grid-cols-[10rem_repeat(7,minmax(0,1fr))] divide-x divide-white/10">
+            {/* Day headers */}
+            <div className="border-b border-white/10" />
+            {days.map(day => (
+              <div
+                key={day.toISOString()}
+                className={`border-b border-white/10 px-2 py-2 text-center text-xs ${isSameDay(day, today) ? 'text-blue-400' : 'text-white/60'}`}
+              >
+                <p className="uppercase tracking-wider">{format(day, 'EEE')}</p>
+                <p className="text-base font-medium">{format(day, 'd')}</p>
+              </div>
+            ))}
+
+            {/* One lane per account */}
+            {lanes.map(lane => (
+              <div key={lane.key} className="contents">
+                <div className="border-b border-white/10 p-2 text-xs text-white/80 truncate" title={lane.label}>
+                  {lane.label}
+                </div>
+                {days.map(day => (
+                  <DayCell
+                    key={day.toISOString()}
+                    day={day}
+                    dragging={!!dragging}
+                    className="min-h-[4.5rem] border-b border-white/10"
+                    onDrop={handleDrop}
+                    onCreate={() => setNewPostSlot({ day, accountId: lane.accountId })}
+                  >
+                    {entriesOn(day, lane.key).map(entry => (
+                      <PostChip key={entry.post.id} entry={entry} {...chipProps} />
+                    ))}
+                  </DayCell>
+                ))}
+              </div>
+            ))}
+
+            {/* Autopilot ghosts */}
+            <div className="contents">
+              <div className="p-2 text-xs text-purple-200/70 flex items-center gap-1.5">
+                <Bot className="h-3.5 w-3.5" />
+                Autopilot
+              </div>
+              {days.map(day => (
+                <div key={day.toISOString()} className="min-h-[4.5rem] space-y-1 p-1">
+                  {autopilotOn(day).map(generation => (
+                    <AutopilotGhost key={`${generation.configId}-${generation.scheduledAt}`} generation={generation} />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-white/10 bg-white/5">
+          <div className="grid min-w-[56rem] grid-cols-7">
+            {days.slice(0, 7).map(day => (
+              <div key={day.toISOString()} className="border-b border-white/10 py-2 text-center text-xs uppercase tracking-wider text-white/60">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+            {days.map(day => {
+              const dayEntries = entriesOn(day);
+              const platforms = Array.from(new Set(dayEntries.map(entry => entry.post.platform))).sort();
+              return (
+                <DayCell
+                  key={day.toISOString()}
+                  day={day}
+                  dragging={!!dragging}
+                  className={`min-h-[7rem] border-b border-r border-white/10 ${isSameMonth(day, anchor) ? '' : 'opacity-40'}`}
+                  onDrop={handleDrop}
+                  onCreate={() => setNewPostSlot({ day })}
+                >
+                  <p className={`text-xs font-medium ${isSameDay(day, today) ? 'text-blue-400' : 'text-white/60'}`}>
+                    {format(day, 'd')}
+                  </p>
+                  {platforms.map(platform => (
+                    <div key={platform} className="space-y-1">
+                      <p className="text-[10px] uppercase tracking-wider text-white/40">{formatPlatform(platform)}</p>
+                      {dayEntries.filter(entry => entry.post.platform === platform).map(entry => (
+                        <PostChip key={entry.post.id} entry={entry} {...chipProps} />
+                      ))}
+                    </div>
+                  ))}
+                  {autopilotOn(day).map(generation => (
+                    <AutopilotGhost key={`${generation.configId}-${generation.scheduledAt}`} generation={generation} />
+                  ))}
+                </DayCell>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-white/40">
+        Drag a scheduled post to another day to move it. Changes lock {SCHEDULED_POST_LOCK_MINUTES} minutes before posting.
+      </p>
+
+      <NewPostDialog slot={newPostSlot} accounts={accounts} onClose={() => setNewPostSlot(null)} />
+    </div>
+  );
+}
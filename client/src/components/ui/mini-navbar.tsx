@@ -2,9 +2,10 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'wouter';
-import { Video, Settings, Shield } from 'lucide-react';
+import { Video, Settings, Shield, Users } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { useBrand } from '@/contexts/BrandContext';
+import { WorkspaceSwitcher } from '@/components/WorkspaceSwitcher';
 
 interface UserData {
   id: string;
@@ -108,6 +109,7 @@ export function Navbar() {
               </a>
             </Link>
           )}
+          <WorkspaceSwitcher />
           <Link href="/settings/billing">
             <a className="relative inline-flex items-center text-white/90 hover:text-white cursor-pointer transition-colors duration-200 ease-out hover:drop-shadow-[0_0_8px_rgba(255,255,255,0.5)]">
               <Settings className="h-5 w-5" />
@@ -142,6 +144,12 @@ export function Navbar() {
               </a>
             </Link>
           )}
+          <Link href="/settings/workspace">
+            <a className="inline-flex items-center justify-center gap-2 text-base text-white/90 hover:text-white transition-colors duration-200 w-full text-center cursor-pointer hover:drop-shadow-[0_0_8px_rgba(255,255,255,0.5)]">
+              <Users className="h-4 w-4" />
+              <span>Workspace</span>
+            </a>
+          </Link>
           <Link href="/settings/billing">
             <a className="inline-flex items-center justify-center gap-2 text-base text-white/90 hover:text-white transition-colors duration-200 w-full text-center cursor-pointer hover:drop-shadow-[0_0_8px_rgba(255,255,255,0.5)]">
               <Settings className="h-4 w-4" />
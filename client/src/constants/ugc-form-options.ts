@@ -7,6 +7,8 @@
  * - Generation Modes
  */
 
+import { MEDIA_PROVIDERS, getMaxDuration, type MediaProviderDescriptor } from "@shared/mediaProviders";
+
 // ==================== CUSTOMER PERSONAS (ICP) ====================
 
 export interface ICPOption {
@@ -138,6 +140,7 @@ export interface ModeOption {
   description: string;
   badge: string;
   estimatedTime: string;
+  provider: MediaProviderDescriptor; // Video provider - durations come from its descriptor
   maxDuration: number; // Maximum allowed duration in seconds
 }
 
@@ -148,7 +151,8 @@ export const MODE_OPTIONS: ModeOption[] = [
     description: "Best visuals, short clips (~8s max)",
     badge: "RECOMMENDED",
     estimatedTime: "~2-3 min",
-    maxDuration: 8, // Provider hard-caps at ~8s for image-to-video
+    provider: MEDIA_PROVIDERS["kie-veo3"],
+    maxDuration: getMaxDuration(MEDIA_PROVIDERS["kie-veo3"], true), // Provider hard-caps at ~8s for image-to-video
   },
   {
     value: "veo3-only",
@@ -156,7 +160,8 @@ export const MODE_OPTIONS: ModeOption[] = [
     description: "Balanced quality, supports longer videos (up to 20s)",
     badge: "FASTER",
     estimatedTime: "~1-2 min",
-    maxDuration: 20,
+    provider: MEDIA_PROVIDERS["kie-veo3"],
+    maxDuration: getMaxDuration(MEDIA_PROVIDERS["kie-veo3"]),
   },
   {
     value: "sora2",
@@ -164,7 +169,8 @@ export const MODE_OPTIONS: ModeOption[] = [
     description: "Budget option, strict duration limits (up to 15s)",
     badge: "CHEAPER",
     estimatedTime: "~1-2 min",
-    maxDuration: 15, // Sora2 non-storyboard models only support n_frames "10" or "15"
+    provider: MEDIA_PROVIDERS["kie-sora2"],
+    maxDuration: getMaxDuration(MEDIA_PROVIDERS["kie-sora2"]), // Sora2 non-storyboard models only support n_frames "10" or "15"
   },
 ];
 
@@ -189,8 +195,9 @@ export const DURATION_OPTIONS: DurationOption[] = [
 export function getAllowedDurations(mode: string): number[] {
   const modeOption = MODE_OPTIONS.find(opt => opt.value === mode);
   const maxDuration = modeOption?.maxDuration || 20;
+  const steps = modeOption?.provider.durations?.steps;
   return DURATION_OPTIONS
-    .filter(opt => opt.value <= maxDuration)
+    .filter(opt => opt.value <= maxDuration && (!steps || steps.includes(opt.value)))
     .map(opt => opt.value);
 }
 
@@ -0,0 +1,112 @@
+/**
+ * useAssetProgress (Feb 2026)
+ *
+ * Subscribes to GET /api/ai/media/progress/stream (Server-Sent Events) and
+ * keeps the latest progress event per asset. Read with fetch rather than
+ * EventSource so the Bearer token can be sent; reconnects with backoff.
+ *
+ * onSettled fires once per asset when it turns ready or error - use it to
+ * invalidate the queries that hold the asset instead of polling them.
+ * onReconnect fires when the stream comes back after a drop, since events
+ * sent while disconnected are lost - refetch there too.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { getAuthHeaders } from "@/lib/queryClient";
+import type { AssetProgressEvent } from "@shared/assetProgress";
+
+const STREAM_URL = "/api/ai/media/progress/stream";
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+interface UseAssetProgressOptions {
+  enabled?: boolean;
+  onSettled?: (event: AssetProgressEvent) => void;
+  onReconnect?: () => void;
+}
+
+export function useAssetProgress({ enabled = true, onSettled, onReconnect }: UseAssetProgressOptions = {}) {
+  const [progress, setProgress] = useState<Record<string, AssetProgressEvent>>({});
+
+  // Latest callback without resubscribing on every render
+  const onSettledRef = useRef(onSettled);
+  const onReconnectRef = useRef(onReconnect);
+  onSettledRef.current = onSettled;
+  onReconnectRef.current = onReconnect;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let connected = false;
+
+    const handleEvent = (event: AssetProgressEvent) => {
+      setProgress(prev => ({ ...prev, [event.assetId]: event }));
+      if (event.status !== "processing") {
+        onSettledRef.current?.(event);
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const authHeaders = await getAuthHeaders();
+        const res = await fetch(STREAM_URL, {
+          headers: { ...authHeaders, Accept: "text/event-stream" },
+          credentials: "include",
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) {
+          throw new Error(`${res.status}: ${res.statusText}`);
+        }
+
+        if (connected) {
+          onReconnectRef.current?.();
+        }
+        connected = true;
+        attempt = 0;
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          // Messages end with a blank line; comment lines (":") are heartbeats
+          const messages = buffer.split("\n\n");
+          buffer = messages.pop() || "";
+          for (const message of messages) {
+            const data = message
+              .split("\n")
+              .filter(line => line.startsWith("data:"))
+              .map(line => line.slice(5).trim())
+              .join("\n");
+            if (data) {
+              handleEvent(JSON.parse(data) as AssetProgressEvent);
+            }
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn("[AssetProgress] Stream error:", error);
+      }
+
+      if (controller.signal.aborted) return;
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+      attempt++;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+    };
+  }, [enabled]);
+
+  return progress;
+}
@@ -0,0 +1,44 @@
+/**
+ * useTimeZone (Feb 2026)
+ *
+ * The timezone schedules, the calendar and analytics are shown in: the one the
+ * server resolved (GET /api/user/timezone) - the user's own, else their
+ * workspace's, else UTC - so day buckets and slot times match the server's.
+ *
+ * date-fns works in the browser's timezone, so dates go through toWallClock
+ * before formatting or bucketing by day, and datetime-local values through
+ * fromWallClock before being sent.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fromZonedWallClock, resolveTimeZone, toZonedWallClock } from "@shared/timezones";
+
+export const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export interface TimeZoneSettings {
+  timezone: string | null;
+  workspaceTimezone: string | null;
+  effectiveTimezone: string;
+}
+
+export function useTimeZone() {
+  const { data: settings, isLoading } = useQuery<TimeZoneSettings>({
+    queryKey: ["/api/user/timezone"],
+  });
+
+  const timeZone = resolveTimeZone(settings?.effectiveTimezone);
+
+  const toWallClock = useCallback((date: Date | string) => toZonedWallClock(new Date(date), timeZone), [timeZone]);
+  const fromWallClock = useCallback((wallClock: Date) => fromZonedWallClock(wallClock, timeZone), [timeZone]);
+  const formatInTimeZone = useCallback(
+    (date: Date | string, pattern: string) => format(toZonedWallClock(new Date(date), timeZone), pattern),
+    [timeZone]
+  );
+
+  return useMemo(
+    () => ({ timeZone, settings, isLoading, toWallClock, fromWallClock, formatInTimeZone }),
+    [timeZone, settings, isLoading, toWallClock, fromWallClock, formatInTimeZone]
+  );
+}
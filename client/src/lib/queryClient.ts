@@ -1,9 +1,17 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { supabase } from "./supabase";
+import { getWorkspaceHeaders, setActiveWorkspaceId } from "./workspace";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+
+    // Removed from the stored workspace - fall back to the user's own
+    if (res.status === 403 && text.includes('"code":"workspace_not_member"')) {
+      setActiveWorkspaceId(null);
+      window.location.reload();
+    }
+
     throw new Error(`${res.status}: ${text}`);
   }
 }
@@ -12,16 +20,17 @@ async function throwIfResNotOk(res: Response) {
  * Get authorization headers with JWT token from Supabase session
  *
  * This helper extracts the access token from the current Supabase session
- * and returns it in the correct format for API Authorization headers.
+ * and returns it in the correct format for API Authorization headers,
+ * along with the active workspace header.
  *
- * @returns Headers object with Authorization bearer token
+ * @returns Headers object with Authorization bearer token and workspace
  * @example
  * const headers = await getAuthHeaders();
  * fetch('/api/endpoint', { headers });
  */
 export async function getAuthHeaders(): Promise<Record<string, string>> {
   const { data: { session } } = await supabase.auth.getSession();
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = getWorkspaceHeaders();
 
   if (session?.access_token) {
     headers['Authorization'] = `Bearer ${session.access_token}`;
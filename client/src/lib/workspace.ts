@@ -0,0 +1,29 @@
+import { WORKSPACE_HEADER } from "@shared/workspaces";
+
+/**
+ * Active workspace (Feb 2026)
+ *
+ * The workspace switcher stores the chosen workspace here and every API call
+ * sends it in the x-workspace-id header (see getAuthHeaders). No stored
+ * workspace means the user's own.
+ */
+
+const STORAGE_KEY = "activeWorkspaceId";
+
+export function getActiveWorkspaceId(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(STORAGE_KEY);
+}
+
+export function setActiveWorkspaceId(workspaceId: string | null) {
+  if (workspaceId) {
+    window.localStorage.setItem(STORAGE_KEY, workspaceId);
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function getWorkspaceHeaders(): Record<string, string> {
+  const workspaceId = getActiveWorkspaceId();
+  return workspaceId ? { [WORKSPACE_HEADER]: workspaceId } : {};
+}
@@ -35,6 +35,7 @@ import {
   Settings,
 } from "lucide-react";
 import { MediaPreviewCard } from "@/components/MediaPreviewCard";
+import { useAssetProgress } from "@/hooks/use-asset-progress";
 import { LimitReachedDialog } from "@/components/LimitReachedDialog";
 import { UGCAdPreviewModal } from "@/components/UGCAdPreviewModal";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
@@ -117,28 +118,21 @@ export default function AIStudioPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch gallery with polling
+  // Fetch gallery - processing assets are refreshed by the progress stream below
   const { data: gallery, isLoading } = useQuery<GetMediaGalleryResponse>({
     queryKey: ['/api/ai/media'],
-    refetchInterval: (data) => {
-      // Poll every 10s if there are processing assets, otherwise don't poll
-      const hasProcessing = data?.assets?.some(a => a.status === 'processing');
-
-      // 🔍 DEBUG: Log polling decision
-      if (hasProcessing) {
-        console.log('[AIStudio] Polling active - processing assets found:',
-          data?.assets?.filter(a => a.status === 'processing').map(a => ({ id: a.id, type: a.type }))
-        );
-      }
-
-      return hasProcessing ? 10000 : false;
-    },
-    refetchIntervalInBackground: false, // Don't poll when tab is inactive
-    // 🆕 Force at least ONE refetch after processing completes
     refetchOnMount: true,
     staleTime: 5000, // Override global Infinity to allow refetch (5 seconds)
   });
 
+  // Live progress (SSE) - refetch the gallery once an asset settles
+  const hasProcessing = !!gallery?.assets?.some(a => a.status === 'processing');
+  const assetProgress = useAssetProgress({
+    enabled: hasProcessing,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['/api/ai/media'] }),
+    onReconnect: () => queryClient.invalidateQueries({ queryKey: ['/api/ai/media'] }),
+  });
+
   // Generate media mutation - Phase 4 (uses preset templates)
   const generateMutation = useMutation({
     mutationFn: async (params: {
@@ -621,6 +615,7 @@ export default function AIStudioPage() {
                 <MediaPreviewCard
                   key={asset.id}
                   asset={asset}
+                  progress={assetProgress[asset.id]}
                   onClick={() => {
                     console.log('[AIStudio] Card clicked, setting selectedAsset:', asset.id);
                     setSelectedAsset(asset);
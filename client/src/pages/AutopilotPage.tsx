@@ -4,17 +4,30 @@
  * Supports two ingestion modes:
  * 1. Generic URL (Demo Mode) - Any product page via direct crawl
  * 2. Shopify Store - Full store integration
+ *
+ * Videos started here show live progress (SSE) under their product. Each
+ * connected store sets the local hours Autopilot may generate in.
  */
 
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { getAuthHeaders } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAssetProgress } from "@/hooks/use-asset-progress";
+import { useTimeZone } from "@/hooks/use-time-zone";
 import { WaveBackground } from "@/components/ui/wave-background";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Tabs,
   TabsContent,
@@ -38,8 +51,10 @@ import {
   Package,
   Palette,
   Upload,
+  Clock,
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { ASSET_PROGRESS_STAGE_LABELS, type AssetProgressEvent } from "@shared/assetProgress";
 
 // ==================== TYPES ====================
 
@@ -73,6 +88,16 @@ interface AutopilotStore {
   createdAt: string;
 }
 
+interface AutopilotDashboard {
+  config: {
+    id: string;
+    postingWindowStart: number;
+    postingWindowEnd: number;
+  } | null;
+}
+
+const DEFAULT_POSTING_WINDOW = { start: 9, end: 21 };
+
 // ==================== WORKFLOW PIPELINE ====================
 
 function WorkflowPipeline({ currentStep }: { currentStep: number }) {
@@ -135,6 +160,139 @@ function WorkflowPipeline({ currentStep }: { currentStep: number }) {
   );
 }
 
+/**
+ * Live progress of a product's video (stage label + bar)
+ */
+function VideoProgress({ progress }: { progress?: AssetProgressEvent }) {
+  if (progress?.status === "ready") {
+    return (
+      <div className="flex items-center gap-2 mt-3 text-sm text-green-400">
+        <CheckCircle className="w-4 h-4" />
+        Video ready - find it in your videos page
+      </div>
+    );
+  }
+
+  if (progress?.status === "error") {
+    return (
+      <div className="flex items-center gap-2 mt-3 text-sm text-red-400">
+        <AlertCircle className="w-4 h-4" />
+        {progress.error || "Video generation failed"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 max-w-sm">
+      <div className="flex justify-between text-xs text-slate-400 mb-1">
+        <span className="flex items-center gap-1">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          {progress ? ASSET_PROGRESS_STAGE_LABELS[progress.stage] : "Starting"}...
+        </span>
+        <span>{progress?.progress ?? 0}%</span>
+      </div>
+      <Progress value={progress?.progress ?? 0} className="h-1.5" />
+    </div>
+  );
+}
+
+/**
+ * A store's posting window - the local hours (end exclusive) Autopilot may
+ * generate in. Saving only sends the window, the rest of the config is kept.
+ */
+function StorePostingWindow({ storeId }: { storeId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { timeZone } = useTimeZone();
+  const [draft, setDraft] = useState<{ start: number; end: number } | null>(null);
+
+  const { data: dashboard } = useQuery<AutopilotDashboard>({
+    queryKey: ["/api/autopilot/dashboard", storeId],
+  });
+
+  const saved = dashboard?.config
+    ? { start: dashboard.config.postingWindowStart, end: dashboard.config.postingWindowEnd }
+    : DEFAULT_POSTING_WINDOW;
+  const postingWindow = draft ?? saved;
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: { start: number; end: number }) => {
+      const authHeaders = await getAuthHeaders();
+      const response = await fetch("/api/autopilot/configs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders },
+        body: JSON.stringify({ storeId, postingWindowStart: next.start, postingWindowEnd: next.end }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.details || error.error || "Failed to save posting window");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/autopilot/dashboard", storeId] });
+      setDraft(null);
+      toast({ title: "Posting window saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save posting window", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hourLabel = (hour: number) => `${hour.toString().padStart(2, "0")}:00`;
+  const isDirty = draft !== null && (draft.start !== saved.start || draft.end !== saved.end);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+      <Clock className="w-4 h-4" />
+      <span>Posts between</span>
+      <Select
+        value={postingWindow.start.toString()}
+        onValueChange={(value) => setDraft({ ...postingWindow, start: Number(value) })}
+      >
+        <SelectTrigger className="w-24 h-8 bg-slate-900 border-slate-600 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Array.from({ length: 24 }, (_, hour) => (
+            <SelectItem key={hour} value={hour.toString()} disabled={hour >= postingWindow.end}>
+              {hourLabel(hour)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span>and</span>
+      <Select
+        value={postingWindow.end.toString()}
+        onValueChange={(value) => setDraft({ ...postingWindow, end: Number(value) })}
+      >
+        <SelectTrigger className="w-24 h-8 bg-slate-900 border-slate-600 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Array.from({ length: 24 }, (_, index) => index + 1).map((hour) => (
+            <SelectItem key={hour} value={hour.toString()} disabled={hour <= postingWindow.start}>
+              {hourLabel(hour)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-slate-500">{timeZone}</span>
+      {isDirty && (
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate(postingWindow)}
+          disabled={saveMutation.isPending}
+          className="h-8 bg-purple-600 hover:bg-purple-700"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      )}
+    </div>
+  );
+}
+
 // ==================== MAIN COMPONENT ====================
 
 export default function AutopilotPage() {
@@ -150,6 +308,24 @@ export default function AutopilotPage() {
   // Shopify URL input
   const [shopifyUrl, setShopifyUrl] = useState("");
 
+  // Video generations started this session (product ID → media asset ID)
+  const [productVideoAssets, setProductVideoAssets] = useState<Record<string, string>>({});
+  const [settledAssetIds, setSettledAssetIds] = useState<string[]>([]);
+
+  // Live progress for those videos, until each one is ready or failed
+  const assetProgress = useAssetProgress({
+    enabled: Object.values(productVideoAssets).some((assetId) => !settledAssetIds.includes(assetId)),
+    onSettled: (event) => {
+      if (!Object.values(productVideoAssets).includes(event.assetId) || settledAssetIds.includes(event.assetId)) return;
+      setSettledAssetIds((prev) => [...prev, event.assetId]);
+      if (event.status === "ready") {
+        toast({ title: "Video ready!", description: "Your demo video has finished rendering." });
+      } else {
+        toast({ title: "Video failed", description: event.error, variant: "destructive" });
+      }
+    },
+  });
+
   // ==================== QUERIES ====================
 
   // Fetch user's generic products
@@ -232,10 +408,11 @@ export default function AutopilotPage() {
       }
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data, productId) => {
+      setProductVideoAssets((prev) => ({ ...prev, [productId]: data.assetId }));
       toast({
         title: "Video generation started!",
-        description: `Your video for "${data.productTitle}" is being created. Check your videos page for status.`,
+        description: `Your video for "${data.productTitle}" is being created. Progress is shown below the product.`,
       });
     },
     onError: (error: Error) => {
@@ -283,8 +460,9 @@ export default function AutopilotPage() {
   // Calculate current workflow step
   const getCurrentStep = () => {
     if (genericProducts.length === 0) return 0; // Need to import
-    // For now, once we have products, we're on step 1 (choose style)
-    // TODO: Track video generation status
+    const trackedProgress = Object.values(productVideoAssets).map((assetId) => assetProgress[assetId]);
+    if (trackedProgress.some((progress) => progress?.status === "ready")) return 3; // Ready to publish
+    if (trackedProgress.length > 0) return 2; // Generating
     return 1;
   };
 
@@ -503,6 +681,11 @@ export default function AutopilotPage() {
                             </Button>
                           </div>
 
+                          {/* Video progress */}
+                          {productVideoAssets[product.id] && (
+                            <VideoProgress progress={assetProgress[productVideoAssets[product.id]]} />
+                          )}
+
                           {/* Quality flags */}
                           {product.qualityFlags && product.qualityFlags.length > 0 && (
                             <div className="flex items-center gap-2 mt-3">
@@ -607,24 +790,27 @@ export default function AutopilotPage() {
                     {stores.map((store) => (
                       <div
                         key={store.id}
-                        className="flex items-center justify-between p-4 bg-slate-900/50 rounded-lg border border-slate-700"
+                        className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3"
                       >
-                        <div className="flex items-center gap-3">
-                          {store.logoUrl ? (
-                            <img src={store.logoUrl} alt="" className="w-10 h-10 rounded-lg object-cover" />
-                          ) : (
-                            <div className="w-10 h-10 rounded-lg bg-slate-700 flex items-center justify-center">
-                              <Store className="w-5 h-5 text-slate-400" />
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            {store.logoUrl ? (
+                              <img src={store.logoUrl} alt="" className="w-10 h-10 rounded-lg object-cover" />
+                            ) : (
+                              <div className="w-10 h-10 rounded-lg bg-slate-700 flex items-center justify-center">
+                                <Store className="w-5 h-5 text-slate-400" />
+                              </div>
+                            )}
+                            <div>
+                              <h3 className="text-white font-medium">{store.storeName || store.shopifyDomain}</h3>
+                              <p className="text-slate-400 text-sm">{store.productCount} products</p>
                             </div>
-                          )}
-                          <div>
-                            <h3 className="text-white font-medium">{store.storeName || store.shopifyDomain}</h3>
-                            <p className="text-slate-400 text-sm">{store.productCount} products</p>
                           </div>
+                          <Badge variant={store.status === "active" ? "default" : "secondary"}>
+                            {store.status}
+                          </Badge>
                         </div>
-                        <Badge variant={store.status === "active" ? "default" : "secondary"}>
-                          {store.status}
-                        </Badge>
+                        <StorePostingWindow storeId={store.id} />
                       </div>
                     ))}
                   </div>
@@ -2,18 +2,22 @@
  * Content Engine Video Viewer Page (Jan 2026)
  * 
  * Dedicated viewer for Content Engine long-form videos.
- * Displays the rendered video with metadata and download option.
+ * Displays the rendered video with metadata and download option, and live
+ * render progress (SSE) while the video is still processing.
  */
 
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { ArrowLeft, Download, Clock, Calendar, FileVideo, Loader2, AlertCircle, Play } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useAssetProgress } from '@/hooks/use-asset-progress';
 import { getAuthHeaders } from '@/lib/queryClient';
 import { formatDistanceToNow } from 'date-fns';
+import { ASSET_PROGRESS_STAGE_LABELS } from '@shared/assetProgress';
 
 // ==================== TYPES ====================
 
@@ -52,6 +56,7 @@ interface SceneSpec {
 export default function ContentEngineVideoPage() {
   const { id } = useParams<{ id: string }>();
   const [isPlaying, setIsPlaying] = useState(false);
+  const queryClient = useQueryClient();
 
   // Fetch media asset
   const { data: assetData, isLoading: assetLoading, error: assetError } = useQuery({
@@ -85,6 +90,17 @@ export default function ContentEngineVideoPage() {
   const asset: MediaAsset | null = assetData?.asset || null;
   const spec: SceneSpec | null = specData?.spec || null;
 
+  // Live render progress - refetch the asset once it settles
+  const refetchAsset = () => queryClient.invalidateQueries({ queryKey: ['/api/ai/media', id] });
+  const assetProgress = useAssetProgress({
+    enabled: asset?.status === 'processing',
+    onSettled: (event) => {
+      if (event.assetId === id) refetchAsset();
+    },
+    onReconnect: refetchAsset,
+  });
+  const progress = id ? assetProgress[id] : undefined;
+
   // Format duration
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -150,6 +166,15 @@ export default function ContentEngineVideoPage() {
             <p className="text-slate-400 mb-6">
               Your video is being rendered. This may take several minutes for long-form content.
             </p>
+            {progress?.status === 'processing' && (
+              <div className="px-8 mb-6">
+                <div className="flex justify-between text-sm text-slate-400 mb-2">
+                  <span>{ASSET_PROGRESS_STAGE_LABELS[progress.stage]}</span>
+                  <span>{progress.progress}%</span>
+                </div>
+                <Progress value={progress.progress} className="h-2" />
+              </div>
+            )}
             <Link href="/content-engine">
               <Button variant="outline" className="border-slate-600 text-slate-300">
                 <ArrowLeft className="w-4 h-4 mr-2" />
@@ -3,15 +3,52 @@
  *
  * Combined view with two modes:
  * - Analytics: View post performance metrics from Late.dev
- * - Schedule: View and manage scheduled Instagram posts
+ * - Schedule: View and manage scheduled posts (multi-platform posts are one
+ *   row with a status per platform) - reschedule, edit or cancel them until
+ *   Late.dev's lock window. Shown as a list or a drag-and-drop calendar
+ *   (components/schedule/ContentCalendar)
  *
  * Toggle between modes using tabs at the top of the page.
  */
 
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
 import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/use-time-zone';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { SCHEDULED_POST_LOCK_MINUTES, isScheduledPostLocked } from '@shared/socialPosts';
+import {
+  Ban,
   Calendar,
   Loader2,
   RefreshCw,
@@ -27,16 +64,20 @@ import {
   Share2,
   TrendingUp,
   Users,
+  Pencil,
+  List,
+  CalendarDays,
 } from 'lucide-react';
 import { Link } from 'wouter';
 import { format, formatDistanceToNow } from 'date-fns';
 import AnalyticsCharts from '@/components/analytics/AnalyticsCharts';
+import ContentCalendar from '@/components/schedule/ContentCalendar';
 
 // ============================================
 // TYPES
 // ============================================
 
-interface ScheduledPost {
+interface PlatformPost {
   id: number;
   platform: string;
   caption: string | null;
@@ -53,11 +94,32 @@ interface ScheduledPost {
   mediaAssetId: string | null;
 }
 
+// A single-platform post, or a multi-platform group with a post per platform
+interface ScheduledPost {
+  groupId: number | null;
+  status: string;
+  caption: string | null;
+  captionSource: string | null;
+  scheduledFor: string | null;
+  createdAt: string;
+  posts: PlatformPost[];
+}
+
 interface ScheduledPostsResponse {
   posts: ScheduledPost[];
   count: number;
 }
 
+interface MediaListResponse {
+  assets: Array<{
+    id: string;
+    type: string;
+    status: string;
+    prompt: string;
+    createdAt: string;
+  }>;
+}
+
 interface PostMetrics {
   views: number;
   likes: number;
@@ -104,6 +166,7 @@ const StatusBadge = ({ status }: { status: string }) => {
     published: { icon: CheckCircle2, color: 'text-green-400 bg-green-500/10 border-green-500/20' },
     failed: { icon: XCircle, color: 'text-red-400 bg-red-500/10 border-red-500/20' },
     draft: { icon: AlertCircle, color: 'text-gray-400 bg-gray-500/10 border-gray-500/20' },
+    cancelled: { icon: Ban, color: 'text-gray-400 bg-gray-500/10 border-gray-500/20' },
   };
 
   const { icon: Icon, color } = config[status as keyof typeof config] || config.draft;
@@ -117,6 +180,9 @@ const StatusBadge = ({ status }: { status: string }) => {
 };
 
 // Format large numbers with K/M suffix
+const formatPlatform = (platform: string): string =>
+  platform.charAt(0).toUpperCase() + platform.slice(1);
+
 const formatNumber = (num: number): string => {
   if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
   if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
@@ -128,6 +194,7 @@ const formatNumber = (num: number): string => {
 // ============================================
 
 function AnalyticsView() {
+  const { formatInTimeZone } = useTimeZone();
   const { data, isLoading, error, refetch, isRefetching } = useQuery<AnalyticsResponse>({
     queryKey: ['/api/analytics/posts'],
     refetchInterval: 60000, // Refresh every minute
@@ -270,7 +337,7 @@ function AnalyticsView() {
                       {post.caption || <span className="text-gray-500 italic">No caption</span>}
                     </p>
                     <div className="flex items-center gap-3 text-xs text-gray-400">
-                      <span>{format(new Date(post.createdAt), 'MMM d, yyyy')}</span>
+                      <span>{formatInTimeZone(post.createdAt, 'MMM d, yyyy')}</span>
                       <span className="capitalize">{post.platform}</span>
                       {post.platformPostUrl && (
                         <a
@@ -327,19 +394,171 @@ function AnalyticsView() {
   );
 }
 
+// ============================================
+// EDIT SCHEDULED POST DIALOG
+// ============================================
+
+const KEEP_VIDEO = 'keep';
+
+// datetime-local input value for a wall-clock time
+const toLocalInputValue = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm");
+
+function EditScheduledPostDialog({ post, onClose }: { post: ScheduledPost | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const { timeZone, toWallClock, fromWallClock, formatInTimeZone } = useTimeZone();
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [caption, setCaption] = useState('');
+  const [mediaAssetId, setMediaAssetId] = useState(KEEP_VIDEO);
+
+  // Start from the post's current values each time one is opened
+  useEffect(() => {
+    if (!post) return;
+    setScheduledFor(post.scheduledFor ? toLocalInputValue(toWallClock(post.scheduledFor)) : '');
+    setCaption(post.caption ?? '');
+    setMediaAssetId(KEEP_VIDEO);
+  }, [post, toWallClock]);
+
+  const { data: media } = useQuery<MediaListResponse>({
+    queryKey: ['/api/ai/media'],
+    enabled: !!post,
+  });
+  const videos = (media?.assets ?? []).filter(asset => asset.type === 'video' && asset.status === 'ready');
+
+  // Only send what changed - the input is wall-clock time in the user's timezone
+  const changes: Record<string, string> = {};
+  const newScheduledFor = scheduledFor ? fromWallClock(new Date(scheduledFor)) : null;
+  if (post && newScheduledFor && (!post.scheduledFor || newScheduledFor.getTime() !== new Date(post.scheduledFor).getTime())) {
+    changes.scheduledFor = newScheduledFor.toISOString();
+  }
+  if (post && caption !== (post.caption ?? '')) {
+    changes.caption = caption;
+  }
+  if (mediaAssetId !== KEEP_VIDEO) {
+    changes.mediaAssetId = mediaAssetId;
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest('PATCH', `/api/social/posts/${post!.posts[0].id}`, changes)).json(),
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/social/scheduled'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/social/calendar'] });
+      toast({ title: result.message });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to update post', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const isGroup = post?.groupId !== null && post?.groupId !== undefined;
+
+  return (
+    <Dialog open={!!post} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-[#0B0B0B] border-white/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Edit Scheduled Post</DialogTitle>
+          <DialogDescription className="text-white/60">
+            {isGroup
+              ? 'Changes apply to every platform of this post.'
+              : `Changes can be made until ${SCHEDULED_POST_LOCK_MINUTES} minutes before it goes out.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-post-time">Scheduled for ({timeZone})</Label>
+            <Input
+              id="edit-post-time"
+              type="datetime-local"
+              value={scheduledFor}
+              onChange={(e) => setScheduledFor(e.target.value)}
+              className="bg-white/5 border-white/10 text-white"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-post-caption">Caption</Label>
+            <Textarea
+              id="edit-post-caption"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              maxLength={2200}
+              rows={5}
+              className="bg-white/5 border-white/10 text-white"
+            />
+            {isGroup && (
+              <p className="text-xs text-white/40">A new caption replaces per-platform captions too</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Video</Label>
+            <Select value={mediaAssetId} onValueChange={setMediaAssetId}>
+              <SelectTrigger className="bg-white/5 border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP_VIDEO}>Keep current video</SelectItem>
+                {videos.map(video => (
+                  <SelectItem key={video.id} value={video.id}>
+                    {video.prompt.slice(0, 50) || 'Untitled video'} · {formatInTimeZone(video.createdAt, 'MMM d')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} className="text-white hover:bg-white/10">
+            Close
+          </Button>
+          <Button
+            onClick={() => updateMutation.mutate()}
+            disabled={updateMutation.isPending || Object.keys(changes).length === 0}
+          >
+            {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // ============================================
 // SCHEDULE VIEW COMPONENT
 // ============================================
 
 function ScheduleView() {
+  const { toast } = useToast();
+  const { formatInTimeZone } = useTimeZone();
+  const [layout, setLayout] = useState<'list' | 'calendar'>('list');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [editingPost, setEditingPost] = useState<ScheduledPost | null>(null);
+  const [cancellingPost, setCancellingPost] = useState<ScheduledPost | null>(null);
+  const [shiftQueue, setShiftQueue] = useState(false);
 
-  // Fetch scheduled posts with auto-refresh every 30 seconds
+  // Fetch scheduled posts with auto-refresh every 30 seconds (filtered below)
   const { data, isLoading, refetch, isRefetching } = useQuery<ScheduledPostsResponse>({
-    queryKey: ['/api/social/scheduled', statusFilter],
+    queryKey: ['/api/social/scheduled'],
     refetchInterval: 30000, // Auto-refresh every 30 seconds
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: async (post: ScheduledPost) =>
+      (await apiRequest('DELETE', `/api/social/posts/${post.posts[0].id}${shiftQueue ? '?shiftQueue=true' : ''}`)).json(),
+    onSuccess: (result: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/social/scheduled'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/social/calendar'] });
+      toast({ title: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to cancel post', description: error.message, variant: 'destructive' });
+    },
+  });
+
   const posts = data?.posts || [];
 
   // Filter counts
@@ -349,6 +568,7 @@ function ScheduleView() {
     posting: posts.filter(p => p.status === 'posting').length,
     published: posts.filter(p => p.status === 'published').length,
     failed: posts.filter(p => p.status === 'failed').length,
+    cancelled: posts.filter(p => p.status === 'cancelled').length,
   };
 
   // Filter posts based on selected status
@@ -377,12 +597,30 @@ function ScheduleView() {
             Scheduled Posts
           </h2>
           <p className="text-gray-400 mt-1">
-            View and manage your scheduled Instagram posts
+            View and manage your scheduled social posts
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <div className="inline-flex rounded-lg border border-white/10 bg-white/5 p-1">
+            <button
+              onClick={() => setLayout('list')}
+              title="List"
+              className={`px-2.5 py-1.5 rounded-md transition-all ${layout === 'list' ? 'bg-blue-600 text-white' : 'text-white/60 hover:text-white'}`}
+            >
+              <List className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setLayout('calendar')}
+              title="Calendar"
+              className={`px-2.5 py-1.5 rounded-md transition-all ${layout === 'calendar' ? 'bg-blue-600 text-white' : 'text-white/60 hover:text-white'}`}
+            >
+              <CalendarDays className="h-4 w-4" />
+            </button>
+          </div>
           <Button
-            onClick={() => refetch()}
+            onClick={() => layout === 'calendar'
+              ? queryClient.invalidateQueries({ queryKey: ['/api/social/calendar'] })
+              : refetch()}
             disabled={isRefetching}
             variant="outline"
             size="sm"
@@ -404,169 +642,244 @@ function ScheduleView() {
         </div>
       </div>
 
-      {/* Status Filter Tabs */}
-      <div className="flex items-center gap-2 overflow-x-auto pb-2">
-        {[
-          { value: 'all', label: 'All Posts' },
-          { value: 'scheduled', label: 'Scheduled' },
-          { value: 'posting', label: 'Posting' },
-          { value: 'published', label: 'Published' },
-          { value: 'failed', label: 'Failed' },
-        ].map((filter) => (
-          <button
-            key={filter.value}
-            onClick={() => setStatusFilter(filter.value)}
-            className={`
-              px-4 py-2 rounded-lg text-sm font-medium transition-all whitespace-nowrap
-              ${statusFilter === filter.value
-                ? 'bg-blue-600 text-white'
-                : 'bg-white/5 text-white/60 hover:bg-white/10 hover:text-white'
-              }
-            `}
-          >
-            {filter.label}
-            <span className="ml-2 text-xs opacity-75">
-              ({counts[filter.value as keyof typeof counts]})
-            </span>
-          </button>
-        ))}
-      </div>
-
-      {/* Posts Table */}
-      {filteredPosts.length === 0 ? (
-        <div className="text-center py-16 bg-white/5 rounded-xl border border-white/10">
-          <div className="inline-flex items-center justify-center w-20 h-20 rounded-2xl bg-white/5 mb-6">
-            <Calendar className="h-10 w-10 text-gray-400" />
-          </div>
-          <h2 className="text-xl font-medium text-white mb-2">
-            No {statusFilter !== 'all' ? statusFilter : ''} posts
-          </h2>
-          <p className="text-gray-400 mb-6 max-w-md mx-auto">
-            {statusFilter === 'all'
-              ? 'Schedule your first post from the AI Studio'
-              : `No posts with "${statusFilter}" status`}
-          </p>
-          <Button asChild>
-            <Link href="/ai-studio">
-              <Calendar className="h-5 w-5 mr-2" />
-              Schedule Post
-            </Link>
-          </Button>
-        </div>
+      {layout === 'calendar' ? (
+        <ContentCalendar />
       ) : (
-        <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden">
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-white/5 border-b border-white/10">
-                <tr>
-                  <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
-                    Post
-                  </th>
-                  <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
-                    Scheduled For
-                  </th>
-                  <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
-                    Platform
-                  </th>
-                  <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-white/10">
-                {filteredPosts.map((post) => (
-                  <tr key={post.id} className="hover:bg-white/5 transition-colors">
-                    {/* Post Caption */}
-                    <td className="px-6 py-4">
-                      <div className="max-w-md">
-                        <p className="text-sm text-white line-clamp-2">
-                          {post.caption || <span className="text-white/40 italic">No caption</span>}
-                        </p>
-                        {post.captionSource && (
-                          <p className="text-xs text-white/40 mt-1">
-                            {post.captionSource === 'ai_auto' && '🤖 Auto-generated'}
-                            {post.captionSource === 'ai_manual' && '🤖 AI-assisted'}
-                            {post.captionSource === 'manual' && '✍️ Manual'}
-                          </p>
-                        )}
-                      </div>
-                    </td>
-
-                    {/* Scheduled Time */}
-                    <td className="px-6 py-4">
-                      {post.scheduledFor ? (
-                        <div>
-                          <p className="text-sm text-white font-medium">
-                            {format(new Date(post.scheduledFor), 'MMM d, yyyy')}
-                          </p>
-                          <p className="text-xs text-white/60">
-                            {format(new Date(post.scheduledFor), 'h:mm a')}
-                          </p>
-                          <p className="text-xs text-white/40 mt-1">
-                            {formatDistanceToNow(new Date(post.scheduledFor), { addSuffix: true })}
-                          </p>
-                        </div>
-                      ) : (
-                        <span className="text-xs text-white/40">Not scheduled</span>
-                      )}
-                    </td>
-
-                    {/* Status */}
-                    <td className="px-6 py-4">
-                      <StatusBadge status={post.status} />
-                      {post.publishedAt && (
-                        <p className="text-xs text-white/40 mt-1">
-                          Published {formatDistanceToNow(new Date(post.publishedAt), { addSuffix: true })}
-                        </p>
-                      )}
-                      {post.errorMessage && (
-                        <p className="text-xs text-red-400 mt-1 line-clamp-1" title={post.errorMessage}>
-                          {post.errorMessage}
-                        </p>
-                      )}
-                    </td>
-
-                    {/* Platform */}
-                    <td className="px-6 py-4">
-                      <span className="inline-flex items-center gap-1.5 text-sm text-white/80">
-                        {post.platform.charAt(0).toUpperCase() + post.platform.slice(1)}
-                      </span>
-                    </td>
-
-                    {/* Actions */}
-                    <td className="px-6 py-4">
-                      <div className="flex items-center gap-2">
-                        {post.platformPostUrl && (
-                          <a
-                            href={post.platformPostUrl}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-400 hover:text-blue-300 transition-colors"
-                          >
-                            <ExternalLink className="h-4 w-4" />
-                          </a>
-                        )}
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+        <>
+          {/* Status Filter Tabs */}
+          <div className="flex items-center gap-2 overflow-x-auto pb-2">
+            {[
+              { value: 'all', label: 'All Posts' },
+              { value: 'scheduled', label: 'Scheduled' },
+              { value: 'posting', label: 'Posting' },
+              { value: 'published', label: 'Published' },
+              { value: 'failed', label: 'Failed' },
+              { value: 'cancelled', label: 'Cancelled' },
+            ].map((filter) => (
+              <button
+                key={filter.value}
+                onClick={() => setStatusFilter(filter.value)}
+                className={`
+                  px-4 py-2 rounded-lg text-sm font-medium transition-all whitespace-nowrap
+                  ${statusFilter === filter.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white/5 text-white/60 hover:bg-white/10 hover:text-white'
+                  }
+                `}
+              >
+                {filter.label}
+                <span className="ml-2 text-xs opacity-75">
+                  ({counts[filter.value as keyof typeof counts]})
+                </span>
+              </button>
+            ))}
           </div>
 
-          {/* Table Footer */}
-          <div className="px-6 py-4 bg-white/5 border-t border-white/10">
-            <p className="text-sm text-white/60">
-              Showing {filteredPosts.length} of {posts.length} total posts
-              {statusFilter !== 'all' && ` · Filtered by: ${statusFilter}`}
-            </p>
-          </div>
-        </div>
+          {/* Posts Table */}
+          {filteredPosts.length === 0 ? (
+            <div className="text-center py-16 bg-white/5 rounded-xl border border-white/10">
+              <div className="inline-flex items-center justify-center w-20 h-20 rounded-2xl bg-white/5 mb-6">
+                <Calendar className="h-10 w-10 text-gray-400" />
+              </div>
+              <h2 className="text-xl font-medium text-white mb-2">
+                No {statusFilter !== 'all' ? statusFilter : ''} posts
+              </h2>
+              <p className="text-gray-400 mb-6 max-w-md mx-auto">
+                {statusFilter === 'all'
+                  ? 'Schedule your first post from the AI Studio'
+                  : `No posts with "${statusFilter}" status`}
+              </p>
+              <Button asChild>
+                <Link href="/ai-studio">
+                  <Calendar className="h-5 w-5 mr-2" />
+                  Schedule Post
+                </Link>
+              </Button>
+            </div>
+          ) : (
+            <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-white/5 border-b border-white/10">
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
+                        Post
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
+                        Scheduled For
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
+                        Platform
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-white/60 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10">
+                    {filteredPosts.map((post) => (
+                      <tr
+                        key={post.groupId !== null ? `group-${post.groupId}` : post.posts[0].id}
+                        className="hover:bg-white/5 transition-colors"
+                      >
+                        {/* Post Caption */}
+                        <td className="px-6 py-4">
+                          <div className="max-w-md">
+                            <p className="text-sm text-white line-clamp-2">
+                              {post.caption || <span className="text-white/40 italic">No caption</span>}
+                            </p>
+                            {post.captionSource && (
+                              <p className="text-xs text-white/40 mt-1">
+                                {post.captionSource === 'ai_auto' && '🤖 Auto-generated'}
+                                {post.captionSource === 'ai_manual' && '🤖 AI-assisted'}
+                                {post.captionSource === 'manual' && '✍️ Manual'}
+                              </p>
+                            )}
+                          </div>
+                        </td>
+
+                        {/* Scheduled Time */}
+                        <td className="px-6 py-4">
+                          {post.scheduledFor ? (
+                            <div>
+                              <p className="text-sm text-white font-medium">
+                                {formatInTimeZone(post.scheduledFor, 'MMM d, yyyy')}
+                              </p>
+                              <p className="text-xs text-white/60">
+                                {formatInTimeZone(post.scheduledFor, 'h:mm a')}
+                              </p>
+                              <p className="text-xs text-white/40 mt-1">
+                                {formatDistanceToNow(new Date(post.scheduledFor), { addSuffix: true })}
+                              </p>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-white/40">Not scheduled</span>
+                          )}
+                        </td>
+
+                        {/* Status */}
+                        <td className="px-6 py-4">
+                          <StatusBadge status={post.status} />
+                          {post.groupId === null && post.posts[0].publishedAt && (
+                            <p className="text-xs text-white/40 mt-1">
+                              Published {formatDistanceToNow(new Date(post.posts[0].publishedAt), { addSuffix: true })}
+                            </p>
+                          )}
+                          {post.posts.filter(p => p.errorMessage).map(p => (
+                            <p key={p.id} className="text-xs text-red-400 mt-1 line-clamp-1" title={p.errorMessage!}>
+                              {post.groupId !== null && `${formatPlatform(p.platform)}: `}
+                              {p.errorMessage}
+                            </p>
+                          ))}
+                        </td>
+
+                        {/* Platform - one line per platform, with its own status for groups */}
+                        <td className="px-6 py-4">
+                          <div className="space-y-1.5">
+                            {post.posts.map(p => (
+                              <div key={p.id} className="flex items-center gap-2">
+                                <span className="text-sm text-white/80">{formatPlatform(p.platform)}</span>
+                                {post.groupId !== null && <StatusBadge status={p.status} />}
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+
+                        {/* Actions */}
+                        <td className="px-6 py-4">
+                          <div className="flex items-center gap-2">
+                            {post.posts.filter(p => p.platformPostUrl).map(p => (
+                              <a
+                                key={p.id}
+                                href={p.platformPostUrl!}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-400 hover:text-blue-300 transition-colors"
+                                title={`View on ${formatPlatform(p.platform)}`}
+                              >
+                                <ExternalLink className="h-4 w-4" />
+                              </a>
+                            ))}
+                            {post.status === 'scheduled' && post.scheduledFor && (() => {
+                              const locked = isScheduledPostLocked(post.scheduledFor);
+                              const lockedTitle = `Locked - posts can't be changed in the last ${SCHEDULED_POST_LOCK_MINUTES} minutes`;
+                              return (
+                                <>
+                                  <button
+                                    onClick={() => setEditingPost(post)}
+                                    disabled={locked}
+                                    title={locked ? lockedTitle : 'Edit post'}
+                                    className="text-white/60 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => {
+                                  setShiftQueue(false);
+                                  setCancellingPost(post);
+                                }}
+                                    disabled={locked || cancelMutation.isPending}
+                                    title={locked ? lockedTitle : 'Cancel post'}
+                                    className="text-red-400 hover:text-red-300 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                  >
+                                    <Ban className="h-4 w-4" />
+                                  </button>
+                                </>
+                              );
+                            })()}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Table Footer */}
+              <div className="px-6 py-4 bg-white/5 border-t border-white/10">
+                <p className="text-sm text-white/60">
+                  Showing {filteredPosts.length} of {posts.length} total posts
+                  {statusFilter !== 'all' && ` · Filtered by: ${statusFilter}`}
+                </p>
+              </div>
+            </div>
+          )}
+        </>
       )}
 
+      <EditScheduledPostDialog post={editingPost} onClose={() => setEditingPost(null)} />
+
+      <AlertDialog open={!!cancellingPost} onOpenChange={(open) => !open && setCancellingPost(null)}>
+        <AlertDialogContent className="bg-[#1a1a1a] border-white/10">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">Cancel this scheduled post?</AlertDialogTitle>
+            <AlertDialogDescription className="text-white/60">
+              {cancellingPost && cancellingPost.posts.length > 1
+                ? `It won't be posted to any of its ${cancellingPost.posts.length} platforms.`
+                : "It won't be posted."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer">
+            <Checkbox checked={shiftQueue} onCheckedChange={(checked) => setShiftQueue(checked === true)} />
+            Move later queued posts up a slot
+          </label>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-white/5 border-white/10 text-white hover:bg-white/10">
+              Keep
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => cancellingPost && cancelMutation.mutate(cancellingPost)}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Cancel Post
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Auto-refresh indicator */}
       <div className="text-center">
         <p className="text-xs text-white/40 flex items-center justify-center gap-2">
@@ -29,10 +29,14 @@ import {
   X,
   Check,
   Palette,
+  Shuffle,
+  TrendingUp,
 } from "lucide-react";
 import { useBrand } from "@/contexts/BrandContext";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import FailoverPoliciesTab from "./FailoverPoliciesTab";
+import MarginReportTab from "./MarginReportTab";
 
 interface CreditPricing {
   id: string;
@@ -229,7 +233,7 @@ export default function AdminCreditsPage() {
             <div>
               <h1 className="text-3xl font-bold text-white">Admin Dashboard</h1>
               <p className="text-gray-400 mt-1">
-                Manage credit pricing and Stripe settings
+                Manage credit pricing, Stripe settings and provider failover
               </p>
             </div>
           </div>
@@ -265,6 +269,20 @@ export default function AdminCreditsPage() {
               <Palette className="h-4 w-4 mr-2" />
               Branding
             </TabsTrigger>
+            <TabsTrigger
+              value="failover"
+              className="text-white data-[state=active]:bg-white/15 data-[state=active]:text-yellow-400 data-[state=inactive]:text-white/70 data-[state=inactive]:hover:text-white data-[state=inactive]:hover:bg-white/10 rounded-md px-4 py-2 transition-all"
+            >
+              <Shuffle className="h-4 w-4 mr-2" />
+              Failover
+            </TabsTrigger>
+            <TabsTrigger
+              value="margins"
+              className="text-white data-[state=active]:bg-white/15 data-[state=active]:text-yellow-400 data-[state=inactive]:text-white/70 data-[state=inactive]:hover:text-white data-[state=inactive]:hover:bg-white/10 rounded-md px-4 py-2 transition-all"
+            >
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Margins
+            </TabsTrigger>
           </TabsList>
 
           {/* Credit Pricing Tab */}
@@ -679,6 +697,16 @@ export default function AdminCreditsPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Failover Tab */}
+          <TabsContent value="failover" className="space-y-6 mt-6">
+            <FailoverPoliciesTab />
+          </TabsContent>
+
+          {/* Margins Tab */}
+          <TabsContent value="margins" className="space-y-6 mt-6">
+            <MarginReportTab />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,285 @@
+/**
+ * FailoverPoliciesTab - Admin editor for the provider failover chain of each UGC mode
+ */
+
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRight, Loader2, Plus, RotateCcw, Save, Shuffle, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { FailoverPolicy, FailoverStep, UgcGenerationMode } from "@shared/failoverPolicies";
+
+const MODE_LABELS: Record<UgcGenerationMode, string> = {
+  'nanobana+veo3': 'Mode A - Premium (NanoBanana + Veo3)',
+  'veo3-only': 'Mode B - Fast (Veo3)',
+  'sora2': 'Mode C - Budget (Sora2)',
+};
+
+// Models a chain can fail over to
+const FALLBACK_OPTIONS: Array<Omit<FailoverStep, 'credits'> & { key: string }> = [
+  { key: 'veo3', provider: 'kie-veo3', model: 'veo3', label: 'Veo3' },
+  { key: 'veo3_fast', provider: 'kie-veo3', model: 'veo3_fast', label: 'Veo3 Fast' },
+  { key: 'sora2', provider: 'kie-sora2', model: 'sora2', label: 'Sora2' },
+];
+
+const inputClassName = "bg-white/5 border-white/20 text-white placeholder:text-gray-500";
+
+export default function FailoverPoliciesTab() {
+  const { data, isLoading } = useQuery<{ policies: FailoverPolicy[] }>({
+    queryKey: ["/api/admin/failover-policies"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-gray-400 py-8">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Loading failover policies...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {(data?.policies || []).map(policy => (
+        <FailoverPolicyCard key={policy.mode} policy={policy} />
+      ))}
+    </>
+  );
+}
+
+function FailoverPolicyCard({ policy }: { policy: FailoverPolicy }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<FailoverPolicy>(policy);
+  const [errorCodes, setErrorCodes] = useState(policy.triggers.errorCodes.join(', '));
+
+  // Reset the form when the saved policy changes
+  useEffect(() => {
+    setForm(policy);
+    setErrorCodes(policy.triggers.errorCodes.join(', '));
+  }, [policy]);
+
+  const onSaved = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/failover-policies"] });
+    toast({ title, description: `${MODE_LABELS[policy.mode]} updated.` });
+  };
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update failover policy",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: FailoverPolicy) => {
+      const { mode, ...body } = next;
+      const response = await apiRequest("PUT", `/api/admin/failover-policies/${mode}`, body);
+      return response.json();
+    },
+    onSuccess: () => onSaved("Failover policy saved"),
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/admin/failover-policies/${policy.mode}`);
+      return response.json();
+    },
+    onSuccess: () => onSaved("Failover policy reset"),
+    onError,
+  });
+
+  const updateStep = (index: number, updates: Partial<FailoverStep>) => {
+    setForm(f => ({ ...f, chain: f.chain.map((step, i) => (i === index ? { ...step, ...updates } : step)) }));
+  };
+
+  const addStep = () => {
+    const { key: _key, ...option } = FALLBACK_OPTIONS[0];
+    setForm(f => ({ ...f, chain: [...f.chain, { ...option, credits: 0 }] }));
+  };
+
+  const removeStep = (index: number) => {
+    setForm(f => ({ ...f, chain: f.chain.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      ...form,
+      triggers: {
+        ...form.triggers,
+        errorCodes: errorCodes.split(',').map(code => code.trim()).filter(Boolean),
+      },
+    });
+  };
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Shuffle className="h-5 w-5 text-cyan-400" />
+              {MODE_LABELS[policy.mode]}
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              Providers tried in order when a generation fails. Users see every switch on their asset.
+            </CardDescription>
+          </div>
+          <Switch
+            checked={form.enabled}
+            onCheckedChange={enabled => setForm(f => ({ ...f, enabled }))}
+            aria-label="Failover enabled"
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Chain */}
+          <div className="space-y-2">
+            <Label className="text-gray-300">Chain (credits per 10s generation)</Label>
+            {form.chain.map((step, index) => (
+              <div key={index} className="flex items-center gap-2">
+                {index === 0 ? (
+                  <div className="w-40 text-sm text-white">{step.label}</div>
+                ) : (
+                  <>
+                    <ArrowRight className="h-4 w-4 text-gray-500" />
+                    <Select
+                      value={FALLBACK_OPTIONS.find(o => o.provider === step.provider && o.model === step.model)?.key}
+                      onValueChange={key => {
+                        const { key: _key, ...option } = FALLBACK_OPTIONS.find(o => o.key === key)!;
+                        updateStep(index, option);
+                      }}
+                    >
+                      <SelectTrigger className={`w-36 ${inputClassName}`}>
+                        <SelectValue placeholder="Model" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FALLBACK_OPTIONS.map(option => (
+                          <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+                <Input
+                  type="number"
+                  min={0}
+                  value={step.credits}
+                  onChange={e => updateStep(index, { credits: parseInt(e.target.value, 10) || 0 })}
+                  className={`w-24 ${inputClassName}`}
+                  aria-label={`${step.label} credits`}
+                />
+                {index > 0 && (
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeStep(index)}>
+                    <X className="h-4 w-4 text-gray-400" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addStep} disabled={form.chain.length >= 5} className="gap-1">
+              <Plus className="h-4 w-4" />
+              Add fallback
+            </Button>
+          </div>
+
+          {/* Triggers */}
+          <div className="grid gap-4 md:grid-cols-3">
+            {([
+              ['providerError', 'Provider errors'],
+              ['timeout', 'Timeouts'],
+              ['readyWithoutUrl', 'Ready without URL'],
+            ] as const).map(([key, label]) => (
+              <div key={key} className="flex items-center gap-2">
+                <Switch
+                  checked={form.triggers[key]}
+                  onCheckedChange={checked => setForm(f => ({ ...f, triggers: { ...f.triggers, [key]: checked } }))}
+                />
+                <Label className="text-gray-300">{label}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label className="text-gray-300">Error codes</Label>
+              <Input
+                placeholder="Any error"
+                value={errorCodes}
+                onChange={e => setErrorCodes(e.target.value)}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500">Comma-separated. Empty fails over on any provider error.</p>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-300">Max total attempts</Label>
+              <Input
+                type="number"
+                min={1}
+                max={5}
+                value={form.maxTotalAttempts}
+                onChange={e => setForm(f => ({ ...f, maxTotalAttempts: parseInt(e.target.value, 10) || 1 }))}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-300">Credit adjustment</Label>
+              <Select
+                value={form.creditAdjustment}
+                onValueChange={value => setForm(f => ({ ...f, creditAdjustment: value as FailoverPolicy['creditAdjustment'] }))}
+              >
+                <SelectTrigger className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="refund_difference">Refund price difference</SelectItem>
+                  <SelectItem value="none">No adjustment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button type="submit" disabled={saveMutation.isPending} className="bg-cyan-600 hover:bg-cyan-700">
+              {saveMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Policy
+                </>
+              )}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => resetMutation.mutate()} disabled={resetMutation.isPending}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Default
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
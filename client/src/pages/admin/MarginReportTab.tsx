@@ -0,0 +1,188 @@
+/**
+ * MarginReportTab - Admin report of credits charged vs. actual provider cost
+ */
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Loader2, RefreshCw, TrendingUp } from "lucide-react";
+
+interface MarginRow {
+  key: string;
+  label: string;
+  credits: number;
+  revenueUsd: number;
+  costUsd: number;
+  calls: number;
+  margin: number | null;
+  flagged: boolean;
+}
+
+interface MarginReport {
+  days: number;
+  since: string;
+  markupFactor: number;
+  pricePerCreditUsd: number;
+  totals: Omit<MarginRow, 'key' | 'label'>;
+  byFeature: MarginRow[];
+  byProvider: MarginRow[];
+  byUser: MarginRow[];
+}
+
+const PERIODS = [7, 30, 90];
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+const formatMargin = (margin: number | null) => (margin === null ? '—' : `${margin.toFixed(2)}x`);
+
+export default function MarginReportTab() {
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState(30);
+  const queryKey = [`/api/admin/credits/margins?days=${days}`];
+
+  const { data, isLoading } = useQuery<{ report: MarginReport }>({ queryKey });
+  const report = data?.report;
+
+  const mispriced = report?.byFeature.filter(row => row.flagged) || [];
+
+  return (
+    <>
+      <Card className="bg-white/5 border-white/10">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-white">
+                <TrendingUp className="h-5 w-5 text-green-400" />
+                Margins
+              </CardTitle>
+              <CardDescription className="text-gray-400">
+                Credits charged vs. what providers actually billed, including retries and failovers
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={String(days)} onValueChange={value => setDays(parseInt(value, 10))}>
+                <SelectTrigger className="w-32 bg-white/5 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIODS.map(period => (
+                    <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey })}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !report ? (
+            <div className="flex items-center gap-2 text-gray-400 py-8">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Loading margin report...
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid md:grid-cols-4 gap-4">
+                <div className="p-4 bg-white/5 rounded-lg">
+                  <p className="text-sm text-gray-400">Credits Charged</p>
+                  <p className="text-xl font-semibold text-white">{report.totals.credits.toLocaleString()}</p>
+                </div>
+                <div className="p-4 bg-white/5 rounded-lg">
+                  <p className="text-sm text-gray-400">Revenue</p>
+                  <p className="text-xl font-semibold text-white">{formatUsd(report.totals.revenueUsd)}</p>
+                </div>
+                <div className="p-4 bg-white/5 rounded-lg">
+                  <p className="text-sm text-gray-400">Provider Cost</p>
+                  <p className="text-xl font-semibold text-white">{formatUsd(report.totals.costUsd)}</p>
+                </div>
+                <div className="p-4 bg-white/5 rounded-lg">
+                  <p className="text-sm text-gray-400">Margin (target {report.markupFactor}x)</p>
+                  <p className={`text-xl font-semibold ${report.totals.flagged ? 'text-red-400' : 'text-green-400'}`}>
+                    {formatMargin(report.totals.margin)}
+                  </p>
+                </div>
+              </div>
+
+              {mispriced.length > 0 && (
+                <div className="flex items-start gap-2 p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 text-sm">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    Mispriced below {report.markupFactor}x: {mispriced.map(row => `${row.label} (${formatMargin(row.margin)})`).join(', ')}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && (
+        <>
+          <MarginTable title="By Feature" description="Credit feature keys; unattributed costs had no matching charge" rows={report.byFeature} />
+          <MarginTable title="By Provider" description="Each generation's revenue split by the provider's share of its cost" rows={report.byProvider} />
+          <MarginTable title="By User" description="Top 50 users by provider cost" rows={report.byUser} />
+        </>
+      )}
+    </>
+  );
+}
+
+function MarginTable({ title, description, rows }: { title: string; description: string; rows: MarginRow[] }) {
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white">{title}</CardTitle>
+        <CardDescription className="text-gray-400">{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-gray-400 py-8 text-center">No activity in this period</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-6 gap-4 py-2 px-4 text-sm font-medium text-gray-400 border-b border-white/10">
+              <div className="col-span-2">Name</div>
+              <div>Credits</div>
+              <div>Revenue</div>
+              <div>Cost (calls)</div>
+              <div>Margin</div>
+            </div>
+            {rows.map(row => (
+              <div
+                key={row.key}
+                className={`grid grid-cols-6 gap-4 py-3 px-4 rounded-lg items-center ${
+                  row.flagged ? 'bg-red-500/10 border border-red-500/30' : 'bg-white/5'
+                }`}
+              >
+                <div className="col-span-2 text-white font-medium truncate" title={row.key}>{row.label}</div>
+                <div className="text-white">{row.credits.toLocaleString()}</div>
+                <div className="text-white">{formatUsd(row.revenueUsd)}</div>
+                <div className="text-white">
+                  {formatUsd(row.costUsd)} <span className="text-xs text-white/50">({row.calls})</span>
+                </div>
+                <div className={`font-semibold ${row.flagged ? 'text-red-400' : 'text-green-400'}`}>
+                  {formatMargin(row.margin)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
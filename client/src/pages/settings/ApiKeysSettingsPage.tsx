@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_DESCRIPTIONS,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  MAX_API_KEY_RATE_LIMIT,
+  type ApiKeyScope,
+} from "@shared/apiKeys";
+import { Copy, ExternalLink, Home, KeyRound, Loader2, Trash2, Webhook } from "lucide-react";
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export default function ApiKeysSettingsPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["media:read"]);
+  const [rateLimit, setRateLimit] = useState(String(DEFAULT_API_KEY_RATE_LIMIT));
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ apiKeys: ApiKeySummary[] }>({ queryKey: ["/api/api-keys"] });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", "/api/api-keys", {
+        name,
+        scopes,
+        rateLimitPerMinute: Number(rateLimit),
+      })).json(),
+    onSuccess: (result: { apiKey: ApiKeySummary; secret: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      setNewSecret(result.secret);
+      setName("");
+    },
+    onError: onError("Failed to create API key"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (keyId: string) => (await apiRequest("DELETE", `/api/api-keys/${keyId}`)).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      toast({ title: "API key revoked" });
+    },
+    onError: onError("Failed to revoke API key"),
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const copySecret = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  const rateLimitValue = Number(rateLimit);
+  const canCreate = name.trim().length > 0
+    && scopes.length > 0
+    && Number.isInteger(rateLimitValue)
+    && rateLimitValue >= 1
+    && rateLimitValue <= MAX_API_KEY_RATE_LIMIT;
+
+  return (
+    <div className="min-h-screen bg-black pt-24 pb-8 px-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white flex items-center gap-2">
+              <KeyRound className="h-8 w-8" />
+              API Keys
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Generate videos, check status and post from your own scripts
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/settings/webhooks")}
+              className="text-white border-white/20 hover:bg-white/10"
+            >
+              <Webhook className="mr-2 h-4 w-4" />
+              Webhooks
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate("/")}
+              className="text-white border-white/20 hover:bg-white/10"
+            >
+              <Home className="mr-2 h-4 w-4" />
+              Back to Home
+            </Button>
+          </div>
+        </div>
+
+        {/* New key secret - shown once */}
+        {newSecret && (
+          <Card className="bg-green-500/10 border-green-500/20">
+            <CardHeader>
+              <CardTitle className="text-white">Copy your new key</CardTitle>
+              <CardDescription className="text-gray-300">
+                This is the only time it's shown. Store it somewhere safe.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              <Input readOnly value={newSecret} className="bg-white/5 border-white/10 text-white font-mono" />
+              <Button onClick={copySecret}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button
+                variant="ghost"
+                className="text-gray-300 hover:bg-white/10"
+                onClick={() => setNewSecret(null)}
+              >
+                Done
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Create */}
+        <Card className="bg-white/5 border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white">Create a Key</CardTitle>
+            <CardDescription className="text-gray-400">
+              Keys act as you in the current workspace, limited to the scopes you pick.{" "}
+              <a
+                href="/api/v1/openapi.json"
+                target="_blank"
+                rel="noreferrer"
+                className="text-blue-400 hover:underline inline-flex items-center gap-1"
+              >
+                API reference (OpenAPI)
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-[1fr_10rem]">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name" className="text-white">Name</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="Zapier integration"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={80}
+                  className="bg-white/5 border-white/10 text-white placeholder:text-gray-500"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-rate-limit" className="text-white">Requests / minute</Label>
+                <Input
+                  id="api-key-rate-limit"
+                  type="number"
+                  min={1}
+                  max={MAX_API_KEY_RATE_LIMIT}
+                  value={rateLimit}
+                  onChange={(e) => setRateLimit(e.target.value)}
+                  className="bg-white/5 border-white/10 text-white"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white">Scopes</Label>
+              {API_KEY_SCOPES.map(scope => (
+                <label key={scope} className="flex items-start gap-3 p-3 rounded-lg bg-white/5 cursor-pointer">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <p className="text-white font-mono text-sm">{scope}</p>
+                    <p className="text-xs text-gray-400">{API_KEY_SCOPE_DESCRIPTIONS[scope]}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !canCreate}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Key
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Keys */}
+        <Card className="bg-white/5 border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white">Your Keys</CardTitle>
+            <CardDescription className="text-gray-400">
+              Revoked keys stop working immediately
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading || !data ? (
+              <div className="space-y-2">
+                <Skeleton className="h-16 w-full" />
+                <Skeleton className="h-16 w-full" />
+              </div>
+            ) : data.apiKeys.length === 0 ? (
+              <p className="text-gray-400 text-sm">No API keys yet</p>
+            ) : (
+              data.apiKeys.map(apiKey => (
+                <div key={apiKey.id} className="flex items-center justify-between gap-4 p-4 rounded-lg bg-white/5">
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-white font-medium truncate">
+                      {apiKey.name}{" "}
+                      <span className="text-gray-400 font-mono text-sm">{apiKey.keyPrefix}…</span>
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map(scope => (
+                        <Badge key={scope} variant="secondary" className="font-mono">{scope}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-400">
+                      {apiKey.rateLimitPerMinute}/min · created {new Date(apiKey.createdAt).toLocaleDateString()} ·{" "}
+                      {apiKey.lastUsedAt ? `last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : "never used"}
+                    </p>
+                  </div>
+                  {apiKey.revokedAt ? (
+                    <Badge variant="outline" className="text-gray-400 border-white/20">Revoked</Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                      onClick={() => revokeMutation.mutate(apiKey.id)}
+                      disabled={revokeMutation.isPending}
+                      title="Revoke key"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
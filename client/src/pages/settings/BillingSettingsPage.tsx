@@ -1,7 +1,7 @@
 /**
  * BillingSettingsPage (Phase 9: XPAND Credits)
  *
- * Manages credit balance, purchase packages, and transaction history
+ * Manages credit balance, monthly plan, purchase packages, and transaction history
  */
 
 import { useState } from "react";
@@ -26,6 +26,8 @@ import {
   Sparkles,
   LogOut,
   Home,
+  CalendarClock,
+  KeyRound,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
@@ -34,6 +36,9 @@ import { apiRequest } from "@/lib/queryClient";
 
 interface CreditBalanceData {
   balance: number;
+  reserved: number; // held by generations still in progress
+  planCredits: number; // from the monthly plan - expire past the rollover cap
+  topUpCredits: number; // purchased packs - never expire
   lifetimePurchased: number;
   lifetimeUsed: number;
 }
@@ -47,6 +52,22 @@ interface CreditPackage {
   badge?: string; // 'Best Value' or 'High Volume'
 }
 
+interface SubscriptionPlan {
+  id: string;
+  name: string;
+  monthlyCredits: number;
+  rolloverCap: number;
+  priceUsd: number;
+  badge?: string;
+}
+
+interface CurrentSubscription {
+  planId: string;
+  status: string;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+}
+
 interface CreditTransaction {
   id: string;
   amount: number;
@@ -62,6 +83,7 @@ export default function BillingSettingsPage() {
   const { user, signOut } = useAuth();
   const queryClient = useQueryClient();
   const [selectedPackage, setSelectedPackage] = useState<string | null>(null);
+  const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
 
   const handleLogout = async () => {
     await signOut();
@@ -79,6 +101,17 @@ export default function BillingSettingsPage() {
     enabled: !!user,
   });
 
+  // Fetch monthly plans and the user's current one
+  const { data: plansData } = useQuery<{ plans: SubscriptionPlan[] }>({
+    queryKey: ["/api/credits/plans"],
+    enabled: !!user,
+  });
+
+  const { data: subscriptionData } = useQuery<{ subscription: CurrentSubscription | null }>({
+    queryKey: ["/api/credits/subscription"],
+    enabled: !!user,
+  });
+
   // Fetch transaction history
   const { data: historyData, isLoading: historyLoading } = useQuery<{ transactions: CreditTransaction[] }>({
     queryKey: ["/api/credits/history"],
@@ -112,7 +145,54 @@ export default function BillingSettingsPage() {
     purchaseMutation.mutate(packageId);
   };
 
+  // Subscribe mutation (new plan) - changes and cancellation go through the Stripe portal
+  const subscribeMutation = useMutation({
+    mutationFn: async (planId: string) => {
+      const response = await apiRequest("POST", "/api/credits/subscribe", { planId });
+      return await response.json();
+    },
+    onSuccess: (data: { success: boolean; url: string }) => {
+      if (data.success && data.url) {
+        window.location.href = data.url;
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start subscription. Please try again.",
+        variant: "destructive",
+      });
+      setSelectedPlan(null);
+    },
+  });
+
+  const portalMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/stripe/create-portal-session");
+      return await response.json();
+    },
+    onSuccess: (data: { success: boolean; url: string }) => {
+      if (data.success && data.url) {
+        window.location.href = data.url;
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open billing portal. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubscribe = (planId: string) => {
+    setSelectedPlan(planId);
+    subscribeMutation.mutate(planId);
+  };
+
   const packages = packagesData?.packages || [];
+  const plans = plansData?.plans || [];
+  const subscription = subscriptionData?.subscription ?? null;
   const transactions = historyData?.transactions || [];
   const balance = creditData?.balance ?? 0;
 
@@ -134,6 +214,12 @@ export default function BillingSettingsPage() {
                 Home
               </Button>
             </Link>
+            <Link href="/settings/api-keys">
+              <Button variant="outline" className="gap-2">
+                <KeyRound className="h-4 w-4" />
+                API Keys
+              </Button>
+            </Link>
             <Button
               variant="outline"
               onClick={handleLogout}
@@ -173,6 +259,14 @@ export default function BillingSettingsPage() {
                     {balance.toLocaleString()}
                   </div>
                   <div className="text-sm text-gray-400 mt-1">Available Credits</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {(creditData?.planCredits ?? 0).toLocaleString()} plan · {(creditData?.topUpCredits ?? 0).toLocaleString()} top-up
+                  </div>
+                  {!!creditData?.reserved && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      +{creditData.reserved.toLocaleString()} held for generations in progress
+                    </div>
+                  )}
                 </div>
                 <div className="text-center p-4 bg-white/5 rounded-lg">
                   <div className="text-2xl font-semibold text-green-500">
@@ -191,6 +285,97 @@ export default function BillingSettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Monthly Plans (Feb 2026) */}
+        <Card className="bg-white/5 border-white/10">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <CalendarClock className="h-5 w-5" />
+                  Monthly Plans
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Fresh credits every month. Unused plan credits roll over up to the plan's cap; the rest expire at renewal.
+                </CardDescription>
+              </div>
+              {subscription && (
+                <Button
+                  variant="outline"
+                  onClick={() => portalMutation.mutate()}
+                  disabled={portalMutation.isPending}
+                  className="gap-2"
+                >
+                  {portalMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <ExternalLink className="h-4 w-4" />
+                  )}
+                  Manage Plan
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid md:grid-cols-3 gap-4">
+              {plans.map((plan) => {
+                const isCurrent = subscription?.planId === plan.id;
+
+                return (
+                  <div
+                    key={plan.id}
+                    className={`relative rounded-xl p-5 border transition-all ${
+                      isCurrent
+                        ? "bg-gradient-to-br from-blue-600/20 to-purple-600/20 border-blue-500/50"
+                        : "bg-white/5 border-white/10 hover:border-white/20"
+                    }`}
+                  >
+                    {(isCurrent || plan.badge) && (
+                      <Badge className="absolute -top-2 left-1/2 -translate-x-1/2 text-white bg-gradient-to-r from-blue-600 to-purple-600">
+                        {isCurrent ? <Check className="h-3 w-3 mr-1" /> : <Sparkles className="h-3 w-3 mr-1" />}
+                        {isCurrent ? "Current Plan" : plan.badge}
+                      </Badge>
+                    )}
+                    <div className="text-center space-y-3">
+                      <h3 className="font-semibold text-white text-lg">{plan.name}</h3>
+                      <div>
+                        <span className="text-3xl font-bold text-white">{plan.monthlyCredits.toLocaleString()}</span>
+                        <span className="text-gray-400 text-sm ml-1">credits/mo</span>
+                      </div>
+                      <div className="text-2xl font-bold text-white">
+                        ${plan.priceUsd}<span className="text-sm text-gray-400">/mo</span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Rolls over up to {plan.rolloverCap.toLocaleString()} credits
+                      </div>
+                      {isCurrent ? (
+                        <div className="text-xs text-gray-400 h-9 flex items-center justify-center">
+                          {subscription?.currentPeriodEnd &&
+                            `${subscription.cancelAtPeriodEnd ? "Ends" : "Renews"} ${new Date(subscription.currentPeriodEnd).toLocaleDateString()}`}
+                        </div>
+                      ) : (
+                        <Button
+                          className="w-full"
+                          onClick={() => handleSubscribe(plan.id)}
+                          disabled={!!subscription || subscribeMutation.isPending}
+                        >
+                          {subscribeMutation.isPending && selectedPlan === plan.id ? (
+                            <>
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              Processing...
+                            </>
+                          ) : (
+                            "Subscribe"
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Credit Packages (5 Tiers - Dec 2025) */}
         <Card className="bg-white/5 border-white/10">
           <CardHeader>
@@ -199,7 +384,7 @@ export default function BillingSettingsPage() {
               Buy Credit Packs
             </CardTitle>
             <CardDescription className="text-gray-400">
-              Choose a pack that fits your needs. Credits never expire.
+              Top up anytime. Purchased credits never expire and are used after your plan credits.
             </CardDescription>
           </CardHeader>
           <CardContent>
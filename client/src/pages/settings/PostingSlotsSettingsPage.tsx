@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DAY_NAMES, MAX_SLOTS_PER_ACCOUNT, type WeeklySlot } from "@shared/postingSlots";
+import { toZonedWallClock } from "@shared/timezones";
+import { CalendarClock, Home, Link2, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface ConnectedAccount {
+  _id: string;
+  platform: string;
+  username: string;
+  isActive: boolean;
+}
+
+interface AccountSlots {
+  accountId: string;
+  platform: string;
+  timezone: string;
+  slots: WeeklySlot[];
+  nextFreeSlot: string | null;
+}
+
+const TIMEZONES = Intl.supportedValuesOf("timeZone");
+
+const formatPlatform = (platform: string): string =>
+  platform.charAt(0).toUpperCase() + platform.slice(1);
+
+// Monday first, like the calendar
+const sortSlots = (slots: WeeklySlot[]): WeeklySlot[] =>
+  [...slots].sort((a, b) => ((a.dayOfWeek + 6) % 7) - ((b.dayOfWeek + 6) % 7) || a.time.localeCompare(b.time));
+
+function AccountSlotsCard({ account, saved }: { account: ConnectedAccount; saved?: AccountSlots }) {
+  const { toast } = useToast();
+  // New accounts start in the user's timezone
+  const { timeZone: defaultTimeZone } = useTimeZone();
+  const [timezone, setTimezone] = useState(saved?.timezone ?? defaultTimeZone);
+  const [slots, setSlots] = useState<WeeklySlot[]>(saved?.slots ?? []);
+
+  // Reset to what's saved whenever it's refetched
+  useEffect(() => {
+    setTimezone(saved?.timezone ?? defaultTimeZone);
+    setSlots(saved?.slots ?? []);
+  }, [saved, defaultTimeZone]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("PUT", `/api/social/slots/${account._id}`, {
+        platform: account.platform,
+        timezone,
+        slots: sortSlots(slots),
+      })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/social/slots"] });
+      toast({ title: "Posting slots saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save posting slots", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateSlot = (index: number, changes: Partial<WeeklySlot>) => {
+    setSlots(current => current.map((slot, i) => i === index ? { ...slot, ...changes } : slot));
+  };
+
+  const addSlot = () => {
+    const last = slots[slots.length - 1];
+    setSlots(current => [...current, { dayOfWeek: last ? (last.dayOfWeek + 1) % 7 : 1, time: last?.time ?? "09:00" }]);
+  };
+
+  const duplicates = new Set(slots.map(slot => `${slot.dayOfWeek}-${slot.time}`)).size !== slots.length;
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white">
+          {formatPlatform(account.platform)} · @{account.username}
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          {saved?.nextFreeSlot
+            ? `Next free slot: ${format(toZonedWallClock(new Date(saved.nextFreeSlot), saved.timezone), "EEE, MMM d 'at' h:mm a")}`
+            : saved
+              ? "Every slot in the coming weeks is taken"
+              : "No slots yet - queued posts need at least one"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`timezone-${account._id}`} className="text-white">Timezone</Label>
+          <Input
+            id={`timezone-${account._id}`}
+            list="posting-slot-timezones"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            className="bg-white/5 border-white/10 text-white"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-white">Weekly slots</Label>
+          {slots.length === 0 && <p className="text-gray-400 text-sm">No slots</p>}
+          {slots.map((slot, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={String(slot.dayOfWeek)}
+                onValueChange={(value) => updateSlot(index, { dayOfWeek: Number(value) })}
+              >
+                <SelectTrigger className="w-40 bg-white/5 border-white/10 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAY_NAMES.map((day, dayOfWeek) => (
+                    <SelectItem key={day} value={String(dayOfWeek)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="time"
+                value={slot.time}
+                onChange={(e) => updateSlot(index, { time: e.target.value })}
+                className="w-32 bg-white/5 border-white/10 text-white"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                onClick={() => setSlots(current => current.filter((_, i) => i !== index))}
+                title="Remove slot"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {duplicates && <p className="text-xs text-red-400">Each slot can only be listed once</p>}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={addSlot}
+            disabled={slots.length >= MAX_SLOTS_PER_ACCOUNT}
+            className="text-white border-white/20 hover:bg-white/10"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Slot
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || duplicates || !timezone || slots.some(slot => !slot.time)}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PostingSlotsSettingsPage() {
+  const [, navigate] = useLocation();
+
+  const { data: accountsData, isLoading: accountsLoading } = useQuery<{ accounts: ConnectedAccount[] }>({
+    queryKey: ["/api/social/accounts"],
+  });
+  const { data: slotsData, isLoading: slotsLoading } = useQuery<{ accounts: AccountSlots[] }>({
+    queryKey: ["/api/social/slots"],
+  });
+
+  const accounts = (accountsData?.accounts ?? []).filter(account => account.isActive);
+  const savedSlots = new Map((slotsData?.accounts ?? []).map(slots => [slots.accountId, slots]));
+
+  return (
+    <div className="min-h-screen bg-black pt-24 pb-8 px-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white flex items-center gap-2">
+              <CalendarClock className="h-8 w-8" />
+              Posting Slots
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Weekly times each account posts at. "Add to queue" and Autopilot fill the next free one.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/settings/social-accounts")}
+              className="text-white border-white/20 hover:bg-white/10"
+            >
+              <Link2 className="mr-2 h-4 w-4" />
+              Social Accounts
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate("/")}
+              className="text-white border-white/20 hover:bg-white/10"
+            >
+              <Home className="mr-2 h-4 w-4" />
+              Back to Home
+            </Button>
+          </div>
+        </div>
+
+        <datalist id="posting-slot-timezones">
+          {TIMEZONES.map(timezone => <option key={timezone} value={timezone} />)}
+        </datalist>
+
+        {accountsLoading || slotsLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-40 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : accounts.length === 0 ? (
+          <Card className="bg-white/5 border-white/10">
+            <CardContent className="py-8 text-center text-gray-400">
+              Connect a social account to set up its posting slots
+            </CardContent>
+          </Card>
+        ) : (
+          accounts.map(account => (
+            <AccountSlotsCard key={account._id} account={account} saved={savedSlots.get(account._id)} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,10 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, CheckCircle, ExternalLink, Instagram, Youtube, Trash2 } from 'lucide-react';
+import { Loader2, CheckCircle, ExternalLink, Instagram, Youtube, Trash2, CalendarClock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { getAuthHeaders } from '@/lib/queryClient';
+import { Link } from 'wouter';
 
 // Platform icons mapping
 const platformIcons: Record<string, any> = {
@@ -317,11 +318,19 @@ export default function SocialAccountsPage() {
   return (
     <div className="min-h-screen bg-black pt-24 pb-8 px-6">
       <div className="container mx-auto max-w-4xl">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-white">Social Accounts</h1>
-          <p className="text-gray-400 mt-2">
-            Connect your social media accounts to post directly from Prosper UGC
-          </p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Social Accounts</h1>
+            <p className="text-gray-400 mt-2">
+              Connect your social media accounts to post directly from Prosper UGC
+            </p>
+          </div>
+          <Button asChild variant="outline" className="text-white border-white/20 hover:bg-white/10">
+            <Link href="/settings/posting-slots">
+              <CalendarClock className="mr-2 h-4 w-4" />
+              Posting Slots
+            </Link>
+          </Button>
         </div>
 
         {/* Connected Accounts Summary */}
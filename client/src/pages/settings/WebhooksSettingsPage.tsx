@@ -0,0 +1,395 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { WorkspacesResponse } from "@/components/WorkspaceSwitcher";
+import { hasWorkspaceRole } from "@shared/workspaces";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_DESCRIPTIONS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+} from "@shared/webhooks";
+import { ChevronDown, ChevronUp, Copy, Home, KeyRound, Loader2, Send, Trash2, Webhook } from "lucide-react";
+
+interface WebhookEndpointSummary {
+  id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventType: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  errorMessage: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+}
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: "bg-amber-500/20 text-amber-300 border-amber-500/30",
+  delivered: "bg-green-500/20 text-green-300 border-green-500/30",
+  failed: "bg-red-500/20 text-red-300 border-red-500/30",
+};
+
+function DeliveryHistory({ endpointId }: { endpointId: string }) {
+  const { data, isLoading } = useQuery<{ deliveries: WebhookDelivery[] }>({
+    queryKey: ["/api/webhooks", endpointId, "deliveries"],
+    refetchInterval: 15000,
+  });
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+  if (data.deliveries.length === 0) {
+    return <p className="text-sm text-gray-400">No deliveries yet</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {data.deliveries.map(delivery => (
+        <div key={delivery.id} className="flex items-center justify-between gap-4 p-2 rounded bg-black/30 text-sm">
+          <div className="min-w-0 flex items-center gap-2">
+            <Badge variant="outline" className={`capitalize ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+              {delivery.status}
+            </Badge>
+            <span className="text-white font-mono truncate">{delivery.eventType}</span>
+          </div>
+          <div className="text-xs text-gray-400 text-right shrink-0">
+            <p>
+              {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.errorMessage || "—"} ·{" "}
+              {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+            </p>
+            <p>
+              {new Date(delivery.createdAt).toLocaleString()}
+              {delivery.status === "pending" && delivery.nextAttemptAt &&
+                ` · retry ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function WebhooksSettingsPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>(["media.ready", "media.error"]);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: workspacesData } = useQuery<WorkspacesResponse>({ queryKey: ["/api/workspaces"] });
+  const workspace = workspacesData?.workspaces.find(w => w.id === workspacesData.activeWorkspaceId);
+  const isAdmin = workspace ? hasWorkspaceRole(workspace.role, "admin") : false;
+
+  const { data, isLoading } = useQuery<{ endpoints: WebhookEndpointSummary[] }>({
+    queryKey: ["/api/webhooks"],
+    enabled: isAdmin,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refreshEndpoints = () => queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", "/api/webhooks", {
+        url,
+        description: description.trim() || undefined,
+        events,
+      })).json(),
+    onSuccess: (result: { endpoint: WebhookEndpointSummary; secret: string }) => {
+      refreshEndpoints();
+      setNewSecret(result.secret);
+      setUrl("");
+      setDescription("");
+    },
+    onError: onError("Failed to add webhook"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; enabled: boolean }) =>
+      (await apiRequest("PATCH", `/api/webhooks/${id}`, updates)).json(),
+    onSuccess: refreshEndpoints,
+    onError: onError("Failed to update webhook"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("DELETE", `/api/webhooks/${id}`)).json(),
+    onSuccess: () => {
+      refreshEndpoints();
+      toast({ title: "Webhook deleted" });
+    },
+    onError: onError("Failed to delete webhook"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest("POST", `/api/webhooks/${id}/test`)).json(),
+    onSuccess: (result: { delivery: WebhookDelivery }, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks", id, "deliveries"] });
+      setExpandedId(id);
+      const { delivery } = result;
+      toast(delivery.status === "delivered"
+        ? { title: "Test event delivered", description: `Your endpoint responded HTTP ${delivery.responseStatus}` }
+        : {
+            title: "Test event failed",
+            description: delivery.errorMessage || "Your endpoint didn't respond with a 2xx",
+            variant: "destructive",
+          });
+    },
+    onError: onError("Failed to send test event"),
+  });
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents(current => checked ? [...current, event] : current.filter(e => e !== event));
+  };
+
+  const copySecret = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  return (
+    <div className="min-h-screen bg-black pt-24 pb-8 px-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white flex items-center gap-2">
+              <Webhook className="h-8 w-8" />
+              Webhooks
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Get notified when media finishes, posts go live and Autopilot runs complete
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/settings/api-keys")}
+              className="text-white border-white/20 hover:bg-white/10"
+            >
+              <KeyRound className="mr-2 h-4 w-4" />
+              API Keys
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate("/")}
+              className="text-white border-white/20 hover:bg-white/10"
+            >
+              <Home className="mr-2 h-4 w-4" />
+              Back to Home
+            </Button>
+          </div>
+        </div>
+
+        {workspace && !isAdmin && (
+          <Card className="bg-white/5 border-white/10">
+            <CardContent className="pt-6">
+              <p className="text-gray-400">Only workspace admins can manage webhooks.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {isAdmin && (
+          <>
+            {/* New endpoint secret - shown once */}
+            {newSecret && (
+              <Card className="bg-green-500/10 border-green-500/20">
+                <CardHeader>
+                  <CardTitle className="text-white">Copy your signing secret</CardTitle>
+                  <CardDescription className="text-gray-300">
+                    This is the only time it's shown. Verify each delivery by comparing{" "}
+                    <code>{WEBHOOK_SIGNATURE_HEADER}</code> with sha256=HMAC-SHA256(secret, "
+                    <code>{WEBHOOK_TIMESTAMP_HEADER}</code>.body").
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex gap-2">
+                  <Input readOnly value={newSecret} className="bg-white/5 border-white/10 text-white font-mono" />
+                  <Button onClick={copySecret}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    className="text-gray-300 hover:bg-white/10"
+                    onClick={() => setNewSecret(null)}
+                  >
+                    Done
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Create */}
+            <Card className="bg-white/5 border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white">Add an Endpoint</CardTitle>
+                <CardDescription className="text-gray-400">
+                  Events are POSTed as JSON and retried with backoff for a few hours until your endpoint answers 2xx
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="webhook-url" className="text-white">Endpoint URL</Label>
+                    <Input
+                      id="webhook-url"
+                      type="url"
+                      placeholder="https://example.com/webhooks"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      className="bg-white/5 border-white/10 text-white placeholder:text-gray-500"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="webhook-description" className="text-white">Description (optional)</Label>
+                    <Input
+                      id="webhook-description"
+                      placeholder="Order system"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      maxLength={200}
+                      className="bg-white/5 border-white/10 text-white placeholder:text-gray-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-white">Events</Label>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {WEBHOOK_EVENTS.map(event => (
+                      <label key={event} className="flex items-start gap-3 p-3 rounded-lg bg-white/5 cursor-pointer">
+                        <Checkbox
+                          checked={events.includes(event)}
+                          onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                          className="mt-0.5"
+                        />
+                        <div>
+                          <p className="text-white font-mono text-sm">{event}</p>
+                          <p className="text-xs text-gray-400">{WEBHOOK_EVENT_DESCRIPTIONS[event]}</p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={createMutation.isPending || !url.trim() || events.length === 0}
+                >
+                  {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Add Endpoint
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Endpoints */}
+            <Card className="bg-white/5 border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white">Endpoints</CardTitle>
+                <CardDescription className="text-gray-400">
+                  Disabled endpoints stop receiving events, including pending retries
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {isLoading || !data ? (
+                  <div className="space-y-2">
+                    <Skeleton className="h-16 w-full" />
+                    <Skeleton className="h-16 w-full" />
+                  </div>
+                ) : data.endpoints.length === 0 ? (
+                  <p className="text-gray-400 text-sm">No webhook endpoints yet</p>
+                ) : (
+                  data.endpoints.map(endpoint => {
+                    const isExpanded = expandedId === endpoint.id;
+                    return (
+                      <div key={endpoint.id} className="p-4 rounded-lg bg-white/5 space-y-3">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="min-w-0 space-y-1">
+                            <p className="text-white font-medium truncate">{endpoint.url}</p>
+                            {endpoint.description && (
+                              <p className="text-sm text-gray-400 truncate">{endpoint.description}</p>
+                            )}
+                            <div className="flex flex-wrap gap-1">
+                              {endpoint.events.map(event => (
+                                <Badge key={event} variant="secondary" className="font-mono">{event}</Badge>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <Switch
+                              checked={endpoint.enabled}
+                              onCheckedChange={(enabled) => updateMutation.mutate({ id: endpoint.id, enabled })}
+                              disabled={updateMutation.isPending}
+                              title={endpoint.enabled ? "Disable" : "Enable"}
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-white border-white/20 hover:bg-white/10"
+                              onClick={() => testMutation.mutate(endpoint.id)}
+                              disabled={testMutation.isPending}
+                            >
+                              {testMutation.isPending && testMutation.variables === endpoint.id
+                                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                : <Send className="mr-2 h-4 w-4" />}
+                              Send test event
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-gray-300 hover:bg-white/10"
+                              onClick={() => setExpandedId(isExpanded ? null : endpoint.id)}
+                              title="Delivery history"
+                            >
+                              {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                              onClick={() => deleteMutation.mutate(endpoint.id)}
+                              disabled={deleteMutation.isPending}
+                              title="Delete endpoint"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {isExpanded && <DeliveryHistory endpointId={endpoint.id} />}
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,505 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BROWSER_TIMEZONE, useTimeZone, type TimeZoneSettings } from "@/hooks/use-time-zone";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { setActiveWorkspaceId } from "@/lib/workspace";
+import type { WorkspacesResponse } from "@/components/WorkspaceSwitcher";
+import { INVITABLE_ROLES, hasWorkspaceRole, type InvitableRole, type WorkspaceRole } from "@shared/workspaces";
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "@shared/timezones";
+import { Clock, Home, Loader2, Mail, Trash2, UserPlus, Users, LogOut } from "lucide-react";
+
+interface WorkspaceMember {
+  userId: string;
+  email: string;
+  fullName: string | null;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+interface PendingInvitation {
+  id: string;
+  email: string;
+  role: InvitableRole;
+  expiresAt: string;
+}
+
+interface MembersResponse {
+  members: WorkspaceMember[];
+  invitations: PendingInvitation[];
+  role: WorkspaceRole;
+}
+
+const TIMEZONES = Intl.supportedValuesOf("timeZone");
+
+const ROLE_DESCRIPTIONS: Record<InvitableRole, string> = {
+  admin: "Manage members and everything editors can do",
+  editor: "Create content and spend workspace credits",
+  viewer: "Browse the workspace's content",
+};
+
+// The user's own timezone, and the workspace default for members without one
+function TimeZoneCard({ isAdmin }: { isAdmin: boolean }) {
+  const { toast } = useToast();
+  const { timeZone, settings } = useTimeZone();
+  const [userTimezone, setUserTimezone] = useState("");
+  const [workspaceTimezone, setWorkspaceTimezone] = useState("");
+
+  useEffect(() => {
+    setUserTimezone(settings?.timezone ?? "");
+    setWorkspaceTimezone(settings?.workspaceTimezone ?? "");
+  }, [settings]);
+
+  const onSaved = (title: string) => () => {
+    // Schedules, the calendar and charts are all shown in it
+    queryClient.invalidateQueries({ queryKey: ["/api/user/timezone"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+    toast({ title });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  // Empty clears it - the user follows the workspace, the workspace falls back to UTC
+  const userMutation = useMutation({
+    mutationFn: async (): Promise<TimeZoneSettings> =>
+      (await apiRequest("PUT", "/api/user/timezone", { timezone: userTimezone || null })).json(),
+    onSuccess: onSaved("Timezone saved"),
+    onError: onError("Failed to save timezone"),
+  });
+
+  const workspaceMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("PUT", "/api/workspaces/current/timezone", { timezone: workspaceTimezone || null })).json(),
+    onSuccess: onSaved("Workspace timezone saved"),
+    onError: onError("Failed to save workspace timezone"),
+  });
+
+  const isValid = (value: string) => !value || isValidTimeZone(value);
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Timezone
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Scheduling, the calendar, analytics and Autopilot posting hours use {timeZone}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <datalist id="timezones">
+          {TIMEZONES.map(zone => <option key={zone} value={zone} />)}
+        </datalist>
+
+        <div className="space-y-2">
+          <Label htmlFor="user-timezone" className="text-white">Your timezone</Label>
+          <div className="flex gap-2">
+            <Input
+              id="user-timezone"
+              list="timezones"
+              value={userTimezone}
+              onChange={(e) => setUserTimezone(e.target.value)}
+              placeholder={settings?.workspaceTimezone ? `Workspace default (${settings.workspaceTimezone})` : `Default (${DEFAULT_TIMEZONE})`}
+              className="bg-white/5 border-white/10 text-white"
+            />
+            {!userTimezone && (
+              <Button
+                variant="outline"
+                onClick={() => setUserTimezone(BROWSER_TIMEZONE)}
+                className="text-white border-white/20 hover:bg-white/10"
+              >
+                Use {BROWSER_TIMEZONE}
+              </Button>
+            )}
+            <Button
+              onClick={() => userMutation.mutate()}
+              disabled={userMutation.isPending || !isValid(userTimezone) || userTimezone === (settings?.timezone ?? "")}
+            >
+              {userMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+          {!isValid(userTimezone) && <p className="text-xs text-red-400">Pick an IANA timezone, e.g. Europe/London</p>}
+        </div>
+
+        {isAdmin && (
+          <div className="space-y-2">
+            <Label htmlFor="workspace-timezone" className="text-white">Workspace default</Label>
+            <div className="flex gap-2">
+              <Input
+                id="workspace-timezone"
+                list="timezones"
+                value={workspaceTimezone}
+                onChange={(e) => setWorkspaceTimezone(e.target.value)}
+                placeholder="UTC"
+                className="bg-white/5 border-white/10 text-white"
+              />
+              <Button
+                onClick={() => workspaceMutation.mutate()}
+                disabled={
+                  workspaceMutation.isPending
+                  || !isValid(workspaceTimezone)
+                  || workspaceTimezone === (settings?.workspaceTimezone ?? "")
+                }
+              >
+                {workspaceMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+            <p className="text-xs text-gray-400">For members who haven't set their own</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WorkspaceSettingsPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InvitableRole>("editor");
+
+  // Invitation link from email (?invite=<token>)
+  const inviteToken = new URLSearchParams(window.location.search).get("invite");
+
+  const { data: userData } = useQuery<{ id: string }>({ queryKey: ["/api/user"] });
+  const { data: workspacesData } = useQuery<WorkspacesResponse>({ queryKey: ["/api/workspaces"] });
+  const { data: membersData, isLoading } = useQuery<MembersResponse>({
+    queryKey: ["/api/workspaces/current/members"],
+  });
+
+  const workspace = workspacesData?.workspaces.find(w => w.id === workspacesData.activeWorkspaceId);
+  const role = membersData?.role ?? workspace?.role;
+  const isAdmin = role ? hasWorkspaceRole(role, "admin") : false;
+  const isOwner = role === "owner";
+
+  useEffect(() => {
+    if (workspace) {
+      setName(workspace.name);
+    }
+  }, [workspace?.id, workspace?.name]);
+
+  const refreshWorkspace = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/workspaces/current/members"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async () => (await apiRequest("PATCH", "/api/workspaces/current", { name })).json(),
+    onSuccess: () => {
+      refreshWorkspace();
+      toast({ title: "Workspace renamed" });
+    },
+    onError: onError("Failed to rename workspace"),
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest("POST", "/api/workspaces/current/invitations", { email: inviteEmail, role: inviteRole })).json(),
+    onSuccess: (data: { emailSent: boolean }) => {
+      refreshWorkspace();
+      toast({
+        title: "Invitation sent",
+        description: data.emailSent
+          ? `${inviteEmail} will get an email to join.`
+          : `${inviteEmail} will see the invitation when they sign in.`,
+      });
+      setInviteEmail("");
+    },
+    onError: onError("Failed to send invitation"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) =>
+      (await apiRequest("DELETE", `/api/workspaces/current/invitations/${invitationId}`)).json(),
+    onSuccess: refreshWorkspace,
+    onError: onError("Failed to revoke invitation"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: InvitableRole }) =>
+      (await apiRequest("PATCH", `/api/workspaces/current/members/${userId}`, { role })).json(),
+    onSuccess: refreshWorkspace,
+    onError: onError("Failed to change role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) =>
+      (await apiRequest("DELETE", `/api/workspaces/current/members/${userId}`)).json(),
+    onSuccess: (_data, userId) => {
+      if (userId === userData?.id) {
+        // Left the workspace - back to the user's own
+        setActiveWorkspaceId(null);
+        queryClient.invalidateQueries();
+        toast({ title: "You left the workspace" });
+        return;
+      }
+      refreshWorkspace();
+    },
+    onError: onError("Failed to remove member"),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (token: string) =>
+      (await apiRequest("POST", "/api/workspaces/invitations/accept", { token })).json(),
+    onSuccess: (data: { workspace: { id: string; name: string } }) => {
+      // Switch straight into the workspace just joined
+      setActiveWorkspaceId(data.workspace.id);
+      queryClient.invalidateQueries();
+      navigate("/settings/workspace");
+      toast({ title: `Joined ${data.workspace.name}` });
+    },
+    onError: onError("Failed to accept invitation"),
+  });
+
+  const invitations = workspacesData?.invitations ?? [];
+
+  return (
+    <div className="min-h-screen bg-black pt-24 pb-8 px-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white flex items-center gap-2">
+              <Users className="h-8 w-8" />
+              Workspace
+            </h1>
+            <p className="text-gray-400 mt-1">
+              Members share this workspace's content and credit balance
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => navigate("/")}
+            className="text-white border-white/20 hover:bg-white/10"
+          >
+            <Home className="mr-2 h-4 w-4" />
+            Back to Home
+          </Button>
+        </div>
+
+        {/* Invitations for this user */}
+        {(inviteToken || invitations.length > 0) && (
+          <Card className="bg-blue-500/10 border-blue-500/20">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <Mail className="h-5 w-5" />
+                Invitations
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {inviteToken && !invitations.some(invitation => invitation.token === inviteToken) && (
+                <div className="flex items-center justify-between p-4 rounded-lg bg-white/5">
+                  <p className="text-white">You've been invited to join a workspace</p>
+                  <Button onClick={() => acceptMutation.mutate(inviteToken)} disabled={acceptMutation.isPending}>
+                    {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Accept
+                  </Button>
+                </div>
+              )}
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between p-4 rounded-lg bg-white/5">
+                  <p className="text-white">
+                    Join <span className="font-semibold">{invitation.workspaceName}</span> as{" "}
+                    <span className="capitalize">{invitation.role}</span>
+                  </p>
+                  <Button onClick={() => acceptMutation.mutate(invitation.token)} disabled={acceptMutation.isPending}>
+                    {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Accept
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Workspace name */}
+        <Card className="bg-white/5 border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white">{workspace?.name ?? "Workspace"}</CardTitle>
+            <CardDescription className="text-gray-400">
+              {isOwner
+                ? "Your workspace - credits you buy are shared with its members"
+                : `You're ${role === "admin" ? "an" : "a"} ${role ?? "member"} in this workspace`}
+            </CardDescription>
+          </CardHeader>
+          {isOwner && (
+            <CardContent className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={80}
+                className="bg-white/5 border-white/10 text-white"
+              />
+              <Button
+                onClick={() => renameMutation.mutate()}
+                disabled={renameMutation.isPending || !name.trim() || name === workspace?.name}
+              >
+                {renameMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Rename
+              </Button>
+            </CardContent>
+          )}
+        </Card>
+
+        <TimeZoneCard isAdmin={isAdmin} />
+
+        {/* Members */}
+        <Card className="bg-white/5 border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white">Members</CardTitle>
+            <CardDescription className="text-gray-400">
+              Viewers can browse, editors create content and spend credits, admins manage members
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading || !membersData ? (
+              <div className="space-y-2">
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </div>
+            ) : (
+              membersData.members.map(member => {
+                const isSelf = member.userId === userData?.id;
+                return (
+                  <div key={member.userId} className="flex items-center justify-between gap-4 p-4 rounded-lg bg-white/5">
+                    <div className="min-w-0">
+                      <p className="text-white font-medium truncate">
+                        {member.fullName || member.email}
+                        {isSelf && <span className="text-gray-400 font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-sm text-gray-400 truncate">{member.email}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {member.role === "owner" || !isAdmin || isSelf ? (
+                        <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+                      ) : (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => roleMutation.mutate({ userId: member.userId, role: value as InvitableRole })}
+                        >
+                          <SelectTrigger className="w-28 bg-white/5 border-white/20 text-white capitalize">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INVITABLE_ROLES.map(option => (
+                              <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {member.role !== "owner" && (isAdmin || isSelf) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                          onClick={() => removeMutation.mutate(member.userId)}
+                          disabled={removeMutation.isPending}
+                          title={isSelf ? "Leave workspace" : "Remove member"}
+                        >
+                          {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Invite (admins) */}
+        {isAdmin && (
+          <Card className="bg-white/5 border-white/10">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <UserPlus className="h-5 w-5" />
+                Invite Members
+              </CardTitle>
+              <CardDescription className="text-gray-400">
+                Invitations are emailed and expire after 7 days
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="teammate@agency.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  className="bg-white/5 border-white/10 text-white placeholder:text-gray-500"
+                />
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InvitableRole)}>
+                  <SelectTrigger className="w-32 bg-white/5 border-white/20 text-white capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITABLE_ROLES.map(option => (
+                      <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => inviteMutation.mutate()}
+                  disabled={inviteMutation.isPending || !inviteEmail.trim()}
+                >
+                  {inviteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Invite
+                </Button>
+              </div>
+              <p className="text-xs text-gray-400">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+
+              {membersData && membersData.invitations.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-400">Pending</p>
+                  {membersData.invitations.map(invitation => (
+                    <div key={invitation.id} className="flex items-center justify-between p-3 rounded-lg bg-white/5">
+                      <div>
+                        <p className="text-white">{invitation.email}</p>
+                        <p className="text-xs text-gray-400">
+                          <span className="capitalize">{invitation.role}</span> · expires{" "}
+                          {new Date(invitation.expiresAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        onClick={() => revokeMutation.mutate(invitation.id)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        Revoke
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+-- Generation Jobs Migration (Feb 2026)
+-- Durable background job queue for media generation, UGC chains and video renders.
+-- Replaces in-process polling loops so in-flight work resumes after a restart.
+
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL,
+  media_asset_id TEXT REFERENCES media_assets(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued',
+  payload JSONB NOT NULL,
+  state JSONB,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  run_at TIMESTAMP NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP,
+  locked_by TEXT,
+  deadline_at TIMESTAMP,
+  last_error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP
+);
+
+-- Worker claim query scans due jobs by status + run_at
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status_run_at ON generation_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_media_asset_id ON generation_jobs(media_asset_id);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_id ON generation_jobs(user_id);
@@ -0,0 +1,6 @@
+-- Media Asset Variants Migration (Feb 2026)
+-- Multi-aspect-ratio renders: one MP4 per requested ratio (9:16, 16:9, 1:1, 4:5).
+-- Array of { aspectRatio, url, width, height }; result_url keeps the first (primary) variant.
+
+ALTER TABLE media_assets
+ADD COLUMN IF NOT EXISTS variants JSONB;
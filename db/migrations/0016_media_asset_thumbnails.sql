@@ -0,0 +1,9 @@
+-- Media Asset Thumbnails Migration (Feb 2026)
+-- Generated after every video render / KIE completion so tiles don't load the full MP4:
+-- poster JPEG, short looping animated WebP preview, and a sprite sheet for hover scrubbing.
+-- sprite_sheet: { url, columns, rows, frameWidth, frameHeight, frameCount, intervalSeconds }
+
+ALTER TABLE media_assets
+ADD COLUMN IF NOT EXISTS poster_url TEXT,
+ADD COLUMN IF NOT EXISTS preview_url TEXT,
+ADD COLUMN IF NOT EXISTS sprite_sheet JSONB;
@@ -0,0 +1,7 @@
+-- Gemini Flash Pricing Migration (Feb 2026)
+-- Each media provider in shared/mediaProviders.ts names its credit_pricing row (costKey).
+-- Gemini Flash images were billed as Flux Kontext; give them their own price.
+
+INSERT INTO credit_pricing (feature_key, feature_name, base_cost_usd, credit_cost) VALUES
+  ('media_gemini', 'Image (Gemini Flash)', 0.0390, 3)
+ON CONFLICT (feature_key) DO NOTHING;
@@ -0,0 +1,16 @@
+-- Failover Policies Migration (Feb 2026)
+-- Admin-configured provider failover chain per UGC generation mode
+-- (e.g. Veo3 -> Veo3 Fast -> Sora2). Modes without a row use the defaults in
+-- shared/failoverPolicies.ts; hops are recorded on media_assets.chain_metadata.
+
+CREATE TABLE IF NOT EXISTS failover_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mode TEXT NOT NULL UNIQUE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  chain JSONB NOT NULL,
+  triggers JSONB NOT NULL,
+  max_total_attempts INTEGER NOT NULL DEFAULT 2,
+  credit_adjustment TEXT NOT NULL DEFAULT 'refund_difference',
+  created_at TIMESTAMP NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP NOT NULL DEFAULT now()
+);
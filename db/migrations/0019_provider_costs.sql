@@ -0,0 +1,24 @@
+-- Provider Costs Migration (Feb 2026)
+-- Ledger of every billable external call (KIE generations incl. retries and
+-- failover hops, OpenAI chat/vision, TTS characters, renders), attributed to
+-- the media asset or scene spec that caused it. Read by the admin margin
+-- report, which compares it against credit_transactions.
+
+CREATE TABLE IF NOT EXISTS provider_costs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID,
+  media_asset_id TEXT,
+  scene_spec_id UUID,
+  feature_key TEXT,
+  provider TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  units NUMERIC(14, 2) NOT NULL DEFAULT 1,
+  unit_type TEXT NOT NULL DEFAULT 'call',
+  cost_usd NUMERIC(10, 4) NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_costs_created_at ON provider_costs(created_at);
+CREATE INDEX IF NOT EXISTS idx_provider_costs_media_asset_id ON provider_costs(media_asset_id);
+CREATE INDEX IF NOT EXISTS idx_provider_costs_scene_spec_id ON provider_costs(scene_spec_id);
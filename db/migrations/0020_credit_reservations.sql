@@ -0,0 +1,28 @@
+-- Credit Reservations Migration (Feb 2026)
+-- Async generations hold credits instead of charging up front. A hold lowers
+-- the spendable balance (balance - reserved); success settles it into a
+-- credit_transactions debit, failure or timeout releases it with a linked
+-- reversal entry.
+
+ALTER TABLE user_credits ADD COLUMN IF NOT EXISTS reserved INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS credit_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL,
+  feature_key TEXT NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'held',
+  media_asset_id TEXT,
+  scene_spec_id UUID,
+  metadata JSONB,
+  transaction_id UUID,
+  release_reason TEXT,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_media_asset_id ON credit_reservations(media_asset_id);
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_scene_spec_id ON credit_reservations(scene_spec_id);
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_held ON credit_reservations(expires_at) WHERE status = 'held';
@@ -0,0 +1,23 @@
+-- Subscription Plans Migration (Feb 2026)
+-- Recurring credit plans billed through Stripe subscriptions. Each paid
+-- invoice grants the plan's monthly credits; unused grant credits roll over
+-- up to the plan's cap and the rest expire. grant_balance tracks the part of
+-- balance that came from grants - the remainder is purchased top-ups, which
+-- never expire.
+
+ALTER TABLE user_credits ADD COLUMN IF NOT EXISTS grant_balance INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  stripe_subscription_id TEXT NOT NULL UNIQUE,
+  stripe_customer_id TEXT,
+  plan_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  current_period_end TIMESTAMP,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id);
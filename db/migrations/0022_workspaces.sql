@@ -0,0 +1,71 @@
+-- Workspaces Migration (Feb 2026)
+-- Team workspaces with owner/admin/editor/viewer roles and email invitations.
+-- Media assets, social posts, channel configs, scene specs and autopilot
+-- stores are scoped to a workspace instead of a single user. Each workspace's
+-- credit pool is its owner's user_credits row.
+--
+-- Backfill: every existing user gets a personal workspace (as its owner) and
+-- their existing resources move into it.
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT now(),
+  CONSTRAINT workspace_members_workspace_user_key UNIQUE (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+CREATE TABLE IF NOT EXISTS workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  expires_at TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_workspace_id ON workspace_invitations(workspace_id);
+
+ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE social_posts ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE channel_configs ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE scene_specs ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE autopilot_stores ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+-- Personal workspace for every existing user
+INSERT INTO workspaces (name, owner_id)
+SELECT COALESCE(NULLIF(full_name, ''), split_part(email, '@', 1)) || '''s Workspace', id
+FROM users
+ON CONFLICT (owner_id) DO NOTHING;
+
+INSERT INTO workspace_members (workspace_id, user_id, role)
+SELECT id, owner_id, 'owner'
+FROM workspaces
+ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+UPDATE media_assets r SET workspace_id = w.id FROM workspaces w WHERE w.owner_id = r.user_id AND r.workspace_id IS NULL;
+UPDATE social_posts r SET workspace_id = w.id FROM workspaces w WHERE w.owner_id = r.user_id AND r.workspace_id IS NULL;
+UPDATE channel_configs r SET workspace_id = w.id FROM workspaces w WHERE w.owner_id = r.user_id AND r.workspace_id IS NULL;
+UPDATE scene_specs r SET workspace_id = w.id FROM workspaces w WHERE w.owner_id = r.user_id AND r.workspace_id IS NULL;
+UPDATE autopilot_stores r SET workspace_id = w.id FROM workspaces w WHERE w.owner_id = r.user_id AND r.workspace_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_media_assets_workspace_id ON media_assets(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_social_posts_workspace_id ON social_posts(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_channel_configs_workspace_id ON channel_configs(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_scene_specs_workspace_id ON scene_specs(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_autopilot_stores_workspace_id ON autopilot_stores(workspace_id);
@@ -0,0 +1,21 @@
+-- API Keys Migration (Feb 2026)
+-- Personal API keys for the public /api/v1 API (internal tools, Zapier).
+-- A key acts as its creator in the workspace it was created in, limited to
+-- its scopes and per-minute rate limit. Only the SHA-256 of the secret is
+-- stored; revoked keys are kept for the audit trail.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes JSONB NOT NULL,
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
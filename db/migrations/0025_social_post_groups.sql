@@ -0,0 +1,23 @@
+-- Multi-platform Posts Migration (Feb 2026)
+-- One request can post a video to several connected accounts as a single
+-- Late.dev post. The parent group holds the shared fields; each platform keeps
+-- its own social_posts row (status, URL, caption and schedule overrides).
+
+CREATE TABLE IF NOT EXISTS social_post_groups (
+  id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  user_id UUID NOT NULL REFERENCES users(id),
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+  project_id TEXT REFERENCES projects(id),
+  media_asset_id TEXT REFERENCES media_assets(id),
+  caption TEXT,
+  late_post_id TEXT,
+  late_response JSONB,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_social_post_groups_workspace_id ON social_post_groups(workspace_id);
+
+ALTER TABLE social_posts
+  ADD COLUMN IF NOT EXISTS group_id INTEGER REFERENCES social_post_groups(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_social_posts_group_id ON social_posts(group_id);
@@ -0,0 +1,8 @@
+-- Scheduled Post Edits Migration (Feb 2026)
+-- Scheduled posts can be rescheduled, edited and cancelled. Editing resends
+-- every platform of the Late.dev post, so each row keeps the platform entry
+-- (account, content type, overrides) it was posted with. Cancelled posts keep
+-- their row with status 'cancelled'.
+
+ALTER TABLE social_posts
+  ADD COLUMN IF NOT EXISTS late_target JSONB;
@@ -0,0 +1,22 @@
+-- Posting Slots Migration (Feb 2026)
+-- Recurring weekly posting times per connected account. "Add to queue" and
+-- Autopilot schedule posts into the account's next free slot.
+
+CREATE TABLE IF NOT EXISTS posting_slots (
+  id INTEGER PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+  account_id TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  time TEXT NOT NULL,
+  timezone TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_posting_slots_workspace_account ON posting_slots(workspace_id, account_id);
+
+-- Queued posts are looked up by account
+CREATE INDEX IF NOT EXISTS idx_social_posts_late_account
+  ON social_posts((late_target->>'accountId'))
+  WHERE status = 'scheduled';
@@ -0,0 +1,27 @@
+-- Timezones Migration (Feb 2026)
+-- Users and workspaces get an IANA timezone (a user's own wins over the
+-- workspace's; neither set means UTC). It drives scheduling, Late.dev payloads,
+-- analytics bucketing and Autopilot, which now only runs inside a window of
+-- local posting hours.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+ALTER TABLE workspaces
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- Local hours, end exclusive: 9-21 runs from 09:00 up to 20:59
+ALTER TABLE autopilot_configs
+  ADD COLUMN IF NOT EXISTS posting_window_start INTEGER NOT NULL DEFAULT 9,
+  ADD COLUMN IF NOT EXISTS posting_window_end INTEGER NOT NULL DEFAULT 21;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'autopilot_configs_posting_window_check'
+  ) THEN
+    ALTER TABLE autopilot_configs
+      ADD CONSTRAINT autopilot_configs_posting_window_check
+      CHECK (posting_window_start BETWEEN 0 AND 23 AND posting_window_end BETWEEN 1 AND 24 AND posting_window_start < posting_window_end);
+  END IF;
+END $$;
@@ -0,0 +1,7 @@
+-- Drop Webhook Response Body Migration (Feb 2026)
+-- Deliveries only record the receiver's status code now - the response body
+-- is drained and discarded, so the column (and the bodies stored by earlier
+-- attempts) goes.
+
+ALTER TABLE webhook_deliveries
+  DROP COLUMN IF EXISTS response_body;
@@ -0,0 +1,29 @@
+-- Credit Transaction Payment Key Migration (Feb 2026)
+-- One credit grant per Stripe payment: grants and purchases claim the payment
+-- id with INSERT ... ON CONFLICT DO NOTHING, so a webhook delivered twice (or
+-- two deliveries racing) can't credit the same invoice or checkout twice.
+-- Deductions keep a NULL payment id, and NULLs don't collide.
+--
+-- Payments already credited more than once (the old check-then-insert race)
+-- keep their earliest row; the later rows stay in the ledger but lose the
+-- payment id, which moves to metadata.duplicateStripePaymentId.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'credit_transactions_stripe_payment_id_key'
+  ) THEN
+    UPDATE credit_transactions ct
+      SET metadata = COALESCE(ct.metadata, '{}'::jsonb) || jsonb_build_object('duplicateStripePaymentId', ct.stripe_payment_id),
+          stripe_payment_id = NULL
+      FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY stripe_payment_id ORDER BY created_at, id) AS position
+        FROM credit_transactions
+        WHERE stripe_payment_id IS NOT NULL
+      ) ranked
+      WHERE ct.id = ranked.id AND ranked.position > 1;
+
+    ALTER TABLE credit_transactions
+      ADD CONSTRAINT credit_transactions_stripe_payment_id_key UNIQUE (stripe_payment_id);
+  END IF;
+END $$;
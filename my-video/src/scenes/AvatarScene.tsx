@@ -4,6 +4,8 @@
  * Plays a pre-generated avatar video from KIE (Veo3).
  * If no avatar URL is provided, renders nothing (duration should be 0).
  * Audio is embedded in the avatar clip itself.
+ * Avatar clips are portrait - other frame sizes letterbox the clip over a
+ * blurred, muted copy instead of cropping the face.
  */
 
 import React from 'react';
@@ -14,12 +16,14 @@ import {
   interpolate,
 } from 'remotion';
 import type { AvatarSceneProps } from '../types/UGCSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 export const AvatarScene: React.FC<AvatarSceneProps> = ({
   avatarVideoUrl,
   durationInFrames,
 }) => {
   const frame = useCurrentFrame();
+  const { orientation } = useSceneLayout();
 
   // If no avatar URL or duration is 0, render nothing
   if (!avatarVideoUrl || durationInFrames === 0) {
@@ -54,13 +58,29 @@ export const AvatarScene: React.FC<AvatarSceneProps> = ({
         alignItems: 'center',
       }}
     >
+      {/* Blurred fill behind the letterboxed clip */}
+      {orientation !== 'portrait' && (
+        <AbsoluteFill style={{ overflow: 'hidden' }}>
+          <OffthreadVideo
+            src={avatarVideoUrl}
+            muted
+            style={{
+              width: '100%',
+              height: '100%',
+              objectFit: 'cover',
+              filter: 'blur(30px) brightness(0.5)',
+            }}
+          />
+        </AbsoluteFill>
+      )}
+
       {/* Avatar video - audio is embedded in the clip */}
       <OffthreadVideo
         src={avatarVideoUrl}
         style={{
           width: '100%',
           height: '100%',
-          objectFit: 'cover',
+          objectFit: orientation === 'portrait' ? 'cover' : 'contain',
           transform: `scale(${scale})`,
         }}
       />
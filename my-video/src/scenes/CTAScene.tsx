@@ -3,6 +3,7 @@
  *
  * Displays product image, optional logo, and call-to-action text
  * with attention-grabbing animations.
+ * Portrait/square frames stack image over CTA; landscape puts them side by side.
  */
 
 import React from 'react';
@@ -16,6 +17,7 @@ import {
   spring,
 } from 'remotion';
 import type { CTASceneProps } from '../types/UGCSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 export const CTAScene: React.FC<CTASceneProps> = ({
   productImage,
@@ -26,6 +28,8 @@ export const CTAScene: React.FC<CTASceneProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { isLandscape, y } = useSceneLayout();
+  const imageSize = isLandscape ? 520 : 400;
 
   // Product image entrance with scale
   const imageProgress = spring({
@@ -94,18 +98,18 @@ export const CTAScene: React.FC<CTASceneProps> = ({
 
       {/* Product image container */}
       <AbsoluteFill
-        style={{
-          justifyContent: 'flex-start',
-          alignItems: 'center',
-          paddingTop: 180,
-        }}
+        style={
+          isLandscape
+            ? { justifyContent: 'center', alignItems: 'flex-start', paddingLeft: 240 }
+            : { justifyContent: 'flex-start', alignItems: 'center', paddingTop: y(180) }
+        }
       >
         <div
           style={{
             opacity: imageOpacity,
             transform: `scale(${imageScale})`,
-            width: 400,
-            height: 400,
+            width: imageSize,
+            height: imageSize,
             borderRadius: 24,
             overflow: 'hidden',
             boxShadow: '0 20px 60px rgba(0,0,0,0.5)',
@@ -125,11 +129,11 @@ export const CTAScene: React.FC<CTASceneProps> = ({
 
       {/* CTA Text & Button */}
       <AbsoluteFill
-        style={{
-          justifyContent: 'flex-end',
-          alignItems: 'center',
-          paddingBottom: 250,
-        }}
+        style={
+          isLandscape
+            ? { justifyContent: 'center', alignItems: 'flex-end', paddingRight: 240 }
+            : { justifyContent: 'flex-end', alignItems: 'center', paddingBottom: y(250) }
+        }
       >
         <div
           style={{
@@ -163,8 +167,9 @@ export const CTAScene: React.FC<CTASceneProps> = ({
         <AbsoluteFill
           style={{
             justifyContent: 'flex-end',
-            alignItems: 'center',
-            paddingBottom: 100,
+            alignItems: isLandscape ? 'flex-end' : 'center',
+            paddingBottom: y(100),
+            paddingRight: isLandscape ? 288 : 0,
           }}
         >
           <div
@@ -195,7 +200,7 @@ export const CTAScene: React.FC<CTASceneProps> = ({
         <div
           style={{
             position: 'absolute',
-            top: 100,
+            top: y(100),
             right: 80,
             fontSize: 48,
             opacity: 0.6 + Math.sin((frame / fps) * 5) * 0.4,
@@ -209,7 +214,7 @@ export const CTAScene: React.FC<CTASceneProps> = ({
         <div
           style={{
             position: 'absolute',
-            bottom: 400,
+            bottom: y(400),
             left: 60,
             fontSize: 36,
             opacity: 0.4 + Math.sin((frame / fps) * 4 + 1) * 0.4,
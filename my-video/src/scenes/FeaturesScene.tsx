@@ -17,6 +17,7 @@ import {
   Easing,
 } from 'remotion';
 import type { FeaturesSceneProps, FeatureItem } from '../types/UGCSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 // Default icons if none provided
 const DEFAULT_ICONS = ['✓', '★', '♦'];
@@ -127,6 +128,7 @@ export const FeaturesScene: React.FC<FeaturesSceneProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { isLandscape, y } = useSceneLayout();
 
   // Background image subtle animation
   const bgScale = interpolate(frame, [0, durationInFrames], [1.05, 1], {
@@ -197,7 +199,8 @@ export const FeaturesScene: React.FC<FeaturesSceneProps> = ({
       {/* Content */}
       <AbsoluteFill
         style={{
-          padding: '120px 48px',
+          // Landscape keeps the cards at a readable width instead of spanning the frame
+          padding: `${y(120)}px ${isLandscape ? 360 : 48}px`,
           justifyContent: 'center',
         }}
       >
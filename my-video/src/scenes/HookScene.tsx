@@ -3,6 +3,7 @@
  *
  * Displays hero product image with bold, animated text
  * to capture viewer attention in the first 3-5 seconds.
+ * Landscape frames narrow the text column so the hook doesn't run edge to edge.
  */
 
 import React from 'react';
@@ -16,6 +17,7 @@ import {
   spring,
 } from 'remotion';
 import type { HookSceneProps } from '../types/UGCSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 export const HookScene: React.FC<HookSceneProps> = ({
   productImage,
@@ -24,6 +26,7 @@ export const HookScene: React.FC<HookSceneProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { isLandscape, y } = useSceneLayout();
 
   // Image scale animation - subtle zoom in
   const imageScale = interpolate(frame, [0, durationInFrames], [1, 1.08], {
@@ -109,7 +112,7 @@ export const HookScene: React.FC<HookSceneProps> = ({
         style={{
           justifyContent: 'center',
           alignItems: 'center',
-          padding: '0 40px',
+          padding: isLandscape ? '0 240px' : '0 40px',
         }}
       >
         <div
@@ -141,7 +144,7 @@ export const HookScene: React.FC<HookSceneProps> = ({
         style={{
           justifyContent: 'flex-end',
           alignItems: 'center',
-          paddingBottom: 120,
+          paddingBottom: y(120),
         }}
       >
         <div
@@ -3,6 +3,7 @@
  *
  * Showcases the product price, any discounts,
  * and creates urgency for purchase.
+ * Landscape frames put the product on the left and the price on the right.
  */
 
 import React from 'react';
@@ -16,6 +17,7 @@ import {
   spring,
 } from 'remotion';
 import type { OfferSceneProps } from '../types/AutopilotSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 export const OfferScene: React.FC<OfferSceneProps> = ({
   productImage,
@@ -28,6 +30,7 @@ export const OfferScene: React.FC<OfferSceneProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { isLandscape, y } = useSceneLayout();
 
   // Product image animation
   const imageProgress = spring({
@@ -123,11 +126,11 @@ export const OfferScene: React.FC<OfferSceneProps> = ({
 
       {/* Product image */}
       <AbsoluteFill
-        style={{
-          justifyContent: 'flex-start',
-          alignItems: 'center',
-          paddingTop: 150,
-        }}
+        style={
+          isLandscape
+            ? { justifyContent: 'center', alignItems: 'flex-start', paddingLeft: 300 }
+            : { justifyContent: 'flex-start', alignItems: 'center', paddingTop: y(150) }
+        }
       >
         <div
           style={{
@@ -199,11 +202,11 @@ export const OfferScene: React.FC<OfferSceneProps> = ({
 
       {/* Price section */}
       <AbsoluteFill
-        style={{
-          justifyContent: 'center',
-          alignItems: 'center',
-          paddingTop: 250,
-        }}
+        style={
+          isLandscape
+            ? { justifyContent: 'center', alignItems: 'flex-end', paddingRight: 300 }
+            : { justifyContent: 'center', alignItems: 'center', paddingTop: y(250) }
+        }
       >
         <div
           style={{
@@ -263,8 +266,9 @@ export const OfferScene: React.FC<OfferSceneProps> = ({
         <AbsoluteFill
           style={{
             justifyContent: 'flex-end',
-            alignItems: 'center',
-            paddingBottom: 280,
+            alignItems: isLandscape ? 'flex-end' : 'center',
+            paddingBottom: y(280),
+            paddingRight: isLandscape ? 252 : 0,
           }}
         >
           <div
@@ -295,7 +299,7 @@ export const OfferScene: React.FC<OfferSceneProps> = ({
           style={{
             justifyContent: 'flex-start',
             alignItems: 'center',
-            paddingTop: 80,
+            paddingTop: y(80),
           }}
         >
           <div style={{ opacity: imageOpacity }}>
@@ -319,7 +323,7 @@ export const OfferScene: React.FC<OfferSceneProps> = ({
         style={{
           justifyContent: 'flex-end',
           alignItems: 'center',
-          paddingBottom: 150,
+          paddingBottom: y(150),
         }}
       >
         {/* Urgency indicator */}
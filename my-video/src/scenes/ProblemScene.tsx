@@ -17,6 +17,7 @@ import {
   Easing,
 } from 'remotion';
 import type { ProblemSceneProps } from '../types/AutopilotSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 export const ProblemScene: React.FC<ProblemSceneProps> = ({
   problemText,
@@ -26,6 +27,7 @@ export const ProblemScene: React.FC<ProblemSceneProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { isLandscape, y } = useSceneLayout();
 
   // Background animation - slow zoom
   const bgScale = interpolate(frame, [0, durationInFrames], [1, 1.1], {
@@ -130,7 +132,7 @@ export const ProblemScene: React.FC<ProblemSceneProps> = ({
         style={{
           justifyContent: 'center',
           alignItems: 'center',
-          padding: '0 60px',
+          padding: isLandscape ? '0 300px' : '0 60px',
         }}
       >
         {/* Problem label */}
@@ -182,7 +184,7 @@ export const ProblemScene: React.FC<ProblemSceneProps> = ({
         style={{
           justifyContent: 'flex-end',
           alignItems: 'center',
-          paddingBottom: 100,
+          paddingBottom: y(100),
         }}
       >
         <div
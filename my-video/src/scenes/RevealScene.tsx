@@ -3,6 +3,7 @@
  *
  * Introduces the product as the solution to the problem.
  * Features dramatic entrance animation and product showcase.
+ * Landscape frames move the product to the left and the copy to the right.
  */
 
 import React from 'react';
@@ -16,6 +17,7 @@ import {
   spring,
 } from 'remotion';
 import type { RevealSceneProps } from '../types/AutopilotSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 export const RevealScene: React.FC<RevealSceneProps> = ({
   productName,
@@ -26,6 +28,7 @@ export const RevealScene: React.FC<RevealSceneProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { isLandscape, y } = useSceneLayout();
 
   // Flash effect at start
   const flashOpacity = interpolate(frame, [0, 15], [0.8, 0], {
@@ -122,11 +125,11 @@ export const RevealScene: React.FC<RevealSceneProps> = ({
 
       {/* "Introducing" text */}
       <AbsoluteFill
-        style={{
-          justifyContent: 'flex-start',
-          alignItems: 'center',
-          paddingTop: 200,
-        }}
+        style={
+          isLandscape
+            ? { justifyContent: 'center', alignItems: 'flex-end', paddingRight: 240, paddingBottom: 160 }
+            : { justifyContent: 'flex-start', alignItems: 'center', paddingTop: y(200) }
+        }
       >
         <div
           style={{
@@ -152,7 +155,8 @@ export const RevealScene: React.FC<RevealSceneProps> = ({
       <AbsoluteFill
         style={{
           justifyContent: 'center',
-          alignItems: 'center',
+          alignItems: isLandscape ? 'flex-start' : 'center',
+          paddingLeft: isLandscape ? 300 : 0,
         }}
       >
         <div
@@ -220,18 +224,19 @@ export const RevealScene: React.FC<RevealSceneProps> = ({
 
       {/* Product name */}
       <AbsoluteFill
-        style={{
-          justifyContent: 'flex-end',
-          alignItems: 'center',
-          paddingBottom: 250,
-        }}
+        style={
+          isLandscape
+            ? { justifyContent: 'center', alignItems: 'flex-end', paddingRight: 192, paddingTop: 80 }
+            : { justifyContent: 'flex-end', alignItems: 'center', paddingBottom: y(250) }
+        }
       >
         <div
           style={{
             opacity: nameOpacity,
             transform: `scale(${nameScale})`,
-            textAlign: 'center',
+            textAlign: isLandscape ? 'right' : 'center',
             padding: '0 48px',
+            maxWidth: isLandscape ? 900 : undefined,
           }}
         >
           <h1
@@ -252,10 +257,10 @@ export const RevealScene: React.FC<RevealSceneProps> = ({
       {/* Decorative sparkles */}
       <AbsoluteFill style={{ pointerEvents: 'none' }}>
         {[
-          { top: 150, left: 80, delay: 20, size: 24 },
-          { top: 300, right: 60, delay: 35, size: 20 },
-          { bottom: 350, left: 100, delay: 50, size: 18 },
-          { bottom: 400, right: 90, delay: 65, size: 22 },
+          { top: y(150), left: 80, delay: 20, size: 24 },
+          { top: y(300), right: 60, delay: 35, size: 20 },
+          { bottom: y(350), left: 100, delay: 50, size: 18 },
+          { bottom: y(400), right: 90, delay: 65, size: 22 },
         ].map((sparkle, index) => {
           const sparkleOpacity = interpolate(
             frame - sparkle.delay,
@@ -16,6 +16,7 @@ import {
   Easing,
 } from 'remotion';
 import type { ShowcaseSceneProps } from '../types/UGCSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 export const ShowcaseScene: React.FC<ShowcaseSceneProps> = ({
   productImages,
@@ -25,6 +26,7 @@ export const ShowcaseScene: React.FC<ShowcaseSceneProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { isLandscape, y } = useSceneLayout();
 
   // Calculate how long each image should be displayed
   const imagesCount = productImages.length;
@@ -153,7 +155,7 @@ export const ShowcaseScene: React.FC<ShowcaseSceneProps> = ({
           style={{
             justifyContent: 'flex-end',
             alignItems: 'center',
-            paddingBottom: 180,
+            paddingBottom: y(180),
           }}
         >
           <div
@@ -161,7 +163,7 @@ export const ShowcaseScene: React.FC<ShowcaseSceneProps> = ({
               opacity: taglineOpacity,
               transform: `translateY(${taglineTranslateY}px)`,
               textAlign: 'center',
-              padding: '0 40px',
+              padding: isLandscape ? '0 240px' : '0 40px',
             }}
           >
             <p
@@ -185,7 +187,7 @@ export const ShowcaseScene: React.FC<ShowcaseSceneProps> = ({
         style={{
           justifyContent: 'flex-end',
           alignItems: 'center',
-          paddingBottom: 80,
+          paddingBottom: y(80),
         }}
       >
         <div style={{ display: 'flex', gap: 8 }}>
@@ -17,6 +17,7 @@ import {
   Easing,
 } from 'remotion';
 import type { SocialProofSceneProps } from '../types/AutopilotSceneProps';
+import { useSceneLayout } from './useSceneLayout';
 
 // Star rating component
 const StarRating: React.FC<{ rating: number; frame: number; fps: number }> = ({
@@ -71,6 +72,7 @@ export const SocialProofScene: React.FC<SocialProofSceneProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { isLandscape, y } = useSceneLayout();
 
   // Background animation
   const bgScale = interpolate(frame, [0, durationInFrames], [1, 1.08], {
@@ -203,7 +205,7 @@ export const SocialProofScene: React.FC<SocialProofSceneProps> = ({
           style={{
             justifyContent: 'flex-start',
             alignItems: 'center',
-            paddingTop: 250,
+            paddingTop: y(250),
           }}
         >
           <div
@@ -241,7 +243,7 @@ export const SocialProofScene: React.FC<SocialProofSceneProps> = ({
             opacity: textOpacity,
             transform: `translateY(${textY}px)`,
             textAlign: 'center',
-            maxWidth: 900,
+            maxWidth: isLandscape ? 1300 : 900,
           }}
         >
           <p
@@ -295,7 +297,7 @@ export const SocialProofScene: React.FC<SocialProofSceneProps> = ({
         style={{
           justifyContent: 'flex-start',
           alignItems: 'center',
-          paddingTop: 120,
+          paddingTop: y(120),
         }}
       >
         <div
@@ -323,7 +325,7 @@ export const SocialProofScene: React.FC<SocialProofSceneProps> = ({
         <div
           style={{
             position: 'absolute',
-            top: 180,
+            top: y(180),
             left: 40,
             width: 60,
             height: 3,
@@ -336,7 +338,7 @@ export const SocialProofScene: React.FC<SocialProofSceneProps> = ({
         <div
           style={{
             position: 'absolute',
-            bottom: 180,
+            bottom: y(180),
             right: 40,
             width: 60,
             height: 3,
@@ -0,0 +1,42 @@
+/**
+ * useSceneLayout - Frame-size aware layout for scenes
+ *
+ * Scenes were designed on a 1080x1920 (9:16) canvas. The render worker can
+ * render the same composition at 16:9, 1:1 and 4:5, so scenes read the
+ * orientation from here and scale vertical offsets to the actual height.
+ */
+
+import { useVideoConfig } from 'remotion';
+
+export type SceneOrientation = 'portrait' | 'square' | 'landscape';
+
+export interface SceneLayout {
+  width: number;
+  height: number;
+  orientation: SceneOrientation;
+  isLandscape: boolean;
+  /** Scale a vertical offset designed for the 1920px-tall canvas */
+  y: (px: number) => number;
+}
+
+// Height of the canvas the scenes were designed on
+const DESIGN_HEIGHT = 1920;
+
+export function useSceneLayout(): SceneLayout {
+  const { width, height } = useVideoConfig();
+  const ratio = width / height;
+
+  // 9:16 and 4:5 are portrait, 1:1 square, 16:9 landscape
+  const orientation: SceneOrientation =
+    ratio < 0.9 ? 'portrait' : ratio > 1.1 ? 'landscape' : 'square';
+
+  return {
+    width,
+    height,
+    orientation,
+    isLandscape: orientation === 'landscape',
+    y: (px) => Math.round((px * height) / DESIGN_HEIGHT),
+  };
+}
+
+export default useSceneLayout;
@@ -187,7 +187,7 @@ export const DEFAULT_AUTOPILOT_SCENE_DURATIONS: AutopilotSceneDurations = {
 export const AUTOPILOT_VIDEO_CONFIG = {
   fps: 30,
   width: 1080,
-  height: 1920,               // Portrait 9:16
+  height: 1920,               // Portrait 9:16 default - the render worker overrides per aspect ratio
   minDurationSeconds: 60,
   maxDurationSeconds: 75,
   minProductImages: 2,
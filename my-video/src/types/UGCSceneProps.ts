@@ -150,7 +150,7 @@ export const DEFAULT_SCENE_DURATIONS: SceneDurations = {
 export const UGC_VIDEO_CONFIG = {
   fps: 30,
   width: 1080,
-  height: 1920,           // Portrait 9:16
+  height: 1920,           // Portrait 9:16 default - the render worker overrides per aspect ratio
   minDurationSeconds: 30,
   maxDurationSeconds: 45,
   minProductImages: 2,
@@ -0,0 +1,180 @@
+/**
+ * Completion Callbacks (Feb 2026)
+ *
+ * POSTs a signed event to the job's callbackUrl when a render completes or
+ * fails, so the main app doesn't have to poll GET /status/:jobId.
+ *
+ * Signature: X-Render-Signature = sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+ * with the unix timestamp (seconds) in X-Render-Timestamp. The secret is
+ * shared with the main app via RENDER_CALLBACK_SECRET.
+ *
+ * Delivery is retried with exponential backoff. Undelivered events are
+ * resent on startup (see recoverJobs in index.ts); the main app also keeps
+ * a slow status poll as a fallback.
+ *
+ * While a job renders, throttled render.progress events (stage + percent)
+ * are sent to the same URL for the app's live progress stream. These are
+ * fire-and-forget - a lost one is superseded by the next.
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import type { RenderJob, RenderStage, RenderVariant } from './render';
+import type { ThumbnailSet } from './thumbnails';
+
+// ==================== TYPES ====================
+
+export type RenderEventType = 'render.completed' | 'render.failed' | 'render.progress';
+
+/**
+ * - delivered: receiver acknowledged with a 2xx
+ * - rejected: receiver answered 4xx (bad signature, unknown job) - not retried
+ * - failed: receiver unreachable after all attempts
+ */
+export type DeliveryResult = 'delivered' | 'rejected' | 'failed';
+
+export interface RenderEvent {
+  event: RenderEventType;
+  jobId: string;
+  status: RenderJob['status'];
+  stage?: RenderStage;        // render.progress only
+  progress?: number;          // render.progress only
+  resultUrl?: string;
+  variants?: RenderVariant[];
+  thumbnails?: ThumbnailSet;
+  error?: string;
+  completedAt?: string;
+}
+
+// ==================== CONFIGURATION ====================
+
+const CALLBACK_SECRET = process.env.RENDER_CALLBACK_SECRET;
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000;
+const DELIVERY_TIMEOUT_MS = 10000;
+const PROGRESS_EVENT_INTERVAL_MS = 2000; // at most one progress event per job per interval (stage changes skip the wait)
+const PROGRESS_TIMEOUT_MS = 5000;
+
+// ==================== STATE ====================
+
+// Last progress event sent per job (throttling)
+const lastProgressSent = new Map<string, { at: number; stage?: RenderStage }>();
+
+// ==================== CALLBACKS ====================
+
+export function isCallbackSigningConfigured(): boolean {
+  return !!CALLBACK_SECRET;
+}
+
+/**
+ * Deliver the job's final state to its callbackUrl
+ */
+export async function sendRenderEvent(job: RenderJob): Promise<DeliveryResult> {
+  if (!job.callbackUrl || (job.status !== 'complete' && job.status !== 'failed')) {
+    return 'rejected';
+  }
+  if (!CALLBACK_SECRET) {
+    console.warn(`[Callback] RENDER_CALLBACK_SECRET not set - skipping callback for job ${job.jobId}`);
+    return 'rejected';
+  }
+
+  const event: RenderEvent = {
+    event: job.status === 'complete' ? 'render.completed' : 'render.failed',
+    jobId: job.jobId,
+    status: job.status,
+    resultUrl: job.resultUrl,
+    variants: job.variants,
+    thumbnails: job.thumbnails,
+    error: job.error,
+    completedAt: job.completedAt?.toISOString(),
+  };
+  const body = JSON.stringify(event);
+
+  lastProgressSent.delete(job.jobId);
+
+  for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+    try {
+      await postSignedEvent(job.callbackUrl, body, DELIVERY_TIMEOUT_MS);
+
+      console.log(`[Callback] ${event.event} delivered for job ${job.jobId}`);
+      return 'delivered';
+    } catch (error: any) {
+      const status = error.response?.status;
+      console.error(`[Callback] Delivery failed for job ${job.jobId} (attempt ${attempt}/${MAX_DELIVERY_ATTEMPTS}):`, status || error.message);
+
+      // 4xx means the receiver rejected the event - retrying won't help
+      if (status && status >= 400 && status < 500) {
+        return 'rejected';
+      }
+
+      if (attempt < MAX_DELIVERY_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)));
+      }
+    }
+  }
+
+  return 'failed';
+}
+
+/**
+ * Relay an in-flight job's stage and progress (throttled, single attempt)
+ */
+export function sendRenderProgress(job: RenderJob): void {
+  if (!job.callbackUrl || !CALLBACK_SECRET || job.status !== 'rendering') {
+    return;
+  }
+
+  const last = lastProgressSent.get(job.jobId);
+  if (last && last.stage === job.stage && Date.now() - last.at < PROGRESS_EVENT_INTERVAL_MS) {
+    return;
+  }
+  lastProgressSent.set(job.jobId, { at: Date.now(), stage: job.stage });
+
+  const event: RenderEvent = {
+    event: 'render.progress',
+    jobId: job.jobId,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress,
+  };
+
+  postSignedEvent(job.callbackUrl, JSON.stringify(event), PROGRESS_TIMEOUT_MS).catch((error) => {
+    console.warn(`[Callback] Progress event failed for job ${job.jobId}:`, error.response?.status || error.message);
+  });
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * POST a signed event body
+ * Signed per call so retries stay inside the receiver's timestamp tolerance
+ */
+async function postSignedEvent(url: string, body: string, timeout: number): Promise<void> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  await axios.post(url, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Render-Timestamp': timestamp,
+      'X-Render-Signature': `sha256=${signPayload(timestamp, body)}`,
+    },
+    timeout,
+  });
+}
+
+function signPayload(timestamp: string, body: string): string {
+  return crypto
+    .createHmac('sha256', CALLBACK_SECRET!)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+// ==================== EXPORTS ====================
+
+export const callbacks = {
+  isCallbackSigningConfigured,
+  sendRenderEvent,
+  sendRenderProgress,
+};
+
+export default callbacks;
@@ -0,0 +1,156 @@
+/**
+ * Composition Registry (Feb 2026)
+ *
+ * Compositions that are pre-bundled from my-video and can be rendered by ID
+ * with JSON input props, instead of bundling generated code per job.
+ *
+ * The schemas mirror UGCCompositionProps and AutopilotCompositionProps in
+ * my-video/src/types - keep them in sync when the composition props change.
+ *
+ * The scenes reflow for the frame size they are rendered at, so a job can
+ * ask for several aspect ratios and get one MP4 per ratio.
+ */
+
+import { z } from 'zod';
+
+// ==================== SHARED SCHEMAS ====================
+
+const featureSchema = z.object({
+  text: z.string().min(1),
+  icon: z.string().optional(),
+});
+
+const frames = z.number().int().nonnegative();
+
+const productImagesSchema = z.array(z.string().url()).min(2).max(4);
+
+// ==================== UGC VIDEO ====================
+
+const ugcCompositionSchema = z.object({
+  productName: z.string().min(1),
+  productImages: productImagesSchema,
+  logoUrl: z.string().url().optional(),
+  hookText: z.string().min(1),
+  tagline: z.string().optional(),
+  features: z.array(featureSchema).min(1),
+  ctaText: z.string().min(1),
+  audioUrls: z.object({
+    showcase: z.string().url().optional(),
+    features: z.string().url().optional(),
+    cta: z.string().url().optional(),
+  }).optional(),
+  avatarVideoUrl: z.string().url().optional(),
+  sceneDurations: z.object({
+    hook: frames,
+    showcase: frames,
+    features: frames,
+    avatar: frames,
+    cta: frames,
+  }),
+});
+
+// ==================== AUTOPILOT VIDEO ====================
+
+const autopilotCompositionSchema = z.object({
+  productName: z.string().min(1),
+  productImages: productImagesSchema,
+  logoUrl: z.string().url().optional(),
+  price: z.string().min(1),
+  originalPrice: z.string().optional(),
+  hookText: z.string().min(1),
+  problemText: z.string().min(1),
+  revealText: z.string().optional(),
+  features: z.array(featureSchema).min(1),
+  socialProofText: z.string().min(1),
+  socialProofName: z.string().optional(),
+  socialProofRating: z.number().min(1).max(5).optional(),
+  discountText: z.string().optional(),
+  offerText: z.string().optional(),
+  ctaText: z.string().min(1),
+  audioUrls: z.object({
+    problem: z.string().url().optional(),
+    reveal: z.string().url().optional(),
+    features: z.string().url().optional(),
+    socialProof: z.string().url().optional(),
+    offer: z.string().url().optional(),
+    cta: z.string().url().optional(),
+  }).optional(),
+  avatarVideoUrl: z.string().url().optional(),
+  sceneDurations: z.object({
+    hook: frames,
+    problem: frames,
+    reveal: frames,
+    features: frames,
+    socialProof: frames,
+    avatar: frames,
+    offer: frames,
+    cta: frames,
+  }),
+});
+
+// ==================== ASPECT RATIOS ====================
+
+export const ASPECT_RATIOS = ['9:16', '16:9', '1:1', '4:5'] as const;
+
+export type AspectRatio = typeof ASPECT_RATIOS[number];
+
+export const ASPECT_RATIO_DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
+  '9:16': { width: 1080, height: 1920 },
+  '16:9': { width: 1920, height: 1080 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+};
+
+export function isAspectRatio(value: unknown): value is AspectRatio {
+  return typeof value === 'string' && (ASPECT_RATIOS as readonly string[]).includes(value);
+}
+
+// ==================== REGISTRY ====================
+
+const COMPOSITION_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  UGCVideo: ugcCompositionSchema,
+  AutopilotVideo: autopilotCompositionSchema,
+};
+
+export const COMPOSITION_IDS = Object.keys(COMPOSITION_SCHEMAS);
+
+export type InputPropsValidation =
+  | { success: true; inputProps: Record<string, unknown> }
+  | { success: false; errors: string[] };
+
+export function isKnownComposition(compositionId: string): boolean {
+  return compositionId in COMPOSITION_SCHEMAS;
+}
+
+/**
+ * Validate input props for a registered composition
+ * Errors are formatted as "path: message" for the 400 response
+ */
+export function validateInputProps(compositionId: string, inputProps: unknown): InputPropsValidation {
+  const schema = COMPOSITION_SCHEMAS[compositionId];
+  if (!schema) {
+    return { success: false, errors: [`Unknown compositionId: ${compositionId}`] };
+  }
+
+  const result = schema.safeParse(inputProps);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'inputProps'}: ${issue.message}`),
+    };
+  }
+
+  return { success: true, inputProps: result.data };
+}
+
+// ==================== EXPORTS ====================
+
+export const compositions = {
+  COMPOSITION_IDS,
+  ASPECT_RATIOS,
+  isKnownComposition,
+  isAspectRatio,
+  validateInputProps,
+};
+
+export default compositions;
@@ -3,18 +3,84 @@
  * 
  * A Docker-based service that receives Remotion code, renders video, and uploads result.
  * Runs independently from the main Streamline app.
+ *
+ * Jobs either carry generated composition code (Content Engine, bundled per
+ * job) or a registered compositionId + inputProps (UGC, Autopilot), which
+ * render from the my-video bundle loaded once at startup (see compositions.ts).
+ * Composition jobs may list several aspectRatios - each is rendered and
+ * published as its own MP4 (the job's variants).
+ *
+ * Job records are persisted under JOBS_DIR (see jobStore.ts). On startup,
+ * queued jobs are requeued, interrupted renders are retried, and finished
+ * records older than the retention window are garbage-collected.
+ *
+ * Jobs submitted with a callbackUrl get a signed render.completed /
+ * render.failed event when they finish, and throttled render.progress
+ * events (stage + percent) while they render (see callbacks.ts).
+ *
+ * Every finished render also gets a poster JPEG, a looping WebP preview and
+ * a scrubbing sprite sheet (see thumbnails.ts). Videos produced elsewhere
+ * (KIE) get the same set through POST /thumbnails.
  * 
  * API:
- * POST /render - Queue a render job
+ * POST /render - Queue a render job (code or compositionId + inputProps [+ aspectRatios])
  * GET /status/:jobId - Check job status
- * GET /health - Health check
+ * DELETE /jobs/:jobId - Cancel a queued or in-progress job
+ * POST /thumbnails - Generate thumbnails for an existing video URL
+ * GET /health - Health check (includes queue depth and estimated wait)
  */
 
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs/promises';
-import { renderVideo, type RenderJob, type RenderConfig } from './render';
+import {
+  renderVideo,
+  renderComposition,
+  loadCompositionBundle,
+  isCompositionBundleLoaded,
+  type RenderJob,
+  type RenderConfig,
+  type RenderStage,
+  type RenderVariant,
+} from './render';
+import {
+  COMPOSITION_IDS,
+  ASPECT_RATIOS,
+  ASPECT_RATIO_DIMENSIONS,
+  validateInputProps,
+  isAspectRatio,
+  type AspectRatio,
+} from './compositions';
+import { sendRenderEvent, sendRenderProgress, isCallbackSigningConfigured } from './callbacks';
+import { generateThumbnails, type ThumbnailSet } from './thumbnails';
+import {
+  uploadRender,
+  describeStorage,
+  STORAGE_DRIVER,
+  LOCAL_STORAGE_DIR,
+  LOCAL_MEDIA_ROUTE,
+} from './storage';
+import {
+  initJobStore,
+  getJob,
+  listJobs,
+  saveJob,
+  saveJobProgress,
+  deleteJob,
+  garbageCollectJobs,
+} from './jobStore';
+import {
+  initScheduler,
+  enqueueRender,
+  cancelRender,
+  whenSettled,
+  isRunning,
+  getQueuePosition,
+  getSchedulerStats,
+  RENDER_PRIORITIES,
+  type RenderPriority,
+} from './scheduler';
 
 // ==================== CONFIGURATION ====================
 
@@ -22,34 +88,46 @@ const PORT = process.env.PORT || 3001;
 const JOBS_DIR = process.env.JOBS_DIR || '/app/jobs';
 const OUTPUT_DIR = process.env.OUTPUT_DIR || '/app/output';
 
-// KIE Upload for result storage (same as main app)
-const KIE_API_KEY = process.env.KIE_API_KEY;
-const KIE_UPLOAD_URL = process.env.KIE_UPLOAD_URL || 'https://kieai.redpandaai.co';
+// Pre-built my-video bundle (`remotion bundle` output) for registered compositions
+const COMPOSITIONS_BUNDLE_DIR = process.env.COMPOSITIONS_BUNDLE_DIR || path.resolve('../my-video/build');
 
-// In-memory job store (production would use Redis)
-const jobs = new Map<string, RenderJob>();
+// Parallel renders - each Chromium render can use several GB of memory
+const MAX_CONCURRENT_RENDERS = parseInt(process.env.MAX_CONCURRENT_RENDERS || '2', 10);
+
+// Crash recovery / retention
+const MAX_RENDER_ATTEMPTS = parseInt(process.env.MAX_RENDER_ATTEMPTS || '2', 10);
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_HOURS || '24', 10) * 60 * 60 * 1000;
+const GC_INTERVAL_MS = 60 * 60 * 1000; // hourly
 
 // ==================== EXPRESS APP ====================
 
 const app = express();
 app.use(express.json({ limit: '10mb' })); // Large limit for code bundles
 
+// Published renders when STORAGE_DRIVER=local (see storage.ts)
+if (STORAGE_DRIVER === 'local') {
+  app.use(LOCAL_MEDIA_ROUTE, express.static(LOCAL_STORAGE_DIR, { fallthrough: false, maxAge: '7d', immutable: true }));
+}
+
 // ==================== ROUTES ====================
 
 /**
  * Health check endpoint
  */
 app.get('/health', (req, res) => {
+  const jobs = listJobs();
   res.json({
     status: 'healthy',
     version: '1.0.0',
     uptime: process.uptime(),
+    compositions: isCompositionBundleLoaded() ? COMPOSITION_IDS : [],
+    queue: getSchedulerStats(),
     jobs: {
-      total: jobs.size,
-      queued: [...jobs.values()].filter(j => j.status === 'queued').length,
-      rendering: [...jobs.values()].filter(j => j.status === 'rendering').length,
-      complete: [...jobs.values()].filter(j => j.status === 'complete').length,
-      failed: [...jobs.values()].filter(j => j.status === 'failed').length,
+      total: jobs.length,
+      queued: jobs.filter(j => j.status === 'queued').length,
+      rendering: jobs.filter(j => j.status === 'rendering').length,
+      complete: jobs.filter(j => j.status === 'complete').length,
+      failed: jobs.filter(j => j.status === 'failed').length,
     },
   });
 });
@@ -58,21 +136,70 @@ app.get('/health', (req, res) => {
  * Queue a render job
  * 
  * POST /render
- * Body: { jobId?, code, outputConfig: { fps, width, height, durationInFrames } }
+ * Body: { jobId?, code | (compositionId, inputProps, aspectRatios?), outputConfig: { fps, width, height, durationInFrames }, priority?, callbackUrl?, posterFrame? }
+ * compositionId: one of COMPOSITION_IDS - inputProps are validated against its schema
+ * aspectRatios: e.g. ['9:16', '16:9'] - one MP4 per ratio, the first is the job's resultUrl
+ * posterFrame: frame for the poster thumbnail (default 1s in)
+ * callbackUrl: receives a signed event when the job completes or fails
+ * priority: 'interactive' (default, Content Engine/UGC) | 'batch' (Autopilot cron)
  */
 app.post('/render', async (req, res) => {
   try {
-    const { jobId: providedJobId, code, outputConfig } = req.body;
+    const { jobId: providedJobId, code, compositionId, outputConfig, priority = 'interactive', callbackUrl, posterFrame } = req.body;
+    const requestedRatios: unknown = req.body.aspectRatios;
 
     // Validate request
-    if (!code || typeof code !== 'string') {
+    let inputProps: Record<string, unknown> | undefined;
+    if (compositionId !== undefined) {
+      if (typeof compositionId !== 'string' || !COMPOSITION_IDS.includes(compositionId)) {
+        return res.status(400).json({ error: `Invalid compositionId. Expected one of: ${COMPOSITION_IDS.join(', ')}` });
+      }
+      const validation = validateInputProps(compositionId, req.body.inputProps);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid inputProps', details: validation.errors });
+      }
+      if (!isCompositionBundleLoaded()) {
+        return res.status(503).json({ error: 'Composition bundle not available on this worker' });
+      }
+      inputProps = validation.inputProps;
+    } else if (!code || typeof code !== 'string') {
       return res.status(400).json({ error: 'Missing or invalid code' });
     }
     if (!outputConfig || !outputConfig.fps || !outputConfig.durationInFrames) {
       return res.status(400).json({ error: 'Missing or invalid outputConfig' });
     }
+    if (!RENDER_PRIORITIES.includes(priority)) {
+      return res.status(400).json({ error: `Invalid priority. Expected one of: ${RENDER_PRIORITIES.join(', ')}` });
+    }
+    if (callbackUrl !== undefined && !isHttpUrl(callbackUrl)) {
+      return res.status(400).json({ error: 'Invalid callbackUrl' });
+    }
+    if (posterFrame !== undefined && (!Number.isInteger(posterFrame) || posterFrame < 0 || posterFrame >= outputConfig.durationInFrames)) {
+      return res.status(400).json({ error: 'Invalid posterFrame. Expected a frame index within durationInFrames' });
+    }
 
-    const jobId = providedJobId || uuidv4();
+    // Generated code has a fixed layout - only registered compositions reflow per ratio
+    let aspectRatios: AspectRatio[] | undefined;
+    if (requestedRatios !== undefined) {
+      if (compositionId === undefined) {
+        return res.status(400).json({ error: 'aspectRatios require a compositionId' });
+      }
+      if (!Array.isArray(requestedRatios) || requestedRatios.length === 0 || !requestedRatios.every(isAspectRatio)) {
+        return res.status(400).json({ error: `Invalid aspectRatios. Expected a non-empty array of: ${ASPECT_RATIOS.join(', ')}` });
+      }
+      aspectRatios = Array.from(new Set(requestedRatios));
+    }
+
+    // The ID names the job's record, work dir and output files - keep it a plain file name
+    if (providedJobId !== undefined && !isSafeName(providedJobId)) {
+      return res.status(400).json({ error: 'Invalid jobId. Expected letters, digits, - and _' });
+    }
+    const jobId: string = providedJobId || uuidv4();
+
+    // Resubmitting an ID that is still in flight would race two renders on the same files
+    if (isRunning(jobId)) {
+      return res.status(409).json({ error: 'Job is already rendering' });
+    }
     const config: RenderConfig = {
       fps: outputConfig.fps || 30,
       width: outputConfig.width || 1080,
@@ -85,22 +212,29 @@ app.post('/render', async (req, res) => {
     // Create job record
     const job: RenderJob = {
       jobId,
-      code,
+      ...(compositionId ? { compositionId, inputProps, aspectRatios } : { code }),
       config,
       status: 'queued',
+      stage: 'queued',
+      priority: priority as RenderPriority,
+      callbackUrl,
+      posterFrame,
+      attempts: 0,
       createdAt: new Date(),
     };
 
-    jobs.set(jobId, job);
-    console.log(`[Worker] Job ${jobId} queued. Duration: ${config.durationInFrames} frames`);
+    await saveJob(job);
+    console.log(`[Worker] Job ${jobId} queued (${priority}, ${compositionId || 'code'}${aspectRatios ? ` @ ${aspectRatios.join(', ')}` : ''}). Duration: ${config.durationInFrames} frames`);
 
-    // Start rendering in background
-    processJob(jobId);
+    // Hand off to the scheduler (starts immediately if a slot is free)
+    enqueueRender(jobId, job.priority);
 
     res.status(202).json({
       success: true,
       jobId,
       status: 'queued',
+      priority,
+      queuePosition: getQueuePosition(jobId),
       message: 'Job queued for rendering',
     });
 
@@ -117,7 +251,7 @@ app.post('/render', async (req, res) => {
  */
 app.get('/status/:jobId', (req, res) => {
   const { jobId } = req.params;
-  const job = jobs.get(jobId);
+  const job = getJob(jobId);
 
   if (!job) {
     return res.status(404).json({ error: 'Job not found' });
@@ -126,7 +260,12 @@ app.get('/status/:jobId', (req, res) => {
   res.json({
     jobId: job.jobId,
     status: job.status,
+    stage: job.stage,
+    priority: job.priority,
+    queuePosition: getQueuePosition(jobId),
     resultUrl: job.resultUrl,
+    variants: job.variants,
+    thumbnails: job.thumbnails,
     error: job.error,
     progress: job.progress,
     createdAt: job.createdAt,
@@ -138,13 +277,15 @@ app.get('/status/:jobId', (req, res) => {
  * List all jobs (for debugging)
  */
 app.get('/jobs', (req, res) => {
-  const jobList = [...jobs.values()].map(job => ({
+  const jobList = listJobs().map(job => ({
     jobId: job.jobId,
     status: job.status,
+    priority: job.priority,
     progress: job.progress,
     createdAt: job.createdAt,
     completedAt: job.completedAt,
     error: job.error,
+    attempts: job.attempts,
   }));
 
   res.json({ jobs: jobList });
@@ -152,126 +293,376 @@ app.get('/jobs', (req, res) => {
 
 /**
  * Cancel a job
+ * Removes a queued job, or aborts an in-progress render and waits for it to
+ * stop, then deletes the job and its files
  * 
  * DELETE /jobs/:jobId
  */
-app.delete('/jobs/:jobId', (req, res) => {
+app.delete('/jobs/:jobId', async (req, res) => {
   const { jobId } = req.params;
-  const job = jobs.get(jobId);
+  // Deleting removes files named after the ID - never let it leave the worker's folders
+  if (!isSafeName(jobId)) {
+    return res.status(400).json({ error: 'Invalid jobId. Expected letters, digits, - and _' });
+  }
+  const job = getJob(jobId);
 
   if (!job) {
     return res.status(404).json({ error: 'Job not found' });
   }
 
-  if (job.status === 'rendering') {
-    // Cannot cancel rendering job (would need process killing)
-    return res.status(400).json({ error: 'Cannot cancel job that is currently rendering' });
+  const wasRendering = isRunning(jobId);
+  cancelRender(jobId);
+
+  // The aborted runner may still be writing the job record or files until it returns
+  await whenSettled(jobId);
+  await deleteJob(jobId);
+  await cleanupJobFiles(jobId);
+
+  console.log(`[Worker] Job ${jobId} ${wasRendering ? 'aborted' : 'deleted'}`);
+  res.json({ success: true, message: wasRendering ? 'Render aborted and job deleted' : 'Job deleted' });
+});
+
+/**
+ * Generate thumbnails for a video that was not rendered here (KIE generations)
+ * Runs inline - ffmpeg only decodes a few frames, so it doesn't take a render slot
+ *
+ * POST /thumbnails
+ * Body: { videoUrl, name?, posterTime? }
+ * name: storage folder for the files (e.g. the media asset ID), random by default
+ * posterTime: seconds into the video for the poster frame
+ */
+app.post('/thumbnails', async (req, res) => {
+  const { videoUrl, posterTime } = req.body;
+  const name: unknown = req.body.name ?? uuidv4();
+
+  if (!isHttpUrl(videoUrl)) {
+    return res.status(400).json({ error: 'Missing or invalid videoUrl' });
+  }
+  if (!isSafeName(name)) {
+    return res.status(400).json({ error: 'Invalid name. Expected letters, digits, - and _' });
+  }
+  if (posterTime !== undefined && (typeof posterTime !== 'number' || !Number.isFinite(posterTime) || posterTime < 0)) {
+    return res.status(400).json({ error: 'Invalid posterTime' });
   }
 
-  jobs.delete(jobId);
-  res.json({ success: true, message: 'Job deleted' });
+  const workDir = path.join(OUTPUT_DIR, `thumbnails-${uuidv4()}`);
+  try {
+    const thumbnails = await generateThumbnails(videoUrl, name, workDir, posterTime);
+    console.log(`[Worker] Thumbnails for ${name} published: ${thumbnails.posterUrl}`);
+    res.json({ success: true, ...thumbnails });
+  } catch (error: any) {
+    console.error(`[Worker] Thumbnails for ${name} failed:`, error.message);
+    res.status(500).json({ error: error.message || 'Thumbnail generation failed' });
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
 });
 
 // ==================== JOB PROCESSING ====================
 
 /**
- * Process a render job
+ * Process a render job (invoked by the scheduler when a slot frees up)
  */
-async function processJob(jobId: string): Promise<void> {
-  const job = jobs.get(jobId);
+async function processJob(jobId: string, signal: AbortSignal): Promise<void> {
+  const job = getJob(jobId);
   if (!job) return;
 
   // Update status to rendering
   job.status = 'rendering';
   job.progress = 0;
-  console.log(`[Worker] Starting render for job ${jobId}`);
+  job.attempts = (job.attempts || 0) + 1;
+  job.startedAt = new Date();
+  console.log(`[Worker] Starting render for job ${jobId} (attempt ${job.attempts}/${MAX_RENDER_ATTEMPTS})`);
 
   try {
-    // Create job directory
-    const jobDir = path.join(JOBS_DIR, jobId);
-    await fs.mkdir(jobDir, { recursive: true });
-
-    // Write code to file
-    const codePath = path.join(jobDir, 'Composition.tsx');
-    await fs.writeFile(codePath, job.code);
-    console.log(`[Worker] Code written to ${codePath}`);
-
-    // Render the video
-    const outputPath = path.join(OUTPUT_DIR, `${jobId}.mp4`);
-    
-    const result = await renderVideo(codePath, outputPath, job.config, (progress) => {
-      job.progress = progress;
-    });
+    await saveJob(job);
+
+    const onProgress = (progress: number, stage: RenderStage) => {
+      if (!signal.aborted) {
+        job.stage = stage;
+        saveJobProgress(job, progress).catch(() => {});
+        sendRenderProgress(job);
+      }
+    };
 
-    if (!result.success) {
-      throw new Error(result.error || 'Render failed');
+    let uploadedUrl: string;
+    let outputPath: string;
+    if (job.compositionId && job.aspectRatios) {
+      // One MP4 per aspect ratio - the first is the primary result
+      job.variants = await renderVariants(job, onProgress, signal);
+      uploadedUrl = job.variants[0].url;
+      outputPath = getVariantOutputPath(jobId, job.aspectRatios[0]);
+    } else {
+      // Render the video
+      outputPath = path.join(OUTPUT_DIR, `${jobId}.mp4`);
+
+      let result;
+      if (job.compositionId) {
+        // Registered composition - render straight from the shared bundle
+        result = await renderComposition(
+          job.compositionId,
+          job.inputProps || {},
+          outputPath,
+          job.config,
+          onProgress,
+          signal
+        );
+      } else {
+        // Create job directory
+        const jobDir = path.join(JOBS_DIR, jobId);
+        await fs.mkdir(jobDir, { recursive: true });
+
+        // Write code to file
+        const codePath = path.join(jobDir, 'Composition.tsx');
+        await fs.writeFile(codePath, job.code || '');
+        console.log(`[Worker] Code written to ${codePath}`);
+
+        result = await renderVideo(codePath, outputPath, job.config, onProgress, signal);
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || 'Render failed');
+      }
+
+      // Publish to result storage
+      console.log(`[Worker] Uploading result to storage...`);
+      if (signal.aborted) {
+        throw new Error('Render cancelled');
+      }
+      onProgress(100, 'uploading');
+      uploadedUrl = await uploadRender(outputPath, jobId, signal);
     }
 
-    // Upload to KIE storage
-    console.log(`[Worker] Uploading result to storage...`);
-    const uploadedUrl = await uploadToStorage(outputPath, `${jobId}.mp4`);
+    onProgress(100, 'thumbnails');
+    job.thumbnails = await createJobThumbnails(job, outputPath, uploadedUrl, signal);
 
     // Update job status
     job.status = 'complete';
     job.resultUrl = uploadedUrl;
     job.completedAt = new Date();
     job.progress = 100;
+    await saveJob(job);
     console.log(`[Worker] Job ${jobId} completed: ${uploadedUrl}`);
+    notifyCallback(job);
 
     // Cleanup local files
-    await fs.rm(jobDir, { recursive: true, force: true });
-    await fs.unlink(outputPath).catch(() => {}); // Ignore if already deleted
+    await cleanupJobFiles(jobId);
 
   } catch (error: any) {
+    // Cancelled via DELETE /jobs/:jobId - the route deletes the job once this returns
+    if (signal.aborted) {
+      console.log(`[Worker] Job ${jobId} cancelled`);
+      return;
+    }
+
     console.error(`[Worker] Job ${jobId} failed:`, error);
     job.status = 'failed';
     job.error = error.message || 'Unknown error';
     job.completedAt = new Date();
+    await saveJob(job).catch((saveError) => {
+      console.error(`[Worker] Failed to persist job ${jobId}:`, saveError.message);
+    });
+    notifyCallback(job);
   }
 }
 
 /**
- * Upload rendered video to KIE storage
+ * Render a composition job once per aspect ratio and publish each MP4
+ * Variants are persisted as they are published, so a retry after a restart
+ * only renders the missing ratios
  */
-async function uploadToStorage(filePath: string, filename: string): Promise<string> {
-  if (!KIE_API_KEY) {
-    throw new Error('KIE_API_KEY not configured');
+async function renderVariants(
+  job: RenderJob,
+  onProgress: (progress: number, stage: RenderStage) => void,
+  signal: AbortSignal
+): Promise<RenderVariant[]> {
+  const aspectRatios = job.aspectRatios!;
+  const published = job.variants || [];
+  const variantDir = path.join(OUTPUT_DIR, job.jobId);
+  await fs.mkdir(variantDir, { recursive: true });
+
+  for (let index = 0; index < aspectRatios.length; index++) {
+    const aspectRatio = aspectRatios[index];
+    if (published.some(variant => variant.aspectRatio === aspectRatio)) continue;
+
+    const { width, height } = ASPECT_RATIO_DIMENSIONS[aspectRatio];
+    const slug = aspectRatio.replace(':', 'x');
+    const outputPath = getVariantOutputPath(job.jobId, aspectRatio);
+
+    console.log(`[Worker] Job ${job.jobId}: rendering ${aspectRatio} (${width}x${height})`);
+    const result = await renderComposition(
+      job.compositionId!,
+      job.inputProps || {},
+      outputPath,
+      { ...job.config, width, height },
+      (progress, stage) => onProgress(Math.round((index * 100 + progress) / aspectRatios.length), stage),
+      signal
+    );
+
+    if (!result.success) {
+      throw new Error(`${aspectRatio} render failed: ${result.error || 'Unknown error'}`);
+    }
+    if (signal.aborted) {
+      throw new Error('Render cancelled');
+    }
+
+    onProgress(Math.round(((index + 1) * 100) / aspectRatios.length), 'uploading');
+    const url = await uploadRender(outputPath, `${job.jobId}-${slug}`, signal);
+    published.push({ aspectRatio, url, width, height });
+    job.variants = published;
+    await saveJob(job);
+    console.log(`[Worker] Job ${job.jobId}: ${aspectRatio} published: ${url}`);
   }
 
-  const FormData = (await import('form-data')).default;
-  const axios = (await import('axios')).default;
+  // Requested order - the first ratio is the primary result
+  return aspectRatios.map(aspectRatio => published.find(variant => variant.aspectRatio === aspectRatio)!);
+}
 
-  const fileBuffer = await fs.readFile(filePath);
-  const form = new FormData();
-  form.append('file', fileBuffer, {
-    filename,
-    contentType: 'video/mp4',
-  });
-  form.append('uploadPath', 'content-engine/renders');
+function getVariantOutputPath(jobId: string, aspectRatio: AspectRatio): string {
+  return path.join(OUTPUT_DIR, jobId, `${aspectRatio.replace(':', 'x')}.mp4`);
+}
 
-  const uploadUrl = `${KIE_UPLOAD_URL}/api/file-stream-upload`;
-  console.log(`[Worker] Uploading to ${uploadUrl}`);
+/**
+ * Thumbnails for the job's primary result - best-effort, a failure never fails the render
+ * Reads the local output when it is still there (a retried multi-ratio job
+ * may have published the primary variant before the restart)
+ */
+async function createJobThumbnails(
+  job: RenderJob,
+  outputPath: string,
+  resultUrl: string,
+  signal: AbortSignal
+): Promise<ThumbnailSet | undefined> {
+  const input = await fs.access(outputPath).then(() => outputPath, () => resultUrl);
+  const posterTime = job.posterFrame !== undefined ? job.posterFrame / job.config.fps : undefined;
 
-  const response = await axios.post(uploadUrl, form, {
-    headers: {
-      'Authorization': `Bearer ${KIE_API_KEY}`,
-      ...form.getHeaders(),
-    },
-    maxBodyLength: Infinity,
-    maxContentLength: Infinity,
-    timeout: 300000, // 5 minute timeout for large files
-  });
+  try {
+    const thumbnails = await generateThumbnails(
+      input,
+      job.jobId,
+      path.join(OUTPUT_DIR, job.jobId, 'thumbnails'),
+      posterTime,
+      signal
+    );
+    console.log(`[Worker] Job ${job.jobId}: thumbnails published: ${thumbnails.posterUrl}`);
+    return thumbnails;
+  } catch (error: any) {
+    if (signal.aborted) throw error;
+    console.warn(`[Worker] Job ${job.jobId}: thumbnail generation failed:`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Deliver the job's completion event in the background (retries must not hold a render slot)
+ */
+function notifyCallback(job: RenderJob): void {
+  if (!job.callbackUrl) return;
+
+  sendRenderEvent(job)
+    .then(async (result) => {
+      // 'failed' is left unsettled so the next startup resends it
+      if (result !== 'failed' && getJob(job.jobId)) {
+        job.callbackSettledAt = new Date();
+        await saveJob(job);
+      }
+    })
+    .catch((error) => {
+      console.error(`[Worker] Callback for job ${job.jobId} failed:`, error.message);
+    });
+}
+
+/**
+ * Remove a job's working directory and rendered output
+ */
+async function cleanupJobFiles(jobId: string): Promise<void> {
+  await fs.rm(path.join(JOBS_DIR, jobId), { recursive: true, force: true });
+  await fs.rm(path.join(OUTPUT_DIR, jobId), { recursive: true, force: true }); // aspect ratio variants
+  await fs.unlink(path.join(OUTPUT_DIR, `${jobId}.mp4`)).catch(() => {}); // Ignore if already deleted
+}
+
+// ==================== CRASH RECOVERY ====================
+
+/**
+ * Resume jobs persisted by a previous process
+ * - queued: requeued as-is
+ * - rendering: interrupted mid-render, retried until MAX_RENDER_ATTEMPTS
+ */
+async function recoverJobs(): Promise<void> {
+  let requeued = 0;
+  let retried = 0;
+  let failed = 0;
+
+  // Requeue in submission order so recovered jobs keep their place in line
+  const jobs = listJobs().sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  for (const job of jobs) {
+    // Finished before the previous process could deliver its callback
+    if ((job.status === 'complete' || job.status === 'failed') && job.callbackUrl && !job.callbackSettledAt) {
+      notifyCallback(job);
+      continue;
+    }
+
+    if (job.status === 'queued') {
+      requeued++;
+      enqueueRender(job.jobId, job.priority);
+      continue;
+    }
+
+    if (job.status !== 'rendering') continue;
+
+    await cleanupJobFiles(job.jobId);
+
+    if ((job.attempts || 0) >= MAX_RENDER_ATTEMPTS) {
+      job.status = 'failed';
+      job.error = `Render interrupted by worker restart (${job.attempts} attempts)`;
+      job.completedAt = new Date();
+      await saveJob(job);
+      notifyCallback(job);
+      failed++;
+      continue;
+    }
 
-  if (response.data.code !== 200 && !response.data.success) {
-    throw new Error(`Upload failed: ${response.data.msg || 'Unknown error'}`);
+    job.status = 'queued';
+    job.stage = 'queued';
+    job.progress = 0;
+    await saveJob(job);
+    retried++;
+    enqueueRender(job.jobId, job.priority);
   }
 
-  const uploadedUrl = response.data.data?.url || response.data.url;
-  if (!uploadedUrl) {
-    throw new Error('No URL returned from upload');
+  console.log(`[Worker] Recovery: ${requeued} requeued, ${retried} interrupted renders retried, ${failed} failed`);
+}
+
+/**
+ * Drop finished job records past the retention window and their files
+ */
+async function runGarbageCollection(): Promise<void> {
+  const removed = await garbageCollectJobs(JOB_RETENTION_MS);
+  for (const jobId of removed) {
+    await cleanupJobFiles(jobId);
   }
 
-  return uploadedUrl;
+  if (removed.length > 0) {
+    console.log(`[Worker] Garbage-collected ${removed.length} job record(s)`);
+  }
+}
+
+/**
+ * A job ID or storage name that is safe to use as a file name (no path separators or dots)
+ */
+function isSafeName(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w-]{1,128}$/.test(value);
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
 }
 
 // ==================== STARTUP ====================
@@ -280,15 +671,41 @@ async function uploadToStorage(filePath: string, filename: string): Promise<stri
 async function ensureDirectories() {
   await fs.mkdir(JOBS_DIR, { recursive: true });
   await fs.mkdir(OUTPUT_DIR, { recursive: true });
+  if (STORAGE_DRIVER === 'local') {
+    await fs.mkdir(LOCAL_STORAGE_DIR, { recursive: true });
+  }
 }
 
 // Start server
-ensureDirectories().then(() => {
+ensureDirectories().then(async () => {
+  initScheduler(MAX_CONCURRENT_RENDERS, processJob);
+
+  if (await loadCompositionBundle(COMPOSITIONS_BUNDLE_DIR)) {
+    console.log(`[Worker] Composition bundle loaded: ${COMPOSITIONS_BUNDLE_DIR} (${COMPOSITION_IDS.join(', ')})`);
+  } else {
+    console.warn(`[Worker] No composition bundle at ${COMPOSITIONS_BUNDLE_DIR} - compositionId jobs will be rejected`);
+  }
+
+  const loaded = await initJobStore(JOBS_DIR);
+  console.log(`[Worker] Loaded ${loaded} persisted job record(s)`);
+
+  await runGarbageCollection();
+  await recoverJobs();
+
+  setInterval(() => {
+    runGarbageCollection().catch((error) => {
+      console.error('[Worker] Garbage collection failed:', error.message);
+    });
+  }, GC_INTERVAL_MS);
+
   app.listen(PORT, () => {
     console.log(`[Worker] Remotion Render Worker running on port ${PORT}`);
     console.log(`[Worker] Jobs directory: ${JOBS_DIR}`);
     console.log(`[Worker] Output directory: ${OUTPUT_DIR}`);
-    console.log(`[Worker] KIE Upload: ${KIE_UPLOAD_URL}`);
+    console.log(`[Worker] Result storage: ${describeStorage()}`);
+    console.log(`[Worker] Max concurrent renders: ${MAX_CONCURRENT_RENDERS}`);
+    console.log(`[Worker] Job retention: ${JOB_RETENTION_MS / 3600000}h, max render attempts: ${MAX_RENDER_ATTEMPTS}`);
+    console.log(`[Worker] Completion callbacks: ${isCallbackSigningConfigured() ? 'enabled' : 'disabled (RENDER_CALLBACK_SECRET not set)'}`);
   });
 }).catch(error => {
   console.error('[Worker] Failed to start:', error);
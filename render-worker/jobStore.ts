@@ -0,0 +1,144 @@
+/**
+ * Persistent Job Store (Feb 2026)
+ *
+ * File-backed job records for the render worker so a container restart
+ * doesn't lose queued or in-progress renders.
+ *
+ * Each job is written as JSON to {JOBS_DIR}/records/{jobId}.json (the
+ * JOBS_DIR volume already holds per-job working directories). Records are
+ * loaded into memory on startup and written through on every state change.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import type { RenderJob } from './render';
+
+// ==================== CONFIGURATION ====================
+
+// Progress updates are frequent - only persist them this often
+const PROGRESS_PERSIST_INTERVAL_MS = 5000;
+
+// ==================== STATE ====================
+
+const jobs = new Map<string, RenderJob>();
+const lastPersistedAt = new Map<string, number>();
+let recordsDir = '';
+
+// ==================== STORE ====================
+
+/**
+ * Load all persisted job records from disk
+ */
+export async function initJobStore(jobsDir: string): Promise<number> {
+  recordsDir = path.join(jobsDir, 'records');
+  await fs.mkdir(recordsDir, { recursive: true });
+
+  const files = await fs.readdir(recordsDir);
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+
+    try {
+      const raw = await fs.readFile(path.join(recordsDir, file), 'utf-8');
+      const job = deserializeJob(JSON.parse(raw));
+      jobs.set(job.jobId, job);
+    } catch (error: any) {
+      // A partially written record is useless - drop it
+      console.error(`[JobStore] Skipping unreadable record ${file}:`, error.message);
+      await fs.unlink(path.join(recordsDir, file)).catch(() => {});
+    }
+  }
+
+  return jobs.size;
+}
+
+export function getJob(jobId: string): RenderJob | undefined {
+  return jobs.get(jobId);
+}
+
+export function listJobs(): RenderJob[] {
+  return [...jobs.values()];
+}
+
+/**
+ * Insert or update a job record (write-through to disk)
+ */
+export async function saveJob(job: RenderJob): Promise<void> {
+  job.updatedAt = new Date();
+  jobs.set(job.jobId, job);
+  lastPersistedAt.set(job.jobId, Date.now());
+
+  // Write to a temp file then rename, so a crash never leaves a torn record
+  const recordPath = path.join(recordsDir, `${job.jobId}.json`);
+  const tmpPath = `${recordPath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(job));
+  await fs.rename(tmpPath, recordPath);
+}
+
+/**
+ * Update job progress, persisting at most every PROGRESS_PERSIST_INTERVAL_MS
+ */
+export async function saveJobProgress(job: RenderJob, progress: number): Promise<void> {
+  job.progress = progress;
+
+  const last = lastPersistedAt.get(job.jobId) || 0;
+  if (Date.now() - last >= PROGRESS_PERSIST_INTERVAL_MS) {
+    await saveJob(job);
+  }
+}
+
+export async function deleteJob(jobId: string): Promise<void> {
+  jobs.delete(jobId);
+  lastPersistedAt.delete(jobId);
+  await fs.unlink(path.join(recordsDir, `${jobId}.json`)).catch(() => {});
+}
+
+/**
+ * Remove finished job records older than the retention window
+ * Returns the IDs that were removed so callers can clean up their files
+ */
+export async function garbageCollectJobs(retentionMs: number): Promise<string[]> {
+  const cutoff = Date.now() - retentionMs;
+  const removed: string[] = [];
+
+  for (const job of jobs.values()) {
+    if (job.status !== 'complete' && job.status !== 'failed') continue;
+
+    const finishedAt = (job.completedAt || job.updatedAt || job.createdAt).getTime();
+    if (finishedAt < cutoff) {
+      await deleteJob(job.jobId);
+      removed.push(job.jobId);
+    }
+  }
+
+  return removed;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * JSON stores dates as strings - restore them as Date objects
+ */
+function deserializeJob(raw: any): RenderJob {
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: raw.updatedAt ? new Date(raw.updatedAt) : undefined,
+    startedAt: raw.startedAt ? new Date(raw.startedAt) : undefined,
+    completedAt: raw.completedAt ? new Date(raw.completedAt) : undefined,
+    callbackSettledAt: raw.callbackSettledAt ? new Date(raw.callbackSettledAt) : undefined,
+  };
+}
+
+// ==================== EXPORTS ====================
+
+export const jobStore = {
+  initJobStore,
+  getJob,
+  listJobs,
+  saveJob,
+  saveJobProgress,
+  deleteJob,
+  garbageCollectJobs,
+};
+
+export default jobStore;
@@ -5,13 +5,20 @@
  * 1. Bundle the composition code
  * 2. Render to MP4 using Remotion renderer
  * 
+ * Registered compositions (UGCVideo, AutopilotVideo) skip step 1: they are
+ * rendered from the my-video bundle that is built once with the image and
+ * loaded at startup (Feb 2026).
+ * 
  * This module is isolated to handle the Remotion-specific logic.
  */
 
 import path from 'path';
 import fs from 'fs/promises';
 import { bundle } from '@remotion/bundler';
-import { renderMedia, selectComposition } from '@remotion/renderer';
+import { renderMedia, selectComposition, makeCancelSignal } from '@remotion/renderer';
+import type { RenderPriority } from './scheduler';
+import type { AspectRatio } from './compositions';
+import type { ThumbnailSet } from './thumbnails';
 
 // ==================== TYPES ====================
 
@@ -24,15 +31,43 @@ export interface RenderConfig {
   crf?: number; // Quality (0-51, lower = better)
 }
 
+/**
+ * What an in-flight job is doing (reported with progress)
+ */
+export type RenderStage = 'queued' | 'bundling' | 'rendering' | 'uploading' | 'thumbnails';
+
+/**
+ * One published MP4 of a multi-aspect-ratio job
+ */
+export interface RenderVariant {
+  aspectRatio: AspectRatio;
+  url: string;
+  width: number;
+  height: number;
+}
+
 export interface RenderJob {
   jobId: string;
-  code: string;
+  code?: string;                            // generated composition (bundled per job)
+  compositionId?: string;                   // registered composition in the shared bundle
+  inputProps?: Record<string, unknown>;
+  aspectRatios?: AspectRatio[];             // composition jobs: one MP4 per ratio (overrides config width/height)
+  posterFrame?: number;                     // frame used for the poster thumbnail (default 1s in)
   config: RenderConfig;
   status: 'queued' | 'rendering' | 'complete' | 'failed';
+  stage?: RenderStage;
+  priority?: RenderPriority;
   progress?: number;
-  resultUrl?: string;
+  resultUrl?: string;                       // first variant for multi-ratio jobs
+  variants?: RenderVariant[];               // published so far, in aspectRatios order once complete
+  thumbnails?: ThumbnailSet;                // poster / preview / sprite sheet of the primary result
   error?: string;
+  attempts?: number; // render attempts (incremented when rendering starts)
+  callbackUrl?: string;       // signed completion/failure event target (see callbacks.ts)
+  callbackSettledAt?: Date;   // set once the callback is delivered or rejected
   createdAt: Date;
+  updatedAt?: Date;
+  startedAt?: Date;
   completedAt?: Date;
 }
 
@@ -43,6 +78,32 @@ export interface RenderResult {
   duration?: number; // Render time in ms
 }
 
+// ==================== STATE ====================
+
+// serveUrl of the pre-built my-video bundle (null until loaded)
+let compositionBundle: string | null = null;
+
+// ==================== COMPOSITION BUNDLE ====================
+
+/**
+ * Load the pre-built my-video bundle (output of `remotion bundle`)
+ * Returns false if the directory doesn't contain a bundle
+ */
+export async function loadCompositionBundle(bundleDir: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(bundleDir, 'index.html'));
+    compositionBundle = bundleDir;
+    return true;
+  } catch {
+    compositionBundle = null;
+    return false;
+  }
+}
+
+export function isCompositionBundleLoaded(): boolean {
+  return compositionBundle !== null;
+}
+
 // ==================== RENDER FUNCTION ====================
 
 /**
@@ -51,13 +112,15 @@ export interface RenderResult {
  * @param codePath - Path to the composition TypeScript file
  * @param outputPath - Path for the output MP4 file
  * @param config - Render configuration
- * @param onProgress - Progress callback (0-100)
+ * @param onProgress - Progress callback (0-100) with the current stage
+ * @param signal - Aborts the in-progress renderMedia call when triggered
  */
 export async function renderVideo(
   codePath: string,
   outputPath: string,
   config: RenderConfig,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number, stage: RenderStage) => void,
+  signal?: AbortSignal
 ): Promise<RenderResult> {
   const startTime = Date.now();
   console.log(`[Render] Starting render: ${codePath} -> ${outputPath}`);
@@ -74,11 +137,16 @@ export async function renderVideo(
       entryPoint: entryPath,
       onProgress: (progress) => {
         const bundleProgress = Math.round(progress * 20); // 0-20%
-        onProgress?.(bundleProgress);
+        onProgress?.(bundleProgress, 'bundling');
       },
     });
     console.log(`[Render] Bundle complete: ${bundled}`);
 
+    // Bundling can't be interrupted - bail out before rendering if cancelled meanwhile
+    if (signal?.aborted) {
+      throw new Error('Render cancelled');
+    }
+
     // Step 3: Select the composition
     console.log(`[Render] Selecting composition...`);
     const composition = await selectComposition({
@@ -90,33 +158,68 @@ export async function renderVideo(
 
     // Step 4: Render the video
     console.log(`[Render] Rendering video...`);
-    await renderMedia({
-      composition: {
-        ...composition,
-        // Override with our config
-        fps: config.fps,
-        width: config.width,
-        height: config.height,
-        durationInFrames: config.durationInFrames,
-      },
-      serveUrl: bundled,
-      codec: config.codec === 'h265' ? 'h265' : 'h264',
-      outputLocation: outputPath,
-      chromiumOptions: {
-        enableMultiProcessOnLinux: true,
-      },
-      crf: config.crf || 23,
-      onProgress: ({ progress }) => {
-        const renderProgress = 20 + Math.round(progress * 80); // 20-100%
-        onProgress?.(renderProgress);
-      },
-    });
+    await renderToFile(bundled, composition, {}, outputPath, config, (progress) => {
+      onProgress?.(20 + Math.round(progress * 80), 'rendering'); // 20-100%
+    }, signal);
 
     const duration = Date.now() - startTime;
     console.log(`[Render] Render complete in ${duration}ms: ${outputPath}`);
 
-    // Verify output exists
-    await fs.access(outputPath);
+    return {
+      success: true,
+      outputPath,
+      duration,
+    };
+
+  } catch (error: any) {
+    console.error(`[Render] Render failed:`, error);
+    return {
+      success: false,
+      error: error.message || 'Unknown render error',
+    };
+  }
+}
+
+/**
+ * Render a registered composition from the pre-built bundle
+ * 
+ * @param compositionId - Composition ID registered in my-video's Root.tsx
+ * @param inputProps - Props already validated against the composition schema
+ * @param outputPath - Path for the output MP4 file
+ * @param config - Render configuration (overrides the composition defaults)
+ * @param onProgress - Progress callback (0-100) with the current stage
+ * @param signal - Aborts the in-progress renderMedia call when triggered
+ */
+export async function renderComposition(
+  compositionId: string,
+  inputProps: Record<string, unknown>,
+  outputPath: string,
+  config: RenderConfig,
+  onProgress?: (progress: number, stage: RenderStage) => void,
+  signal?: AbortSignal
+): Promise<RenderResult> {
+  const startTime = Date.now();
+  console.log(`[Render] Starting render: ${compositionId} -> ${outputPath}`);
+  console.log(`[Render] Config:`, config);
+
+  try {
+    if (!compositionBundle) {
+      throw new Error('Composition bundle not loaded');
+    }
+
+    const composition = await selectComposition({
+      serveUrl: compositionBundle,
+      id: compositionId,
+      inputProps,
+    });
+    console.log(`[Render] Composition selected:`, composition.id);
+
+    await renderToFile(compositionBundle, composition, inputProps, outputPath, config, (progress) => {
+      onProgress?.(Math.round(progress * 100), 'rendering');
+    }, signal);
+
+    const duration = Date.now() - startTime;
+    console.log(`[Render] Render complete in ${duration}ms: ${outputPath}`);
 
     return {
       success: true,
@@ -133,6 +236,48 @@ export async function renderVideo(
   }
 }
 
+// ==================== HELPERS ====================
+
+/**
+ * Render a selected composition to MP4 and verify the output exists
+ * onProgress receives the raw renderMedia progress (0-1)
+ */
+async function renderToFile(
+  serveUrl: string,
+  composition: Awaited<ReturnType<typeof selectComposition>>,
+  inputProps: Record<string, unknown>,
+  outputPath: string,
+  config: RenderConfig,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const { cancelSignal, cancel } = makeCancelSignal();
+  signal?.addEventListener('abort', () => cancel(), { once: true });
+
+  await renderMedia({
+    composition: {
+      ...composition,
+      // Override with our config
+      fps: config.fps,
+      width: config.width,
+      height: config.height,
+      durationInFrames: config.durationInFrames,
+    },
+    serveUrl,
+    inputProps,
+    codec: config.codec === 'h265' ? 'h265' : 'h264',
+    outputLocation: outputPath,
+    chromiumOptions: {
+      enableMultiProcessOnLinux: true,
+    },
+    crf: config.crf || 23,
+    cancelSignal,
+    onProgress: ({ progress }) => onProgress(progress),
+  });
+
+  await fs.access(outputPath);
+}
+
 /**
  * Create an entry point file that properly exports the composition
  * 
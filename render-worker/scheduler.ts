@@ -0,0 +1,216 @@
+/**
+ * Render Scheduler (Feb 2026)
+ *
+ * Bounded-concurrency job scheduler with priority lanes.
+ * - interactive: user-facing renders (Content Engine, UGC) - always dequeued first
+ * - batch: Autopilot cron renders - only run when no interactive job is waiting
+ *
+ * Each running job gets an AbortController so DELETE /jobs/:jobId can
+ * cancel an in-progress render, and whenSettled lets it wait for the aborted
+ * runner to finish before removing the job.
+ */
+
+// ==================== TYPES ====================
+
+export type RenderPriority = 'interactive' | 'batch';
+
+export const RENDER_PRIORITIES: RenderPriority[] = ['interactive', 'batch'];
+
+/**
+ * Runs a single job. Must resolve (not reject) once the job reaches a final state.
+ */
+export type JobRunner = (jobId: string, signal: AbortSignal) => Promise<void>;
+
+interface RunningJob {
+  controller: AbortController;
+  settled: Promise<void>;
+}
+
+export interface SchedulerStats {
+  concurrency: number;
+  running: number;
+  queued: Record<RenderPriority, number>;
+  averageRenderMs: number;
+  estimatedWaitMs: Record<RenderPriority, number>;
+}
+
+// ==================== CONFIGURATION ====================
+
+// Rolling window of completed render durations for wait estimates
+const DURATION_SAMPLE_SIZE = 20;
+const DEFAULT_RENDER_MS = 3 * 60 * 1000;
+
+// ==================== STATE ====================
+
+const lanes: Record<RenderPriority, string[]> = {
+  interactive: [],
+  batch: [],
+};
+const running = new Map<string, RunningJob>();
+const durations: number[] = [];
+let concurrency = 1;
+let runner: JobRunner | null = null;
+
+// ==================== SCHEDULER ====================
+
+/**
+ * Configure the scheduler. Must be called before jobs are enqueued.
+ */
+export function initScheduler(maxConcurrent: number, jobRunner: JobRunner): void {
+  concurrency = Math.max(1, maxConcurrent);
+  runner = jobRunner;
+}
+
+/**
+ * Add a job to its priority lane and start it if a slot is free
+ */
+export function enqueueRender(jobId: string, priority: RenderPriority = 'interactive'): void {
+  if (running.has(jobId) || isQueued(jobId)) {
+    return;
+  }
+
+  lanes[priority].push(jobId);
+  drain();
+}
+
+export function isQueued(jobId: string): boolean {
+  return RENDER_PRIORITIES.some(priority => lanes[priority].includes(jobId));
+}
+
+export function isRunning(jobId: string): boolean {
+  return running.has(jobId);
+}
+
+/**
+ * Remove a queued job or abort a running one
+ * Returns false if the scheduler doesn't know the job
+ */
+export function cancelRender(jobId: string): boolean {
+  for (const priority of RENDER_PRIORITIES) {
+    const index = lanes[priority].indexOf(jobId);
+    if (index !== -1) {
+      lanes[priority].splice(index, 1);
+      return true;
+    }
+  }
+
+  const job = running.get(jobId);
+  if (job) {
+    job.controller.abort();
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Resolves once a running job's runner has returned (immediately if it isn't running)
+ */
+export function whenSettled(jobId: string): Promise<void> {
+  return running.get(jobId)?.settled ?? Promise.resolve();
+}
+
+/**
+ * Position (1-based) of a queued job across all lanes, in dequeue order
+ */
+export function getQueuePosition(jobId: string): number | undefined {
+  const order = RENDER_PRIORITIES.flatMap(priority => lanes[priority]);
+  const index = order.indexOf(jobId);
+  return index === -1 ? undefined : index + 1;
+}
+
+export function getSchedulerStats(): SchedulerStats {
+  const averageMs = averageRenderMs();
+  const interactiveAhead = lanes.interactive.length;
+  const batchAhead = lanes.interactive.length + lanes.batch.length;
+
+  return {
+    concurrency,
+    running: running.size,
+    queued: {
+      interactive: lanes.interactive.length,
+      batch: lanes.batch.length,
+    },
+    averageRenderMs: averageMs,
+    // Estimated wait for a job submitted now to each lane
+    estimatedWaitMs: {
+      interactive: estimateWaitMs(interactiveAhead, averageMs),
+      batch: estimateWaitMs(batchAhead, averageMs),
+    },
+  };
+}
+
+// ==================== HELPERS ====================
+
+function drain(): void {
+  if (!runner) {
+    throw new Error('Scheduler not initialized');
+  }
+
+  while (running.size < concurrency) {
+    const jobId = lanes.interactive.shift() ?? lanes.batch.shift();
+    if (!jobId) {
+      return;
+    }
+    start(jobId, runner);
+  }
+}
+
+function start(jobId: string, jobRunner: JobRunner): void {
+  const controller = new AbortController();
+  const startedAt = Date.now();
+
+  const settled = jobRunner(jobId, controller.signal)
+    .catch((error) => {
+      console.error(`[Scheduler] Job ${jobId} runner error:`, error);
+    })
+    .finally(() => {
+      running.delete(jobId);
+      if (!controller.signal.aborted) {
+        recordDuration(Date.now() - startedAt);
+      }
+      drain();
+    });
+  running.set(jobId, { controller, settled });
+}
+
+function recordDuration(ms: number): void {
+  durations.push(ms);
+  if (durations.length > DURATION_SAMPLE_SIZE) {
+    durations.shift();
+  }
+}
+
+function averageRenderMs(): number {
+  if (durations.length === 0) {
+    return DEFAULT_RENDER_MS;
+  }
+  return Math.round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length);
+}
+
+/**
+ * Jobs run in waves of `concurrency`; a new job waits for every wave ahead of it
+ */
+function estimateWaitMs(jobsAhead: number, averageMs: number): number {
+  const freeSlots = concurrency - running.size;
+  if (jobsAhead < freeSlots) {
+    return 0;
+  }
+  const waves = Math.ceil((jobsAhead - freeSlots + 1) / concurrency);
+  return waves * averageMs;
+}
+
+// ==================== EXPORTS ====================
+
+export const renderScheduler = {
+  initScheduler,
+  enqueueRender,
+  cancelRender,
+  whenSettled,
+  isQueued,
+  isRunning,
+  getQueuePosition,
+  getSchedulerStats,
+};
+
+export default renderScheduler;
@@ -0,0 +1,234 @@
+/**
+ * Result Storage (Feb 2026)
+ *
+ * Where rendered MP4s and their thumbnails are published. Selected by STORAGE_DRIVER, using the
+ * same env vars as the main app's server/services/mediaStorage.ts:
+ * - kie (default): KIE's upload host - the previous behaviour
+ * - local: files under STORAGE_LOCAL_DIR, served by this worker at /media
+ * - s3: any S3-compatible bucket (AWS S3, MinIO, R2) via SigV4-signed PUTs
+ *
+ * Only new renders are affected - result URLs already handed to the main
+ * app are absolute and keep pointing at wherever they were stored.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import axios from 'axios';
+
+// ==================== TYPES ====================
+
+export type StorageDriver = 'kie' | 'local' | 's3';
+
+// ==================== CONFIGURATION ====================
+
+export const STORAGE_DRIVER = (process.env.STORAGE_DRIVER || 'kie') as StorageDriver;
+
+// KIE upload host
+const KIE_API_KEY = process.env.KIE_API_KEY;
+const KIE_UPLOAD_URL = process.env.KIE_UPLOAD_URL || 'https://kieai.redpandaai.co';
+
+// Local disk (served by index.ts at LOCAL_MEDIA_ROUTE)
+export const LOCAL_STORAGE_DIR = process.env.STORAGE_LOCAL_DIR || '/app/storage';
+export const LOCAL_MEDIA_ROUTE = '/media';
+const PUBLIC_BASE_URL = process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`;
+
+// S3-compatible
+const S3_ENDPOINT = process.env.S3_ENDPOINT;                     // e.g. http://minio:9000 (unset = AWS)
+const S3_REGION = process.env.S3_REGION || 'us-east-1';
+const S3_BUCKET = process.env.S3_BUCKET;
+const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID;
+const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY;
+const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE !== 'false'; // MinIO needs path-style
+const S3_PUBLIC_URL = process.env.S3_PUBLIC_URL;                 // CDN / public bucket URL (optional)
+
+// ==================== STORAGE ====================
+
+/**
+ * Publish a rendered video as renders/{name}.mp4 and return its public URL
+ * name is the job ID, suffixed with the aspect ratio for multi-ratio jobs
+ */
+export async function uploadRender(filePath: string, name: string, signal?: AbortSignal): Promise<string> {
+  return uploadFile(filePath, `renders/${name}.mp4`, 'video/mp4', signal);
+}
+
+/**
+ * Publish a generated thumbnail file as thumbnails/{name}/{filename}
+ * name is the job ID (or the thumbnail request ID for external videos)
+ */
+export async function uploadThumbnail(
+  filePath: string,
+  name: string,
+  filename: string,
+  contentType: string,
+  signal?: AbortSignal
+): Promise<string> {
+  return uploadFile(filePath, `thumbnails/${name}/${filename}`, contentType, signal);
+}
+
+async function uploadFile(filePath: string, key: string, contentType: string, signal?: AbortSignal): Promise<string> {
+  switch (STORAGE_DRIVER) {
+    case 'local':
+      return saveLocal(filePath, key);
+    case 's3':
+      return uploadS3(filePath, key, contentType, signal);
+    case 'kie':
+      return uploadKie(filePath, key, contentType, signal);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${STORAGE_DRIVER}"`);
+  }
+}
+
+/**
+ * Human-readable destination for startup logs
+ */
+export function describeStorage(): string {
+  switch (STORAGE_DRIVER) {
+    case 'local':
+      return `local (${LOCAL_STORAGE_DIR} -> ${PUBLIC_BASE_URL}${LOCAL_MEDIA_ROUTE})`;
+    case 's3':
+      return `s3 (${S3_ENDPOINT || 'aws'} bucket ${S3_BUCKET || '(unset)'})`;
+    default:
+      return `kie (${KIE_UPLOAD_URL})`;
+  }
+}
+
+// ==================== ADAPTERS ====================
+
+async function saveLocal(filePath: string, key: string): Promise<string> {
+  const destination = path.join(LOCAL_STORAGE_DIR, key);
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  await fs.copyFile(filePath, destination);
+  return `${PUBLIC_BASE_URL}${LOCAL_MEDIA_ROUTE}/${key}`;
+}
+
+async function uploadS3(filePath: string, key: string, contentType: string, signal?: AbortSignal): Promise<string> {
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const body = await fs.readFile(filePath);
+  const objectUrl = getS3ObjectUrl(key);
+  console.log(`[Storage] Uploading to ${objectUrl}`);
+
+  await axios.put(objectUrl, body, {
+    headers: signS3Request('PUT', new URL(objectUrl), body, contentType),
+    maxBodyLength: Infinity,
+    maxContentLength: Infinity,
+    timeout: 300000, // 5 minute timeout for large files
+    signal,
+  });
+
+  return S3_PUBLIC_URL ? `${S3_PUBLIC_URL.replace(/\/$/, '')}/${key}` : objectUrl;
+}
+
+async function uploadKie(filePath: string, key: string, contentType: string, signal?: AbortSignal): Promise<string> {
+  if (!KIE_API_KEY) {
+    throw new Error('KIE_API_KEY not configured');
+  }
+
+  const FormData = (await import('form-data')).default;
+
+  // KIE only keeps the basename - fold the key's folders into it so names stay unique
+  const [folder, ...rest] = key.split('/');
+  const fileBuffer = await fs.readFile(filePath);
+  const form = new FormData();
+  form.append('file', fileBuffer, {
+    filename: rest.join('-'),
+    contentType,
+  });
+  form.append('uploadPath', `content-engine/${folder}`);
+
+  const uploadUrl = `${KIE_UPLOAD_URL}/api/file-stream-upload`;
+  console.log(`[Storage] Uploading to ${uploadUrl}`);
+
+  const response = await axios.post(uploadUrl, form, {
+    headers: {
+      'Authorization': `Bearer ${KIE_API_KEY}`,
+      ...form.getHeaders(),
+    },
+    maxBodyLength: Infinity,
+    maxContentLength: Infinity,
+    timeout: 300000, // 5 minute timeout for large files
+    signal,
+  });
+
+  if (response.data.code !== 200 && !response.data.success) {
+    throw new Error(`Upload failed: ${response.data.msg || 'Unknown error'}`);
+  }
+
+  const uploadedUrl = response.data.data?.url || response.data.url;
+  if (!uploadedUrl) {
+    throw new Error('No URL returned from upload');
+  }
+
+  return uploadedUrl;
+}
+
+// ==================== HELPERS ====================
+
+function getS3ObjectUrl(key: string): string {
+  const endpoint = new URL(S3_ENDPOINT || `https://s3.${S3_REGION}.amazonaws.com`);
+  const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+
+  if (S3_FORCE_PATH_STYLE) {
+    return `${endpoint.origin}/${S3_BUCKET}/${encodedKey}`;
+  }
+  return `${endpoint.protocol}//${S3_BUCKET}.${endpoint.host}/${encodedKey}`;
+}
+
+/**
+ * AWS Signature Version 4 headers for a single-chunk request
+ */
+function signS3Request(method: string, url: URL, body: Buffer, contentType: string): Record<string, string> {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''); // YYYYMMDDTHHMMSSZ
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = crypto.createHash('sha256').update(body).digest('hex');
+
+  const signedHeaders = 'content-type;host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    `content-type:${contentType}`,
+    `host:${url.host}`,
+    `x-amz-content-sha256:${payloadHash}`,
+    `x-amz-date:${amzDate}`,
+    '',
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${S3_REGION}/s3/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, dateStamp), S3_REGION), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    'Content-Type': contentType,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    'Authorization': `AWS4-HMAC-SHA256 Credential=${S3_ACCESS_KEY_ID}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// ==================== EXPORTS ====================
+
+export const storage = {
+  uploadRender,
+  uploadThumbnail,
+  describeStorage,
+};
+
+export default storage;
@@ -0,0 +1,215 @@
+/**
+ * Video Thumbnails (Feb 2026)
+ *
+ * Generates the tile assets for a finished video with ffmpeg, so the app's
+ * grids never have to load the full MP4:
+ * - poster: JPEG at the chosen time (default 1s in, or the middle of shorter clips)
+ * - preview: ~3s looping animated WebP that can autoplay on hover
+ * - sprite sheet: a grid of evenly spaced frames for hover scrubbing
+ *
+ * The input is a local render output or a remote URL (KIE videos) - ffmpeg
+ * reads both. The poster is required; preview and sprite sheet failures are
+ * logged and left out.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { uploadThumbnail } from './storage';
+
+const execFileAsync = promisify(execFile);
+
+// ==================== TYPES ====================
+
+/**
+ * Frame i sits at column i % columns, row floor(i / columns)
+ */
+export interface SpriteSheet {
+  url: string;
+  columns: number;
+  rows: number;
+  frameWidth: number;
+  frameHeight: number;
+  frameCount: number;
+  intervalSeconds: number;
+}
+
+export interface ThumbnailSet {
+  posterUrl: string;
+  previewUrl?: string;
+  spriteSheet?: SpriteSheet;
+}
+
+interface VideoProbe {
+  duration: number;
+  width: number;
+  height: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+const FFMPEG_TIMEOUT_MS = 2 * 60 * 1000; // remote inputs are downloaded by ffmpeg itself
+
+const DEFAULT_POSTER_TIME = 1;         // seconds - skips fade-ins on the first frame
+const POSTER_MAX_EDGE = 1280;
+
+const PREVIEW_SECONDS = 3;
+const PREVIEW_FPS = 12;
+const PREVIEW_MAX_EDGE = 360;
+
+const SPRITE_FRAME_WIDTH = 160;
+const SPRITE_MAX_FRAMES = 50;
+const SPRITE_MIN_INTERVAL = 0.5;       // seconds between frames
+const SPRITE_MAX_COLUMNS = 10;
+
+// ==================== THUMBNAILS ====================
+
+/**
+ * Generate and publish the poster, preview and sprite sheet for a video
+ *
+ * @param input - Local file path or http(s) URL
+ * @param name - Storage folder (job ID or asset ID)
+ * @param workDir - Scratch directory, removed by the caller
+ * @param posterTime - Seconds into the video for the poster frame
+ */
+export async function generateThumbnails(
+  input: string,
+  name: string,
+  workDir: string,
+  posterTime?: number,
+  signal?: AbortSignal
+): Promise<ThumbnailSet> {
+  await fs.mkdir(workDir, { recursive: true });
+
+  const probe = await probeVideo(input, signal);
+  const lastFrameTime = Math.max(probe.duration - 0.1, 0);
+  const posterAt = Math.min(
+    Math.max(posterTime ?? Math.min(DEFAULT_POSTER_TIME, probe.duration / 2), 0),
+    lastFrameTime
+  );
+
+  // Poster (required)
+  const posterPath = path.join(workDir, 'poster.jpg');
+  await runFfmpeg([
+    '-ss', posterAt.toFixed(3),
+    '-i', input,
+    '-frames:v', '1',
+    '-vf', fitWithin(POSTER_MAX_EDGE),
+    '-q:v', '3',
+    posterPath,
+  ], signal);
+  const posterUrl = await uploadThumbnail(posterPath, name, 'poster.jpg', 'image/jpeg', signal);
+  const thumbnails: ThumbnailSet = { posterUrl };
+
+  // Looping preview, starting at the poster so hover continues from what was shown
+  try {
+    const previewPath = path.join(workDir, 'preview.webp');
+    const previewStart = Math.max(Math.min(posterAt, probe.duration - PREVIEW_SECONDS), 0);
+    await runFfmpeg([
+      '-ss', previewStart.toFixed(3),
+      '-t', String(PREVIEW_SECONDS),
+      '-i', input,
+      '-vf', `fps=${PREVIEW_FPS},${fitWithin(PREVIEW_MAX_EDGE)}`,
+      '-an',
+      '-c:v', 'libwebp',
+      '-loop', '0',
+      '-quality', '60',
+      '-compression_level', '4',
+      previewPath,
+    ], signal);
+    thumbnails.previewUrl = await uploadThumbnail(previewPath, name, 'preview.webp', 'image/webp', signal);
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    console.warn(`[Thumbnails] Preview failed for ${name}:`, error.message);
+  }
+
+  // Sprite sheet for scrubbing
+  try {
+    thumbnails.spriteSheet = await generateSpriteSheet(input, name, workDir, probe, signal);
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    console.warn(`[Thumbnails] Sprite sheet failed for ${name}:`, error.message);
+  }
+
+  return thumbnails;
+}
+
+async function generateSpriteSheet(
+  input: string,
+  name: string,
+  workDir: string,
+  probe: VideoProbe,
+  signal?: AbortSignal
+): Promise<SpriteSheet> {
+  const intervalSeconds = Math.max(SPRITE_MIN_INTERVAL, probe.duration / SPRITE_MAX_FRAMES);
+  const frameCount = Math.max(1, Math.min(SPRITE_MAX_FRAMES, Math.floor(probe.duration / intervalSeconds)));
+  const columns = Math.min(SPRITE_MAX_COLUMNS, frameCount);
+  const rows = Math.ceil(frameCount / columns);
+
+  // scale=W:-2 keeps the height even
+  const frameWidth = SPRITE_FRAME_WIDTH;
+  const frameHeight = Math.round((SPRITE_FRAME_WIDTH * probe.height) / probe.width / 2) * 2;
+
+  const spritePath = path.join(workDir, 'sprite.jpg');
+  await runFfmpeg([
+    '-i', input,
+    '-vf', `fps=${(1 / intervalSeconds).toFixed(4)},scale=${frameWidth}:-2,tile=${columns}x${rows}`,
+    '-frames:v', '1',
+    '-q:v', '5',
+    spritePath,
+  ], signal);
+
+  const url = await uploadThumbnail(spritePath, name, 'sprite.jpg', 'image/jpeg', signal);
+  return { url, columns, rows, frameWidth, frameHeight, frameCount, intervalSeconds };
+}
+
+// ==================== HELPERS ====================
+
+async function probeVideo(input: string, signal?: AbortSignal): Promise<VideoProbe> {
+  const { stdout } = await execFileAsync(FFPROBE_PATH, [
+    '-v', 'error',
+    '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height:format=duration',
+    '-of', 'json',
+    input,
+  ], { timeout: FFMPEG_TIMEOUT_MS, signal });
+
+  const data = JSON.parse(stdout);
+  const stream = data.streams?.[0];
+  const duration = parseFloat(data.format?.duration);
+  if (!stream?.width || !stream?.height || !Number.isFinite(duration) || duration <= 0) {
+    throw new Error('Input has no readable video stream');
+  }
+
+  return { duration, width: stream.width, height: stream.height };
+}
+
+async function runFfmpeg(args: string[], signal?: AbortSignal): Promise<void> {
+  try {
+    await execFileAsync(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-y', ...args], {
+      timeout: FFMPEG_TIMEOUT_MS,
+      signal,
+    });
+  } catch (error: any) {
+    // ffmpeg explains itself on stderr - surface that instead of the command line
+    throw new Error(error.stderr?.trim() || error.message);
+  }
+}
+
+/**
+ * Scale filter that shrinks to fit a bounding box, never enlarging
+ */
+function fitWithin(maxEdge: number): string {
+  return `scale=w='min(iw,${maxEdge})':h='min(ih,${maxEdge})':force_original_aspect_ratio=decrease`;
+}
+
+// ==================== EXPORTS ====================
+
+export const thumbnails = {
+  generateThumbnails,
+};
+
+export default thumbnails;
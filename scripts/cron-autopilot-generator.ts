@@ -13,6 +13,7 @@ import { drizzle } from "drizzle-orm/neon-http";
 import { neon } from "@neondatabase/serverless";
 import { eq, sql, and, lte } from "drizzle-orm";
 import * as dotenv from "dotenv";
+import { fitToHourWindow, resolveTimeZone } from "../shared/timezones";
 
 // Load environment variables
 dotenv.config();
@@ -39,6 +40,10 @@ interface AutopilotConfig {
   platforms: any;
   is_active: boolean;
   is_approved: boolean;
+  posting_window_start: number;
+  posting_window_end: number;
+  user_timezone: string | null;
+  workspace_timezone: string | null;
 }
 
 interface AutopilotStore {
@@ -59,14 +64,17 @@ interface AutopilotProduct {
 // ==================== HELPERS ====================
 
 /**
- * Calculate next scheduled generation time
+ * Calculate next scheduled generation time, inside the config's posting
+ * window in its owner's (or the store workspace's) timezone
  */
-function calculateNextScheduled(videosPerWeek: number): Date {
-  const intervalDays = 7 / videosPerWeek;
-  const next = new Date();
-  next.setDate(next.getDate() + intervalDays);
-  next.setMinutes(0, 0, 0);
-  return next;
+function calculateNextScheduled(config: AutopilotConfig): Date {
+  const intervalMs = (7 / config.videos_per_week) * 24 * 60 * 60 * 1000;
+  return fitToHourWindow(
+    new Date(Date.now() + intervalMs),
+    resolveTimeZone(config.user_timezone, config.workspace_timezone),
+    config.posting_window_start,
+    config.posting_window_end
+  );
 }
 
 /**
@@ -104,8 +112,8 @@ async function markProductUsed(productId: string): Promise<void> {
 /**
  * Update config's next scheduled time
  */
-async function updateNextScheduled(configId: string, videosPerWeek: number): Promise<void> {
-  const nextScheduled = calculateNextScheduled(videosPerWeek);
+async function updateNextScheduled(config: AutopilotConfig): Promise<void> {
+  const nextScheduled = calculateNextScheduled(config);
 
   await db.execute(sql`
     UPDATE autopilot_configs
@@ -113,7 +121,7 @@ async function updateNextScheduled(configId: string, videosPerWeek: number): Pro
         last_generated_at = NOW(),
         videos_generated = videos_generated + 1,
         updated_at = NOW()
-    WHERE id = ${configId}
+    WHERE id = ${config.id}
   `);
 }
 
@@ -167,11 +175,16 @@ async function runAutopilotCycle() {
   try {
     // Find configs due for generation
     const dueConfigs = await db.execute<AutopilotConfig>(sql`
-      SELECT id, store_id, user_id, tone, voice_id, videos_per_week, platforms, is_active, is_approved
-      FROM autopilot_configs
-      WHERE is_active = TRUE
-        AND is_approved = TRUE
-        AND next_scheduled_at <= NOW()
+      SELECT c.id, c.store_id, c.user_id, c.tone, c.voice_id, c.videos_per_week, c.platforms,
+             c.is_active, c.is_approved, c.posting_window_start, c.posting_window_end,
+             u.timezone AS user_timezone, w.timezone AS workspace_timezone
+      FROM autopilot_configs c
+      JOIN users u ON u.id = c.user_id
+      JOIN autopilot_stores s ON s.id = c.store_id
+      LEFT JOIN workspaces w ON w.id = s.workspace_id
+      WHERE c.is_active = TRUE
+        AND c.is_approved = TRUE
+        AND c.next_scheduled_at <= NOW()
     `);
 
     if (!dueConfigs.rows || dueConfigs.rows.length === 0) {
@@ -288,7 +301,7 @@ async function runAutopilotCycle() {
         await markProductUsed(product.id);
 
         // Update next scheduled time
-        await updateNextScheduled(config.id, config.videos_per_week);
+        await updateNextScheduled(config);
 
         successCount++;
         console.log(`  ✅ Config processed successfully`);
@@ -6,18 +6,23 @@
  *
  * Phase 3: Scheduled Posting System
  *
+ * Published / failed posts also queue post.published / post.failed webhooks
+ * (Feb 2026) - the web server's job worker delivers them.
+ *
+ * Multi-platform posts (Feb 2026) share one Late post ID; each row reads its
+ * own platform's status from it.
+ *
  * Usage:
  * - Render Cron Job configuration: `npx tsx scripts/cron-check-scheduled-posts.ts`
  * - Schedule: "*/5 * * * *" (every 5 minutes)
  */
 
+// Load environment variables (before server modules read them)
+import "dotenv/config";
 import { drizzle } from "drizzle-orm/neon-http";
 import { neon } from "@neondatabase/serverless";
 import { sql } from "drizzle-orm";
-import * as dotenv from "dotenv";
-
-// Load environment variables
-dotenv.config();
+import { emitSocialPostEvent } from "../server/services/webhooks";
 
 const DATABASE_URL = process.env.DATABASE_URL;
 const LATE_API_KEY = process.env.LATE_API_KEY;
@@ -41,6 +46,7 @@ interface ScheduledPost {
   late_post_id: string | null;
   scheduled_for: Date;
   status: string;
+  platform: string;
   project_id: string;
   user_id: string;
 }
@@ -111,7 +117,7 @@ async function checkScheduledPosts() {
     // Query posts that are scheduled and have a Late post ID
     // We check posts that are in 'scheduled' or 'posting' status
     const scheduledPosts = await db.execute<ScheduledPost>(sql`
-      SELECT id, late_post_id, scheduled_for, status, project_id, user_id
+      SELECT id, late_post_id, scheduled_for, status, platform, project_id, user_id
       FROM social_posts
       WHERE is_scheduled = 'true'
         AND status IN ('scheduled', 'posting')
@@ -151,18 +157,18 @@ async function checkScheduledPosts() {
         continue;
       }
 
-      // Extract Instagram platform data
-      const instagramPlatform = latePost.platforms?.find((p: any) => p.platform === 'instagram');
+      // Extract this post's platform data
+      const platformData = latePost.platforms?.find((p: any) => p.platform === post.platform);
 
-      if (!instagramPlatform) {
-        console.warn(`  ⚠️  No Instagram platform data found for post ${post.id}`);
+      if (!platformData) {
+        console.warn(`  ⚠️  No ${post.platform} platform data found for post ${post.id}`);
         unchangedCount++;
         continue;
       }
 
-      const platformStatus = instagramPlatform.status;
-      const platformPostUrl = instagramPlatform.platformPostUrl || null;
-      const platformError = instagramPlatform.error || null;
+      const platformStatus = platformData.status;
+      const platformPostUrl = platformData.platformPostUrl || null;
+      const platformError = platformData.error || null;
 
       console.log(`  - Late.dev status: ${platformStatus}`);
       console.log(`  - Platform URL: ${platformPostUrl || 'none'}`);
@@ -179,7 +185,7 @@ async function checkScheduledPosts() {
         updatedCount++;
       } else if (platformStatus === 'failed') {
         newStatus = 'failed';
-        errorMessage = platformError || 'Instagram publishing failed';
+        errorMessage = platformError || `${post.platform} publishing failed`;
         console.log(`  ❌ Post failed: ${errorMessage}`);
         failedCount++;
       } else if (platformStatus === 'posting' || platformStatus === 'scheduled') {
@@ -203,6 +209,7 @@ async function checkScheduledPosts() {
           publishedAt,
           latePost
         );
+        await emitSocialPostEvent(post.id);
       }
     }
 
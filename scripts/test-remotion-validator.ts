@@ -0,0 +1,71 @@
+/**
+ * Test Remotion Code Validator
+ *
+ * Runs generated-code samples through validateRemotionSource - the escape
+ * attempts must be rejected, the plain composition accepted
+ * Usage: npx tsx scripts/test-remotion-validator.ts
+ */
+
+import { validateRemotionSource, formatRemotionCodeIssues } from '../server/services/renderers/remotionCodeValidator';
+
+// ==================== TEST DATA ====================
+
+const composition = (body: string) => `
+import { AbsoluteFill, useCurrentFrame } from 'remotion';
+
+const colors = ['#000', '#fff'];
+
+const MyComposition = () => {
+  const frame = useCurrentFrame();
+  ${body}
+  return <AbsoluteFill style={{ backgroundColor: colors.at(frame % 2) }} />;
+};
+
+export default MyComposition;
+`;
+
+const cases: Array<{ name: string; code: string; valid: boolean }> = [
+  { name: 'Plain composition', code: composition(''), valid: true },
+  { name: 'Literal keys', code: composition(`const first = colors[0]; const style = { a: 1 }['a'];`), valid: true },
+  { name: '.constructor', code: composition(`(() => {}).constructor('return 1')();`), valid: false },
+  { name: "['constructor']", code: composition(`(() => {})['constructor']('return 1')();`), valid: false },
+  {
+    name: 'Computed key (regression)',
+    code: composition(`const k = 'constr' + 'uctor'; (() => {})[k]('return 1')();`),
+    valid: false,
+  },
+  { name: 'Computed template key', code: composition('const c = (() => {})[`constr${"uctor"}`];'), valid: false },
+  { name: 'Computed destructuring key', code: composition(`const k = 'constr' + 'uctor'; const { [k]: F } = () => {};`), valid: false },
+  { name: 'Reflect.get', code: composition(`const F = Reflect.get(() => {}, 'constr' + 'uctor');`), valid: false },
+  { name: 'Object.getOwnPropertyDescriptors', code: composition(`const d = Object.getOwnPropertyDescriptors(Object.getPrototypeOf(() => {}));`), valid: false },
+  { name: 'setTimeout with a function', code: composition(`setTimeout(() => {}, 0);`), valid: true },
+  { name: 'setTimeout with a string', code: composition(`setTimeout("fetch('http://169.254.169.254/')", 0);`), valid: false },
+  { name: 'setInterval with a string', code: composition(`setInterval("fetch('http://169.254.169.254/')", 1000);`), valid: false },
+  { name: 'Aliased setTimeout', code: composition(`const later = setTimeout; later("fetch('http://169.254.169.254/')");`), valid: false },
+  { name: 'top.fetch', code: composition(`top.fetch('http://169.254.169.254/');`), valid: false },
+  { name: 'parent.fetch', code: composition(`parent.fetch('http://169.254.169.254/');`), valid: false },
+  { name: 'frames.fetch', code: composition(`frames.fetch('http://169.254.169.254/');`), valid: false },
+  { name: 'opener.fetch', code: composition(`opener.fetch('http://169.254.169.254/');`), valid: false },
+  { name: 'new Image().src', code: composition(`new Image().src = 'http://169.254.169.254/';`), valid: false },
+  { name: 'open()', code: composition(`open('http://169.254.169.254/');`), valid: false },
+  { name: 'Import outside the allowlist', code: `import fs from 'fs';\n${composition('')}`, valid: false },
+];
+
+// ==================== TESTS ====================
+
+console.log('🧪 Testing Remotion Code Validator\n');
+
+let failures = 0;
+for (const testCase of cases) {
+  const validation = validateRemotionSource(testCase.code);
+  const passed = validation.valid === testCase.valid;
+  if (!passed) failures++;
+
+  console.log(`${passed ? '✓' : '✗'} ${testCase.name}: ${validation.valid ? 'valid' : 'rejected'} (expected ${testCase.valid ? 'valid' : 'rejected'})`);
+  if (!passed && validation.issues.length > 0) {
+    console.log(formatRemotionCodeIssues(validation.issues).replace(/^/gm, '    '));
+  }
+}
+
+console.log(`\n${failures === 0 ? '✅ All cases passed' : `❌ ${failures} case(s) failed`}`);
+process.exit(failures === 0 ? 0 : 1);
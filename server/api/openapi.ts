@@ -0,0 +1,229 @@
+/**
+ * OpenAPI Document (Feb 2026)
+ *
+ * Builds the OpenAPI 3.0 description of the public /api/v1 API from the same
+ * zod schemas the routes validate with (server/validators). Served at
+ * GET /api/v1/openapi.json.
+ *
+ * zodToJsonSchema covers the zod types our validators use; anything else is
+ * described as an unconstrained value rather than failing.
+ */
+
+import { z } from "zod";
+import { postToSocialSchema } from "../validators/social";
+import { generateUGCVideoSchema } from "../validators/ugc";
+import {
+  listMediaQuerySchema,
+  mediaAssetResponseSchema,
+  mediaListResponseSchema,
+  generationResponseSchema,
+  socialPostResponseSchema,
+  socialPostGroupResponseSchema,
+  creditBalanceResponseSchema,
+  errorResponseSchema,
+} from "../validators/publicApi";
+import { API_KEY_SCOPE_DESCRIPTIONS, type ApiKeyScope } from "@shared/apiKeys";
+
+type JsonSchema = Record<string, unknown>;
+
+// ==================== ZOD → JSON SCHEMA ====================
+
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const described = (json: JsonSchema): JsonSchema =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  if (schema instanceof z.ZodEffects) {
+    return described(zodToJsonSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodOptional) {
+    return described(zodToJsonSchema(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodNullable) {
+    return described({ ...zodToJsonSchema(schema.unwrap()), nullable: true });
+  }
+  if (schema instanceof z.ZodDefault) {
+    return described({ ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() });
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return described({
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      ...(required.length > 0 ? { required } : {}),
+    });
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return described({
+      type: "array",
+      items: zodToJsonSchema(schema.element),
+      ...(minLength ? { minItems: minLength.value } : {}),
+      ...(maxLength ? { maxItems: maxLength.value } : {}),
+    });
+  }
+
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") json.minLength = check.value;
+      else if (check.kind === "max") json.maxLength = check.value;
+      else if (check.kind === "email") json.format = "email";
+      else if (check.kind === "url") json.format = "uri";
+      else if (check.kind === "uuid") json.format = "uuid";
+      else if (check.kind === "datetime") json.format = "date-time";
+    }
+    return described(json);
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") json.type = "integer";
+      else if (check.kind === "min") json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      else if (check.kind === "max") json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+    return described(json);
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: "boolean" });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: "string", enum: schema.options });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return described({ type: typeof schema.value, enum: [schema.value] });
+  }
+  if (schema instanceof z.ZodUnion) {
+    const options = (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema);
+    return described({ oneOf: options });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return described({ type: "object", additionalProperties: zodToJsonSchema(schema.valueSchema) });
+  }
+
+  return described({});
+}
+
+/**
+ * Query parameters from a flat object schema
+ */
+function toQueryParameters(schema: z.AnyZodObject) {
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  return Object.entries(shape).map(([name, value]) => ({
+    name,
+    in: "query",
+    required: !value.isOptional(),
+    schema: zodToJsonSchema(value),
+  }));
+}
+
+// ==================== DOCUMENT ====================
+
+const jsonContent = (schema: z.ZodTypeAny) => ({
+  "application/json": { schema: zodToJsonSchema(schema) },
+});
+
+const errorResponses = {
+  "400": { description: "Invalid request", content: jsonContent(errorResponseSchema) },
+  "401": { description: "Missing, invalid or revoked API key", content: jsonContent(errorResponseSchema) },
+  "403": { description: "The key lacks the scope, or its owner lacks the role", content: jsonContent(errorResponseSchema) },
+  "429": {
+    description: "Over the key's per-minute rate limit (see the X-RateLimit-* and Retry-After headers)",
+    content: jsonContent(errorResponseSchema),
+  },
+};
+
+const scoped = (scope: ApiKeyScope) => ({
+  "x-required-scope": scope,
+  security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+});
+
+export function buildOpenApiDocument(appName: string) {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: `${appName} API`,
+      version: "1.0.0",
+      description: [
+        "Authenticate with a personal API key (Settings → API Keys) as `Authorization: Bearer <key>` or an `X-API-Key` header.",
+        "A key acts as its creator in the workspace it was created in. Each operation needs one scope:",
+        ...Object.entries(API_KEY_SCOPE_DESCRIPTIONS).map(([scope, description]) => `- \`${scope}\`: ${description}`),
+      ].join("\n"),
+    },
+    servers: [{ url: "/api/v1" }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+    },
+    paths: {
+      "/ugc/generations": {
+        post: {
+          summary: "Start a UGC product video generation",
+          ...scoped("media:write"),
+          requestBody: { required: true, content: jsonContent(generateUGCVideoSchema) },
+          responses: {
+            "202": { description: "Generation started", content: jsonContent(generationResponseSchema) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/media": {
+        get: {
+          summary: "List the workspace's media, newest first",
+          ...scoped("media:read"),
+          parameters: toQueryParameters(listMediaQuerySchema),
+          responses: {
+            "200": { description: "A page of media", content: jsonContent(mediaListResponseSchema) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/media/{id}": {
+        get: {
+          summary: "Get a media asset (generation status)",
+          ...scoped("media:read"),
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": { description: "The media asset", content: jsonContent(mediaAssetResponseSchema) },
+            "404": { description: "Not found in this workspace", content: jsonContent(errorResponseSchema) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/posts": {
+        post: {
+          summary: "Publish a video now, schedule it with scheduledFor, or add it to the queue",
+          description: "Post to one platform, or to several connected accounts at once with targets. "
+            + "Each target can override caption, contentType and scheduledFor. "
+            + "With queue, each account posts in its next free posting slot.",
+          ...scoped("posts:write"),
+          requestBody: { required: true, content: jsonContent(postToSocialSchema) },
+          responses: {
+            "201": {
+              description: "Post published or scheduled - a post group with one post per platform when posted with targets",
+              content: jsonContent(z.union([socialPostResponseSchema, socialPostGroupResponseSchema])),
+            },
+            "402": { description: "Not enough credits", content: jsonContent(errorResponseSchema) },
+            ...errorResponses,
+          },
+        },
+      },
+      "/credits": {
+        get: {
+          summary: "Get the workspace credit balance",
+          ...scoped("credits:read"),
+          responses: {
+            "200": { description: "Credit balance", content: jsonContent(creditBalanceResponseSchema) },
+            ...errorResponses,
+          },
+        },
+      },
+    },
+  };
+}
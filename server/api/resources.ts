@@ -0,0 +1,63 @@
+/**
+ * Public Resource Shapes (Feb 2026)
+ *
+ * Projections of internal rows onto the stable shapes external callers see -
+ * the /api/v1 responses (validators/publicApi.ts) and webhook event data
+ * (shared/webhooks.ts). Internal columns can change without breaking either.
+ */
+
+import type { AutopilotHistory, MediaAsset, SocialPost, SocialPostGroup } from "@shared/schema";
+import type { MediaAssetVariant } from "@shared/videoFormats";
+import { summarizeGroupStatus } from "../services/socialPosting";
+
+export function toMediaResponse(asset: MediaAsset) {
+  return {
+    id: asset.id,
+    type: asset.type,
+    provider: asset.provider,
+    status: asset.status,
+    prompt: asset.prompt,
+    resultUrl: asset.resultUrl,
+    posterUrl: asset.posterUrl,
+    variants: (asset.variants as MediaAssetVariant[] | null) ?? [],
+    errorMessage: asset.errorMessage,
+    createdAt: asset.createdAt.toISOString(),
+    completedAt: asset.completedAt?.toISOString() ?? null,
+  };
+}
+
+export function toPostResponse(post: SocialPost) {
+  return {
+    id: post.id,
+    platform: post.platform,
+    status: post.status,
+    caption: post.caption,
+    scheduledFor: post.scheduledFor?.toISOString() ?? null,
+    platformPostUrl: post.platformPostUrl,
+    groupId: post.groupId,
+    createdAt: post.createdAt.toISOString(),
+  };
+}
+
+export function toPostGroupResponse(group: SocialPostGroup, posts: SocialPost[]) {
+  return {
+    id: group.id,
+    status: summarizeGroupStatus(posts.map(post => post.status)),
+    caption: group.caption,
+    posts: posts.map(toPostResponse),
+    createdAt: group.createdAt.toISOString(),
+  };
+}
+
+export function toAutopilotRunResponse(run: AutopilotHistory) {
+  return {
+    id: run.id,
+    configId: run.configId,
+    productId: run.productId,
+    mediaAssetId: run.mediaAssetId,
+    status: run.status,
+    errorMessage: run.errorMessage,
+    createdAt: run.createdAt.toISOString(),
+    completedAt: run.completedAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Public REST API v1 (Feb 2026)
+ *
+ * Versioned API for scripts and integrations, authenticated with personal API
+ * keys (middleware/apiKeyAuth.ts) rather than a session. Handlers call the same
+ * services as the app's own routes, but respond with the stable shapes in
+ * validators/publicApi.ts instead of raw rows - internal columns can change
+ * without breaking callers.
+ *
+ * Breaking changes go in a new version (/api/v2), never in place.
+ */
+
+import type { Express, Request } from "express";
+import { storage } from "../storage";
+import { requireApiKey } from "../middleware/apiKeyAuth";
+import { requireWorkspaceRole } from "../middleware/auth";
+import { ugcVideoService } from "../services/ugcVideoService";
+import { publishSocialPost } from "../services/socialPosting";
+import { isInWorkspace } from "../services/workspaceService";
+import * as creditService from "../services/creditService";
+import { generateUGCVideoSchema } from "../validators/ugc";
+import { postToSocialSchema } from "../validators/social";
+import { listMediaQuerySchema } from "../validators/publicApi";
+import { buildOpenApiDocument } from "./openapi";
+import { toMediaResponse, toPostGroupResponse, toPostResponse } from "./resources";
+
+// ==================== HELPERS ====================
+
+const scopeOf = (req: Request) => ({ workspaceId: req.workspaceId!, userId: req.userId! });
+
+// ==================== ROUTES ====================
+
+/**
+ * Mount /api/v1. Must be registered BEFORE the global /api/* session auth
+ * middleware - every route here authenticates with an API key instead.
+ */
+export function registerPublicApiRoutes(app: Express): void {
+  // GET /api/v1/openapi.json - API description (public)
+  app.get("/api/v1/openapi.json", async (req, res) => {
+    let appName = "Streamline";
+    try {
+      const settings = await storage.getBrandSettings();
+      appName = settings?.appName || appName;
+    } catch (error) {
+      console.error("[Public API] Error fetching brand settings:", error);
+    }
+    res.json(buildOpenApiDocument(appName));
+  });
+
+  // POST /api/v1/ugc/generations - Start a UGC video generation
+  app.post("/api/v1/ugc/generations", requireApiKey("media:write"), requireWorkspaceRole("editor"), async (req, res) => {
+    try {
+      const validation = generateUGCVideoSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors,
+        });
+      }
+
+      console.log(`[Public API] UGC generation from key ${req.apiKeyId}`);
+
+      const result = await ugcVideoService.generateUGCVideo({
+        userId: req.userId!,
+        workspaceId: req.workspaceId,
+        ...validation.data,
+      });
+
+      if (!result.success || !result.assetId) {
+        return res.status(500).json({
+          error: result.error || "Failed to start video generation",
+        });
+      }
+
+      res.status(202).json({ id: result.assetId, status: "processing" });
+    } catch (error: any) {
+      console.error("[Public API] Error starting UGC generation:", error);
+      res.status(500).json({ error: "Internal server error", message: error.message });
+    }
+  });
+
+  // GET /api/v1/media - List the workspace's media
+  app.get("/api/v1/media", requireApiKey("media:read"), async (req, res) => {
+    try {
+      const validation = listMediaQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid query",
+          details: validation.error.errors,
+        });
+      }
+
+      const { type, status, limit, offset } = validation.data;
+
+      // One extra row tells whether there's another page
+      const assets = await storage.getMediaAssetsByWorkspace(scopeOf(req), {
+        type,
+        status,
+        limit: limit + 1,
+        offset,
+      });
+
+      res.json({
+        data: assets.slice(0, limit).map(toMediaResponse),
+        limit,
+        offset,
+        hasMore: assets.length > limit,
+      });
+    } catch (error: any) {
+      console.error("[Public API] Error listing media:", error);
+      res.status(500).json({ error: "Internal server error", message: error.message });
+    }
+  });
+
+  // GET /api/v1/media/:id - Get a media asset (poll for generation status)
+  app.get("/api/v1/media/:id", requireApiKey("media:read"), async (req, res) => {
+    try {
+      const asset = await storage.getMediaAsset(req.params.id);
+      if (!asset || !isInWorkspace(asset, req.workspaceId!, req.userId!)) {
+        return res.status(404).json({ error: "Media asset not found" });
+      }
+
+      res.json(toMediaResponse(asset));
+    } catch (error: any) {
+      console.error("[Public API] Error fetching media asset:", error);
+      res.status(500).json({ error: "Internal server error", message: error.message });
+    }
+  });
+
+  // POST /api/v1/posts - Publish or schedule a social post
+  app.post("/api/v1/posts", requireApiKey("posts:write"), requireWorkspaceRole("editor"), async (req, res) => {
+    try {
+      const validation = postToSocialSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: validation.error.errors,
+        });
+      }
+
+      console.log(`[Public API] Social post from key ${req.apiKeyId}`);
+
+      const result = await publishSocialPost(
+        { userId: req.userId!, workspaceId: req.workspaceId!, creditAccountId: req.creditAccountId! },
+        validation.data
+      );
+      if (!result.ok) {
+        return res.status(result.status).json(result.body);
+      }
+
+      res.status(201).json(result.group
+        ? toPostGroupResponse(result.group, result.posts)
+        : toPostResponse(result.post));
+    } catch (error: any) {
+      console.error("[Public API] Error posting to social:", error);
+      res.status(500).json({ error: "Internal server error", message: error.message });
+    }
+  });
+
+  // GET /api/v1/credits - Workspace credit balance
+  app.get("/api/v1/credits", requireApiKey("credits:read"), async (req, res) => {
+    try {
+      const credits = await creditService.getUserCredits(req.creditAccountId!)
+        ?? await creditService.initializeUserCredits(req.creditAccountId!);
+
+      const planCredits = Math.min(credits.grantBalance, credits.balance);
+      res.json({
+        balance: credits.balance - credits.reserved,
+        reserved: credits.reserved,
+        planCredits,
+        topUpCredits: credits.balance - planCredits,
+      });
+    } catch (error: any) {
+      console.error("[Public API] Error fetching credits:", error);
+      res.status(500).json({ error: "Internal server error", message: error.message });
+    }
+  });
+}
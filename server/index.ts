@@ -2,9 +2,23 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startJobWorker } from "./services/jobQueue";
+import { registerGenerationJobHandlers } from "./services/generationJobs";
 
 const app = express();
-app.use(express.json());
+
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
+app.use(express.json({
+  // Keep the exact request bytes for HMAC-signed callbacks (render worker)
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -94,6 +108,12 @@ app.get("/api/autopilot/status", (req, res) => {
     const port = parseInt(process.env.PORT || '5000', 10);
     server.listen(port, "0.0.0.0", () => {
       log(`serving on port ${port}`);
+
+      // Resume in-flight generation jobs and start the durable job worker
+      registerGenerationJobHandlers();
+      startJobWorker().catch((error) => {
+        console.error("Failed to start generation job worker:", error);
+      });
     });
   } catch (error) {
     console.error("Failed to start server:", error);
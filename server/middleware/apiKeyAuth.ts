@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticateApiKey, consumeRateLimit } from '../services/apiKeyService';
+import { resolveWorkspaceAccess } from '../services/workspaceService';
+import { runWithCostAttribution } from '../services/costTracking';
+import type { ApiKeyScope } from '@shared/apiKeys';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKeyId?: string;
+    }
+  }
+}
+
+/**
+ * API Key Authentication Middleware (Feb 2026)
+ *
+ * Authenticates the public /api/v1 API with a personal API key instead of a
+ * Supabase session. Accepts `Authorization: Bearer xpk_...` or `X-API-Key`.
+ * Sets the same request fields as requireAuth (userId, workspaceId,
+ * workspaceRole, creditAccountId), so v1 handlers can use the same services.
+ *
+ * Responds 401 for missing/unknown/revoked keys, 429 over the key's rate
+ * limit and 403 when the key lacks `scope` or its creator left the workspace.
+ *
+ * Usage:
+ *   router.get('/media', requireApiKey('media:read'), handler)
+ */
+export function requireApiKey(scope: ApiKeyScope) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const headerKey = req.headers['x-api-key'];
+      const secret = typeof headerKey === 'string'
+        ? headerKey
+        : req.headers.authorization?.startsWith('Bearer ')
+          ? req.headers.authorization.slice('Bearer '.length)
+          : undefined;
+
+      if (!secret) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Provide an API key as "Authorization: Bearer <key>" or an X-API-Key header.',
+        });
+        return;
+      }
+
+      const key = await authenticateApiKey(secret.trim());
+      if (!key) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Invalid or revoked API key.',
+        });
+        return;
+      }
+
+      const rateLimit = consumeRateLimit(key);
+      res.setHeader('X-RateLimit-Limit', rateLimit.limit);
+      res.setHeader('X-RateLimit-Remaining', rateLimit.remaining);
+      res.setHeader('X-RateLimit-Reset', Math.ceil(rateLimit.resetAt / 1000));
+
+      if (!rateLimit.allowed) {
+        res.setHeader('Retry-After', Math.max(1, Math.ceil((rateLimit.resetAt - Date.now()) / 1000)));
+        res.status(429).json({
+          error: 'Too Many Requests',
+          message: `This API key is limited to ${rateLimit.limit} requests per minute.`,
+        });
+        return;
+      }
+
+      if (!key.scopes.includes(scope)) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `This API key is missing the ${scope} scope.`,
+        });
+        return;
+      }
+
+      // The creator may have left (or been removed from) the key's workspace since
+      const access = await resolveWorkspaceAccess(key.userId, key.workspaceId);
+      if (!access) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: 'The owner of this API key is no longer a member of its workspace.',
+        });
+        return;
+      }
+
+      req.apiKeyId = key.id;
+      req.userId = key.userId;
+      req.workspaceId = access.workspace.id;
+      req.workspaceRole = access.role;
+      req.creditAccountId = access.workspace.ownerId;
+
+      runWithCostAttribution({ userId: key.userId }, next);
+    } catch (error) {
+      console.error('[API Key Auth] Error authenticating API key:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to authenticate API key.',
+      });
+    }
+  };
+}
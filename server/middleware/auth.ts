@@ -2,14 +2,20 @@ import { Request, Response, NextFunction } from 'express';
 import { supabaseAdmin } from '../services/supabaseAuth';
 import { storage } from '../storage';
 import * as creditService from '../services/creditService';
+import { runWithCostAttribution } from '../services/costTracking';
+import { resolveWorkspaceAccess } from '../services/workspaceService';
+import { WORKSPACE_HEADER, hasWorkspaceRole, type WorkspaceRole } from '@shared/workspaces';
 
 /**
- * Extend Express Request type to include userId
+ * Extend Express Request type to include userId and the active workspace
  */
 declare global {
   namespace Express {
     interface Request {
       userId?: string;
+      workspaceId?: string;        // active workspace - resources are scoped to it
+      workspaceRole?: WorkspaceRole;
+      creditAccountId?: string;    // workspace owner - whose balance is the shared credit pool
     }
   }
 }
@@ -217,8 +223,27 @@ export async function requireAuth(
     // Attach user ID to request for downstream handlers
     req.userId = user.id;
 
-    // Continue to next middleware/route handler
-    next();
+    // Resolve the active workspace (header from the switcher, else the user's own)
+    const requestedWorkspaceId = req.headers[WORKSPACE_HEADER];
+    const access = await resolveWorkspaceAccess(
+      user.id,
+      typeof requestedWorkspaceId === 'string' && requestedWorkspaceId ? requestedWorkspaceId : undefined
+    );
+    if (!access) {
+      res.status(403).json({
+        error: 'Forbidden',
+        code: 'workspace_not_member',
+        message: 'You are not a member of this workspace.',
+      });
+      return;
+    }
+
+    req.workspaceId = access.workspace.id;
+    req.workspaceRole = access.role;
+    req.creditAccountId = access.workspace.ownerId;
+
+    // Continue to next middleware/route handler (provider costs attributed to this user)
+    runWithCostAttribution({ userId: user.id }, next);
   } catch (error) {
     console.error('Auth middleware exception:', error);
     res.status(500).json({
@@ -228,3 +253,25 @@ export async function requireAuth(
     return;
   }
 }
+
+/**
+ * Workspace Role Middleware (Feb 2026)
+ *
+ * Requires the caller's role in the active workspace to be at least `role`
+ * (viewer < editor < admin < owner). Use after requireAuth.
+ *
+ * Usage:
+ *   app.post('/api/ai/generate-media', requireAuth, requireWorkspaceRole('editor'), handler)
+ */
+export function requireWorkspaceRole(role: WorkspaceRole) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.workspaceRole || !hasWorkspaceRole(req.workspaceRole, role)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `This action requires the ${role} role in this workspace.`,
+      });
+      return;
+    }
+    next();
+  };
+}
@@ -12,6 +12,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import * as creditService from '../services/creditService.js';
+import { runWithCostAttribution } from '../services/costTracking.js';
 
 // Extend Express Request type
 declare global {
@@ -30,8 +31,8 @@ declare global {
 export function checkCredits(featureKey: string) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      // Get userId from auth (set by requireAuth middleware)
-      const userId = (req as any).userId;
+      // Charge the active workspace's credit pool (set by requireAuth middleware)
+      const userId = req.creditAccountId || (req as any).userId;
 
       if (!userId) {
         return res.status(401).json({
@@ -62,7 +63,8 @@ export function checkCredits(featureKey: string) {
 
       console.log(`[CheckCredits] ✅ User ${userId} has ${check.balance} credits (needs ${check.required} for ${featureKey})`);
 
-      next();
+      // Provider costs of this request count against the feature
+      runWithCostAttribution({ featureKey }, next);
     } catch (error: any) {
       console.error('[CheckCredits] Error checking credits:', error);
       return res.status(500).json({
@@ -85,7 +87,7 @@ export async function deductCreditsFromRequest(
   req: Request,
   metadata?: Record<string, unknown>
 ): Promise<boolean> {
-  const userId = (req as any).userId;
+  const userId = req.creditAccountId || (req as any).userId;
   const featureKey = req.creditFeatureKey;
 
   if (!userId || !featureKey) {
@@ -14,11 +14,14 @@ export const REMOTION_SYSTEM_PROMPT = `You are a Remotion video developer. You g
 CRITICAL RULES:
 1. Output ONLY valid TypeScript/React code - no markdown, no explanations
 2. Use only Remotion's built-in components and hooks
-3. All imports must be from 'remotion' package only
+3. All imports must be from the 'remotion' or 'react' packages only
 4. The code must be a single file with a default export
 5. All assets (video, audio, images) are provided as external URLs
 6. Never use local file paths - only https:// URLs
 7. The composition must match the exact duration specified
+8. Never use process, require, dynamic import(), eval, Function, fetch, window (or top, parent, frames, opener), open, Image or document; setTimeout/setInterval only with a function
+9. The code is type-checked against Remotion's TypeScript API - use only props that exist
+10. Property keys must be literals: obj.key or obj['key'], never obj[variable] - index arrays with array.at(index)
 
 ALLOWED REMOTION IMPORTS:
 - AbsoluteFill, Sequence, useCurrentFrame, useVideoConfig
@@ -159,64 +162,25 @@ REQUIREMENTS:
 Generate the complete, runnable Remotion composition code now:`;
 }
 
-// ==================== CODE VALIDATION ====================
+// ==================== REPAIR PROMPT ====================
 
 /**
- * Validate generated Remotion code
- * Returns { valid: true } or { valid: false, error: string }
+ * Follow-up prompt asking Claude to fix code that failed validation
+ * Sent after the previous attempt, as the next user turn
+ *
+ * @param issues - Formatted validation issues (one per line)
  */
-export function validateRemotionCode(code: string): { valid: boolean; error?: string } {
-  // Check for required imports
-  if (!code.includes("from 'remotion'") && !code.includes('from "remotion"')) {
-    return { valid: false, error: 'Missing remotion import' };
-  }
+export function buildRemotionRepairPrompt(issues: string): string {
+  return `The code you generated failed validation and cannot be rendered:
 
-  // Check for default export
-  if (!code.includes('export default') && !code.includes('export { default }')) {
-    return { valid: false, error: 'Missing default export' };
-  }
+${issues}
 
-  // Check for dangerous patterns
-  const dangerousPatterns = [
-    /require\s*\(/,           // No require()
-    /import.*from\s*['"][^'"]/, // Only allow 'remotion' import
-    /eval\s*\(/,              // No eval
-    /Function\s*\(/,          // No Function constructor
-    /process\./,              // No process access
-    /fs\./,                   // No filesystem access
-    /child_process/,          // No child processes
-    /__dirname/,              // No directory access
-    /__filename/,             // No filename access
-  ];
-
-  for (const pattern of dangerousPatterns) {
-    if (pattern.test(code)) {
-      // Special case: allow 'remotion' imports
-      if (pattern.source.includes('import') && code.match(/import.*from\s*['"]remotion['"]/)) {
-        continue;
-      }
-      return { valid: false, error: `Dangerous pattern detected: ${pattern.source}` };
-    }
-  }
-
-  // Check for AbsoluteFill (required for proper layout)
-  if (!code.includes('AbsoluteFill')) {
-    return { valid: false, error: 'Missing AbsoluteFill component' };
-  }
-
-  // Check for basic React component structure
-  if (!code.includes('return') || !code.includes('<')) {
-    return { valid: false, error: 'Invalid React component structure' };
-  }
-
-  // Check for frame-based timing (should use useCurrentFrame or Sequence)
-  if (!code.includes('Sequence') && !code.includes('useCurrentFrame')) {
-    return { valid: false, error: 'Missing frame-based timing (Sequence or useCurrentFrame)' };
-  }
-
-  return { valid: true };
+Fix every issue above and return the complete corrected composition.
+Keep the same scenes, timing and asset URLs. Output ONLY the code.`;
 }
 
+// ==================== CODE CLEANUP ====================
+
 /**
  * Clean up generated code (remove markdown fences, fix common issues)
  */
@@ -268,7 +232,7 @@ export function cleanRemotionCode(code: string): string {
 export const remotionPrompts = {
   systemPrompt: REMOTION_SYSTEM_PROMPT,
   buildUserPrompt: buildRemotionPrompt,
-  validateCode: validateRemotionCode,
+  buildRepairPrompt: buildRemotionRepairPrompt,
   cleanCode: cleanRemotionCode,
 };
 
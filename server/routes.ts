@@ -1,36 +1,60 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import express from "express";
 import multer from "multer";
 import { storage } from "./storage";
 import { klapService } from "./services/klap";
 import { kieService } from "./services/kie";
 import { lateService } from "./services/late";
 import { stripeService } from "./services/stripe";
-import { postToSocialSchema } from "./validators/social";
-import { generateMediaSchema, validateProviderType } from "./validators/mediaGen";
-import { generateMedia, checkMediaStatus } from "./services/mediaGen";
+import { subscriptionService } from "./services/subscriptionService";
+import { calendarQuerySchema, postingSlotsSchema, postToSocialSchema, updateScheduledPostSchema } from "./validators/social";
+import { generateMediaSchema, validateProviderRequest } from "./validators/mediaGen";
+import { failoverPolicySchema } from "./validators/failoverPolicies";
+import { generateUGCVideoSchema, generateUGCBatchSchema } from "./validators/ugc";
+import { renameWorkspaceSchema, inviteMemberSchema, updateMemberRoleSchema, acceptInvitationSchema } from "./validators/workspaces";
+import { updateTimezoneSchema } from "./validators/timezones";
+import { createApiKeySchema } from "./validators/apiKeys";
+import { createWebhookEndpointSchema, updateWebhookEndpointSchema } from "./validators/webhooks";
+import { enqueueMediaGeneration, enqueueChainWorkflow } from "./services/generationJobs";
+import { verifyRenderCallbackSignature, handleRenderEvent, handleRenderProgress } from "./services/renderCallbacks";
+import { verifyKieCallbackToken, handleKieCallback } from "./services/kieCallbacks";
+import { failoverService } from "./services/failover";
+import { costTrackingService } from "./services/costTracking";
+import { getAssetProgressSnapshot, subscribeToAssetProgress } from "./services/assetProgress";
+import { uploadBuffer, registerLocalMediaRoute } from "./services/mediaStorage";
+import { registerSimulatedMediaRoute } from "./services/simulated/media";
 import { ugcVideoService } from "./services/ugcVideoService";
 import { shopifyScraperService } from "./services/shopifyScraperService";
 import { autopilotProductService } from "./services/autopilotProductService";
 import { autopilotVideoService } from "./services/autopilotVideoService";
 import { autopilotSchedulerService } from "./services/autopilotSchedulerService";
+import { postingQueueService } from "./services/postingQueue";
 import { apifyCrawlerService } from "./services/apifyCrawlerService";
 import { genericProductNormalizer } from "./services/genericProductNormalizer";
 import { genericProductService } from "./services/genericProductService";
 import { autopilotStores, autopilotProducts, autopilotConfigs, autopilotHistory } from "@shared/schema";
+import type { CreditReservation } from "@shared/schema";
+import { VIDEO_ASPECT_RATIOS } from "@shared/videoFormats";
+import type { AssetProgressEvent } from "@shared/assetProgress";
+import { MEDIA_PROVIDERS, getMaxDuration, resolveProviderDuration, type MediaProviderId } from "@shared/mediaProviders";
+import { isUgcGenerationMode } from "@shared/failoverPolicies";
+import { hasWorkspaceRole } from "@shared/workspaces";
 import { GenerationMode, generatePrompt, formatICPForPrompt, formatSceneForPrompt, type PromptVariables } from "./prompts/ugc-presets";
-import { ugcChainService } from "./services/ugcChain";
 import { supabaseAdmin } from "./services/supabaseAuth";
-import { sendVideoCompleteNotification } from "./services/resendService";
-import { requireAuth } from "./middleware/auth";
+import { requireAuth, requireWorkspaceRole } from "./middleware/auth";
 import { checkCredits, deductCreditsFromRequest } from "./middleware/checkCredits";
 import * as creditService from "./services/creditService";
+import { workspaceService, isInWorkspace } from "./services/workspaceService";
+import { publishSocialPost, updateScheduledPost, cancelScheduledPost, listSocialPosts } from "./services/socialPosting";
+import { apiKeyService } from "./services/apiKeyService";
+import { webhookService } from "./services/webhooks";
+import { registerPublicApiRoutes } from "./api/v1";
+import { inWorkspace, type WorkspaceScope } from "./storage";
 // Legacy usage limits - kept for reference during migration, will be removed in Phase 5
 import { checkVideoLimit, checkPostLimit, checkMediaGenerationLimit, incrementVideoUsage, incrementPostUsage, incrementMediaGenerationUsage, getCurrentUsage, FREE_VIDEO_LIMIT, FREE_POST_LIMIT, FREE_MEDIA_GENERATION_LIMIT } from "./services/usageLimits";
 import { db } from "./db";
-import { stripeEvents, users, socialPosts } from "../shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { stripeEvents, users } from "../shared/schema";
+import { eq, and, desc, inArray } from "drizzle-orm";
 import { z } from "zod";
 import type Stripe from "stripe";
 import { v4 as uuidv4 } from "uuid";
@@ -41,6 +65,16 @@ const isAdminEmail = (email: string | null | undefined): boolean => {
   return email ? adminEmails.includes(email.toLowerCase()) : false;
 };
 
+// Active workspace of an authenticated request (storage queries are scoped to it)
+const workspaceScope = (req: Request): WorkspaceScope => ({
+  workspaceId: req.workspaceId!,
+  userId: req.userId!,
+});
+
+// Autopilot stores in the active workspace (configs are authorized through their store)
+const workspaceStoreIds = (req: Request) =>
+  db.select({ id: autopilotStores.id }).from(autopilotStores).where(inWorkspace(autopilotStores, workspaceScope(req)));
+
 // Validation schemas
 const createVideoSchema = z.object({
   sourceVideoUrl: z.string().url(),
@@ -80,9 +114,9 @@ const processVideoAdvancedSchema = z.object({
 //   - "25" is only for sora-2-pro-storyboard (not used here)
 //
 const MODE_DURATION_LIMITS: Record<string, number> = {
-  'nanobana+veo3': 8,  // Provider hard-cap for image-to-video
-  'veo3-only': 20,     // Text-to-video supports 20s; image-to-video auto-switches at 8s
-  'sora2': 15,         // KIE sora-2-* models: n_frames "10" or "15" only
+  'nanobana+veo3': getMaxDuration(MEDIA_PROVIDERS['kie-veo3'], true),  // Provider hard-cap for image-to-video
+  'veo3-only': getMaxDuration(MEDIA_PROVIDERS['kie-veo3']),            // Text-to-video; image-to-video auto-switches at 8s
+  'sora2': getMaxDuration(MEDIA_PROVIDERS['kie-sora2']),               // KIE sora-2-* models: n_frames "10" or "15" only
 };
 
 const generateUGCPresetSchema = z.object({
@@ -141,6 +175,12 @@ const upload = multer({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Locally stored media (STORAGE_DRIVER=local) - public, like provider URLs
+  registerLocalMediaRoute(app);
+
+  // Placeholder media for PROVIDER_MODE=simulated (no-op otherwise)
+  registerSimulatedMediaRoute(app);
+
   // GET /api/auth/health - Health check for Supabase authentication configuration (public endpoint)
   app.get("/api/auth/health", async (req, res) => {
     try {
@@ -282,115 +322,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // POST /api/kie/sora2/callback - Handle KIE Sora2 completion callbacks (PUBLIC endpoint)
-  // This must be BEFORE requireAuth middleware since KIE doesn't send auth tokens
-  app.post('/api/kie/sora2/callback', async (req, res) => {
-    try {
-      const callbackData = req.body;
+  // POST /api/kie/callback/:provider - KIE completion callbacks (Veo3, Sora2, 4O Image, Flux Kontext)
+  // Before requireAuth: KIE sends no auth token - authenticated by the URL token (KIE_CALLBACK_SECRET)
+  app.post('/api/kie/callback/:provider', async (req, res) => {
+    const { provider } = req.params;
 
-      console.log('[Sora2 Callback] Received callback:', JSON.stringify(callbackData, null, 2));
+    if (!verifyKieCallbackToken(provider, req.query.token as string | undefined)) {
+      console.error(`[KIE Callback] Invalid or missing token for provider=${provider}`);
+      return res.status(401).json({ error: 'Invalid callback token' });
+    }
 
-      // Extract data from callback
-      const { code, data, msg } = callbackData;
+    try {
+      const result = await handleKieCallback(provider as MediaProviderId, req.body || {});
 
-      if (!data || !data.taskId) {
-        console.error('[Sora2 Callback] Invalid callback data - missing taskId');
-        return res.status(400).json({ error: 'Invalid callback data' });
+      // Acknowledge unmatched callbacks too - KIE would otherwise keep retrying them
+      if (!result.handled) {
+        console.warn(`[KIE Callback] ${result.reason}`);
+        return res.json({ success: true, handled: false });
       }
 
-      const { taskId, state, resultJson, failCode, failMsg } = data;
+      res.json({ success: true, handled: true, mediaAssetId: result.mediaAssetId });
+    } catch (error: any) {
+      console.error('[KIE Callback] Error processing callback:', error);
+      res.status(500).json({ error: 'Failed to process callback', details: error.message });
+    }
+  });
 
-      // Find the asset by taskId
-      const asset = await storage.getMediaAssetByTaskId(taskId);
-      if (!asset) {
-        console.error(`[Sora2 Callback] No asset found for taskId: ${taskId}`);
-        return res.status(404).json({ error: 'Asset not found' });
+  // POST /api/kie/sora2/callback - Legacy Sora2 callback URL, still carried by tasks
+  // submitted before /api/kie/callback/:provider. It has no token, so it is wake-only:
+  // handleKieCallback never trusts the body - the woken job fetches the task status
+  // from KIE itself - so an unsigned call can at most trigger an early status check.
+  app.post('/api/kie/sora2/callback', async (req, res) => {
+    try {
+      const result = await handleKieCallback('kie-sora2', req.body || {});
+      if (!result.handled) {
+        console.warn(`[KIE Callback] Legacy Sora2 callback: ${result.reason}`);
       }
-      console.log(`[Sora2 Callback] Found asset ${asset.id} for taskId ${taskId}, state: ${state}`);
-
-      // Handle success
-      if (state === 'success' && resultJson) {
-        let resultUrls: string[] = [];
-
-        // Parse resultJson (it's a JSON string according to docs)
-        try {
-          const parsed = typeof resultJson === 'string' ? JSON.parse(resultJson) : resultJson;
-          resultUrls = parsed.resultUrls || [];
-        } catch (parseError) {
-          console.error('[Sora2 Callback] Failed to parse resultJson:', parseError);
-        }
-
-        if (resultUrls.length > 0) {
-          const videoUrl = resultUrls[0];
+      res.json({ success: true, handled: result.handled });
+    } catch (error: any) {
+      console.error('[KIE Callback] Error processing legacy Sora2 callback:', error);
+      res.status(500).json({ error: 'Failed to process callback', details: error.message });
+    }
+  });
 
-          console.log(`[Sora2 Callback] ✅ Video generated successfully: ${videoUrl.substring(0, 80)}...`);
+  // POST /api/internal/render-callback - Render worker completion and progress events (INTERNAL endpoint)
+  // Authenticated by HMAC signature (RENDER_CALLBACK_SECRET), not a user token
+  app.post('/api/internal/render-callback', async (req, res) => {
+    const timestamp = req.headers['x-render-timestamp'] as string | undefined;
+    const signature = req.headers['x-render-signature'] as string | undefined;
 
-          await storage.updateMediaAsset(asset.id, {
-            status: 'ready',
-            resultUrl: videoUrl,
-            resultUrls: resultUrls,
-            completedAt: new Date(),
-            apiResponse: callbackData,
-          });
+    if (!verifyRenderCallbackSignature(req.rawBody, timestamp, signature)) {
+      console.error('[Render Callback] Invalid or missing signature');
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
 
-          console.log(`[Sora2 Callback] Asset ${asset.id} updated to ready`);
-
-          // Send email notification (Phase 8)
-          await sendVideoCompleteNotification({
-            userId: asset.userId,
-            assetId: asset.id,
-            status: 'ready',
-            assetType: 'ugc-ad',
-            videoUrl,
-            generationMode: 'sora2',
-          }).catch((error) => {
-            console.error('[Sora2 Callback] Email notification failed:', error);
-          });
-        } else {
-          console.error('[Sora2 Callback] Success but no resultUrls found');
-          await storage.updateMediaAsset(asset.id, {
-            status: 'error',
-            errorMessage: 'Video generated but no URL returned',
-            apiResponse: callbackData,
-          });
-        }
-      }
-      // Handle failure
-      else if (state === 'fail') {
-        const errorMessage = failMsg || 'Sora2 generation failed';
+    const renderEventSchema = z.object({
+      event: z.enum(['render.completed', 'render.failed', 'render.progress']),
+      jobId: z.string().min(1),
+      status: z.enum(['queued', 'rendering', 'complete', 'failed']),
+      stage: z.enum(['queued', 'bundling', 'rendering', 'uploading', 'thumbnails']).optional(),
+      progress: z.number().min(0).max(100).optional(),
+      resultUrl: z.string().url().optional(),
+      variants: z.array(z.object({
+        aspectRatio: z.enum(VIDEO_ASPECT_RATIOS),
+        url: z.string().url(),
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+      })).optional(),
+      thumbnails: z.object({
+        posterUrl: z.string().url(),
+        previewUrl: z.string().url().optional(),
+        spriteSheet: z.object({
+          url: z.string().url(),
+          columns: z.number().int().positive(),
+          rows: z.number().int().positive(),
+          frameWidth: z.number().int().positive(),
+          frameHeight: z.number().int().positive(),
+          frameCount: z.number().int().positive(),
+          intervalSeconds: z.number().positive(),
+        }).optional(),
+      }).optional(),
+      error: z.string().optional(),
+      completedAt: z.string().optional(),
+    });
 
-        console.error(`[Sora2 Callback] ❌ Generation failed: ${errorMessage} (code: ${failCode})`);
+    const validation = renderEventSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid render event',
+        details: validation.error.errors,
+      });
+    }
 
-        await storage.updateMediaAsset(asset.id, {
-          status: 'error',
-          errorMessage: `Sora2 Error (${failCode}): ${errorMessage}`,
-          apiResponse: callbackData,
-        });
+    try {
+      const result = validation.data.event === 'render.progress'
+        ? await handleRenderProgress(validation.data)
+        : await handleRenderEvent(validation.data);
 
-        console.log(`[Sora2 Callback] Asset ${asset.id} updated to error`);
-
-        // Send email notification for error (Phase 8)
-        await sendVideoCompleteNotification({
-          userId: asset.userId,
-          assetId: asset.id,
-          status: 'error',
-          assetType: 'ugc-ad',
-          errorMessage: `Sora2 Error (${failCode}): ${errorMessage}`,
-        }).catch((error) => {
-          console.error('[Sora2 Callback] Email notification failed:', error);
-        });
+      if (!result.handled) {
+        console.warn(`[Render Callback] ${result.reason}`);
+        return res.status(404).json({ error: result.reason });
       }
-      // Handle unknown state
-      else {
-        console.warn(`[Sora2 Callback] Unknown state: ${state}, keeping as processing`);
-      }
-
-      // Acknowledge receipt
-      res.json({ success: true, message: 'Callback processed' });
 
+      res.json({ success: true, mediaAssetId: result.mediaAssetId });
     } catch (error: any) {
-      console.error('[Sora2 Callback] Error processing callback:', error);
-      res.status(500).json({ error: 'Failed to process callback', details: error.message });
+      console.error('[Render Callback] Error processing event:', error);
+      res.status(500).json({ error: 'Failed to process render event', details: error.message });
     }
   });
 
@@ -408,11 +445,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public REST API (/api/v1) - authenticated with API keys, not sessions
+  registerPublicApiRoutes(app);
+
   // Apply authentication middleware to all /api/* routes (except routes defined above)
   app.use("/api/*", requireAuth);
 
   // POST /api/videos - Create video processing task and start processing
-  app.post("/api/videos", checkCredits('klap_video_input'), async (req, res) => {
+  app.post("/api/videos", requireWorkspaceRole('editor'), checkCredits('klap_video_input'), async (req, res) => {
     try {
       const { sourceVideoUrl, autoExport } = createVideoSchema.parse(req.body);
 
@@ -448,14 +488,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/videos/bulk - Create multiple video processing tasks
-  app.post("/api/videos/bulk", async (req, res) => {
+  app.post("/api/videos/bulk", requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const { urls, autoExport } = createBulkVideoSchema.parse(req.body);
 
       // Phase 9: Check total credits upfront for all videos
       const costPerVideo = await creditService.getFeatureCost('klap_video_input');
       const totalCost = costPerVideo * urls.length;
-      const balance = await creditService.getBalance(req.userId!);
+      const balance = await creditService.getBalance(req.creditAccountId!);
 
       if (balance < totalCost) {
         return res.status(402).json({
@@ -486,7 +526,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             });
 
             // Deduct credits after successful Klap API call (Phase 9: XPAND Credits)
-            await creditService.deductCredits(req.userId!, 'klap_video_input', { taskId: task.id, type: 'bulk_video' });
+            await creditService.deductCredits(req.creditAccountId!, 'klap_video_input', { taskId: task.id, type: 'bulk_video' });
             console.log('[Credits] Deducted for bulk video:', url);
 
             // Start background processing
@@ -556,6 +596,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         subscriptionStatus: user.subscriptionStatus || 'free',
         stripeCustomerId: user.stripeCustomerId,
         subscriptionEndsAt: user.subscriptionEndsAt,
+        timezone: user.timezone,
         createdAt: user.createdAt,
         isAdmin: isAdminEmail(user.email),
       });
@@ -631,7 +672,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/process-video-advanced - Process video with custom parameters
-  app.post("/api/process-video-advanced", requireAuth, checkCredits('klap_video_input'), async (req, res) => {
+  app.post("/api/process-video-advanced", requireAuth, requireWorkspaceRole('editor'), checkCredits('klap_video_input'), async (req, res) => {
     try {
       const { url, email, targetClipCount, minimumDuration } = processVideoAdvancedSchema.parse(req.body);
 
@@ -1220,7 +1261,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/process-video - Simple one-click workflow following exact script pattern
-  app.post("/api/process-video", checkCredits('klap_full_workflow'), async (req, res) => {
+  app.post("/api/process-video", requireWorkspaceRole('editor'), checkCredits('klap_full_workflow'), async (req, res) => {
     try {
       const { url, email } = z.object({
         url: z.string().url(),
@@ -1265,7 +1306,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========================================
 
   // POST /api/social/post - Post a clip to social media
-  app.post("/api/social/post", async (req, res) => {
+  app.post("/api/social/post", requireWorkspaceRole('editor'), async (req, res) => {
     try {
       // Defensive check: Ensure userId is present (should be set by auth middleware)
       if (!req.userId) {
@@ -1287,345 +1328,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const { projectId, videoUrl, mediaAssetId, platform, caption, scheduledFor } = validation.data;
-
-      // Phase 9: Check credits for social post
-      const creditCheck = await creditService.checkCredits(req.userId!, 'social_post');
-      if (!creditCheck.hasEnough) {
-        console.log('[Credits] Insufficient credits for social post:', req.userId);
-        return res.status(402).json({
-          error: 'Insufficient credits',
-          message: `You need ${creditCheck.required} credits for ${creditCheck.featureName}, but only have ${creditCheck.balance}`,
-          required: creditCheck.required,
-          balance: creditCheck.balance,
-          featureKey: 'social_post',
-        });
-      }
-
-      // Determine video source and extract URL
-      let finalVideoUrl: string;
-      let projectForPost: any = null;
-      let taskForPost: any = null;
-
-      if (projectId) {
-        // **Klap Video Flow** - Use projectExport.srcUrl
-        console.log(`[Social Post] Klap video - posting project ${projectId} to ${platform}`);
-
-        // Get project to verify it exists and get associated task
-        const project = await storage.getProject(projectId);
-        if (!project) {
-          console.log(`[Social Post] Project not found: ${projectId}`);
-          return res.status(404).json({ error: "Project not found" });
-        }
-
-        // Verify ownership - ensure the project belongs to the authenticated user
-        const task = await storage.getTask(project.taskId);
-        if (!task || task.userId !== req.userId) {
-          console.log(`[Social Post] Unauthorized access to project ${projectId}`);
-          return res.status(404).json({ error: "Project not found" });
-        }
-
-        // Get the latest successful export for this project
-        const exports = await storage.getExportsByTask(project.taskId);
-        const projectExport = exports.find(
-          (exp) => exp.projectId === projectId && exp.status === "ready"
-        );
-
-        if (!projectExport || !projectExport.srcUrl) {
-          console.log(`[Social Post] No ready export found for project ${projectId}`);
-          return res.status(400).json({
-            error: "No ready export found for this project",
-            details: "Please export the clip before posting to social media",
-          });
-        }
-
-        finalVideoUrl = projectExport.srcUrl;
-        projectForPost = project;
-        taskForPost = task;
-
-        console.log(`[Social Post] Using Klap export URL: ${finalVideoUrl.substring(0, 50)}...`);
-      } else if (videoUrl) {
-        // **UGC Video Flow** - Use direct videoUrl from media_assets
-        console.log(`[Social Post] UGC video - posting direct URL to ${platform}`);
-        finalVideoUrl = videoUrl;
-
-        console.log(`[Social Post] Using UGC video URL: ${finalVideoUrl.substring(0, 50)}...`);
-      } else {
-        // This should never happen due to schema validation, but just in case
-        console.error('[Social Post] Neither projectId nor videoUrl provided');
-        return res.status(400).json({
-          error: "Invalid request",
-          details: "Either projectId or videoUrl must be provided",
-        });
-      }
-
-      // Phase 2: Validate video URL format (applies to both Klap and UGC)
-      if (!finalVideoUrl.startsWith('https://')) {
-        console.error(`[Social Post] Invalid video URL format: ${finalVideoUrl}`);
-        return res.status(400).json({
-          error: 'Invalid video URL',
-          details: 'Video URL must be HTTPS. The export may have failed or URL is malformed.'
-        });
+      const result = await publishSocialPost(
+        { userId: req.userId, workspaceId: req.workspaceId!, creditAccountId: req.creditAccountId! },
+        validation.data
+      );
+      if (!result.ok) {
+        return res.status(result.status).json(result.body);
       }
 
-      console.log('[Validation] ✓ Video URL format valid (HTTPS)');
-      console.log('[Validation] Full URL:', finalVideoUrl);
+      res.json({
+        success: true,
+        post: result.post,
+        posts: result.posts,
+        groupId: result.group?.id ?? null,
+        platformUrl: result.platformUrl,
+        message: result.message,
+        scheduledFor: result.scheduledFor,
+      });
+    } catch (error: any) {
+      console.error("[Social Post] Error posting to social:", error);
+      res.status(500).json({
+        error: "Failed to create social post",
+        details: error.message,
+      });
+    }
+  });
 
-      // Get user's Late.dev profile information
-      const user = await storage.getUser(req.userId!);
-      if (!user) {
-        console.log(`[Social Post] User not found: ${req.userId}`);
-        return res.status(404).json({ error: "User not found" });
+  // PATCH /api/social/posts/:id - Reschedule, re-caption or swap the video of a scheduled post
+  app.patch("/api/social/posts/:id", requireWorkspaceRole('editor'), async (req, res) => {
+    try {
+      const postId = Number(req.params.id);
+      if (!Number.isInteger(postId)) {
+        return res.status(404).json({ error: "Post not found" });
       }
 
-      if (!user.lateProfileId) {
-        console.log(`[Social Post] User ${req.userId} has no Late profile`);
+      const validation = updateScheduledPostSchema.safeParse(req.body);
+      if (!validation.success) {
         return res.status(400).json({
-          error: "No Late.dev profile configured",
-          details: "Your Late.dev profile is being created. Please try again in a moment.",
+          error: "Invalid input",
+          details: validation.error.errors,
         });
       }
 
-      // Get the account ID for the target platform
-      // First, try to get connected accounts and find one for this platform
-      let accountId: string | null = null;
-      try {
-        const accountsData = await lateService.getAccounts(user.lateProfileId);
-        const platformAccount = accountsData.accounts?.find(
-          (acc: any) => acc.platform === platform && acc.isActive
-        );
-        if (platformAccount) {
-          accountId = platformAccount._id;
-          console.log(`[Social Post] Found connected ${platform} account: ${accountId}`);
-        }
-      } catch (accountError) {
-        console.warn(`[Social Post] Could not fetch accounts:`, accountError);
+      const result = await updateScheduledPost(
+        { userId: req.userId!, workspaceId: req.workspaceId!, creditAccountId: req.creditAccountId! },
+        postId,
+        validation.data
+      );
+      if (!result.ok) {
+        return res.status(result.status).json(result.body);
       }
 
-      // Fall back to default Instagram account if no connected account found for Instagram
-      if (!accountId && platform === 'instagram') {
-        accountId = user.lateAccountId || process.env.INSTAGRAM_ACCOUNT_ID || '6900d2cd8bbca9c10cbfff74';
-        console.log(`[Social Post] Using default Instagram account: ${accountId}`);
-      }
+      res.json({
+        success: true,
+        posts: result.posts,
+        groupId: result.group?.id ?? null,
+        message: result.message,
+      });
+    } catch (error: any) {
+      console.error("[Social Post] Error updating scheduled post:", error);
+      res.status(500).json({
+        error: "Failed to update scheduled post",
+        details: error.message,
+      });
+    }
+  });
 
-      // Validate that we have an account for the platform
-      if (!accountId) {
-        console.error(`[Social Post] No ${platform} account available for user ${req.userId}`);
-        return res.status(400).json({
-          error: `${platform} account required`,
-          details: `Please connect your ${platform} account in the Socials page before posting`
-        });
+  // DELETE /api/social/posts/:id - Cancel a scheduled post
+  app.delete("/api/social/posts/:id", requireWorkspaceRole('editor'), async (req, res) => {
+    try {
+      const postId = Number(req.params.id);
+      if (!Number.isInteger(postId)) {
+        return res.status(404).json({ error: "Post not found" });
       }
 
-      console.log(`[Social Post] Using Late profile: ${user.lateProfileId}, platform: ${platform}, account: ${accountId}`);
-
-      // Phase 2.5: AI Caption Generation Integration
-      let finalCaption = caption || '';
-      let captionSource: 'manual' | 'ai_auto' | 'ai_manual' = 'manual';
-      let aiMetadata: any = null;
-
-      // Auto-generate caption if empty and user has auto-generate enabled
-      // Type-safe check: handles both boolean true and string 'true'
-      const autoGenerateEnabled = user.captionAutoGenerate === true || user.captionAutoGenerate === 'true';
-
-      if (!finalCaption && autoGenerateEnabled) {
-        console.log('[Caption] Auto-generating caption (empty caption + auto-mode enabled)');
-        console.log('[Caption] User auto-generate setting:', user.captionAutoGenerate, '(type:', typeof user.captionAutoGenerate, ')');
-
-        try {
-          const { openaiService } = await import("./services/openai.js");
-          // Use project name for Klap videos, generic name for UGC videos
-          const contentName = projectForPost?.name || 'UGC video ad';
-          const result = await openaiService.generateCaption({
-            projectName: contentName,
-            userSystemPrompt: user.captionSystemPrompt || undefined,
-          });
-
-          // Validate generated caption is not empty
-          if (result.caption && result.caption.trim().length > 0) {
-            finalCaption = result.caption.trim();
-            captionSource = 'ai_auto';
-            aiMetadata = result.metadata;
-
-            console.log(`[Caption] Auto-generated caption: "${finalCaption.substring(0, 50)}..."`);
-            console.log('[Caption] Generated caption length:', finalCaption.length);
-          } else {
-            // OpenAI returned empty caption - use fallback
-            console.warn('[Caption] OpenAI returned empty caption, using fallback');
-            finalCaption = "Check out my latest clip! 🎥✨";
-            captionSource = 'ai_auto';
-            aiMetadata = { ...result.metadata, fallback: true };
-            console.log('[Caption] Using fallback caption, length:', finalCaption.length);
-          }
-        } catch (captionError: any) {
-          // Graceful fallback: if caption generation fails, use default caption
-          console.error('[Caption] Failed to auto-generate caption, using fallback:', captionError.message);
-          finalCaption = "Check out my latest clip! 🎥✨";
-          captionSource = 'manual'; // Mark as manual since AI failed
-          aiMetadata = null;
-          console.log('[Caption] Error fallback caption length:', finalCaption.length);
-        }
-      } else if (finalCaption) {
-        console.log('[Caption] Using manual caption provided by user');
-        console.log('[Caption] Manual caption length:', finalCaption.length);
-      } else {
-        console.log('[Caption] No caption (auto-generate disabled)');
-        console.log('[Caption] User auto-generate setting:', user.captionAutoGenerate);
+      // ?shiftQueue=true moves later queued posts up into the freed slot
+      const result = await cancelScheduledPost(
+        { userId: req.userId!, workspaceId: req.workspaceId!, creditAccountId: req.creditAccountId! },
+        postId,
+        { shiftQueue: req.query.shiftQueue === 'true' }
+      );
+      if (!result.ok) {
+        return res.status(result.status).json(result.body);
       }
 
-      // Create initial social post record (Phase 3: Include scheduling fields)
-      // For UGC videos, projectId and taskId will be null, mediaAssetId will be set
-      const initialStatus = scheduledFor ? 'scheduled' : 'posting';
-
-      const socialPost = await storage.createSocialPost({
-        projectId: projectId || null,
-        taskId: taskForPost?.taskId || null,
-        mediaAssetId: mediaAssetId || null, // Phase 4.7: UGC video reference
-        userId: req.userId!, // ✅ FIX: Add required userId from authenticated session
-        platform,
-        caption: finalCaption,
-        captionSource,
-        aiCaptionMetadata: aiMetadata,
-        status: initialStatus, // 'scheduled' if scheduledFor provided, otherwise 'posting'
-        scheduledFor: scheduledFor ? new Date(scheduledFor) : null, // Phase 3: Store scheduled time
-        isScheduled: scheduledFor ? 'true' : 'false', // Phase 3: Flag for scheduled posts
-        latePostId: null,
-        platformPostUrl: null,
-        errorMessage: null,
-        lateResponse: null,
-        publishedAt: null,
+      res.json({
+        success: true,
+        posts: result.posts,
+        groupId: result.group?.id ?? null,
+        message: result.message,
       });
+    } catch (error: any) {
+      console.error("[Social Post] Error cancelling scheduled post:", error);
+      res.status(500).json({
+        error: "Failed to cancel scheduled post",
+        details: error.message,
+      });
+    }
+  });
 
-      console.log(`[Social Post] Created social post record: ${socialPost.id} (caption source: ${captionSource}, scheduled: ${!!scheduledFor})`);
-
-      // Phase 3: Handle scheduled vs immediate posting
-      if (scheduledFor) {
-        // Scheduled post: Create in Late.dev with scheduledFor timestamp
-        console.log(`[Social Post] Scheduling post for ${scheduledFor} (UTC)`);
-
-        // 🔍 DEBUG: Log Late API request payload
-        console.log('[Late Debug] Request payload:', {
-          videoUrl: finalVideoUrl.substring(0, 80) + '...',
-          caption: finalCaption.substring(0, 50) + '...',
-          contentType: 'reel',
-          scheduledFor,
-          profileId: user.lateProfileId,
-          accountId,
-        });
-
-        try {
-          // Use generic postToSocial method for all platforms
-          const lateResponse = await lateService.postToSocial(
-            {
-              platform,
-              videoUrl: finalVideoUrl,
-              caption: finalCaption,
-              scheduledFor, // Pass ISO 8601 UTC timestamp to Late.dev
-            },
-            user.lateProfileId!,  // User's Late profile ID
-            accountId             // Platform account ID
-          );
-
-          // Update social post with Late.dev response (scheduled status)
-          const updatedPost = await storage.updateSocialPost(socialPost.id, {
-            status: 'scheduled',
-            latePostId: lateResponse.post._id,
-            lateResponse: lateResponse as any,
-          });
-
-          console.log(`[Social Post] Successfully scheduled post to ${platform} in Late.dev: ${lateResponse.post._id}`);
-
-          res.json({
-            success: true,
-            post: updatedPost,
-            message: `Post scheduled for ${new Date(scheduledFor).toLocaleString('en-US', { timeZone: 'UTC' })} UTC`,
-            scheduledFor,
-          });
-        } catch (lateError: any) {
-          // Update social post with failure
-          await storage.updateSocialPost(socialPost.id, {
-            status: 'failed',
-            errorMessage: lateError.message,
-          });
+  // GET /api/social/slots - Recurring posting slots of the workspace's accounts
+  app.get("/api/social/slots", requireAuth, async (req, res) => {
+    try {
+      const accounts = await postingQueueService.listAccountSlots(workspaceScope(req));
+      res.json({ accounts });
+    } catch (error: any) {
+      console.error("[Posting Queue] Error fetching posting slots:", error);
+      res.status(500).json({
+        error: "Failed to fetch posting slots",
+        details: error.message,
+      });
+    }
+  });
 
-          console.error("[Social Post] Late API scheduling error:", lateError);
-          res.status(500).json({
-            error: "Failed to schedule post",
-            details: lateError.message,
-          });
-        }
-      } else {
-        // Immediate post: Post to platform right away
-        // 🔍 DEBUG: Log Late API request payload
-        console.log('[Late Debug] Request payload:', {
-          platform,
-          videoUrl: finalVideoUrl.substring(0, 80) + '...',
-          caption: finalCaption.substring(0, 50) + '...',
-          profileId: user.lateProfileId,
-          accountId,
+  // PUT /api/social/slots/:accountId - Replace an account's weekly posting slots
+  app.put("/api/social/slots/:accountId", requireWorkspaceRole('editor'), async (req, res) => {
+    try {
+      const validation = postingSlotsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: validation.error.errors,
         });
+      }
 
-        try {
-          // Use generic postToSocial method for all platforms
-          const lateResponse = await lateService.postToSocial(
-            {
-              platform,
-              videoUrl: finalVideoUrl,
-              caption: finalCaption,
-            },
-            user.lateProfileId!,  // User's Late profile ID
-            accountId             // Platform account ID
-          );
-
-          // Extract platform-specific data
-          const platformPost = lateResponse.post.platforms.find(
-            (p) => p.platform === platform
-          );
-
-          const finalStatus = platformPost?.status === 'published' ? 'published' :
-                             platformPost?.status === 'failed' ? 'failed' : 'posting';
-
-          // Update social post with success
-          const updatedPost = await storage.updateSocialPost(socialPost.id, {
-            status: finalStatus,
-            latePostId: lateResponse.post._id,
-            platformPostUrl: platformPost?.platformPostUrl || null,
-            lateResponse: lateResponse as any,
-            publishedAt: finalStatus === 'published' ? new Date() : null,
-            errorMessage: platformPost?.error || null,
-          });
-
-          console.log(`[Social Post] Successfully posted to ${platform}: ${platformPost?.platformPostUrl || 'pending'}`);
-
-          // Deduct credits after successful Late.dev API call (Phase 9: XPAND Credits)
-          await creditService.deductCredits(req.userId!, 'social_post', { postId: socialPost.id, platform });
-
-          res.json({
-            success: true,
-            post: updatedPost,
-            platformUrl: platformPost?.platformPostUrl,
-            message: finalStatus === 'published'
-              ? `Successfully posted to ${platform}!`
-              : `Post is being processed by ${platform}`,
-          });
-        } catch (lateError: any) {
-          // Update social post with failure
-          await storage.updateSocialPost(socialPost.id, {
-            status: 'failed',
-            errorMessage: lateError.message,
-          });
+      const { platform, timezone, slots } = validation.data;
+      const account = await postingQueueService.setAccountSlots(
+        workspaceScope(req),
+        { accountId: req.params.accountId, platform, timezone },
+        slots
+      );
 
-          console.error("[Social Post] Late API error:", lateError);
-          res.status(500).json({
-            error: "Failed to post to Instagram",
-            details: lateError.message,
-          });
-        }
-      } // End of if/else (scheduled vs immediate)
+      res.json({ account });
     } catch (error: any) {
-      console.error("[Social Post] Error posting to social:", error);
+      console.error("[Posting Queue] Error saving posting slots:", error);
       res.status(500).json({
-        error: "Failed to create social post",
+        error: "Failed to save posting slots",
         details: error.message,
       });
     }
@@ -1772,25 +1610,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Query parameters for filtering
       const { status, limit = '50' } = req.query;
 
-      // Build query
-      let query = db
-        .select()
-        .from(socialPosts)
-        .where(eq(socialPosts.userId, req.userId as string))
-        .orderBy(desc(socialPosts.scheduledFor));
-
-      // Apply status filter if provided
-      if (status && typeof status === 'string') {
-        query = query.where(eq(socialPosts.status, status));
-      }
-
-      // Apply limit
       const limitNum = parseInt(limit as string, 10);
-      if (!isNaN(limitNum) && limitNum > 0) {
-        query = query.limit(limitNum);
-      }
 
-      const posts = await query;
+      // Multi-platform posts come back as one item with a post per platform
+      const posts = await listSocialPosts(workspaceScope(req), {
+        status: status && typeof status === 'string' ? status : undefined,
+        limit: !isNaN(limitNum) && limitNum > 0 ? limitNum : undefined,
+      });
 
       console.log(`[Scheduled Posts] Found ${posts.length} posts`);
 
@@ -1807,6 +1633,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/social/calendar - Posts and upcoming Autopilot runs in [from, to)
+  app.get("/api/social/calendar", requireAuth, async (req, res) => {
+    try {
+      const validation = calendarQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid query",
+          details: validation.error.errors,
+        });
+      }
+
+      const from = new Date(validation.data.from);
+      const to = new Date(validation.data.to);
+      const scope = workspaceScope(req);
+
+      const [posts, autopilot] = await Promise.all([
+        listSocialPosts(scope, { from, to }),
+        autopilotSchedulerService.getUpcomingGenerations(scope, from, to),
+      ]);
+
+      res.json({ posts, autopilot });
+    } catch (error: any) {
+      console.error("[Calendar] Error fetching calendar:", error);
+      res.status(500).json({
+        error: "Failed to fetch calendar",
+        details: error.message,
+      });
+    }
+  });
+
   // ========================================
   // AI MEDIA GENERATION ENDPOINTS (Phase 4)
   // ========================================
@@ -1816,7 +1672,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *
    * Generate AI image or video
    */
-  app.post("/api/ai/generate-media", requireAuth, async (req, res) => {
+  app.post("/api/ai/generate-media", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
+    let reservation: CreditReservation | null = null;
     try {
       console.log(`[AI Generate] Request from user: ${req.userId}`);
 
@@ -1831,28 +1688,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const { prompt, provider, type, referenceImageUrl, options } = validation.data;
 
-      // Validate provider/type combination
-      if (!validateProviderType(provider, type)) {
+      // Validate against the provider's capabilities (type, aspect ratio, duration, ...)
+      const capabilityError = validateProviderRequest(validation.data);
+      if (capabilityError) {
         return res.status(400).json({
-          error: "Invalid provider/type combination",
-          details: `Provider ${provider} does not support ${type} generation`,
+          error: "Unsupported provider options",
+          details: capabilityError,
         });
       }
 
-      // Phase 9: Determine feature key based on provider/type
-      let featureKey = 'media_flux'; // default
-      if (provider === 'openai') {
-        featureKey = 'media_4o';
-      } else if (provider === 'kie-veo3' && type === 'video') {
-        featureKey = 'media_veo3';
-      } else if (provider === 'kie-sora2' && type === 'video') {
-        featureKey = 'media_sora2';
-      } else if (provider === 'kie-flux' && type === 'image') {
-        featureKey = 'media_flux';
-      }
+      // Phase 9: Credit price comes from the provider's descriptor
+      const featureKey = MEDIA_PROVIDERS[provider].costKey;
 
       // Phase 9: Check credits
-      const creditCheck = await creditService.checkCredits(req.userId!, featureKey);
+      const creditCheck = await creditService.checkCredits(req.creditAccountId!, featureKey);
       if (!creditCheck.hasEnough) {
         console.log('[AI Generate] Insufficient credits:', req.userId);
         return res.status(402).json({
@@ -1866,11 +1715,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log('[AI Generate] Starting generation:', { provider, type, prompt: prompt.substring(0, 50) });
 
-      // Create media asset record
+      // Hold credits until the generation settles (charged on success, released on failure)
       const assetId = uuidv4();
+      reservation = await creditService.holdCredits(req.creditAccountId!, featureKey, {
+        mediaAssetId: assetId,
+        metadata: { assetId, provider, type },
+      });
+      if (!reservation) {
+        return res.status(402).json({
+          error: 'Insufficient credits',
+          message: `You need ${creditCheck.required} credits for ${creditCheck.featureName}`,
+          required: creditCheck.required,
+          featureKey,
+        });
+      }
+
+      // Create media asset record
       const mediaAsset = await storage.createMediaAsset({
         id: assetId,
         userId: req.userId!,
+        workspaceId: req.workspaceId!,
         provider,
         type,
         prompt,
@@ -1888,19 +1752,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log('[AI Generate] Created media asset:', assetId);
 
-      // Start generation in background
-      processMediaGeneration(assetId, {
+      // Queue generation (durable background job)
+      await enqueueMediaGeneration(assetId, {
         provider,
         type,
         prompt,
         referenceImageUrl,
         options,
-      }).catch((error) => {
-        console.error('[AI Generate] Background processing error:', error);
       });
 
-      // Deduct credits after starting generation (Phase 9: XPAND Credits)
-      await creditService.deductCredits(req.userId!, featureKey, { assetId, provider, type });
+      // Queued - the job settles or releases the hold from here
+      reservation = null;
 
       res.json({
         success: true,
@@ -1911,6 +1773,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     } catch (error: any) {
       console.error("[AI Generate] Error:", error);
+      if (reservation) {
+        await abandonGenerationStart(reservation, error);
+      }
       res.status(500).json({
         error: "Failed to start media generation",
         details: error.message,
@@ -1925,7 +1790,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Takes product brief and converts to prompt using preset templates
    * Supports multipart/form-data for file uploads
    */
-  app.post("/api/ai/generate-ugc-preset", requireAuth, upload.single('productImage'), async (req, res) => {
+  app.post("/api/ai/generate-ugc-preset", requireAuth, requireWorkspaceRole('editor'), upload.single('productImage'), async (req, res) => {
+    let reservation: CreditReservation | null = null;
     try {
       console.log(`[AI UGC Preset] Request from user: ${req.userId}`);
       console.log(`[AI UGC Preset] Has uploaded file:`, !!req.file);
@@ -1955,15 +1821,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // ✅ SERVER-SIDE AUTHORITATIVE DURATION RESOLUTION
       // Mode C (sora2) only supports n_frames "10" or "15" - enforce this regardless of client
-      let effectiveDuration: number;
-      if (generationMode === 'sora2') {
-        effectiveDuration = duration >= 15 ? 15 : 10;
-      } else {
-        effectiveDuration = duration;
-      }
+      const effectiveDuration = generationMode === 'sora2'
+        ? resolveProviderDuration(MEDIA_PROVIDERS['kie-sora2'], duration)!
+        : duration;
       console.log(`[ugc] resolved_duration mode=${generationMode} client=${duration} effective=${effectiveDuration}`);
 
-      // Handle uploaded file: upload to KIE and get public URL
+      // Handle uploaded file: upload to media storage and get public URL
       let finalProductImageUrl = productImageUrl;
       if (req.file) {
         console.log(`[AI UGC Preset] File uploaded:`, {
@@ -1973,16 +1836,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
 
         try {
-          // Upload file buffer to KIE and get public URL
-          const publicUrl = await kieService.uploadFileBuffer(
-            req.file.buffer,
-            req.file.mimetype,
-            req.file.originalname
-          );
-          console.log(`[AI UGC Preset] File uploaded to KIE successfully:`, publicUrl);
+          // Upload file buffer to media storage and get public URL
+          const publicUrl = await uploadBuffer(req.file.buffer, req.file.mimetype, {
+            folder: 'uploads',
+            filename: req.file.originalname,
+          });
+          console.log(`[AI UGC Preset] File uploaded successfully:`, publicUrl);
           finalProductImageUrl = publicUrl;
         } catch (uploadError: any) {
-          console.error(`[AI UGC Preset] Failed to upload file to KIE:`, uploadError.message);
+          console.error(`[AI UGC Preset] Failed to upload file:`, uploadError.message);
           return res.status(500).json({
             error: 'Failed to upload product image',
             details: uploadError.message,
@@ -2028,7 +1890,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Check if user has enough credits
-      const userBalance = await creditService.getBalance(req.userId!);
+      const userBalance = await creditService.getBalance(req.creditAccountId!);
       if (userBalance < totalCredits) {
         console.log('[AI UGC Preset] Insufficient credits:', {
           userId: req.userId,
@@ -2077,15 +1939,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type = 'video';
       } else {
         // Mode C: Sora 2 video
-        provider = 'sora2'; // TODO: Add Sora provider to KIE service
+        provider = 'kie-sora2';
         type = 'video';
       }
 
-      // Create media asset record
+      // Hold credits using dynamic pricing until the video settles (Phase 9: XPAND Credits)
       const assetId = uuidv4();
+      reservation = await creditService.holdCreditsAmount(
+        req.creditAccountId!,
+        totalCredits,
+        `UGC Ad: ${pricing.name} (${duration}s)`,
+        {
+          mediaAssetId: assetId,
+          metadata: {
+            mode: generationMode,
+            duration,
+            baseCost,
+            perSecondMultiplier,
+            finalCost: totalCredits,
+            assetId,
+            productName,
+          },
+        }
+      );
+      if (!reservation) {
+        return res.status(402).json({
+          error: 'Insufficient credits',
+          message: `You need ${totalCredits} credits for ${pricing.name} (${duration}s)`,
+          required: totalCredits,
+          mode: generationMode,
+          duration,
+        });
+      }
+
+      // Create media asset record
       await storage.createMediaAsset({
         id: assetId,
         userId: req.userId!,
+        workspaceId: req.workspaceId!,
         provider,
         type,
         prompt: generatedPrompt,
@@ -2122,17 +2013,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Mode A: Use chain orchestration service
       if (generationMode === 'nanobana+veo3') {
-        ugcChainService.startImageGeneration({
-          assetId,
+        await enqueueChainWorkflow(assetId, {
           promptVariables,
           productImageUrl: finalProductImageUrl,
           duration: effectiveDuration, // ✅ Use server-resolved duration for chain service
-        }).then(() => {
-          processChainWorkflow(assetId).catch((error) => {
-            console.log(`[ugc] job_failed id=${assetId} reason=chain_error error=${error.message}`);
-          });
-        }).catch((error) => {
-          console.log(`[ugc] job_failed id=${assetId} reason=start_error error=${error.message}`);
         });
       } else {
         // Mode B & C: Use standard generation process
@@ -2141,7 +2025,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // ✅ DIAGNOSTIC: Log exact provider params for debugging
         console.log(`[ugc] provider_selected mode=${generationMode} provider=${provider} model=${providerModel} duration=${effectiveDuration} aspect=9:16`);
 
-        processMediaGeneration(assetId, {
+        await enqueueMediaGeneration(assetId, {
           provider,
           type,
           prompt: generatedPrompt,
@@ -2151,37 +2035,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
             model: providerModel,
             aspectRatio: '9:16', // ✅ EXPLICIT: Force vertical for UGC selfie videos
           },
-        }).catch((error) => {
-          console.log(`[ugc] job_failed id=${assetId} reason=process_error error=${error.message}`);
         });
       }
 
-      // Deduct credits using dynamic pricing (Phase 9: XPAND Credits)
-      await creditService.deductCreditsAmount(
-        req.userId!,
-        totalCredits,
-        `UGC Ad: ${pricing.name} (${duration}s)`,
-        {
-          mode: generationMode,
-          duration,
-          baseCost,
-          perSecondMultiplier,
-          finalCost: totalCredits,
-          assetId,
-          productName,
-        }
-      );
+      // Queued - the job settles or releases the hold from here
+      reservation = null;
 
       res.json({
         success: true,
         assetId,
         status: 'processing',
         message: 'UGC ad generation started with preset templates',
-        creditsDeducted: totalCredits,
+        creditsReserved: totalCredits,
       });
 
     } catch (error: any) {
       console.error("[AI UGC Preset] Error:", error);
+      if (reservation) {
+        await abandonGenerationStart(reservation, error);
+      }
       res.status(500).json({
         error: "Failed to start UGC generation",
         details: error.message,
@@ -2190,21 +2062,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   /**
-   * GET /api/ai/media/:id
+   * GET /api/ai/media/progress/stream
    *
-   * Get media asset status and details
+   * Live generation progress for the workspace's in-flight assets (Server-Sent Events)
+   * Sends the current snapshot on connect, then one event per update. The
+   * client reads it with fetch (EventSource can't send the Bearer token).
    */
-  app.get("/api/ai/media/:id", requireAuth, async (req, res) => {
-    try {
-      const { id } = req.params;
+  app.get("/api/ai/media/progress/stream", requireAuth, (req, res) => {
+    const scope = workspaceScope(req);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no", // disable proxy buffering
+    });
+    res.flushHeaders();
 
-      const mediaAsset = await storage.getMediaAsset(id);
-      if (!mediaAsset) {
-        return res.status(404).json({ error: "Media asset not found" });
+    const send = (event: AssetProgressEvent) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    for (const event of getAssetProgressSnapshot(scope)) {
+      send(event);
+    }
+    const unsubscribe = subscribeToAssetProgress(scope, send);
+
+    // Comment line keeps idle connections open through proxies
+    const heartbeat = setInterval(() => {
+      res.write(": heartbeat\n\n");
+    }, 25000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  /**
+   * GET /api/ai/media/:id
+   *
+   * Get media asset status and details
+   */
+  app.get("/api/ai/media/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const mediaAsset = await storage.getMediaAsset(id);
+      if (!mediaAsset) {
+        return res.status(404).json({ error: "Media asset not found" });
       }
 
       // Verify ownership
-      if (mediaAsset.userId !== req.userId) {
+      if (!isInWorkspace(mediaAsset, req.workspaceId!, req.userId!)) {
         return res.status(404).json({ error: "Media asset not found" });
       }
 
@@ -2231,7 +2141,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Exclude Content Engine assets from UGC gallery (Jan 2026)
       // Content Engine videos have sceneSpecId set and should be viewed in /content-engine
-      const mediaAssets = await storage.getMediaAssetsByUser(req.userId!, {
+      const mediaAssets = await storage.getMediaAssetsByWorkspace(workspaceScope(req), {
         excludeContentEngine: true,
       });
 
@@ -2256,7 +2166,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Soft delete a media asset (Dec 2025)
    * Sets deleted_at timestamp, asset won't appear in gallery
    */
-  app.delete("/api/ai/media/:id", requireAuth, async (req, res) => {
+  app.delete("/api/ai/media/:id", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -2267,12 +2177,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Verify ownership
-      if (asset.userId !== req.userId) {
+      if (!isInWorkspace(asset, req.workspaceId!, req.userId!)) {
         return res.status(404).json({ error: "Asset not found" });
       }
 
       // Soft delete
-      const deleted = await storage.softDeleteMediaAsset(id, req.userId!);
+      const deleted = await storage.softDeleteMediaAsset(id, workspaceScope(req));
       if (!deleted) {
         return res.status(500).json({ error: "Failed to delete asset" });
       }
@@ -2298,7 +2208,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *
    * Rate a media asset 1-5 stars (Dec 2025)
    */
-  app.post("/api/ai/media/:id/rating", requireAuth, async (req, res) => {
+  app.post("/api/ai/media/:id/rating", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const { id } = req.params;
       const { rating } = req.body;
@@ -2318,12 +2228,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Verify ownership
-      if (asset.userId !== req.userId) {
+      if (!isInWorkspace(asset, req.workspaceId!, req.userId!)) {
         return res.status(404).json({ error: "Asset not found" });
       }
 
       // Update rating
-      const updated = await storage.rateMediaAsset(id, req.userId!, rating);
+      const updated = await storage.rateMediaAsset(id, workspaceScope(req), rating);
       if (!updated) {
         return res.status(500).json({ error: "Failed to update rating" });
       }
@@ -2350,7 +2260,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Convert an existing image asset to video generation
    * Takes an image from the gallery and generates a video using it as reference
    */
-  app.post("/api/ai/media/use-for-video", requireAuth, async (req, res) => {
+  app.post("/api/ai/media/use-for-video", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
+    let reservation: CreditReservation | null = null;
     try {
       const { sourceAssetId } = req.body;
 
@@ -2365,7 +2276,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Verify ownership
-      if (source.userId !== req.userId) {
+      if (!isInWorkspace(source, req.workspaceId!, req.userId!)) {
         return res.status(404).json({ error: "Source asset not found" });
       }
 
@@ -2381,14 +2292,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Phase 9: Check credits for video generation from image
-      const creditCheck = await creditService.checkCredits(req.userId!, 'media_veo3');
+      const videoProvider = MEDIA_PROVIDERS['kie-veo3'];
+      const creditCheck = await creditService.checkCredits(req.creditAccountId!, videoProvider.costKey);
       if (!creditCheck.hasEnough) {
         return res.status(402).json({
           error: 'Insufficient credits',
           message: `You need ${creditCheck.required} credits for ${creditCheck.featureName}, but only have ${creditCheck.balance}`,
           required: creditCheck.required,
           balance: creditCheck.balance,
-          featureKey: 'media_veo3',
+          featureKey: videoProvider.costKey,
         });
       }
 
@@ -2396,17 +2308,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Create enhanced prompt based on original image prompt
       // Duration defaults to 10s for image-to-video conversion (Veo3 text-to-video)
-      const defaultDuration = 10;
+      const defaultDuration = videoProvider.durations!.default;
       const videoPrompt = source.prompt
         ? `${source.prompt}. Create a dynamic ${defaultDuration}-second UGC-style video showcasing this product.`
         : `Create an engaging ${defaultDuration}-second UGC-style product video based on this image.`;
 
-      // Create new media asset record
+      // Hold credits until the video settles (Phase 9: XPAND Credits)
       const assetId = uuidv4();
+      reservation = await creditService.holdCredits(req.creditAccountId!, videoProvider.costKey, {
+        mediaAssetId: assetId,
+        metadata: { assetId, sourceAssetId, type: 'image_to_video' },
+      });
+      if (!reservation) {
+        return res.status(402).json({
+          error: 'Insufficient credits',
+          message: `You need ${creditCheck.required} credits for ${creditCheck.featureName}`,
+          required: creditCheck.required,
+          featureKey: videoProvider.costKey,
+        });
+      }
+
+      // Create new media asset record
       await storage.createMediaAsset({
         id: assetId,
         userId: req.userId!,
-        provider: 'kie-veo3',
+        workspaceId: req.workspaceId!,
+        provider: videoProvider.id,
         type: 'video',
         prompt: videoPrompt,
         referenceImageUrl: sourceUrl,
@@ -2420,9 +2347,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         apiResponse: null,
       });
 
-      // Start video generation (background process will handle polling)
-      processMediaGeneration(assetId, {
-        provider: 'kie-veo3',
+      // Start video generation (durable background job handles polling)
+      await enqueueMediaGeneration(assetId, {
+        provider: videoProvider.id,
         type: 'video',
         prompt: videoPrompt,
         referenceImageUrl: sourceUrl,
@@ -2430,16 +2357,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           duration: defaultDuration,
           model: 'veo3',
         },
-      }).catch((err) => {
-        console.error(`[AI Use For Video] Background generation failed for ${assetId}:`, err);
       });
 
-      // Deduct credits after starting generation (Phase 9: XPAND Credits)
-      await creditService.deductCredits(req.userId!, 'media_veo3', {
-        assetId,
-        sourceAssetId,
-        type: 'image_to_video'
-      });
+      // Queued - the job settles or releases the hold from here
+      reservation = null;
 
       res.json({
         success: true,
@@ -2450,6 +2371,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     } catch (error: any) {
       console.error("[AI Use For Video] Error:", error);
+      if (reservation) {
+        await abandonGenerationStart(reservation, error);
+      }
       res.status(500).json({
         error: "Failed to start video generation",
         details: error.message,
@@ -2458,7 +2382,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/ai/media/retry/:id - Retry failed media generation (Phase 2)
-  app.post("/api/ai/media/retry/:id", requireAuth, async (req, res) => {
+  app.post("/api/ai/media/retry/:id", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -2469,7 +2393,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Verify ownership
-      if (asset.userId !== req.userId) {
+      if (!isInWorkspace(asset, req.workspaceId!, req.userId!)) {
         return res.status(404).json({ error: "Asset not found" });
       }
 
@@ -2491,6 +2415,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // The failed attempt's hold was released, so the retry holds credits again
+      const reservation = await creditService.reholdAssetReservation(id);
+      if (reservation === null) {
+        return res.status(402).json({
+          error: 'Insufficient credits',
+          message: "You don't have enough credits to retry this generation",
+        });
+      }
+
       console.log(`[AI Retry] Retrying ${asset.type} generation ${id} for user ${req.userId} (attempt ${currentRetryCount + 1}/3)`);
 
       // Reset asset to processing state
@@ -2501,14 +2434,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Restart generation process with original parameters
-      processMediaGeneration(id, {
+      await enqueueMediaGeneration(id, {
         provider: asset.provider,
         type: asset.type,
         prompt: asset.prompt,
         referenceImageUrl: asset.referenceImageUrl || undefined,
         options: asset.metadata || null,
-      }).catch((err) => {
-        console.error(`[AI Retry] Background retry failed for ${id}:`, err);
       });
 
       res.json({
@@ -2529,770 +2460,753 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ========================================
-  // BACKGROUND PROCESSING: Media Generation (Phase 4)
+  // AI CAPTION GENERATION ENDPOINTS (Phase 2)
   // ========================================
 
-  /**
-   * Background function to process chain workflow (Phase 5: Mode A)
-   * Polls for image → analyzes with Vision → generates video → polls for video
-   *
-   * TIMEOUTS (per-step):
-   * - Image generation: 3 minutes
-   * - Image analysis: 2 minutes
-   * - Video generation: 3 minutes
-   * - Total chain: 10 minutes hard cap
-   */
-  async function processChainWorkflow(assetId: string): Promise<void> {
-    const pollInterval = 15000; // 15 seconds (reduced from 30s for faster detection)
-    const maxAttempts = 40; // 40 * 15s = 10 minutes max
-    const startTime = Date.now();
-    const timeoutMs = 10 * 60 * 1000; // 10 minutes hard cap for full chain
-    let pollAttempts = 0;
-
-    // ✅ LIFECYCLE LOG: Job polling started
-    console.log(`[ugc] poll_start id=${assetId} mode=chain max_time=600s`);
-
+  // GET /api/user/caption-settings - Get user's caption generation settings
+  app.get("/api/user/caption-settings", requireAuth, async (req, res) => {
     try {
-      while (pollAttempts < maxAttempts) {
-        // Check timeout
-        const elapsed = Date.now() - startTime;
-        const elapsedSeconds = Math.round(elapsed / 1000);
-
-        if (elapsed > timeoutMs) {
-          // ✅ LIFECYCLE LOG: Job timeout
-          console.log(`[ugc] job_timeout id=${assetId} after=${elapsedSeconds}s reason=chain_timeout`);
-
-          await ugcChainService.handleChainError(
-            assetId,
-            'error' as any,
-            `Provider timeout after ${elapsedSeconds}s. Please try again.`
-          );
-
-          return;
-        }
+      const user = await storage.getUser(req.userId!);
 
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
-        pollAttempts++;
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
 
-        const asset = await storage.getMediaAsset(assetId);
-        if (!asset) {
-          console.log(`[ugc] job_failed id=${assetId} reason=asset_not_found`);
-          return;
-        }
+      res.json({
+        systemPrompt: user.captionSystemPrompt || "Write an engaging Instagram caption for this video. Be creative, use relevant emojis, and include a call-to-action.",
+        autoGenerate: user.captionAutoGenerate === "true",
+      });
+    } catch (error: any) {
+      console.error("[Caption Settings] Error fetching settings:", error);
+      res.status(500).json({
+        error: "Failed to fetch caption settings",
+        details: error.message,
+      });
+    }
+  });
 
-        const chainMetadata = asset.chainMetadata as any;
-        if (!chainMetadata) {
-          console.log(`[ugc] job_failed id=${assetId} reason=no_chain_metadata`);
-          await storage.updateMediaAsset(assetId, {
-            status: 'error',
-            errorMessage: 'Internal error: missing chain metadata',
-          });
-          return;
-        }
+  // PUT /api/user/caption-settings - Update user's caption generation settings
+  app.put("/api/user/caption-settings", requireAuth, async (req, res) => {
+    try {
+      const { updateCaptionSettingsSchema } = await import("./validators/caption.js");
+      const validation = updateCaptionSettingsSchema.safeParse(req.body);
 
-        const step = chainMetadata.step;
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors,
+        });
+      }
 
-        // ✅ LIFECYCLE LOG: Poll status
-        console.log(`[ugc] poll_status id=${assetId} step=${step} elapsed=${elapsedSeconds}s attempt=${pollAttempts}/${maxAttempts}`);
+      const { systemPrompt, autoGenerate } = validation.data;
+      const updates: any = {};
 
-        // Handle different chain steps
-        // Per-step timeouts: 3 min image, 2 min analysis, 3 min video
-        const STEP_TIMEOUT_MS = {
-          generating_image: 3 * 60 * 1000,  // 3 minutes
-          analyzing_image: 2 * 60 * 1000,   // 2 minutes
-          generating_video: 3 * 60 * 1000,  // 3 minutes
-        };
+      if (systemPrompt !== undefined) {
+        updates.captionSystemPrompt = systemPrompt;
+      }
 
-        if (step === 'generating_image') {
-          const imageStartTime = chainMetadata.timestamps?.imageStarted;
-          const imageElapsed = imageStartTime ? Date.now() - new Date(imageStartTime).getTime() : 0;
+      if (autoGenerate !== undefined) {
+        updates.captionAutoGenerate = autoGenerate ? "true" : "false";
+      }
 
-          if (imageElapsed > STEP_TIMEOUT_MS.generating_image) {
-            console.log(`[ugc] step_timeout id=${assetId} step=generating_image after=${Math.round(imageElapsed/1000)}s`);
+      const updatedUser = await storage.updateUser(req.userId!, updates);
 
-            // Attempt fallback to Veo3 instead of hard failure
-            try {
-              const productImageUrl = asset?.metadata && typeof asset.metadata === 'object' && 'productImageUrl' in asset.metadata
-                ? (asset.metadata as any).productImageUrl
-                : undefined;
-              await ugcChainService.fallbackToVeo3(assetId, 'Image generation timeout', productImageUrl);
-            } catch (fallbackError: any) {
-              console.log(`[ugc] job_failed id=${assetId} reason=image_timeout_fallback_failed`);
-              await ugcChainService.handleChainError(assetId, 'generating_image', `Image timeout + fallback failed`);
-              return;
-            }
-          } else {
-            // Poll for image completion
-            try {
-              const imageReady = await ugcChainService.checkImageStatus(assetId);
-              if (imageReady) {
-                console.log(`[ugc] step_complete id=${assetId} step=generating_image`);
-              }
-            } catch (err: any) {
-              console.log(`[ugc] poll_error id=${assetId} step=generating_image error=${err.message}`);
-            }
-          }
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
 
-        } else if (step === 'analyzing_image') {
-          // ✅ NEW: Handle analyzing_image step (was missing!)
-          const analysisStartTime = chainMetadata.timestamps?.imageCompleted; // Analysis starts when image completes
-          const analysisElapsed = analysisStartTime ? Date.now() - new Date(analysisStartTime).getTime() : 0;
+      console.log(`[Caption Settings] Updated for user ${req.userId}`);
 
-          if (analysisElapsed > STEP_TIMEOUT_MS.analyzing_image) {
-            console.log(`[ugc] step_timeout id=${assetId} step=analyzing_image after=${Math.round(analysisElapsed/1000)}s`);
-            await ugcChainService.handleChainError(assetId, 'analyzing_image', 'Image analysis timeout');
-            return;
-          }
-          // Analysis is sync (OpenAI call), so if we're stuck here, it means the call hung
-          // The ugcChainService.analyzeImage should have already moved to next step
-
-        } else if (step === 'fallback_to_veo3') {
-          // Fallback triggered - transition to video generation
-          // The fallbackToVeo3 method already starts video generation
-          // Just wait for next poll to detect generating_video state
-
-        } else if (step === 'generating_video') {
-          const videoStartTime = chainMetadata.timestamps?.videoStarted;
-          const videoElapsed = videoStartTime ? Date.now() - new Date(videoStartTime).getTime() : 0;
-
-          if (videoElapsed > STEP_TIMEOUT_MS.generating_video) {
-            console.log(`[ugc] step_timeout id=${assetId} step=generating_video after=${Math.round(videoElapsed/1000)}s`);
-            await ugcChainService.handleChainError(assetId, 'generating_video', 'Video generation timeout');
-            return;
-          }
+      res.json({
+        success: true,
+        systemPrompt: updatedUser.captionSystemPrompt,
+        autoGenerate: updatedUser.captionAutoGenerate === "true",
+      });
+    } catch (error: any) {
+      console.error("[Caption Settings] Error updating settings:", error);
+      res.status(500).json({
+        error: "Failed to update caption settings",
+        details: error.message,
+      });
+    }
+  });
 
-          // Poll for video completion
-          try {
-            const videoReady = await ugcChainService.checkVideoStatus(assetId);
-            if (videoReady) {
-              // ✅ LIFECYCLE LOG: Job completed
-              console.log(`[ugc] job_completed id=${assetId} elapsed=${elapsedSeconds}s`);
-              return; // Chain complete
-            }
-          } catch (err: any) {
-            console.log(`[ugc] poll_error id=${assetId} step=generating_video error=${err.message}`);
-          }
+  // GET /api/user/timezone - The user's timezone, the workspace default and the one in effect
+  app.get("/api/user/timezone", requireAuth, async (req, res) => {
+    try {
+      res.json(await workspaceService.getTimeZoneSettings(req.userId!, req.workspaceId));
+    } catch (error: any) {
+      console.error("[Timezone] Error fetching timezone:", error);
+      res.status(500).json({
+        error: "Failed to fetch timezone",
+        details: error.message,
+      });
+    }
+  });
 
-        } else if (step === 'completed') {
-          console.log(`[ugc] job_completed id=${assetId} elapsed=${elapsedSeconds}s (already)`);
-          return;
+  // PUT /api/user/timezone - Set the user's own timezone (null follows the workspace)
+  app.put("/api/user/timezone", requireAuth, async (req, res) => {
+    try {
+      const validation = updateTimezoneSchema.safeParse(req.body);
 
-        } else if (step === 'error') {
-          console.log(`[ugc] job_failed id=${assetId} reason=${chainMetadata.error || 'unknown'}`);
-          return;
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors,
+        });
+      }
 
-        } else {
-          // Unknown step - this shouldn't happen
-          console.log(`[ugc] poll_unknown_step id=${assetId} step=${step}`);
-        }
+      const updatedUser = await storage.updateUser(req.userId!, { timezone: validation.data.timezone });
 
-        // Continue polling
+      if (!updatedUser) {
+        return res.status(404).json({ error: "User not found" });
       }
 
-      // Max attempts reached - fail the job
-      console.log(`[ugc] job_timeout id=${assetId} after=${Math.round((Date.now() - startTime)/1000)}s reason=max_attempts`);
-      await ugcChainService.handleChainError(assetId, 'error' as any, 'Provider timeout. Please try again.');
+      console.log(`[Timezone] User ${req.userId} timezone: ${validation.data.timezone ?? "workspace default"}`);
 
+      res.json(await workspaceService.getTimeZoneSettings(req.userId!, req.workspaceId));
     } catch (error: any) {
-      // ✅ LIFECYCLE LOG: Fatal error
-      console.log(`[ugc] job_failed id=${assetId} reason=fatal_error error=${error.message}`);
-      await ugcChainService.handleChainError(assetId, 'error' as any, error.message);
+      console.error("[Timezone] Error updating timezone:", error);
+      res.status(500).json({
+        error: "Failed to update timezone",
+        details: error.message,
+      });
     }
-  }
-
-  /**
-   * Background function to process media generation
-   * Polls KIE API until complete with hard timeout
-   *
-   * TIMEOUT: 3 minutes for direct generation (Mode B/C)
-   */
-  async function processMediaGeneration(
-    assetId: string,
-    params: {
-      provider: string;
-      type: string;
-      prompt: string;
-      referenceImageUrl?: string;
-      options?: any;
-    }
-  ): Promise<void> {
-    // ✅ PHASE 5: Check if this is a chain workflow
-    const asset = await storage.getMediaAsset(assetId);
-    if (asset?.generationMode === 'nanobana+veo3') {
-      return processChainWorkflow(assetId);
-    }
-
-    const maxAttempts = 24; // 24 * 15s = 6 minutes max (gives buffer)
-    const pollInterval = 15000; // 15 seconds (faster detection)
-    const timeoutMs = 3 * 60 * 1000; // 3 minutes hard timeout
-    const startTime = Date.now();
-    // ✅ STABILIZATION: Single attempt for Sora2 (fallback handles failures), retry for others
-    const maxRetries = (params.provider === 'sora2') ? 1 : 2;
-    let retryCount = 0;
-
-    // ✅ LIFECYCLE LOG: Job started
-    console.log(`[ugc] job_created id=${assetId} provider=${params.provider} mode=direct`);
+  });
 
+  // POST /api/caption/generate - Generate AI caption for a specific project
+  app.post("/api/caption/generate", requireAuth, requireWorkspaceRole('editor'), checkCredits('caption_generate'), async (req, res) => {
     try {
-      // Step 1: Start generation (single attempt for Sora2, limited retries for others)
-      let generationResult;
-      let lastError: Error | null = null;
+      const { generateCaptionSchema } = await import("./validators/caption.js");
+      const validation = generateCaptionSchema.safeParse(req.body);
 
-      while (retryCount < maxRetries) {
-        try {
-          generationResult = await generateMedia(params);
-          console.log('[Media Generation] Generation started:', {
-            assetId,
-            taskId: generationResult.taskId,
-            status: generationResult.status,
-          });
-          break; // Success, exit retry loop
-        } catch (error: any) {
-          lastError = error;
-          retryCount++;
-          console.error(`[Media Generation] Attempt ${retryCount}/${maxRetries} failed:`, error);
-
-          if (retryCount < maxRetries) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-          }
-        }
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors,
+        });
       }
 
-      // If initial generation failed
-      if (!generationResult) {
-        throw lastError || new Error('Failed to start generation');
+      const { projectId, customPrompt } = validation.data;
+
+      // Get the project
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
       }
 
-      // Update asset with taskId
-      await storage.updateMediaAsset(assetId, {
-        taskId: generationResult.taskId,
-        status: generationResult.status,
-        retryCount,
-      });
+      // Verify ownership
+      const task = await storage.getTask(project.taskId);
+      if (!task || task.userId !== req.userId) {
+        return res.status(404).json({ error: "Project not found" });
+      }
 
-      // If generation is already complete (e.g., Gemini Flash), update and return
-      if (generationResult.status === 'ready' && generationResult.resultUrl) {
-        await storage.updateMediaAsset(assetId, {
-          status: 'ready',
-          resultUrl: generationResult.resultUrl,
-          completedAt: new Date(),
-        });
-        console.log('[Media Generation] Completed synchronously:', { assetId });
-        return;
-      }
-
-      // ✅ STABILIZATION: Sora2 with automatic Veo3 fallback
-      // If Sora2 fails for any reason, automatically fall back to Veo3
-      if (params.provider === 'sora2' || generationResult.provider === 'kie-sora2') {
-        console.log(`[ugc] start job=${assetId} mode=sora2`);
-
-        // Helper: Fallback to Veo3 when Sora2 fails
-        const fallbackToVeo3 = async (reason: string) => {
-          console.log(`[ugc] sora2_failed reason=${reason}`);
-          console.log(`[ugc] fallback_to_veo3 job=${assetId}`);
-
-          // Update metadata to track fallback
-          const currentAsset = await storage.getMediaAsset(assetId);
-          await storage.updateMediaAsset(assetId, {
-            provider: 'kie-veo3',
-            status: 'processing',
-            errorMessage: null,
-            metadata: {
-              ...(currentAsset?.metadata || {}),
-              fallbackFrom: 'sora2',
-              fallbackTo: 'veo3-only',
-              fallbackReason: reason,
-            },
-          });
+      // Get user's caption settings
+      const user = await storage.getUser(req.userId!);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
 
-          // Clamp duration for Veo3 (max 20s for text-to-video)
-          const veo3Duration = Math.min(params.options?.duration || 10, 20);
+      console.log(`[Caption Generate] Generating caption for project ${projectId}`);
 
-          // Generate with Veo3 instead
-          try {
-            console.log(`[ugc] fallback_provider mode=veo3-only duration=${veo3Duration} aspect=9:16`);
-
-            const veo3Result = await generateMedia({
-              provider: 'kie-veo3',
-              type: 'video',
-              prompt: params.prompt,
-              referenceImageUrl: params.referenceImageUrl,
-              options: {
-                duration: veo3Duration,
-                model: 'veo3',
-                aspectRatio: '9:16', // ✅ EXPLICIT: Force vertical for UGC selfie videos
-              },
-            });
+      // Generate caption using OpenAI
+      const { openaiService } = await import("./services/openai.js");
+      const result = await openaiService.generateCaption({
+        projectName: project.name,
+        customPrompt,
+        userSystemPrompt: user.captionSystemPrompt || undefined,
+      });
 
-            // Update taskId to Veo3 task
-            await storage.updateMediaAsset(assetId, {
-              taskId: veo3Result.taskId,
-            });
+      // Deduct credits after successful caption generation (Phase 9: XPAND Credits)
+      await deductCreditsFromRequest(req, { projectId, type: 'caption' });
 
-            // Poll Veo3 for completion (reuse existing Veo3 polling logic)
-            const veo3TimeoutMs = 3 * 60 * 1000;
-            const veo3StartTime = Date.now();
-            let veo3Attempts = 0;
-
-            while (veo3Attempts < 12) {
-              const elapsed = Date.now() - veo3StartTime;
-              if (elapsed > veo3TimeoutMs) {
-                console.log(`[ugc] veo3_fallback_timeout job=${assetId}`);
-                await storage.updateMediaAsset(assetId, {
-                  status: 'error',
-                  errorMessage: 'Fallback provider also timed out.',
-                });
-                return;
-              }
+      res.json({
+        success: true,
+        caption: result.caption,
+        metadata: result.metadata,
+      });
+    } catch (error: any) {
+      console.error("[Caption Generate] Error generating caption:", error);
+      res.status(500).json({
+        error: "Failed to generate caption",
+        details: error.message,
+      });
+    }
+  });
 
-              await new Promise(resolve => setTimeout(resolve, 15000));
-              veo3Attempts++;
-
-              try {
-                const veo3Status = await checkMediaStatus(veo3Result.taskId, 'kie-veo3');
-                if (veo3Status.status === 'ready' && veo3Status.resultUrl) {
-                  await storage.updateMediaAsset(assetId, {
-                    status: 'ready',
-                    resultUrl: veo3Status.resultUrl,
-                    resultUrls: veo3Status.resultUrls,
-                    completedAt: new Date(),
-                  });
-                  console.log(`[ugc] completed job=${assetId} mode=veo3-only (fallback)`);
-                  return;
-                }
-                if (veo3Status.status === 'failed') {
-                  await storage.updateMediaAsset(assetId, {
-                    status: 'error',
-                    errorMessage: 'Fallback provider failed.',
-                  });
-                  return;
-                }
-              } catch (e: any) {
-                console.log(`[ugc] veo3_poll_error job=${assetId} error=${e.message}`);
-              }
-            }
+  // ========================================
+  // XPAND CREDITS API ENDPOINTS (Phase 9)
+  // ========================================
 
-            // Veo3 max attempts
-            await storage.updateMediaAsset(assetId, {
-              status: 'error',
-              errorMessage: 'Fallback provider timed out.',
-            });
-          } catch (veo3Err: any) {
-            console.log(`[ugc] veo3_fallback_failed job=${assetId} error=${veo3Err.message}`);
-            await storage.updateMediaAsset(assetId, {
-              status: 'error',
-              errorMessage: `Fallback failed: ${veo3Err.message}`,
-            });
-          }
-        };
+  // GET /api/credits - Get the active workspace's credit balance and stats
+  app.get('/api/credits', requireAuth, async (req, res) => {
+    try {
+      // Workspace credit pool (the owner's balance)
+      const userId = req.creditAccountId!;
 
-        // Sora2 polling with 180s hard timeout, single attempt
-        const sora2TimeoutMs = 180 * 1000;
-        let sora2PollAttempts = 0;
+      // Get or initialize user credits
+      let credits = await creditService.getUserCredits(userId);
+      if (!credits) {
+        credits = await creditService.initializeUserCredits(userId);
+      }
 
-        while (sora2PollAttempts < 12) {
-          const elapsed = Date.now() - startTime;
+      // Credits held by in-flight generations aren't spendable
+      // Plan credits (expire) vs top-ups (never expire) - both count toward balance
+      const planCredits = Math.min(credits.grantBalance, credits.balance);
+      res.json({
+        balance: credits.balance - credits.reserved,
+        reserved: credits.reserved,
+        planCredits,
+        topUpCredits: credits.balance - planCredits,
+        lifetimePurchased: credits.lifetimePurchased,
+        lifetimeUsed: credits.lifetimeUsed,
+      });
+    } catch (error: any) {
+      console.error('[Credits] Error fetching balance:', error);
+      res.status(500).json({ error: 'Failed to fetch credit balance', details: error.message });
+    }
+  });
 
-          if (elapsed > sora2TimeoutMs) {
-            await fallbackToVeo3('timeout');
-            return;
-          }
+  // GET /api/credits/history - Get the workspace credit pool's transaction history
+  app.get('/api/credits/history', requireAuth, async (req, res) => {
+    try {
+      const userId = req.creditAccountId!;
+      const limit = parseInt(req.query.limit as string) || 50;
 
-          await new Promise(resolve => setTimeout(resolve, 15000));
-          sora2PollAttempts++;
+      const transactions = await creditService.getTransactionHistory(userId, limit);
 
-          // Check DB status (webhook may have updated)
-          const currentAsset = await storage.getMediaAsset(assetId);
+      res.json({ transactions });
+    } catch (error: any) {
+      console.error('[Credits] Error fetching history:', error);
+      res.status(500).json({ error: 'Failed to fetch transaction history', details: error.message });
+    }
+  });
 
-          if (currentAsset?.status === 'ready') {
-            console.log(`[ugc] completed job=${assetId} mode=sora2`);
-            return;
-          }
-          if (currentAsset?.status === 'error' || currentAsset?.status === 'failed') {
-            await fallbackToVeo3(currentAsset?.errorMessage || 'provider_error');
-            return;
-          }
+  // GET /api/credits/packages - Get available credit packages for purchase
+  app.get('/api/credits/packages', async (req, res) => {
+    res.json({ packages: creditService.CREDIT_PACKAGES });
+  });
 
-          // Poll KIE directly
-          try {
-            const statusResult = await checkMediaStatus(generationResult.taskId, 'kie-sora2' as any);
-            if (statusResult.status === 'ready' && statusResult.resultUrl) {
-              await storage.updateMediaAsset(assetId, {
-                status: 'ready',
-                resultUrl: statusResult.resultUrl,
-                resultUrls: statusResult.resultUrls,
-                completedAt: new Date(),
-              });
-              console.log(`[ugc] completed job=${assetId} mode=sora2`);
-              return;
-            }
-            if (statusResult.status === 'failed') {
-              await fallbackToVeo3('sora2_provider_failed');
-              return;
-            }
-          } catch (pollErr: any) {
-            // Continue polling unless timeout
-          }
-        }
+  // GET /api/credits/plans - Get monthly subscription plans (Feb 2026)
+  app.get('/api/credits/plans', async (req, res) => {
+    res.json({ plans: creditService.SUBSCRIPTION_PLANS });
+  });
 
-        // Max attempts without success → fallback
-        await fallbackToVeo3('max_attempts');
-        return;
-      }
+  // GET /api/credits/subscription - Get user's current plan subscription
+  app.get('/api/credits/subscription', requireAuth, async (req, res) => {
+    try {
+      const summary = await subscriptionService.getSubscriptionSummary(req.creditAccountId!);
+      res.json({ subscription: summary?.subscription ?? null, plan: summary?.plan ?? null });
+    } catch (error: any) {
+      console.error('[Credits] Error fetching subscription:', error);
+      res.status(500).json({ error: 'Failed to fetch subscription', details: error.message });
+    }
+  });
 
-      // Step 2: Poll for completion (Veo3)
-      let pollAttempts = 0;
-      console.log(`[ugc] poll_start id=${assetId} provider=${params.provider} max_time=180s`);
+  // POST /api/credits/subscribe - Create Stripe checkout session for a monthly plan
+  app.post('/api/credits/subscribe', requireAuth, requireWorkspaceRole('owner'), async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const { planId } = req.body;
 
-      while (pollAttempts < maxAttempts) {
-        const elapsed = Date.now() - startTime;
-        const elapsedSeconds = Math.round(elapsed / 1000);
+      if (!planId) {
+        return res.status(400).json({ error: 'planId is required' });
+      }
 
-        // Check timeout
-        if (elapsed > timeoutMs) {
-          console.log(`[ugc] job_timeout id=${assetId} after=${elapsedSeconds}s reason=veo3_timeout`);
-          await storage.updateMediaAsset(assetId, {
-            status: 'error',
-            errorMessage: 'Provider timeout. Please try again.',
-          });
-          return;
-        }
+      const plan = creditService.getSubscriptionPlan(planId);
+      if (!plan) {
+        return res.status(400).json({
+          error: 'Invalid plan',
+          validPlans: creditService.SUBSCRIPTION_PLANS.map(p => p.id),
+        });
+      }
 
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
-        pollAttempts++;
+      // Plan changes and cancellation go through the Stripe portal
+      const current = await subscriptionService.getCurrentSubscription(userId);
+      if (current) {
+        return res.status(400).json({
+          error: 'Already subscribed',
+          details: 'Change or cancel your current plan from the billing portal.',
+          currentPlanId: current.planId,
+        });
+      }
 
-        // ✅ LIFECYCLE LOG: Poll status
-        console.log(`[ugc] poll_status id=${assetId} attempt=${pollAttempts}/${maxAttempts} elapsed=${elapsedSeconds}s`);
+      const user = await storage.getUser(userId);
+      if (!user || !user.email) {
+        return res.status(404).json({ error: 'User not found or missing email' });
+      }
 
-        try {
-          const statusResult = await checkMediaStatus(
-            generationResult.taskId,
-            params.provider as any
-          );
+      const origin = req.headers.origin || req.headers.referer?.split('/').slice(0, 3).join('/');
+      const frontendUrl = process.env.FRONTEND_URL || origin || 'http://localhost:5000';
+      const successUrl = `${frontendUrl}/billing/success?session_id={CHECKOUT_SESSION_ID}`;
+      const cancelUrl = `${frontendUrl}/settings/billing`;
 
-          // Handle completion
-          if (statusResult.status === 'ready') {
-            const resultUrls = statusResult.resultUrls || [];
+      console.log('[Credits Subscribe] Creating checkout:', {
+        userId,
+        planId,
+        monthlyCredits: plan.monthlyCredits,
+        priceUsd: plan.priceUsd,
+      });
 
-            // Validate we have at least one URL
-            if (resultUrls.length === 0) {
-              // Ready but no URLs - continue polling
-              continue;
-            }
+      const session = await stripeService.createPlanCheckoutSession({
+        userId,
+        userEmail: user.email,
+        stripeCustomerId: user.stripeCustomerId,
+        planId,
+        successUrl,
+        cancelUrl,
+      });
 
-            const finalResultUrl = resultUrls[0];
+      res.json({
+        success: true,
+        sessionId: session.sessionId,
+        url: session.url,
+        plan: {
+          id: plan.id,
+          name: plan.name,
+          monthlyCredits: plan.monthlyCredits,
+          priceUsd: plan.priceUsd,
+        },
+      });
+    } catch (error: any) {
+      console.error('[Credits Subscribe] Error:', error);
+      res.status(500).json({
+        error: 'Failed to create checkout session',
+        details: error.message,
+      });
+    }
+  });
 
-            await storage.updateMediaAsset(assetId, {
-              status: 'ready',
-              resultUrl: finalResultUrl,
-              completedAt: new Date(),
-              resultUrls: resultUrls,
-            });
+  // POST /api/credits/purchase - Create Stripe checkout session for credit purchase
+  app.post('/api/credits/purchase', requireAuth, requireWorkspaceRole('owner'), async (req, res) => {
+    try {
+      const userId = req.userId!;
+      const { packageId } = req.body;
 
-            // ✅ LIFECYCLE LOG: Job completed
-            console.log(`[ugc] job_completed id=${assetId} elapsed=${elapsedSeconds}s`);
-            return;
-          }
+      if (!packageId) {
+        return res.status(400).json({ error: 'packageId is required' });
+      }
 
-          if (statusResult.status === 'failed' || statusResult.status === 'error') {
-            await storage.updateMediaAsset(assetId, {
-              status: 'error',
-              errorMessage: statusResult.metadata?.errorMessage || 'Provider error',
-            });
+      // Validate package exists
+      const creditPackage = creditService.getCreditPackage(packageId);
+      if (!creditPackage) {
+        return res.status(400).json({
+          error: 'Invalid package',
+          validPackages: creditService.CREDIT_PACKAGES.map(p => p.id),
+        });
+      }
 
-            // ✅ LIFECYCLE LOG: Job failed
-            console.log(`[ugc] job_failed id=${assetId} reason=provider_error`);
-            return;
-          }
+      // Get user email
+      const user = await storage.getUser(userId);
+      if (!user || !user.email) {
+        return res.status(404).json({ error: 'User not found or missing email' });
+      }
 
-          // Still processing - continue polling
-        } catch (error: any) {
-          console.log(`[ugc] poll_error id=${assetId} error=${error.message}`);
+      // Build success/cancel URLs
+      const origin = req.headers.origin || req.headers.referer?.split('/').slice(0, 3).join('/');
+      const frontendUrl = process.env.FRONTEND_URL || origin || 'http://localhost:5000';
+      const successUrl = `${frontendUrl}/billing/success?session_id={CHECKOUT_SESSION_ID}`;
+      const cancelUrl = `${frontendUrl}/settings/billing`;
 
-          // Don't fail immediately on polling errors, just log and continue
-          // Only fail if we've exhausted all attempts
-          if (pollAttempts >= maxAttempts) {
-            throw error;
-          }
-        }
-      }
+      console.log('[Credits Purchase] Creating checkout:', {
+        userId,
+        packageId,
+        credits: creditPackage.credits,
+        priceUsd: creditPackage.priceUsd,
+      });
 
-      // Max polling attempts reached
-      console.log(`[ugc] job_timeout id=${assetId} after=${Math.round((Date.now() - startTime)/1000)}s reason=max_attempts`);
-      await storage.updateMediaAsset(assetId, {
-        status: 'error',
-        errorMessage: 'Provider timeout. Please try again.',
+      // Create Stripe checkout session
+      const session = await stripeService.createCreditCheckoutSession({
+        userId,
+        userEmail: user.email,
+        packageId,
+        successUrl,
+        cancelUrl,
       });
 
+      res.json({
+        success: true,
+        sessionId: session.sessionId,
+        url: session.url,
+        package: {
+          id: creditPackage.id,
+          name: creditPackage.name,
+          credits: creditPackage.credits,
+          priceUsd: creditPackage.priceUsd,
+        },
+      });
     } catch (error: any) {
-      // ✅ LIFECYCLE LOG: Fatal error
-      console.log(`[ugc] job_failed id=${assetId} reason=fatal_error error=${error.message}`);
+      console.error('[Credits Purchase] Error:', error);
+      res.status(500).json({
+        error: 'Failed to create checkout session',
+        details: error.message,
+      });
+    }
+  });
 
-      // Update asset with error status
-      try {
-        await storage.updateMediaAsset(assetId, {
-          status: 'error',
-          errorMessage: error.message || 'Unknown error occurred',
-        });
-      } catch (updateError) {
-        console.log(`[ugc] db_error id=${assetId} error=failed_to_update_status`);
-      }
+  // GET /api/credits/pricing - Get feature credit costs
+  app.get('/api/credits/pricing', async (req, res) => {
+    try {
+      const pricing = await creditService.getAllPricing();
+      res.json({ pricing });
+    } catch (error: any) {
+      console.error('[Credits] Error fetching pricing:', error);
+      res.status(500).json({ error: 'Failed to fetch pricing', details: error.message });
     }
-  }
+  });
 
   // ========================================
-  // AI CAPTION GENERATION ENDPOINTS (Phase 2)
+  // WORKSPACE ENDPOINTS (Feb 2026)
   // ========================================
 
-  // GET /api/user/caption-settings - Get user's caption generation settings
-  app.get("/api/user/caption-settings", requireAuth, async (req, res) => {
+  // GET /api/workspaces - Workspaces the user belongs to, the active one, and invitations for them
+  app.get('/api/workspaces', requireAuth, async (req, res) => {
     try {
       const user = await storage.getUser(req.userId!);
+      const [workspaces, invitations] = await Promise.all([
+        workspaceService.listUserWorkspaces(req.userId!),
+        user?.email ? workspaceService.listInvitationsForEmail(user.email) : Promise.resolve([]),
+      ]);
 
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      // Invitations addressed to this user carry their token so they can accept in the app
+      res.json({ workspaces, activeWorkspaceId: req.workspaceId, invitations });
+    } catch (error: any) {
+      console.error('[Workspaces] Error listing workspaces:', error);
+      res.status(500).json({ error: 'Failed to fetch workspaces', details: error.message });
+    }
+  });
+
+  // PATCH /api/workspaces/current - Rename the active workspace (owner only)
+  app.patch('/api/workspaces/current', requireAuth, requireWorkspaceRole('owner'), async (req, res) => {
+    try {
+      const validation = renameWorkspaceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid workspace name',
+          details: validation.error.errors,
+        });
       }
 
-      res.json({
-        systemPrompt: user.captionSystemPrompt || "Write an engaging Instagram caption for this video. Be creative, use relevant emojis, and include a call-to-action.",
-        autoGenerate: user.captionAutoGenerate === "true",
-      });
+      const workspace = await workspaceService.renameWorkspace(req.workspaceId!, validation.data.name);
+      res.json({ workspace });
     } catch (error: any) {
-      console.error("[Caption Settings] Error fetching settings:", error);
-      res.status(500).json({
-        error: "Failed to fetch caption settings",
-        details: error.message,
-      });
+      console.error('[Workspaces] Error renaming workspace:', error);
+      res.status(500).json({ error: 'Failed to rename workspace', details: error.message });
     }
   });
 
-  // PUT /api/user/caption-settings - Update user's caption generation settings
-  app.put("/api/user/caption-settings", requireAuth, async (req, res) => {
+  // PUT /api/workspaces/current/timezone - Default timezone for members without their own (admin)
+  app.put('/api/workspaces/current/timezone', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
     try {
-      const { updateCaptionSettingsSchema } = await import("./validators/caption.js");
-      const validation = updateCaptionSettingsSchema.safeParse(req.body);
-
+      const validation = updateTimezoneSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
-          error: "Validation failed",
+          error: 'Invalid timezone',
           details: validation.error.errors,
         });
       }
 
-      const { systemPrompt, autoGenerate } = validation.data;
-      const updates: any = {};
+      const workspace = await workspaceService.setWorkspaceTimezone(req.workspaceId!, validation.data.timezone);
+      res.json({ workspace });
+    } catch (error: any) {
+      console.error('[Workspaces] Error setting timezone:', error);
+      res.status(500).json({ error: 'Failed to set workspace timezone', details: error.message });
+    }
+  });
 
-      if (systemPrompt !== undefined) {
-        updates.captionSystemPrompt = systemPrompt;
-      }
+  // GET /api/workspaces/current/members - Members and pending invitations of the active workspace
+  app.get('/api/workspaces/current/members', requireAuth, async (req, res) => {
+    try {
+      const [members, invitations] = await Promise.all([
+        workspaceService.listMembers(req.workspaceId!),
+        hasWorkspaceRole(req.workspaceRole!, 'admin')
+          ? workspaceService.listPendingInvitations(req.workspaceId!)
+          : Promise.resolve([]),
+      ]);
 
-      if (autoGenerate !== undefined) {
-        updates.captionAutoGenerate = autoGenerate ? "true" : "false";
-      }
+      res.json({
+        members,
+        // Tokens only go out by email
+        invitations: invitations.map(({ token, ...invitation }) => invitation),
+        role: req.workspaceRole,
+      });
+    } catch (error: any) {
+      console.error('[Workspaces] Error listing members:', error);
+      res.status(500).json({ error: 'Failed to fetch members', details: error.message });
+    }
+  });
 
-      const updatedUser = await storage.updateUser(req.userId!, updates);
+  // POST /api/workspaces/current/invitations - Invite someone by email (admin)
+  app.post('/api/workspaces/current/invitations', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
+    try {
+      const validation = inviteMemberSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid invitation',
+          details: validation.error.errors,
+        });
+      }
 
-      if (!updatedUser) {
-        return res.status(404).json({ error: "User not found" });
+      const { email, role } = validation.data;
+      const result = await workspaceService.createInvitation(req.workspaceId!, email, role, req.userId!);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
       }
 
-      console.log(`[Caption Settings] Updated for user ${req.userId}`);
+      const { token, ...invitation } = result.value;
+      const [inviter, workspace] = await Promise.all([
+        storage.getUser(req.userId!),
+        workspaceService.getWorkspace(req.workspaceId!),
+      ]);
 
-      res.json({
-        success: true,
-        systemPrompt: updatedUser.captionSystemPrompt,
-        autoGenerate: updatedUser.captionAutoGenerate === "true",
+      const origin = req.headers.origin || req.headers.referer?.split('/').slice(0, 3).join('/');
+      const frontendUrl = process.env.FRONTEND_URL || origin || 'http://localhost:5000';
+
+      const { sendWorkspaceInvitation } = await import('./services/resendService');
+      const sent = await sendWorkspaceInvitation({
+        email: invitation.email,
+        workspaceName: workspace?.name ?? 'a workspace',
+        inviterName: inviter?.fullName || inviter?.email || 'A teammate',
+        role,
+        acceptUrl: `${frontendUrl}/settings/workspace?invite=${token}`,
       });
+
+      res.json({ invitation, emailSent: sent.success });
     } catch (error: any) {
-      console.error("[Caption Settings] Error updating settings:", error);
-      res.status(500).json({
-        error: "Failed to update caption settings",
-        details: error.message,
-      });
+      console.error('[Workspaces] Error creating invitation:', error);
+      res.status(500).json({ error: 'Failed to create invitation', details: error.message });
     }
   });
 
-  // POST /api/caption/generate - Generate AI caption for a specific project
-  app.post("/api/caption/generate", requireAuth, checkCredits('caption_generate'), async (req, res) => {
+  // DELETE /api/workspaces/current/invitations/:id - Revoke a pending invitation (admin)
+  app.delete('/api/workspaces/current/invitations/:id', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
     try {
-      const { generateCaptionSchema } = await import("./validators/caption.js");
-      const validation = generateCaptionSchema.safeParse(req.body);
+      const revoked = await workspaceService.revokeInvitation(req.workspaceId!, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Workspaces] Error revoking invitation:', error);
+      res.status(500).json({ error: 'Failed to revoke invitation', details: error.message });
+    }
+  });
 
+  // PATCH /api/workspaces/current/members/:userId - Change a member's role (admin)
+  app.patch('/api/workspaces/current/members/:userId', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
+    try {
+      const validation = updateMemberRoleSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
-          error: "Validation failed",
+          error: 'Invalid role',
           details: validation.error.errors,
         });
       }
 
-      const { projectId, customPrompt } = validation.data;
+      const result = await workspaceService.updateMemberRole(req.workspaceId!, req.params.userId, validation.data.role);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ member: result.value });
+    } catch (error: any) {
+      console.error('[Workspaces] Error updating member role:', error);
+      res.status(500).json({ error: 'Failed to update member role', details: error.message });
+    }
+  });
 
-      // Get the project
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        return res.status(404).json({ error: "Project not found" });
+  // DELETE /api/workspaces/current/members/:userId - Remove a member (admin), or leave (self)
+  app.delete('/api/workspaces/current/members/:userId', requireAuth, async (req, res) => {
+    try {
+      const isSelf = req.params.userId === req.userId;
+      if (!isSelf && !hasWorkspaceRole(req.workspaceRole!, 'admin')) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'This action requires the admin role in this workspace.',
+        });
+      }
+
+      const result = await workspaceService.removeMember(req.workspaceId!, req.params.userId);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
       }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Workspaces] Error removing member:', error);
+      res.status(500).json({ error: 'Failed to remove member', details: error.message });
+    }
+  });
 
-      // Verify ownership
-      const task = await storage.getTask(project.taskId);
-      if (!task || task.userId !== req.userId) {
-        return res.status(404).json({ error: "Project not found" });
+  // POST /api/workspaces/invitations/accept - Join a workspace with an invitation token
+  app.post('/api/workspaces/invitations/accept', requireAuth, async (req, res) => {
+    try {
+      const validation = acceptInvitationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid invitation',
+          details: validation.error.errors,
+        });
       }
 
-      // Get user's caption settings
       const user = await storage.getUser(req.userId!);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      if (!user?.email) {
+        return res.status(404).json({ error: 'User not found or missing email' });
       }
 
-      console.log(`[Caption Generate] Generating caption for project ${projectId}`);
-
-      // Generate caption using OpenAI
-      const { openaiService } = await import("./services/openai.js");
-      const result = await openaiService.generateCaption({
-        projectName: project.name,
-        customPrompt,
-        userSystemPrompt: user.captionSystemPrompt || undefined,
-      });
-
-      // Deduct credits after successful caption generation (Phase 9: XPAND Credits)
-      await deductCreditsFromRequest(req, { projectId, type: 'caption' });
-
-      res.json({
-        success: true,
-        caption: result.caption,
-        metadata: result.metadata,
-      });
+      const result = await workspaceService.acceptInvitation(validation.data.token, req.userId!, user.email);
+      if (!result.ok) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ workspace: result.value });
     } catch (error: any) {
-      console.error("[Caption Generate] Error generating caption:", error);
-      res.status(500).json({
-        error: "Failed to generate caption",
-        details: error.message,
-      });
+      console.error('[Workspaces] Error accepting invitation:', error);
+      res.status(500).json({ error: 'Failed to accept invitation', details: error.message });
     }
   });
 
   // ========================================
-  // XPAND CREDITS API ENDPOINTS (Phase 9)
+  // API KEY ENDPOINTS (Feb 2026)
   // ========================================
 
-  // GET /api/credits - Get user's current credit balance and stats
-  app.get('/api/credits', requireAuth, async (req, res) => {
+  // GET /api/api-keys - The user's API keys for the active workspace
+  app.get('/api/api-keys', requireAuth, async (req, res) => {
     try {
-      const userId = req.userId!;
+      const apiKeys = await apiKeyService.listApiKeys(req.userId!, req.workspaceId!);
+      res.json({ apiKeys });
+    } catch (error: any) {
+      console.error('[ApiKeys] Error listing API keys:', error);
+      res.status(500).json({ error: 'Failed to fetch API keys', details: error.message });
+    }
+  });
 
-      // Get or initialize user credits
-      let credits = await creditService.getUserCredits(userId);
-      if (!credits) {
-        credits = await creditService.initializeUserCredits(userId);
+  // POST /api/api-keys - Create a key (the secret is only in this response)
+  app.post('/api/api-keys', requireAuth, async (req, res) => {
+    try {
+      const validation = createApiKeySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid API key',
+          details: validation.error.errors,
+        });
       }
 
-      res.json({
-        balance: credits.balance,
-        lifetimePurchased: credits.lifetimePurchased,
-        lifetimeUsed: credits.lifetimeUsed,
-      });
+      const { apiKey, secret } = await apiKeyService.createApiKey(req.userId!, req.workspaceId!, validation.data);
+      res.status(201).json({ apiKey, secret });
     } catch (error: any) {
-      console.error('[Credits] Error fetching balance:', error);
-      res.status(500).json({ error: 'Failed to fetch credit balance', details: error.message });
+      console.error('[ApiKeys] Error creating API key:', error);
+      res.status(500).json({ error: 'Failed to create API key', details: error.message });
     }
   });
 
-  // GET /api/credits/history - Get user's credit transaction history
-  app.get('/api/credits/history', requireAuth, async (req, res) => {
+  // DELETE /api/api-keys/:id - Revoke one of the user's keys
+  app.delete('/api/api-keys/:id', requireAuth, async (req, res) => {
     try {
-      const userId = req.userId!;
-      const limit = parseInt(req.query.limit as string) || 50;
-
-      const transactions = await creditService.getTransactionHistory(userId, limit);
-
-      res.json({ transactions });
+      const revoked = await apiKeyService.revokeApiKey(req.userId!, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+      res.json({ success: true });
     } catch (error: any) {
-      console.error('[Credits] Error fetching history:', error);
-      res.status(500).json({ error: 'Failed to fetch transaction history', details: error.message });
+      console.error('[ApiKeys] Error revoking API key:', error);
+      res.status(500).json({ error: 'Failed to revoke API key', details: error.message });
     }
   });
 
-  // GET /api/credits/packages - Get available credit packages for purchase
-  app.get('/api/credits/packages', async (req, res) => {
-    res.json({ packages: creditService.CREDIT_PACKAGES });
-  });
+  // ========================================
+  // WEBHOOK ENDPOINTS (Feb 2026)
+  // ========================================
 
-  // POST /api/credits/purchase - Create Stripe checkout session for credit purchase
-  app.post('/api/credits/purchase', requireAuth, async (req, res) => {
+  // GET /api/webhooks - The active workspace's webhook endpoints (admin)
+  app.get('/api/webhooks', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
     try {
-      const userId = req.userId!;
-      const { packageId } = req.body;
+      const endpoints = await webhookService.listEndpoints(req.workspaceId!);
+      res.json({ endpoints });
+    } catch (error: any) {
+      console.error('[Webhooks] Error listing endpoints:', error);
+      res.status(500).json({ error: 'Failed to fetch webhooks', details: error.message });
+    }
+  });
 
-      if (!packageId) {
-        return res.status(400).json({ error: 'packageId is required' });
+  // POST /api/webhooks - Register an endpoint (the signing secret is only in this response)
+  app.post('/api/webhooks', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
+    try {
+      const validation = createWebhookEndpointSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid webhook',
+          details: validation.error.errors,
+        });
       }
 
-      // Validate package exists
-      const creditPackage = creditService.getCreditPackage(packageId);
-      if (!creditPackage) {
+      const { endpoint, secret } = await webhookService.createEndpoint(req.workspaceId!, req.userId!, validation.data);
+      res.status(201).json({ endpoint, secret });
+    } catch (error: any) {
+      console.error('[Webhooks] Error creating endpoint:', error);
+      res.status(500).json({ error: 'Failed to create webhook', details: error.message });
+    }
+  });
+
+  // PATCH /api/webhooks/:id - Change the URL, events, description or enable/disable
+  app.patch('/api/webhooks/:id', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
+    try {
+      const validation = updateWebhookEndpointSchema.safeParse(req.body);
+      if (!validation.success) {
         return res.status(400).json({
-          error: 'Invalid package',
-          validPackages: creditService.CREDIT_PACKAGES.map(p => p.id),
+          error: 'Invalid webhook',
+          details: validation.error.errors,
         });
       }
 
-      // Get user email
-      const user = await storage.getUser(userId);
-      if (!user || !user.email) {
-        return res.status(404).json({ error: 'User not found or missing email' });
+      const endpoint = await webhookService.updateEndpoint(req.workspaceId!, req.params.id, validation.data);
+      if (!endpoint) {
+        return res.status(404).json({ error: 'Webhook not found' });
       }
+      res.json({ endpoint });
+    } catch (error: any) {
+      console.error('[Webhooks] Error updating endpoint:', error);
+      res.status(500).json({ error: 'Failed to update webhook', details: error.message });
+    }
+  });
 
-      // Build success/cancel URLs
-      const origin = req.headers.origin || req.headers.referer?.split('/').slice(0, 3).join('/');
-      const frontendUrl = process.env.FRONTEND_URL || origin || 'http://localhost:5000';
-      const successUrl = `${frontendUrl}/billing/success?session_id={CHECKOUT_SESSION_ID}`;
-      const cancelUrl = `${frontendUrl}/settings/billing`;
-
-      console.log('[Credits Purchase] Creating checkout:', {
-        userId,
-        packageId,
-        credits: creditPackage.credits,
-        priceUsd: creditPackage.priceUsd,
-      });
-
-      // Create Stripe checkout session
-      const session = await stripeService.createCreditCheckoutSession({
-        userId,
-        userEmail: user.email,
-        packageId,
-        successUrl,
-        cancelUrl,
-      });
+  // DELETE /api/webhooks/:id - Remove an endpoint and its delivery history
+  app.delete('/api/webhooks/:id', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
+    try {
+      const deleted = await webhookService.deleteEndpoint(req.workspaceId!, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('[Webhooks] Error deleting endpoint:', error);
+      res.status(500).json({ error: 'Failed to delete webhook', details: error.message });
+    }
+  });
 
-      res.json({
-        success: true,
-        sessionId: session.sessionId,
-        url: session.url,
-        package: {
-          id: creditPackage.id,
-          name: creditPackage.name,
-          credits: creditPackage.credits,
-          priceUsd: creditPackage.priceUsd,
-        },
-      });
+  // GET /api/webhooks/:id/deliveries - Recent deliveries to an endpoint
+  app.get('/api/webhooks/:id/deliveries', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const deliveries = await webhookService.listDeliveries(req.workspaceId!, req.params.id, limit);
+      if (!deliveries) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      res.json({ deliveries });
     } catch (error: any) {
-      console.error('[Credits Purchase] Error:', error);
-      res.status(500).json({
-        error: 'Failed to create checkout session',
-        details: error.message,
-      });
+      console.error('[Webhooks] Error listing deliveries:', error);
+      res.status(500).json({ error: 'Failed to fetch deliveries', details: error.message });
     }
   });
 
-  // GET /api/credits/pricing - Get feature credit costs
-  app.get('/api/credits/pricing', async (req, res) => {
+  // POST /api/webhooks/:id/test - Send a webhook.test event now
+  app.post('/api/webhooks/:id/test', requireAuth, requireWorkspaceRole('admin'), async (req, res) => {
     try {
-      const pricing = await creditService.getAllPricing();
-      res.json({ pricing });
+      const delivery = await webhookService.sendTestEvent(req.workspaceId!, req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      res.json({ delivery });
     } catch (error: any) {
-      console.error('[Credits] Error fetching pricing:', error);
-      res.status(500).json({ error: 'Failed to fetch pricing', details: error.message });
+      console.error('[Webhooks] Error sending test event:', error);
+      res.status(500).json({ error: 'Failed to send test event', details: error.message });
     }
   });
 
@@ -3382,6 +3296,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/admin/credits/margins - Credits charged vs. provider cost (admin)
+  app.get('/api/admin/credits/margins', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+
+      if (days < 1 || days > 365) {
+        return res.status(400).json({ error: 'days must be between 1 and 365' });
+      }
+
+      const report = await costTrackingService.getMarginReport(days);
+      res.json({ report });
+    } catch (error: any) {
+      console.error('[Admin] Error building margin report:', error);
+      res.status(500).json({ error: 'Failed to build margin report', details: error.message });
+    }
+  });
+
   // POST /api/admin/credits/:userId - Add credits to a user (admin)
   app.post('/api/admin/credits/:userId', requireAuth, requireAdmin, async (req, res) => {
     try {
@@ -3442,6 +3373,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========================================
+  // ADMIN FAILOVER POLICY ENDPOINTS (Feb 2026)
+  // ========================================
+
+  // GET /api/admin/failover-policies - Provider failover chain per UGC mode (admin)
+  app.get('/api/admin/failover-policies', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const policies = await failoverService.getFailoverPolicies();
+      res.json({ policies });
+    } catch (error: any) {
+      console.error('[Admin] Error fetching failover policies:', error);
+      res.status(500).json({ error: 'Failed to fetch failover policies', details: error.message });
+    }
+  });
+
+  // PUT /api/admin/failover-policies/:mode - Replace a mode's failover policy (admin)
+  app.put('/api/admin/failover-policies/:mode', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { mode } = req.params;
+      if (!isUgcGenerationMode(mode)) {
+        return res.status(404).json({ error: 'Unknown generation mode' });
+      }
+
+      const validation = failoverPolicySchema(mode).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid failover policy',
+          details: validation.error.errors,
+        });
+      }
+
+      const policy = await failoverService.saveFailoverPolicy({ mode, ...validation.data });
+      res.json({ success: true, policy });
+    } catch (error: any) {
+      console.error('[Admin] Error updating failover policy:', error);
+      res.status(500).json({ error: 'Failed to update failover policy', details: error.message });
+    }
+  });
+
+  // DELETE /api/admin/failover-policies/:mode - Reset a mode to the default policy (admin)
+  app.delete('/api/admin/failover-policies/:mode', requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { mode } = req.params;
+      if (!isUgcGenerationMode(mode)) {
+        return res.status(404).json({ error: 'Unknown generation mode' });
+      }
+
+      const policy = await failoverService.resetFailoverPolicy(mode);
+      res.json({ success: true, policy });
+    } catch (error: any) {
+      console.error('[Admin] Error resetting failover policy:', error);
+      res.status(500).json({ error: 'Failed to reset failover policy', details: error.message });
+    }
+  });
+
   // ========================================
   // ADMIN STRIPE SETTINGS ENDPOINTS
   // ========================================
@@ -3638,8 +3624,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/stripe/webhook - Handle Stripe webhook events (PUBLIC endpoint)
-  // IMPORTANT: Uses raw body for signature verification
-  app.post('/api/stripe/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
+  // IMPORTANT: Verifies the exact request bytes (req.rawBody, kept by the JSON parser)
+  app.post('/api/stripe/webhook', async (req, res) => {
     const signature = req.headers['stripe-signature'];
 
     if (!signature) {
@@ -3647,9 +3633,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ error: 'Missing stripe-signature header' });
     }
 
+    if (!req.rawBody) {
+      console.error('[Stripe Webhook] Missing request body');
+      return res.status(400).json({ error: 'Missing request body' });
+    }
+
     try {
       // Verify webhook signature
-      const event = stripeService.verifyWebhookSignature(req.body, signature as string);
+      const event = stripeService.verifyWebhookSignature(req.rawBody, signature as string);
 
       console.log('[Stripe Webhook] Received event:', {
         eventId: event.id,
@@ -3689,6 +3680,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           break;
         }
 
+        case 'invoice.paid': {
+          const invoice = event.data.object as Stripe.Invoice;
+          await subscriptionService.handleInvoicePaid(invoice);
+          break;
+        }
+
         case 'invoice.payment_failed': {
           const invoice = event.data.object as Stripe.Invoice;
           await handlePaymentFailed(invoice);
@@ -3764,7 +3761,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ---- Channel Configs ----
 
   // POST /api/content-engine/configs - Create a new channel config
-  app.post('/api/content-engine/configs', requireAuth, async (req, res) => {
+  app.post('/api/content-engine/configs', requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
 
@@ -3792,6 +3789,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const config = await storage.createChannelConfig({
         ...validation.data,
         userId,
+        workspaceId: req.workspaceId!,
       });
 
       console.log('[Content Engine] Channel config created:', config.id);
@@ -3807,7 +3805,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/content-engine/configs', requireAuth, async (req, res) => {
     try {
       const userId = req.userId!;
-      const configs = await storage.getChannelConfigsByUser(userId);
+      const configs = await storage.getChannelConfigsByWorkspace(workspaceScope(req));
       res.json({ configs });
     } catch (error: any) {
       console.error('[Content Engine] Error fetching configs:', error);
@@ -3821,7 +3819,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.userId!;
       const config = await storage.getChannelConfig(req.params.id);
 
-      if (!config || config.userId !== userId) {
+      if (!config || !isInWorkspace(config, req.workspaceId!, userId)) {
         return res.status(404).json({ error: 'Channel config not found' });
       }
 
@@ -3833,13 +3831,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PUT /api/content-engine/configs/:id - Update a channel config
-  app.put('/api/content-engine/configs/:id', requireAuth, async (req, res) => {
+  app.put('/api/content-engine/configs/:id', requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
 
       // Check ownership
       const existing = await storage.getChannelConfig(req.params.id);
-      if (!existing || existing.userId !== userId) {
+      if (!existing || !isInWorkspace(existing, req.workspaceId!, userId)) {
         return res.status(404).json({ error: 'Channel config not found' });
       }
 
@@ -3873,10 +3871,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE /api/content-engine/configs/:id - Delete a channel config
-  app.delete('/api/content-engine/configs/:id', requireAuth, async (req, res) => {
+  app.delete('/api/content-engine/configs/:id', requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
-      const deleted = await storage.deleteChannelConfig(req.params.id, userId);
+      const deleted = await storage.deleteChannelConfig(req.params.id, workspaceScope(req));
 
       if (!deleted) {
         return res.status(404).json({ error: 'Channel config not found' });
@@ -3892,7 +3890,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ---- Scene Specs ----
 
   // POST /api/content-engine/generate-spec - Generate a SceneSpec from a channel config
-  app.post('/api/content-engine/generate-spec', requireAuth, async (req, res) => {
+  app.post('/api/content-engine/generate-spec', requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
 
@@ -3914,13 +3912,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Get and verify ownership of channel config
       const config = await storage.getChannelConfig(channelConfigId);
-      if (!config || config.userId !== userId) {
+      if (!config || !isInWorkspace(config, req.workspaceId!, userId)) {
         return res.status(404).json({ error: 'Channel config not found' });
       }
 
-      // Generate SceneSpec using LLM
+      // Generate SceneSpec using LLM (ID picked up front so the LLM cost is attributed to it)
+      const sceneSpecId = uuidv4();
       const { sceneSpecGenerator } = await import('./services/sceneSpecGenerator');
-      const result = await sceneSpecGenerator.generateFromConfig(config, durationOverride);
+      const result = await costTrackingService.runWithCostAttribution(
+        { sceneSpecId },
+        () => sceneSpecGenerator.generateFromConfig(config, durationOverride)
+      );
 
       if (!result.success || !result.sceneSpec) {
         return res.status(500).json({
@@ -3931,8 +3933,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Save to database
       const sceneSpec = await storage.createSceneSpec({
+        id: sceneSpecId,
         channelConfigId,
         userId,
+        workspaceId: req.workspaceId!,
         status: 'draft',
         title: result.sceneSpec.title,
         description: result.sceneSpec.description,
@@ -3962,7 +3966,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/content-engine/specs', requireAuth, async (req, res) => {
     try {
       const userId = req.userId!;
-      const specs = await storage.getSceneSpecsByUser(userId);
+      const specs = await storage.getSceneSpecsByWorkspace(workspaceScope(req));
       res.json({ specs });
     } catch (error: any) {
       console.error('[Content Engine] Error fetching specs:', error);
@@ -3976,7 +3980,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.userId!;
       const spec = await storage.getSceneSpec(req.params.id);
 
-      if (!spec || spec.userId !== userId) {
+      if (!spec || !isInWorkspace(spec, req.workspaceId!, userId)) {
         return res.status(404).json({ error: 'Scene spec not found' });
       }
 
@@ -3988,13 +3992,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PUT /api/content-engine/specs/:id - Update a scene spec
-  app.put('/api/content-engine/specs/:id', requireAuth, async (req, res) => {
+  app.put('/api/content-engine/specs/:id', requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
 
       // Check ownership
       const existing = await storage.getSceneSpec(req.params.id);
-      if (!existing || existing.userId !== userId) {
+      if (!existing || !isInWorkspace(existing, req.workspaceId!, userId)) {
         return res.status(404).json({ error: 'Scene spec not found' });
       }
 
@@ -4033,10 +4037,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE /api/content-engine/specs/:id - Delete a scene spec
-  app.delete('/api/content-engine/specs/:id', requireAuth, async (req, res) => {
+  app.delete('/api/content-engine/specs/:id', requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
-      const deleted = await storage.deleteSceneSpec(req.params.id, userId);
+      const deleted = await storage.deleteSceneSpec(req.params.id, workspaceScope(req));
 
       if (!deleted) {
         return res.status(404).json({ error: 'Scene spec not found' });
@@ -4050,12 +4054,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/content-engine/specs/:id/approve - Approve a scene spec for rendering
-  app.post('/api/content-engine/specs/:id/approve', requireAuth, async (req, res) => {
+  app.post('/api/content-engine/specs/:id/approve', requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
 
       const existing = await storage.getSceneSpec(req.params.id);
-      if (!existing || existing.userId !== userId) {
+      if (!existing || !isInWorkspace(existing, req.workspaceId!, userId)) {
         return res.status(404).json({ error: 'Scene spec not found' });
       }
 
@@ -4073,7 +4077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/content-engine/render/:id - Render a scene spec into a video
-  app.post('/api/content-engine/render/:id', requireAuth, async (req, res) => {
+  app.post('/api/content-engine/render/:id', requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
 
@@ -4101,7 +4105,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Get and verify ownership
       const sceneSpec = await storage.getSceneSpec(req.params.id);
-      if (!sceneSpec || sceneSpec.userId !== userId) {
+      if (!sceneSpec || !isInWorkspace(sceneSpec, req.workspaceId!, userId)) {
         return res.status(404).json({ error: 'Scene spec not found' });
       }
 
@@ -4132,13 +4136,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Credit check for Remotion renders (long-form is expensive)
+      let reservation: CreditReservation | null = null;
       if (useRemotionRenderer) {
         const {
           checkContentEngineCredits,
-          deductContentEngineCredits,
+          holdContentEngineCredits,
         } = await import('./services/creditService');
 
-        const creditCheck = await checkContentEngineCredits(userId, sceneSpec.targetDuration);
+        const creditCheck = await checkContentEngineCredits(req.creditAccountId!, sceneSpec.targetDuration);
         
         if (!creditCheck.hasEnough) {
           return res.status(402).json({
@@ -4150,25 +4155,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
 
-        // Deduct credits before starting render
-        const transaction = await deductContentEngineCredits(
-          userId,
+        // Hold credits until the render settles (charged when the video is ready)
+        reservation = await holdContentEngineCredits(
+          req.creditAccountId!,
           sceneSpec.targetDuration,
           sceneSpec.id,
           sceneSpec.title
         );
 
-        if (!transaction) {
+        if (!reservation) {
           return res.status(402).json({
-            error: 'Failed to deduct credits',
-            details: 'Credit transaction failed. Please try again.',
+            error: 'Failed to reserve credits',
+            details: 'Credit reservation failed. Please try again.',
           });
         }
 
-        console.log('[Content Engine] Credits deducted:', {
+        console.log('[Content Engine] Credits held:', {
           userId,
-          amount: creditCheck.required,
-          newBalance: transaction.balanceAfter,
+          amount: reservation.amount,
+          reservationId: reservation.id,
         });
       }
 
@@ -4181,22 +4186,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requestedRenderer,
       });
 
-      let result;
-      if (useRemotionRenderer) {
-        // Remotion renderer for long-form content (3-10 minutes)
-        const { remotionRenderer } = await import('./services/renderers/remotion');
-        result = await remotionRenderer.render(sceneSpec, {
-          fps: validation.data.fps,
-          width: validation.data.width,
-          height: validation.data.height,
-        });
-      } else {
+      // TTS, code generation and submits made while rendering count against the spec
+      const result = await costTrackingService.runWithCostAttribution({ sceneSpecId: sceneSpec.id }, async () => {
+        if (useRemotionRenderer) {
+          // Remotion renderer for long-form content (3-10 minutes)
+          const { remotionRenderer } = await import('./services/renderers/remotion');
+          return remotionRenderer.render(sceneSpec, {
+            fps: validation.data.fps,
+            width: validation.data.width,
+            height: validation.data.height,
+          });
+        }
         // Automation renderer for short-form content (UGC/Ads)
         const { automationRenderer } = await import('./services/renderers/automation');
-        result = await automationRenderer.render(sceneSpec, validation.data);
-      }
+        return automationRenderer.render(sceneSpec, validation.data);
+      });
 
       if (!result.success) {
+        if (reservation) {
+          await creditService.releaseReservation(reservation.id, result.error || 'Render failed');
+        }
         return res.status(500).json({
           error: 'Render failed',
           details: result.error,
@@ -4219,28 +4228,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ==================== UGC VIDEO GENERATION (Jan 2026) ====================
 
   // Validation schema for UGC video generation
-  const generateUGCVideoSchema = z.object({
-    productName: z.string().min(1).max(100),
-    productFeatures: z.string().min(10).max(2000),
-    productImages: z.array(z.string().url()).min(2, "Minimum 2 product images required").max(4, "Maximum 4 product images allowed"),
-    hookText: z.string().max(100).optional(),
-    ctaText: z.string().max(50).optional(),
-    includeAvatar: z.boolean().optional().default(false),
-    avatarPrompt: z.string().max(500).optional(),
-    logoUrl: z.string().url().optional(),
-  });
-
-  const generateUGCBatchSchema = z.object({
-    videos: z.array(generateUGCVideoSchema).min(1).max(10, "Maximum 10 videos per batch"),
-  });
-
   /**
    * POST /api/ugc/generate - Generate a single UGC video
    *
    * Creates a 30-45 second UGC video from product information.
    * Returns 202 with assetId for polling via GET /api/ai/media/:assetId
    */
-  app.post("/api/ugc/generate", requireAuth, async (req, res) => {
+  app.post("/api/ugc/generate", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const validation = generateUGCVideoSchema.safeParse(req.body);
       if (!validation.success) {
@@ -4256,6 +4250,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const result = await ugcVideoService.generateUGCVideo({
         userId,
+        workspaceId: req.workspaceId,
         ...validation.data,
       });
 
@@ -4286,7 +4281,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Creates multiple UGC videos with concurrency limiting.
    * Returns 202 with batchId and array of assetIds.
    */
-  app.post("/api/ugc/generate/batch", requireAuth, async (req, res) => {
+  app.post("/api/ugc/generate/batch", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const validation = generateUGCBatchSchema.safeParse(req.body);
       if (!validation.success) {
@@ -4310,6 +4305,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const video = videos[i];
         const result = await ugcVideoService.generateUGCVideo({
           userId,
+          workspaceId: req.workspaceId,
           ...video,
         });
 
@@ -4380,7 +4376,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * POST /api/autopilot/ingest/generic - Ingest a product from any URL
    * Uses Apify Website Content Crawler to scrape and normalize product data
    */
-  app.post("/api/autopilot/ingest/generic", requireAuth, async (req, res) => {
+  app.post("/api/autopilot/ingest/generic", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { url } = req.body;
@@ -4538,7 +4534,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * DELETE /api/autopilot/products/generic/:productId - Delete a generic product
    */
-  app.delete("/api/autopilot/products/generic/:productId", requireAuth, async (req, res) => {
+  app.delete("/api/autopilot/products/generic/:productId", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { productId } = req.params;
@@ -4566,7 +4562,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * POST /api/autopilot/products/generic/:productId/generate-video - Generate video for generic product
    * This endpoint enables video generation for products imported from any URL (non-Shopify)
    */
-  app.post("/api/autopilot/products/generic/:productId/generate-video", requireAuth, async (req, res) => {
+  app.post("/api/autopilot/products/generic/:productId/generate-video", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { productId } = req.params;
@@ -4594,9 +4590,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Optional extra formats (e.g. ['9:16', '16:9']) - one MP4 per ratio
+      const aspectRatios = z.array(z.enum(VIDEO_ASPECT_RATIOS)).min(1).optional().safeParse(req.body?.aspectRatios);
+      if (!aspectRatios.success) {
+        return res.status(400).json({
+          error: 'Invalid aspectRatios',
+          details: aspectRatios.error.errors,
+        });
+      }
+
       // 3. Prepare video params
       const videoParams = {
         userId,
+        workspaceId: req.workspaceId,
         productName: product.title,
         productFeatures: product.description || product.title,
         productImages: product.images.slice(0, 4), // Max 4 images
@@ -4607,6 +4613,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ? product.benefits[0]
           : undefined,
         tone: 'casual' as const,
+        aspectRatios: aspectRatios.data,
       };
 
       console.log(`[Generic Video API] Generating video for "${product.title}" with ${videoParams.productImages.length} images`);
@@ -4646,7 +4653,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * POST /api/autopilot/stores/scrape - Scrape products from a Shopify store
    */
-  app.post("/api/autopilot/stores/scrape", requireAuth, async (req, res) => {
+  app.post("/api/autopilot/stores/scrape", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { shopifyUrl } = req.body;
@@ -4674,7 +4681,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .select()
         .from(autopilotStores)
         .where(and(
-          eq(autopilotStores.userId, userId),
+          inWorkspace(autopilotStores, workspaceScope(req)),
           eq(autopilotStores.shopifyDomain, domain)
         ))
         .limit(1);
@@ -4703,6 +4710,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .insert(autopilotStores)
           .values({
             userId,
+            workspaceId: req.workspaceId!,
             shopifyDomain: domain,
             storeName: scrapeResult.storeName,
             logoUrl: scrapeResult.logoUrl,
@@ -4798,7 +4806,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const stores = await db
         .select()
         .from(autopilotStores)
-        .where(eq(autopilotStores.userId, userId))
+        .where(inWorkspace(autopilotStores, workspaceScope(req)))
         .orderBy(desc(autopilotStores.createdAt));
 
       res.json({ stores });
@@ -4825,7 +4833,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotStores)
         .where(and(
           eq(autopilotStores.id, storeId),
-          eq(autopilotStores.userId, userId)
+          inWorkspace(autopilotStores, workspaceScope(req))
         ))
         .limit(1);
 
@@ -4850,7 +4858,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * PATCH /api/autopilot/products/:productId - Update a product
    */
-  app.patch("/api/autopilot/products/:productId", requireAuth, async (req, res) => {
+  app.patch("/api/autopilot/products/:productId", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { productId } = req.params;
@@ -4868,7 +4876,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotStores)
         .where(and(
           eq(autopilotStores.id, product.storeId),
-          eq(autopilotStores.userId, userId)
+          inWorkspace(autopilotStores, workspaceScope(req))
         ))
         .limit(1);
 
@@ -4888,7 +4896,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * POST /api/autopilot/configs - Create autopilot config
    */
-  app.post("/api/autopilot/configs", requireAuth, async (req, res) => {
+  app.post("/api/autopilot/configs", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { storeId, tone, voiceId, videosPerWeek, platforms } = req.body;
@@ -4903,7 +4911,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotStores)
         .where(and(
           eq(autopilotStores.id, storeId),
-          eq(autopilotStores.userId, userId)
+          inWorkspace(autopilotStores, workspaceScope(req))
         ))
         .limit(1);
 
@@ -4918,15 +4926,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .where(eq(autopilotConfigs.storeId, storeId))
         .limit(1);
 
+      // Local hours (in the user's timezone) generations may run in, end
+      // exclusive - a side left out keeps its stored value
+      const postingWindowStart = req.body.postingWindowStart ?? existing[0]?.postingWindowStart ?? 9;
+      const postingWindowEnd = req.body.postingWindowEnd ?? existing[0]?.postingWindowEnd ?? 21;
+
+      if (
+        !Number.isInteger(postingWindowStart) || !Number.isInteger(postingWindowEnd) ||
+        postingWindowStart < 0 || postingWindowEnd > 24 || postingWindowStart >= postingWindowEnd
+      ) {
+        return res.status(400).json({
+          error: 'Invalid posting window',
+          details: 'postingWindowStart and postingWindowEnd must be whole hours with 0 <= start < end <= 24',
+        });
+      }
+
       if (existing.length > 0) {
-        // Update existing config
+        // Update existing config - only the fields sent
         await db
           .update(autopilotConfigs)
           .set({
-            tone: tone || 'casual',
-            voiceId,
-            videosPerWeek: videosPerWeek || 3,
-            platforms: platforms || ['instagram'],
+            ...(tone !== undefined ? { tone: tone || 'casual' } : {}),
+            ...(voiceId !== undefined ? { voiceId } : {}),
+            ...(videosPerWeek !== undefined ? { videosPerWeek: videosPerWeek || 3 } : {}),
+            ...(platforms !== undefined ? { platforms: platforms || ['instagram'] } : {}),
+            postingWindowStart,
+            postingWindowEnd,
             updatedAt: new Date(),
           })
           .where(eq(autopilotConfigs.id, existing[0].id));
@@ -4944,6 +4969,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           voiceId,
           videosPerWeek: videosPerWeek || 3,
           platforms: platforms || ['instagram'],
+          postingWindowStart,
+          postingWindowEnd,
         })
         .returning();
 
@@ -4967,7 +4994,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotConfigs)
         .where(and(
           eq(autopilotConfigs.id, configId),
-          eq(autopilotConfigs.userId, userId)
+          inArray(autopilotConfigs.storeId, workspaceStoreIds(req))
         ))
         .limit(1);
 
@@ -4985,7 +5012,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * POST /api/autopilot/configs/:configId/preview - Generate preview video
    */
-  app.post("/api/autopilot/configs/:configId/preview", requireAuth, async (req, res) => {
+  app.post("/api/autopilot/configs/:configId/preview", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { configId } = req.params;
@@ -4997,7 +5024,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotConfigs)
         .where(and(
           eq(autopilotConfigs.id, configId),
-          eq(autopilotConfigs.userId, userId)
+          inArray(autopilotConfigs.storeId, workspaceStoreIds(req))
         ))
         .limit(1);
 
@@ -5036,6 +5063,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Generate preview video
       const result = await autopilotVideoService.generateAutopilotVideo({
         userId,
+        workspaceId: req.workspaceId,
         productName: product.title,
         productFeatures: product.description || product.title,
         productImages,
@@ -5064,7 +5092,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * POST /api/autopilot/configs/:configId/approve - Approve first video and activate autopilot
    */
-  app.post("/api/autopilot/configs/:configId/approve", requireAuth, async (req, res) => {
+  app.post("/api/autopilot/configs/:configId/approve", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { configId } = req.params;
@@ -5080,7 +5108,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotConfigs)
         .where(and(
           eq(autopilotConfigs.id, configId),
-          eq(autopilotConfigs.userId, userId)
+          inArray(autopilotConfigs.storeId, workspaceStoreIds(req))
         ))
         .limit(1);
 
@@ -5116,7 +5144,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * POST /api/autopilot/configs/:configId/pause - Pause autopilot
    */
-  app.post("/api/autopilot/configs/:configId/pause", requireAuth, async (req, res) => {
+  app.post("/api/autopilot/configs/:configId/pause", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { configId } = req.params;
@@ -5127,7 +5155,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotConfigs)
         .where(and(
           eq(autopilotConfigs.id, configId),
-          eq(autopilotConfigs.userId, userId)
+          inArray(autopilotConfigs.storeId, workspaceStoreIds(req))
         ))
         .limit(1);
 
@@ -5147,7 +5175,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   /**
    * POST /api/autopilot/configs/:configId/resume - Resume autopilot
    */
-  app.post("/api/autopilot/configs/:configId/resume", requireAuth, async (req, res) => {
+  app.post("/api/autopilot/configs/:configId/resume", requireAuth, requireWorkspaceRole('editor'), async (req, res) => {
     try {
       const userId = req.userId!;
       const { configId } = req.params;
@@ -5158,7 +5186,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotConfigs)
         .where(and(
           eq(autopilotConfigs.id, configId),
-          eq(autopilotConfigs.userId, userId)
+          inArray(autopilotConfigs.storeId, workspaceStoreIds(req))
         ))
         .limit(1);
 
@@ -5204,7 +5232,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotStores)
         .where(and(
           eq(autopilotStores.id, storeId),
-          eq(autopilotStores.userId, userId)
+          inWorkspace(autopilotStores, workspaceScope(req))
         ))
         .limit(1);
 
@@ -5249,6 +5277,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           isApproved: config.isApproved,
           isActive: config.isActive,
           nextScheduledAt: config.nextScheduledAt,
+          postingWindowStart: config.postingWindowStart,
+          postingWindowEnd: config.postingWindowEnd,
         } : null,
         stats: {
           ...poolStats,
@@ -5288,7 +5318,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .from(autopilotStores)
         .where(and(
           eq(autopilotStores.id, storeId),
-          eq(autopilotStores.userId, userId)
+          inWorkspace(autopilotStores, workspaceScope(req))
         ))
         .limit(1);
 
@@ -5358,6 +5388,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Generate video
       const result = await autopilotVideoService.generateAutopilotVideo({
         userId,
+        workspaceId: req.workspaceId,
         productName,
         productFeatures,
         productImages,
@@ -5365,6 +5396,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         tone,
         voiceId,
         logoUrl,
+        renderPriority: 'batch', // cron-driven - yields to interactive renders
       });
 
       if (!result.success) {
@@ -5401,6 +5433,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
+// ========================================
+// GENERATION HELPERS
+// ========================================
+
+/**
+ * A generation that failed before its job was queued: give the credit hold
+ * back, and fail the asset row if it was written so it doesn't sit in
+ * processing
+ */
+async function abandonGenerationStart(reservation: CreditReservation, error: Error): Promise<void> {
+  try {
+    await creditService.releaseReservation(reservation.id, 'Generation could not be started');
+    if (reservation.mediaAssetId) {
+      await storage.updateMediaAsset(reservation.mediaAssetId, {
+        status: 'error',
+        errorMessage: error.message || 'Generation could not be started',
+      });
+    }
+  } catch (cleanupError) {
+    console.error(`[Credits] Failed to release reservation ${reservation.id}:`, cleanupError);
+  }
+}
+
 // ========================================
 // STRIPE WEBHOOK EVENT HANDLERS
 // ========================================
@@ -5445,6 +5500,10 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
       session.id,
       { packageId, stripeSessionId: session.id }
     );
+    if (!transaction) {
+      console.log('[Stripe Webhook] Checkout session already credited:', session.id);
+      return;
+    }
 
     // Update user's Stripe customer ID if not set
     if (session.customer) {
@@ -5460,6 +5519,15 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
       transactionId: transaction.id,
       newBalance: transaction.balanceAfter,
     });
+  } else if (metadata.type === 'subscription_plan') {
+    // Plan credits are granted by invoice.paid - just remember the customer
+    if (session.customer) {
+      await storage.updateUser(userId, {
+        stripeCustomerId: session.customer as string,
+      });
+    }
+
+    console.log('[Stripe Webhook] Plan subscription started:', { userId, planId: metadata.planId });
   } else {
     // Legacy: Subscription checkout (kept for backwards compatibility)
     console.log('[Stripe Webhook] Legacy subscription checkout detected');
@@ -5478,6 +5546,11 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
  * Handle subscription updated (renewal, plan change, etc.)
  */
 async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
+  // Plan subscriptions (Feb 2026) keep their own record
+  if (await subscriptionService.syncSubscription(subscription)) {
+    return;
+  }
+
   const userId = subscription.metadata.userId;
 
   if (!userId) {
@@ -5512,6 +5585,12 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
  * Handle subscription deleted (cancellation)
  */
 async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
+  // Plan subscriptions (Feb 2026): status synced, leftover grant credits expire
+  if (subscription.metadata.planId) {
+    await subscriptionService.handleSubscriptionEnded(subscription);
+    return;
+  }
+
   const userId = subscription.metadata.userId;
 
   if (!userId) {
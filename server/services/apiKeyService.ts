@@ -0,0 +1,174 @@
+/**
+ * API Keys (Feb 2026)
+ *
+ * Personal keys for the public /api/v1 API (shared/apiKeys.ts). Secrets are
+ * random, shown once at creation and stored only as a SHA-256 hash; a lookup
+ * hashes the presented secret and matches it exactly, so no timing-sensitive
+ * comparison is needed.
+ *
+ * Rate limits are per key, counted in a fixed one-minute window in this
+ * process's memory - like the asset progress streams, a single server instance.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { eq, and, desc, isNull } from 'drizzle-orm';
+import { db } from '../db';
+import { apiKeys, type ApiKey } from '@shared/schema';
+import { API_KEY_PREFIX, type ApiKeyScope } from '@shared/apiKeys';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Don't write last_used_at on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// ==================== TYPES ====================
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+}
+
+/**
+ * A key as shown in settings (never the hash)
+ */
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms
+}
+
+// ==================== KEYS ====================
+
+/**
+ * Create a key. Returns the secret - the only time it is available.
+ */
+export async function createApiKey(
+  userId: string,
+  workspaceId: string,
+  input: CreateApiKeyInput
+): Promise<{ apiKey: ApiKeySummary; secret: string }> {
+  const secret = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+  const [created] = await db
+    .insert(apiKeys)
+    .values({
+      userId,
+      workspaceId,
+      name: input.name,
+      keyPrefix: secret.slice(0, API_KEY_PREFIX.length + 6),
+      keyHash: hashSecret(secret),
+      scopes: input.scopes,
+      rateLimitPerMinute: input.rateLimitPerMinute,
+    })
+    .returning();
+
+  console.log(`[ApiKeys] Created key ${created.id} for ${userId} in ${workspaceId} (${input.scopes.join(', ')})`);
+  return { apiKey: toSummary(created), secret };
+}
+
+/**
+ * The user's keys for a workspace, newest first (revoked ones included)
+ */
+export async function listApiKeys(userId: string, workspaceId: string): Promise<ApiKeySummary[]> {
+  const keys = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), eq(apiKeys.workspaceId, workspaceId)))
+    .orderBy(desc(apiKeys.createdAt));
+
+  return keys.map(toSummary);
+}
+
+export async function revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+  const result = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+    .returning({ id: apiKeys.id });
+
+  if (result.length > 0) {
+    rateLimitWindows.delete(keyId);
+    console.log(`[ApiKeys] Revoked key ${keyId}`);
+  }
+  return result.length > 0;
+}
+
+/**
+ * The active key for a presented secret, or null
+ */
+export async function authenticateApiKey(secret: string): Promise<ApiKey | null> {
+  if (!secret.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const [key] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, hashSecret(secret)), isNull(apiKeys.revokedAt)));
+
+  if (!key) {
+    return null;
+  }
+
+  if (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, key.id));
+  }
+
+  return key;
+}
+
+// ==================== RATE LIMITS ====================
+
+const rateLimitWindows = new Map<string, { startedAt: number; count: number }>();
+
+/**
+ * Count a request against the key's per-minute limit
+ */
+export function consumeRateLimit(key: Pick<ApiKey, 'id' | 'rateLimitPerMinute'>): RateLimitResult {
+  const now = Date.now();
+  let window = rateLimitWindows.get(key.id);
+
+  if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+    window = { startedAt: now, count: 0 };
+    rateLimitWindows.set(key.id, window);
+  }
+
+  const limit = key.rateLimitPerMinute;
+  const allowed = window.count < limit;
+  if (allowed) {
+    window.count++;
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: window.startedAt + RATE_LIMIT_WINDOW_MS,
+  };
+}
+
+// ==================== HELPERS ====================
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toSummary({ keyHash, ...key }: ApiKey): ApiKeySummary {
+  return key;
+}
+
+// ==================== EXPORTS ====================
+
+export const apiKeyService = {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  authenticateApiKey,
+  consumeRateLimit,
+};
+
+export default apiKeyService;
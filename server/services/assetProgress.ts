@@ -0,0 +1,207 @@
+/**
+ * Asset Progress Hub (Feb 2026)
+ *
+ * In-memory relay of live generation progress, streamed to the browser by
+ * GET /api/ai/media/progress/stream (Server-Sent Events).
+ *
+ * Producers:
+ * - UGC / Autopilot preparation: script and TTS steps
+ * - Render worker: render.progress callback events, or the job handlers'
+ *   status polls when callbacks are disabled
+ * - Job queue: the final ready / error state whenever an asset's job finishes
+ *
+ * Progress is advisory - the media_assets row stays the source of truth, and
+ * the hub only keeps the latest event per in-flight asset. Assumes a single
+ * web instance, like the job queue.
+ *
+ * Events go to everyone in the asset's workspace, so a teammate's generation
+ * updates live too. Assets from before workspaces go to their creator only.
+ */
+
+import { EventEmitter } from 'events';
+import { storage, type WorkspaceScope } from '../storage';
+import {
+  getOverallProgress,
+  type AssetProgressEvent,
+  type AssetProgressStage,
+} from '@shared/assetProgress';
+
+// ==================== TYPES ====================
+
+export type AssetProgressListener = (event: AssetProgressEvent) => void;
+
+/**
+ * Render worker job status / progress event fields used for progress
+ */
+export interface RenderProgressStatus {
+  status: string;
+  stage?: string;
+  progress?: number;
+}
+
+interface TrackedProgress {
+  channel: string | null;   // null until the asset's workspace is looked up
+  event: AssetProgressEvent;
+}
+
+// ==================== CONFIG ====================
+
+// Forget in-flight entries that stop reporting (e.g. the job was deleted)
+const STALE_PROGRESS_MS = 30 * 60 * 1000;
+
+// Render worker stages that map straight onto asset stages
+const RENDER_STAGES: AssetProgressStage[] = ['queued', 'bundling', 'rendering', 'uploading', 'thumbnails'];
+
+// ==================== STATE ====================
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // one listener per open stream
+
+const inFlight = new Map<string, TrackedProgress>();
+
+// Emitter channel per in-flight asset - looked up once, and awaited by every
+// event of the asset so they stay in order
+const assetChannels = new Map<string, Promise<string>>();
+
+// ==================== SERVICE ====================
+
+/**
+ * Publish an asset's current stage
+ * Overall progress never moves backwards (e.g. between aspect ratio variants)
+ *
+ * @param stageProgress - Position within the stage (0-100)
+ */
+export function reportAssetProgress(
+  assetId: string,
+  userId: string | null | undefined,
+  stage: AssetProgressStage,
+  stageProgress = 0
+): void {
+  if (!userId) return;
+
+  const previous = inFlight.get(assetId);
+  const event: AssetProgressEvent = {
+    assetId,
+    status: 'processing',
+    stage,
+    progress: Math.max(getOverallProgress(stage, stageProgress), previous?.event.progress ?? 0),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const tracked: TrackedProgress = { channel: previous?.channel ?? null, event };
+  inFlight.set(assetId, tracked);
+
+  void resolveAssetChannel(assetId, userId).then(channel => {
+    tracked.channel = channel;
+    emitter.emit(channel, event);
+  });
+}
+
+/**
+ * Publish a render worker status or render.progress event
+ */
+export function reportRenderProgress(
+  assetId: string,
+  userId: string | null | undefined,
+  status: RenderProgressStatus
+): void {
+  if (status.status !== 'queued' && status.status !== 'rendering') return;
+
+  const stage = RENDER_STAGES.find(s => s === status.stage) || (status.status === 'queued' ? 'queued' : 'rendering');
+  reportAssetProgress(assetId, userId, stage, status.progress ?? 0);
+}
+
+/**
+ * Publish an asset's final state from the database and stop tracking it
+ * Called by the job queue when an asset's job finishes
+ */
+export async function reportAssetSettled(assetId: string): Promise<void> {
+  const asset = await storage.getMediaAsset(assetId);
+  inFlight.delete(assetId);
+  assetChannels.delete(assetId);
+  if (!asset || asset.status === 'processing') return;
+
+  const ready = asset.status === 'ready';
+  const event: AssetProgressEvent = {
+    assetId,
+    status: ready ? 'ready' : 'error',
+    stage: ready ? 'complete' : 'failed',
+    progress: ready ? 100 : 0,
+    resultUrl: asset.resultUrl || undefined,
+    error: ready ? undefined : asset.errorMessage || 'Generation failed',
+    updatedAt: new Date().toISOString(),
+  };
+  emitter.emit(channelFor(asset.workspaceId, asset.userId), event);
+}
+
+/**
+ * Latest progress for the in-flight assets in scope (sent when a stream opens)
+ */
+export function getAssetProgressSnapshot(scope: WorkspaceScope): AssetProgressEvent[] {
+  const cutoff = Date.now() - STALE_PROGRESS_MS;
+  const channels = scopeChannels(scope);
+  const events: AssetProgressEvent[] = [];
+
+  for (const [assetId, tracked] of Array.from(inFlight.entries())) {
+    if (new Date(tracked.event.updatedAt).getTime() < cutoff) {
+      inFlight.delete(assetId);
+      assetChannels.delete(assetId);
+      continue;
+    }
+    if (tracked.channel && channels.includes(tracked.channel)) {
+      events.push(tracked.event);
+    }
+  }
+  return events;
+}
+
+/**
+ * Receive progress events for the workspace's assets (and the user's own
+ * from before workspaces)
+ * Returns the unsubscribe function
+ */
+export function subscribeToAssetProgress(scope: WorkspaceScope, listener: AssetProgressListener): () => void {
+  const channels = scopeChannels(scope);
+  for (const channel of channels) {
+    emitter.on(channel, listener);
+  }
+  return () => {
+    for (const channel of channels) {
+      emitter.off(channel, listener);
+    }
+  };
+}
+
+// ==================== HELPERS ====================
+
+// Same rule as isInWorkspace: rows without a workspace belong to their creator
+function channelFor(workspaceId: string | null, userId: string): string {
+  return workspaceId ? `workspace:${workspaceId}` : `user:${userId}`;
+}
+
+function scopeChannels(scope: WorkspaceScope): string[] {
+  return [channelFor(scope.workspaceId, scope.userId), channelFor(null, scope.userId)];
+}
+
+function resolveAssetChannel(assetId: string, userId: string): Promise<string> {
+  let channel = assetChannels.get(assetId);
+  if (!channel) {
+    channel = storage.getMediaAsset(assetId)
+      .then(asset => channelFor(asset?.workspaceId ?? null, asset?.userId ?? userId))
+      .catch(() => channelFor(null, userId));
+    assetChannels.set(assetId, channel);
+  }
+  return channel;
+}
+
+// ==================== EXPORTS ====================
+
+export const assetProgressService = {
+  reportAssetProgress,
+  reportRenderProgress,
+  reportAssetSettled,
+  getAssetProgressSnapshot,
+  subscribeToAssetProgress,
+};
+
+export default assetProgressService;
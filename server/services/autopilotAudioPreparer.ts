@@ -73,16 +73,29 @@ const AUDIO_PADDING = 1.5;
 
 /**
  * Generate TTS audio for all autopilot scenes
+ * onProgress is called after each narration with (completed, total)
  */
 export async function prepareAutopilotAudio(
   input: AutopilotAudioInput,
-  voiceId?: string
+  voiceId?: string,
+  onProgress?: (completed: number, total: number) => void
 ): Promise<AutopilotAudioResult> {
   const audioAssets: AutopilotAudioAssets = {};
   const errors: string[] = [];
   let totalAudioDuration = 0;
   const ttsOptions = voiceId ? { voiceId } : undefined;
 
+  const narrationCount = [
+    input.problemNarration,
+    input.revealNarration,
+    input.featuresNarration,
+    input.socialProofNarration,
+    input.offerNarration,
+    input.ctaNarration,
+  ].filter(Boolean).length;
+  let completed = 0;
+  const reportNarrationDone = () => onProgress?.(++completed, narrationCount);
+
   console.log('[Autopilot Audio] Preparing audio for scenes...');
 
   // Generate problem audio
@@ -99,6 +112,7 @@ export async function prepareAutopilotAudio(
       errors.push(`Problem TTS failed: ${result.error}`);
       totalAudioDuration += estimateDuration(input.problemNarration);
     }
+    reportNarrationDone();
   }
 
   // Generate reveal audio
@@ -115,6 +129,7 @@ export async function prepareAutopilotAudio(
       errors.push(`Reveal TTS failed: ${result.error}`);
       totalAudioDuration += estimateDuration(input.revealNarration);
     }
+    reportNarrationDone();
   }
 
   // Generate features audio
@@ -131,6 +146,7 @@ export async function prepareAutopilotAudio(
       errors.push(`Features TTS failed: ${result.error}`);
       totalAudioDuration += estimateDuration(input.featuresNarration);
     }
+    reportNarrationDone();
   }
 
   // Generate social proof audio
@@ -147,6 +163,7 @@ export async function prepareAutopilotAudio(
       errors.push(`Social proof TTS failed: ${result.error}`);
       totalAudioDuration += estimateDuration(input.socialProofNarration);
     }
+    reportNarrationDone();
   }
 
   // Generate offer audio
@@ -163,6 +180,7 @@ export async function prepareAutopilotAudio(
       errors.push(`Offer TTS failed: ${result.error}`);
       totalAudioDuration += estimateDuration(input.offerNarration);
     }
+    reportNarrationDone();
   }
 
   // Generate CTA audio (optional)
@@ -178,6 +196,7 @@ export async function prepareAutopilotAudio(
     } else {
       errors.push(`CTA TTS failed: ${result.error}`);
     }
+    reportNarrationDone();
   }
 
   console.log(`[Autopilot Audio] Audio preparation complete. Total duration: ${totalAudioDuration}s`);
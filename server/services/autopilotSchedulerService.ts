@@ -7,17 +7,24 @@
 
 import { eq, sql, and, lte, isNotNull } from 'drizzle-orm';
 import { db } from '../db';
+import { inWorkspace, type WorkspaceScope } from '../storage';
 import {
   autopilotConfigs,
   autopilotProducts,
   autopilotStores,
   autopilotHistory,
+  users,
+  workspaces,
   type AutopilotConfig,
   type AutopilotProduct,
 } from '@shared/schema';
 import { autopilotProductService } from './autopilotProductService';
 import { autopilotVideoService } from './autopilotVideoService';
-import { lateService } from './late';
+import { emitAutopilotRunEvent } from './webhooks';
+import { publishSocialPost } from './socialPosting';
+import { ensurePersonalWorkspace, getWorkspace } from './workspaceService';
+import { SOCIAL_PLATFORMS, type SocialPlatform } from '../validators/social';
+import { fitToHourWindow, resolveTimeZone } from '@shared/timezones';
 
 // ==================== TYPES ====================
 
@@ -40,6 +47,28 @@ export interface ScheduledGeneration {
   };
 }
 
+/**
+ * A generation Autopilot is expected to run - shown as a ghost entry on the
+ * content calendar. Projected from nextScheduledAt and the cadence.
+ */
+export interface UpcomingGeneration {
+  configId: string;
+  storeId: string;
+  storeName: string | null;
+  platforms: string[];
+  scheduledAt: Date;
+}
+
+/**
+ * When a config's generations may run - the owner's timezone (or the store's
+ * workspace's) and its window of local posting hours
+ */
+export interface AutopilotSchedule {
+  timeZone: string;
+  windowStart: number;
+  windowEnd: number;
+}
+
 export interface GenerationResult {
   success: boolean;
   assetId?: string;
@@ -50,6 +79,7 @@ export interface GenerationResult {
 // ==================== CONFIG ====================
 
 const DAYS_PER_WEEK = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // ==================== SERVICE ====================
 
@@ -82,24 +112,111 @@ export async function getDueConfigs(): Promise<AutopilotConfig[]> {
 }
 
 /**
- * Calculate next scheduled generation time based on cadence
+ * Calculate next scheduled generation time based on cadence, moved into the
+ * schedule's posting window (without one: UTC, any hour)
  */
-export function calculateNextScheduled(videosPerWeek: number, fromDate?: Date): Date {
-  const intervalDays = DAYS_PER_WEEK / videosPerWeek;
-  const next = fromDate ? new Date(fromDate) : new Date();
-  next.setDate(next.getDate() + intervalDays);
+export function calculateNextScheduled(
+  videosPerWeek: number,
+  fromDate?: Date,
+  schedule?: AutopilotSchedule
+): Date {
+  const intervalMs = (DAYS_PER_WEEK / videosPerWeek) * DAY_MS;
+  const next = new Date((fromDate ?? new Date()).getTime() + intervalMs);
+
+  // Rounds down to the hour for cleaner scheduling
+  return fitToHourWindow(
+    next,
+    schedule?.timeZone ?? resolveTimeZone(),
+    schedule?.windowStart ?? 0,
+    schedule?.windowEnd ?? 24
+  );
+}
+
+/**
+ * A config's schedule - its owner's timezone wins over the store workspace's
+ */
+export async function getAutopilotSchedule(config: AutopilotConfig): Promise<AutopilotSchedule> {
+  const [row] = await db
+    .select({ userTimezone: users.timezone, workspaceTimezone: workspaces.timezone })
+    .from(autopilotStores)
+    .innerJoin(users, eq(users.id, config.userId))
+    .leftJoin(workspaces, eq(autopilotStores.workspaceId, workspaces.id))
+    .where(eq(autopilotStores.id, config.storeId))
+    .limit(1);
+
+  return toSchedule(config, row?.userTimezone, row?.workspaceTimezone);
+}
+
+function toSchedule(
+  config: AutopilotConfig,
+  userTimezone?: string | null,
+  workspaceTimezone?: string | null
+): AutopilotSchedule {
+  return {
+    timeZone: resolveTimeZone(userTimezone, workspaceTimezone),
+    windowStart: config.postingWindowStart,
+    windowEnd: config.postingWindowEnd,
+  };
+}
 
-  // Round to nearest hour for cleaner scheduling
-  next.setMinutes(0, 0, 0);
+/**
+ * Project the workspace's active Autopilot runs falling in [from, to)
+ */
+export async function getUpcomingGenerations(
+  scope: WorkspaceScope,
+  from: Date,
+  to: Date
+): Promise<UpcomingGeneration[]> {
+  const rows = await db
+    .select({
+      config: autopilotConfigs,
+      storeName: autopilotStores.storeName,
+      userTimezone: users.timezone,
+      workspaceTimezone: workspaces.timezone,
+    })
+    .from(autopilotConfigs)
+    .innerJoin(autopilotStores, eq(autopilotConfigs.storeId, autopilotStores.id))
+    .innerJoin(users, eq(autopilotConfigs.userId, users.id))
+    .leftJoin(workspaces, eq(autopilotStores.workspaceId, workspaces.id))
+    .where(
+      and(
+        inWorkspace(autopilotStores, scope),
+        eq(autopilotConfigs.isActive, true),
+        eq(autopilotConfigs.isApproved, true),
+        isNotNull(autopilotConfigs.nextScheduledAt),
+        lte(autopilotConfigs.nextScheduledAt, to)
+      )
+    );
+
+  const upcoming: UpcomingGeneration[] = [];
+  for (const { config, storeName, userTimezone, workspaceTimezone } of rows) {
+    const platforms = (config.platforms as string[]) || [];
+    const schedule = toSchedule(config, userTimezone, workspaceTimezone);
+    let at = new Date(config.nextScheduledAt!);
+
+    while (at < to) {
+      if (at >= from) {
+        upcoming.push({ configId: config.id, storeId: config.storeId, storeName, platforms, scheduledAt: at });
+      }
+      const next = calculateNextScheduled(config.videosPerWeek, at, schedule);
+      // Hour rounding can stall very high cadences
+      if (next <= at) break;
+      at = next;
+    }
+  }
 
-  return next;
+  return upcoming.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
 }
 
 /**
  * Update next scheduled time for a config
  */
-export async function updateNextScheduled(configId: string, videosPerWeek: number): Promise<void> {
-  const nextScheduled = calculateNextScheduled(videosPerWeek);
+export async function updateNextScheduled(
+  configId: string,
+  videosPerWeek: number,
+  schedule?: AutopilotSchedule
+): Promise<void> {
+  const nextScheduled = calculateNextScheduled(videosPerWeek, undefined, schedule);
 
   console.log(`[Autopilot Scheduler] Updating next scheduled for config ${configId}: ${nextScheduled.toISOString()}`);
 
@@ -197,6 +314,10 @@ export async function updateHistoryRecord(
       .update(autopilotHistory)
       .set(updates)
       .where(eq(autopilotHistory.id, historyId));
+
+    if (updates.status === 'ready' || updates.status === 'failed') {
+      await emitAutopilotRunEvent(historyId);
+    }
   } catch (error: any) {
     console.error('[Autopilot Scheduler] Error updating history record:', error);
     throw error;
@@ -241,6 +362,7 @@ export async function executeGeneration(config: AutopilotConfig): Promise<Genera
     console.log(`[Autopilot Scheduler] Generating video for product: ${product.title}`);
     const videoResult = await autopilotVideoService.generateAutopilotVideo({
       userId: config.userId,
+      workspaceId: store.workspaceId,
       productName: product.title,
       productFeatures: product.description || product.title,
       productImages: product.images,
@@ -248,6 +370,7 @@ export async function executeGeneration(config: AutopilotConfig): Promise<Genera
       tone: config.tone as any,
       voiceId: config.voiceId || undefined,
       logoUrl: store.logoUrl || undefined,
+      renderPriority: 'batch',
     });
 
     if (!videoResult.success || !videoResult.assetId) {
@@ -258,10 +381,10 @@ export async function executeGeneration(config: AutopilotConfig): Promise<Genera
       return { success: false, error: videoResult.error };
     }
 
-    // Update history with asset ID
+    // Update history with asset ID (moves to ready/failed when the render finishes)
     await updateHistoryRecord(historyId, {
       mediaAssetId: videoResult.assetId,
-      status: 'ready',
+      status: 'generating',
     });
 
     // Mark product as used
@@ -271,7 +394,7 @@ export async function executeGeneration(config: AutopilotConfig): Promise<Genera
     await incrementStats(config.id, config.storeId);
 
     // Update next scheduled time
-    await updateNextScheduled(config.id, config.videosPerWeek);
+    await updateNextScheduled(config.id, config.videosPerWeek, await getAutopilotSchedule(config));
 
     return {
       success: true,
@@ -289,7 +412,8 @@ export async function executeGeneration(config: AutopilotConfig): Promise<Genera
 
 /**
  * Queue video to Late.dev for publishing
- * Called after video is ready
+ * Called after video is ready. Each platform's account posts it in its next
+ * free posting slot (see postingQueue.ts) rather than straight away.
  */
 export async function queueToLate(
   assetId: string,
@@ -297,26 +421,53 @@ export async function queueToLate(
   config: AutopilotConfig,
   productTitle: string
 ): Promise<{ success: boolean; results: Record<string, any> }> {
-  const platforms = (config.platforms as string[]) || [];
+  const platforms = ((config.platforms as string[]) || [])
+    .filter((platform): platform is SocialPlatform => (SOCIAL_PLATFORMS as readonly string[]).includes(platform));
   const results: Record<string, any> = {};
 
   console.log(`[Autopilot Scheduler] Queuing to Late.dev for platforms: ${platforms.join(', ')}`);
 
-  // Get user's Late profile and accounts
-  // This would need to be fetched from the user's stored accounts
-
-  for (const platform of platforms) {
-    try {
-      // Generate caption
-      const caption = `Check out ${productTitle}! Link in bio.\n\n#product #shopping #musthave`;
+  if (platforms.length === 0) {
+    return { success: false, results };
+  }
 
-      // Note: In production, you'd get the user's account ID for each platform
-      // For now, we'll just log it
-      console.log(`[Autopilot Scheduler] Would queue to ${platform}: ${videoUrl}`);
+  try {
+    const [store] = await db
+      .select()
+      .from(autopilotStores)
+      .where(eq(autopilotStores.id, config.storeId))
+      .limit(1);
 
-      results[platform] = { status: 'queued', videoUrl };
-    } catch (error: any) {
-      console.error(`[Autopilot Scheduler] Failed to queue to ${platform}:`, error);
+    // Stores from before workspaces belong to the owner's personal workspace
+    const workspace = (store?.workspaceId && await getWorkspace(store.workspaceId))
+      || await ensurePersonalWorkspace(config.userId);
+
+    const caption = `Check out ${productTitle}! Link in bio.\n\n#product #shopping #musthave`;
+
+    const result = await publishSocialPost(
+      { userId: config.userId, workspaceId: workspace.id, creditAccountId: workspace.ownerId },
+      {
+        videoUrl,
+        mediaAssetId: assetId,
+        caption,
+        targets: platforms.map(platform => ({ platform })),
+        queue: true,
+      }
+    );
+
+    if (!result.ok) {
+      console.error(`[Autopilot Scheduler] Failed to queue ${assetId}:`, result.body);
+      for (const platform of platforms) {
+        results[platform] = { status: 'failed', error: result.body.details ?? result.body.error };
+      }
+    } else {
+      for (const post of result.posts) {
+        results[post.platform] = { status: 'queued', postId: post.id, scheduledFor: post.scheduledFor };
+      }
+    }
+  } catch (error: any) {
+    console.error(`[Autopilot Scheduler] Failed to queue ${assetId}:`, error);
+    for (const platform of platforms) {
       results[platform] = { status: 'failed', error: error.message };
     }
   }
@@ -366,7 +517,7 @@ export async function resumeAutopilot(configId: string): Promise<void> {
     }
 
     // Calculate next scheduled from now
-    const nextScheduled = calculateNextScheduled(config.videosPerWeek);
+    const nextScheduled = calculateNextScheduled(config.videosPerWeek, undefined, await getAutopilotSchedule(config));
 
     await db
       .update(autopilotConfigs)
@@ -402,7 +553,7 @@ export async function activateAutopilot(
       throw new Error('Config not found');
     }
 
-    const nextScheduled = calculateNextScheduled(config.videosPerWeek);
+    const nextScheduled = calculateNextScheduled(config.videosPerWeek, undefined, await getAutopilotSchedule(config));
 
     await db
       .update(autopilotConfigs)
@@ -425,7 +576,9 @@ export async function activateAutopilot(
 
 export const autopilotSchedulerService = {
   getDueConfigs,
+  getUpcomingGenerations,
   calculateNextScheduled,
+  getAutopilotSchedule,
   updateNextScheduled,
   incrementStats,
   createHistoryRecord,
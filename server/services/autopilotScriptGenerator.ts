@@ -5,6 +5,9 @@
  * Creates optimized voiceover text for all 8 scene types.
  */
 
+import { SIMULATED_PROVIDERS, simulateRequest } from './simulated/core';
+import { recordTokenCost, toTokenUsage } from './costTracking';
+
 // ==================== TYPES ====================
 
 export interface AutopilotProductBrief {
@@ -39,6 +42,7 @@ export interface AutopilotScriptResult {
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.OPEN_AI_API_KEY;
 const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const SIMULATED_SCRIPT_LATENCY_MS = 4000;
 
 const SYSTEM_PROMPT = `You are a UGC (User Generated Content) video script writer specializing in product demo videos for social media.
 
@@ -85,6 +89,16 @@ Output must be valid JSON with this exact structure:
 export async function generateAutopilotScripts(
   brief: AutopilotProductBrief
 ): Promise<AutopilotScriptResult> {
+  if (SIMULATED_PROVIDERS) {
+    // Offline: template scripts (see simulated/core.ts)
+    try {
+      await simulateRequest('openai', `autopilot-script:${brief.productName}`, SIMULATED_SCRIPT_LATENCY_MS);
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, scripts: getDefaultAutopilotScripts(brief.productName, brief.productFeatures, brief.price, brief.originalPrice) };
+  }
+
   if (!OPENAI_API_KEY) {
     console.error('[Autopilot Script] OpenAI API key not configured');
     return {
@@ -147,6 +161,13 @@ Generate compelling scripts for all 8 scenes. Make it feel authentic and engagin
       throw new Error(`OpenAI API Error (${response.status}): ${errorMessage}`);
     }
 
+    await recordTokenCost({
+      provider: 'openai',
+      operation: 'autopilot_script',
+      model: data.model || 'gpt-4o-mini',
+      usage: toTokenUsage(data.usage),
+    });
+
     const content = data.choices?.[0]?.message?.content;
     if (!content) {
       throw new Error('Empty content in response');
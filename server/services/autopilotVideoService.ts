@@ -5,14 +5,24 @@
  * 1. Script generation (AI)
  * 2. TTS audio generation (ElevenLabs)
  * 3. Scene duration calculation
- * 4. Remotion composition assembly
+ * 4. Composition props assembly (AutopilotVideo in my-video)
  * 5. Render worker invocation
  * 6. Upload to CDN
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
+import { eq, and } from 'drizzle-orm';
 import { storage } from '../storage';
+import { db } from '../db';
+import { autopilotHistory, type GenerationJob } from '@shared/schema';
+import {
+  DEFAULT_VIDEO_ASPECT_RATIO,
+  VIDEO_ASPECT_RATIO_DIMENSIONS,
+  type MediaAssetVariant,
+  type VideoAspectRatio,
+  type VideoThumbnails,
+} from '@shared/videoFormats';
 import {
   autopilotScriptGenerator,
   type AutopilotProductBrief,
@@ -23,11 +33,21 @@ import {
   type AutopilotAudioAssets,
   type AutopilotSceneDurationsFromAudio,
 } from './autopilotAudioPreparer';
+import { enqueueJob, type JobHandler, type JobTickResult } from './jobQueue';
+import {
+  getRenderCallbackUrl,
+  getRenderPollInterval,
+  type RenderEventHandler,
+} from './renderCallbacks';
+import { getThumbnailFields } from './videoThumbnails';
+import { reportAssetProgress, reportRenderProgress } from './assetProgress';
+import { emitAutopilotRunEvent } from './webhooks';
 
 // ==================== TYPES ====================
 
 export interface GenerateAutopilotVideoParams {
   userId: string;
+  workspaceId?: string | null;  // Workspace the asset belongs to (the user's own when absent)
   productName: string;
   productFeatures: string;
   productImages: string[];
@@ -39,6 +59,9 @@ export interface GenerateAutopilotVideoParams {
   tone?: 'casual' | 'professional' | 'energetic' | 'luxury';
   voiceId?: string;
   logoUrl?: string;
+  aspectRatios?: VideoAspectRatio[];  // One MP4 per ratio, default ['9:16'] - the first is resultUrl
+  // Render worker lane: 'batch' for cron-driven runs so interactive renders go first
+  renderPriority?: 'interactive' | 'batch';
 }
 
 export interface AutopilotVideoResult {
@@ -50,17 +73,32 @@ export interface AutopilotVideoResult {
 export interface RenderJobStatus {
   jobId: string;
   status: 'queued' | 'rendering' | 'complete' | 'failed';
+  stage?: string;               // queued | bundling | rendering | uploading | thumbnails
   progress?: number;
   resultUrl?: string;
+  variants?: MediaAssetVariant[];
+  thumbnails?: VideoThumbnails;
   error?: string;
 }
 
+/**
+ * Persisted progress of an autopilot_video job (generation_jobs.state)
+ */
+interface AutopilotVideoJobState {
+  renderJobId?: string;
+  renderStartedAt?: string;
+  totalDuration?: number;
+  sceneDurations?: AutopilotSceneDurationsFromAudio;
+}
+
 // ==================== CONFIG ====================
 
 const RENDER_WORKER_URL = process.env.RENDER_WORKER_URL || 'http://localhost:3001';
 const FPS = 30;
-const WIDTH = 1080;
-const HEIGHT = 1920;
+
+const PREPARE_TIMEOUT_MS = 5 * 60 * 1000;   // scripts + TTS + submission
+const RENDER_TIMEOUT_MS = 10 * 60 * 1000;   // longer videos than UGC, per aspect ratio
+const RENDER_POLL_INTERVAL_MS = 5000;
 
 // ==================== SERVICE ====================
 
@@ -73,6 +111,7 @@ export async function generateAutopilotVideo(
 ): Promise<AutopilotVideoResult> {
   const {
     userId,
+    workspaceId,
     productName,
     productFeatures,
     productImages,
@@ -108,6 +147,7 @@ export async function generateAutopilotVideo(
     await storage.createMediaAsset({
       id: assetId,
       userId,
+      workspaceId,
       provider: 'remotion-autopilot',
       type: 'video',
       prompt: `Autopilot Video: ${productName}`,
@@ -119,19 +159,20 @@ export async function generateAutopilotVideo(
         price,
         includeAvatar,
         tone,
+        aspectRatios: getAspectRatios(params),
         startedAt: new Date().toISOString(),
       },
     });
 
     console.log(`[Autopilot Video] Created asset ${assetId} for user ${userId}`);
 
-    // Start async processing
-    processAutopilotVideo(assetId, params).catch((error) => {
-      console.error(`[Autopilot Video] Processing failed for ${assetId}:`, error);
-      storage.updateMediaAsset(assetId, {
-        status: 'error',
-        errorMessage: error.message || 'Unknown processing error',
-      });
+    // Hand off to the durable job queue (survives restarts)
+    await enqueueJob({
+      type: 'autopilot_video',
+      mediaAssetId: assetId,
+      userId,
+      payload: params as unknown as Record<string, any>,
+      deadlineMs: PREPARE_TIMEOUT_MS + getRenderTimeout(params),
     });
 
     return {
@@ -148,12 +189,13 @@ export async function generateAutopilotVideo(
 }
 
 /**
- * Process autopilot video generation (async)
+ * Prepare and submit an autopilot video render (job phase 1)
+ * Scripts → TTS → scene durations → composition props → render worker submission
  */
-async function processAutopilotVideo(
+async function prepareAutopilotRender(
   assetId: string,
   params: GenerateAutopilotVideoParams
-): Promise<void> {
+): Promise<AutopilotVideoJobState> {
   const {
     productName,
     productFeatures,
@@ -172,6 +214,7 @@ async function processAutopilotVideo(
 
   // Step 1: Generate scripts (AI or fallback)
   console.log(`[Autopilot Video] Step 1: Generating scripts...`);
+  reportAssetProgress(assetId, params.userId, 'script');
   const brief: AutopilotProductBrief = {
     productName,
     productFeatures,
@@ -206,6 +249,7 @@ async function processAutopilotVideo(
 
   // Step 2: Generate TTS audio
   console.log(`[Autopilot Video] Step 2: Generating TTS audio...`);
+  reportAssetProgress(assetId, params.userId, 'tts');
   const audioResult = await autopilotAudioPreparer.prepareAutopilotAudio(
     {
       problemNarration: scripts.problemNarration,
@@ -215,7 +259,8 @@ async function processAutopilotVideo(
       offerNarration: scripts.offerNarration,
       ctaNarration: scripts.ctaNarration,
     },
-    voiceId
+    voiceId,
+    (completed, total) => reportAssetProgress(assetId, params.userId, 'tts', (completed / total) * 100)
   );
 
   if (audioResult.errors.length > 0) {
@@ -291,16 +336,18 @@ async function processAutopilotVideo(
     sceneDurations.offer +
     sceneDurations.cta;
 
+  // Primary ratio sets outputConfig; the worker renders every ratio in aspectRatios
+  const aspectRatios = getAspectRatios(params);
   const renderResult = await submitRenderJob(assetId, compositionProps, {
     fps: FPS,
-    width: WIDTH,
-    height: HEIGHT,
+    ...VIDEO_ASPECT_RATIO_DIMENSIONS[aspectRatios[0]],
     durationInFrames: totalFrames,
-  });
+  }, aspectRatios, params.renderPriority || 'interactive');
 
   if (!renderResult.success) {
     throw new Error(renderResult.error || 'Render job submission failed');
   }
+  reportAssetProgress(assetId, params.userId, 'queued');
 
   await storage.updateMediaAsset(assetId, {
     metadata: {
@@ -309,26 +356,12 @@ async function processAutopilotVideo(
     },
   });
 
-  // Step 6: Poll for completion
-  console.log(`[Autopilot Video] Step 6: Waiting for render completion...`);
-  const finalResult = await waitForRenderCompletion(renderResult.jobId!);
-
-  if (finalResult.status === 'complete' && finalResult.resultUrl) {
-    console.log(`[Autopilot Video] Render complete: ${finalResult.resultUrl}`);
-    await storage.updateMediaAsset(assetId, {
-      status: 'ready',
-      resultUrl: finalResult.resultUrl,
-      completedAt: new Date(),
-      metadata: {
-        step: 'complete',
-        totalDuration,
-        sceneDurations,
-        hasAvatar: includeAvatar,
-      },
-    });
-  } else {
-    throw new Error(finalResult.error || 'Render failed');
-  }
+  return {
+    renderJobId: renderResult.jobId,
+    renderStartedAt: new Date().toISOString(),
+    totalDuration,
+    sceneDurations,
+  };
 }
 
 /**
@@ -337,7 +370,9 @@ async function processAutopilotVideo(
 async function submitRenderJob(
   assetId: string,
   props: any,
-  config: { fps: number; width: number; height: number; durationInFrames: number }
+  config: { fps: number; width: number; height: number; durationInFrames: number },
+  aspectRatios: VideoAspectRatio[],
+  priority: 'interactive' | 'batch'
 ): Promise<{ success: boolean; jobId?: string; error?: string }> {
   try {
     const response = await axios.post(
@@ -346,7 +381,10 @@ async function submitRenderJob(
         jobId: assetId,
         compositionId: 'AutopilotVideo',
         inputProps: props,
+        aspectRatios,
         outputConfig: config,
+        callbackUrl: getRenderCallbackUrl(),
+        priority,
       },
       {
         timeout: 30000,
@@ -365,46 +403,33 @@ async function submitRenderJob(
       };
     }
   } catch (error: any) {
-    console.error('[Autopilot Video] Render worker error:', error.message);
+    // 400s carry the worker's inputProps validation errors
+    const workerError: string | undefined = error.response?.data?.error;
+    const details: string[] = error.response?.data?.details || [];
+    console.error('[Autopilot Video] Render worker error:', workerError || error.message, details);
     return {
       success: false,
-      error: error.message || 'Failed to connect to render worker',
+      error: workerError
+        ? [workerError, ...details].join('; ')
+        : error.message || 'Failed to connect to render worker',
     };
   }
 }
 
 /**
- * Poll render worker for job completion
+ * Check render worker job status once
+ * Returns null when the worker is unreachable (caller retries on next tick)
  */
-async function waitForRenderCompletion(
-  jobId: string,
-  maxWaitMs: number = 600000 // 10 minutes for longer videos
-): Promise<RenderJobStatus> {
-  const startTime = Date.now();
-  const pollIntervalMs = 5000;
-
-  while (Date.now() - startTime < maxWaitMs) {
-    try {
-      const response = await axios.get(`${RENDER_WORKER_URL}/status/${jobId}`);
-      const status: RenderJobStatus = response.data;
-
-      if (status.status === 'complete' || status.status === 'failed') {
-        return status;
-      }
-
-      console.log(`[Autopilot Video] Render progress: ${status.progress || 0}%`);
-    } catch (error: any) {
-      console.error('[Autopilot Video] Status check error:', error.message);
-    }
-
-    await sleep(pollIntervalMs);
+async function getRenderJobStatus(jobId: string): Promise<RenderJobStatus | null> {
+  try {
+    const response = await axios.get(`${RENDER_WORKER_URL}/status/${jobId}`, {
+      timeout: 10000,
+    });
+    return response.data as RenderJobStatus;
+  } catch (error: any) {
+    console.error('[Autopilot Video] Status check error:', error.message);
+    return null;
   }
-
-  return {
-    jobId,
-    status: 'failed',
-    error: 'Render timeout exceeded',
-  };
 }
 
 /**
@@ -429,10 +454,153 @@ export async function getAutopilotVideoStatus(assetId: string): Promise<{
   };
 }
 
+// ==================== JOB HANDLER ====================
+
+/**
+ * autopilot_video job handler
+ * Phase 1 prepares and submits the render, phase 2 polls the render worker
+ */
+export const autopilotVideoJobHandler: JobHandler = {
+  // Preparation is not retried automatically (TTS/LLM calls are billed)
+  maxAttempts: 1,
+
+  async tick(job: GenerationJob): Promise<JobTickResult> {
+    const assetId = job.mediaAssetId!;
+    const params = job.payload as unknown as GenerateAutopilotVideoParams;
+    const state = (job.state || {}) as AutopilotVideoJobState;
+
+    if (!state.renderJobId) {
+      const prepared = await prepareAutopilotRender(assetId, params);
+      return { done: false, delayMs: RENDER_POLL_INTERVAL_MS, state: { ...prepared } };
+    }
+
+    // Already finalized by the render worker callback
+    const asset = await storage.getMediaAsset(assetId);
+    if (asset && asset.status !== 'processing') {
+      return { done: true };
+    }
+
+    const renderElapsed = Date.now() - new Date(state.renderStartedAt || job.createdAt).getTime();
+    if (renderElapsed > getRenderTimeout(params)) {
+      await failAutopilotVideo(assetId, 'Render timeout exceeded');
+      return { done: true };
+    }
+
+    const status = await getRenderJobStatus(state.renderJobId);
+
+    if (status?.status === 'complete' && status.resultUrl) {
+      await completeAutopilotVideo(assetId, params, state, status.resultUrl, status.variants, status.thumbnails);
+      return { done: true };
+    }
+
+    if (status?.status === 'failed' || status?.status === 'complete') {
+      await failAutopilotVideo(assetId, status.error || 'Render failed');
+      return { done: true };
+    }
+
+    if (status) {
+      console.log(`[Autopilot Video] Render progress: ${status.progress || 0}%`);
+      reportRenderProgress(assetId, params.userId, status);
+    }
+    return { done: false, delayMs: getRenderPollInterval(RENDER_POLL_INTERVAL_MS) };
+  },
+
+  async onTimeout(job: GenerationJob): Promise<void> {
+    await failAutopilotVideo(job.mediaAssetId!, 'Render timeout exceeded');
+  },
+
+  async onFailure(job: GenerationJob, error: Error): Promise<void> {
+    console.error(`[Autopilot Video] Processing failed for ${job.mediaAssetId}:`, error);
+    await failAutopilotVideo(job.mediaAssetId!, error.message || 'Unknown processing error');
+  },
+};
+
+/**
+ * Render worker callback for autopilot_video jobs (see renderCallbacks.ts)
+ */
+export const autopilotRenderEventHandler: RenderEventHandler = async (job, event) => {
+  const assetId = job.mediaAssetId!;
+  const asset = await storage.getMediaAsset(assetId);
+  if (!asset || asset.status !== 'processing') {
+    return;
+  }
+
+  if (event.status === 'complete' && event.resultUrl) {
+    const params = job.payload as unknown as GenerateAutopilotVideoParams;
+    const state = (job.state || {}) as AutopilotVideoJobState;
+    await completeAutopilotVideo(assetId, params, state, event.resultUrl, event.variants, event.thumbnails);
+  } else {
+    await failAutopilotVideo(assetId, event.error || 'Render failed');
+  }
+};
+
 // ==================== HELPERS ====================
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+async function completeAutopilotVideo(
+  assetId: string,
+  params: GenerateAutopilotVideoParams,
+  state: AutopilotVideoJobState,
+  resultUrl: string,
+  variants?: MediaAssetVariant[],
+  thumbnails?: VideoThumbnails
+): Promise<void> {
+  console.log(`[Autopilot Video] Render complete: ${resultUrl}${variants ? ` (${variants.length} variants)` : ''}`);
+  await storage.updateMediaAsset(assetId, {
+    status: 'ready',
+    resultUrl,
+    variants: variants || null,
+    ...getThumbnailFields(thumbnails),
+    completedAt: new Date(),
+    metadata: {
+      step: 'complete',
+      totalDuration: state.totalDuration,
+      sceneDurations: state.sceneDurations,
+      hasAvatar: params.includeAvatar ?? false,
+    },
+  });
+  await updateHistoryForAsset(assetId, { status: 'ready', completedAt: new Date() });
+}
+
+async function failAutopilotVideo(assetId: string, errorMessage: string): Promise<void> {
+  await storage.updateMediaAsset(assetId, {
+    status: 'error',
+    errorMessage,
+  });
+  await updateHistoryForAsset(assetId, { status: 'failed', errorMessage, completedAt: new Date() });
+}
+
+/**
+ * Move the autopilot history row for this asset out of 'generating'
+ * (manual Autopilot previews have no history row - nothing to update)
+ */
+async function updateHistoryForAsset(
+  assetId: string,
+  updates: { status: 'ready' | 'failed'; errorMessage?: string; completedAt: Date }
+): Promise<void> {
+  try {
+    const finished = await db
+      .update(autopilotHistory)
+      .set(updates)
+      .where(and(eq(autopilotHistory.mediaAssetId, assetId), eq(autopilotHistory.status, 'generating')))
+      .returning({ id: autopilotHistory.id });
+
+    for (const run of finished) {
+      await emitAutopilotRunEvent(run.id);
+    }
+  } catch (error: any) {
+    console.error(`[Autopilot Video] Failed to update history for ${assetId}:`, error.message);
+  }
+}
+
+function getAspectRatios(params: GenerateAutopilotVideoParams): VideoAspectRatio[] {
+  return params.aspectRatios?.length ? params.aspectRatios : [DEFAULT_VIDEO_ASPECT_RATIO];
+}
+
+/**
+ * The worker renders ratios one after another - allow each its own window
+ */
+function getRenderTimeout(params: GenerateAutopilotVideoParams): number {
+  return RENDER_TIMEOUT_MS * getAspectRatios(params).length;
 }
 
 /**
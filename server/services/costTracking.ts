@@ -0,0 +1,395 @@
+/**
+ * Provider Cost Tracking (Feb 2026)
+ *
+ * Records what every external call actually costs us (provider_costs table)
+ * and compares it against the credits charged for the same work in the admin
+ * margin report (GET /api/admin/credits/margins).
+ *
+ * Attribution:
+ * - Job ticks run inside the job's asset / user (see jobQueue.runJob)
+ * - Authenticated requests run inside the user (requireAuth) and the feature
+ *   being paid for (checkCredits)
+ * - Code that works for a specific asset or scene spec outside a job wraps
+ *   itself in runWithCostAttribution()
+ *
+ * Every submit is recorded, so retries and failover hops each show up as
+ * their own row. Simulated providers never reach the recording call sites.
+ * Recording never throws - a lost cost row must not fail a generation.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { and, gte, inArray, isNotNull, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { creditTransactions, providerCosts, users } from '@shared/schema';
+import { getGlobalSettings } from './creditService';
+
+// ==================== TYPES ====================
+
+export interface CostAttribution {
+  userId?: string | null;
+  mediaAssetId?: string | null;
+  sceneSpecId?: string | null;
+  featureKey?: string | null;
+}
+
+export type CostUnitType = 'call' | 'token' | 'character' | 'second' | 'image';
+
+export interface ProviderCostEntry {
+  provider: string;
+  operation: string;
+  units?: number;                     // defaults to 1 call
+  metadata?: Record<string, unknown>;
+  attribution?: CostAttribution;      // overrides the current context
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface MarginRow {
+  key: string;
+  label: string;
+  credits: number;
+  revenueUsd: number;
+  costUsd: number;
+  calls: number;
+  margin: number | null;              // revenue / cost, compared to markupFactor
+  flagged: boolean;
+}
+
+export interface MarginReport {
+  days: number;
+  since: string;
+  markupFactor: number;
+  pricePerCreditUsd: number;
+  totals: Omit<MarginRow, 'key' | 'label'>;
+  byFeature: MarginRow[];
+  byProvider: MarginRow[];
+  byUser: MarginRow[];
+}
+
+// ==================== RATES ====================
+
+/**
+ * Per-unit list prices for non-token calls, keyed by `${provider}:${operation}`
+ * Approximate USD; update when a provider changes its pricing.
+ */
+const UNIT_RATES: Record<string, { unitType: CostUnitType; usdPerUnit: number }> = {
+  'kie:veo3_generate': { unitType: 'call', usdPerUnit: 0.60 },
+  'kie:veo3_fast_generate': { unitType: 'call', usdPerUnit: 0.30 },
+  'kie:sora2_generate': { unitType: 'call', usdPerUnit: 0.25 },
+  'kie:flux_kontext_generate': { unitType: 'image', usdPerUnit: 0.08 },
+  'kie:4o_image_generate': { unitType: 'image', usdPerUnit: 0.03 },
+  'gemini:image_generate': { unitType: 'image', usdPerUnit: 0.039 },
+  'elevenlabs:tts': { unitType: 'character', usdPerUnit: 0.0003 },
+  'klap:video_to_shorts': { unitType: 'call', usdPerUnit: 0.44 },
+  'klap:export': { unitType: 'call', usdPerUnit: 0.48 },
+  'render-worker:remotion_render': { unitType: 'second', usdPerUnit: 0.001 },
+};
+
+/**
+ * LLM prices in USD per 1M tokens, matched by longest model prefix
+ * (so dated snapshots like gpt-4o-2024-08-06 resolve to gpt-4o)
+ */
+const TOKEN_RATES: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'claude-sonnet-4': { input: 3.00, output: 15.00 },
+};
+
+// ==================== CONTEXT ====================
+
+const costContext = new AsyncLocalStorage<CostAttribution>();
+
+/**
+ * Run fn with costs attributed to the given asset / spec / user / feature.
+ * Fields left out are inherited from the surrounding context.
+ */
+export function runWithCostAttribution<T>(attribution: CostAttribution, fn: () => T): T {
+  return costContext.run(mergeAttribution(getCostAttribution(), attribution), fn);
+}
+
+export function getCostAttribution(): CostAttribution {
+  return costContext.getStore() || {};
+}
+
+// ==================== RECORDING ====================
+
+/**
+ * Record a per-unit call (generation submit, TTS characters, render seconds)
+ */
+export async function recordProviderCost(entry: ProviderCostEntry): Promise<void> {
+  const rate = UNIT_RATES[`${entry.provider}:${entry.operation}`];
+  if (!rate) {
+    console.warn(`[Cost Tracking] No rate for ${entry.provider}:${entry.operation} - recording $0`);
+  }
+
+  const units = entry.units ?? 1;
+  await insertCost(entry, units, rate?.unitType || 'call', units * (rate?.usdPerUnit || 0));
+}
+
+/**
+ * Record an LLM call from its token usage
+ */
+export async function recordTokenCost(
+  entry: ProviderCostEntry & { model: string; usage: TokenUsage | null | undefined }
+): Promise<void> {
+  if (!entry.usage) {
+    console.warn(`[Cost Tracking] ${entry.provider}:${entry.operation} returned no token usage - not recorded`);
+    return;
+  }
+
+  const rateModel = Object.keys(TOKEN_RATES)
+    .filter(prefix => entry.model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!rateModel) {
+    console.warn(`[Cost Tracking] No token rate for model ${entry.model} - recording $0`);
+  }
+
+  const { inputTokens, outputTokens } = entry.usage;
+  const rate = rateModel ? TOKEN_RATES[rateModel] : { input: 0, output: 0 };
+  const costUsd = (inputTokens * rate.input + outputTokens * rate.output) / 1_000_000;
+
+  await insertCost(
+    { ...entry, metadata: { model: entry.model, inputTokens, outputTokens, ...entry.metadata } },
+    inputTokens + outputTokens,
+    'token',
+    costUsd
+  );
+}
+
+/**
+ * Token usage from an OpenAI (prompt/completion) or Anthropic (input/output) response
+ */
+export function toTokenUsage(usage: Record<string, any> | null | undefined): TokenUsage | null {
+  if (!usage) {
+    return null;
+  }
+  return {
+    inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? usage.output_tokens ?? 0,
+  };
+}
+
+async function insertCost(
+  entry: ProviderCostEntry,
+  units: number,
+  unitType: CostUnitType,
+  costUsd: number
+): Promise<void> {
+  const attribution = mergeAttribution(getCostAttribution(), entry.attribution);
+
+  try {
+    await db.insert(providerCosts).values({
+      userId: attribution.userId || null,
+      mediaAssetId: attribution.mediaAssetId || null,
+      sceneSpecId: attribution.sceneSpecId || null,
+      featureKey: attribution.featureKey || null,
+      provider: entry.provider,
+      operation: entry.operation,
+      units: units.toFixed(2),
+      unitType,
+      costUsd: costUsd.toFixed(4),
+      metadata: entry.metadata ?? null,
+    });
+  } catch (error: any) {
+    console.error(`[Cost Tracking] Failed to record ${entry.provider}:${entry.operation} ($${costUsd.toFixed(4)}):`, error.message);
+  }
+}
+
+// ==================== MARGIN REPORT ====================
+
+/**
+ * One charged unit of work: an asset, a scene spec, or (for features that
+ * don't create either, e.g. captions) a user's uses of a feature
+ */
+interface Generation {
+  userId: string | null;
+  featureKey: string | null;
+  credits: number;
+  costUsd: number;
+  calls: number;
+  costByProvider: Map<string, { costUsd: number; calls: number }>;
+}
+
+function generationKey(ids: { sceneSpecId?: unknown; assetId?: unknown }, featureKey: string | null, userId: string | null): string {
+  if (typeof ids.sceneSpecId === 'string') return `spec:${ids.sceneSpecId}`;
+  if (typeof ids.assetId === 'string') return `asset:${ids.assetId}`;
+  return `feature:${featureKey || 'unattributed'}:${userId || '-'}`;
+}
+
+/**
+ * Credits charged vs. provider cost over the last `days`, by feature key,
+ * provider and user. Rows whose revenue / cost drops below markupFactor
+ * are flagged as mispriced.
+ */
+export async function getMarginReport(days: number): Promise<MarginReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const settings = await getGlobalSettings();
+  const markupFactor = parseFloat(settings?.markupFactor ?? '1.40');
+  const pricePerCreditUsd = parseFloat(settings?.pricePerCreditUsd ?? '0.0200');
+
+  const [costs, charges] = await Promise.all([
+    db.select().from(providerCosts).where(gte(providerCosts.createdAt, since)),
+    // Feature charges and asset/spec refunds - purchases and admin grants carry neither
+    db.select().from(creditTransactions).where(and(
+      gte(creditTransactions.createdAt, since),
+      or(
+        isNotNull(creditTransactions.featureKey),
+        sql`${creditTransactions.metadata} ->> 'assetId' IS NOT NULL`,
+        sql`${creditTransactions.metadata} ->> 'sceneSpecId' IS NOT NULL`
+      )
+    )),
+  ]);
+
+  const generations = new Map<string, Generation>();
+  const getGeneration = (key: string, userId: string | null, featureKey: string | null) => {
+    let generation = generations.get(key);
+    if (!generation) {
+      generation = { userId, featureKey, credits: 0, costUsd: 0, calls: 0, costByProvider: new Map() };
+      generations.set(key, generation);
+    }
+    generation.userId = generation.userId || userId;
+    generation.featureKey = generation.featureKey || featureKey;
+    return generation;
+  };
+
+  for (const charge of charges) {
+    const metadata = (charge.metadata as Record<string, unknown> | null) || {};
+    const key = generationKey(metadata, charge.featureKey, charge.userId);
+    // Charges are negative amounts, refunds positive
+    getGeneration(key, charge.userId, charge.featureKey).credits -= charge.amount;
+  }
+
+  for (const cost of costs) {
+    const key = generationKey({ sceneSpecId: cost.sceneSpecId, assetId: cost.mediaAssetId }, cost.featureKey, cost.userId);
+    const generation = getGeneration(key, cost.userId, cost.featureKey);
+    const costUsd = parseFloat(cost.costUsd);
+    generation.costUsd += costUsd;
+    generation.calls += 1;
+
+    const byProvider = generation.costByProvider.get(cost.provider) || { costUsd: 0, calls: 0 };
+    byProvider.costUsd += costUsd;
+    byProvider.calls += 1;
+    generation.costByProvider.set(cost.provider, byProvider);
+  }
+
+  const byFeature = new Map<string, MarginRow>();
+  const byProvider = new Map<string, MarginRow>();
+  const byUser = new Map<string, MarginRow>();
+  const totals = emptyRow('total');
+
+  for (const generation of Array.from(generations.values())) {
+    const revenueUsd = generation.credits * pricePerCreditUsd;
+    const userKey = generation.userId || 'unknown';
+
+    for (const row of [
+      totals,
+      getRow(byFeature, generation.featureKey || 'unattributed'),
+      getRow(byUser, userKey),
+    ]) {
+      row.credits += generation.credits;
+      row.revenueUsd += revenueUsd;
+      row.costUsd += generation.costUsd;
+      row.calls += generation.calls;
+    }
+
+    // Split the generation's revenue across providers by their share of its cost
+    for (const [provider, providerCost] of Array.from(generation.costByProvider.entries())) {
+      const row = getRow(byProvider, provider);
+      const share = generation.costUsd > 0 ? providerCost.costUsd / generation.costUsd : 0;
+      row.credits += generation.credits * share;
+      row.revenueUsd += revenueUsd * share;
+      row.costUsd += providerCost.costUsd;
+      row.calls += providerCost.calls;
+    }
+  }
+
+  // Label users by email
+  const userIds = Array.from(byUser.keys()).filter(id => id !== 'unknown');
+  if (userIds.length > 0) {
+    const rows = await db.select({ id: users.id, email: users.email }).from(users).where(inArray(users.id, userIds));
+    for (const user of rows) {
+      byUser.get(user.id)!.label = user.email;
+    }
+  }
+
+  const finish = (rows: Iterable<MarginRow>) => Array.from(rows)
+    .map(row => withMargin(row, markupFactor))
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  const { key: _key, label: _label, ...totalValues } = withMargin(totals, markupFactor);
+
+  const report: MarginReport = {
+    days,
+    since: since.toISOString(),
+    markupFactor,
+    pricePerCreditUsd,
+    totals: totalValues,
+    byFeature: finish(byFeature.values()),
+    byProvider: finish(byProvider.values()),
+    byUser: finish(byUser.values()).slice(0, 50),
+  };
+
+  const flagged = report.byFeature.filter(row => row.flagged).map(row => row.key);
+  if (flagged.length > 0) {
+    console.log(`[Cost Tracking] Margin below ${markupFactor}x over ${days}d for: ${flagged.join(', ')}`);
+  }
+
+  return report;
+}
+
+// ==================== HELPERS ====================
+
+function mergeAttribution(base: CostAttribution, overrides: CostAttribution | undefined): CostAttribution {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overrides || {}) as [keyof CostAttribution, string | null | undefined][]) {
+    if (value) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+function emptyRow(key: string): MarginRow {
+  return { key, label: key, credits: 0, revenueUsd: 0, costUsd: 0, calls: 0, margin: null, flagged: false };
+}
+
+function getRow(rows: Map<string, MarginRow>, key: string): MarginRow {
+  let row = rows.get(key);
+  if (!row) {
+    row = emptyRow(key);
+    rows.set(key, row);
+  }
+  return row;
+}
+
+/**
+ * Round the sums and compute revenue / cost. Rows that cost nothing can't be
+ * mispriced; rows that cost something but earned nothing always are.
+ */
+function withMargin(row: MarginRow, markupFactor: number): MarginRow {
+  const margin = row.costUsd > 0 ? row.revenueUsd / row.costUsd : null;
+  return {
+    ...row,
+    credits: Math.round(row.credits),
+    revenueUsd: Math.round(row.revenueUsd * 10000) / 10000,
+    costUsd: Math.round(row.costUsd * 10000) / 10000,
+    margin: margin === null ? null : Math.round(margin * 100) / 100,
+    flagged: margin !== null && margin < markupFactor,
+  };
+}
+
+// ==================== EXPORTS ====================
+
+export const costTrackingService = {
+  runWithCostAttribution,
+  getCostAttribution,
+  recordProviderCost,
+  recordTokenCost,
+  toTokenUsage,
+  getMarginReport,
+};
+
+export default costTrackingService;
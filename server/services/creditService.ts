@@ -4,6 +4,8 @@
  * Core credit system business logic:
  * - Balance management
  * - Credit deduction and addition
+ * - Credit reservations for async generations (hold, then settle or release)
+ * - Subscription plan grants (monthly credits, rollover cap, expiry)
  * - Transaction logging
  * - Pricing lookups
  */
@@ -12,21 +14,33 @@ import { db } from '../db.js';
 import {
   userCredits,
   creditTransactions,
+  creditReservations,
   creditPricing,
   globalCreditSettings,
+  mediaAssets,
+  workspaces,
+  type MediaAsset,
   type UserCredits,
   type CreditTransaction,
+  type CreditReservation,
   type CreditPricing,
   type GlobalCreditSettings,
   type InsertCreditTransaction,
 } from '@shared/schema';
-import { eq, desc, sql } from 'drizzle-orm';
+import { eq, desc, sql, and, or, lte } from 'drizzle-orm';
 
 // Default credits for new users (Prosper UGC Studio: 5000)
 const DEFAULT_NEW_USER_CREDITS = 5000;
 
+// Holds still unresolved after this are released by the sweeper
+// (well past the longest generation job deadline)
+const RESERVATION_TTL_MS = 6 * 60 * 60 * 1000;
+
+// The db or an open transaction, for steps that run inside a caller's transaction
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
 /**
- * Get user's current credit balance
+ * Get user's spendable credit balance (excludes credits held by in-flight generations)
  */
 export async function getBalance(userId: string): Promise<number> {
   const [record] = await db
@@ -34,7 +48,7 @@ export async function getBalance(userId: string): Promise<number> {
     .from(userCredits)
     .where(eq(userCredits.userId, userId));
 
-  return record?.balance ?? 0;
+  return record ? record.balance - record.reserved : 0;
 }
 
 /**
@@ -99,7 +113,7 @@ export async function checkCredits(userId: string, featureKey: string): Promise<
     db.select().from(creditPricing).where(eq(creditPricing.featureKey, featureKey)),
   ]);
 
-  const balance = balanceRecord[0]?.balance ?? 0;
+  const balance = balanceRecord[0] ? balanceRecord[0].balance - balanceRecord[0].reserved : 0;
   const required = pricing[0]?.creditCost ?? 0;
   const featureName = pricing[0]?.featureName ?? featureKey;
 
@@ -137,10 +151,11 @@ export async function deductCredits(
   }
 
   const currentBalance = balanceRecord?.balance ?? 0;
+  const spendable = currentBalance - (balanceRecord?.reserved ?? 0);
   const cost = pricing.creditCost;
 
-  if (currentBalance < cost) {
-    console.warn(`[CreditService] Insufficient credits for ${userId}: has ${currentBalance}, needs ${cost}`);
+  if (spendable < cost) {
+    console.warn(`[CreditService] Insufficient credits for ${userId}: has ${spendable}, needs ${cost}`);
     return null;
   }
 
@@ -152,6 +167,7 @@ export async function deductCredits(
       .update(userCredits)
       .set({
         balance: newBalance,
+        grantBalance: sql`GREATEST(${userCredits.grantBalance} - ${cost}, 0)`, // plan credits go first
         lifetimeUsed: sql`${userCredits.lifetimeUsed} + ${cost}`,
         updatedAt: new Date(),
       })
@@ -202,9 +218,10 @@ export async function deductCreditsAmount(
     .where(eq(userCredits.userId, userId));
 
   const currentBalance = balanceRecord?.balance ?? 0;
+  const spendable = currentBalance - (balanceRecord?.reserved ?? 0);
 
-  if (currentBalance < amount) {
-    console.warn(`[CreditService] Insufficient credits for ${userId}: has ${currentBalance}, needs ${amount}`);
+  if (spendable < amount) {
+    console.warn(`[CreditService] Insufficient credits for ${userId}: has ${spendable}, needs ${amount}`);
     return null;
   }
 
@@ -216,6 +233,7 @@ export async function deductCreditsAmount(
       .update(userCredits)
       .set({
         balance: newBalance,
+        grantBalance: sql`GREATEST(${userCredits.grantBalance} - ${amount}, 0)`, // plan credits go first
         lifetimeUsed: sql`${userCredits.lifetimeUsed} + ${amount}`,
         updatedAt: new Date(),
       })
@@ -250,6 +268,10 @@ export async function deductCreditsAmount(
 
 /**
  * Add credits to user account (purchases, bonuses, refunds)
+ * Returns null if this Stripe payment was already credited - the transaction
+ * row is inserted first (ON CONFLICT DO NOTHING on the unique payment id) and
+ * the balance only moves if it claimed the payment, so a redelivered checkout
+ * webhook can't credit twice.
  */
 export async function addCredits(
   userId: string,
@@ -257,50 +279,60 @@ export async function addCredits(
   description: string,
   stripePaymentId?: string,
   metadata?: Record<string, unknown>
-): Promise<CreditTransaction> {
-  // Get current balance
-  const [balanceRecord] = await db
-    .select()
-    .from(userCredits)
-    .where(eq(userCredits.userId, userId));
+): Promise<CreditTransaction | null> {
+  const transaction = await db.transaction(async (tx) => {
+    const [claimed] = await tx
+      .insert(creditTransactions)
+      .values({
+        userId,
+        amount,
+        balanceAfter: 0, // set below, once the balance has moved
+        featureKey: null,
+        description,
+        stripePaymentId: stripePaymentId ?? null,
+        metadata: metadata ?? null,
+      })
+      .onConflictDoNothing()
+      .returning({ id: creditTransactions.id });
 
-  const currentBalance = balanceRecord?.balance ?? 0;
-  const newBalance = currentBalance + amount;
+    if (!claimed) {
+      return null;
+    }
 
-  // Update or create balance record
-  if (balanceRecord) {
-    await db
-      .update(userCredits)
-      .set({
-        balance: newBalance,
-        lifetimePurchased: sql`${userCredits.lifetimePurchased} + ${amount}`,
-        updatedAt: new Date(),
+    // Update or create balance record
+    const [balanceRecord] = await tx
+      .insert(userCredits)
+      .values({
+        userId,
+        balance: amount,
+        lifetimePurchased: amount,
+        lifetimeUsed: 0,
       })
-      .where(eq(userCredits.userId, userId));
-  } else {
-    await db.insert(userCredits).values({
-      userId,
-      balance: newBalance,
-      lifetimePurchased: amount,
-      lifetimeUsed: 0,
-    });
-  }
+      .onConflictDoUpdate({
+        target: userCredits.userId,
+        set: {
+          balance: sql`${userCredits.balance} + ${amount}`,
+          lifetimePurchased: sql`${userCredits.lifetimePurchased} + ${amount}`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning({ balance: userCredits.balance });
 
-  // Log transaction
-  const [transaction] = await db
-    .insert(creditTransactions)
-    .values({
-      userId,
-      amount,
-      balanceAfter: newBalance,
-      featureKey: null,
-      description,
-      stripePaymentId: stripePaymentId ?? null,
-      metadata: metadata ?? null,
-    })
-    .returning();
+    const [added] = await tx
+      .update(creditTransactions)
+      .set({ balanceAfter: balanceRecord.balance })
+      .where(eq(creditTransactions.id, claimed.id))
+      .returning();
+
+    return added;
+  });
 
-  console.log(`[CreditService] Added ${amount} credits to ${userId}. New balance: ${newBalance}`);
+  if (!transaction) {
+    console.log(`[CreditService] Payment ${stripePaymentId} already credited, skipping`);
+    return null;
+  }
+
+  console.log(`[CreditService] Added ${amount} credits to ${userId}. New balance: ${transaction.balanceAfter}`);
 
   return transaction;
 }
@@ -444,13 +476,363 @@ export async function adminAddCredits(
   userId: string,
   amount: number,
   reason: string
-): Promise<CreditTransaction> {
+): Promise<CreditTransaction | null> {
   return addCredits(userId, amount, `Admin: ${reason}`, undefined, {
     type: 'admin_grant',
     reason,
   });
 }
 
+// ==================== CREDIT RESERVATIONS (Feb 2026) ====================
+
+/**
+ * What a hold is for - the asset (or Content Engine spec) whose outcome
+ * settles or releases it, plus metadata copied onto the final entry
+ */
+export interface ReservationTarget {
+  mediaAssetId?: string;
+  sceneSpecId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Hold a feature's credits for an async generation
+ * Returns null if the spendable balance is too low (or the feature has no price)
+ */
+export async function holdCredits(
+  userId: string,
+  featureKey: string,
+  target: ReservationTarget
+): Promise<CreditReservation | null> {
+  const pricing = await getFeaturePricing(featureKey);
+  if (!pricing) {
+    console.error(`[CreditService] No pricing for feature: ${featureKey}`);
+    return null;
+  }
+
+  return placeHold(userId, pricing.creditCost, featureKey, `Used ${pricing.featureName}`, target);
+}
+
+/**
+ * Hold a specific amount of credits (dynamic pricing, see deductCreditsAmount)
+ */
+export async function holdCreditsAmount(
+  userId: string,
+  amount: number,
+  description: string,
+  target: ReservationTarget
+): Promise<CreditReservation | null> {
+  return placeHold(userId, amount, 'ugc_dynamic', description, target);
+}
+
+async function placeHold(
+  userId: string,
+  amount: number,
+  featureKey: string,
+  description: string,
+  target: ReservationTarget
+): Promise<CreditReservation | null> {
+  // Reserve only if the spendable balance covers it (single atomic update)
+  const [held] = await db
+    .update(userCredits)
+    .set({
+      reserved: sql`${userCredits.reserved} + ${amount}`,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(userCredits.userId, userId),
+      sql`${userCredits.balance} - ${userCredits.reserved} >= ${amount}`
+    ))
+    .returning({ reserved: userCredits.reserved });
+
+  if (!held) {
+    console.warn(`[CreditService] Insufficient credits for ${userId} to hold ${amount} for ${featureKey}`);
+    return null;
+  }
+
+  const [reservation] = await db
+    .insert(creditReservations)
+    .values({
+      userId,
+      amount,
+      featureKey,
+      description,
+      mediaAssetId: target.mediaAssetId ?? null,
+      sceneSpecId: target.sceneSpecId ?? null,
+      metadata: target.metadata ?? null,
+      expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+    })
+    .returning();
+
+  console.log(`[CreditService] Held ${amount} credits for ${userId} (${featureKey}) reservation=${reservation.id} asset=${target.mediaAssetId || '-'}`);
+
+  return reservation;
+}
+
+/**
+ * Turn a hold into a credit_transactions debit (generation succeeded)
+ * Returns null if the reservation was already settled or released.
+ */
+export async function settleReservation(reservationId: string): Promise<CreditTransaction | null> {
+  const reservation = await claimReservation(reservationId, 'settled');
+  if (!reservation) {
+    return null;
+  }
+
+  const [balanceRecord] = await db
+    .update(userCredits)
+    .set({
+      balance: sql`${userCredits.balance} - ${reservation.amount}`,
+      grantBalance: sql`GREATEST(${userCredits.grantBalance} - ${reservation.amount}, 0)`,
+      reserved: sql`GREATEST(${userCredits.reserved} - ${reservation.amount}, 0)`,
+      lifetimeUsed: sql`${userCredits.lifetimeUsed} + ${reservation.amount}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(userCredits.userId, reservation.userId))
+    .returning({ balance: userCredits.balance });
+
+  const [transaction] = await db
+    .insert(creditTransactions)
+    .values({
+      userId: reservation.userId,
+      amount: -reservation.amount,
+      balanceAfter: balanceRecord?.balance ?? 0,
+      featureKey: reservation.featureKey,
+      description: reservation.description,
+      metadata: { ...linkedMetadata(reservation), reservationId: reservation.id },
+    })
+    .returning();
+
+  await db
+    .update(creditReservations)
+    .set({ transactionId: transaction.id })
+    .where(eq(creditReservations.id, reservation.id));
+
+  console.log(`[CreditService] Settled reservation=${reservation.id}: deducted ${reservation.amount} credits from ${reservation.userId}`);
+
+  return transaction;
+}
+
+/**
+ * Give a hold back (generation failed or timed out). The reversal entry is
+ * zero-amount - nothing was debited - and links the reservation so the
+ * user's history shows why the credits came back.
+ */
+export async function releaseReservation(reservationId: string, reason: string): Promise<CreditTransaction | null> {
+  const reservation = await claimReservation(reservationId, 'released', reason);
+  if (!reservation) {
+    return null;
+  }
+
+  const [balanceRecord] = await db
+    .update(userCredits)
+    .set({
+      reserved: sql`GREATEST(${userCredits.reserved} - ${reservation.amount}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(userCredits.userId, reservation.userId))
+    .returning({ balance: userCredits.balance });
+
+  const [transaction] = await db
+    .insert(creditTransactions)
+    .values({
+      userId: reservation.userId,
+      amount: 0,
+      balanceAfter: balanceRecord?.balance ?? 0,
+      featureKey: reservation.featureKey,
+      description: `Released ${reservation.amount} held credits: ${reservation.description} (${reason})`,
+      metadata: {
+        ...linkedMetadata(reservation),
+        reservationId: reservation.id,
+        releasedCredits: reservation.amount,
+        reason,
+      },
+    })
+    .returning();
+
+  await db
+    .update(creditReservations)
+    .set({ transactionId: transaction.id })
+    .where(eq(creditReservations.id, reservation.id));
+
+  console.log(`[CreditService] Released reservation=${reservation.id}: ${reservation.amount} credits back to ${reservation.userId} (${reason})`);
+
+  return transaction;
+}
+
+/**
+ * Lower a held amount, e.g. when failover moves a generation to a cheaper
+ * provider. Returns the credits taken off, or 0 if the asset has no hold.
+ */
+export async function reduceAssetReservation(mediaAssetId: string, by: number): Promise<number> {
+  const [reservation] = await getHeldReservations(mediaAssetId, null);
+  if (!reservation || by <= 0) {
+    return 0;
+  }
+
+  const reduction = Math.min(by, reservation.amount);
+  const [updated] = await db
+    .update(creditReservations)
+    .set({ amount: sql`${creditReservations.amount} - ${reduction}` })
+    .where(and(eq(creditReservations.id, reservation.id), eq(creditReservations.status, 'held')))
+    .returning({ id: creditReservations.id });
+
+  if (!updated) {
+    return 0;
+  }
+
+  await db
+    .update(userCredits)
+    .set({
+      reserved: sql`GREATEST(${userCredits.reserved} - ${reduction}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(userCredits.userId, reservation.userId));
+
+  console.log(`[CreditService] Reduced reservation=${reservation.id} by ${reduction} credits`);
+  return reduction;
+}
+
+/**
+ * The account an asset was charged to - its latest hold's, else its
+ * workspace owner's (the pool holds are placed on), else its creator's
+ */
+export async function getAssetCreditAccountId(
+  asset: Pick<MediaAsset, 'id' | 'userId' | 'workspaceId'>
+): Promise<string> {
+  const [reservation] = await db
+    .select({ userId: creditReservations.userId })
+    .from(creditReservations)
+    .where(eq(creditReservations.mediaAssetId, asset.id))
+    .orderBy(desc(creditReservations.createdAt))
+    .limit(1);
+  if (reservation) {
+    return reservation.userId;
+  }
+
+  if (asset.workspaceId) {
+    const [workspace] = await db
+      .select({ ownerId: workspaces.ownerId })
+      .from(workspaces)
+      .where(eq(workspaces.id, asset.workspaceId));
+    if (workspace) {
+      return workspace.ownerId;
+    }
+  }
+
+  return asset.userId;
+}
+
+/**
+ * Hold credits again for a retried asset, matching its last released hold.
+ * Returns undefined when the asset never had a hold (nothing to charge),
+ * null when the spendable balance is too low.
+ */
+export async function reholdAssetReservation(mediaAssetId: string): Promise<CreditReservation | null | undefined> {
+  const [previous] = await db
+    .select()
+    .from(creditReservations)
+    .where(and(eq(creditReservations.mediaAssetId, mediaAssetId), eq(creditReservations.status, 'released')))
+    .orderBy(desc(creditReservations.createdAt))
+    .limit(1);
+
+  if (!previous) {
+    return undefined;
+  }
+
+  return placeHold(previous.userId, previous.amount, previous.featureKey, previous.description, {
+    mediaAssetId,
+    sceneSpecId: previous.sceneSpecId ?? undefined,
+    metadata: (previous.metadata as Record<string, unknown> | null) ?? undefined,
+  });
+}
+
+/**
+ * Settle or release the holds on an asset once it has finished:
+ * ready → settle, failed → release, still processing → leave held.
+ * Content Engine holds are matched through the asset's scene spec.
+ */
+export async function resolveAssetReservations(mediaAssetId: string): Promise<void> {
+  const [asset] = await db
+    .select({ status: mediaAssets.status, errorMessage: mediaAssets.errorMessage, sceneSpecId: mediaAssets.sceneSpecId })
+    .from(mediaAssets)
+    .where(eq(mediaAssets.id, mediaAssetId));
+
+  if (!asset || asset.status === 'processing') {
+    return;
+  }
+
+  const held = await getHeldReservations(mediaAssetId, asset.sceneSpecId);
+  for (const reservation of held) {
+    if (asset.status === 'ready') {
+      await settleReservation(reservation.id);
+    } else {
+      await releaseReservation(reservation.id, asset.errorMessage || 'Generation failed');
+    }
+  }
+}
+
+/**
+ * Safety net for holds nothing resolved (asset deleted, job lost):
+ * finished assets settle or release as usual, anything else is released
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const expired = await db
+    .select()
+    .from(creditReservations)
+    .where(and(eq(creditReservations.status, 'held'), lte(creditReservations.expiresAt, new Date())));
+
+  for (const reservation of expired) {
+    if (reservation.mediaAssetId) {
+      await resolveAssetReservations(reservation.mediaAssetId);
+    }
+    await releaseReservation(reservation.id, 'Reservation expired');
+  }
+
+  if (expired.length > 0) {
+    console.log(`[CreditService] Resolved ${expired.length} expired reservation(s)`);
+  }
+  return expired.length;
+}
+
+function getHeldReservations(mediaAssetId: string, sceneSpecId: string | null): Promise<CreditReservation[]> {
+  return db
+    .select()
+    .from(creditReservations)
+    .where(and(
+      eq(creditReservations.status, 'held'),
+      sceneSpecId
+        ? or(eq(creditReservations.mediaAssetId, mediaAssetId), eq(creditReservations.sceneSpecId, sceneSpecId))
+        : eq(creditReservations.mediaAssetId, mediaAssetId)
+    ))
+    .orderBy(creditReservations.createdAt);
+}
+
+/**
+ * Move a held reservation to its final status (exactly once)
+ */
+async function claimReservation(
+  reservationId: string,
+  status: 'settled' | 'released',
+  releaseReason?: string
+): Promise<CreditReservation | null> {
+  const [reservation] = await db
+    .update(creditReservations)
+    .set({ status, releaseReason: releaseReason ?? null, resolvedAt: new Date() })
+    .where(and(eq(creditReservations.id, reservationId), eq(creditReservations.status, 'held')))
+    .returning();
+
+  return reservation ?? null;
+}
+
+function linkedMetadata(reservation: CreditReservation): Record<string, unknown> {
+  return {
+    ...(reservation.metadata as Record<string, unknown> | null),
+    ...(reservation.mediaAssetId && { assetId: reservation.mediaAssetId }),
+    ...(reservation.sceneSpecId && { sceneSpecId: reservation.sceneSpecId }),
+  };
+}
+
 /**
  * Credit packages available for purchase (Updated Dec 2025)
  */
@@ -508,6 +890,191 @@ export function getCreditPackage(packageId: string): CreditPackage | undefined {
   return CREDIT_PACKAGES.find((p) => p.id === packageId);
 }
 
+// ==================== SUBSCRIPTION PLANS (Feb 2026) ====================
+
+/**
+ * Monthly subscription plans. Each paid invoice grants monthlyCredits;
+ * unused grant credits carry over up to rolloverCap, the rest expire.
+ * Top-up packs (CREDIT_PACKAGES) stay separate and never expire.
+ */
+export const SUBSCRIPTION_PLANS = [
+  {
+    id: 'creator',
+    name: 'Creator',
+    monthlyCredits: 1000,
+    rolloverCap: 500,
+    priceUsd: 19,
+  },
+  {
+    id: 'growth',
+    name: 'Growth',
+    monthlyCredits: 3500,
+    rolloverCap: 2000,
+    priceUsd: 59,
+    badge: 'Most Popular',
+  },
+  {
+    id: 'scale',
+    name: 'Scale',
+    monthlyCredits: 10000,
+    rolloverCap: 10000,
+    priceUsd: 149,
+  },
+] as const;
+
+export type SubscriptionPlan = typeof SUBSCRIPTION_PLANS[number];
+
+/**
+ * Get subscription plan by ID
+ */
+export function getSubscriptionPlan(planId: string): SubscriptionPlan | undefined {
+  return SUBSCRIPTION_PLANS.find((p) => p.id === planId);
+}
+
+/**
+ * Grant a plan's monthly credits for a paid invoice.
+ * Grant credits left from the last period roll over up to the plan's cap;
+ * the excess expires first (its own transaction) so the history explains it.
+ * Returns null if this invoice was already granted.
+ *
+ * The invoice is claimed by inserting the grant's transaction row first
+ * (ON CONFLICT DO NOTHING on the unique payment id) inside one database
+ * transaction, so two deliveries of the same invoice can't both grant.
+ */
+export async function grantSubscriptionCredits(
+  userId: string,
+  plan: SubscriptionPlan,
+  stripeInvoiceId: string
+): Promise<CreditTransaction | null> {
+  const transaction = await db.transaction(async (tx) => {
+    const [claimed] = await tx
+      .insert(creditTransactions)
+      .values({
+        userId,
+        amount: plan.monthlyCredits,
+        balanceAfter: 0, // set below, once the balance has moved
+        featureKey: null,
+        description: `${plan.name} plan: monthly credits`,
+        stripePaymentId: stripeInvoiceId,
+        metadata: { type: 'subscription_grant', planId: plan.id },
+      })
+      .onConflictDoNothing()
+      .returning({ id: creditTransactions.id });
+
+    if (!claimed) {
+      return null;
+    }
+
+    const [record] = await tx
+      .select()
+      .from(userCredits)
+      .where(eq(userCredits.userId, userId));
+
+    const unused = record ? Math.min(record.grantBalance, record.balance) : 0;
+    const excess = Math.max(0, unused - plan.rolloverCap);
+    const expired = excess > 0
+      ? await expireGrantCredits(userId, excess, `Expired ${excess} unused ${plan.name} plan credits (rollover cap ${plan.rolloverCap})`, {
+          planId: plan.id,
+          rolloverCap: plan.rolloverCap,
+        }, tx)
+      : 0;
+
+    const [balanceRecord] = record
+      ? await tx
+          .update(userCredits)
+          .set({
+            balance: sql`${userCredits.balance} + ${plan.monthlyCredits}`,
+            grantBalance: sql`${userCredits.grantBalance} + ${plan.monthlyCredits}`,
+            lifetimePurchased: sql`${userCredits.lifetimePurchased} + ${plan.monthlyCredits}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(userCredits.userId, userId))
+          .returning({ balance: userCredits.balance })
+      : await tx
+          .insert(userCredits)
+          .values({
+            userId,
+            balance: plan.monthlyCredits,
+            grantBalance: plan.monthlyCredits,
+            lifetimePurchased: plan.monthlyCredits,
+            lifetimeUsed: 0,
+          })
+          .returning({ balance: userCredits.balance });
+
+    const [granted] = await tx
+      .update(creditTransactions)
+      .set({
+        balanceAfter: balanceRecord.balance,
+        metadata: {
+          type: 'subscription_grant',
+          planId: plan.id,
+          rolledOver: unused - expired,
+          expired,
+        },
+      })
+      .where(eq(creditTransactions.id, claimed.id))
+      .returning();
+
+    console.log(`[CreditService] Granted ${plan.monthlyCredits} ${plan.id} plan credits to ${userId} (rolled over ${unused - expired}, expired ${expired})`);
+
+    return granted;
+  });
+
+  if (!transaction) {
+    console.log(`[CreditService] Invoice ${stripeInvoiceId} already granted, skipping`);
+  }
+
+  return transaction;
+}
+
+/**
+ * Expire grant credits (rollover excess, or everything when a plan ends).
+ * Never touches top-up credits, and never expires credits that are held
+ * by in-flight generations. Returns the credits actually expired.
+ */
+export async function expireGrantCredits(
+  userId: string,
+  amount: number,
+  description: string,
+  metadata?: Record<string, unknown>,
+  executor: DbExecutor = db
+): Promise<number> {
+  const [record] = await executor
+    .select()
+    .from(userCredits)
+    .where(eq(userCredits.userId, userId));
+
+  const expired = record
+    ? Math.min(amount, record.grantBalance, record.balance - record.reserved)
+    : 0;
+  if (expired <= 0) {
+    return 0;
+  }
+
+  const [balanceRecord] = await executor
+    .update(userCredits)
+    .set({
+      balance: sql`${userCredits.balance} - ${expired}`,
+      grantBalance: sql`GREATEST(${userCredits.grantBalance} - ${expired}, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(eq(userCredits.userId, userId))
+    .returning({ balance: userCredits.balance });
+
+  await executor.insert(creditTransactions).values({
+    userId,
+    amount: -expired,
+    balanceAfter: balanceRecord.balance,
+    featureKey: null,
+    description,
+    metadata: { ...metadata, type: 'grant_expiry' },
+  });
+
+  console.log(`[CreditService] Expired ${expired} grant credits for ${userId}`);
+
+  return expired;
+}
+
 // ==================== CONTENT ENGINE CREDITS (Jan 2026) ====================
 
 /**
@@ -563,26 +1130,30 @@ export async function checkContentEngineCredits(
 }
 
 /**
- * Deduct credits for Content Engine render
+ * Hold credits for a Content Engine render - settled when the rendered
+ * asset is ready, released if the render fails
  */
-export async function deductContentEngineCredits(
+export async function holdContentEngineCredits(
   userId: string,
   durationSeconds: number,
   sceneSpecId: string,
   title: string
-): Promise<CreditTransaction | null> {
+): Promise<CreditReservation | null> {
   const cost = calculateContentEngineCredits(durationSeconds);
   const durationMinutes = Math.round(durationSeconds / 60);
   
-  return deductCreditsAmount(
+  return holdCreditsAmount(
     userId,
     cost,
     `Content Engine: ${title} (${durationMinutes} min)`,
     {
-      type: 'content_engine_render',
       sceneSpecId,
-      durationSeconds,
-      durationMinutes,
+      metadata: {
+        type: 'content_engine_render',
+        sceneSpecId,
+        durationSeconds,
+        durationMinutes,
+      },
     }
   );
 }
@@ -0,0 +1,245 @@
+/**
+ * Provider Failover (Feb 2026)
+ *
+ * Moves UGC assets down their mode's failover chain (shared/failoverPolicies.ts)
+ * when the current provider fails, times out or reports ready without a URL.
+ * The generation jobs decide when something went wrong and start the returned
+ * step; this service decides whether the policy allows another hop, records it
+ * on chain_metadata.failover and refunds the price difference when the new
+ * provider is cheaper.
+ *
+ * Assets without a UGC mode (AI Studio) don't fail over, except Sora2 which
+ * keeps the Sora2 policy (it always fell back to Veo3).
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { failoverPolicies, type MediaAsset } from '@shared/schema';
+import { getMediaProvider } from '@shared/mediaProviders';
+import {
+  DEFAULT_FAILOVER_POLICIES,
+  UGC_GENERATION_MODES,
+  isUgcGenerationMode,
+  matchesFailoverTrigger,
+  type FailoverHop,
+  type FailoverPolicy,
+  type FailoverState,
+  type FailoverStep,
+  type FailoverTrigger,
+  type FailoverTriggers,
+  type UgcGenerationMode,
+} from '@shared/failoverPolicies';
+import { storage } from '../storage';
+import { addCredits, getAssetCreditAccountId, reduceAssetReservation } from './creditService';
+
+// ==================== TYPES ====================
+
+/**
+ * What went wrong with the current step
+ */
+export interface FailoverEvent {
+  trigger: FailoverTrigger;
+  reason: string;
+  errorCode?: string;
+}
+
+// ==================== POLICIES ====================
+
+/**
+ * Policy for every UGC mode (saved row, or the default)
+ */
+export async function getFailoverPolicies(): Promise<FailoverPolicy[]> {
+  const rows = await db.select().from(failoverPolicies);
+  return UGC_GENERATION_MODES.map(mode => {
+    const row = rows.find(r => r.mode === mode);
+    return row ? toPolicy(mode, row) : DEFAULT_FAILOVER_POLICIES[mode];
+  });
+}
+
+export async function getFailoverPolicy(mode: UgcGenerationMode): Promise<FailoverPolicy> {
+  const [row] = await db.select().from(failoverPolicies).where(eq(failoverPolicies.mode, mode));
+  return row ? toPolicy(mode, row) : DEFAULT_FAILOVER_POLICIES[mode];
+}
+
+/**
+ * Create or replace a mode's policy (validated by the admin route)
+ */
+export async function saveFailoverPolicy(policy: FailoverPolicy): Promise<FailoverPolicy> {
+  const values = {
+    enabled: policy.enabled,
+    chain: policy.chain,
+    triggers: policy.triggers,
+    maxTotalAttempts: policy.maxTotalAttempts,
+    creditAdjustment: policy.creditAdjustment,
+  };
+
+  const [row] = await db
+    .insert(failoverPolicies)
+    .values({ mode: policy.mode, ...values })
+    .onConflictDoUpdate({
+      target: failoverPolicies.mode,
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+
+  console.log(`[Failover] Policy saved mode=${policy.mode} chain=${policy.chain.map(s => s.label).join(' → ')}`);
+  return toPolicy(policy.mode, row);
+}
+
+/**
+ * Drop a mode's saved policy so it falls back to the default
+ */
+export async function resetFailoverPolicy(mode: UgcGenerationMode): Promise<FailoverPolicy> {
+  await db.delete(failoverPolicies).where(eq(failoverPolicies.mode, mode));
+  console.log(`[Failover] Policy reset to default mode=${mode}`);
+  return DEFAULT_FAILOVER_POLICIES[mode];
+}
+
+// ==================== FAILOVER ====================
+
+/**
+ * Policy mode an asset fails over under, or null if it never fails over
+ */
+export function getFailoverMode(asset: Pick<MediaAsset, 'generationMode' | 'provider'>): UgcGenerationMode | null {
+  if (isUgcGenerationMode(asset.generationMode)) {
+    return asset.generationMode;
+  }
+  return getMediaProvider(asset.provider)?.id === 'kie-sora2' ? 'sora2' : null;
+}
+
+/**
+ * Move an asset to the next step of its failover chain
+ *
+ * Returns the step the caller should start, or null when the policy doesn't
+ * allow another hop (disabled, trigger not configured, chain exhausted or
+ * maxTotalAttempts reached) - the caller then fails the asset as before.
+ */
+export async function failoverAsset(assetId: string, event: FailoverEvent): Promise<FailoverStep | null> {
+  const asset = await storage.getMediaAsset(assetId);
+  if (!asset) {
+    return null;
+  }
+
+  const mode = getFailoverMode(asset);
+  if (!mode) {
+    return null;
+  }
+
+  const chainMetadata = (asset.chainMetadata as { failover?: FailoverState } | null) || {};
+  const state: FailoverState = chainMetadata.failover
+    || { mode, stepIndex: 0, attempts: 1, creditsRefunded: 0, hops: [] };
+  const policy = await getFailoverPolicy(state.mode);
+
+  const from = policy.chain[state.stepIndex];
+  const to = policy.chain[state.stepIndex + 1];
+
+  if (!policy.enabled || !matchesFailoverTrigger(policy.triggers, event.trigger, event.errorCode)) {
+    console.log(`[Failover] no_hop id=${assetId} mode=${state.mode} trigger=${event.trigger} code=${event.errorCode || '-'} reason=not_configured`);
+    return null;
+  }
+  if (!from || !to || state.attempts >= policy.maxTotalAttempts) {
+    console.log(`[Failover] no_hop id=${assetId} mode=${state.mode} step=${state.stepIndex} attempts=${state.attempts}/${policy.maxTotalAttempts} reason=exhausted`);
+    return null;
+  }
+
+  const creditsRefunded = await refundPriceDifference(asset, policy, state, from, to);
+
+  const hop: FailoverHop = {
+    fromProvider: from.provider,
+    fromLabel: from.label,
+    toProvider: to.provider,
+    toLabel: to.label,
+    trigger: event.trigger,
+    ...(event.errorCode && { errorCode: event.errorCode }),
+    reason: event.reason,
+    creditsRefunded,
+    at: new Date().toISOString(),
+  };
+
+  const failover: FailoverState = {
+    mode: state.mode,
+    stepIndex: state.stepIndex + 1,
+    attempts: state.attempts + 1,
+    creditsRefunded: state.creditsRefunded + creditsRefunded,
+    hops: [...state.hops, hop],
+  };
+
+  await storage.updateMediaAsset(assetId, {
+    chainMetadata: { ...chainMetadata, failover },
+  });
+
+  console.log(`[Failover] hop id=${assetId} mode=${state.mode} ${from.label} → ${to.label} trigger=${event.trigger} code=${event.errorCode || '-'} refunded=${creditsRefunded}`);
+  return to;
+}
+
+// ==================== HELPERS ====================
+
+function toPolicy(mode: UgcGenerationMode, row: typeof failoverPolicies.$inferSelect): FailoverPolicy {
+  return {
+    mode,
+    enabled: row.enabled,
+    chain: row.chain as FailoverStep[],
+    triggers: row.triggers as FailoverTriggers,
+    maxTotalAttempts: row.maxTotalAttempts,
+    creditAdjustment: row.creditAdjustment as FailoverPolicy['creditAdjustment'],
+  };
+}
+
+/**
+ * Refund what the user overpaid for the cheaper step, relative to the
+ * credits charged at creation. Never charges more for a pricier step.
+ * While the credits are still held, the hold is lowered instead.
+ */
+async function refundPriceDifference(
+  asset: MediaAsset,
+  policy: FailoverPolicy,
+  state: FailoverState,
+  from: FailoverStep,
+  to: FailoverStep
+): Promise<number> {
+  const primary = policy.chain[0];
+  const charged = (asset.metadata as any)?.creditsPricing?.totalCredits as number | undefined;
+  if (policy.creditAdjustment !== 'refund_difference' || !charged || primary.credits <= 0) {
+    return 0;
+  }
+
+  const stepPrice = Math.round(charged * to.credits / primary.credits);
+  const refund = Math.max(0, charged - stepPrice - state.creditsRefunded);
+  if (refund === 0) {
+    return 0;
+  }
+
+  try {
+    const reduced = await reduceAssetReservation(asset.id, refund);
+    if (reduced > 0) {
+      return reduced;
+    }
+
+    // Back to the account that paid - the workspace pool, not the asset's creator
+    const creditAccountId = await getAssetCreditAccountId(asset);
+    await addCredits(creditAccountId, refund, `Refund: ${from.label} → ${to.label} failover`, undefined, {
+      assetId: asset.id,
+      mode: state.mode,
+      fromProvider: from.provider,
+      toProvider: to.provider,
+    });
+    return refund;
+  } catch (error: any) {
+    // The hop still happens - a failed refund shouldn't fail the generation
+    console.error(`[Failover] Refund of ${refund} credits failed for asset ${asset.id}:`, error.message);
+    return 0;
+  }
+}
+
+// ==================== EXPORTS ====================
+
+export const failoverService = {
+  getFailoverPolicies,
+  getFailoverPolicy,
+  saveFailoverPolicy,
+  resetFailoverPolicy,
+  getFailoverMode,
+  failoverAsset,
+};
+
+export default failoverService;
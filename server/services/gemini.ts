@@ -7,11 +7,15 @@
  * For MVP, we're using a placeholder. In production, implement Supabase Storage upload.
  */
 
+import { SIMULATED_PROVIDERS } from './simulated/core';
+import { simulatedGeminiService } from './simulated/gemini';
+import { recordProviderCost } from './costTracking';
+
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
 const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
 
-if (!GEMINI_API_KEY) {
+if (!GEMINI_API_KEY && !SIMULATED_PROVIDERS) {
   console.warn('[Gemini Service] Warning: GEMINI_API_KEY not configured');
 }
 
@@ -29,7 +33,7 @@ export interface GeminiImageResult {
   };
 }
 
-export const geminiService = {
+const liveGeminiService = {
   /**
    * Generate image using Gemini 2.5 Flash
    */
@@ -84,6 +88,9 @@ export const geminiService = {
       throw new Error(`Gemini API Error (${response.status}): ${errorMessage}`);
     }
 
+    // Billed per request, even when no image comes back
+    await recordProviderCost({ provider: 'gemini', operation: 'image_generate', metadata: { model: GEMINI_MODEL } });
+
     // Extract image data from response
     // Note: Gemini's actual response structure may vary based on the model and capabilities
     // This is a simplified implementation that needs to be adapted based on actual API behavior
@@ -127,3 +134,8 @@ export const geminiService = {
     return `data:image/png;base64,${base64Data}`;
   },
 };
+
+/**
+ * Offline stand-in when PROVIDER_MODE=simulated (see simulated/core.ts)
+ */
+export const geminiService: typeof liveGeminiService = SIMULATED_PROVIDERS ? simulatedGeminiService : liveGeminiService;
@@ -0,0 +1,693 @@
+/**
+ * Generation Job Handlers (Feb 2026)
+ *
+ * Durable replacements for the background loops that used to live in routes.ts:
+ * - media_generation: direct KIE/Gemini generation (Mode B/C, AI Studio),
+ *   moving down the mode's provider failover chain (see failover.ts)
+ * - ugc_chain: NanoBanana + Veo3 chain workflow (Mode A)
+ *
+ * Each tick performs a single status check and persists its progress in
+ * generation_jobs.state, so a restart resumes polling instead of orphaning
+ * the asset in 'processing'. KIE callbacks wake these jobs early (see
+ * kieCallbacks.ts).
+ */
+
+import type { GenerationJob } from '@shared/schema';
+import { storage } from '../storage';
+import { generateMedia, checkMediaStatus } from './mediaGen';
+import { MEDIA_PROVIDERS, getMediaProvider, resolveProviderDuration } from '@shared/mediaProviders';
+import { ugcChainService, type ChainMetadata, type StartChainParams } from './ugcChain';
+import {
+  enqueueJob,
+  registerJobHandler,
+  type JobHandler,
+  type JobTickResult,
+} from './jobQueue';
+import { registerRenderEventHandler } from './renderCallbacks';
+import { ugcVideoJobHandler, ugcRenderEventHandler } from './ugcVideoService';
+import { autopilotVideoJobHandler, autopilotRenderEventHandler } from './autopilotVideoService';
+import { automationRenderJobHandler } from './renderers/automation';
+import { remotionRenderJobHandler, remotionRenderEventHandler } from './renderers/remotion';
+import { webhookDeliveryJobHandler } from './webhooks';
+import { videoThumbnailsJobHandler, enqueueVideoThumbnails } from './videoThumbnails';
+import { reportAssetProgress } from './assetProgress';
+import { getKiePollInterval } from './kieCallbacks';
+import { failoverAsset, type FailoverEvent } from './failover';
+import { sendVideoCompleteNotification } from './resendService';
+
+// ==================== TYPES ====================
+
+export interface MediaGenerationParams {
+  provider: string;
+  type: string;
+  prompt: string;
+  referenceImageUrl?: string;
+  options?: any;
+}
+
+interface MediaGenerationState {
+  // sora2_polling / veo3_fallback: jobs queued before failover policies
+  phase: 'start' | 'polling' | 'sora2_polling' | 'veo3_fallback';
+  params?: MediaGenerationParams; // failover step being generated (payload holds the first one)
+  startAttempts?: number;
+  taskId?: string;
+  startedAt?: string;
+  pollAttempts?: number;
+  readyWithoutUrlPolls?: number;
+  fallbackStartedAt?: string;
+}
+
+interface ChainJobPayload {
+  start?: Omit<StartChainParams, 'assetId'>;
+}
+
+interface ChainJobState {
+  phase: 'start' | 'polling';
+  startedAt?: string;
+  pollAttempts?: number;
+}
+
+// ==================== CONFIG ====================
+
+// 15 seconds between provider status checks - a 60s safety-net sweep when
+// KIE callbacks are enabled (callbacks wake the job early, see kieCallbacks.ts)
+const POLL_INTERVAL_MS = 15000;
+const START_RETRY_DELAY_MS = 2000;
+
+// Direct generation (Mode B/C) - per provider in the failover chain
+const MEDIA_TIMEOUT_MS = 3 * 60 * 1000;      // Veo3 / image hard timeout
+const MEDIA_MAX_POLL_ATTEMPTS = 24;
+const SORA2_TIMEOUT_MS = 180 * 1000;         // before failing over
+const SORA2_MAX_POLL_ATTEMPTS = 12;
+const READY_WITHOUT_URL_MAX_POLLS = 5;       // 'ready' checks without a URL before failing over
+const MEDIA_JOB_DEADLINE_MS = 12 * 60 * 1000; // covers a three-provider failover chain
+
+// Chain workflow (Mode A)
+const CHAIN_TIMEOUT_MS = 10 * 60 * 1000;     // hard cap for full chain
+const CHAIN_MAX_POLL_ATTEMPTS = 40;
+const STEP_TIMEOUT_MS = {
+  generating_image: 3 * 60 * 1000,
+  analyzing_image: 2 * 60 * 1000,
+  generating_video: 3 * 60 * 1000,
+};
+
+// ==================== ENQUEUE ====================
+
+/**
+ * Queue direct media generation for an asset.
+ * Chain assets (Mode A) are routed to the chain workflow instead.
+ */
+export async function enqueueMediaGeneration(
+  assetId: string,
+  params: MediaGenerationParams
+): Promise<void> {
+  const asset = await storage.getMediaAsset(assetId);
+  if (asset?.generationMode === 'nanobana+veo3') {
+    await enqueueChainWorkflow(assetId);
+    return;
+  }
+
+  // ✅ LIFECYCLE LOG: Job started
+  console.log(`[ugc] job_created id=${assetId} provider=${params.provider} mode=direct`);
+
+  await enqueueJob({
+    type: 'media_generation',
+    mediaAssetId: assetId,
+    userId: asset?.userId,
+    payload: params,
+    state: { phase: 'start' },
+    deadlineMs: MEDIA_JOB_DEADLINE_MS,
+  });
+  reportAssetProgress(assetId, asset?.userId, 'generating');
+}
+
+/**
+ * Queue the NanoBanana + Veo3 chain for an asset.
+ * When start params are given the job also kicks off the image generation.
+ */
+export async function enqueueChainWorkflow(
+  assetId: string,
+  start?: Omit<StartChainParams, 'assetId'>
+): Promise<void> {
+  const asset = await storage.getMediaAsset(assetId);
+
+  await enqueueJob({
+    type: 'ugc_chain',
+    mediaAssetId: assetId,
+    userId: asset?.userId,
+    payload: { start } as ChainJobPayload,
+    state: { phase: start ? 'start' : 'polling', startedAt: new Date().toISOString() },
+    deadlineMs: CHAIN_TIMEOUT_MS,
+  });
+  reportAssetProgress(assetId, asset?.userId, 'generating');
+}
+
+/**
+ * Register every generation job handler with the queue, plus the render
+ * worker callback handlers for the render-backed types
+ */
+export function registerGenerationJobHandlers(): void {
+  registerJobHandler('media_generation', mediaGenerationJobHandler);
+  registerJobHandler('ugc_chain', ugcChainJobHandler);
+  registerJobHandler('ugc_video', ugcVideoJobHandler);
+  registerJobHandler('autopilot_video', autopilotVideoJobHandler);
+  registerJobHandler('automation_render', automationRenderJobHandler);
+  registerJobHandler('remotion_render', remotionRenderJobHandler);
+  registerJobHandler('video_thumbnails', videoThumbnailsJobHandler);
+
+  // Outbound user webhooks share the queue for durable retries
+  registerJobHandler('webhook_delivery', webhookDeliveryJobHandler);
+
+  // Render worker completion callbacks for the render-backed job types
+  registerRenderEventHandler('ugc_video', ugcRenderEventHandler);
+  registerRenderEventHandler('autopilot_video', autopilotRenderEventHandler);
+  registerRenderEventHandler('remotion_render', remotionRenderEventHandler);
+}
+
+// ==================== MEDIA GENERATION ====================
+
+/**
+ * media_generation job handler
+ *
+ * TIMEOUTS (per provider in the failover chain):
+ * - Veo3 / images: 3 minutes from start
+ * - Sora2: 180 seconds
+ * On failure, timeout or a result that never gets a URL the asset moves to
+ * the next provider of its mode's failover policy (see failover.ts).
+ */
+const mediaGenerationJobHandler: JobHandler = {
+  async tick(job: GenerationJob): Promise<JobTickResult> {
+    const assetId = job.mediaAssetId!;
+    const payload = job.payload as MediaGenerationParams;
+    const state = upgradeLegacyState((job.state || { phase: 'start' }) as MediaGenerationState, payload);
+    const params = state.params || payload;
+
+    if (state.phase === 'start') {
+      return startMediaGeneration(assetId, params, state);
+    }
+    return pollMediaGeneration(assetId, params, state);
+  },
+
+  async onTimeout(job: GenerationJob): Promise<void> {
+    const elapsedSeconds = Math.round((Date.now() - job.createdAt.getTime()) / 1000);
+    console.log(`[ugc] job_timeout id=${job.mediaAssetId} after=${elapsedSeconds}s reason=deadline`);
+    await failProcessingAsset(job.mediaAssetId!, 'Provider timeout. Please try again.');
+  },
+
+  async onFailure(job: GenerationJob, error: Error): Promise<void> {
+    // ✅ LIFECYCLE LOG: Fatal error
+    console.log(`[ugc] job_failed id=${job.mediaAssetId} reason=fatal_error error=${error.message}`);
+    await failProcessingAsset(job.mediaAssetId!, error.message || 'Unknown error occurred');
+  },
+};
+
+/**
+ * Step 1: Start generation (single attempt for Sora2, limited retries for others)
+ */
+async function startMediaGeneration(
+  assetId: string,
+  params: MediaGenerationParams,
+  state: MediaGenerationState
+): Promise<JobTickResult> {
+  // ✅ STABILIZATION: Single attempt for Sora2 (failover handles failures), retry for others
+  const isSora2 = getMediaProvider(params.provider)?.id === 'kie-sora2';
+  const maxRetries = isSora2 ? 1 : 2;
+  const attempt = (state.startAttempts || 0) + 1;
+
+  let generationResult;
+  try {
+    generationResult = await generateMedia(params as any);
+    console.log('[Media Generation] Generation started:', {
+      assetId,
+      taskId: generationResult.taskId,
+      status: generationResult.status,
+    });
+  } catch (error: any) {
+    console.error(`[Media Generation] Attempt ${attempt}/${maxRetries} failed:`, error);
+
+    if (attempt < maxRetries) {
+      return { done: false, delayMs: START_RETRY_DELAY_MS, state: { ...state, startAttempts: attempt } };
+    }
+
+    const failover = await failoverMediaGeneration(assetId, params, {
+      trigger: 'provider_error',
+      reason: error.message || 'Failed to start generation',
+    });
+    if (failover) {
+      return failover;
+    }
+
+    console.log(`[ugc] job_failed id=${assetId} reason=fatal_error error=${error.message}`);
+    await storage.updateMediaAsset(assetId, {
+      status: 'error',
+      errorMessage: error.message || 'Failed to start generation',
+    });
+    return { done: true };
+  }
+
+  // Update asset with taskId
+  await storage.updateMediaAsset(assetId, {
+    taskId: generationResult.taskId,
+    status: generationResult.status,
+    retryCount: attempt - 1,
+  });
+
+  // If generation is already complete (e.g., Gemini Flash), update and return
+  if (generationResult.status === 'ready' && generationResult.resultUrl) {
+    await storage.updateMediaAsset(assetId, {
+      status: 'ready',
+      resultUrl: generationResult.resultUrl,
+      completedAt: new Date(),
+    });
+    console.log('[Media Generation] Completed synchronously:', { assetId });
+    return { done: true };
+  }
+
+  const { timeoutMs } = getPollLimits(params.provider);
+  console.log(`[ugc] poll_start id=${assetId} provider=${params.provider} max_time=${timeoutMs / 1000}s`);
+  return {
+    done: false,
+    delayMs: getKiePollInterval(params.provider, POLL_INTERVAL_MS),
+    state: {
+      phase: 'polling',
+      params: state.params,
+      taskId: generationResult.taskId,
+      startedAt: new Date().toISOString(),
+      pollAttempts: 0,
+    },
+  };
+}
+
+/**
+ * Step 2: Poll for completion, failing over when the provider gives up
+ */
+async function pollMediaGeneration(
+  assetId: string,
+  params: MediaGenerationParams,
+  state: MediaGenerationState
+): Promise<JobTickResult> {
+  const { timeoutMs, maxPollAttempts } = getPollLimits(params.provider);
+  const elapsed = Date.now() - new Date(state.startedAt!).getTime();
+  const elapsedSeconds = Math.round(elapsed / 1000);
+  const pollAttempts = (state.pollAttempts || 0) + 1;
+
+  if (elapsed > timeoutMs || pollAttempts > maxPollAttempts) {
+    const reason = elapsed > timeoutMs ? 'timeout' : 'max_attempts';
+    console.log(`[ugc] job_timeout id=${assetId} provider=${params.provider} after=${elapsedSeconds}s reason=${reason}`);
+
+    const failover = await failoverMediaGeneration(assetId, params, {
+      trigger: 'timeout',
+      reason: `No result after ${elapsedSeconds}s (${reason})`,
+    });
+    if (failover) {
+      return failover;
+    }
+
+    await storage.updateMediaAsset(assetId, {
+      status: 'error',
+      errorMessage: 'Provider timeout. Please try again.',
+    });
+    return { done: true };
+  }
+
+  // ✅ LIFECYCLE LOG: Poll status
+  console.log(`[ugc] poll_status id=${assetId} provider=${params.provider} attempt=${pollAttempts}/${maxPollAttempts} elapsed=${elapsedSeconds}s`);
+  const next: JobTickResult = {
+    done: false,
+    delayMs: getKiePollInterval(params.provider, POLL_INTERVAL_MS),
+    state: { ...state, pollAttempts },
+  };
+
+  try {
+    const statusResult = await checkMediaStatus(state.taskId!, params.provider);
+
+    if (statusResult.status === 'ready') {
+      const resultUrls = statusResult.resultUrls || [];
+
+      // Ready but no URLs - keep polling, fail over once it's clearly stuck
+      if (resultUrls.length === 0) {
+        const readyWithoutUrlPolls = (state.readyWithoutUrlPolls || 0) + 1;
+        if (readyWithoutUrlPolls > READY_WITHOUT_URL_MAX_POLLS) {
+          const failover = await failoverMediaGeneration(assetId, params, {
+            trigger: 'ready_without_url',
+            reason: `Ready without a result URL after ${readyWithoutUrlPolls} checks`,
+          });
+          if (failover) {
+            return failover;
+          }
+        }
+        return { ...next, state: { ...state, pollAttempts, readyWithoutUrlPolls } };
+      }
+
+      await storage.updateMediaAsset(assetId, {
+        status: 'ready',
+        resultUrl: resultUrls[0],
+        completedAt: new Date(),
+        resultUrls,
+      });
+      if (params.type === 'video') {
+        await enqueueVideoThumbnails(assetId, resultUrls[0]);
+      }
+
+      // ✅ LIFECYCLE LOG: Job completed
+      console.log(`[ugc] job_completed id=${assetId} provider=${params.provider} elapsed=${elapsedSeconds}s`);
+
+      if (getMediaProvider(params.provider)?.id === 'kie-sora2') {
+        await notifySora2Complete(assetId, resultUrls[0]);
+      }
+      return { done: true };
+    }
+
+    if (statusResult.status === 'failed' || (statusResult.status as string) === 'error') {
+      const errorMessage = statusResult.metadata?.errorMessage || 'Provider error';
+      const failover = await failoverMediaGeneration(assetId, params, {
+        trigger: 'provider_error',
+        reason: errorMessage,
+        errorCode: statusResult.metadata?.errorCode,
+      });
+      if (failover) {
+        return failover;
+      }
+
+      await storage.updateMediaAsset(assetId, {
+        status: 'error',
+        errorMessage,
+      });
+
+      // ✅ LIFECYCLE LOG: Job failed
+      console.log(`[ugc] job_failed id=${assetId} reason=provider_error`);
+      return { done: true };
+    }
+  } catch (error: any) {
+    // Don't fail on polling errors, just log and retry on the next tick
+    console.log(`[ugc] poll_error id=${assetId} error=${error.message}`);
+  }
+
+  return next;
+}
+
+/**
+ * Start the next provider of the asset's failover chain
+ * Returns null when the policy allows no further hop
+ */
+async function failoverMediaGeneration(
+  assetId: string,
+  params: MediaGenerationParams,
+  event: FailoverEvent
+): Promise<JobTickResult | null> {
+  const step = await failoverAsset(assetId, event);
+  if (!step) {
+    return null;
+  }
+
+  const descriptor = MEDIA_PROVIDERS[step.provider];
+  const stepParams: MediaGenerationParams = {
+    ...params,
+    provider: step.provider,
+    options: {
+      ...params.options,
+      model: step.model,
+      duration: resolveProviderDuration(descriptor, params.options?.duration),
+    },
+  };
+
+  await storage.updateMediaAsset(assetId, {
+    provider: step.provider,
+    status: 'processing',
+    errorMessage: null,
+  });
+
+  console.log(`[ugc] failover id=${assetId} provider=${step.provider} model=${step.model || '-'} duration=${stepParams.options?.duration}`);
+  return startMediaGeneration(assetId, stepParams, { phase: 'start', params: stepParams });
+}
+
+/**
+ * Email for finished Sora2 videos (sent since the old Sora2 callback route)
+ */
+async function notifySora2Complete(assetId: string, videoUrl: string): Promise<void> {
+  const asset = await storage.getMediaAsset(assetId);
+  if (!asset) {
+    return;
+  }
+
+  await sendVideoCompleteNotification({
+    userId: asset.userId,
+    assetId,
+    status: 'ready',
+    assetType: 'ugc-ad',
+    videoUrl,
+    generationMode: 'sora2',
+  }).catch((error) => {
+    console.error('[Media Generation] Email notification failed:', error);
+  });
+}
+
+// ==================== UGC CHAIN (MODE A) ====================
+
+/**
+ * ugc_chain job handler
+ * Image → Vision analysis → video, one chain step check per tick
+ *
+ * TIMEOUTS (per-step):
+ * - Image generation: 3 minutes (fails over, Veo3 by default)
+ * - Image analysis: 2 minutes
+ * - Video generation: 3 minutes per provider (fails over)
+ * - Total chain: 10 minutes hard cap (job deadline)
+ */
+const ugcChainJobHandler: JobHandler = {
+  async tick(job: GenerationJob): Promise<JobTickResult> {
+    const assetId = job.mediaAssetId!;
+    const payload = (job.payload || {}) as ChainJobPayload;
+    const state = (job.state || { phase: 'polling' }) as ChainJobState;
+
+    if (state.phase === 'start' && payload.start) {
+      try {
+        await ugcChainService.startImageGeneration({ assetId, ...payload.start });
+      } catch (error: any) {
+        console.log(`[ugc] job_failed id=${assetId} reason=start_error error=${error.message}`);
+        await ugcChainService.handleChainError(assetId, 'generating_image', error.message);
+        return { done: true };
+      }
+
+      // ✅ LIFECYCLE LOG: Job polling started
+      console.log(`[ugc] poll_start id=${assetId} mode=chain max_time=600s`);
+      return {
+        done: false,
+        delayMs: getChainPollInterval('generating_image'),
+        state: { ...state, phase: 'polling', pollAttempts: 0 },
+      };
+    }
+
+    return pollChainWorkflow(assetId, state);
+  },
+
+  async onTimeout(job: GenerationJob): Promise<void> {
+    const assetId = job.mediaAssetId!;
+    const asset = await storage.getMediaAsset(assetId);
+    const step = (asset?.chainMetadata as ChainMetadata | null)?.step;
+    if (!asset || step === 'completed' || step === 'error') {
+      return;
+    }
+
+    const elapsedSeconds = Math.round((Date.now() - job.createdAt.getTime()) / 1000);
+    // ✅ LIFECYCLE LOG: Job timeout
+    console.log(`[ugc] job_timeout id=${assetId} after=${elapsedSeconds}s reason=chain_timeout`);
+    await ugcChainService.handleChainError(
+      assetId,
+      'error',
+      `Provider timeout after ${elapsedSeconds}s. Please try again.`
+    );
+  },
+
+  async onFailure(job: GenerationJob, error: Error): Promise<void> {
+    // ✅ LIFECYCLE LOG: Fatal error
+    console.log(`[ugc] job_failed id=${job.mediaAssetId} reason=fatal_error error=${error.message}`);
+    await ugcChainService.handleChainError(job.mediaAssetId!, 'error', error.message);
+  },
+};
+
+/**
+ * Check the current chain step once and advance it if possible
+ */
+async function pollChainWorkflow(assetId: string, state: ChainJobState): Promise<JobTickResult> {
+  const elapsedSeconds = Math.round((Date.now() - new Date(state.startedAt || Date.now()).getTime()) / 1000);
+  const pollAttempts = (state.pollAttempts || 0) + 1;
+
+  if (pollAttempts > CHAIN_MAX_POLL_ATTEMPTS) {
+    console.log(`[ugc] job_timeout id=${assetId} after=${elapsedSeconds}s reason=max_attempts`);
+    await ugcChainService.handleChainError(assetId, 'error', 'Provider timeout. Please try again.');
+    return { done: true };
+  }
+
+  const asset = await storage.getMediaAsset(assetId);
+  if (!asset) {
+    console.log(`[ugc] job_failed id=${assetId} reason=asset_not_found`);
+    return { done: true };
+  }
+
+  const chainMetadata = asset.chainMetadata as ChainMetadata | null;
+  if (!chainMetadata) {
+    console.log(`[ugc] job_failed id=${assetId} reason=no_chain_metadata`);
+    await storage.updateMediaAsset(assetId, {
+      status: 'error',
+      errorMessage: 'Internal error: missing chain metadata',
+    });
+    return { done: true };
+  }
+
+  const step = chainMetadata.step;
+  const next: JobTickResult = { done: false, delayMs: getChainPollInterval(step, asset.provider), state: { ...state, pollAttempts } };
+
+  // ✅ LIFECYCLE LOG: Poll status
+  console.log(`[ugc] poll_status id=${assetId} step=${step} elapsed=${elapsedSeconds}s attempt=${pollAttempts}/${CHAIN_MAX_POLL_ATTEMPTS}`);
+
+  if (step === 'generating_image') {
+    const imageStartTime = chainMetadata.timestamps?.imageStarted;
+    const imageElapsed = imageStartTime ? Date.now() - new Date(imageStartTime).getTime() : 0;
+
+    if (imageElapsed > STEP_TIMEOUT_MS.generating_image) {
+      console.log(`[ugc] step_timeout id=${assetId} step=generating_image after=${Math.round(imageElapsed / 1000)}s`);
+
+      // Attempt failover instead of hard failure
+      const failedOver = await ugcChainService.failover(assetId, { trigger: 'timeout', reason: 'Image generation timeout' });
+      if (!failedOver) {
+        console.log(`[ugc] job_failed id=${assetId} reason=image_timeout_no_failover`);
+        return { done: true };
+      }
+    } else {
+      try {
+        const imageReady = await ugcChainService.checkImageStatus(assetId);
+        if (imageReady) {
+          console.log(`[ugc] step_complete id=${assetId} step=generating_image`);
+        }
+      } catch (err: any) {
+        console.log(`[ugc] poll_error id=${assetId} step=generating_image error=${err.message}`);
+      }
+    }
+    return next;
+  }
+
+  if (step === 'analyzing_image') {
+    // Analysis starts when image completes; it is a sync OpenAI call,
+    // so being stuck here means the call hung (or the process restarted mid-call)
+    const analysisStartTime = chainMetadata.timestamps?.imageCompleted;
+    const analysisElapsed = analysisStartTime ? Date.now() - new Date(analysisStartTime).getTime() : 0;
+
+    if (analysisElapsed > STEP_TIMEOUT_MS.analyzing_image) {
+      console.log(`[ugc] step_timeout id=${assetId} step=analyzing_image after=${Math.round(analysisElapsed / 1000)}s`);
+      await ugcChainService.handleChainError(assetId, 'analyzing_image', 'Image analysis timeout');
+      return { done: true };
+    }
+    return next;
+  }
+
+  if (step === 'failing_over' || step === 'fallback_to_veo3') {
+    // failover already starts video generation - wait for generating_video
+    return next;
+  }
+
+  if (step === 'generating_video') {
+    const videoStartTime = chainMetadata.timestamps?.videoStarted;
+    const videoElapsed = videoStartTime ? Date.now() - new Date(videoStartTime).getTime() : 0;
+
+    if (videoElapsed > STEP_TIMEOUT_MS.generating_video) {
+      console.log(`[ugc] step_timeout id=${assetId} step=generating_video provider=${asset.provider} after=${Math.round(videoElapsed / 1000)}s`);
+      const failedOver = await ugcChainService.failover(assetId, { trigger: 'timeout', reason: 'Video generation timeout' });
+      return failedOver ? next : { done: true };
+    }
+
+    try {
+      const videoReady = await ugcChainService.checkVideoStatus(assetId);
+      if (videoReady) {
+        // ✅ LIFECYCLE LOG: Job completed
+        console.log(`[ugc] job_completed id=${assetId} elapsed=${elapsedSeconds}s`);
+        return { done: true };
+      }
+    } catch (err: any) {
+      console.log(`[ugc] poll_error id=${assetId} step=generating_video error=${err.message}`);
+    }
+    return next;
+  }
+
+  if (step === 'completed') {
+    console.log(`[ugc] job_completed id=${assetId} elapsed=${elapsedSeconds}s (already)`);
+    return { done: true };
+  }
+
+  if (step === 'error') {
+    console.log(`[ugc] job_failed id=${assetId} reason=${chainMetadata.error || 'unknown'}`);
+    return { done: true };
+  }
+
+  // Unknown step - this shouldn't happen
+  console.log(`[ugc] poll_unknown_step id=${assetId} step=${step}`);
+  return next;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Timeout and poll budget for one provider of the failover chain
+ */
+function getPollLimits(provider: string): { timeoutMs: number; maxPollAttempts: number } {
+  return getMediaProvider(provider)?.id === 'kie-sora2'
+    ? { timeoutMs: SORA2_TIMEOUT_MS, maxPollAttempts: SORA2_MAX_POLL_ATTEMPTS }
+    : { timeoutMs: MEDIA_TIMEOUT_MS, maxPollAttempts: MEDIA_MAX_POLL_ATTEMPTS };
+}
+
+/**
+ * Jobs queued before failover policies polled Sora2 and its Veo3 fallback
+ * in their own phases - resume them as plain polling
+ */
+function upgradeLegacyState(state: MediaGenerationState, payload: MediaGenerationParams): MediaGenerationState {
+  if (state.phase === 'sora2_polling') {
+    return { ...state, phase: 'polling' };
+  }
+  if (state.phase === 'veo3_fallback') {
+    return {
+      ...state,
+      phase: 'polling',
+      startedAt: state.fallbackStartedAt,
+      params: { ...payload, provider: 'kie-veo3', options: { ...payload.options, model: 'veo3' } },
+    };
+  }
+  return state;
+}
+
+/**
+ * Poll interval for a chain step - KIE steps get callbacks, analysis doesn't
+ */
+function getChainPollInterval(step: ChainMetadata['step'], videoProvider = 'kie-veo3'): number {
+  if (step === 'generating_image') {
+    return getKiePollInterval('kie-flux-kontext', POLL_INTERVAL_MS);
+  }
+  if (step === 'generating_video' || step === 'failing_over' || step === 'fallback_to_veo3') {
+    return getKiePollInterval(videoProvider, POLL_INTERVAL_MS);
+  }
+  return POLL_INTERVAL_MS;
+}
+
+/**
+ * Mark an asset as errored unless a webhook/another path already finished it
+ */
+async function failProcessingAsset(assetId: string, errorMessage: string): Promise<void> {
+  const asset = await storage.getMediaAsset(assetId);
+  if (!asset || asset.status !== 'processing') {
+    return;
+  }
+
+  await storage.updateMediaAsset(assetId, {
+    status: 'error',
+    errorMessage,
+  });
+}
+
+// ==================== EXPORTS ====================
+
+export const generationJobService = {
+  enqueueMediaGeneration,
+  enqueueChainWorkflow,
+  registerGenerationJobHandlers,
+};
+
+export default generationJobService;
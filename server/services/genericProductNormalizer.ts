@@ -6,6 +6,8 @@
  */
 
 import OpenAI from 'openai';
+import { SIMULATED_PROVIDERS } from './simulated/core';
+import { recordTokenCost, toTokenUsage } from './costTracking';
 import {
   ApifyCrawlResult,
   extractOpenGraph,
@@ -677,8 +679,8 @@ async function generateBenefitsWithAI(
   fullText: string
 ): Promise<string[]> {
   const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    console.warn('[Normalizer] OpenAI API key not set, using fallback benefits');
+  if (!openaiApiKey || SIMULATED_PROVIDERS) {
+    console.warn('[Normalizer] OpenAI API key not set (or simulated providers), using fallback benefits');
     return [
       'Premium quality materials',
       'Designed for everyday use',
@@ -708,6 +710,13 @@ async function generateBenefitsWithAI(
       max_tokens: 300,
     });
 
+    await recordTokenCost({
+      provider: 'openai',
+      operation: 'product_benefits',
+      model: response.model || 'gpt-4o-mini',
+      usage: toTokenUsage(response.usage),
+    });
+
     const content = response.choices[0]?.message?.content || '';
 
     // Parse JSON array from response
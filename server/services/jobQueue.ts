@@ -0,0 +1,461 @@
+/**
+ * Generation Job Queue (Feb 2026)
+ *
+ * Durable, restart-safe queue for background generation work.
+ * Replaces the in-request polling loops (chain workflow, media generation,
+ * render worker polling) that were lost whenever the server restarted.
+ *
+ * Jobs live in the generation_jobs table. Each handler advances its job by
+ * one short step per tick and asks to be rescheduled, so no step ever sleeps
+ * inside the process. On boot, jobs left 'running' by the previous process
+ * are re-queued and picked up where their persisted state left off.
+ *
+ * Assumes a single web instance (see render.yaml). Stale leases from a
+ * crashed worker are also reclaimed after LEASE_MS as a safety net.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { generationJobs, type GenerationJob } from '@shared/schema';
+import { reportAssetSettled } from './assetProgress';
+import { runWithCostAttribution } from './costTracking';
+import { resolveAssetReservations, releaseExpiredReservations } from './creditService';
+import { emitMediaAssetEvent } from './webhooks';
+
+// ==================== TYPES ====================
+
+export type GenerationJobType =
+  | 'media_generation'
+  | 'ugc_chain'
+  | 'ugc_video'
+  | 'autopilot_video'
+  | 'automation_render'
+  | 'remotion_render'
+  | 'video_thumbnails'
+  | 'webhook_delivery';
+
+/**
+ * Result of a single handler tick
+ * - done: job finished (success or handled failure), no further ticks
+ * - otherwise: run again after delayMs with the (optionally) updated state
+ */
+export type JobTickResult =
+  | { done: true }
+  | { done: false; delayMs: number; state?: Record<string, any> };
+
+export interface JobHandler {
+  /**
+   * Advance the job by one step. Must be safe to re-run after a crash,
+   * since a tick interrupted by a restart is retried from the last saved state.
+   */
+  tick(job: GenerationJob): Promise<JobTickResult>;
+  /**
+   * Called once when the job's deadline passes.
+   * Responsible for marking the asset (and related records) as errored.
+   */
+  onTimeout(job: GenerationJob): Promise<void>;
+  /**
+   * Called once when tick() has thrown maxAttempts times in a row
+   */
+  onFailure(job: GenerationJob, error: Error): Promise<void>;
+  maxAttempts?: number;
+}
+
+export interface EnqueueJobParams {
+  type: GenerationJobType;
+  mediaAssetId?: string;
+  userId?: string;
+  payload: Record<string, any>;
+  state?: Record<string, any>;
+  deadlineMs: number; // hard cap measured from enqueue time
+  delayMs?: number;   // initial delay before the first tick
+}
+
+// ==================== CONFIG ====================
+
+const WORKER_ID = `${process.env.RENDER_INSTANCE_ID || 'local'}-${uuidv4().slice(0, 8)}`;
+const POLL_INTERVAL_MS = 2000;      // how often the worker looks for due jobs
+const MAX_CONCURRENT_JOBS = 5;      // ticks running at once in this process
+const LEASE_MS = 15 * 60 * 1000;    // running jobs older than this are considered abandoned
+const DEFAULT_MAX_ATTEMPTS = 3;     // consecutive tick errors before onFailure
+const RETRY_BASE_DELAY_MS = 5000;   // backoff base for tick errors
+const RESERVATION_SWEEP_MS = 10 * 60 * 1000; // how often expired credit holds are released
+
+// ==================== STATE ====================
+
+const handlers = new Map<string, JobHandler>();
+const activeJobs = new Set<string>();
+let workerTimer: NodeJS.Timeout | null = null;
+let reservationTimer: NodeJS.Timeout | null = null;
+let isPolling = false;
+
+// ==================== SERVICE ====================
+
+/**
+ * Register the handler for a job type
+ */
+export function registerJobHandler(type: GenerationJobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Persist a new job. The worker picks it up on its next poll.
+ */
+export async function enqueueJob(params: EnqueueJobParams): Promise<GenerationJob> {
+  const now = Date.now();
+
+  const [job] = await db
+    .insert(generationJobs)
+    .values({
+      type: params.type,
+      mediaAssetId: params.mediaAssetId,
+      userId: params.userId,
+      status: 'queued',
+      payload: params.payload,
+      state: params.state || {},
+      runAt: new Date(now + (params.delayMs || 0)),
+      deadlineAt: new Date(now + params.deadlineMs),
+    })
+    .returning();
+
+  console.log(`[Job Queue] job_enqueued id=${job.id} type=${job.type} asset=${job.mediaAssetId || '-'}`);
+  return job;
+}
+
+/**
+ * Complete a waiting job without running another tick, e.g. when a webhook
+ * has already finalized its asset. A job that is mid-tick is left alone -
+ * its handler sees the finalized asset and finishes it.
+ * Returns false if the job wasn't waiting.
+ */
+export async function completeJob(jobId: string): Promise<boolean> {
+  const now = new Date();
+  const [job] = await db
+    .update(generationJobs)
+    .set({
+      status: 'completed',
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'queued')))
+    .returning({ id: generationJobs.id, type: generationJobs.type, mediaAssetId: generationJobs.mediaAssetId });
+
+  if (job) {
+    console.log(`[Job Queue] job_completed id=${job.id} type=${job.type} asset=${job.mediaAssetId || '-'} (external)`);
+    publishAssetSettled(job.mediaAssetId);
+    resolveAssetCredits(job.mediaAssetId);
+    notifyAssetWebhooks(job.mediaAssetId);
+  }
+  return !!job;
+}
+
+/**
+ * Run a job's next tick now instead of at its scheduled time, e.g. when a
+ * provider callback says its task finished. A job that is mid-tick runs again
+ * as soon as that tick ends. Returns false if the job is no longer active.
+ */
+export async function wakeJob(jobId: string): Promise<boolean> {
+  const now = new Date();
+  const [job] = await db
+    .update(generationJobs)
+    .set({ runAt: now, updatedAt: now })
+    .where(and(eq(generationJobs.id, jobId), inArray(generationJobs.status, ['queued', 'running'])))
+    .returning({ id: generationJobs.id, type: generationJobs.type, status: generationJobs.status });
+
+  if (job) {
+    console.log(`[Job Queue] job_woken id=${job.id} type=${job.type} status=${job.status}`);
+  }
+  return !!job;
+}
+
+/**
+ * Recover jobs from a previous process and start polling for due jobs.
+ * Call once after the HTTP server is listening.
+ */
+export async function startJobWorker(): Promise<void> {
+  if (workerTimer) {
+    return;
+  }
+
+  try {
+    const recovered = await db
+      .update(generationJobs)
+      .set({
+        status: 'queued',
+        lockedAt: null,
+        lockedBy: null,
+        runAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(generationJobs.status, 'running'))
+      .returning({ id: generationJobs.id });
+
+    console.log(`[Job Queue] Worker ${WORKER_ID} started, resumed ${recovered.length} in-flight job(s)`);
+  } catch (error: any) {
+    console.error('[Job Queue] Failed to recover in-flight jobs:', error.message);
+  }
+
+  workerTimer = setInterval(() => {
+    pollJobs().catch((error) => {
+      console.error('[Job Queue] Poll error:', error.message);
+    });
+  }, POLL_INTERVAL_MS);
+
+  // Holds whose job was lost (or whose asset was deleted) would otherwise stay reserved
+  reservationTimer = setInterval(() => {
+    releaseExpiredReservations().catch((error) => {
+      console.error('[Job Queue] Reservation sweep error:', error.message);
+    });
+  }, RESERVATION_SWEEP_MS);
+}
+
+/**
+ * Stop polling (in-flight ticks are left to finish)
+ */
+export function stopJobWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+  if (reservationTimer) {
+    clearInterval(reservationTimer);
+    reservationTimer = null;
+  }
+}
+
+// ==================== WORKER ====================
+
+/**
+ * Claim as many due jobs as there are free slots and run them
+ */
+async function pollJobs(): Promise<void> {
+  if (isPolling) {
+    return;
+  }
+  isPolling = true;
+
+  try {
+    while (activeJobs.size < MAX_CONCURRENT_JOBS) {
+      const job = await claimNextJob();
+      if (!job) {
+        break;
+      }
+
+      activeJobs.add(job.id);
+      runJob(job)
+        .catch((error) => {
+          console.error(`[Job Queue] Unhandled error in job ${job.id}:`, error);
+        })
+        .finally(() => {
+          activeJobs.delete(job.id);
+        });
+    }
+  } finally {
+    isPolling = false;
+  }
+}
+
+/**
+ * Atomically lease the oldest due job (or one whose lease has expired)
+ */
+async function claimNextJob(): Promise<GenerationJob | undefined> {
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const leaseExpiredIso = new Date(now.getTime() - LEASE_MS).toISOString();
+
+  const [job] = await db
+    .update(generationJobs)
+    .set({
+      status: 'running',
+      lockedAt: now,
+      lockedBy: WORKER_ID,
+      updatedAt: now,
+    })
+    .where(sql`${generationJobs.id} = (
+      SELECT id FROM generation_jobs
+      WHERE (status = 'queued' AND run_at <= ${nowIso})
+         OR (status = 'running' AND locked_at < ${leaseExpiredIso})
+      ORDER BY run_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )`)
+    .returning();
+
+  return job || undefined;
+}
+
+/**
+ * Run a single tick for a leased job and persist the outcome.
+ * Provider costs incurred by the handler are attributed to the job's asset.
+ */
+function runJob(job: GenerationJob): Promise<void> {
+  const payload = (job.payload as Record<string, any> | null) || {};
+  return runWithCostAttribution(
+    { userId: job.userId, mediaAssetId: job.mediaAssetId, sceneSpecId: payload.sceneSpecId },
+    () => runJobTick(job)
+  );
+}
+
+async function runJobTick(job: GenerationJob): Promise<void> {
+  const handler = handlers.get(job.type);
+
+  if (!handler) {
+    console.error(`[Job Queue] No handler registered for type=${job.type} id=${job.id}`);
+    await finishJob(job, 'failed', `No handler registered for job type ${job.type}`);
+    return;
+  }
+
+  // Enforce the hard deadline before doing any more work
+  if (job.deadlineAt && job.deadlineAt.getTime() <= Date.now()) {
+    console.log(`[Job Queue] job_timeout id=${job.id} type=${job.type} asset=${job.mediaAssetId || '-'}`);
+    try {
+      await handler.onTimeout(job);
+    } catch (error: any) {
+      console.error(`[Job Queue] onTimeout failed for ${job.id}:`, error.message);
+    }
+    await finishJob(job, 'failed', 'Deadline exceeded');
+    return;
+  }
+
+  try {
+    const result = await handler.tick(job);
+
+    if (result.done) {
+      await finishJob(job, 'completed');
+      return;
+    }
+
+    await rescheduleJob(job, {
+      delayMs: result.delayMs,
+      state: result.state ?? (job.state as Record<string, any> | null) ?? {},
+      attempts: 0,
+      lastError: null,
+    });
+  } catch (error: any) {
+    const attempts = job.attempts + 1;
+    const maxAttempts = handler.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    console.error(`[Job Queue] job_error id=${job.id} type=${job.type} attempt=${attempts}/${maxAttempts} error=${error.message}`);
+
+    if (attempts >= maxAttempts) {
+      try {
+        await handler.onFailure(job, error);
+      } catch (failureError: any) {
+        console.error(`[Job Queue] onFailure failed for ${job.id}:`, failureError.message);
+      }
+      await finishJob(job, 'failed', error.message || 'Unknown error');
+      return;
+    }
+
+    await rescheduleJob(job, {
+      delayMs: RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1),
+      state: (job.state as Record<string, any> | null) ?? {},
+      attempts,
+      lastError: error.message || 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Release the lease and schedule the next tick (never past the deadline)
+ */
+async function rescheduleJob(
+  job: GenerationJob,
+  next: { delayMs: number; state: Record<string, any>; attempts: number; lastError: string | null }
+): Promise<void> {
+  let runAt = Date.now() + next.delayMs;
+  if (job.deadlineAt) {
+    runAt = Math.min(runAt, job.deadlineAt.getTime());
+  }
+  const runAtIso = new Date(runAt).toISOString();
+
+  await db
+    .update(generationJobs)
+    .set({
+      status: 'queued',
+      state: next.state,
+      attempts: next.attempts,
+      lastError: next.lastError,
+      // Woken mid-tick (run_at moved past the lease time) - keep the earlier wake time
+      runAt: sql`CASE WHEN ${generationJobs.runAt} > ${generationJobs.lockedAt} THEN LEAST(${generationJobs.runAt}, ${runAtIso}::timestamp) ELSE ${runAtIso}::timestamp END`,
+      lockedAt: null,
+      lockedBy: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(generationJobs.id, job.id), eq(generationJobs.lockedBy, WORKER_ID)));
+}
+
+/**
+ * Mark a job as completed or failed and release the lease
+ */
+async function finishJob(
+  job: GenerationJob,
+  status: 'completed' | 'failed',
+  lastError?: string
+): Promise<void> {
+  await db
+    .update(generationJobs)
+    .set({
+      status,
+      lastError: lastError ?? job.lastError,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(generationJobs.id, job.id), eq(generationJobs.lockedBy, WORKER_ID)));
+
+  console.log(`[Job Queue] job_${status} id=${job.id} type=${job.type} asset=${job.mediaAssetId || '-'}`);
+  publishAssetSettled(job.mediaAssetId);
+  resolveAssetCredits(job.mediaAssetId);
+  notifyAssetWebhooks(job.mediaAssetId);
+}
+
+/**
+ * Push the asset's final state to open progress streams (best-effort)
+ */
+function publishAssetSettled(mediaAssetId: string | null): void {
+  if (!mediaAssetId) return;
+
+  reportAssetSettled(mediaAssetId).catch((error) => {
+    console.error(`[Job Queue] Failed to publish final state for asset ${mediaAssetId}:`, error.message);
+  });
+}
+
+/**
+ * Settle or release the credits held for the asset (best-effort - the
+ * reservation sweep picks up anything missed here)
+ */
+function resolveAssetCredits(mediaAssetId: string | null): void {
+  if (!mediaAssetId) return;
+
+  resolveAssetReservations(mediaAssetId).catch((error) => {
+    console.error(`[Job Queue] Failed to resolve credit holds for asset ${mediaAssetId}:`, error.message);
+  });
+}
+
+/**
+ * Queue media.ready / media.error webhooks for the asset (deduplicated, so
+ * a later job on the same asset - thumbnails - doesn't send it again)
+ */
+function notifyAssetWebhooks(mediaAssetId: string | null): void {
+  if (!mediaAssetId) return;
+
+  emitMediaAssetEvent(mediaAssetId).catch((error) => {
+    console.error(`[Job Queue] Failed to queue webhooks for asset ${mediaAssetId}:`, error.message);
+  });
+}
+
+// ==================== EXPORTS ====================
+
+export const jobQueue = {
+  registerJobHandler,
+  enqueueJob,
+  completeJob,
+  wakeJob,
+  startJobWorker,
+  stopJobWorker,
+};
+
+export default jobQueue;
@@ -25,43 +25,54 @@
 
 import FormData from 'form-data';
 import axios from 'axios';
+import {
+  MEDIA_PROVIDERS,
+  getMaxDuration,
+  getMediaProvider,
+  resolveProviderDuration,
+  type MediaProviderId,
+} from '@shared/mediaProviders';
+import { getKieCallbackUrl } from './kieCallbacks';
+import { recordProviderCost } from './costTracking';
+import { SIMULATED_PROVIDERS } from './simulated/core';
+import { simulatedKieService } from './simulated/kie';
 
 const KIE_API_KEY = process.env.KIE_API_KEY;
 const KIE_BASE_URL = 'https://api.kie.ai';
 const KIE_UPLOAD_URL = 'https://kieai.redpandaai.co';
 
-if (!KIE_API_KEY) {
+if (!KIE_API_KEY && !SIMULATED_PROVIDERS) {
   console.warn('[KIE Service] Warning: KIE_API_KEY not configured');
 }
 
 /**
- * Sora2 allowed n_frames values for non-storyboard models
- * IMPORTANT: sora-2-image-to-video and sora-2-text-to-video only support "10" and "15"
- * The "25" option is only for sora-2-pro-storyboard model
+ * Status endpoint per KIE provider
+ * Sora2 uses the unified /jobs/recordInfo endpoint (camelCase, no hyphen!)
+ * Source: n8n workflow line 630 - confirmed working endpoint
  */
-const SORA2_ALLOWED_FRAMES = ['10', '15'] as const;
-type Sora2FrameValue = typeof SORA2_ALLOWED_FRAMES[number];
+const KIE_STATUS_PATHS: Partial<Record<MediaProviderId, string>> = {
+  'kie-sora2': '/api/v1/jobs/recordInfo',
+  'kie-veo3': '/api/v1/veo/record-info',
+  'kie-4o-image': '/api/v1/gpt4o-image/record-info',
+  'kie-flux-kontext': '/api/v1/flux/kontext/record-info',
+};
+
+const SORA2 = MEDIA_PROVIDERS['kie-sora2'];
+const VEO3 = MEDIA_PROVIDERS['kie-veo3'];
 
 /**
  * Maximum duration supported by Sora2 non-storyboard models
  */
-const SORA2_MAX_DURATION = 15;
+const SORA2_MAX_DURATION = getMaxDuration(SORA2);
 
 /**
  * Map a duration (in seconds) to a valid Sora2 n_frames value
  *
- * Rules for sora-2-image-to-video / sora-2-text-to-video:
- * - 6-12 seconds → "10"
- * - 13+ seconds → "15" (capped - these models don't support "25")
- *
- * Returns the closest valid n_frames value
+ * sora-2-image-to-video / sora-2-text-to-video only take the registry's
+ * duration steps ("10" / "15") - the closest one is used
  */
-function mapDurationToSora2Frames(duration: number): Sora2FrameValue {
-  if (duration <= 12) {
-    return '10';
-  } else {
-    return '15'; // Cap at 15 - sora-2-text/image-to-video don't support "25"
-  }
+function mapDurationToSora2Frames(duration: number): string {
+  return String(resolveProviderDuration(SORA2, duration));
 }
 
 /**
@@ -69,10 +80,11 @@ function mapDurationToSora2Frames(duration: number): Sora2FrameValue {
  * Sora2 non-storyboard models support up to 15 seconds (n_frames "10" or "15")
  */
 function validateSora2Duration(duration: number): { valid: boolean; message?: string } {
-  if (duration < 6) {
+  const minDuration = SORA2.durations!.min;
+  if (duration < minDuration) {
     return {
       valid: false,
-      message: `Selected duration (${duration}s) is too short. Sora2 requires at least 6 seconds.`
+      message: `Selected duration (${duration}s) is too short. Sora2 requires at least ${minDuration} seconds.`
     };
   }
   if (duration > SORA2_MAX_DURATION) {
@@ -126,6 +138,7 @@ export interface KIEStatusResult {
   status: 'processing' | 'ready' | 'failed';
   resultUrls?: string[];
   errorMessage?: string;
+  errorCode?: string; // provider error code on failure (Sora2 failCode, Veo3 errorCode)
   progress?: number; // 0-1 for 4O Image
 }
 
@@ -140,7 +153,7 @@ export interface KIEFileUploadResult {
 /**
  * KIE.ai Service
  */
-export const kieService = {
+const liveKieService = {
   /**
    * Upload file to KIE.ai and get public URL
    * Use this to convert blob URLs or local files to publicly accessible URLs
@@ -368,15 +381,14 @@ export const kieService = {
 
       // Build request body based on model type
       // Note: Storyboard uses 'shots', but regular models use 'prompt'
-      // Construct callback URL for production (Render deployment)
-      const baseUrl = process.env.RENDER_EXTERNAL_URL || process.env.BASE_URL || 'http://localhost:5000';
-      const callBackUrl = `${baseUrl}/api/kie/sora2/callback`;
+      // Callback URL for async updates (see kieCallbacks.ts)
+      const callBackUrl = getKieCallbackUrl('kie-sora2');
 
       // ✅ CRITICAL: Sora2 uses n_frames (string), NOT duration
       // n_frames must be one of: "10", "15", "25"
       requestBody = {
         model: soraModel,
-        callBackUrl,  // Include callback URL for async updates
+        ...(callBackUrl && { callBackUrl }),
         input: {
           prompt: params.prompt,  // Add prompt field for non-Storyboard models
           n_frames: nFramesValue, // ✅ FIX: Use mapped n_frames value, not raw duration
@@ -391,7 +403,7 @@ export const kieService = {
         aspectRatio: aspectRatioValue,
         requestedDuration: durationValue + 's',
         mappedNFrames: nFramesValue, // ✅ Show the mapped value
-        callBackUrl,
+        callback: !!callBackUrl,
         imageUrls: publicImageUrls?.map(url => url.substring(0, 60) + '...'),
       });
     } else {
@@ -404,7 +416,7 @@ export const kieService = {
       // ✅ CRITICAL FIX: Veo3 image-to-video is hard-capped at ~8s by the provider
       // If user requests >8s with an image, we must use text-to-video mode instead
       // This allows longer videos at the cost of not using the reference image
-      const VEO3_IMAGE_TO_VIDEO_MAX_DURATION = 8;
+      const VEO3_IMAGE_TO_VIDEO_MAX_DURATION = getMaxDuration(VEO3, true);
       let effectiveImageUrls = publicImageUrls;
 
       if (publicImageUrls && publicImageUrls.length > 0 && durationValue > VEO3_IMAGE_TO_VIDEO_MAX_DURATION) {
@@ -416,12 +428,14 @@ export const kieService = {
 
       // ✅ CRITICAL: Veo3 uses `duration` (numeric), NOT n_frames
       // Do NOT include n_frames field for Veo3 - it will cause API errors
+      const callBackUrl = getKieCallbackUrl('kie-veo3');
       requestBody = {
         prompt: params.prompt,
         model: model,
         aspectRatio: params.aspectRatio || '16:9',
         duration: durationValue, // ✅ Veo3 accepts numeric duration (6-20 seconds)
         ...(effectiveImageUrls && { imageUrls: effectiveImageUrls }),
+        ...(callBackUrl && { callBackUrl }),
       };
 
       // ✅ Enhanced logging for debugging duration issues
@@ -473,6 +487,12 @@ export const kieService = {
 
     console.log(`[KIE Service] ${isSora ? 'Sora2' : 'Veo3'} video generation started:`, data.data.taskId);
 
+    await recordProviderCost({
+      provider: 'kie',
+      operation: isSora ? 'sora2_generate' : model === 'veo3_fast' ? 'veo3_fast_generate' : 'veo3_generate',
+      metadata: { taskId: data.data.taskId, model, duration: params.duration || 10 },
+    });
+
     return {
       taskId: data.data.taskId,
       provider: isSora ? 'kie-sora2' : 'kie-veo3',
@@ -508,6 +528,7 @@ export const kieService = {
 
     let endpoint: string;
     let requestBody: any;
+    const callBackUrl = getKieCallbackUrl(`kie-${params.provider}`);
 
     if (params.provider === '4o-image') {
       endpoint = `${KIE_BASE_URL}/api/v1/gpt4o-image/generate`;
@@ -517,6 +538,7 @@ export const kieService = {
         nVariants: params.nVariants || 1,
         isEnhance: false,
         ...(publicReferenceUrl && { filesUrl: [publicReferenceUrl] }),
+        ...(callBackUrl && { callBackUrl }),
       };
     } else {
       endpoint = `${KIE_BASE_URL}/api/v1/flux/kontext/generate`;
@@ -528,6 +550,7 @@ export const kieService = {
         enableTranslation: true,
         promptUpsampling: true,
         ...(publicReferenceUrl && { inputImage: publicReferenceUrl }),
+        ...(callBackUrl && { callBackUrl }),
       };
     }
 
@@ -560,6 +583,13 @@ export const kieService = {
 
     console.log('[KIE Service] Image generation started:', data.data.taskId);
 
+    await recordProviderCost({
+      provider: 'kie',
+      operation: params.provider === '4o-image' ? '4o_image_generate' : 'flux_kontext_generate',
+      units: params.provider === '4o-image' ? params.nVariants || 1 : 1,
+      metadata: { taskId: data.data.taskId },
+    });
+
     return {
       taskId: data.data.taskId,
       provider: `kie-${params.provider}`,
@@ -575,21 +605,12 @@ export const kieService = {
       throw new Error('KIE_API_KEY is not configured. Please add it to your .env file.');
     }
 
-    let endpoint: string;
-
-    if (provider.includes('sora2') || provider.includes('sora-2')) {
-      // Sora2 uses /jobs/recordInfo endpoint (camelCase, no hyphen!)
-      // Source: n8n workflow line 630 - confirmed working endpoint
-      endpoint = `${KIE_BASE_URL}/api/v1/jobs/recordInfo?taskId=${taskId}`;
-    } else if (provider.includes('veo3')) {
-      endpoint = `${KIE_BASE_URL}/api/v1/veo/record-info?taskId=${taskId}`;
-    } else if (provider.includes('4o-image')) {
-      endpoint = `${KIE_BASE_URL}/api/v1/gpt4o-image/record-info?taskId=${taskId}`;
-    } else if (provider.includes('flux-kontext')) {
-      endpoint = `${KIE_BASE_URL}/api/v1/flux/kontext/record-info?taskId=${taskId}`;
-    } else {
+    const providerId = getMediaProvider(provider)?.id;
+    const statusPath = providerId && KIE_STATUS_PATHS[providerId];
+    if (!providerId || !statusPath) {
       throw new Error(`Unknown provider: ${provider}`);
     }
+    const endpoint = `${KIE_BASE_URL}${statusPath}?taskId=${taskId}`;
 
     // All status checks use GET (RESTful pattern for Sora2)
     console.log(`[KIE Service] Checking status:`, {
@@ -630,7 +651,7 @@ export const kieService = {
     const state = rawData.state; // ✅ PHASE 4.7.1: Veo3 uses 'state' field instead of 'successFlag'
 
     // ✅ DEBUG: Log raw response for Flux-Kontext to diagnose parsing issues
-    if (provider.includes('flux-kontext')) {
+    if (providerId === 'kie-flux-kontext') {
       console.log('[KIE Flux-Kontext Debug] Raw response:', JSON.stringify(rawData, null, 2));
       console.log('[KIE Flux-Kontext Debug] Fields:', {
         successFlag,
@@ -642,7 +663,7 @@ export const kieService = {
     }
 
     // ✅ DEBUG: Log raw response for Veo3 to diagnose status/URL issues
-    if (provider.includes('veo3')) {
+    if (providerId === 'kie-veo3') {
       console.log('[KIE Veo3 Debug] Raw response:', JSON.stringify(rawData, null, 2));
       console.log('[KIE Veo3 Debug] Fields:', {
         successFlag,
@@ -656,7 +677,7 @@ export const kieService = {
     }
 
     // ✅ DEBUG: Log raw response for Sora2 to diagnose status/URL issues
-    if (provider.includes('sora')) {
+    if (providerId === 'kie-sora2') {
       console.log('[KIE Sora2 Debug] Raw response:', JSON.stringify(rawData, null, 2));
       console.log('[KIE Sora2 Debug] Fields:', {
         state,
@@ -676,7 +697,7 @@ export const kieService = {
     //  -1 = failed/error
     // Sora2 state values: "success", "fail", or undefined (processing)
     let status: 'processing' | 'ready' | 'failed';
-    if (successFlag === 0 || successFlag === 3 || state === 'PROCESSING' || (provider.includes('sora') && !state)) {
+    if (successFlag === 0 || successFlag === 3 || state === 'PROCESSING' || (providerId === 'kie-sora2' && !state)) {
       status = 'processing'; // ✅ FIX: successFlag=3 is also a processing state, Sora2 undefined state = processing
     } else if (successFlag === 1 || state === 'SUCCESS' || state === 'success') {
       status = 'ready';
@@ -795,7 +816,7 @@ export const kieService = {
     }
 
     // ✅ PHASE 4.7.1: Enhanced logging for Veo3 debugging
-    if (provider.includes('veo3')) {
+    if (providerId === 'kie-veo3') {
       console.log('[KIE Veo3 ✅] Status check:', {
         taskId,
         state,
@@ -804,7 +825,7 @@ export const kieService = {
         urlCount: resultUrls?.length || 0,
         firstUrl: resultUrls?.[0] ? resultUrls[0].substring(0, 60) + '...' : 'none',
       });
-    } else if (provider.includes('flux-kontext')) {
+    } else if (providerId === 'kie-flux-kontext') {
       console.log('[KIE Flux-Kontext ✅] URL extraction result:', {
         taskId,
         state,
@@ -830,11 +851,14 @@ export const kieService = {
       console.log('[KIE Service] Full raw response data:', JSON.stringify(rawData, null, 2));
     }
 
+    const errorCode = rawData.failCode ?? rawData.errorCode;
+
     return {
       taskId,
       status,
       resultUrls,
-      errorMessage: data.data.errorMessage,
+      errorMessage: rawData.errorMessage || rawData.failMsg,
+      errorCode: errorCode != null ? String(errorCode) : undefined,
       progress: data.data.progress ? parseFloat(data.data.progress) : undefined,
     };
   },
@@ -877,3 +901,8 @@ export const kieService = {
     return data.data.hdVideoUrl;
   },
 };
+
+/**
+ * Offline stand-in when PROVIDER_MODE=simulated (see simulated/core.ts)
+ */
+export const kieService: typeof liveKieService = SIMULATED_PROVIDERS ? simulatedKieService : liveKieService;
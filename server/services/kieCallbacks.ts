@@ -0,0 +1,169 @@
+/**
+ * KIE Callbacks (Feb 2026)
+ *
+ * Receives KIE.ai completion callbacks for every provider that supports them
+ * (Veo3, Sora2, 4O Image, Flux Kontext) on POST /api/kie/callback/:provider,
+ * so generations finish as soon as KIE is done instead of on the next poll.
+ *
+ * A callback is only a wake-up signal: it is matched to the asset's current
+ * task and the owning generation job (media_generation or ugc_chain) runs
+ * its next tick immediately. That tick fetches the task status from KIE with
+ * our API key and advances the asset / ChainMetadata exactly as a poll would,
+ * so the callback body is never trusted and duplicate or late deliveries are
+ * no-ops (finished assets and superseded tasks are ignored).
+ *
+ * KIE doesn't sign callbacks - the callback URL carries an HMAC token of the
+ * provider ID instead. Callbacks are only requested when KIE_CALLBACK_SECRET
+ * is set; without it, polling stays primary. The old untokened Sora2 URL
+ * (/api/kie/sora2/callback) still wakes jobs for tasks submitted before.
+ */
+
+import crypto from 'crypto';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { generationJobs, type GenerationJob } from '@shared/schema';
+import { MEDIA_PROVIDERS, getMediaProvider, type MediaProviderId } from '@shared/mediaProviders';
+import { storage } from '../storage';
+import { wakeJob, type GenerationJobType } from './jobQueue';
+
+// ==================== TYPES ====================
+
+/**
+ * Body KIE posts to callBackUrl. Only the task ID is used.
+ */
+export interface KieCallbackPayload {
+  code?: number;
+  msg?: string;
+  data?: {
+    taskId?: string;
+    task_id?: string;
+    [key: string]: unknown;
+  };
+}
+
+export type KieCallbackResult =
+  | { handled: true; mediaAssetId: string; generationJobId?: string; duplicate?: boolean }
+  | { handled: false; reason: string };
+
+// ==================== CONFIG ====================
+
+const CALLBACK_SECRET = process.env.KIE_CALLBACK_SECRET;
+const CALLBACK_PATH = '/api/kie/callback';
+
+// Status polling interval once callbacks are enabled (fallback sweep only)
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Job types whose asset taskId is a KIE task
+const KIE_JOB_TYPES: GenerationJobType[] = ['media_generation', 'ugc_chain'];
+
+// ==================== SERVICE ====================
+
+export function isKieCallbackEnabled(): boolean {
+  return !!CALLBACK_SECRET;
+}
+
+/**
+ * callBackUrl to send with a KIE generation request, or undefined if
+ * callbacks aren't configured (or the provider doesn't call back)
+ */
+export function getKieCallbackUrl(providerId: MediaProviderId): string | undefined {
+  if (!CALLBACK_SECRET || MEDIA_PROVIDERS[providerId].status !== 'callback') {
+    return undefined;
+  }
+  const baseUrl = process.env.RENDER_EXTERNAL_URL || process.env.BASE_URL || 'http://localhost:5000';
+  return `${baseUrl}${CALLBACK_PATH}/${providerId}?token=${signProvider(providerId)}`;
+}
+
+/**
+ * Poll interval for a KIE status check - stretched to a slow safety-net
+ * sweep when the provider will call back
+ */
+export function getKiePollInterval(provider: string, pollIntervalMs: number): number {
+  const providerId = getMediaProvider(provider)?.id;
+  return providerId && getKieCallbackUrl(providerId) ? Math.max(pollIntervalMs, SWEEP_INTERVAL_MS) : pollIntervalMs;
+}
+
+/**
+ * Verify the ?token= of a callback URL
+ */
+export function verifyKieCallbackToken(provider: string, token: string | undefined): boolean {
+  const descriptor = getMediaProvider(provider);
+  if (!CALLBACK_SECRET || !descriptor || descriptor.id !== provider || !token) {
+    return false;
+  }
+
+  const expected = signProvider(descriptor.id);
+  if (token.length !== expected.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+}
+
+/**
+ * Apply a verified callback: wake the job that owns the asset's current task
+ */
+export async function handleKieCallback(
+  providerId: MediaProviderId,
+  payload: KieCallbackPayload
+): Promise<KieCallbackResult> {
+  const taskId = payload.data?.taskId || payload.data?.task_id;
+  if (!taskId) {
+    return { handled: false, reason: 'Callback has no taskId' };
+  }
+
+  // Assets point at their current task only - callbacks for superseded tasks
+  // (e.g. a Sora2 task after the Veo3 fallback) find nothing
+  const asset = await storage.getMediaAssetByTaskId(taskId);
+  if (!asset) {
+    return { handled: false, reason: `No asset for ${providerId} task ${taskId}` };
+  }
+
+  if (asset.status !== 'processing') {
+    console.log(`[KIE Callback] Duplicate ${providerId} callback task=${taskId} asset=${asset.id} status=${asset.status}`);
+    return { handled: true, mediaAssetId: asset.id, duplicate: true };
+  }
+
+  const job = await findActiveKieJob(asset.id);
+  if (!job || !(await wakeJob(job.id))) {
+    // Nothing waiting on this task (job already finished) - nothing to advance
+    return { handled: true, mediaAssetId: asset.id, duplicate: true };
+  }
+
+  console.log(`[KIE Callback] ${providerId} task=${taskId} woke job=${job.id} type=${job.type} asset=${asset.id}`);
+  return { handled: true, mediaAssetId: asset.id, generationJobId: job.id };
+}
+
+// ==================== HELPERS ====================
+
+function signProvider(providerId: MediaProviderId): string {
+  return crypto.createHmac('sha256', CALLBACK_SECRET!).update(`kie-callback:${providerId}`).digest('hex');
+}
+
+/**
+ * Queued / running generation job for an asset
+ */
+async function findActiveKieJob(mediaAssetId: string): Promise<GenerationJob | undefined> {
+  const [job] = await db
+    .select()
+    .from(generationJobs)
+    .where(and(
+      eq(generationJobs.mediaAssetId, mediaAssetId),
+      inArray(generationJobs.type, KIE_JOB_TYPES),
+      inArray(generationJobs.status, ['queued', 'running'])
+    ))
+    .orderBy(desc(generationJobs.createdAt))
+    .limit(1);
+  return job;
+}
+
+// ==================== EXPORTS ====================
+
+export const kieCallbackService = {
+  isKieCallbackEnabled,
+  getKieCallbackUrl,
+  getKiePollInterval,
+  verifyKieCallbackToken,
+  handleKieCallback,
+};
+
+export default kieCallbackService;
@@ -1,10 +1,13 @@
 import { db } from "../db";
 import { apiLogs, type InsertApiLog } from "@shared/schema";
+import { SIMULATED_PROVIDERS } from "./simulated/core";
+import { simulatedKlapService } from "./simulated/klap";
+import { recordProviderCost } from "./costTracking";
 
 const KLAP_API_URL = "https://api.klap.app/v2";
 const KLAP_API_KEY = process.env.KLAP_API_KEY;
 
-if (!KLAP_API_KEY) {
+if (!KLAP_API_KEY && !SIMULATED_PROVIDERS) {
   throw new Error("KLAP_API_KEY must be set in environment variables");
 }
 
@@ -105,7 +108,7 @@ export interface VideoToShortsOptions {
   minimumDuration?: number;
 }
 
-export const klapService = {
+const liveKlapService = {
   async createVideoToShortsTask(
     sourceVideoUrl: string,
     options?: VideoToShortsOptions,
@@ -132,12 +135,14 @@ export const klapService = {
       body.max_duration = options.minimumDuration;
     }
 
-    return klapRequest<VideoToShortsResponse>({
+    const task = await klapRequest<VideoToShortsResponse>({
       method: "POST",
       endpoint: "/tasks/video-to-shorts",
       body,
       taskId,
     });
+    await recordProviderCost({ provider: "klap", operation: "video_to_shorts", metadata: { klapTaskId: task.id, taskId } });
+    return task;
   },
 
   async getTaskStatus(taskId: string): Promise<TaskStatusResponse> {
@@ -164,12 +169,14 @@ export const klapService = {
     projectId: string,
     taskId?: string,
   ): Promise<ExportResponse> {
-    return klapRequest<ExportResponse>({
+    const exportResponse = await klapRequest<ExportResponse>({
       method: "POST",
       endpoint: `/projects/${folderId}/${projectId}/exports`,
       body: {},
       taskId,
     });
+    await recordProviderCost({ provider: "klap", operation: "export", metadata: { projectId, taskId } });
+    return exportResponse;
   },
 
   async getExportStatus(
@@ -185,3 +192,6 @@ export const klapService = {
     });
   },
 };
+
+// Offline stand-in when PROVIDER_MODE=simulated (see simulated/core.ts)
+export const klapService: typeof liveKlapService = SIMULATED_PROVIDERS ? simulatedKlapService : liveKlapService;
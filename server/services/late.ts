@@ -5,12 +5,16 @@
  * Documentation: https://getlate.dev/docs
  */
 
+import { SIMULATED_PROVIDERS } from './simulated/core';
+import { simulatedLateService } from './simulated/late';
+import { getZonedParts } from '@shared/timezones';
+
 const LATE_BASE_URL = 'https://getlate.dev/api/v1';
 const LATE_API_KEY = process.env.LATE_API_KEY;
 const INSTAGRAM_ACCOUNT_ID = '6900d2cd8bbca9c10cbfff74'; // Connected Instagram account
 
 // Validation: Ensure API key is configured
-if (!LATE_API_KEY) {
+if (!LATE_API_KEY && !SIMULATED_PROVIDERS) {
   console.warn('[Late Service] Warning: LATE_API_KEY is not configured in environment');
 }
 
@@ -22,6 +26,7 @@ export interface PostToInstagramParams {
   caption: string;
   contentType?: 'reel' | 'post' | 'story';
   scheduledFor?: string; // ISO 8601 UTC timestamp for scheduled posts (optional)
+  timezone?: string; // IANA timezone scheduledFor is sent in (default UTC)
 }
 
 /**
@@ -44,6 +49,32 @@ export interface LatePostResponse {
   };
 }
 
+/**
+ * Shared media, caption and schedule of a (multi-platform) post
+ */
+export interface LatePostParams {
+  videoUrl?: string;
+  thumbnailUrl?: string;
+  imageUrl?: string;
+  caption: string;
+  scheduledFor?: string;
+  timezone?: string;  // IANA - schedule times are sent as local time in it (default UTC)
+}
+
+/**
+ * One platform of a multi-platform post (Feb 2026). Fields left unset use the
+ * post's own content, media and schedule.
+ */
+export interface LatePostTarget {
+  platform: string;
+  accountId: string;
+  caption?: string;       // sent as the platform's customContent
+  contentType?: string;   // defaults per platform (reel, video, short, post)
+  scheduledFor?: string;  // ISO 8601 UTC timestamp
+  videoUrl?: string;      // platform-specific render (e.g. another aspect ratio)
+  thumbnailUrl?: string;
+}
+
 /**
  * Late.dev error response
  */
@@ -61,12 +92,167 @@ export interface CreateProfileResponse {
   createdAt: string;
 }
 
+/**
+ * scheduledFor as Late.dev takes it with a timezone: UTC timestamps as they
+ * are, otherwise local "YYYY-MM-DDTHH:mm" without a Z - Late.dev reads a
+ * Z-suffixed time as UTC only when the timezone is UTC.
+ */
+function toLateScheduledFor(scheduledFor: string, timeZone: string): string {
+  if (timeZone === 'UTC') return scheduledFor;
+
+  const zoned = getZonedParts(new Date(scheduledFor), timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${zoned.year}-${pad(zoned.month)}-${pad(zoned.day)}T${pad(zoned.hour)}:${pad(zoned.minute)}`;
+}
+
+/**
+ * Late.dev post body for postToPlatforms / updatePost. Throws when a schedule
+ * time is in the past or more than a year out.
+ */
+function buildPostRequestBody(params: LatePostParams, targets: LatePostTarget[], profileId: string) {
+  // Validate scheduled timestamps if provided
+  const scheduledTimes = [params.scheduledFor, ...targets.map(t => t.scheduledFor)].filter(Boolean) as string[];
+  for (const scheduledFor of scheduledTimes) {
+    const scheduledDate = new Date(scheduledFor);
+    const now = new Date();
+    const oneYearFromNow = new Date();
+    oneYearFromNow.setFullYear(now.getFullYear() + 1);
+
+    if (scheduledDate <= now) {
+      throw new Error('Scheduled time must be in the future');
+    }
+    if (scheduledDate > oneYearFromNow) {
+      throw new Error('Cannot schedule posts more than 1 year in advance');
+    }
+  }
+
+  console.log(`[Late Service] Posting to ${targets.map(t => t.platform).join(', ')}:`, {
+    mediaUrl: (params.videoUrl || params.imageUrl || '').substring(0, 50) + '...',
+    caption: params.caption.substring(0, 50),
+    profileId,
+    accountIds: targets.map(t => t.accountId),
+    isScheduled: scheduledTimes.length > 0,
+  });
+
+  const timeZone = params.timezone || 'UTC';
+
+  // Determine media type based on provided URL
+  const mediaItems = [];
+  if (params.videoUrl) {
+    mediaItems.push({
+      type: 'video',
+      url: params.videoUrl,
+      ...(params.thumbnailUrl && { thumbnail: params.thumbnailUrl }),
+    });
+  } else if (params.imageUrl) {
+    mediaItems.push({ type: 'image', url: params.imageUrl });
+  }
+
+  // Platform-specific content type defaults
+  const platformContentTypes: Record<string, string> = {
+    instagram: 'reel',
+    tiktok: 'video',
+    youtube: 'short',
+    facebook: 'post',
+    linkedin: 'post',
+    googlebusiness: 'post',
+  };
+
+  return {
+    content: params.caption,
+    profileId,
+    platforms: targets.map(target => ({
+      platform: target.platform,
+      accountId: target.accountId,
+      ...(target.caption && { customContent: target.caption }),
+      ...(target.scheduledFor && { scheduledFor: toLateScheduledFor(target.scheduledFor, timeZone) }),
+      ...(target.videoUrl && target.videoUrl !== params.videoUrl && {
+        customMedia: [{
+          type: 'video',
+          url: target.videoUrl,
+          ...(target.thumbnailUrl && { thumbnail: target.thumbnailUrl }),
+        }],
+      }),
+      platformSpecificData: {
+        contentType: target.contentType || platformContentTypes[target.platform] || 'post',
+      },
+    })),
+    mediaItems,
+    ...(scheduledTimes.length > 0
+      ? {
+          publishNow: false,
+          // Earliest time; targets with their own scheduledFor override it
+          scheduledFor: toLateScheduledFor(params.scheduledFor ?? scheduledTimes.sort()[0], timeZone),
+          timezone: timeZone,
+        }
+      : {
+          publishNow: true,
+        }
+    ),
+  };
+}
+
+/**
+ * Send a post body to Late.dev and parse the post out of the response
+ */
+async function sendPostRequest(
+  method: 'POST' | 'PUT',
+  url: string,
+  requestBody: ReturnType<typeof buildPostRequestBody>,
+  targets: LatePostTarget[]
+): Promise<LatePostResponse> {
+  const platformNames = targets.map(t => t.platform).join(', ');
+
+  console.log('[Late Service] Request body:', JSON.stringify(requestBody, null, 2));
+
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${LATE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    const responseText = await response.text();
+
+    if (responseText.trim() === '') {
+      throw new Error(`Late API returned empty response (HTTP ${response.status})`);
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(responseText);
+    } catch (parseError) {
+      throw new Error(`Late API returned invalid JSON (HTTP ${response.status}): ${responseText.substring(0, 200)}`);
+    }
+
+    if (!response.ok) {
+      const errorMessage = data.error || data.message || 'Unknown error from Late API';
+      throw new Error(`Late API Error (${response.status}): ${errorMessage}`);
+    }
+
+    console.log(`[Late Service] Post to ${platformNames} successful:`, {
+      postId: data.post?._id,
+      status: data.post?.status,
+    });
+
+    return data as LatePostResponse;
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error('Network error: Unable to reach Late.dev API.');
+    }
+    throw error;
+  }
+}
+
 /**
  * Late.dev Service
  *
  * Handles all interactions with the Late.dev API
  */
-export const lateService = {
+const liveLateService = {
   /**
    * Create a new Late.dev profile for a user
    *
@@ -216,8 +402,8 @@ export const lateService = {
       ...(params.scheduledFor
         ? {
             publishNow: false, // Don't publish immediately
-            scheduledFor: params.scheduledFor, // ISO 8601 UTC timestamp
-            timezone: 'UTC', // Always use UTC for consistency
+            scheduledFor: toLateScheduledFor(params.scheduledFor, params.timezone || 'UTC'),
+            timezone: params.timezone || 'UTC',
           }
         : {
             publishNow: true, // Publish immediately (default behavior)
@@ -309,6 +495,7 @@ export const lateService = {
    * Supported platforms: instagram, facebook, linkedin, tiktok, youtube, google_business
    *
    * @param params - Platform, video URL, caption, and optional settings
+   *   (thumbnailUrl: custom thumbnail for YouTube, cover image for Instagram Reels)
    * @param profileId - Late.dev profile ID
    * @param accountId - Platform account ID
    * @returns Late API response with post details
@@ -317,120 +504,111 @@ export const lateService = {
     params: {
       platform: string;
       videoUrl?: string;
+      thumbnailUrl?: string;
       imageUrl?: string;
       caption: string;
       contentType?: string;
       scheduledFor?: string;
+      timezone?: string;
     },
     profileId: string,
     accountId: string
+  ): Promise<LatePostResponse> {
+    return this.postToPlatforms(
+      {
+        videoUrl: params.videoUrl,
+        thumbnailUrl: params.thumbnailUrl,
+        imageUrl: params.imageUrl,
+        caption: params.caption,
+        scheduledFor: params.scheduledFor,
+        timezone: params.timezone,
+      },
+      [{ platform: params.platform, accountId, contentType: params.contentType }],
+      profileId
+    );
+  },
+
+  /**
+   * Post the same media to several platforms as one Late.dev post (Feb 2026)
+   *
+   * Each target can override the caption, content type, schedule time and
+   * video; the response has one `platforms` entry per target.
+   *
+   * @param params - Shared media, caption and schedule
+   * @param targets - Platform accounts to post to
+   * @param profileId - Late.dev profile ID
+   * @returns Late API response with post details
+   */
+  async postToPlatforms(
+    params: LatePostParams,
+    targets: LatePostTarget[],
+    profileId: string
   ): Promise<LatePostResponse> {
     if (!LATE_API_KEY) {
       throw new Error('LATE_API_KEY is not configured. Please add it to your .env file.');
     }
 
-    // Validate scheduled timestamp if provided
-    if (params.scheduledFor) {
-      const scheduledDate = new Date(params.scheduledFor);
-      const now = new Date();
-      const oneYearFromNow = new Date();
-      oneYearFromNow.setFullYear(now.getFullYear() + 1);
+    const requestBody = buildPostRequestBody(params, targets, profileId);
+    return sendPostRequest('POST', `${LATE_BASE_URL}/posts`, requestBody, targets);
+  },
 
-      if (scheduledDate <= now) {
-        throw new Error('Scheduled time must be in the future');
-      }
-      if (scheduledDate > oneYearFromNow) {
-        throw new Error('Cannot schedule posts more than 1 year in advance');
-      }
+  /**
+   * Replace a scheduled post's content, media, schedule and platforms (Feb 2026)
+   *
+   * Takes the same arguments as postToPlatforms - every platform is resent,
+   * so targets must include the ones that aren't changing.
+   *
+   * @param latePostId - Late.dev post ID
+   * @param params - Shared media, caption and schedule
+   * @param targets - Every platform account of the post
+   * @param profileId - Late.dev profile ID
+   * @returns Late API response with the updated post
+   */
+  async updatePost(
+    latePostId: string,
+    params: LatePostParams,
+    targets: LatePostTarget[],
+    profileId: string
+  ): Promise<LatePostResponse> {
+    if (!LATE_API_KEY) {
+      throw new Error('LATE_API_KEY is not configured');
     }
 
-    console.log(`[Late Service] Posting to ${params.platform}:`, {
-      mediaUrl: (params.videoUrl || params.imageUrl || '').substring(0, 50) + '...',
-      caption: params.caption.substring(0, 50),
-      profileId,
-      accountId,
-      isScheduled: !!params.scheduledFor,
-    });
+    console.log('[Late Service] Updating post:', latePostId);
 
-    // Determine media type based on provided URL
-    const mediaItems = [];
-    if (params.videoUrl) {
-      mediaItems.push({ type: 'video', url: params.videoUrl });
-    } else if (params.imageUrl) {
-      mediaItems.push({ type: 'image', url: params.imageUrl });
-    }
-
-    // Platform-specific content type defaults
-    const platformContentTypes: Record<string, string> = {
-      instagram: 'reel',
-      tiktok: 'video',
-      youtube: 'short',
-      facebook: 'post',
-      linkedin: 'post',
-      googlebusiness: 'post',
-    };
+    const requestBody = buildPostRequestBody(params, targets, profileId);
+    return sendPostRequest('PUT', `${LATE_BASE_URL}/posts/${latePostId}`, requestBody, targets);
+  },
 
-    const requestBody = {
-      content: params.caption,
-      profileId,
-      platforms: [
-        {
-          platform: params.platform,
-          accountId,
-          platformSpecificData: {
-            contentType: params.contentType || platformContentTypes[params.platform] || 'post',
-          },
-        },
-      ],
-      mediaItems,
-      ...(params.scheduledFor
-        ? {
-            publishNow: false,
-            scheduledFor: params.scheduledFor,
-            timezone: 'UTC',
-          }
-        : {
-            publishNow: true,
-          }
-      ),
-    };
+  /**
+   * Delete a scheduled post so it never publishes (Feb 2026)
+   *
+   * @param latePostId - Late.dev post ID
+   * @returns Success status
+   */
+  async deletePost(latePostId: string): Promise<boolean> {
+    if (!LATE_API_KEY) {
+      throw new Error('LATE_API_KEY is not configured');
+    }
 
-    console.log('[Late Service] Request body:', JSON.stringify(requestBody, null, 2));
+    console.log('[Late Service] Deleting post:', latePostId);
 
     try {
-      const response = await fetch(`${LATE_BASE_URL}/posts`, {
-        method: 'POST',
+      const response = await fetch(`${LATE_BASE_URL}/posts/${latePostId}`, {
+        method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${LATE_API_KEY}`,
-          'Content-Type': 'application/json',
         },
-        body: JSON.stringify(requestBody),
       });
 
-      const responseText = await response.text();
-
-      if (responseText.trim() === '') {
-        throw new Error(`Late API returned empty response (HTTP ${response.status})`);
-      }
-
-      let data: any;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        throw new Error(`Late API returned invalid JSON (HTTP ${response.status}): ${responseText.substring(0, 200)}`);
-      }
-
-      if (!response.ok) {
-        const errorMessage = data.error || data.message || 'Unknown error from Late API';
-        throw new Error(`Late API Error (${response.status}): ${errorMessage}`);
+      // Already gone counts as deleted
+      if (!response.ok && response.status !== 404) {
+        const errorText = await response.text();
+        throw new Error(`Late API Error (${response.status}): ${errorText.substring(0, 200)}`);
       }
 
-      console.log(`[Late Service] Post to ${params.platform} successful:`, {
-        postId: data.post?._id,
-        status: data.post?.status,
-      });
-
-      return data as LatePostResponse;
+      console.log('[Late Service] Post deleted successfully');
+      return true;
     } catch (error) {
       if (error instanceof TypeError && error.message.includes('fetch')) {
         throw new Error('Network error: Unable to reach Late.dev API.');
@@ -844,3 +1022,8 @@ export const lateService = {
     }
   },
 };
+
+/**
+ * Offline stand-in when PROVIDER_MODE=simulated (see simulated/core.ts)
+ */
+export const lateService: typeof liveLateService = SIMULATED_PROVIDERS ? simulatedLateService : liveLateService;
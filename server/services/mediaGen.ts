@@ -1,42 +1,21 @@
 /**
  * Media Generation Orchestrator
  *
- * Unified interface for all AI media generation providers
+ * Unified interface for all AI media generation providers.
+ * Each provider is an adapter in ./providers, described by its capability
+ * descriptor in @shared/mediaProviders.
  */
 
-import { kieService } from './kie.js';
-import { geminiService } from './gemini.js';
+import { getProviderRequestError, type MediaProviderId } from '@shared/mediaProviders';
+import {
+  getMediaProviderAdapter,
+  type GenerateMediaParams,
+  type MediaGenerationResult,
+} from './providers';
 
-export type MediaProvider = 'kie-veo3' | 'kie-4o-image' | 'kie-flux-kontext' | 'gemini-flash';
-export type MediaType = 'image' | 'video';
-
-export interface GenerateMediaParams {
-  provider: MediaProvider;
-  type: MediaType;
-  prompt: string;
-  referenceImageUrl?: string;
-  options?: {
-    // Video options
-    aspectRatio?: string;
-    duration?: number;
-    resolution?: '720p' | '1080p';
-
-    // Image options
-    size?: '1:1' | '3:2' | '2:3';
-    style?: string;
-    nVariants?: 1 | 2 | 4;
-  };
-}
-
-export interface MediaGenerationResult {
-  taskId: string;
-  provider: MediaProvider;
-  type: MediaType;
-  status: 'processing' | 'ready' | 'failed';
-  resultUrl?: string;
-  resultUrls?: string[]; // ✅ PHASE 4.7.1: Array of result URLs for validation
-  metadata?: any;
-}
+export type { MediaType } from '@shared/mediaProviders';
+export type { GenerateMediaParams, MediaGenerationResult } from './providers';
+export type MediaProvider = MediaProviderId;
 
 /**
  * Generate media using specified provider
@@ -49,68 +28,13 @@ export async function generateMedia(params: GenerateMediaParams): Promise<MediaG
   });
 
   try {
-    if (params.type === 'video') {
-      // Video generation - KIE Veo3 or Sora2
-      if (params.provider !== 'kie-veo3' && params.provider !== 'sora2') {
-        throw new Error('Only kie-veo3 and sora2 providers support video generation');
-      }
-
-      // Determine model based on provider
-      const model = params.provider === 'sora2' ? 'sora2' : 'veo3';
+    const adapter = getMediaProviderAdapter(params.provider);
 
-      const result = await kieService.generateVideo({
-        prompt: params.prompt,
-        model: model as any,
-        aspectRatio: params.options?.aspectRatio || '9:16', // Default to vertical for UGC
-        imageUrls: params.referenceImageUrl ? [params.referenceImageUrl] : undefined,
-        duration: params.options?.duration || 10, // Use provided duration or default to 10s
-        removeWatermark: true, // Remove watermark for cleaner UGC ads
-      });
-
-      return {
-        taskId: result.taskId,
-        provider: result.provider, // Use provider returned from KIE service
-        type: params.type,
-        status: 'processing',
-      };
-    } else {
-      // Image generation
-      if (params.provider === 'gemini-flash') {
-        // Gemini Flash (synchronous fallback)
-        const result = await geminiService.generateImage({
-          prompt: params.prompt,
-          aspectRatio: params.options?.size as any,
-        });
-
-        return {
-          taskId: `gemini-${Date.now()}`,
-          provider: params.provider,
-          type: params.type,
-          status: 'ready',
-          resultUrl: result.imageUrl,
-          metadata: result.metadata,
-        };
-      } else {
-        // KIE image generation
-        const imageProvider = params.provider === 'kie-4o-image' ? '4o-image' : 'flux-kontext';
-
-        const result = await kieService.generateImage({
-          prompt: params.prompt,
-          provider: imageProvider,
-          size: params.options?.size,
-          aspectRatio: params.options?.aspectRatio,
-          nVariants: params.options?.nVariants,
-          referenceImageUrl: params.referenceImageUrl,
-        });
-
-        return {
-          taskId: result.taskId,
-          provider: params.provider,
-          type: params.type,
-          status: 'processing',
-        };
-      }
+    if (!adapter.descriptor.mediaTypes.includes(params.type)) {
+      throw new Error(getProviderRequestError(params.provider, { type: params.type }) || 'Unsupported media type');
     }
+
+    return await adapter.generate(params);
   } catch (error: any) {
     console.error('[MediaGen] Generation failed:', error);
     throw error;
@@ -122,28 +46,15 @@ export async function generateMedia(params: GenerateMediaParams): Promise<MediaG
  */
 export async function checkMediaStatus(
   taskId: string,
-  provider: MediaProvider
+  provider: string
 ): Promise<MediaGenerationResult> {
   console.log('[MediaGen] Checking status:', { taskId, provider });
 
-  if (provider === 'gemini-flash') {
-    // Gemini is synchronous, should already be complete
-    throw new Error('Gemini Flash generations are synchronous and do not require polling');
+  const adapter = getMediaProviderAdapter(provider);
+  if (!adapter.checkStatus) {
+    // Synchronous providers should already be complete
+    throw new Error(`${adapter.descriptor.label} generations are synchronous and do not require polling`);
   }
 
-  const status = await kieService.checkStatus(taskId, provider);
-
-  return {
-    taskId,
-    provider,
-    type: provider.includes('veo3') ? 'video' : 'image',
-    status: status.status,
-    resultUrl: status.resultUrls?.[0],
-    resultUrls: status.resultUrls, // ✅ PHASE 4.7.1: Include all URLs array for validation
-    metadata: {
-      progress: status.progress,
-      errorMessage: status.errorMessage,
-      checkedAt: new Date().toISOString(), // ✅ PHASE 4.7.1: Add timestamp for debugging
-    },
-  };
+  return adapter.checkStatus(taskId);
 }
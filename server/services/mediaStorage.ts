@@ -0,0 +1,254 @@
+/**
+ * Media Storage Service (Feb 2026)
+ *
+ * Storage adapter for media the app produces or receives: TTS audio,
+ * rendered MP4s and uploaded product images. Selected by STORAGE_DRIVER:
+ * - kie (default): KIE's upload host - the previous behaviour
+ * - local: files under STORAGE_LOCAL_DIR, served by Express at /media
+ * - s3: any S3-compatible bucket (AWS S3, MinIO, R2) via SigV4-signed PUTs
+ *
+ * Adapters only decide where NEW files go. Every caller stores the returned
+ * absolute URL, so existing resultUrl values (KIE URLs) keep working no
+ * matter which driver is active.
+ *
+ * The render worker has its own copy of the local/S3 adapters
+ * (render-worker/storage.ts) configured with the same env vars.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import axios from 'axios';
+import express, { type Express } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { kieService } from './kie';
+
+// ==================== TYPES ====================
+
+export type StorageDriver = 'kie' | 'local' | 's3';
+
+/**
+ * Top-level folders - keeps buckets browsable and lets lifecycle rules
+ * target one kind of media
+ */
+export type StorageFolder = 'audio' | 'renders' | 'uploads';
+
+export interface UploadOptions {
+  folder: StorageFolder;
+  filename?: string;   // original filename - only its extension is kept
+}
+
+export interface StorageAdapter {
+  name: StorageDriver;
+  /**
+   * Store the object and return its public URL
+   */
+  putObject(key: string, body: Buffer, contentType: string): Promise<string>;
+}
+
+// ==================== CONFIG ====================
+
+const STORAGE_DRIVER = (process.env.STORAGE_DRIVER || 'kie') as StorageDriver;
+
+// Local disk
+const LOCAL_DIR = path.resolve(process.env.STORAGE_LOCAL_DIR || './storage');
+const LOCAL_ROUTE = '/media';
+const PUBLIC_BASE_URL = process.env.STORAGE_PUBLIC_URL
+  || process.env.RENDER_EXTERNAL_URL
+  || process.env.BASE_URL
+  || 'http://localhost:5000';
+
+// S3-compatible
+const S3_ENDPOINT = process.env.S3_ENDPOINT;                     // e.g. http://minio:9000 (unset = AWS)
+const S3_REGION = process.env.S3_REGION || 'us-east-1';
+const S3_BUCKET = process.env.S3_BUCKET;
+const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID;
+const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY;
+const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE !== 'false'; // MinIO needs path-style
+const S3_PUBLIC_URL = process.env.S3_PUBLIC_URL;                 // CDN / public bucket URL (optional)
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'video/mp4': 'mp4',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+// ==================== ADAPTERS ====================
+
+/**
+ * KIE upload host (legacy default)
+ */
+const kieAdapter: StorageAdapter = {
+  name: 'kie',
+  async putObject(key, body, contentType) {
+    return kieService.uploadFileBuffer(body, contentType, path.basename(key));
+  },
+};
+
+/**
+ * Local filesystem, served by registerLocalMediaRoute()
+ */
+const localAdapter: StorageAdapter = {
+  name: 'local',
+  async putObject(key, body) {
+    const filePath = path.join(LOCAL_DIR, key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    return `${PUBLIC_BASE_URL}${LOCAL_ROUTE}/${key}`;
+  },
+};
+
+/**
+ * S3-compatible bucket (single PUT - fine for our file sizes)
+ */
+const s3Adapter: StorageAdapter = {
+  name: 's3',
+  async putObject(key, body, contentType) {
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    const objectUrl = getS3ObjectUrl(key);
+    const headers = signS3Request('PUT', new URL(objectUrl), body, contentType);
+
+    await axios.put(objectUrl, body, {
+      headers,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      timeout: 300000,
+    });
+
+    return S3_PUBLIC_URL ? `${S3_PUBLIC_URL.replace(/\/$/, '')}/${key}` : objectUrl;
+  },
+};
+
+const adapters: Record<StorageDriver, StorageAdapter> = {
+  kie: kieAdapter,
+  local: localAdapter,
+  s3: s3Adapter,
+};
+
+// ==================== SERVICE ====================
+
+export function getStorageAdapter(): StorageAdapter {
+  const adapter = adapters[STORAGE_DRIVER];
+  if (!adapter) {
+    throw new Error(`Unknown STORAGE_DRIVER "${STORAGE_DRIVER}". Expected one of: ${Object.keys(adapters).join(', ')}`);
+  }
+  return adapter;
+}
+
+/**
+ * Store a buffer and return its public URL
+ */
+export async function uploadBuffer(buffer: Buffer, contentType: string, options: UploadOptions): Promise<string> {
+  const adapter = getStorageAdapter();
+  const key = buildObjectKey(options.folder, contentType, options.filename);
+
+  console.log(`[Media Storage] Uploading ${key} (${buffer.length} bytes) via ${adapter.name}`);
+  const url = await adapter.putObject(key, buffer, contentType);
+  console.log(`[Media Storage] Uploaded: ${url}`);
+
+  return url;
+}
+
+/**
+ * Serve locally stored media (no-op for other drivers)
+ * Registered before the /api auth middleware - media URLs are public, like
+ * the provider URLs they replace
+ */
+export function registerLocalMediaRoute(app: Express): void {
+  if (STORAGE_DRIVER !== 'local') {
+    return;
+  }
+  console.log(`[Media Storage] Serving ${LOCAL_DIR} at ${LOCAL_ROUTE}`);
+  app.use(LOCAL_ROUTE, express.static(LOCAL_DIR, { fallthrough: false, maxAge: '7d', immutable: true }));
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * {folder}/{yyyy}/{mm}/{uuid}.{ext} - never reuses a key, so URLs are immutable
+ */
+function buildObjectKey(folder: StorageFolder, contentType: string, filename?: string): string {
+  const now = new Date();
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+  const fromName = filename ? path.extname(filename).slice(1).toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  const extension = fromName || MIME_EXTENSIONS[contentType] || contentType.split('/')[1] || 'bin';
+  return `${folder}/${now.getUTCFullYear()}/${month}/${uuidv4()}.${extension}`;
+}
+
+function getS3ObjectUrl(key: string): string {
+  const endpoint = new URL(S3_ENDPOINT || `https://s3.${S3_REGION}.amazonaws.com`);
+  const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+
+  if (S3_FORCE_PATH_STYLE) {
+    return `${endpoint.origin}/${S3_BUCKET}/${encodedKey}`;
+  }
+  return `${endpoint.protocol}//${S3_BUCKET}.${endpoint.host}/${encodedKey}`;
+}
+
+/**
+ * AWS Signature Version 4 headers for a single-chunk request
+ */
+function signS3Request(method: string, url: URL, body: Buffer, contentType: string): Record<string, string> {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''); // YYYYMMDDTHHMMSSZ
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(body);
+
+  const signedHeaders = 'content-type;host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    `content-type:${contentType}`,
+    `host:${url.host}`,
+    `x-amz-content-sha256:${payloadHash}`,
+    `x-amz-date:${amzDate}`,
+    '',
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${S3_REGION}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, dateStamp), S3_REGION)
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    'Content-Type': contentType,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    'Authorization': `AWS4-HMAC-SHA256 Credential=${S3_ACCESS_KEY_ID}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// ==================== EXPORTS ====================
+
+export const mediaStorage = {
+  getStorageAdapter,
+  uploadBuffer,
+  registerLocalMediaRoute,
+};
+
+export default mediaStorage;
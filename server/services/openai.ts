@@ -5,13 +5,17 @@
  * Documentation: https://platform.openai.com/docs/api-reference
  */
 
+import { SIMULATED_PROVIDERS } from './simulated/core';
+import { simulatedOpenaiService } from './simulated/openai';
+import { recordTokenCost, toTokenUsage } from './costTracking';
+
 // Support both OPENAI_API_KEY and OPEN_AI_API_KEY (legacy)
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.OPEN_AI_API_KEY;
 const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o';
 const OPENAI_BASE_URL = 'https://api.openai.com/v1';
 
 // Validation: Ensure API key is configured
-if (!OPENAI_API_KEY) {
+if (!OPENAI_API_KEY && !SIMULATED_PROVIDERS) {
   console.warn('[OpenAI Service] Warning: OPENAI_API_KEY is not configured in environment');
 }
 
@@ -65,7 +69,7 @@ const DEFAULT_SYSTEM_PROMPT = `You are an expert Instagram caption writer. Creat
  *
  * Handles all interactions with the OpenAI API
  */
-export const openaiService = {
+const liveOpenaiService = {
   /**
    * Generate an Instagram caption using AI
    *
@@ -141,6 +145,13 @@ export const openaiService = {
         throw new Error(`OpenAI API Error (${response.status}): ${errorMessage}`);
       }
 
+      await recordTokenCost({
+        provider: 'openai',
+        operation: 'caption',
+        model: data.model || OPENAI_MODEL,
+        usage: toTokenUsage(data.usage),
+      });
+
       // Extract caption from response
       const caption = data.choices?.[0]?.message?.content?.trim();
 
@@ -265,6 +276,13 @@ export const openaiService = {
         throw new Error(`OpenAI Vision API Error (${response.status}): ${errorMessage}`);
       }
 
+      await recordTokenCost({
+        provider: 'openai',
+        operation: 'vision',
+        model: data.model || model,
+        usage: toTokenUsage(data.usage),
+      });
+
       // Extract analysis from response
       const analysis = data.choices?.[0]?.message?.content?.trim();
 
@@ -333,3 +351,8 @@ export const openaiService = {
     }
   },
 };
+
+/**
+ * Offline stand-in when PROVIDER_MODE=simulated (see simulated/core.ts)
+ */
+export const openaiService: typeof liveOpenaiService = SIMULATED_PROVIDERS ? simulatedOpenaiService : liveOpenaiService;
@@ -0,0 +1,150 @@
+/**
+ * Posting Queue Service (Feb 2026)
+ *
+ * Each connected account can have recurring weekly posting slots. "Add to
+ * queue" schedules a post in the account's next slot without a scheduled post
+ * in it; Autopilot queues its videos the same way. Posts sitting exactly on a
+ * slot time count as queued - cancelling one can move the later ones up.
+ */
+
+import { storage, type WorkspaceScope } from '../storage';
+import {
+  QUEUE_HORIZON_WEEKS,
+  getSlotOccurrences,
+  type WeeklySlot,
+} from '@shared/postingSlots';
+import { SCHEDULED_POST_LOCK_MINUTES } from '@shared/socialPosts';
+import type { PostingSlot, SocialPost } from '@shared/schema';
+
+// ==================== TYPES ====================
+
+/**
+ * An account's weekly slots - every row of an account shares its timezone
+ */
+export interface AccountSlots {
+  accountId: string;
+  platform: string;
+  timezone: string;
+  slots: WeeklySlot[];
+  nextFreeSlot: Date | null;
+}
+
+// ==================== CONFIG ====================
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ==================== SERVICE ====================
+
+/**
+ * The workspace's slots, one entry per account
+ */
+export async function listAccountSlots(scope: WorkspaceScope): Promise<AccountSlots[]> {
+  const rows = await storage.getPostingSlots(scope);
+
+  const accounts: AccountSlots[] = [];
+  for (const [accountId, slots] of Array.from(groupByAccount(rows))) {
+    accounts.push({
+      accountId,
+      platform: slots[0].platform,
+      timezone: slots[0].timezone,
+      slots: slots.map(toWeeklySlot),
+      nextFreeSlot: await findFreeSlot(scope, accountId, slots),
+    });
+  }
+  return accounts;
+}
+
+/**
+ * Replace an account's weekly slots (an empty list removes them)
+ */
+export async function setAccountSlots(
+  scope: WorkspaceScope,
+  account: { accountId: string; platform: string; timezone: string },
+  slots: WeeklySlot[]
+): Promise<AccountSlots> {
+  const rows = await storage.replacePostingSlots(scope, account, slots);
+  console.log(`[Posting Queue] ${account.accountId}: ${rows.length} slots (${account.timezone})`);
+
+  return {
+    ...account,
+    slots: rows.map(toWeeklySlot),
+    nextFreeSlot: await findFreeSlot(scope, account.accountId, rows),
+  };
+}
+
+/**
+ * The account's next slot with nothing scheduled in it, far enough ahead to
+ * still be editable - null when it has no slots or all are taken
+ */
+export async function findNextFreeSlot(scope: WorkspaceScope, accountId: string): Promise<Date | null> {
+  const rows = await storage.getPostingSlots(scope, accountId);
+  return findFreeSlot(scope, accountId, rows);
+}
+
+/**
+ * Queued posts of an account after a slot that just became free, earliest
+ * first - empty when `freedAt` isn't one of the account's slots
+ */
+export async function getQueuedPostsAfter(
+  scope: WorkspaceScope,
+  accountId: string,
+  freedAt: Date
+): Promise<SocialPost[]> {
+  const rows = await storage.getPostingSlots(scope, accountId);
+  if (rows.length === 0) return [];
+
+  const occurrences = getSlotOccurrences(
+    rows.map(toWeeklySlot),
+    rows[0].timezone,
+    new Date(freedAt.getTime() - 1),
+    new Date(Date.now() + QUEUE_HORIZON_WEEKS * WEEK_MS)
+  );
+  const slotTimes = new Set(occurrences.map(time => time.getTime()));
+  if (!slotTimes.has(freedAt.getTime())) return [];
+
+  const scheduled = await storage.getScheduledPostsForAccount(scope, accountId, freedAt);
+  return scheduled.filter(post => slotTimes.has(post.scheduledFor!.getTime()));
+}
+
+// ==================== HELPERS ====================
+
+async function findFreeSlot(scope: WorkspaceScope, accountId: string, rows: PostingSlot[]): Promise<Date | null> {
+  if (rows.length === 0) return null;
+
+  // Leave room for the lock window - a slot that's about to lock can't be used
+  const from = new Date(Date.now() + SCHEDULED_POST_LOCK_MINUTES * 60 * 1000);
+  const until = new Date(Date.now() + QUEUE_HORIZON_WEEKS * WEEK_MS);
+
+  const taken = new Set(
+    (await storage.getScheduledPostsForAccount(scope, accountId, from))
+      .map(post => post.scheduledFor!.getTime())
+  );
+
+  const occurrences = getSlotOccurrences(rows.map(toWeeklySlot), rows[0].timezone, from, until);
+  return occurrences.find(time => !taken.has(time.getTime())) ?? null;
+}
+
+function groupByAccount(rows: PostingSlot[]): Map<string, PostingSlot[]> {
+  const byAccount = new Map<string, PostingSlot[]>();
+  for (const row of rows) {
+    const slots = byAccount.get(row.accountId) ?? [];
+    slots.push(row);
+    byAccount.set(row.accountId, slots);
+  }
+  return byAccount;
+}
+
+function toWeeklySlot(row: PostingSlot): WeeklySlot {
+  return { dayOfWeek: row.dayOfWeek, time: row.time };
+}
+
+// ==================== EXPORTS ====================
+
+export const postingQueueService = {
+  listAccountSlots,
+  setAccountSlots,
+  findNextFreeSlot,
+  getQueuedPostsAfter,
+};
+
+export default postingQueueService;
@@ -0,0 +1,61 @@
+/**
+ * Base Media Provider Interface (Feb 2026)
+ *
+ * Contract for the AI media generators behind mediaGen. Each adapter wraps
+ * one model and carries its capability descriptor from @shared/mediaProviders.
+ */
+
+import type { MediaProviderDescriptor, MediaProviderId, MediaType } from '@shared/mediaProviders';
+
+// ==================== INTERFACES ====================
+
+export interface GenerateMediaParams {
+  provider: MediaProviderId;
+  type: MediaType;
+  prompt: string;
+  referenceImageUrl?: string;
+  options?: {
+    // Video options
+    aspectRatio?: string;
+    duration?: number;
+    resolution?: '720p' | '1080p';
+    model?: string; // KIE video model variant ('veo3' | 'veo3_fast' | 'sora2')
+
+    // Image options
+    size?: '1:1' | '3:2' | '2:3';
+    style?: string;
+    nVariants?: 1 | 2 | 4;
+  };
+}
+
+export interface MediaGenerationResult {
+  taskId: string;
+  provider: MediaProviderId;
+  type: MediaType;
+  status: 'processing' | 'ready' | 'failed';
+  resultUrl?: string;
+  resultUrls?: string[]; // ✅ PHASE 4.7.1: Array of result URLs for validation
+  metadata?: any;
+}
+
+/**
+ * Media provider adapter - one per MediaProviderId
+ */
+export interface MediaProviderAdapter {
+  /**
+   * Capabilities, cost key and status mechanism
+   */
+  readonly descriptor: MediaProviderDescriptor;
+
+  /**
+   * Start a generation
+   * Synchronous providers return status 'ready' with the result URL
+   */
+  generate(params: GenerateMediaParams): Promise<MediaGenerationResult>;
+
+  /**
+   * Poll a generation started by generate()
+   * Not implemented by synchronous providers
+   */
+  checkStatus?(taskId: string): Promise<MediaGenerationResult>;
+}
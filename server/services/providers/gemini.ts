@@ -0,0 +1,32 @@
+/**
+ * Gemini Media Provider Adapter (Feb 2026)
+ *
+ * Gemini Flash image generation - synchronous, so generate() returns the
+ * finished image and there is nothing to poll.
+ */
+
+import { geminiService } from '../gemini';
+import { MEDIA_PROVIDERS } from '@shared/mediaProviders';
+import type { GenerateMediaParams, MediaGenerationResult, MediaProviderAdapter } from './base';
+
+const descriptor = MEDIA_PROVIDERS['gemini-flash'];
+
+export const geminiFlashAdapter: MediaProviderAdapter = {
+  descriptor,
+
+  async generate(params: GenerateMediaParams): Promise<MediaGenerationResult> {
+    const result = await geminiService.generateImage({
+      prompt: params.prompt,
+      aspectRatio: (params.options?.aspectRatio || params.options?.size) as any,
+    });
+
+    return {
+      taskId: `gemini-${Date.now()}`,
+      provider: descriptor.id,
+      type: 'image',
+      status: 'ready',
+      resultUrl: result.imageUrl,
+      metadata: result.metadata,
+    };
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * Media Provider Registry (Feb 2026)
+ *
+ * Maps every MediaProviderId to its adapter. Descriptors live in
+ * @shared/mediaProviders so the client can read them too.
+ */
+
+import { getMediaProvider, type MediaProviderId } from '@shared/mediaProviders';
+import type { MediaProviderAdapter } from './base';
+import { geminiFlashAdapter } from './gemini';
+import { kie4oImageAdapter, kieFluxKontextAdapter, kieSora2Adapter, kieVeo3Adapter } from './kie';
+
+export type { GenerateMediaParams, MediaGenerationResult, MediaProviderAdapter } from './base';
+
+const adapters: Record<MediaProviderId, MediaProviderAdapter> = {
+  'kie-veo3': kieVeo3Adapter,
+  'kie-sora2': kieSora2Adapter,
+  'kie-4o-image': kie4oImageAdapter,
+  'kie-flux-kontext': kieFluxKontextAdapter,
+  'gemini-flash': geminiFlashAdapter,
+};
+
+/**
+ * Adapter for a provider ID or legacy alias
+ */
+export function getMediaProviderAdapter(provider: string): MediaProviderAdapter {
+  const descriptor = getMediaProvider(provider);
+  if (!descriptor) {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+  return adapters[descriptor.id];
+}
@@ -0,0 +1,93 @@
+/**
+ * KIE Media Provider Adapters (Feb 2026)
+ *
+ * Veo3, Sora2, 4O Image and Flux Kontext on top of kieService.
+ * All four share KIE's record-info status polling.
+ */
+
+import { kieService } from '../kie';
+import { MEDIA_PROVIDERS, type MediaProviderDescriptor } from '@shared/mediaProviders';
+import type { GenerateMediaParams, MediaGenerationResult, MediaProviderAdapter } from './base';
+
+// ==================== HELPERS ====================
+
+async function checkKieStatus(descriptor: MediaProviderDescriptor, taskId: string): Promise<MediaGenerationResult> {
+  const status = await kieService.checkStatus(taskId, descriptor.id);
+
+  return {
+    taskId,
+    provider: descriptor.id,
+    type: descriptor.mediaTypes[0],
+    status: status.status,
+    resultUrl: status.resultUrls?.[0],
+    resultUrls: status.resultUrls, // ✅ PHASE 4.7.1: Include all URLs array for validation
+    metadata: {
+      progress: status.progress,
+      errorMessage: status.errorMessage,
+      errorCode: status.errorCode,
+      checkedAt: new Date().toISOString(), // ✅ PHASE 4.7.1: Add timestamp for debugging
+    },
+  };
+}
+
+function createKieVideoAdapter(descriptor: MediaProviderDescriptor, model: 'veo3' | 'sora2'): MediaProviderAdapter {
+  return {
+    descriptor,
+
+    async generate(params: GenerateMediaParams): Promise<MediaGenerationResult> {
+      const result = await kieService.generateVideo({
+        prompt: params.prompt,
+        model: model === 'veo3' && params.options?.model === 'veo3_fast' ? 'veo3_fast' : model,
+        aspectRatio: params.options?.aspectRatio || '9:16', // Default to vertical for UGC
+        imageUrls: params.referenceImageUrl ? [params.referenceImageUrl] : undefined,
+        duration: params.options?.duration || descriptor.durations?.default,
+        removeWatermark: true, // Remove watermark for cleaner UGC ads
+      });
+
+      return {
+        taskId: result.taskId,
+        provider: descriptor.id,
+        type: 'video',
+        status: 'processing',
+      };
+    },
+
+    checkStatus: (taskId) => checkKieStatus(descriptor, taskId),
+  };
+}
+
+function createKieImageAdapter(
+  descriptor: MediaProviderDescriptor,
+  imageProvider: '4o-image' | 'flux-kontext'
+): MediaProviderAdapter {
+  return {
+    descriptor,
+
+    async generate(params: GenerateMediaParams): Promise<MediaGenerationResult> {
+      const result = await kieService.generateImage({
+        prompt: params.prompt,
+        provider: imageProvider,
+        size: params.options?.size,
+        aspectRatio: params.options?.aspectRatio,
+        nVariants: params.options?.nVariants,
+        referenceImageUrl: params.referenceImageUrl,
+      });
+
+      return {
+        taskId: result.taskId,
+        provider: descriptor.id,
+        type: 'image',
+        status: 'processing',
+      };
+    },
+
+    checkStatus: (taskId) => checkKieStatus(descriptor, taskId),
+  };
+}
+
+// ==================== ADAPTERS ====================
+
+export const kieVeo3Adapter = createKieVideoAdapter(MEDIA_PROVIDERS['kie-veo3'], 'veo3');
+export const kieSora2Adapter = createKieVideoAdapter(MEDIA_PROVIDERS['kie-sora2'], 'sora2');
+export const kie4oImageAdapter = createKieImageAdapter(MEDIA_PROVIDERS['kie-4o-image'], '4o-image');
+export const kieFluxKontextAdapter = createKieImageAdapter(MEDIA_PROVIDERS['kie-flux-kontext'], 'flux-kontext');
@@ -0,0 +1,190 @@
+/**
+ * Public HTTP (Feb 2026)
+ *
+ * Requests to user-supplied URLs (outbound webhooks) must only reach the
+ * public internet - never loopback, private networks or cloud metadata.
+ *
+ * A hostname check alone isn't enough: a public-looking name can resolve to a
+ * private address, or resolve differently on a second lookup (DNS rebinding).
+ * So postToPublicUrl resolves the host itself and checks every address at
+ * connect time, on the same lookup the socket then connects to. Redirects are
+ * never followed - a 3xx is returned to the caller like any other status.
+ *
+ * URL parsing normalizes the odd IPv4 spellings (2130706433, 0177.0.0.1,
+ * 0x7f.1) to dotted form, and IPv4-mapped IPv6 (::ffff:127.0.0.1) is matched
+ * against the IPv4 ranges.
+ */
+
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+
+// ==================== TYPES ====================
+
+export interface PublicPostResult {
+  status: number;
+}
+
+// ==================== CONFIG ====================
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+
+// IPv4 - "this" network, private, CGNAT, loopback, link-local (metadata),
+// IETF protocol assignments, documentation/benchmarking, multicast and reserved
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+
+// IPv6 - unspecified/loopback/IPv4-compatible, NAT64 and 6to4 (both can embed
+// a private IPv4), unique local, link-local, site-local and multicast
+for (const [network, prefix] of [
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['fec0::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// ==================== ADDRESSES ====================
+
+/**
+ * Whether an IP address is on the public internet (false for anything that
+ * isn't an IP address)
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * The host of a parsed URL without IPv6 brackets
+ */
+function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Whether a URL could point at the public internet, judged without DNS: https,
+ * and not localhost or a non-public IP literal. postToPublicUrl still checks
+ * the resolved addresses when it connects.
+ */
+export function isPublicHttpsUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    return false;
+  }
+  const host = urlHost(url).toLowerCase().replace(/\.$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return false;
+  }
+  return net.isIP(host) === 0 || isPublicAddress(host);
+}
+
+/**
+ * dns.lookup for http.request that fails unless every address the host
+ * resolves to is public - the socket connects to the addresses checked here
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 4);
+      return;
+    }
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      const lookupError = Object.assign(
+        new Error(`${hostname} resolves to a non-public address`),
+        { code: 'ENOTPUBLIC' }
+      );
+      callback(lookupError, '', 4);
+      return;
+    }
+    if ((options as dns.LookupOptions).all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+      return;
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// ==================== REQUESTS ====================
+
+/**
+ * POST a body to a public URL and resolve with the response status. The
+ * response body is drained and discarded. Rejects on a non-public URL or
+ * address, a network error, or after timeoutMs.
+ */
+export function postToPublicUrl(
+  value: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<PublicPostResult> {
+  const url = new URL(value);
+  const host = urlHost(url);
+  if (url.protocol !== 'https:') {
+    return Promise.reject(new Error('Only https URLs are allowed'));
+  }
+  // An IP literal never goes through lookup, so check it here
+  if (net.isIP(host) !== 0 && !isPublicAddress(host)) {
+    return Promise.reject(new Error(`${host} is not a public address`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = https.request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        lookup: publicLookup,
+      },
+      (response) => {
+        clearTimeout(timer);
+        response.resume();
+        resolve({ status: response.statusCode ?? 0 });
+      }
+    );
+    const timer = setTimeout(() => {
+      request.destroy(Object.assign(new Error(`No response within ${timeoutMs / 1000}s`), { name: 'TimeoutError' }));
+    }, timeoutMs);
+    request.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.end(body);
+  });
+}
+
+const publicHttp = {
+  isPublicAddress,
+  isPublicHttpsUrl,
+  postToPublicUrl,
+};
+
+export default publicHttp;
@@ -0,0 +1,197 @@
+/**
+ * Render Worker Callbacks (Feb 2026)
+ *
+ * Receives signed render.completed / render.failed events from the render
+ * worker (POST /api/internal/render-callback) so renders finish as soon as
+ * the worker is done instead of on the next status poll. Throttled
+ * render.progress events are relayed to the asset progress stream.
+ *
+ * Events are matched to their generation job by render job ID and passed to
+ * the handler registered for that job type, which finalizes the MediaAsset
+ * (and SceneSpec / autopilot history). Handlers are idempotent - the slow
+ * fallback poll in each job handler may get there first.
+ *
+ * Callbacks are only requested when RENDER_CALLBACK_SECRET is set (the same
+ * secret must be configured on the worker). Without it, polling stays primary.
+ */
+
+import crypto from 'crypto';
+import { and, desc, inArray, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { generationJobs, type GenerationJob } from '@shared/schema';
+import type { MediaAssetVariant, VideoThumbnails } from '@shared/videoFormats';
+import { completeJob, type GenerationJobType } from './jobQueue';
+import { reportRenderProgress } from './assetProgress';
+
+// ==================== TYPES ====================
+
+export interface RenderWorkerEvent {
+  event: 'render.completed' | 'render.failed' | 'render.progress';
+  jobId: string;
+  status: 'queued' | 'rendering' | 'complete' | 'failed';
+  stage?: string;                   // render.progress only
+  progress?: number;
+  resultUrl?: string;
+  variants?: MediaAssetVariant[];   // multi-aspect-ratio jobs, first = resultUrl
+  thumbnails?: VideoThumbnails;     // poster / preview / sprite sheet of resultUrl (best-effort)
+  error?: string;
+  completedAt?: string;
+}
+
+/**
+ * Applies a render event to the records owned by a generation job.
+ * Must be a no-op if the asset has already been finalized.
+ */
+export type RenderEventHandler = (job: GenerationJob, event: RenderWorkerEvent) => Promise<void>;
+
+export type RenderEventResult =
+  | { handled: true; generationJobId: string; mediaAssetId: string | null }
+  | { handled: false; reason: string };
+
+// ==================== CONFIG ====================
+
+const CALLBACK_SECRET = process.env.RENDER_CALLBACK_SECRET;
+const CALLBACK_PATH = '/api/internal/render-callback';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;  // reject replays of old events
+
+// Status polling interval once callbacks are enabled (fallback reconciliation only)
+const RECONCILE_INTERVAL_MS = 60 * 1000;
+
+// ==================== STATE ====================
+
+const handlers = new Map<GenerationJobType, RenderEventHandler>();
+
+// ==================== SERVICE ====================
+
+export function isRenderCallbackEnabled(): boolean {
+  return !!CALLBACK_SECRET;
+}
+
+/**
+ * Public URL the render worker should POST events to, or undefined if
+ * callbacks aren't configured
+ */
+export function getRenderCallbackUrl(): string | undefined {
+  if (!CALLBACK_SECRET) {
+    return undefined;
+  }
+  const baseUrl = process.env.RENDER_EXTERNAL_URL || process.env.BASE_URL || 'http://localhost:5000';
+  return `${baseUrl}${CALLBACK_PATH}`;
+}
+
+/**
+ * Poll interval for render status checks - stretched to a slow reconciliation
+ * sweep when the worker will call back
+ */
+export function getRenderPollInterval(pollIntervalMs: number): number {
+  return CALLBACK_SECRET ? Math.max(pollIntervalMs, RECONCILE_INTERVAL_MS) : pollIntervalMs;
+}
+
+/**
+ * Verify X-Render-Signature (sha256=<hex HMAC of `${timestamp}.${rawBody}`>)
+ */
+export function verifyRenderCallbackSignature(
+  rawBody: Buffer | undefined,
+  timestamp: string | undefined,
+  signature: string | undefined
+): boolean {
+  if (!CALLBACK_SECRET || !rawBody || !timestamp || !signature) {
+    return false;
+  }
+
+  const timestampSeconds = parseInt(timestamp, 10);
+  if (isNaN(timestampSeconds) || Math.abs(Date.now() / 1000 - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', CALLBACK_SECRET)
+    .update(`${timestamp}.${rawBody.toString('utf8')}`)
+    .digest('hex');
+
+  const received = signature.replace(/^sha256=/, '');
+  if (received.length !== expected.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
+
+/**
+ * Register the event handler for a render-backed job type
+ */
+export function registerRenderEventHandler(type: GenerationJobType, handler: RenderEventHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Generation job that submitted a render worker job
+ * UGC/Autopilot store the worker job ID in state, Content Engine in payload
+ */
+async function findRenderGenerationJob(renderJobId: string): Promise<GenerationJob | undefined> {
+  const types = Array.from(handlers.keys());
+  if (types.length === 0) {
+    return undefined;
+  }
+
+  const [job] = await db
+    .select()
+    .from(generationJobs)
+    .where(and(
+      inArray(generationJobs.type, types),
+      or(
+        sql`${generationJobs.state}->>'renderJobId' = ${renderJobId}`,
+        sql`${generationJobs.payload}->>'jobId' = ${renderJobId}`
+      )
+    ))
+    .orderBy(desc(generationJobs.createdAt))
+    .limit(1);
+  return job;
+}
+
+/**
+ * Apply a verified render.completed / render.failed event
+ */
+export async function handleRenderEvent(event: RenderWorkerEvent): Promise<RenderEventResult> {
+  const job = await findRenderGenerationJob(event.jobId);
+  if (!job) {
+    return { handled: false, reason: `No generation job for render job ${event.jobId}` };
+  }
+
+  const handler = handlers.get(job.type as GenerationJobType)!;
+  await handler(job, event);
+
+  // Skip the remaining reconciliation polls
+  await completeJob(job.id);
+
+  console.log(`[Render Callback] ${event.event} applied job=${job.id} type=${job.type} asset=${job.mediaAssetId || '-'}`);
+  return { handled: true, generationJobId: job.id, mediaAssetId: job.mediaAssetId };
+}
+
+/**
+ * Relay a verified render.progress event to the asset progress stream
+ */
+export async function handleRenderProgress(event: RenderWorkerEvent): Promise<RenderEventResult> {
+  const job = await findRenderGenerationJob(event.jobId);
+  if (!job) {
+    return { handled: false, reason: `No generation job for render job ${event.jobId}` };
+  }
+
+  if (job.mediaAssetId) {
+    reportRenderProgress(job.mediaAssetId, job.userId, event);
+  }
+  return { handled: true, generationJobId: job.id, mediaAssetId: job.mediaAssetId };
+}
+
+// ==================== EXPORTS ====================
+
+export const renderCallbackService = {
+  isRenderCallbackEnabled,
+  getRenderCallbackUrl,
+  getRenderPollInterval,
+  verifyRenderCallbackSignature,
+  registerRenderEventHandler,
+  handleRenderEvent,
+  handleRenderProgress,
+};
+
+export default renderCallbackService;
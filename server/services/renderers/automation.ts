@@ -6,9 +6,12 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { SceneSpec, SceneObject, MediaAsset } from '../../../shared/schema';
+import type { SceneSpec, SceneObject, MediaAsset, GenerationJob } from '../../../shared/schema';
 import { kieService } from '../kie';
 import { storage } from '../../storage';
+import { MEDIA_PROVIDERS } from '../../../shared/mediaProviders';
+import { enqueueJob, type JobHandler, type JobTickResult } from '../jobQueue';
+import { enqueueVideoThumbnails } from '../videoThumbnails';
 import {
   type IRenderer,
   type RenderResult,
@@ -32,8 +35,8 @@ const POLL_INTERVAL_MS = 15000;
  * Provider-specific duration limits
  */
 const DURATION_LIMITS = {
-  veo3: { min: 6, max: 20 },
-  sora2: { min: 6, max: 15 },
+  veo3: MEDIA_PROVIDERS['kie-veo3'].durations!,
+  sora2: MEDIA_PROVIDERS['kie-sora2'].durations!,
 };
 
 // ==================== AUTOMATION RENDERER ====================
@@ -107,6 +110,7 @@ export const automationRenderer: IRenderer = {
       const mediaAsset = await storage.createMediaAsset({
         id: assetId,
         userId: sceneSpec.userId,
+        workspaceId: sceneSpec.workspaceId,
         provider: generation.provider,
         type: 'video',
         prompt,
@@ -128,13 +132,21 @@ export const automationRenderer: IRenderer = {
         mediaAssetId: assetId,
       });
 
-      // 6. Poll for completion (background)
-      // Note: We start polling in background and return immediately
-      // The status can be checked via the media asset endpoint
-      pollForCompletion(generation.taskId, generation.provider, assetId, sceneSpec.id)
-        .catch(error => {
-          console.error('[Automation Renderer] Polling error:', error);
-        });
+      // 6. Poll for completion via the durable job queue
+      // Note: We return immediately; the status can be checked via the media asset endpoint
+      await enqueueJob({
+        type: 'automation_render',
+        mediaAssetId: assetId,
+        userId: sceneSpec.userId,
+        payload: {
+          taskId: generation.taskId,
+          provider: generation.provider,
+          sceneSpecId: sceneSpec.id,
+        },
+        state: { attempts: 0 },
+        delayMs: POLL_INTERVAL_MS,
+        deadlineMs: MAX_POLL_ATTEMPTS * POLL_INTERVAL_MS + POLL_INTERVAL_MS,
+      });
 
       const renderTime = Date.now() - startTime;
 
@@ -164,25 +176,30 @@ export const automationRenderer: IRenderer = {
   },
 };
 
-// ==================== POLLING FUNCTION ====================
+// ==================== POLLING JOB ====================
+
+interface AutomationRenderJobPayload {
+  taskId: string;
+  provider: string;
+  sceneSpecId: string;
+}
 
 /**
- * Poll for video generation completion
- * Updates both MediaAsset and SceneSpec when complete
+ * automation_render job handler
+ * Checks video generation status once per tick and updates both
+ * MediaAsset and SceneSpec when complete
  */
-async function pollForCompletion(
-  taskId: string,
-  provider: string,
-  assetId: string,
-  sceneSpecId: string
-): Promise<void> {
-  console.log('[Automation Renderer] Starting poll:', { taskId, provider, assetId, sceneSpecId });
-
-  let attempts = 0;
-
-  while (attempts < MAX_POLL_ATTEMPTS) {
-    await sleep(POLL_INTERVAL_MS);
-    attempts++;
+export const automationRenderJobHandler: JobHandler = {
+  async tick(job: GenerationJob): Promise<JobTickResult> {
+    const assetId = job.mediaAssetId!;
+    const { taskId, provider, sceneSpecId } = job.payload as AutomationRenderJobPayload;
+    const attempts = ((job.state as { attempts?: number } | null)?.attempts || 0) + 1;
+
+    if (attempts > MAX_POLL_ATTEMPTS) {
+      await failRender(assetId, sceneSpecId, `Render timeout after ${MAX_POLL_ATTEMPTS * POLL_INTERVAL_MS / 1000} seconds`);
+      console.error('[Automation Renderer] Render timeout:', { assetId, sceneSpecId });
+      return { done: true };
+    }
 
     try {
       const status = await kieService.checkStatus(taskId, provider);
@@ -203,6 +220,9 @@ async function pollForCompletion(
           resultUrls: status.resultUrls,
           completedAt: new Date(),
         });
+        if (resultUrl) {
+          await enqueueVideoThumbnails(assetId, resultUrl, job.userId);
+        }
 
         await storage.updateSceneSpec(sceneSpecId, {
           status: 'rendered',
@@ -215,60 +235,50 @@ async function pollForCompletion(
           resultUrl: resultUrl?.substring(0, 60) + '...',
         });
 
-        return;
+        return { done: true };
       }
 
       if (status.status === 'failed') {
-        // Failed - update both records
         const errorMessage = status.errorMessage || 'Video generation failed';
-
-        await storage.updateMediaAsset(assetId, {
-          status: 'error',
-          errorMessage,
-        });
-
-        await storage.updateSceneSpec(sceneSpecId, {
-          status: 'failed',
-          errorMessage,
-        });
-
+        await failRender(assetId, sceneSpecId, errorMessage);
         console.error('[Automation Renderer] Render failed:', { assetId, sceneSpecId, errorMessage });
-
-        return;
+        return { done: true };
       }
 
       // Still processing - continue polling
     } catch (error) {
-      console.error(`[Automation Renderer] Poll error (attempt ${attempts}):`, error);
-
       // Continue polling on transient errors
-      if (attempts >= MAX_POLL_ATTEMPTS) {
-        throw error;
-      }
+      console.error(`[Automation Renderer] Poll error (attempt ${attempts}):`, error);
     }
-  }
 
-  // Timeout - mark as failed
-  const timeoutMessage = `Render timeout after ${MAX_POLL_ATTEMPTS * POLL_INTERVAL_MS / 1000} seconds`;
+    return { done: false, delayMs: POLL_INTERVAL_MS, state: { attempts } };
+  },
+
+  async onTimeout(job: GenerationJob): Promise<void> {
+    const { sceneSpecId } = job.payload as AutomationRenderJobPayload;
+    await failRender(job.mediaAssetId!, sceneSpecId, `Render timeout after ${MAX_POLL_ATTEMPTS * POLL_INTERVAL_MS / 1000} seconds`);
+    console.error('[Automation Renderer] Render timeout:', { assetId: job.mediaAssetId, sceneSpecId });
+  },
+
+  async onFailure(job: GenerationJob, error: Error): Promise<void> {
+    const { sceneSpecId } = job.payload as AutomationRenderJobPayload;
+    await failRender(job.mediaAssetId!, sceneSpecId, error.message || 'Render failed');
+  },
+};
 
+/**
+ * Mark both the MediaAsset and SceneSpec as failed
+ */
+async function failRender(assetId: string, sceneSpecId: string, errorMessage: string): Promise<void> {
   await storage.updateMediaAsset(assetId, {
     status: 'error',
-    errorMessage: timeoutMessage,
+    errorMessage,
   });
 
   await storage.updateSceneSpec(sceneSpecId, {
     status: 'failed',
-    errorMessage: timeoutMessage,
+    errorMessage,
   });
-
-  console.error('[Automation Renderer] Render timeout:', { assetId, sceneSpecId });
-}
-
-/**
- * Sleep utility
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 // ==================== EXPORTS ====================
@@ -8,20 +8,30 @@
  * 1. Pre-generate TTS audio for all scenes (ElevenLabs)
  * 2. Fetch stock footage for all scenes (Pexels)
  * 3. Generate Remotion code via Claude API
- * 4. Validate generated code
+ * 4. Validate generated code (parse, import allowlist, banned globals, type-check);
+ *    issues go back to Claude for a bounded number of repair rounds
  * 5. Dispatch to render worker (Docker service)
- * 6. Poll for completion
+ * 6. Wait for the worker's completion callback (slow status poll as fallback)
  * 7. Update MediaAsset with result URL
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
-import type { SceneSpec, SceneObject, MediaAsset } from '../../../shared/schema';
+import type { SceneSpec, SceneObject, MediaAsset, GenerationJob } from '../../../shared/schema';
+import type { VideoThumbnails } from '../../../shared/videoFormats';
 import type { IRenderer, RenderResult, RemotionRenderOptions } from './base';
+import { enqueueJob, type JobHandler, type JobTickResult } from '../jobQueue';
+import { getRenderCallbackUrl, getRenderPollInterval, type RenderEventHandler } from '../renderCallbacks';
+import { getThumbnailFields } from '../videoThumbnails';
+import { reportAssetProgress, reportRenderProgress } from '../assetProgress';
 import { ttsService } from '../tts';
 import { stockFootageService } from '../stockFootage';
 import { remotionPrompts, type RemotionPromptInput } from '../../prompts/remotion-codegen';
+import { validateRemotionSource, formatRemotionCodeIssues, type RemotionCodeIssue } from './remotionCodeValidator';
 import { storage } from '../../storage';
+import { SIMULATED_PROVIDERS } from '../simulated/core';
+import { simulatedAnthropicService } from '../simulated/anthropic';
+import { recordProviderCost, recordTokenCost, toTokenUsage } from '../costTracking';
 
 // ==================== CONFIGURATION ====================
 
@@ -41,6 +51,9 @@ const DEFAULT_HEIGHT = 1920; // 9:16 portrait
 const POLL_INTERVAL_MS = 30000; // 30 seconds
 const MAX_POLL_ATTEMPTS = 30; // 15 minutes max
 
+// Follow-up generations when the code fails validation (after the first attempt)
+const MAX_REPAIR_ROUNDS = 2;
+
 // ==================== TYPES ====================
 
 interface RenderJob {
@@ -58,6 +71,23 @@ interface RenderJob {
   error?: string;
 }
 
+interface ClaudeMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * One code generation attempt (sceneSpecs.metadata.codegenAttempts)
+ */
+interface CodegenAttempt {
+  attempt: number;
+  valid: boolean;
+  issues: RemotionCodeIssue[];
+  codeLength: number;
+  error?: string;            // Claude call failed - no code to validate
+  createdAt: string;
+}
+
 interface PreparedScene {
   order: number;
   voiceoverText: string;
@@ -149,7 +179,7 @@ export const remotionRenderer: IRenderer = {
         videoUrls: footageResult.videoUrls[index] || [],
       }));
 
-      // Step 4: Generate Remotion code via Claude
+      // Step 4-5: Generate and validate Remotion code via Claude (with repair rounds)
       console.log('[Remotion Renderer] Step 4: Generating Remotion code via Claude...');
       const promptInput: RemotionPromptInput = {
         title: sceneSpec.title,
@@ -161,27 +191,15 @@ export const remotionRenderer: IRenderer = {
         scenes: preparedScenes,
       };
 
-      const generatedCode = await generateRemotionCode(promptInput);
-      
-      if (!generatedCode) {
-        return {
-          success: false,
-          error: 'Failed to generate Remotion code from Claude',
-        };
-      }
+      const codegen = await generateValidatedCode(sceneSpec, promptInput);
 
-      // Step 5: Validate generated code
-      console.log('[Remotion Renderer] Step 5: Validating generated code...');
-      const cleanedCode = remotionPrompts.cleanCode(generatedCode);
-      const validation = remotionPrompts.validateCode(cleanedCode);
-      
-      if (!validation.valid) {
-        console.error('[Remotion Renderer] Code validation failed:', validation.error);
+      if (!codegen.code) {
         return {
           success: false,
-          error: `Generated code validation failed: ${validation.error}`,
+          error: codegen.error,
         };
       }
+      const cleanedCode = codegen.code;
 
       // Step 6: Create MediaAsset record
       console.log('[Remotion Renderer] Step 6: Creating MediaAsset...');
@@ -191,6 +209,7 @@ export const remotionRenderer: IRenderer = {
       await storage.createMediaAsset({
         id: assetId,
         userId: sceneSpec.userId,
+        workspaceId: sceneSpec.workspaceId,
         provider: 'remotion',
         type: 'video',
         prompt: `Content Engine: ${sceneSpec.title}`,
@@ -248,9 +267,19 @@ export const remotionRenderer: IRenderer = {
         };
       }
 
-      // Step 9: Start background polling
+      reportAssetProgress(assetId, sceneSpec.userId, 'queued');
+
+      // Step 9: Queue durable background polling
       console.log('[Remotion Renderer] Step 8: Starting background polling...');
-      pollForCompletion(jobId, assetId, sceneSpec.id);
+      await enqueueJob({
+        type: 'remotion_render',
+        mediaAssetId: assetId,
+        userId: sceneSpec.userId,
+        payload: { jobId, sceneSpecId: sceneSpec.id },
+        state: { attempts: 0 },
+        delayMs: getRenderPollInterval(POLL_INTERVAL_MS),
+        deadlineMs: MAX_POLL_ATTEMPTS * POLL_INTERVAL_MS + POLL_INTERVAL_MS,
+      });
 
       return {
         success: true,
@@ -274,17 +303,98 @@ export const remotionRenderer: IRenderer = {
 
 // ==================== CLAUDE CODE GENERATION ====================
 
+/**
+ * Generate composition code that passes validation
+ * Each failed attempt is sent back to Claude with its issues, up to
+ * MAX_REPAIR_ROUNDS times. Attempts are recorded in sceneSpecs.metadata.
+ */
+async function generateValidatedCode(
+  sceneSpec: SceneSpec,
+  input: RemotionPromptInput
+): Promise<{ code?: string; error?: string }> {
+  const messages: ClaudeMessage[] = [
+    { role: 'user', content: remotionPrompts.buildUserPrompt(input) },
+  ];
+  const attempts: CodegenAttempt[] = [];
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ROUNDS + 1; attempt++) {
+    const generatedCode = SIMULATED_PROVIDERS
+      ? await simulatedAnthropicService.generateRemotionCode(input).catch(() => null)
+      : await generateRemotionCode(messages);
+
+    if (!generatedCode) {
+      attempts.push({
+        attempt,
+        valid: false,
+        issues: [],
+        codeLength: 0,
+        error: 'Code generation request failed',
+        createdAt: new Date().toISOString(),
+      });
+      await recordCodegenAttempts(sceneSpec, attempts);
+      return { error: 'Failed to generate Remotion code from Claude' };
+    }
+
+    console.log(`[Remotion Renderer] Step 5: Validating generated code (attempt ${attempt})...`);
+    const code = remotionPrompts.cleanCode(generatedCode);
+    const validation = validateRemotionSource(code);
+
+    attempts.push({
+      attempt,
+      valid: validation.valid,
+      issues: validation.issues,
+      codeLength: code.length,
+      createdAt: new Date().toISOString(),
+    });
+    await recordCodegenAttempts(sceneSpec, attempts);
+
+    if (validation.valid) {
+      return { code };
+    }
+
+    const issues = formatRemotionCodeIssues(validation.issues);
+    console.warn(`[Remotion Renderer] Code validation failed (attempt ${attempt}):\n${issues}`);
+
+    // Repair round: previous code as the assistant turn, issues as the next user turn
+    messages.push(
+      { role: 'assistant', content: code },
+      { role: 'user', content: remotionPrompts.buildRepairPrompt(issues) }
+    );
+  }
+
+  const lastIssue = attempts[attempts.length - 1].issues[0];
+  return {
+    error: `Generated code validation failed after ${attempts.length} attempts: ${lastIssue?.message || 'unknown issue'}`,
+  };
+}
+
+/**
+ * Store the code generation attempts on the SceneSpec (best-effort)
+ */
+async function recordCodegenAttempts(sceneSpec: SceneSpec, attempts: CodegenAttempt[]): Promise<void> {
+  try {
+    await storage.updateSceneSpec(sceneSpec.id, {
+      metadata: {
+        ...((sceneSpec.metadata as Record<string, unknown> | null) || {}),
+        codegenAttempts: attempts,
+      },
+    });
+  } catch (error: any) {
+    console.error('[Remotion Renderer] Failed to record codegen attempts:', error.message);
+  }
+}
+
 /**
  * Generate Remotion code using Claude API
+ *
+ * @param messages - Conversation so far (initial prompt, plus previous attempts and repair prompts)
  */
-async function generateRemotionCode(input: RemotionPromptInput): Promise<string | null> {
+async function generateRemotionCode(messages: ClaudeMessage[]): Promise<string | null> {
   if (!ANTHROPIC_API_KEY) {
     console.error('[Remotion Renderer] ANTHROPIC_API_KEY not configured');
     return null;
   }
 
-  const userPrompt = remotionPrompts.buildUserPrompt(input);
-
   try {
     const response = await axios.post(
       'https://api.anthropic.com/v1/messages',
@@ -292,12 +402,7 @@ async function generateRemotionCode(input: RemotionPromptInput): Promise<string
         model: CLAUDE_MODEL,
         max_tokens: 8000,
         system: remotionPrompts.systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
+        messages,
       },
       {
         headers: {
@@ -309,6 +414,14 @@ async function generateRemotionCode(input: RemotionPromptInput): Promise<string
       }
     );
 
+    // Every round of the repair loop is billed
+    await recordTokenCost({
+      provider: 'anthropic',
+      operation: 'remotion_codegen',
+      model: response.data.model || CLAUDE_MODEL,
+      usage: toTokenUsage(response.data.usage),
+    });
+
     const content = response.data.content;
     if (content && content.length > 0 && content[0].type === 'text') {
       console.log('[Remotion Renderer] Claude generated code, length:', content[0].text.length);
@@ -339,6 +452,7 @@ async function dispatchRenderJob(job: RenderJob): Promise<{ success: boolean; er
         jobId: job.jobId,
         code: job.code,
         outputConfig: job.config,
+        callbackUrl: getRenderCallbackUrl(),
       },
       {
         headers: {
@@ -379,20 +493,29 @@ async function dispatchRenderJob(job: RenderJob): Promise<{ success: boolean; er
   }
 }
 
-// ==================== POLLING ====================
+// ==================== POLLING JOB ====================
+
+interface RemotionRenderJobPayload {
+  jobId: string;
+  sceneSpecId: string;
+}
 
 /**
- * Poll the render worker for job completion
+ * remotion_render job handler
+ * Polls the render worker once per tick for job completion
  */
-async function pollForCompletion(
-  jobId: string,
-  mediaAssetId: string,
-  sceneSpecId: string
-): Promise<void> {
-  let attempts = 0;
+export const remotionRenderJobHandler: JobHandler = {
+  async tick(job: GenerationJob): Promise<JobTickResult> {
+    const mediaAssetId = job.mediaAssetId!;
+    const { jobId, sceneSpecId } = job.payload as RemotionRenderJobPayload;
+    const attempts = ((job.state as { attempts?: number } | null)?.attempts || 0) + 1;
+
+    // Already finalized by the render worker callback
+    const asset = await storage.getMediaAsset(mediaAssetId);
+    if (asset && asset.status !== 'processing') {
+      return { done: true };
+    }
 
-  const poll = async () => {
-    attempts++;
     console.log(`[Remotion Renderer] Polling job ${jobId}, attempt ${attempts}/${MAX_POLL_ATTEMPTS}`);
 
     try {
@@ -400,83 +523,118 @@ async function pollForCompletion(
         timeout: 10000,
       });
 
-      const { status, resultUrl, error } = response.data;
+      const { status, resultUrl, thumbnails, error } = response.data;
 
       if (status === 'complete' && resultUrl) {
-        // Success - update MediaAsset and SceneSpec
-        console.log('[Remotion Renderer] Job completed successfully:', resultUrl);
-        
-        await storage.updateMediaAsset(mediaAssetId, {
-          status: 'ready',
-          resultUrl,
-          completedAt: new Date(),
-        });
-
-        await storage.updateSceneSpec(sceneSpecId, {
-          status: 'rendered',
-          renderedAt: new Date(),
-        });
-
-        return; // Done polling
+        await completeRender(mediaAssetId, sceneSpecId, resultUrl, thumbnails);
+        return { done: true };
       }
 
       if (status === 'failed') {
-        // Failure - update status
         console.error('[Remotion Renderer] Job failed:', error);
-        
-        await storage.updateMediaAsset(mediaAssetId, {
-          status: 'failed',
-          errorMessage: error || 'Render failed',
-        });
-
-        await storage.updateSceneSpec(sceneSpecId, {
-          status: 'failed',
-          errorMessage: error || 'Render failed',
-        });
-
-        return; // Done polling
+        await failRender(mediaAssetId, sceneSpecId, error || 'Render failed');
+        return { done: true };
       }
 
       // Still rendering - continue polling
-      if (attempts < MAX_POLL_ATTEMPTS) {
-        setTimeout(poll, POLL_INTERVAL_MS);
-      } else {
-        // Timeout - mark as failed
+      reportRenderProgress(mediaAssetId, job.userId, response.data);
+      if (attempts >= MAX_POLL_ATTEMPTS) {
         console.error('[Remotion Renderer] Job timed out after', MAX_POLL_ATTEMPTS, 'attempts');
-        
-        await storage.updateMediaAsset(mediaAssetId, {
-          status: 'failed',
-          errorMessage: 'Render timed out',
-        });
-
-        await storage.updateSceneSpec(sceneSpecId, {
-          status: 'failed',
-          errorMessage: 'Render timed out',
-        });
+        await failRender(mediaAssetId, sceneSpecId, 'Render timed out');
+        return { done: true };
       }
-
     } catch (error: any) {
       console.error('[Remotion Renderer] Poll error:', error.message);
-      
-      // Network error - retry if attempts remaining
-      if (attempts < MAX_POLL_ATTEMPTS) {
-        setTimeout(poll, POLL_INTERVAL_MS);
-      } else {
-        await storage.updateMediaAsset(mediaAssetId, {
-          status: 'failed',
-          errorMessage: 'Failed to check render status',
-        });
 
-        await storage.updateSceneSpec(sceneSpecId, {
-          status: 'failed',
-          errorMessage: 'Failed to check render status',
-        });
+      // Network error - retry if attempts remaining
+      if (attempts >= MAX_POLL_ATTEMPTS) {
+        await failRender(mediaAssetId, sceneSpecId, 'Failed to check render status');
+        return { done: true };
       }
     }
-  };
 
-  // Start polling after initial delay
-  setTimeout(poll, POLL_INTERVAL_MS);
+    return { done: false, delayMs: getRenderPollInterval(POLL_INTERVAL_MS), state: { attempts } };
+  },
+
+  async onTimeout(job: GenerationJob): Promise<void> {
+    const { sceneSpecId } = job.payload as RemotionRenderJobPayload;
+    console.error('[Remotion Renderer] Job timed out after deadline:', job.mediaAssetId);
+    await failRender(job.mediaAssetId!, sceneSpecId, 'Render timed out');
+  },
+
+  async onFailure(job: GenerationJob, error: Error): Promise<void> {
+    const { sceneSpecId } = job.payload as RemotionRenderJobPayload;
+    await failRender(job.mediaAssetId!, sceneSpecId, error.message || 'Render failed');
+  },
+};
+
+/**
+ * Render worker callback for remotion_render jobs (see renderCallbacks.ts)
+ */
+export const remotionRenderEventHandler: RenderEventHandler = async (job, event) => {
+  const mediaAssetId = job.mediaAssetId!;
+  const { sceneSpecId } = job.payload as RemotionRenderJobPayload;
+
+  const asset = await storage.getMediaAsset(mediaAssetId);
+  if (!asset || asset.status !== 'processing') {
+    return;
+  }
+
+  if (event.status === 'complete' && event.resultUrl) {
+    await completeRender(mediaAssetId, sceneSpecId, event.resultUrl, event.thumbnails);
+  } else {
+    console.error('[Remotion Renderer] Job failed:', event.error);
+    await failRender(mediaAssetId, sceneSpecId, event.error || 'Render failed');
+  }
+};
+
+/**
+ * Mark the MediaAsset ready and the SceneSpec rendered
+ */
+async function completeRender(
+  mediaAssetId: string,
+  sceneSpecId: string,
+  resultUrl: string,
+  thumbnails?: VideoThumbnails
+): Promise<void> {
+  console.log('[Remotion Renderer] Job completed successfully:', resultUrl);
+
+  // Render worker compute, by seconds of output video
+  const asset = await storage.getMediaAsset(mediaAssetId);
+  const metadata = (asset?.metadata as { targetDuration?: number } | null) || {};
+  await recordProviderCost({
+    provider: 'render-worker',
+    operation: 'remotion_render',
+    units: metadata.targetDuration || 0,
+    attribution: { userId: asset?.userId, mediaAssetId, sceneSpecId },
+  });
+
+  await storage.updateMediaAsset(mediaAssetId, {
+    status: 'ready',
+    resultUrl,
+    ...getThumbnailFields(thumbnails),
+    completedAt: new Date(),
+  });
+
+  await storage.updateSceneSpec(sceneSpecId, {
+    status: 'rendered',
+    renderedAt: new Date(),
+  });
+}
+
+/**
+ * Mark both the MediaAsset and SceneSpec as failed
+ */
+async function failRender(mediaAssetId: string, sceneSpecId: string, errorMessage: string): Promise<void> {
+  await storage.updateMediaAsset(mediaAssetId, {
+    status: 'failed',
+    errorMessage,
+  });
+
+  await storage.updateSceneSpec(sceneSpecId, {
+    status: 'failed',
+    errorMessage,
+  });
 }
 
 // ==================== EXPORTS ====================
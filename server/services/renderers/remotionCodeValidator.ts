@@ -0,0 +1,284 @@
+/**
+ * Remotion Code Validator (Feb 2026)
+ *
+ * Static safety and compile checks for LLM-generated Remotion compositions,
+ * run before the code is sent to the render worker:
+ * 1. Parse as TSX (syntax errors)
+ * 2. Import allowlist - only 'remotion' and 'react', no require() or import()
+ * 3. Banned globals (process, eval, fetch, ...) and prototype escapes.
+ *    Property keys must be literals - a computed key ('constr' + 'uctor')
+ *    could reach anything, so arrays are indexed with .at() instead
+ * 4. Type-check against the installed Remotion / React declarations, with
+ *    a default-exported component
+ *
+ * The code is never executed here. Issues are formatted for the LLM repair
+ * prompt (see buildRemotionRepairPrompt).
+ */
+
+import path from 'path';
+import ts from 'typescript';
+
+// ==================== TYPES ====================
+
+export interface RemotionCodeIssue {
+  kind: 'syntax' | 'security' | 'type' | 'structure';
+  message: string;
+  line?: number;      // 1-based
+  column?: number;
+}
+
+export interface RemotionCodeValidation {
+  valid: boolean;
+  issues: RemotionCodeIssue[];
+}
+
+// ==================== CONFIG ====================
+
+const ALLOWED_MODULES = ['remotion', 'react'];
+
+// Globals the composition has no business touching - environment, network,
+// code evaluation and storage
+const BANNED_GLOBALS = new Set([
+  'process', 'require', 'module', 'exports', 'global', 'globalThis', 'Buffer',
+  '__dirname', '__filename',
+  'eval', 'Function',
+  'window', 'self', 'top', 'parent', 'frames', 'opener', 'document', 'navigator', 'location',
+  'open', 'Image',
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'Worker', 'SharedWorker', 'importScripts',
+  'localStorage', 'sessionStorage', 'indexedDB',
+  'Reflect', 'Proxy',
+]);
+
+// Property names that reach Function (or a prototype holding it) through any object
+const BANNED_PROPERTIES = new Set([
+  'constructor', '__proto__', 'prototype',
+  'getPrototypeOf', 'setPrototypeOf', 'getOwnPropertyDescriptor', 'getOwnPropertyDescriptors',
+  '__lookupGetter__', '__lookupSetter__', '__defineGetter__', '__defineSetter__',
+]);
+
+// Timers eval a string first argument - only callable with a function, and never aliased
+const TIMER_GLOBALS = new Set(['setTimeout', 'setInterval']);
+
+const MAX_ISSUES = 20;
+
+// Virtual file placed next to this module so 'remotion' / 'react' resolve from the
+// app's node_modules whatever the working directory (in dev and from dist/)
+const VIRTUAL_FILE = path.join(import.meta.dirname, '__remotion_composition__.tsx');
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ['lib.es2020.d.ts', 'lib.es2022.array.d.ts', 'lib.dom.d.ts'],
+  types: [],              // no @types/node - node globals don't exist in the composition
+  strict: false,          // LLM output: catch API misuse, not implicit any
+  esModuleInterop: true,
+  skipLibCheck: true,
+  noEmit: true,
+};
+
+// ==================== STATE ====================
+
+// Parsed lib / declaration files, shared across validations
+const declarationCache = new Map<string, ts.SourceFile>();
+
+// ==================== VALIDATION ====================
+
+/**
+ * Validate generated composition code
+ * Type-checking only runs once the code parses and passes the safety checks
+ */
+export function validateRemotionSource(code: string): RemotionCodeValidation {
+  const sourceFile = ts.createSourceFile(VIRTUAL_FILE, code, ts.ScriptTarget.ES2020, true, ts.ScriptKind.TSX);
+  const program = createProgram(sourceFile);
+
+  const syntaxIssues = program.getSyntacticDiagnostics(sourceFile).map(d => toIssue('syntax', d, sourceFile));
+  if (syntaxIssues.length > 0) {
+    return result(syntaxIssues);
+  }
+
+  const checker = program.getTypeChecker();
+
+  const securityIssues = getSecurityIssues(sourceFile, checker);
+  if (securityIssues.length > 0) {
+    return result(securityIssues);
+  }
+
+  return result([
+    ...getTypeIssues(program, sourceFile),
+    ...getStructureIssues(sourceFile, checker),
+  ]);
+}
+
+/**
+ * One line per issue, for logs and the repair prompt
+ */
+export function formatRemotionCodeIssues(issues: RemotionCodeIssue[]): string {
+  return issues
+    .map(issue => `${issue.line ? `Line ${issue.line}:${issue.column}: ` : ''}[${issue.kind}] ${issue.message}`)
+    .join('\n');
+}
+
+function result(issues: RemotionCodeIssue[]): RemotionCodeValidation {
+  return { valid: issues.length === 0, issues: issues.slice(0, MAX_ISSUES) };
+}
+
+// ==================== CHECKS ====================
+
+function getSecurityIssues(sourceFile: ts.SourceFile, checker: ts.TypeChecker): RemotionCodeIssue[] {
+  const issues: RemotionCodeIssue[] = [];
+  const report = (node: ts.Node, message: string) => {
+    issues.push({ kind: 'security', message, ...getPosition(sourceFile, node.getStart(sourceFile)) });
+  };
+
+  // Only literal keys can be checked - anything computed could spell 'constructor'
+  const checkPropertyKey = (key: ts.Expression, node: ts.Node) => {
+    if (ts.isStringLiteralLike(key)) {
+      if (BANNED_PROPERTIES.has(key.text)) {
+        report(node, `Access to '${key.text}' is not allowed`);
+      }
+    } else if (!ts.isNumericLiteral(key)) {
+      report(node, 'Computed property keys are not allowed - use a literal key, or array.at(index) for arrays');
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    // import ... from 'x' / export ... from 'x'
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier) {
+      const moduleName = ts.isStringLiteral(node.moduleSpecifier) ? node.moduleSpecifier.text : '';
+      if (!ALLOWED_MODULES.includes(moduleName)) {
+        report(node, `Import from '${moduleName}' is not allowed (only ${ALLOWED_MODULES.map(m => `'${m}'`).join(', ')})`);
+      }
+    }
+
+    // import('x') / require('x')
+    if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      report(node, 'Dynamic import() is not allowed');
+    }
+    if (ts.isImportEqualsDeclaration(node)) {
+      report(node, 'import = require() is not allowed');
+    }
+
+    // Banned globals - only references that don't resolve to a declaration in the file
+    if (ts.isIdentifier(node) && BANNED_GLOBALS.has(node.text) && isValueReference(node)) {
+      const symbol = checker.getSymbolAtLocation(node);
+      const declaredLocally = symbol?.declarations?.some(d => d.getSourceFile() === sourceFile);
+      if (!declaredLocally) {
+        report(node, `Use of '${node.text}' is not allowed`);
+      }
+    }
+
+    // setTimeout(fn, ms) only - setTimeout('code') is eval
+    if (ts.isIdentifier(node) && TIMER_GLOBALS.has(node.text) && isValueReference(node)) {
+      const symbol = checker.getSymbolAtLocation(node);
+      const declaredLocally = symbol?.declarations?.some(d => d.getSourceFile() === sourceFile);
+      const call = ts.isCallExpression(node.parent) && node.parent.expression === node ? node.parent : undefined;
+      const handler = call?.arguments[0];
+      if (!declaredLocally && (!handler || checker.getTypeAtLocation(handler).getCallSignatures().length === 0)) {
+        report(node, `'${node.text}' must be called directly with a function`);
+      }
+    }
+
+    // x.constructor / x['constructor'] / x[key]
+    if (ts.isPropertyAccessExpression(node) && BANNED_PROPERTIES.has(node.name.text)) {
+      report(node, `Access to '.${node.name.text}' is not allowed`);
+    }
+    if (ts.isElementAccessExpression(node)) {
+      checkPropertyKey(node.argumentExpression, node);
+    }
+    // const { [key]: value } = x
+    if (ts.isBindingElement(node) && node.propertyName && ts.isComputedPropertyName(node.propertyName)) {
+      checkPropertyKey(node.propertyName.expression, node);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return issues;
+}
+
+function getTypeIssues(program: ts.Program, sourceFile: ts.SourceFile): RemotionCodeIssue[] {
+  return program.getSemanticDiagnostics(sourceFile)
+    .filter(d => d.category === ts.DiagnosticCategory.Error)
+    .map(d => toIssue('type', d, sourceFile));
+}
+
+/**
+ * The worker registers the default export as the composition component
+ */
+function getStructureIssues(sourceFile: ts.SourceFile, checker: ts.TypeChecker): RemotionCodeIssue[] {
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  const defaultExport = moduleSymbol && checker.getExportsOfModule(moduleSymbol).find(s => s.escapedName === 'default');
+  if (!defaultExport) {
+    return [{ kind: 'structure', message: 'Missing default export (the composition component)' }];
+  }
+
+  const type = checker.getTypeOfSymbolAtLocation(defaultExport, sourceFile);
+  if (type.getCallSignatures().length === 0 && type.getConstructSignatures().length === 0) {
+    return [{ kind: 'structure', message: 'Default export must be a React component' }];
+  }
+  return [];
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * In-memory program over the generated file, reusing parsed declarations
+ */
+function createProgram(sourceFile: ts.SourceFile): ts.Program {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS, true);
+  const getSourceFile = host.getSourceFile.bind(host);
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    if (fileName === VIRTUAL_FILE) return sourceFile;
+
+    const cached = declarationCache.get(fileName);
+    if (cached) return cached;
+
+    const parsed = getSourceFile(fileName, languageVersion, onError, shouldCreate);
+    if (parsed) declarationCache.set(fileName, parsed);
+    return parsed;
+  };
+  host.fileExists = (fileName) => fileName === VIRTUAL_FILE || ts.sys.fileExists(fileName);
+  host.readFile = (fileName) => (fileName === VIRTUAL_FILE ? sourceFile.text : ts.sys.readFile(fileName));
+  host.writeFile = () => {};
+
+  return ts.createProgram({ rootNames: [VIRTUAL_FILE], options: COMPILER_OPTIONS, host });
+}
+
+/**
+ * Identifier used as a value, not a property / attribute / member name
+ */
+function isValueReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+  if (ts.isQualifiedName(parent) && parent.right === node) return false;
+  if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) || ts.isPropertySignature(parent)
+    || ts.isMethodDeclaration(parent)) && parent.name === node) return false;
+  if (ts.isJsxAttribute(parent)) return false;
+  return true;
+}
+
+function toIssue(kind: RemotionCodeIssue['kind'], diagnostic: ts.Diagnostic, sourceFile: ts.SourceFile): RemotionCodeIssue {
+  return {
+    kind,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+    ...(diagnostic.start !== undefined ? getPosition(sourceFile, diagnostic.start) : {}),
+  };
+}
+
+function getPosition(sourceFile: ts.SourceFile, position: number): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  return { line: line + 1, column: character + 1 };
+}
+
+// ==================== EXPORTS ====================
+
+export const remotionCodeValidator = {
+  validateRemotionSource,
+  formatRemotionCodeIssues,
+};
+
+export default remotionCodeValidator;
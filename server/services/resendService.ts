@@ -88,6 +88,77 @@ export async function sendVideoCompleteNotification(params: NotificationParams)
   }
 }
 
+export interface WorkspaceInvitationParams {
+  email: string;
+  workspaceName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+}
+
+/**
+ * Send a workspace invitation (Feb 2026)
+ * The invitation also shows in the app for the invited email, so a failed send isn't fatal.
+ */
+export async function sendWorkspaceInvitation(params: WorkspaceInvitationParams) {
+  if (!resend) {
+    console.log('[Resend] Skipping invitation - Resend not configured');
+    return { success: false, reason: 'not_configured' };
+  }
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: 'Streamline AI <no-reply@streamline.ai>',
+      to: [params.email],
+      subject: `${params.inviterName} invited you to ${params.workspaceName}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">You're invited!</h1>
+          </div>
+
+          <div style="background: white; padding: 30px; border-radius: 0 0 10px 10px;">
+            <p style="font-size: 16px; margin-bottom: 20px;">
+              <strong>${params.inviterName}</strong> invited you to join the <strong>${params.workspaceName}</strong>
+              workspace on Streamline AI as ${params.role === 'admin' ? 'an' : 'a'} <strong>${params.role}</strong>.
+            </p>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${params.acceptUrl}"
+                 style="display: inline-block; background: #667eea; color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                Accept Invitation
+              </a>
+            </div>
+
+            <p style="font-size: 14px; color: #6b7280;">
+              Sign in with ${params.email} to accept. This invitation expires in 7 days.
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+      tags: [{ name: 'type', value: 'workspace_invitation' }],
+    });
+
+    if (error) {
+      console.error(`[Resend] Failed to send invitation:`, error);
+      return { success: false, error };
+    }
+
+    console.log(`[Resend] ✅ Invitation sent to ${params.email} (ID: ${data?.id})`);
+    return { success: true, emailId: data?.id };
+  } catch (err: any) {
+    console.error(`[Resend] Unexpected error sending invitation:`, err);
+    return { success: false, error: err.message };
+  }
+}
+
 /**
  * Build email content based on notification params
  */
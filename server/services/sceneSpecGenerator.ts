@@ -13,6 +13,9 @@ import {
   type GeneratedSceneSpec,
   type SceneSpecGenerationInput,
 } from '../prompts/content-engine';
+import { SIMULATED_PROVIDERS } from './simulated/core';
+import { simulatedOpenaiService } from './simulated/openai';
+import { recordTokenCost, toTokenUsage } from './costTracking';
 
 // OpenAI configuration (reuse from existing openai.ts pattern)
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.OPEN_AI_API_KEY;
@@ -47,7 +50,7 @@ export const sceneSpecGenerator = {
     config: ChannelConfig,
     durationOverride?: number
   ): Promise<SceneSpecGenerationResult> {
-    if (!OPENAI_API_KEY) {
+    if (!OPENAI_API_KEY && !SIMULATED_PROVIDERS) {
       return {
         success: false,
         error: 'OPENAI_API_KEY is not configured',
@@ -72,6 +75,10 @@ export const sceneSpecGenerator = {
         : undefined,
     };
 
+    if (SIMULATED_PROVIDERS) {
+      return generateSimulated(input);
+    }
+
     console.log('[SceneSpec Generator] Generating SceneSpec:', {
       niche: input.niche,
       tone: input.tone,
@@ -154,6 +161,13 @@ export const sceneSpecGenerator = {
         };
       }
 
+      await recordTokenCost({
+        provider: 'openai',
+        operation: 'scene_spec',
+        model: data.model || OPENAI_MODEL,
+        usage: toTokenUsage(data.usage),
+      });
+
       // Extract content from response
       const content = data.choices?.[0]?.message?.content;
 
@@ -228,6 +242,7 @@ export const sceneSpecGenerator = {
     const mockConfig: ChannelConfig = {
       id: 'direct-generation',
       userId: 'direct-generation',
+      workspaceId: null,
       name: 'Direct Generation',
       niche: input.niche,
       tone: input.tone,
@@ -268,4 +283,16 @@ export const sceneSpecGenerator = {
   },
 };
 
+/**
+ * Offline SceneSpec when PROVIDER_MODE=simulated (see simulated/core.ts)
+ */
+async function generateSimulated(input: SceneSpecGenerationInput): Promise<SceneSpecGenerationResult> {
+  const metadata = { model: 'simulated', generatedAt: new Date().toISOString(), inputParams: input };
+  try {
+    return { success: true, sceneSpec: await simulatedOpenaiService.generateSceneSpec(input), metadata };
+  } catch (error: any) {
+    return { success: false, error: error.message, metadata };
+  }
+}
+
 export default sceneSpecGenerator;
@@ -0,0 +1,82 @@
+/**
+ * Simulated Remotion Codegen (Feb 2026)
+ *
+ * Stand-in for the Claude call in renderers/remotion.ts when
+ * PROVIDER_MODE=simulated: builds the composition the prompt asks for
+ * (background video, caption and audio per scene) from a fixed template.
+ * The output still goes through validateRemotionSource like generated code.
+ */
+
+import type { RemotionPromptInput } from '../../prompts/remotion-codegen';
+import { simulateRequest } from './core';
+
+// ==================== CONFIG ====================
+
+const CODEGEN_LATENCY_MS = 15_000;
+
+// Placeholder videos are 10s - loop them to fill longer scenes
+const PLACEHOLDER_VIDEO_SECONDS = 10;
+
+// ==================== SERVICE ====================
+
+export const simulatedAnthropicService = {
+  /**
+   * Composition code for the prompt input (same shape the real prompt requests)
+   */
+  async generateRemotionCode(input: RemotionPromptInput): Promise<string> {
+    await simulateRequest('anthropic', `codegen:${input.title}:${input.scenes.length}`, CODEGEN_LATENCY_MS);
+
+    let startFrame = 0;
+    const sequences = input.scenes.map(scene => {
+      const seconds = scene.durationHint || Math.round(input.targetDurationSeconds / input.scenes.length);
+      const durationInFrames = seconds * input.fps;
+      const from = startFrame;
+      startFrame += durationInFrames;
+
+      const audio = !input.fullAudioUrl && scene.audioUrl ? `\n        <Audio src={${JSON.stringify(scene.audioUrl)}} />` : '';
+      return `      <Sequence from={${from}} durationInFrames={${durationInFrames}}>
+        <Scene videoUrl={${JSON.stringify(scene.videoUrls[0] || '')}} text={${JSON.stringify(scene.voiceoverText)}} durationInFrames={${durationInFrames}} />${audio}
+      </Sequence>`;
+    });
+
+    const fullAudio = input.fullAudioUrl ? `\n      <Audio src={${JSON.stringify(input.fullAudioUrl)}} />` : '';
+
+    return `import React from 'react';
+import { AbsoluteFill, Audio, Loop, OffthreadVideo, Sequence, interpolate, useCurrentFrame, useVideoConfig } from 'remotion';
+
+const Scene: React.FC<{ videoUrl: string; text: string; durationInFrames: number }> = ({ videoUrl, text, durationInFrames }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const opacity = interpolate(frame, [0, 10, durationInFrames - 10, durationInFrames], [0, 1, 1, 0], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+  });
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: '#111' }}>
+      {videoUrl ? (
+        <Loop durationInFrames={${PLACEHOLDER_VIDEO_SECONDS} * fps}>
+          <OffthreadVideo src={videoUrl} muted style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+        </Loop>
+      ) : null}
+      <AbsoluteFill style={{ justifyContent: 'flex-end', alignItems: 'center', paddingBottom: '12%' }}>
+        <div style={{ opacity, maxWidth: '85%', padding: '24px 32px', borderRadius: 16, backgroundColor: 'rgba(0, 0, 0, 0.6)', color: '#fff', fontSize: 48, textAlign: 'center', fontFamily: 'sans-serif' }}>
+          {text}
+        </div>
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
+
+const SimulatedComposition: React.FC = () => {
+  return (
+    <AbsoluteFill style={{ backgroundColor: '#000' }}>
+${sequences.join('\n')}${fullAudio}
+    </AbsoluteFill>
+  );
+};
+
+export default SimulatedComposition;
+`;
+  },
+};
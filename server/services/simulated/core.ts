@@ -0,0 +1,190 @@
+/**
+ * Simulated Providers (Feb 2026)
+ *
+ * Offline stand-ins for the paid APIs (KIE, Late, Klap, ElevenLabs, Pexels,
+ * OpenAI, Gemini, Claude codegen), selected with PROVIDER_MODE=simulated:
+ * - live (default): real APIs
+ * - simulated: every service module swaps in its stand-in from this folder
+ *
+ * Stand-ins return deterministic IDs (same requests in the same order give
+ * the same IDs and outcomes), complete async tasks after realistic delays and
+ * serve placeholder media from this server. Tuning:
+ * - SIMULATED_LATENCY_SCALE: multiplies every delay (e.g. 0.1 for fast runs)
+ * - SIMULATED_FAILURE_RATE: share of requests / tasks that fail (0-1)
+ * - SIMULATED_FAILURE_SERVICES: comma list limiting the failure rate to some
+ *   services (e.g. "kie,late") - all services when unset
+ * - Any prompt / caption / text containing "[simulate-failure]" always fails
+ *
+ * Task state is in memory: after a restart, unknown simulated task IDs are
+ * reported as completed.
+ */
+
+import crypto from 'crypto';
+
+// ==================== TYPES ====================
+
+export type SimulatedService =
+  | 'kie'
+  | 'late'
+  | 'klap'
+  | 'elevenlabs'
+  | 'pexels'
+  | 'openai'
+  | 'gemini'
+  | 'anthropic';
+
+export interface SimulatedTask<T = unknown> {
+  id: string;
+  service: SimulatedService;
+  createdAt: number;
+  completesAt: number;
+  failed: boolean;
+  result: T;
+}
+
+export interface SimulatedTaskState<T = unknown> {
+  status: 'processing' | 'ready' | 'failed';
+  progress: number;                 // 0-1
+  task?: SimulatedTask<T>;          // undefined for IDs from before a restart
+}
+
+// ==================== CONFIG ====================
+
+export const SIMULATED_PROVIDERS = process.env.PROVIDER_MODE === 'simulated';
+
+const LATENCY_SCALE = Math.max(Number(process.env.SIMULATED_LATENCY_SCALE ?? 1) || 0, 0);
+const FAILURE_RATE = Math.min(Math.max(Number(process.env.SIMULATED_FAILURE_RATE ?? 0) || 0, 0), 1);
+const FAILURE_SERVICES = (process.env.SIMULATED_FAILURE_SERVICES || '')
+  .split(',')
+  .map(s => s.trim())
+  .filter(Boolean);
+
+export const FAILURE_MARKER = '[simulate-failure]';
+
+// Delays +/- 20%, derived from the request so they repeat between runs
+const JITTER = 0.2;
+
+if (SIMULATED_PROVIDERS) {
+  console.warn(
+    `[Simulated Providers] PROVIDER_MODE=simulated - no external APIs will be called ` +
+    `(latency x${LATENCY_SCALE}, failure rate ${FAILURE_RATE})`
+  );
+}
+
+// ==================== STATE ====================
+
+const tasks = new Map<string, SimulatedTask<any>>();
+const sequences = new Map<string, number>();
+
+// ==================== SERVICE ====================
+
+/**
+ * Deterministic ID: sim-{kind}-{sequence}-{hash of the request}
+ */
+export function createSimulatedId(kind: string, seed: string): string {
+  const sequence = (sequences.get(kind) || 0) + 1;
+  sequences.set(kind, sequence);
+  return `sim-${kind}-${String(sequence).padStart(6, '0')}-${hashSeed(`${kind}:${sequence}:${seed}`).slice(0, 8)}`;
+}
+
+/**
+ * Whether a simulated request / task fails (failure injection)
+ */
+export function shouldSimulateFailure(service: SimulatedService, seed: string): boolean {
+  if (seed.includes(FAILURE_MARKER)) return true;
+  if (FAILURE_RATE === 0) return false;
+  if (FAILURE_SERVICES.length > 0 && !FAILURE_SERVICES.includes(service)) return false;
+  return hashUnit(`fail:${service}:${seed}`) < FAILURE_RATE;
+}
+
+/**
+ * Wait like a real API call (reads and status checks - never fail, since a
+ * deterministic failure would repeat on every poll)
+ */
+export async function simulateLatency(seed: string, baseMs: number): Promise<void> {
+  await sleep(getSimulatedDelay(seed, baseMs));
+}
+
+/**
+ * Wait like a real API call, then fail if failure injection says so
+ *
+ * @param baseMs - Typical latency of the real call
+ */
+export async function simulateRequest(service: SimulatedService, seed: string, baseMs: number): Promise<void> {
+  await simulateLatency(seed, baseMs);
+  if (shouldSimulateFailure(service, seed)) {
+    throw new Error(`Simulated ${service} failure`);
+  }
+}
+
+/**
+ * Start an async task that completes after a realistic delay
+ * The outcome is decided up front so repeated status checks agree
+ */
+export function startSimulatedTask<T>(
+  service: SimulatedService,
+  kind: string,
+  seed: string,
+  baseMs: number,
+  result: T
+): SimulatedTask<T> {
+  const id = createSimulatedId(kind, seed);
+  const createdAt = Date.now();
+  const task: SimulatedTask<T> = {
+    id,
+    service,
+    createdAt,
+    completesAt: createdAt + getSimulatedDelay(id, baseMs),
+    failed: shouldSimulateFailure(service, `${seed}:${id}`),
+    result,
+  };
+
+  tasks.set(id, task);
+  console.log(`[Simulated Providers] ${service} task ${id} started (${task.failed ? 'will fail' : 'will succeed'} in ${Math.round((task.completesAt - createdAt) / 1000)}s)`);
+  return task;
+}
+
+/**
+ * Current state of a simulated task
+ */
+export function getSimulatedTaskState<T>(taskId: string): SimulatedTaskState<T> {
+  const task = tasks.get(taskId) as SimulatedTask<T> | undefined;
+  if (!task) {
+    return { status: 'ready', progress: 1 };
+  }
+
+  const now = Date.now();
+  if (now < task.completesAt) {
+    const progress = (now - task.createdAt) / Math.max(task.completesAt - task.createdAt, 1);
+    return { status: 'processing', progress: Math.round(progress * 100) / 100, task };
+  }
+  return { status: task.failed ? 'failed' : 'ready', progress: 1, task };
+}
+
+/**
+ * Scaled delay for a request, with deterministic jitter
+ */
+export function getSimulatedDelay(seed: string, baseMs: number): number {
+  const jitter = 1 + (hashUnit(`delay:${seed}`) * 2 - 1) * JITTER;
+  return Math.round(baseMs * jitter * LATENCY_SCALE);
+}
+
+/**
+ * Stable hex hash of a request, for IDs and fake content
+ */
+export function hashSeed(seed: string): string {
+  return crypto.createHash('sha256').update(seed).digest('hex');
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Stable number in [0, 1) for a seed
+ */
+function hashUnit(seed: string): number {
+  return parseInt(hashSeed(seed).slice(0, 8), 16) / 0x100000000;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
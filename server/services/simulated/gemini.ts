@@ -0,0 +1,35 @@
+/**
+ * Simulated Gemini Service (Feb 2026)
+ *
+ * Stand-in for geminiService when PROVIDER_MODE=simulated: images come back
+ * synchronously (like the real API) as the placeholder for the aspect ratio.
+ */
+
+import type { GenerateGeminiImageParams, GeminiImageResult } from '../gemini';
+import { simulateRequest } from './core';
+import { getPlaceholderImageUrl, storeSimulatedUpload } from './media';
+
+// ==================== CONFIG ====================
+
+const MODEL = 'simulated-gemini-2.5-flash';
+const GENERATION_LATENCY_MS = 6000;
+
+// ==================== SERVICE ====================
+
+export const simulatedGeminiService = {
+  async generateImage(params: GenerateGeminiImageParams): Promise<GeminiImageResult> {
+    await simulateRequest('gemini', `${params.aspectRatio}:${params.prompt}`, GENERATION_LATENCY_MS);
+    return {
+      imageUrl: getPlaceholderImageUrl(params.aspectRatio || '1:1'),
+      metadata: {
+        model: MODEL,
+        prompt: params.prompt,
+        generatedAt: new Date().toISOString(),
+      },
+    };
+  },
+
+  async uploadBase64Image(base64Data: string): Promise<string> {
+    return storeSimulatedUpload(Buffer.from(base64Data, 'base64'), 'gemini.png');
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * Simulated KIE.ai Service (Feb 2026)
+ *
+ * Stand-in for kieService when PROVIDER_MODE=simulated: Veo3 / Sora2 videos
+ * and 4O / Flux Kontext images complete after typical generation times with
+ * placeholder media. When KIE callbacks are enabled, completion is posted
+ * to our own callback URL like KIE would.
+ */
+
+import { getMediaProvider, type MediaProviderId } from '@shared/mediaProviders';
+import type {
+  GenerateImageParams,
+  GenerateVideoParams,
+  KIEGenerationResult,
+  KIEStatusResult,
+} from '../kie';
+import { getKieCallbackUrl } from '../kieCallbacks';
+import { getSimulatedTaskState, simulateLatency, simulateRequest, startSimulatedTask } from './core';
+import { getPlaceholderImageUrl, getPlaceholderVideoUrl, storeSimulatedUpload } from './media';
+
+// ==================== CONFIG ====================
+
+// Typical time from submission to result
+const GENERATION_TIMES_MS = {
+  veo3: 90_000,
+  sora2: 120_000,
+  '4o-image': 30_000,
+  'flux-kontext': 20_000,
+};
+
+const SUBMIT_LATENCY_MS = 800;
+const UPLOAD_LATENCY_MS = 400;
+
+// ==================== SERVICE ====================
+
+export const simulatedKieService = {
+  /**
+   * URLs are already reachable offline - returned as is
+   */
+  async uploadFile(fileUrl: string): Promise<string> {
+    await simulateRequest('kie', `upload:${fileUrl}`, UPLOAD_LATENCY_MS);
+    return fileUrl;
+  },
+
+  async uploadFileBuffer(buffer: Buffer, mimeType: string, originalFilename?: string): Promise<string> {
+    await simulateRequest('kie', `upload:${buffer.length}:${originalFilename}`, UPLOAD_LATENCY_MS);
+    const extension = mimeType.split('/')[1] || 'bin';
+    return storeSimulatedUpload(buffer, originalFilename || `upload.${extension}`);
+  },
+
+  async generateVideo(params: GenerateVideoParams): Promise<KIEGenerationResult> {
+    const model = params.model || 'veo3';
+    const isSora = model.startsWith('sora');
+    const seed = `${model}:${params.aspectRatio}:${params.duration}:${params.prompt}`;
+
+    await simulateRequest('kie', seed, SUBMIT_LATENCY_MS);
+    const task = startSimulatedTask('kie', isSora ? 'sora2' : 'veo3', seed,
+      isSora ? GENERATION_TIMES_MS.sora2 : GENERATION_TIMES_MS.veo3,
+      { resultUrls: [getPlaceholderVideoUrl(params.aspectRatio || (isSora ? '9:16' : '16:9'))] });
+    scheduleCallback(isSora ? 'kie-sora2' : 'kie-veo3', task.id, task.completesAt);
+
+    return {
+      taskId: task.id,
+      provider: isSora ? 'kie-sora2' : 'kie-veo3',
+      type: 'video',
+    };
+  },
+
+  async generateImage(params: GenerateImageParams): Promise<KIEGenerationResult> {
+    const aspectRatio = params.provider === '4o-image' ? params.size : params.aspectRatio;
+    const seed = `${params.provider}:${aspectRatio}:${params.referenceImageUrl}:${params.prompt}`;
+    const imageUrl = getPlaceholderImageUrl(aspectRatio || '1:1');
+    const variants = params.provider === '4o-image' ? params.nVariants || 1 : 1;
+
+    await simulateRequest('kie', seed, SUBMIT_LATENCY_MS);
+    const task = startSimulatedTask('kie', params.provider, seed, GENERATION_TIMES_MS[params.provider], {
+      resultUrls: Array.from({ length: variants }, (_, i) => (i === 0 ? imageUrl : `${imageUrl}?variant=${i + 1}`)),
+    });
+    scheduleCallback(`kie-${params.provider}`, task.id, task.completesAt);
+
+    return {
+      taskId: task.id,
+      provider: `kie-${params.provider}`,
+      type: 'image',
+    };
+  },
+
+  async checkStatus(taskId: string, provider: string): Promise<KIEStatusResult> {
+    const descriptor = getMediaProvider(provider);
+    if (!descriptor) {
+      throw new Error(`Unknown provider: ${provider}`);
+    }
+
+    const state = getSimulatedTaskState<{ resultUrls: string[] }>(taskId);
+    console.log(`[KIE Status Check] ${descriptor.id} - simulated status=${state.status} progress=${state.progress}`);
+
+    if (state.status === 'failed') {
+      return { taskId, status: 'failed', errorMessage: 'Simulated generation failure', errorCode: '500' };
+    }
+    if (state.status === 'processing') {
+      return { taskId, status: 'processing', progress: state.progress };
+    }
+
+    const isVideo = descriptor.mediaTypes.includes('video');
+    return {
+      taskId,
+      status: 'ready',
+      progress: 1,
+      resultUrls: state.task?.result.resultUrls
+        || [isVideo ? getPlaceholderVideoUrl(descriptor.defaultAspectRatio) : getPlaceholderImageUrl(descriptor.defaultAspectRatio)],
+    };
+  },
+
+  async get1080pVideo(taskId: string): Promise<string> {
+    await simulateLatency(`1080p:${taskId}`, SUBMIT_LATENCY_MS);
+    const state = getSimulatedTaskState<{ resultUrls: string[] }>(taskId);
+    return state.task?.result.resultUrls[0] || getPlaceholderVideoUrl();
+  },
+};
+
+// ==================== HELPERS ====================
+
+/**
+ * POST the completion callback once the task is done (only the taskId is read)
+ */
+function scheduleCallback(providerId: MediaProviderId, taskId: string, completesAt: number): void {
+  const callbackUrl = getKieCallbackUrl(providerId);
+  if (!callbackUrl) {
+    return;
+  }
+
+  setTimeout(() => {
+    fetch(callbackUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: 200, msg: 'simulated', data: { taskId } }),
+    }).catch((error) => {
+      console.error(`[KIE Callback] Simulated callback for ${taskId} failed:`, error.message);
+    });
+  }, Math.max(completesAt - Date.now(), 0)).unref();
+}
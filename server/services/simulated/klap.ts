@@ -0,0 +1,104 @@
+/**
+ * Simulated Klap Service (Feb 2026)
+ *
+ * Stand-in for klapService when PROVIDER_MODE=simulated: video-to-shorts
+ * tasks finish after a few minutes with a folder of clips, and exports
+ * resolve to the placeholder vertical video.
+ */
+
+import type {
+  ExportResponse,
+  ProjectResponse,
+  TaskStatusResponse,
+  VideoToShortsOptions,
+  VideoToShortsResponse,
+} from '../klap';
+import { getSimulatedTaskState, hashSeed, simulateLatency, simulateRequest, startSimulatedTask } from './core';
+import { getPlaceholderVideoUrl } from './media';
+
+// ==================== CONFIG ====================
+
+const TASK_TIME_MS = 3 * 60 * 1000;
+const EXPORT_TIME_MS = 45_000;
+const REQUEST_LATENCY_MS = 500;
+const DEFAULT_CLIP_COUNT = 3;
+
+// ==================== STATE ====================
+
+// Clip count per output folder (from the task options)
+const folderClipCounts = new Map<string, number>();
+
+// ==================== SERVICE ====================
+
+export const simulatedKlapService = {
+  async createVideoToShortsTask(
+    sourceVideoUrl: string,
+    options?: VideoToShortsOptions,
+    _taskId?: string,
+  ): Promise<VideoToShortsResponse> {
+    const seed = `shorts:${sourceVideoUrl}:${options?.targetClipCount}`;
+    await simulateRequest('klap', seed, REQUEST_LATENCY_MS);
+
+    const task = startSimulatedTask('klap', 'klap-task', seed, TASK_TIME_MS, {
+      folderId: `sim-folder-${hashSeed(seed).slice(0, 12)}`,
+    });
+    folderClipCounts.set(task.result.folderId, options?.targetClipCount || DEFAULT_CLIP_COUNT);
+
+    return { id: task.id, status: 'processing' };
+  },
+
+  async getTaskStatus(taskId: string): Promise<TaskStatusResponse> {
+    await simulateLatency(`status:${taskId}`, REQUEST_LATENCY_MS);
+    const state = getSimulatedTaskState<{ folderId: string }>(taskId);
+
+    if (state.status === 'failed') {
+      return { id: taskId, status: 'error', error: 'Simulated Klap processing failure' };
+    }
+    if (state.status === 'processing') {
+      return { id: taskId, status: 'processing' };
+    }
+    return {
+      id: taskId,
+      status: 'ready',
+      output_id: state.task?.result.folderId || `sim-folder-${hashSeed(taskId).slice(0, 12)}`,
+    };
+  },
+
+  async getProjects(folderId: string, _taskId?: string): Promise<ProjectResponse[]> {
+    await simulateLatency(`projects:${folderId}`, REQUEST_LATENCY_MS);
+    const clipCount = folderClipCounts.get(folderId) || DEFAULT_CLIP_COUNT;
+
+    return Array.from({ length: clipCount }, (_, i) => ({
+      id: `${folderId}-clip-${i + 1}`,
+      name: `Simulated clip ${i + 1}`,
+      folder_id: folderId,
+      virality_score: 40 + (parseInt(hashSeed(`${folderId}:${i}`).slice(0, 4), 16) % 60),
+    }));
+  },
+
+  async createExport(folderId: string, projectId: string, _taskId?: string): Promise<ExportResponse> {
+    const seed = `export:${folderId}:${projectId}`;
+    await simulateRequest('klap', seed, REQUEST_LATENCY_MS);
+
+    const task = startSimulatedTask('klap', 'klap-export', seed, EXPORT_TIME_MS, null);
+    return { id: task.id, status: 'processing' };
+  },
+
+  async getExportStatus(
+    _folderId: string,
+    _projectId: string,
+    exportId: string,
+    _taskId?: string,
+  ): Promise<ExportResponse> {
+    await simulateLatency(`export-status:${exportId}`, REQUEST_LATENCY_MS);
+    const state = getSimulatedTaskState(exportId);
+
+    if (state.status === 'failed') {
+      return { id: exportId, status: 'error', error: 'Simulated Klap export failure' };
+    }
+    if (state.status === 'processing') {
+      return { id: exportId, status: 'processing' };
+    }
+    return { id: exportId, status: 'ready', src_url: getPlaceholderVideoUrl('9:16') };
+  },
+};
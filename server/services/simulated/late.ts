@@ -0,0 +1,290 @@
+/**
+ * Simulated Late.dev Service (Feb 2026)
+ *
+ * Stand-in for lateService when PROVIDER_MODE=simulated. The connect flow
+ * redirects straight back to our OAuth callback with the platform connected,
+ * posts publish (or schedule) instantly, and analytics are generated from
+ * the posts made since startup.
+ */
+
+import type { CreateProfileResponse, LatePostParams, LatePostResponse, LatePostTarget, PostToInstagramParams } from '../late';
+import { createSimulatedId, hashSeed, simulateLatency, simulateRequest } from './core';
+
+// ==================== TYPES ====================
+
+interface SimulatedAccount {
+  _id: string;
+  platform: string;
+  username: string;
+  displayName: string;
+  profileId: string;
+  isActive: boolean;
+}
+
+interface SimulatedPost {
+  _id: string;
+  profileId: string;
+  platform: string;
+  content: string;
+  platformPostUrl: string;
+  thumbnailUrl: string | null;
+  createdAt: string;
+}
+
+// ==================== CONFIG ====================
+
+const REQUEST_LATENCY_MS = 600;
+const PUBLISH_LATENCY_MS = 1500;
+
+// ==================== STATE ====================
+
+const accounts = new Map<string, SimulatedAccount>(); // by account ID
+const posts: SimulatedPost[] = [];
+
+// ==================== SERVICE ====================
+
+export const simulatedLateService = {
+  async createProfile(email: string, name: string): Promise<CreateProfileResponse> {
+    await simulateRequest('late', `profile:${email}`, REQUEST_LATENCY_MS);
+    return {
+      profileId: `sim-profile-${hashSeed(email).slice(0, 12)}`,
+      email,
+      createdAt: new Date().toISOString(),
+    };
+  },
+
+  async postToInstagram(
+    params: PostToInstagramParams,
+    profileId?: string,
+    accountId?: string
+  ): Promise<LatePostResponse> {
+    return simulatedLateService.postToSocial(
+      { platform: 'instagram', ...params },
+      profileId || 'sim-profile-default',
+      accountId || getAccountId(profileId || 'sim-profile-default', 'instagram')
+    );
+  },
+
+  async postToSocial(
+    params: {
+      platform: string;
+      videoUrl?: string;
+      thumbnailUrl?: string;
+      imageUrl?: string;
+      caption: string;
+      contentType?: string;
+      scheduledFor?: string;
+    },
+    profileId: string,
+    accountId: string
+  ): Promise<LatePostResponse> {
+    return simulatedLateService.postToPlatforms(
+      params,
+      [{ platform: params.platform, accountId, contentType: params.contentType }],
+      profileId
+    );
+  },
+
+  async postToPlatforms(
+    params: LatePostParams,
+    targets: LatePostTarget[],
+    profileId: string
+  ): Promise<LatePostResponse> {
+    const accountIds = targets.map(t => t.accountId).join(',');
+    const seed = `${targets.map(t => t.platform).join(',')}:${accountIds}:${params.caption}:${params.videoUrl || params.imageUrl}`;
+    await simulateRequest('late', seed, PUBLISH_LATENCY_MS);
+
+    const postId = createSimulatedId('post', seed);
+    const createdAt = new Date().toISOString();
+    const isFuture = (time?: string) => !!time && new Date(time).getTime() > Date.now();
+
+    const platforms = targets.map(target => {
+      const scheduledFor = target.scheduledFor ?? params.scheduledFor;
+      const scheduled = isFuture(scheduledFor);
+      const platformPostUrl = `https://${target.platform}.example.com/p/${postId}`;
+
+      posts.unshift({
+        _id: targets.length > 1 ? `${postId}-${target.platform}` : postId,
+        profileId,
+        platform: target.platform,
+        content: target.caption || params.caption,
+        platformPostUrl,
+        thumbnailUrl: target.thumbnailUrl || params.thumbnailUrl || params.imageUrl || null,
+        createdAt: scheduled ? scheduledFor! : createdAt,
+      });
+
+      return {
+        platform: target.platform,
+        accountId: target.accountId,
+        platformPostUrl: scheduled ? undefined : platformPostUrl,
+        status: scheduled ? 'scheduled' : 'published',
+      };
+    });
+
+    const scheduled = platforms.some(p => p.status === 'scheduled');
+
+    return {
+      post: {
+        _id: postId,
+        status: scheduled ? 'scheduled' : 'published',
+        content: params.caption,
+        platforms,
+        createdAt,
+        publishNow: !scheduled,
+      },
+    };
+  },
+
+  async updatePost(
+    latePostId: string,
+    params: LatePostParams,
+    targets: LatePostTarget[],
+    profileId: string
+  ): Promise<LatePostResponse> {
+    await simulateRequest('late', `update:${latePostId}`, REQUEST_LATENCY_MS);
+
+    for (const target of targets) {
+      const post = posts.find(p => p.profileId === profileId && p.platform === target.platform &&
+        (p._id === latePostId || p._id === `${latePostId}-${target.platform}`));
+      if (post) {
+        post.content = target.caption || params.caption;
+        post.createdAt = target.scheduledFor ?? params.scheduledFor ?? post.createdAt;
+      }
+    }
+
+    return {
+      post: {
+        _id: latePostId,
+        status: 'scheduled',
+        content: params.caption,
+        platforms: targets.map(target => ({
+          platform: target.platform,
+          accountId: target.accountId,
+          status: 'scheduled',
+        })),
+        createdAt: new Date().toISOString(),
+        publishNow: false,
+      },
+    };
+  },
+
+  async deletePost(latePostId: string): Promise<boolean> {
+    await simulateRequest('late', `delete:${latePostId}`, REQUEST_LATENCY_MS);
+    for (let i = posts.length - 1; i >= 0; i--) {
+      if (posts[i]._id === latePostId || posts[i]._id.startsWith(`${latePostId}-`)) {
+        posts.splice(i, 1);
+      }
+    }
+    return true;
+  },
+
+  async disconnectAccount(accountId: string): Promise<boolean> {
+    await simulateRequest('late', `disconnect:${accountId}`, REQUEST_LATENCY_MS);
+    accounts.delete(accountId);
+    return true;
+  },
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  },
+
+  async getProfiles(): Promise<any> {
+    await simulateLatency('profiles', REQUEST_LATENCY_MS);
+    const profileIds = Array.from(new Set(Array.from(accounts.values()).map(a => a.profileId)));
+    return { profiles: profileIds.map(id => ({ _id: id, name: id })) };
+  },
+
+  async getAccounts(profileId?: string): Promise<any> {
+    await simulateLatency(`accounts:${profileId}`, REQUEST_LATENCY_MS);
+    return {
+      accounts: Array.from(accounts.values()).filter(a => !profileId || a.profileId === profileId),
+    };
+  },
+
+  /**
+   * No OAuth page - connect the account and send the browser straight back
+   */
+  async generateConnectUrl(profileId: string, platform: string, redirectUrl: string): Promise<string> {
+    await simulateRequest('late', `connect:${profileId}:${platform}`, REQUEST_LATENCY_MS);
+
+    const account: SimulatedAccount = {
+      _id: getAccountId(profileId, platform),
+      platform,
+      username: `simulated_${platform}`,
+      displayName: `Simulated ${platform}`,
+      profileId,
+      isActive: true,
+    };
+    accounts.set(account._id, account);
+
+    const url = new URL(redirectUrl);
+    url.searchParams.set('connected', platform);
+    url.searchParams.set('profileId', profileId);
+    url.searchParams.set('username', account.username);
+    return url.toString();
+  },
+
+  async handleOAuthCallback(profileId: string, platform: string): Promise<any> {
+    const { accounts: profileAccounts } = await simulatedLateService.getAccounts(profileId);
+    const connectedAccount = profileAccounts.find((acc: SimulatedAccount) => acc.platform === platform && acc.isActive);
+    if (!connectedAccount) {
+      throw new Error(`No active ${platform} account found for profile ${profileId}`);
+    }
+    return connectedAccount;
+  },
+
+  async getAnalytics(options: {
+    profileId?: string;
+    platform?: string;
+    fromDate?: string;
+    toDate?: string;
+    limit?: number;
+    page?: number;
+    sortBy?: 'date' | 'engagement';
+    order?: 'asc' | 'desc';
+  } = {}): Promise<any> {
+    await simulateLatency(`analytics:${options.profileId}`, REQUEST_LATENCY_MS);
+
+    const matching = posts
+      .filter(p => !options.profileId || p.profileId === options.profileId)
+      .filter(p => !options.platform || p.platform === options.platform)
+      .slice(0, options.limit || 50)
+      .map(post => ({
+        ...post,
+        publishedAt: post.createdAt,
+        analytics: getPostMetrics(post._id),
+      }));
+
+    return {
+      overview: {
+        totalPosts: matching.length,
+        publishedPosts: matching.length,
+      },
+      posts: matching,
+    };
+  },
+};
+
+// ==================== HELPERS ====================
+
+function getAccountId(profileId: string, platform: string): string {
+  return `sim-account-${hashSeed(`${profileId}:${platform}`).slice(0, 12)}`;
+}
+
+/**
+ * Stable fake engagement numbers for a post
+ */
+function getPostMetrics(postId: string) {
+  const hash = hashSeed(postId);
+  const views = 200 + (parseInt(hash.slice(0, 6), 16) % 20000);
+  const likes = Math.round(views * (0.02 + (parseInt(hash.slice(6, 8), 16) % 60) / 1000));
+  return {
+    views,
+    impressions: Math.round(views * 1.4),
+    reach: Math.round(views * 0.9),
+    likes,
+    comments: Math.round(likes * 0.08),
+    shares: Math.round(likes * 0.05),
+    clicks: Math.round(views * 0.01),
+  };
+}
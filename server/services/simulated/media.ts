@@ -0,0 +1,117 @@
+/**
+ * Simulated Provider Media (Feb 2026)
+ *
+ * Placeholder images and videos (server/assets/simulated, one per aspect
+ * ratio), synthesized voiceover WAVs, and a local stand-in for the KIE upload
+ * host. Everything is served by this server at /simulated-media, so renders
+ * and previews work without network access.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import express, { type Express } from 'express';
+import { SIMULATED_PROVIDERS, hashSeed } from './core';
+
+// ==================== CONFIG ====================
+
+const ASSETS_DIR = path.resolve('server/assets/simulated');
+const UPLOADS_DIR = path.resolve(process.env.STORAGE_LOCAL_DIR || './storage', 'simulated');
+const MEDIA_ROUTE = '/simulated-media';
+const PUBLIC_BASE_URL = process.env.RENDER_EXTERNAL_URL || process.env.BASE_URL || 'http://localhost:5000';
+
+// Voiceover WAV: mono 16-bit, low rate keeps files small
+const SAMPLE_RATE = 16000;
+const WORDS_PER_SECOND = 2.5;
+
+type PlaceholderShape = '9x16' | '16x9' | '1x1';
+
+// ==================== PLACEHOLDERS ====================
+
+/**
+ * Placeholder image for an aspect ratio (e.g. '9:16', '3:2')
+ */
+export function getPlaceholderImageUrl(aspectRatio?: string): string {
+  return `${PUBLIC_BASE_URL}${MEDIA_ROUTE}/placeholder-${getPlaceholderShape(aspectRatio)}.png`;
+}
+
+/**
+ * Placeholder MP4 (10s) for an aspect ratio
+ */
+export function getPlaceholderVideoUrl(aspectRatio?: string): string {
+  return `${PUBLIC_BASE_URL}${MEDIA_ROUTE}/placeholder-${getPlaceholderShape(aspectRatio)}.mp4`;
+}
+
+/**
+ * Speech-like WAV (quiet tone per word) as long as the text would take to read
+ */
+export function synthesizeSpeechWav(text: string): { buffer: Buffer; duration: number } {
+  const words = text.trim().split(/\s+/).filter(Boolean).length || 1;
+  const duration = Math.ceil(words / WORDS_PER_SECOND);
+  const sampleCount = duration * SAMPLE_RATE;
+  const samplesPerWord = Math.floor(SAMPLE_RATE / WORDS_PER_SECOND);
+  const pitch = 180 + (parseInt(hashSeed(text).slice(0, 2), 16) % 60);
+
+  const buffer = Buffer.alloc(44 + sampleCount * 2);
+  writeWavHeader(buffer, sampleCount);
+
+  for (let i = 0; i < sampleCount; i++) {
+    // Tone for the first 75% of each word slot, silence between words
+    const positionInWord = (i % samplesPerWord) / samplesPerWord;
+    const envelope = positionInWord < 0.75 ? Math.sin((Math.PI * positionInWord) / 0.75) : 0;
+    const sample = Math.sin((2 * Math.PI * pitch * i) / SAMPLE_RATE) * envelope * 0.15;
+    buffer.writeInt16LE(Math.round(sample * 32767), 44 + i * 2);
+  }
+
+  return { buffer, duration };
+}
+
+/**
+ * Store an uploaded file locally and return its public URL
+ */
+export async function storeSimulatedUpload(buffer: Buffer, filename: string): Promise<string> {
+  const extension = path.extname(filename).toLowerCase().replace(/[^.a-z0-9]/g, '') || '.bin';
+  const key = `uploads/${hashSeed(buffer.toString('base64')).slice(0, 16)}${extension}`;
+  const filePath = path.join(UPLOADS_DIR, key);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, buffer);
+  return `${PUBLIC_BASE_URL}${MEDIA_ROUTE}/${key}`;
+}
+
+/**
+ * Serve placeholders and simulated uploads (no-op unless PROVIDER_MODE=simulated)
+ * Registered before the /api auth middleware, like the provider URLs it replaces
+ */
+export function registerSimulatedMediaRoute(app: Express): void {
+  if (!SIMULATED_PROVIDERS) {
+    return;
+  }
+  app.use(MEDIA_ROUTE, express.static(ASSETS_DIR, { maxAge: '1d' }));
+  app.use(MEDIA_ROUTE, express.static(UPLOADS_DIR, { fallthrough: false, maxAge: '7d', immutable: true }));
+}
+
+// ==================== HELPERS ====================
+
+function getPlaceholderShape(aspectRatio?: string): PlaceholderShape {
+  const [width, height] = (aspectRatio || '9:16').split(':').map(Number);
+  if (!width || !height) return '9x16';
+  if (width === height) return '1x1';
+  return width > height ? '16x9' : '9x16';
+}
+
+function writeWavHeader(buffer: Buffer, sampleCount: number): void {
+  const dataSize = sampleCount * 2;
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);              // PCM chunk size
+  buffer.writeUInt16LE(1, 20);               // PCM
+  buffer.writeUInt16LE(1, 22);               // mono
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28); // byte rate
+  buffer.writeUInt16LE(2, 32);               // block align
+  buffer.writeUInt16LE(16, 34);              // bits per sample
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataSize, 40);
+}
@@ -0,0 +1,84 @@
+/**
+ * Simulated OpenAI Service (Feb 2026)
+ *
+ * Stand-in for openaiService when PROVIDER_MODE=simulated: captions and image
+ * analyses are assembled from templates, picked by a hash of the input so the
+ * same request always gets the same text.
+ */
+
+import type { AnalyzeImageParams, CaptionGenerationResult, GenerateCaptionParams } from '../openai';
+import type { GeneratedSceneSpec, SceneSpecGenerationInput } from '../../prompts/content-engine';
+import { hashSeed, simulateRequest } from './core';
+
+// ==================== CONFIG ====================
+
+const MODEL = 'simulated-gpt-4o';
+const CAPTION_LATENCY_MS = 2000;
+const VISION_LATENCY_MS = 3500;
+const SCENE_SPEC_LATENCY_MS = 8000;
+
+// Seconds per scene in simulated SceneSpecs
+const SCENE_SECONDS = 10;
+
+const CAPTION_TEMPLATES = [
+  (title: string) => `${title} - this one surprised us too ✨ Watch till the end and tell us what you'd try first 👇`,
+  (title: string) => `We tried it so you don't have to 🙌 ${title}. Would you add this to your routine? 💬`,
+  (title: string) => `Saving this for later? You should 📌 ${title}. Which part was your favorite?`,
+];
+
+// ==================== SERVICE ====================
+
+export const simulatedOpenaiService = {
+  async generateCaption(params: GenerateCaptionParams): Promise<CaptionGenerationResult> {
+    const systemPrompt = params.customPrompt || params.userSystemPrompt || '';
+    const seed = `caption:${params.projectName}:${systemPrompt}`;
+    await simulateRequest('openai', seed, CAPTION_LATENCY_MS);
+
+    const template = CAPTION_TEMPLATES[parseInt(hashSeed(seed).slice(0, 4), 16) % CAPTION_TEMPLATES.length];
+    return {
+      caption: template(params.projectName.trim()),
+      metadata: {
+        model: MODEL,
+        tokensUsed: 0,
+        generatedAt: new Date().toISOString(),
+        promptUsed: systemPrompt.substring(0, 100) + '...',
+      },
+    };
+  },
+
+  async analyzeImage(params: AnalyzeImageParams): Promise<string> {
+    await simulateRequest('openai', `vision:${params.imageUrl}:${params.prompt}`, VISION_LATENCY_MS);
+    return 'A well-lit product shot on a clean, neutral background. The product is centered and in sharp focus, ' +
+      'with soft shadows and natural colors. The packaging and label are clearly visible, suggesting a modern, ' +
+      'lifestyle-oriented brand. Suitable for a handheld, authentic UGC-style video.';
+  },
+
+  /**
+   * SceneSpec for sceneSpecGenerator - one scene per ~10s of target duration
+   */
+  async generateSceneSpec(input: SceneSpecGenerationInput): Promise<GeneratedSceneSpec> {
+    await simulateRequest('openai', `scene-spec:${input.niche}:${input.tone}:${input.targetDuration}`, SCENE_SPEC_LATENCY_MS);
+
+    const sceneCount = Math.max(1, Math.round(input.targetDuration / SCENE_SECONDS));
+    const durationHint = Math.round(input.targetDuration / sceneCount);
+
+    return {
+      title: `${sceneCount} things to know about ${input.niche}`,
+      description: `A quick ${input.tone} guide to ${input.niche}.`,
+      tags: input.niche.toLowerCase().split(/\s+/).filter(Boolean).slice(0, 5),
+      targetDuration: input.targetDuration,
+      scenes: Array.from({ length: sceneCount }, (_, i) => ({
+        order: i + 1,
+        voiceoverText: i === 0
+          ? `Here is what nobody tells you about ${input.niche}.`
+          : `Tip number ${i}: keep it simple and stay consistent with ${input.niche}.`,
+        visualIntent: `${input.niche}, scene ${i + 1}`,
+        durationHint,
+      })),
+    };
+  },
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  },
+};
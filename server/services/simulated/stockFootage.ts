@@ -0,0 +1,78 @@
+/**
+ * Simulated Stock Footage Service (Feb 2026)
+ *
+ * Stand-in for the Pexels calls in stockFootage.ts when PROVIDER_MODE=simulated:
+ * every search returns placeholder clips in the requested orientation, with
+ * stable IDs per query.
+ */
+
+import type { SearchResult, VideoResult } from '../stockFootage';
+import { hashSeed, simulateRequest } from './core';
+import { getPlaceholderImageUrl, getPlaceholderVideoUrl } from './media';
+
+// ==================== CONFIG ====================
+
+const REQUEST_LATENCY_MS = 400;
+const PLACEHOLDER_DURATION = 10;
+
+const ASPECT_RATIOS = {
+  portrait: '9:16',
+  landscape: '16:9',
+  square: '1:1',
+};
+
+const DIMENSIONS = {
+  portrait: { width: 720, height: 1280 },
+  landscape: { width: 1280, height: 720 },
+  square: { width: 720, height: 720 },
+};
+
+type Orientation = keyof typeof ASPECT_RATIOS;
+
+// ==================== SERVICE ====================
+
+export const simulatedStockFootageService = {
+  async searchVideos(query: string, count: number, orientation: Orientation): Promise<SearchResult> {
+    if (!query || query.trim().length === 0) {
+      return { success: false, videos: [], total: 0, error: 'Search query cannot be empty' };
+    }
+
+    const seed = `search:${query.toLowerCase().trim()}:${orientation}`;
+    try {
+      await simulateRequest('pexels', seed, REQUEST_LATENCY_MS);
+    } catch (error: any) {
+      return { success: false, videos: [], total: 0, error: error.message };
+    }
+
+    const videos = getPlaceholderVideos(seed, count, orientation);
+    return { success: true, videos, total: videos.length };
+  },
+
+  async getPopularVideos(count: number): Promise<SearchResult> {
+    try {
+      await simulateRequest('pexels', 'popular', REQUEST_LATENCY_MS);
+    } catch (error: any) {
+      return { success: false, videos: [], total: 0, error: error.message };
+    }
+
+    const videos = getPlaceholderVideos('popular', count, 'portrait');
+    return { success: true, videos, total: videos.length };
+  },
+};
+
+// ==================== HELPERS ====================
+
+function getPlaceholderVideos(seed: string, count: number, orientation: Orientation): VideoResult[] {
+  const aspectRatio = ASPECT_RATIOS[orientation];
+  const baseId = parseInt(hashSeed(seed).slice(0, 6), 16);
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: baseId + i,
+    url: getPlaceholderVideoUrl(aspectRatio),
+    ...DIMENSIONS[orientation],
+    duration: PLACEHOLDER_DURATION,
+    thumbnail: getPlaceholderImageUrl(aspectRatio),
+    photographer: 'Simulated',
+    pexelsUrl: `https://www.pexels.com/video/${baseId + i}/`,
+  }));
+}
@@ -0,0 +1,62 @@
+/**
+ * Simulated TTS Service (Feb 2026)
+ *
+ * Stand-in for the ElevenLabs calls in tts.ts when PROVIDER_MODE=simulated:
+ * voiceovers are synthesized tone bursts (one per word) with the duration the
+ * real narration would have, uploaded through media storage like real audio.
+ */
+
+import { uploadBuffer } from '../mediaStorage';
+import type { TTSOptions, TTSResult } from '../tts';
+import { hashSeed, simulateLatency, simulateRequest } from './core';
+import { synthesizeSpeechWav } from './media';
+
+// ==================== CONFIG ====================
+
+// ElevenLabs takes roughly a second per sentence
+const LATENCY_PER_WORD_MS = 120;
+const MIN_LATENCY_MS = 700;
+
+const VOICES = [
+  { id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel (simulated)' },
+  { id: 'sim-voice-adam', name: 'Adam (simulated)' },
+  { id: 'sim-voice-bella', name: 'Bella (simulated)' },
+];
+
+// ==================== SERVICE ====================
+
+export const simulatedTtsService = {
+  async generateAudio(text: string, options?: TTSOptions): Promise<TTSResult> {
+    if (!text || text.trim().length === 0) {
+      return { success: false, error: 'Text cannot be empty' };
+    }
+
+    const seed = `${options?.voiceId}:${text}`;
+    const words = text.trim().split(/\s+/).length;
+
+    try {
+      await simulateRequest('elevenlabs', seed, Math.max(words * LATENCY_PER_WORD_MS, MIN_LATENCY_MS));
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+
+    const { buffer, duration } = synthesizeSpeechWav(text);
+    const filename = `tts-sim-${hashSeed(seed).slice(0, 12)}.wav`;
+
+    try {
+      const audioUrl = await uploadBuffer(buffer, 'audio/wav', { folder: 'audio', filename });
+      console.log('[TTS] Simulated audio generated:', audioUrl);
+      return { success: true, audioUrl, duration, cached: false };
+    } catch (uploadError: any) {
+      return {
+        success: false,
+        error: 'Failed to upload audio file: ' + (uploadError.message || 'Unknown error'),
+      };
+    }
+  },
+
+  async getVoices(): Promise<{ id: string; name: string }[]> {
+    await simulateLatency('voices', MIN_LATENCY_MS);
+    return VOICES;
+  },
+};
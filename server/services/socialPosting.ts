@@ -0,0 +1,923 @@
+/**
+ * Social Posting (Feb 2026)
+ *
+ * Publishes (or schedules) a video to one or more connected social accounts
+ * through Late.dev: resolves the video (Klap export or UGC media asset, picking
+ * each platform's aspect ratio variant), fills in an AI caption when the user
+ * has auto-generate on, records the social posts and charges the workspace
+ * credit pool for immediate posts.
+ *
+ * Multi-platform posts go out as a single Late.dev post. Each platform keeps
+ * its own social_posts row (status, URL, overrides) under a social_post_groups
+ * parent, which the schedule dashboard lists as one item.
+ *
+ * Scheduled posts can be rescheduled, re-captioned, given another video or
+ * cancelled until Late.dev's lock window (shared/socialPosts.ts); each change
+ * is made to the Late.dev post first, then mirrored onto the rows.
+ *
+ * Shared by POST /api/social/post and the public POST /api/v1/posts.
+ */
+
+import { storage, type SocialPostListOptions, type WorkspaceScope } from '../storage';
+import * as creditService from './creditService';
+import { lateService, type LatePostTarget } from './late';
+import { getTimeZoneSettings, isInWorkspace } from './workspaceService';
+import { emitSocialPostEvent } from './webhooks';
+import { findNextFreeSlot, getQueuedPostsAfter } from './postingQueue';
+import { pickVariantForPlatform, type MediaAssetVariant } from '@shared/videoFormats';
+import { SCHEDULED_POST_LOCK_MINUTES, isScheduledPostLocked } from '@shared/socialPosts';
+import type { MediaAsset, Project, SocialPost, SocialPostGroup, Task } from '@shared/schema';
+import type { PostToSocialInput, SocialPlatform, UpdateScheduledPostInput } from '../validators/social';
+
+// ==================== TYPES ====================
+
+/**
+ * Who is posting, and which workspace and credit pool it counts against
+ */
+export interface SocialPostContext {
+  userId: string;
+  workspaceId: string;
+  creditAccountId: string;
+}
+
+/**
+ * Failures carry the HTTP status and response body the routes send as-is
+ */
+type Failure = { ok: false; status: number; body: Record<string, unknown> };
+
+/**
+ * `post` is the first (for single-platform posts, only) of `posts`; `group`
+ * is set for multi-platform posts
+ */
+export type PublishSocialPostResult =
+  | {
+      ok: true;
+      post: SocialPost;
+      posts: SocialPost[];
+      group?: SocialPostGroup;
+      message: string;
+      platformUrl?: string;
+      scheduledFor?: string;
+    }
+  | Failure;
+
+/**
+ * Every platform's post after a scheduled post was changed or cancelled
+ */
+export type ScheduledPostChangeResult =
+  | { ok: true; posts: SocialPost[]; group?: SocialPostGroup; message: string }
+  | Failure;
+
+/**
+ * One row of the schedule dashboard: a single-platform post, or a
+ * multi-platform group with one post per platform
+ */
+export interface SocialPostListItem {
+  groupId: number | null;
+  status: string;                 // the group's overall status (see summarizeGroupStatus)
+  caption: string | null;
+  captionSource: string | null;
+  scheduledFor: Date | null;      // earliest platform time
+  createdAt: Date;
+  thumbnailUrl: string | null;    // media asset poster/image, else the posted thumbnail
+  posts: SocialPost[];
+}
+
+interface ResolvedVideo {
+  ok: true;
+  videoUrl: string;
+  project: Project | null;
+  task: Task | null;
+  asset: MediaAsset | null;   // UGC asset (variants, poster) when in this workspace
+}
+
+/**
+ * A post target with the post-level defaults applied
+ */
+interface ResolvedTarget {
+  platform: SocialPlatform;
+  accountId?: string;
+  caption?: string;        // override - unset uses the post's caption
+  contentType?: string;
+  scheduledFor?: string;   // effective time (override or the post's)
+}
+
+// ==================== PUBLISH ====================
+
+export async function publishSocialPost(
+  ctx: SocialPostContext,
+  input: PostToSocialInput
+): Promise<PublishSocialPostResult> {
+  const { projectId, videoUrl, mediaAssetId, caption } = input;
+  const targets = resolveTargets(input);
+  const platformList = targets.map(t => t.platform).join(', ');
+  const isScheduled = input.queue || targets.some(t => t.scheduledFor); // validator: all or none
+
+  // Phase 9: Check credits for social post - one charge per platform
+  const creditCheck = await creditService.checkCredits(ctx.creditAccountId, 'social_post');
+  const required = creditCheck.required * targets.length;
+  if (creditCheck.balance < required) {
+    console.log('[Credits] Insufficient credits for social post:', ctx.userId);
+    return fail(402, {
+      error: 'Insufficient credits',
+      message: targets.length > 1
+        ? `You need ${required} credits for ${creditCheck.featureName} on ${targets.length} platforms, but only have ${creditCheck.balance}`
+        : `You need ${required} credits for ${creditCheck.featureName}, but only have ${creditCheck.balance}`,
+      required,
+      balance: creditCheck.balance,
+      featureKey: 'social_post',
+    });
+  }
+
+  // Determine video source and extract URL
+  console.log(`[Social Post] Posting to ${platformList}`);
+  const video = await resolveVideo(ctx, { projectId, videoUrl, mediaAssetId });
+  if (!video.ok) {
+    return video;
+  }
+
+  const { videoUrl: finalVideoUrl, project: projectForPost, task: taskForPost } = video;
+
+  // The video (and cover) each platform gets
+  const mediaByTarget = targets.map(target => mediaForPlatform(video, target.platform));
+
+  // Phase 2: Validate video URL format (applies to both Klap and UGC)
+  const invalidUrl = mediaByTarget.find(media => !media.videoUrl.startsWith('https://'));
+  if (invalidUrl) {
+    console.error(`[Social Post] Invalid video URL format: ${invalidUrl.videoUrl}`);
+    return fail(400, {
+      error: 'Invalid video URL',
+      details: 'Video URL must be HTTPS. The export may have failed or URL is malformed.'
+    });
+  }
+
+  console.log('[Validation] ✓ Video URL format valid (HTTPS)');
+  console.log('[Validation] Full URL:', finalVideoUrl);
+
+  // Get user's Late.dev profile information
+  const user = await storage.getUser(ctx.userId);
+  if (!user) {
+    console.log(`[Social Post] User not found: ${ctx.userId}`);
+    return fail(404, { error: "User not found" });
+  }
+
+  if (!user.lateProfileId) {
+    console.log(`[Social Post] User ${ctx.userId} has no Late profile`);
+    return fail(400, {
+      error: "No Late.dev profile configured",
+      details: "Your Late.dev profile is being created. Please try again in a moment.",
+    });
+  }
+
+  // Get the account ID for each target platform
+  // First, try to get connected accounts and find one for each platform
+  let connectedAccounts: any[] = [];
+  try {
+    const accountsData = await lateService.getAccounts(user.lateProfileId);
+    connectedAccounts = accountsData.accounts ?? [];
+  } catch (accountError) {
+    console.warn(`[Social Post] Could not fetch accounts:`, accountError);
+  }
+
+  const accountIds: Array<string | null> = targets.map(target => {
+    const platformAccount = connectedAccounts.find(
+      (acc: any) => acc.platform === target.platform && acc.isActive &&
+        (!target.accountId || acc._id === target.accountId)
+    );
+    if (platformAccount) {
+      console.log(`[Social Post] Found connected ${target.platform} account: ${platformAccount._id}`);
+      return platformAccount._id as string;
+    }
+
+    // Fall back to default Instagram account if no connected account found for Instagram
+    if (target.platform === 'instagram' && !target.accountId) {
+      const defaultAccountId = user.lateAccountId || process.env.INSTAGRAM_ACCOUNT_ID || '6900d2cd8bbca9c10cbfff74';
+      console.log(`[Social Post] Using default Instagram account: ${defaultAccountId}`);
+      return defaultAccountId;
+    }
+
+    return null;
+  });
+
+  // Validate that we have an account for every platform
+  const missingPlatforms = targets.filter((_, index) => !accountIds[index]).map(t => t.platform);
+  if (missingPlatforms.length > 0) {
+    const missing = missingPlatforms.join(', ');
+    console.error(`[Social Post] No ${missing} account available for user ${ctx.userId}`);
+    return fail(400, {
+      error: `${missing} account required`,
+      details: `Please connect your ${missing} account in the Socials page before posting`
+    });
+  }
+
+  console.log(`[Social Post] Using Late profile: ${user.lateProfileId}, platforms: ${platformList}, accounts: ${accountIds.join(', ')}`);
+
+  // Add to queue: each account posts in its own next free slot
+  if (input.queue) {
+    const scope = { workspaceId: ctx.workspaceId, userId: ctx.userId };
+    for (let index = 0; index < targets.length; index++) {
+      const slot = await findNextFreeSlot(scope, accountIds[index]!);
+      if (!slot) {
+        return fail(409, {
+          error: 'No free posting slot',
+          details: `Add posting slots for your ${targets[index].platform} account, or pick a time`,
+        });
+      }
+      targets[index].scheduledFor = slot.toISOString();
+    }
+    console.log(`[Social Post] Queued for ${targets.map(t => t.scheduledFor).join(', ')}`);
+  }
+
+  // Phase 2.5: AI Caption Generation Integration
+  let finalCaption = caption || '';
+  let captionSource: 'manual' | 'ai_auto' | 'ai_manual' = 'manual';
+  let aiMetadata: any = null;
+
+  // Auto-generate caption if empty and user has auto-generate enabled
+  // Type-safe check: handles both boolean true and string 'true'
+  const autoGenerateEnabled = user.captionAutoGenerate === true || user.captionAutoGenerate === 'true';
+
+  // Targets with their own caption don't need the post's
+  const needsCaption = targets.some(t => !t.caption);
+
+  if (!finalCaption && autoGenerateEnabled && needsCaption) {
+    console.log('[Caption] Auto-generating caption (empty caption + auto-mode enabled)');
+    console.log('[Caption] User auto-generate setting:', user.captionAutoGenerate, '(type:', typeof user.captionAutoGenerate, ')');
+
+    try {
+      const { openaiService } = await import("./openai.js");
+      // Use project name for Klap videos, generic name for UGC videos
+      const contentName = projectForPost?.name || 'UGC video ad';
+      const result = await openaiService.generateCaption({
+        projectName: contentName,
+        userSystemPrompt: user.captionSystemPrompt || undefined,
+      });
+
+      // Validate generated caption is not empty
+      if (result.caption && result.caption.trim().length > 0) {
+        finalCaption = result.caption.trim();
+        captionSource = 'ai_auto';
+        aiMetadata = result.metadata;
+
+        console.log(`[Caption] Auto-generated caption: "${finalCaption.substring(0, 50)}..."`);
+        console.log('[Caption] Generated caption length:', finalCaption.length);
+      } else {
+        // OpenAI returned empty caption - use fallback
+        console.warn('[Caption] OpenAI returned empty caption, using fallback');
+        finalCaption = "Check out my latest clip! 🎥✨";
+        captionSource = 'ai_auto';
+        aiMetadata = { ...result.metadata, fallback: true };
+        console.log('[Caption] Using fallback caption, length:', finalCaption.length);
+      }
+    } catch (captionError: any) {
+      // Graceful fallback: if caption generation fails, use default caption
+      console.error('[Caption] Failed to auto-generate caption, using fallback:', captionError.message);
+      finalCaption = "Check out my latest clip! 🎥✨";
+      captionSource = 'manual'; // Mark as manual since AI failed
+      aiMetadata = null;
+      console.log('[Caption] Error fallback caption length:', finalCaption.length);
+    }
+  } else if (finalCaption) {
+    console.log('[Caption] Using manual caption provided by user');
+    console.log('[Caption] Manual caption length:', finalCaption.length);
+  } else {
+    console.log('[Caption] No caption (auto-generate disabled)');
+    console.log('[Caption] User auto-generate setting:', user.captionAutoGenerate);
+  }
+
+  // Multi-platform posts: parent row shared by the per-platform posts
+  const group = targets.length > 1
+    ? await storage.createSocialPostGroup({
+        userId: ctx.userId,
+        workspaceId: ctx.workspaceId,
+        projectId: projectId || null,
+        mediaAssetId: mediaAssetId || null,
+        caption: finalCaption,
+      })
+    : undefined;
+
+  // Create initial social post records (Phase 3: Include scheduling fields)
+  // For UGC videos, projectId and taskId will be null, mediaAssetId will be set
+  const initialStatus = isScheduled ? 'scheduled' : 'posting';
+
+  const socialPosts: SocialPost[] = [];
+  for (const target of targets) {
+    socialPosts.push(await storage.createSocialPost({
+      groupId: group?.id ?? null,
+      projectId: projectId || null,
+      taskId: taskForPost?.id || null,
+      mediaAssetId: mediaAssetId || null, // Phase 4.7: UGC video reference
+      userId: ctx.userId, // ✅ FIX: Add required userId from authenticated session
+      workspaceId: ctx.workspaceId,
+      platform: target.platform,
+      caption: target.caption || finalCaption,
+      captionSource: target.caption ? 'manual' : captionSource,
+      aiCaptionMetadata: target.caption ? null : aiMetadata,
+      status: initialStatus, // 'scheduled' if scheduledFor provided, otherwise 'posting'
+      scheduledFor: target.scheduledFor ? new Date(target.scheduledFor) : null, // Phase 3: Store scheduled time
+      isScheduled: target.scheduledFor ? 'true' : 'false', // Phase 3: Flag for scheduled posts
+      latePostId: null,
+      platformPostUrl: null,
+      errorMessage: null,
+      lateResponse: null,
+      publishedAt: null,
+    }));
+  }
+
+  console.log(`[Social Post] Created social post records: ${socialPosts.map(p => p.id).join(', ')}${group ? ` (group ${group.id})` : ''} (caption source: ${captionSource}, scheduled: ${isScheduled})`);
+
+  // Phase 3: Scheduled posts are created in Late.dev with their scheduledFor timestamps
+  const lateTargets: LatePostTarget[] = targets.map((target, index) => ({
+    platform: target.platform,
+    accountId: accountIds[index]!,
+    caption: target.caption,
+    contentType: target.contentType,
+    // Only per-target times - the post's own is sent once for every platform
+    scheduledFor: target.scheduledFor !== input.scheduledFor ? target.scheduledFor : undefined,
+    ...mediaByTarget[index],
+  }));
+
+  // 🔍 DEBUG: Log Late API request payload
+  console.log('[Late Debug] Request payload:', {
+    platforms: platformList,
+    videoUrl: finalVideoUrl.substring(0, 80) + '...',
+    caption: finalCaption.substring(0, 50) + '...',
+    scheduledFor: input.scheduledFor,
+    profileId: user.lateProfileId,
+    accountIds,
+  });
+
+  // Late.dev shows the post in the poster's timezone
+  const { effectiveTimezone } = await getTimeZoneSettings(ctx.userId, ctx.workspaceId);
+
+  try {
+    const lateResponse = await lateService.postToPlatforms(
+      {
+        videoUrl: mediaByTarget[0].videoUrl,
+        thumbnailUrl: mediaByTarget[0].thumbnailUrl,
+        caption: finalCaption,
+        scheduledFor: input.scheduledFor, // ISO 8601 UTC timestamp
+        timezone: effectiveTimezone,
+      },
+      lateTargets,
+      user.lateProfileId!  // User's Late profile ID
+    );
+
+    if (group) {
+      await storage.updateSocialPostGroup(group.id, {
+        latePostId: lateResponse.post._id,
+        lateResponse: lateResponse as any,
+      });
+    }
+
+    // Update each platform's social post with its part of the Late.dev response
+    const updatedPosts: SocialPost[] = [];
+    for (let index = 0; index < socialPosts.length; index++) {
+      const socialPost = socialPosts[index];
+      const platformPost = lateResponse.post.platforms.find(
+        (p) => p.platform === socialPost.platform && p.accountId === accountIds[index]
+      ) ?? lateResponse.post.platforms.find((p) => p.platform === socialPost.platform);
+
+      const finalStatus = isScheduled ? 'scheduled' :
+                         platformPost?.status === 'published' ? 'published' :
+                         platformPost?.status === 'failed' ? 'failed' : 'posting';
+
+      const updatedPost = await storage.updateSocialPost(socialPost.id, {
+        status: finalStatus,
+        latePostId: lateResponse.post._id,
+        platformPostUrl: platformPost?.platformPostUrl || null,
+        lateResponse: lateResponse as any,
+        publishedAt: finalStatus === 'published' ? new Date() : null,
+        errorMessage: platformPost?.error || null,
+        lateTarget: lateTargets[index],
+      });
+      updatedPosts.push(updatedPost ?? socialPost);
+    }
+
+    if (isScheduled) {
+      console.log(`[Social Post] Successfully scheduled post to ${platformList} in Late.dev: ${lateResponse.post._id}`);
+
+      const firstScheduledFor = targets.map(t => t.scheduledFor!).sort()[0];
+      return {
+        ok: true,
+        post: updatedPosts[0],
+        posts: updatedPosts,
+        group,
+        message: `Post scheduled for ${formatScheduledTime(firstScheduledFor, effectiveTimezone)}`,
+        scheduledFor: firstScheduledFor,
+      };
+    }
+
+    console.log(`[Social Post] Successfully posted to ${platformList}: ${updatedPosts.map(p => p.platformPostUrl || 'pending').join(', ')}`);
+
+    for (const post of updatedPosts) {
+      // post.published / post.failed (still 'posting' is settled later by the scheduled posts cron)
+      await emitSocialPostEvent(post.id);
+
+      // Deduct credits after successful Late.dev API call (Phase 9: XPAND Credits)
+      await creditService.deductCredits(ctx.creditAccountId, 'social_post', { postId: post.id, platform: post.platform });
+    }
+
+    const failedPlatforms = updatedPosts.filter(p => p.status === 'failed').map(p => p.platform);
+    return {
+      ok: true,
+      post: updatedPosts[0],
+      posts: updatedPosts,
+      group,
+      platformUrl: updatedPosts[0].platformPostUrl ?? undefined,
+      message: failedPlatforms.length > 0
+        ? `Failed to post to ${failedPlatforms.join(', ')}`
+        : updatedPosts.every(p => p.status === 'published')
+          ? `Successfully posted to ${platformList}!`
+          : `Post is being processed by ${platformList}`,
+    };
+  } catch (lateError: any) {
+    // Update social posts with failure
+    for (const socialPost of socialPosts) {
+      await storage.updateSocialPost(socialPost.id, {
+        status: 'failed',
+        errorMessage: lateError.message,
+      });
+      await emitSocialPostEvent(socialPost.id);
+    }
+
+    console.error(`[Social Post] Late API ${isScheduled ? 'scheduling ' : ''}error:`, lateError);
+    return fail(500, {
+      error: isScheduled ? "Failed to schedule post" : `Failed to post to ${platformList}`,
+      details: lateError.message,
+    });
+  }
+}
+
+// ==================== EDIT ====================
+
+/**
+ * Reschedule, re-caption or swap the video of a scheduled post. A post in a
+ * multi-platform group changes the whole group - it's one Late.dev post - and
+ * the new time, caption or video applies to every platform.
+ *
+ * `platformTimes` moves single platforms (by post id) instead - used when the
+ * queue shifts up, where each account has its own slots.
+ */
+export async function updateScheduledPost(
+  ctx: SocialPostContext,
+  postId: number,
+  changes: UpdateScheduledPostInput,
+  platformTimes: Record<number, string> = {}
+): Promise<ScheduledPostChangeResult> {
+  const loaded = await loadEditablePost(ctx, postId);
+  if (!loaded.ok) {
+    return loaded;
+  }
+
+  const { posts, group, latePostId } = loaded;
+
+  const newTimes = [changes.scheduledFor, ...Object.values(platformTimes)].filter((time): time is string => !!time);
+  if (newTimes.some(time => isScheduledPostLocked(time))) {
+    return fail(400, {
+      error: "Invalid schedule time",
+      details: `Posts must be scheduled at least ${SCHEDULED_POST_LOCK_MINUTES} minutes ahead`,
+    });
+  }
+
+  // Late.dev replaces the whole post, so every platform is resent as it was posted
+  const storedTargets = posts.map(post => post.lateTarget as LatePostTarget | null);
+  if (storedTargets.some(target => !target)) {
+    return fail(409, {
+      error: "This post can't be edited",
+      details: "It was scheduled before editing was available - cancel it and schedule it again",
+    });
+  }
+
+  let video: ResolvedVideo | null = null;
+  if (changes.videoUrl || changes.mediaAssetId) {
+    const resolved = await resolveVideo(ctx, { videoUrl: changes.videoUrl, mediaAssetId: changes.mediaAssetId });
+    if (!resolved.ok) {
+      return resolved;
+    }
+    if (changes.mediaAssetId && !resolved.asset) {
+      return fail(404, { error: "Media asset not found" });
+    }
+    video = resolved;
+  }
+
+  const targets: LatePostTarget[] = posts.map((post, index) => {
+    const target = storedTargets[index]!;
+    const media = video ? mediaForPlatform(video, post.platform) : null;
+    return {
+      ...target,
+      // A new caption replaces per-platform captions too
+      caption: changes.caption !== undefined ? undefined : target.caption,
+      scheduledFor: platformTimes[post.id] ?? changes.scheduledFor ?? post.scheduledFor!.toISOString(),
+      videoUrl: media ? media.videoUrl : target.videoUrl,
+      thumbnailUrl: media ? media.thumbnailUrl : target.thumbnailUrl,
+    };
+  });
+
+  const invalidUrl = targets.find(target => target.videoUrl && !target.videoUrl.startsWith('https://'));
+  if (invalidUrl) {
+    return fail(400, {
+      error: 'Invalid video URL',
+      details: 'Video URL must be HTTPS.',
+    });
+  }
+
+  const caption = changes.caption ?? (group ? group.caption : posts[0].caption) ?? '';
+
+  const owner = await storage.getUser(posts[0].userId);
+  if (!owner?.lateProfileId) {
+    return fail(409, { error: "No Late.dev profile configured for this post's creator" });
+  }
+
+  console.log(`[Social Post] Updating scheduled post ${latePostId} (${posts.map(p => p.platform).join(', ')}):`, {
+    scheduledFor: changes.scheduledFor,
+    caption: changes.caption !== undefined,
+    video: !!video,
+  });
+
+  const { effectiveTimezone } = await getTimeZoneSettings(owner.id, ctx.workspaceId);
+
+  let lateResponse;
+  try {
+    lateResponse = await lateService.updatePost(
+      latePostId,
+      {
+        videoUrl: targets[0].videoUrl,
+        thumbnailUrl: targets[0].thumbnailUrl,
+        caption,
+        scheduledFor: targets.map(target => target.scheduledFor!).sort()[0],
+        timezone: effectiveTimezone,
+      },
+      targets,
+      owner.lateProfileId
+    );
+  } catch (lateError: any) {
+    // Late.dev kept the old post - so do the rows
+    console.error("[Social Post] Late API update error:", lateError);
+    return fail(500, {
+      error: "Failed to update scheduled post",
+      details: lateError.message,
+    });
+  }
+
+  if (group) {
+    await storage.updateSocialPostGroup(group.id, {
+      caption,
+      lateResponse: lateResponse as any,
+      ...(video && { projectId: null, mediaAssetId: video.asset?.id ?? null }),
+    });
+  }
+
+  const updatedPosts: SocialPost[] = [];
+  for (let index = 0; index < posts.length; index++) {
+    const post = posts[index];
+    const target = targets[index];
+    const updatedPost = await storage.updateSocialPost(post.id, {
+      status: 'scheduled',
+      scheduledFor: new Date(target.scheduledFor!),
+      caption: target.caption || caption,
+      ...(changes.caption !== undefined && { captionSource: 'manual', aiCaptionMetadata: null }),
+      ...(video && { projectId: null, taskId: null, mediaAssetId: video.asset?.id ?? null }),
+      lateResponse: lateResponse as any,
+      lateTarget: target,
+    });
+    updatedPosts.push(updatedPost ?? post);
+  }
+
+  console.log(`[Social Post] Updated scheduled post ${latePostId}`);
+
+  return {
+    ok: true,
+    posts: updatedPosts,
+    group,
+    message: changes.scheduledFor
+      ? `Post rescheduled for ${formatScheduledTime(changes.scheduledFor, effectiveTimezone)}`
+      : 'Scheduled post updated',
+  };
+}
+
+/**
+ * Cancel a scheduled post (the whole group for a multi-platform post). The
+ * Late.dev post is deleted; the rows stay, with status 'cancelled'.
+ *
+ * With shiftQueue, each account's later queued posts move up one slot into
+ * the freed one.
+ */
+export async function cancelScheduledPost(
+  ctx: SocialPostContext,
+  postId: number,
+  options: { shiftQueue?: boolean } = {}
+): Promise<ScheduledPostChangeResult> {
+  const loaded = await loadEditablePost(ctx, postId);
+  if (!loaded.ok) {
+    return loaded;
+  }
+
+  const { posts, group, latePostId } = loaded;
+
+  try {
+    await lateService.deletePost(latePostId);
+  } catch (lateError: any) {
+    console.error("[Social Post] Late API delete error:", lateError);
+    return fail(500, {
+      error: "Failed to cancel scheduled post",
+      details: lateError.message,
+    });
+  }
+
+  const updatedPosts: SocialPost[] = [];
+  for (const post of posts) {
+    const updatedPost = await storage.updateSocialPost(post.id, { status: 'cancelled' });
+    updatedPosts.push(updatedPost ?? post);
+  }
+
+  console.log(`[Social Post] Cancelled scheduled post ${latePostId} (${posts.map(p => p.platform).join(', ')})`);
+
+  const moved = options.shiftQueue ? await shiftQueueUp(ctx, posts) : 0;
+
+  return {
+    ok: true,
+    posts: updatedPosts,
+    group,
+    message: moved > 0
+      ? `Scheduled post cancelled - ${moved} queued ${moved === 1 ? 'post' : 'posts'} moved up`
+      : 'Scheduled post cancelled',
+  };
+}
+
+/**
+ * Move each account's queued posts after the cancelled ones up a slot. Stops
+ * at the first post that can't move (e.g. locked) so the order is kept.
+ */
+async function shiftQueueUp(ctx: SocialPostContext, cancelled: SocialPost[]): Promise<number> {
+  const scope = { workspaceId: ctx.workspaceId, userId: ctx.userId };
+  let moved = 0;
+
+  for (const post of cancelled) {
+    const accountId = (post.lateTarget as LatePostTarget | null)?.accountId;
+    if (!accountId || !post.scheduledFor) continue;
+
+    let freedAt = post.scheduledFor;
+    for (const queued of await getQueuedPostsAfter(scope, accountId, freedAt)) {
+      const result = await updateScheduledPost(ctx, queued.id, {}, { [queued.id]: freedAt.toISOString() });
+      if (!result.ok) {
+        console.warn(`[Social Post] Queue shift stopped at post ${queued.id}:`, result.body);
+        break;
+      }
+      freedAt = queued.scheduledFor!;
+      moved++;
+    }
+  }
+
+  return moved;
+}
+
+// ==================== LIST ====================
+
+/**
+ * Workspace posts for the schedule dashboard, newest scheduled first, with
+ * each multi-platform group collapsed into one item. A status filter matches
+ * groups where any platform has that status; limit counts items.
+ */
+export async function listSocialPosts(
+  scope: WorkspaceScope,
+  options: SocialPostListOptions = {}
+): Promise<SocialPostListItem[]> {
+  const rows = await storage.getSocialPostsByWorkspace(scope, options);
+
+  // The rest of each group's platforms (other statuses, or past the limit)
+  const groupIds = Array.from(new Set(rows.map(row => row.groupId).filter((id): id is number => id !== null)));
+  const groupPosts = await storage.getSocialPostsByGroups(groupIds);
+
+  const assetIds = Array.from(new Set(rows.map(row => row.mediaAssetId).filter((id): id is string => id !== null)));
+  const assets = new Map((await storage.getMediaAssetsByIds(assetIds)).map(asset => [asset.id, asset]));
+  const thumbnailOf = (post: SocialPost): string | null => {
+    const asset = post.mediaAssetId ? assets.get(post.mediaAssetId) : undefined;
+    if (asset?.posterUrl) return asset.posterUrl;
+    if (asset?.type === 'image' && asset.resultUrl) return asset.resultUrl;
+    return (post.lateTarget as LatePostTarget | null)?.thumbnailUrl ?? null;
+  };
+
+  const items: SocialPostListItem[] = [];
+  const seenGroups = new Set<number>();
+
+  for (const row of rows) {
+    if (row.groupId === null) {
+      items.push({
+        groupId: null,
+        status: row.status,
+        caption: row.caption,
+        captionSource: row.captionSource,
+        scheduledFor: row.scheduledFor,
+        createdAt: row.createdAt,
+        thumbnailUrl: thumbnailOf(row),
+        posts: [row],
+      });
+      continue;
+    }
+
+    if (seenGroups.has(row.groupId)) continue;
+    seenGroups.add(row.groupId);
+
+    const posts = groupPosts.filter(post => post.groupId === row.groupId);
+    const scheduledTimes = posts
+      .map(post => post.scheduledFor)
+      .filter((time): time is Date => time !== null)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    items.push({
+      groupId: row.groupId,
+      status: summarizeGroupStatus(posts.map(post => post.status)),
+      // Platforms overriding the caption differ; show the first platform's
+      caption: posts[0].caption,
+      captionSource: posts[0].captionSource,
+      scheduledFor: scheduledTimes[0] ?? null,
+      createdAt: posts[0].createdAt,
+      thumbnailUrl: thumbnailOf(posts[0]),
+      posts,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Overall status of a multi-platform post: still in progress while any
+ * platform is, otherwise published only when every platform published
+ */
+export function summarizeGroupStatus(statuses: string[]): string {
+  if (statuses.includes('posting')) return 'posting';
+  if (statuses.includes('scheduled')) return 'scheduled';
+  if (statuses.length > 0 && statuses.every(status => status === 'published')) return 'published';
+  return statuses.includes('failed') ? 'failed' : (statuses[0] ?? 'draft');
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * The video to post: a Klap project's ready export, or a direct URL (UGC),
+ * optionally with its media asset for per-platform variants and the poster
+ */
+async function resolveVideo(
+  ctx: SocialPostContext,
+  source: { projectId?: string; videoUrl?: string; mediaAssetId?: string }
+): Promise<ResolvedVideo | Failure> {
+  const { projectId, videoUrl, mediaAssetId } = source;
+
+  if (projectId) {
+    // **Klap Video Flow** - Use projectExport.srcUrl
+    console.log(`[Social Post] Klap video - project ${projectId}`);
+
+    // Get project to verify it exists and get associated task
+    const project = await storage.getProject(projectId);
+    if (!project) {
+      console.log(`[Social Post] Project not found: ${projectId}`);
+      return fail(404, { error: "Project not found" });
+    }
+
+    // Verify ownership - ensure the project belongs to the authenticated user
+    const task = await storage.getTask(project.taskId);
+    if (!task || task.userId !== ctx.userId) {
+      console.log(`[Social Post] Unauthorized access to project ${projectId}`);
+      return fail(404, { error: "Project not found" });
+    }
+
+    // Get the latest successful export for this project
+    const exports = await storage.getExportsByTask(project.taskId);
+    const projectExport = exports.find(
+      (exp) => exp.projectId === projectId && exp.status === "ready"
+    );
+
+    if (!projectExport || !projectExport.srcUrl) {
+      console.log(`[Social Post] No ready export found for project ${projectId}`);
+      return fail(400, {
+        error: "No ready export found for this project",
+        details: "Please export the clip before posting to social media",
+      });
+    }
+
+    console.log(`[Social Post] Using Klap export URL: ${projectExport.srcUrl.substring(0, 50)}...`);
+    return { ok: true, videoUrl: projectExport.srcUrl, project, task, asset: null };
+  }
+
+  // **UGC Video Flow** - Use direct videoUrl from media_assets
+  // Multi-aspect-ratio renders: each platform gets the variant that fits it (mediaForPlatform)
+  let asset: MediaAsset | null = null;
+  if (mediaAssetId) {
+    const found = await storage.getMediaAsset(mediaAssetId);
+    if (found && isInWorkspace(found, ctx.workspaceId, ctx.userId)) {
+      asset = found;
+    }
+  }
+
+  const finalVideoUrl = videoUrl ?? asset?.resultUrl;
+  if (!finalVideoUrl) {
+    // This should never happen due to schema validation, but just in case
+    console.error('[Social Post] Neither projectId nor videoUrl provided');
+    return fail(400, {
+      error: "Invalid request",
+      details: "Either projectId or videoUrl must be provided",
+    });
+  }
+
+  console.log(`[Social Post] Using UGC video URL: ${finalVideoUrl.substring(0, 50)}...`);
+  return { ok: true, videoUrl: finalVideoUrl, project: null, task: null, asset };
+}
+
+/**
+ * The video (and cover) a platform gets: the asset's variant that fits it,
+ * with the poster only when posting the video it was taken from
+ */
+function mediaForPlatform(video: ResolvedVideo, platform: string): { videoUrl: string; thumbnailUrl?: string } {
+  const { asset } = video;
+  if (!asset) {
+    return { videoUrl: video.videoUrl };
+  }
+
+  let videoUrl = video.videoUrl;
+  const variant = pickVariantForPlatform(asset.variants as MediaAssetVariant[] | null, platform);
+  if (variant) {
+    videoUrl = variant.url;
+    console.log(`[Social Post] Using ${variant.aspectRatio} variant for ${platform}`);
+  }
+
+  // The poster is taken from resultUrl - only use it as the cover for that same video
+  const thumbnailUrl = asset.posterUrl && videoUrl === asset.resultUrl ? asset.posterUrl : undefined;
+  return { videoUrl, thumbnailUrl };
+}
+
+/**
+ * The platforms to post to: `targets`, or the single `platform`, with the
+ * post's schedule time filled in where a target doesn't set its own
+ */
+function resolveTargets(input: PostToSocialInput): ResolvedTarget[] {
+  if (input.targets) {
+    return input.targets.map(target => ({
+      ...target,
+      scheduledFor: target.scheduledFor ?? input.scheduledFor,
+    }));
+  }
+  return [{ platform: input.platform!, scheduledFor: input.scheduledFor }];
+}
+
+/**
+ * A scheduled post (and the rest of its group) that can still be changed:
+ * every platform still scheduled and the first one outside the lock window
+ */
+async function loadEditablePost(ctx: SocialPostContext, postId: number): Promise<
+  | { ok: true; posts: SocialPost[]; group?: SocialPostGroup; latePostId: string; scheduledFor: Date }
+  | Failure
+> {
+  const post = await storage.getSocialPost(postId);
+  if (!post || !isInWorkspace(post, ctx.workspaceId, ctx.userId)) {
+    return fail(404, { error: "Post not found" });
+  }
+
+  const group = post.groupId ? await storage.getSocialPostGroup(post.groupId) : undefined;
+  const posts = group ? await storage.getSocialPostsByGroups([group.id]) : [post];
+
+  const notScheduled = posts.find(p => p.status !== 'scheduled');
+  if (notScheduled || !post.latePostId) {
+    return fail(409, {
+      error: "Only scheduled posts can be changed",
+      details: `This post is ${notScheduled?.status ?? post.status}`,
+    });
+  }
+
+  const scheduledFor = posts
+    .map(p => p.scheduledFor)
+    .filter((time): time is Date => time !== null)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+
+  if (!scheduledFor || isScheduledPostLocked(scheduledFor)) {
+    return fail(409, {
+      error: "Post is locked",
+      details: `Scheduled posts can't be changed in the last ${SCHEDULED_POST_LOCK_MINUTES} minutes before they go out`,
+    });
+  }
+
+  return { ok: true, posts, group, latePostId: post.latePostId, scheduledFor };
+}
+
+/**
+ * A scheduled time as the poster reads it, in their timezone
+ */
+function formatScheduledTime(scheduledFor: string, timeZone: string): string {
+  return `${new Date(scheduledFor).toLocaleString('en-US', { timeZone })} (${timeZone})`;
+}
+
+function fail(status: number, body: Record<string, unknown>): Failure {
+  return { ok: false, status, body };
+}
+
+// ==================== EXPORTS ====================
+
+export const socialPostingService = {
+  publishSocialPost,
+  updateScheduledPost,
+  cancelScheduledPost,
+  listSocialPosts,
+  summarizeGroupStatus,
+};
+
+export default socialPostingService;
@@ -12,6 +12,8 @@
  */
 
 import axios from 'axios';
+import { SIMULATED_PROVIDERS } from './simulated/core';
+import { simulatedStockFootageService } from './simulated/stockFootage';
 
 // ==================== CONFIGURATION ====================
 
@@ -73,6 +75,10 @@ export async function searchVideos(
   count: number = DEFAULT_PER_PAGE,
   orientation: 'landscape' | 'portrait' | 'square' = DEFAULT_ORIENTATION
 ): Promise<SearchResult> {
+  if (SIMULATED_PROVIDERS) {
+    return simulatedStockFootageService.searchVideos(query, count, orientation);
+  }
+
   if (!PEXELS_API_KEY) {
     console.warn('[StockFootage] Pexels API key not configured, using fallbacks');
     return {
@@ -229,6 +235,10 @@ export async function getFootageForScenes(
  * Get popular/trending videos (no search query)
  */
 export async function getPopularVideos(count: number = 5): Promise<SearchResult> {
+  if (SIMULATED_PROVIDERS) {
+    return simulatedStockFootageService.getPopularVideos(count);
+  }
+
   if (!PEXELS_API_KEY) {
     return {
       success: true,
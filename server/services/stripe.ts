@@ -7,7 +7,7 @@
  */
 
 import Stripe from 'stripe';
-import { CREDIT_PACKAGES, type CreditPackage } from './creditService';
+import { CREDIT_PACKAGES, SUBSCRIPTION_PLANS, type CreditPackage } from './creditService';
 import { storage } from '../storage';
 
 // Environment variables (fallback)
@@ -21,6 +21,11 @@ const ENV_PRICE_ID_AGENCY = process.env.STRIPE_PRICE_ID_AGENCY;
 const ENV_PRICE_ID_ENTERPRISE = process.env.STRIPE_PRICE_ID_ENTERPRISE;
 const ENV_PRICE_ID_BUSINESS = process.env.STRIPE_PRICE_ID_BUSINESS; // Legacy
 
+// Subscription plan price IDs (Feb 2026) - STRIPE_PRICE_ID_PLAN_CREATOR, _GROWTH, _SCALE
+// Without one, checkout creates an inline monthly price from the plan's priceUsd
+const getPlanPriceId = (planId: string): string | null =>
+  process.env[`STRIPE_PRICE_ID_PLAN_${planId.toUpperCase()}`] || null;
+
 // Cached Stripe instance (may be replaced by DB settings)
 let cachedStripe: Stripe | null = null;
 let cachedSecretKey: string | null = null;
@@ -132,6 +137,16 @@ export interface CreateCreditCheckoutParams {
   cancelUrl: string;
 }
 
+// Subscription plan checkout params (Feb 2026)
+export interface CreatePlanCheckoutParams {
+  userId: string;
+  userEmail: string;
+  stripeCustomerId?: string | null;
+  planId: string; // 'creator', 'growth', 'scale'
+  successUrl: string;
+  cancelUrl: string;
+}
+
 export interface CheckoutSessionResponse {
   sessionId: string;
   url: string;
@@ -284,6 +299,112 @@ export const stripeService = {
     }
   },
 
+  /**
+   * Create a Stripe Checkout Session for a monthly credit plan (Feb 2026)
+   * The plan ID rides on the subscription metadata so every later
+   * invoice.paid can be matched back to its plan and user.
+   *
+   * @param params - User ID, email, plan ID, and redirect URLs
+   * @returns Checkout session ID and URL
+   */
+  async createPlanCheckoutSession(
+    params: CreatePlanCheckoutParams
+  ): Promise<CheckoutSessionResponse> {
+    const stripeInstance = await getStripeInstance();
+    if (!stripeInstance) {
+      console.error('[Stripe] Configuration check failed: No Stripe instance available');
+      throw new Error('Stripe is not configured');
+    }
+
+    const plan = SUBSCRIPTION_PLANS.find(p => p.id === params.planId);
+    if (!plan) {
+      throw new Error(`Invalid subscription plan: ${params.planId}`);
+    }
+
+    const priceId = getPlanPriceId(plan.id);
+
+    console.log('[Stripe] Creating plan checkout session:', {
+      userId: params.userId,
+      plan: plan.name,
+      monthlyCredits: plan.monthlyCredits,
+      usingPriceId: !!priceId,
+    });
+
+    try {
+      const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = priceId
+        ? [{ price: priceId, quantity: 1 }]
+        : [{
+            price_data: {
+              currency: 'usd',
+              product_data: {
+                name: `${plan.name} Plan`,
+                description: `${plan.monthlyCredits} XPAND Credits every month`,
+              },
+              unit_amount: Math.round(plan.priceUsd * 100),
+              recurring: { interval: 'month' },
+            },
+            quantity: 1,
+          }];
+
+      const session = await stripeInstance.checkout.sessions.create({
+        mode: 'subscription',
+        payment_method_types: ['card'],
+        line_items: lineItems,
+        ...(params.stripeCustomerId
+          ? { customer: params.stripeCustomerId }
+          : { customer_email: params.userEmail }),
+        client_reference_id: params.userId,
+        success_url: params.successUrl,
+        cancel_url: params.cancelUrl,
+        allow_promotion_codes: true,
+        metadata: {
+          userId: params.userId,
+          planId: plan.id,
+          type: 'subscription_plan',
+        },
+        subscription_data: {
+          metadata: {
+            userId: params.userId,
+            planId: plan.id,
+          },
+        },
+      });
+
+      console.log('[Stripe] Plan checkout session created:', {
+        sessionId: session.id,
+        plan: plan.id,
+      });
+
+      return {
+        sessionId: session.id,
+        url: session.url!,
+      };
+    } catch (error: any) {
+      console.error('[Stripe] Error creating plan checkout session:', error);
+      throw new Error(`Stripe error: ${error.message}`);
+    }
+  },
+
+  /**
+   * Fetch a subscription (invoice events only carry its ID)
+   *
+   * @param subscriptionId - Stripe Subscription ID
+   * @returns The subscription
+   */
+  async retrieveSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    const stripeInstance = await getStripeInstance();
+    if (!stripeInstance) {
+      throw new Error('Stripe is not configured');
+    }
+
+    try {
+      return await stripeInstance.subscriptions.retrieve(subscriptionId);
+    } catch (error: any) {
+      console.error('[Stripe] Error fetching subscription:', error);
+      throw new Error(`Stripe error: ${error.message}`);
+    }
+  },
+
   /**
    * Create or retrieve a Stripe Customer for a user
    *
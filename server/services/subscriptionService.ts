@@ -0,0 +1,204 @@
+/**
+ * Subscription Plans (Feb 2026)
+ *
+ * Keeps the subscriptions table in step with Stripe and turns paid invoices
+ * into monthly credit grants (SUBSCRIPTION_PLANS in creditService). A plan's
+ * grant credits roll over up to its cap at each renewal and expire entirely
+ * when the subscription ends; purchased top-ups are never touched.
+ *
+ * users.subscriptionStatus still gates Pro features ('pro' | 'past_due' | 'free'),
+ * so it mirrors whichever plan subscription the user has.
+ */
+
+import type Stripe from 'stripe';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { subscriptions, users, type Subscription } from '@shared/schema';
+import {
+  expireGrantCredits,
+  getSubscriptionPlan,
+  getUserCredits,
+  grantSubscriptionCredits,
+  type SubscriptionPlan,
+} from './creditService';
+import { stripeService } from './stripe';
+
+// Stripe statuses that still count as subscribed
+const CURRENT_STATUSES = ['active', 'trialing', 'past_due'];
+
+// Invoices that start a new billing period (plan changes mid-period don't grant)
+const GRANTING_BILLING_REASONS = ['subscription_create', 'subscription_cycle'];
+
+// ==================== SYNC ====================
+
+/**
+ * Upsert a plan subscription from Stripe and mirror it onto the user.
+ * Returns null for subscriptions without plan metadata (legacy Pro upgrade).
+ */
+export async function syncSubscription(subscription: Stripe.Subscription): Promise<Subscription | null> {
+  const { userId, planId } = subscription.metadata;
+  if (!userId || !planId) {
+    return null;
+  }
+
+  const periodEnd = getPeriodEnd(subscription);
+  const values = {
+    userId,
+    stripeSubscriptionId: subscription.id,
+    stripeCustomerId: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+    planId,
+    status: subscription.status,
+    currentPeriodEnd: periodEnd,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    updatedAt: new Date(),
+  };
+
+  const [record] = await db
+    .insert(subscriptions)
+    .values(values)
+    .onConflictDoUpdate({ target: subscriptions.stripeSubscriptionId, set: values })
+    .returning();
+
+  await db
+    .update(users)
+    .set({
+      stripeCustomerId: values.stripeCustomerId,
+      subscriptionStatus: toUserStatus(subscription.status),
+      subscriptionEndsAt: CURRENT_STATUSES.includes(subscription.status) ? periodEnd : null,
+    })
+    .where(eq(users.id, userId));
+
+  console.log(`[Subscriptions] Synced ${subscription.id}: user=${userId} plan=${planId} status=${subscription.status}`);
+
+  return record;
+}
+
+// ==================== WEBHOOK EVENTS ====================
+
+/**
+ * invoice.paid - grant the plan's monthly credits for a new billing period
+ */
+export async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!subscriptionId || !invoice.id) {
+    return;
+  }
+
+  // invoice.paid can arrive before checkout.session.completed, so sync from Stripe first
+  const subscription = await stripeService.retrieveSubscription(subscriptionId);
+  const record = await syncSubscription(subscription);
+  if (!record) {
+    console.log('[Subscriptions] Invoice for a subscription without a plan, skipping:', invoice.id);
+    return;
+  }
+
+  if (!GRANTING_BILLING_REASONS.includes(invoice.billing_reason || '')) {
+    console.log(`[Subscriptions] No grant for invoice ${invoice.id} (billing_reason=${invoice.billing_reason})`);
+    return;
+  }
+
+  const plan = getSubscriptionPlan(record.planId);
+  if (!plan) {
+    console.error(`[Subscriptions] Unknown plan ${record.planId} on subscription ${subscriptionId}`);
+    return;
+  }
+
+  await grantSubscriptionCredits(record.userId, plan, invoice.id);
+}
+
+/**
+ * customer.subscription.deleted - the plan is over, its grant credits expire
+ */
+export async function handleSubscriptionEnded(subscription: Stripe.Subscription): Promise<void> {
+  const record = await syncSubscription(subscription);
+  if (!record) {
+    return;
+  }
+
+  // A user who already moved to another plan keeps their grant credits
+  const current = await getCurrentSubscription(record.userId);
+  if (current) {
+    return;
+  }
+
+  const credits = await getUserCredits(record.userId);
+  if (!credits?.grantBalance) {
+    return;
+  }
+
+  const plan = getSubscriptionPlan(record.planId);
+  await expireGrantCredits(
+    record.userId,
+    credits.grantBalance,
+    `Expired unused ${plan?.name ?? record.planId} plan credits (subscription ended)`,
+    { planId: record.planId, stripeSubscriptionId: subscription.id }
+  );
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * The user's current plan subscription (active, trialing or past due)
+ */
+export async function getCurrentSubscription(userId: string): Promise<Subscription | null> {
+  const [record] = await db
+    .select()
+    .from(subscriptions)
+    .where(and(eq(subscriptions.userId, userId), inArray(subscriptions.status, CURRENT_STATUSES)))
+    .orderBy(desc(subscriptions.createdAt))
+    .limit(1);
+
+  return record ?? null;
+}
+
+/**
+ * Current subscription with its plan details, for the billing page
+ */
+export async function getSubscriptionSummary(userId: string): Promise<{
+  subscription: Subscription;
+  plan: SubscriptionPlan | null;
+} | null> {
+  const subscription = await getCurrentSubscription(userId);
+  if (!subscription) {
+    return null;
+  }
+
+  return { subscription, plan: getSubscriptionPlan(subscription.planId) ?? null };
+}
+
+// ==================== HELPERS ====================
+
+function toUserStatus(status: Stripe.Subscription.Status): string {
+  if (status === 'active' || status === 'trialing') return 'pro';
+  if (status === 'past_due') return 'past_due';
+  return 'free';
+}
+
+/**
+ * Period end moved from the subscription to its items in newer API versions
+ */
+function getPeriodEnd(subscription: Stripe.Subscription): Date | null {
+  const periodEnd = (subscription as any).current_period_end ?? subscription.items?.data[0]?.current_period_end;
+  return periodEnd ? new Date(periodEnd * 1000) : null;
+}
+
+/**
+ * Invoice → subscription ID (top-level on older API versions, under parent on newer)
+ */
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  const subscription = (invoice as any).subscription ?? invoice.parent?.subscription_details?.subscription;
+  if (!subscription) return null;
+  return typeof subscription === 'string' ? subscription : subscription.id;
+}
+
+// ==================== EXPORTS ====================
+
+export const subscriptionService = {
+  syncSubscription,
+  handleInvoicePaid,
+  handleSubscriptionEnded,
+  getCurrentSubscription,
+  getSubscriptionSummary,
+};
+
+export default subscriptionService;
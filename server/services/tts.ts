@@ -11,7 +11,10 @@
  */
 
 import axios from 'axios';
-import { kieService } from './kie';
+import { uploadBuffer } from './mediaStorage';
+import { SIMULATED_PROVIDERS } from './simulated/core';
+import { simulatedTtsService } from './simulated/tts';
+import { recordProviderCost } from './costTracking';
 
 // ==================== CONFIGURATION ====================
 
@@ -64,6 +67,10 @@ const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
  * @returns Promise with audio URL or error
  */
 export async function generateAudio(text: string, options?: TTSOptions): Promise<TTSResult> {
+  if (SIMULATED_PROVIDERS) {
+    return simulatedTtsService.generateAudio(text, options);
+  }
+
   if (!ELEVENLABS_API_KEY) {
     console.error('[TTS] ElevenLabs API key not configured');
     return {
@@ -121,14 +128,22 @@ export async function generateAudio(text: string, options?: TTSOptions): Promise
       }
     );
 
-    // Upload audio buffer to KIE storage (reuse existing pattern)
+    // ElevenLabs bills per character (cache hits above cost nothing)
+    await recordProviderCost({
+      provider: 'elevenlabs',
+      operation: 'tts',
+      units: text.trim().length,
+      metadata: { voiceId, model: MODEL_ID },
+    });
+
+    // Upload audio buffer to media storage (see mediaStorage.ts)
     const audioBuffer = Buffer.from(response.data);
     const filename = `tts-${Date.now()}-${cacheKey.substring(0, 8)}.mp3`;
     
-    // kieService.uploadFileBuffer returns the URL directly (throws on error)
+    // uploadBuffer returns the URL directly (throws on error)
     let audioUrl: string;
     try {
-      audioUrl = await kieService.uploadFileBuffer(audioBuffer, 'audio/mpeg', filename);
+      audioUrl = await uploadBuffer(audioBuffer, 'audio/mpeg', { folder: 'audio', filename });
     } catch (uploadError: any) {
       return {
         success: false,
@@ -213,6 +228,10 @@ export async function generateAudioBatch(
  * Get available voices from ElevenLabs
  */
 export async function getVoices(): Promise<{ id: string; name: string }[]> {
+  if (SIMULATED_PROVIDERS) {
+    return simulatedTtsService.getVoices();
+  }
+
   if (!ELEVENLABS_API_KEY) {
     return [];
   }
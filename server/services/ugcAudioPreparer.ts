@@ -61,12 +61,20 @@ const AUDIO_PADDING = 1.0;
 
 /**
  * Generate TTS audio for all UGC scenes
+ * onProgress is called after each narration with (completed, total)
  */
-export async function prepareAudio(input: UGCAudioInput): Promise<AudioPrepResult> {
+export async function prepareAudio(
+  input: UGCAudioInput,
+  onProgress?: (completed: number, total: number) => void
+): Promise<AudioPrepResult> {
   const audioAssets: UGCAudioAssets = {};
   const errors: string[] = [];
   let totalAudioDuration = 0;
 
+  const narrationCount = [input.showcaseNarration, input.featuresNarration, input.ctaNarration].filter(Boolean).length;
+  let completed = 0;
+  const reportNarrationDone = () => onProgress?.(++completed, narrationCount);
+
   console.log('[UGC Audio] Preparing audio for scenes...');
 
   // Generate showcase audio
@@ -85,6 +93,7 @@ export async function prepareAudio(input: UGCAudioInput): Promise<AudioPrepResul
       const estimated = estimateDuration(input.showcaseNarration);
       totalAudioDuration += estimated;
     }
+    reportNarrationDone();
   }
 
   // Generate features audio
@@ -102,6 +111,7 @@ export async function prepareAudio(input: UGCAudioInput): Promise<AudioPrepResul
       const estimated = estimateDuration(input.featuresNarration);
       totalAudioDuration += estimated;
     }
+    reportNarrationDone();
   }
 
   // Generate CTA audio (optional)
@@ -118,6 +128,7 @@ export async function prepareAudio(input: UGCAudioInput): Promise<AudioPrepResul
       errors.push(`CTA TTS failed: ${result.error}`);
       // CTA is optional, so we don't add to total on failure
     }
+    reportNarrationDone();
   }
 
   console.log(`[UGC Audio] Audio preparation complete. Total duration: ${totalAudioDuration}s`);
@@ -9,6 +9,10 @@
  * 5. Generate Veo3 video with analyzed image as reference
  * 6. Poll until video is ready
  *
+ * When a step fails, times out or never returns a URL, the chain moves to the
+ * next provider of the Mode A failover policy (Veo3 directly by default, see
+ * failover.ts) instead of failing.
+ *
  * Handles chain_metadata updates at each step for progress tracking
  */
 
@@ -18,12 +22,17 @@ import { storage } from '../storage';
 import { generatePrompt, injectImageAnalysis, type PromptVariables } from '../prompts/ugc-presets';
 import { GenerationMode } from '../prompts/ugc-presets';
 import { sendVideoCompleteNotification } from './resendService';
+import { enqueueVideoThumbnails } from './videoThumbnails';
+import { failoverAsset, type FailoverEvent } from './failover';
+import { MEDIA_PROVIDERS, resolveProviderDuration } from '@shared/mediaProviders';
+import type { FailoverState, FailoverStep } from '@shared/failoverPolicies';
 
 /**
  * Chain workflow state stored in chain_metadata
  */
 export interface ChainMetadata {
-  step: 'generating_image' | 'analyzing_image' | 'generating_video' | 'completed' | 'error' | 'fallback_to_veo3';
+  // fallback_to_veo3: pre-failover-policy name of failing_over
+  step: 'generating_image' | 'analyzing_image' | 'generating_video' | 'completed' | 'error' | 'failing_over' | 'fallback_to_veo3';
   nanoImageUrl?: string;
   nanoTaskId?: string;
   imageAnalysis?: string;
@@ -38,7 +47,9 @@ export interface ChainMetadata {
   };
   error?: string;
   imageRetryCount?: number; // Track retry attempts for ready-but-no-URLs edge case
-  fallbackReason?: string; // Reason for fallback to Veo3
+  videoRetryCount?: number;
+  fallbackReason?: string; // Reason for fallback to Veo3 (before failover policies)
+  failover?: FailoverState; // Provider hops (see failover.ts)
 }
 
 /**
@@ -65,6 +76,8 @@ export const ugcChainService = {
     console.log(`[UGC Chain] Requested video duration: ${duration || 10}s`);
 
     try {
+      const asset = await storage.getMediaAsset(assetId);
+
       // Generate image prompt using preset template
       const imagePrompt = generatePrompt(GenerationMode.MODE_A, promptVariables);
 
@@ -92,9 +105,11 @@ export const ugcChainService = {
         taskId: result.taskId,
         chainMetadata,
         metadata: {
+          ...((asset?.metadata as Record<string, unknown>) || {}), // keep creditsPricing for failover refunds
           imagePrompt,
           promptVariables,
           duration: duration || 10, // Store duration for video generation step
+          productImageUrl: params.productImageUrl, // reference image for failover video steps
         },
       });
 
@@ -110,7 +125,7 @@ export const ugcChainService = {
   /**
    * Step 2: Check if image is ready, if so move to Step 3
    * Includes retry logic for edge case: status=ready but resultUrls=[]
-   * Falls back to Veo3-only mode if NanoBanana fails after retries
+   * Fails over (Veo3-only by default) if NanoBanana fails after retries
    */
   async checkImageStatus(assetId: string): Promise<boolean> {
     const asset = await storage.getMediaAsset(assetId);
@@ -132,14 +147,13 @@ export const ugcChainService = {
       // Handle failed status
       if (status.status === 'failed') {
         console.error(`[UGC Chain] ❌ Step 2: Image generation failed: ${status.errorMessage}`);
-        console.log(`[UGC Chain] ⚠️ Falling back to Veo3-only mode (Mode B)`);
-
-        // Fallback to Veo3 instead of complete failure
-        const productImageUrl = asset.metadata && typeof asset.metadata === 'object' && 'productImageUrl' in asset.metadata
-          ? (asset.metadata as any).productImageUrl
-          : undefined;
-        await this.fallbackToVeo3(assetId, 'Image generation failed', productImageUrl);
-        return true; // Continue chain with fallback
+
+        // Fail over instead of complete failure
+        return this.failover(assetId, {
+          trigger: 'provider_error',
+          reason: status.errorMessage || 'Image generation failed',
+          errorCode: status.errorCode,
+        });
       }
 
       // Handle success case with URLs
@@ -172,18 +186,13 @@ export const ugcChainService = {
           console.log(`[Flux-Kontext Retry] Will retry after next polling interval`);
           return false; // Continue polling
         } else {
-          // Max retries exceeded - fall back to Veo3
-          console.error(`[Flux-Kontext ⚠️] Image missing after ${MAX_RETRIES} retries -- falling back to Veo3 direct mode`);
-
-          const productImageUrl = asset.metadata && typeof asset.metadata === 'object' && 'productImageUrl' in asset.metadata
-            ? (asset.metadata as any).productImageUrl
-            : undefined;
-          await this.fallbackToVeo3(
-            assetId,
-            `Image fetch failed after ${MAX_RETRIES} retries (status=ready but no URLs)`,
-            productImageUrl
-          );
-          return true; // Continue chain with fallback
+          // Max retries exceeded - fail over
+          console.error(`[Flux-Kontext ⚠️] Image missing after ${MAX_RETRIES} retries -- failing over`);
+
+          return this.failover(assetId, {
+            trigger: 'ready_without_url',
+            reason: `Image fetch failed after ${MAX_RETRIES} retries (status=ready but no URLs)`,
+          });
         }
       }
 
@@ -193,20 +202,12 @@ export const ugcChainService = {
     } catch (error: any) {
       console.error(`[UGC Chain] ❌ Step 2 error:`, error);
 
-      // On error, try to fallback to Veo3 instead of complete failure
-      console.log(`[UGC Chain] ⚠️ Error occurred, attempting fallback to Veo3...`);
-      try {
-        const asset = await storage.getMediaAsset(assetId);
-        const productImageUrl = asset?.metadata && typeof asset.metadata === 'object' && 'productImageUrl' in asset.metadata
-          ? (asset.metadata as any).productImageUrl
-          : undefined;
-        await this.fallbackToVeo3(assetId, `Image generation error: ${error.message}`, productImageUrl);
-        return true; // Continue chain with fallback
-      } catch (fallbackError) {
-        console.error(`[UGC Chain] ❌ Fallback also failed:`, fallbackError);
-        await this.handleChainError(assetId, 'generating_image', error.message);
-        return false;
-      }
+      // On error, fail over instead of complete failure
+      console.log(`[UGC Chain] ⚠️ Error occurred, attempting failover...`);
+      return this.failover(assetId, {
+        trigger: 'provider_error',
+        reason: `Image generation error: ${error.message}`,
+      });
     }
   },
 
@@ -312,27 +313,34 @@ Be specific and detailed - this description will be used to create a video based
    * Step 4: Start Veo3 video generation with analyzed image as reference
    * Image URL is optional - if not provided, generates text-only video
    * Duration is retrieved from asset metadata if not provided
+   * After a failover, the step's provider/model is used instead of Veo3
    */
-  async startVideoGeneration(assetId: string, videoPrompt: string, imageUrl?: string): Promise<void> {
-    console.log(`[UGC Chain] Step 4: Starting Veo3 video generation`);
+  async startVideoGeneration(assetId: string, videoPrompt: string, imageUrl?: string, step?: FailoverStep): Promise<void> {
+    const provider = step?.provider || 'kie-veo3';
+    const model = step?.model || (provider === 'kie-sora2' ? 'sora2' : 'veo3');
+
+    console.log(`[UGC Chain] Step 4: Starting ${model} video generation`);
     console.log(`[UGC Chain] Asset ID: ${assetId}`);
     console.log(`[UGC Chain] Video prompt length: ${videoPrompt.length} chars`);
     console.log(`[UGC Chain] Reference image: ${imageUrl ? imageUrl.substring(0, 80) + '...' : 'None (text-only mode)'}`);
 
     // Get duration from asset metadata
     const asset = await storage.getMediaAsset(assetId);
-    const duration = (asset?.metadata && typeof asset.metadata === 'object' && 'duration' in asset.metadata)
+    const requestedDuration = (asset?.metadata && typeof asset.metadata === 'object' && 'duration' in asset.metadata)
       ? (asset.metadata as any).duration
       : 10; // Default to 10 seconds
+    const duration = step
+      ? resolveProviderDuration(MEDIA_PROVIDERS[provider], requestedDuration)
+      : requestedDuration;
 
     console.log(`[UGC Chain] Step 4: Using duration: ${duration}s`);
 
     try {
-      // Submit to KIE Veo3 with image as reference (if available)
-      console.log(`[UGC Chain] Step 4: Submitting to KIE Veo3 API...`);
+      // Submit to KIE with image as reference (if available)
+      console.log(`[UGC Chain] Step 4: Submitting to KIE ${model} API...`);
       const result = await kieService.generateVideo({
         prompt: videoPrompt,
-        model: 'veo3',
+        model,
         aspectRatio: '16:9',
         duration, // Pass duration to KIE
         imageUrls: imageUrl ? [imageUrl] : undefined, // Use image if available, otherwise text-only
@@ -349,21 +357,27 @@ Be specific and detailed - this description will be used to create a video based
       // Update chain metadata: generating video
       chainMetadata.step = 'generating_video';
       chainMetadata.videoTaskId = result.taskId;
+      chainMetadata.videoRetryCount = 0;
       chainMetadata.timestamps.videoStarted = new Date().toISOString();
 
       await storage.updateMediaAsset(assetId, {
         taskId: result.taskId, // Update to video task ID
-        provider: 'kie-veo3',   // Change provider to Veo3
+        provider,               // Change provider to the video model
         type: 'video',          // Change type to video
         chainMetadata,
       });
 
-      console.log(`[UGC Chain] ✅ Step 4 complete: Veo3 task ${result.taskId} started`);
+      console.log(`[UGC Chain] ✅ Step 4 complete: ${model} task ${result.taskId} started`);
       console.log(`[UGC Chain] Asset ${assetId} now in state: step=generating_video, videoTaskId=${result.taskId}`);
     } catch (error: any) {
       console.error(`[UGC Chain] ❌ Step 4 failed:`, error);
-      await this.handleChainError(assetId, 'generating_video', error.message);
-      throw error;
+      const failedOver = await this.failover(assetId, {
+        trigger: 'provider_error',
+        reason: `Video generation failed to start: ${error.message}`,
+      });
+      if (!failedOver) {
+        throw error;
+      }
     }
   },
 
@@ -381,21 +395,25 @@ Be specific and detailed - this description will be used to create a video based
       return false; // Not in video generation step
     }
 
-    console.log(`[UGC Chain] Step 5: Checking Veo3 video status for taskId=${asset.taskId}`);
+    console.log(`[UGC Chain] Step 5: Checking ${asset.provider} video status for taskId=${asset.taskId}`);
 
     try {
-      const status = await kieService.checkStatus(asset.taskId, 'kie-veo3');
+      const status = await kieService.checkStatus(asset.taskId, asset.provider);
       console.log(`[UGC Chain] Step 5: KIE status response: status=${status.status}, resultUrls count=${status.resultUrls?.length || 0}`);
 
       if (status.status === 'failed') {
         console.error(`[UGC Chain] ❌ Step 5: Video generation failed: ${status.errorMessage}`);
-        await this.handleChainError(assetId, 'generating_video', status.errorMessage || 'Video generation failed');
+        await this.failover(assetId, {
+          trigger: 'provider_error',
+          reason: status.errorMessage || 'Video generation failed',
+          errorCode: status.errorCode,
+        });
         return false;
       }
 
       if (status.status === 'ready' && status.resultUrls && status.resultUrls.length > 0) {
         const videoUrl = status.resultUrls[0];
-        console.log(`[UGC Chain] ✅ Step 5 complete: Veo3 video ready!`);
+        console.log(`[UGC Chain] ✅ Step 5 complete: ${asset.provider} video ready!`);
         console.log(`[UGC Chain] Video URL: ${videoUrl.substring(0, 80)}...`);
 
         // Mark chain as completed
@@ -410,6 +428,7 @@ Be specific and detailed - this description will be used to create a video based
           chainMetadata,
           apiResponse: { veo3: status },
         });
+        await enqueueVideoThumbnails(assetId, videoUrl, asset.userId);
 
         console.log(`[UGC Chain] 🎉 CHAIN WORKFLOW COMPLETE for asset ${assetId}!`);
         console.log(`[UGC Chain] Total chain time: ${this.getChainDuration(chainMetadata)}`);
@@ -430,6 +449,25 @@ Be specific and detailed - this description will be used to create a video based
         return true;
       }
 
+      // Ready but no URLs - wait a few polls, then fail over
+      if (status.status === 'ready') {
+        const retryCount = (chainMetadata.videoRetryCount || 0) + 1;
+        const MAX_RETRIES = 5;
+
+        console.log(`[UGC Chain] Step 5: Video ready but no URLs (${retryCount}/${MAX_RETRIES})`);
+        if (retryCount > MAX_RETRIES) {
+          await this.failover(assetId, {
+            trigger: 'ready_without_url',
+            reason: `Video fetch failed after ${MAX_RETRIES} retries (status=ready but no URLs)`,
+          });
+          return false;
+        }
+
+        chainMetadata.videoRetryCount = retryCount;
+        await storage.updateMediaAsset(assetId, { chainMetadata });
+        return false;
+      }
+
       // Still processing
       console.log(`[UGC Chain] Step 5: Video still processing, will retry...`);
       return false;
@@ -441,15 +479,27 @@ Be specific and detailed - this description will be used to create a video based
   },
 
   /**
-   * Fallback to Veo3-only mode (Mode B) when NanoBanana fails
-   * Generates video directly with Veo3 using product image (if available) or text-only
+   * Move to the next provider of the Mode A failover chain - a direct video
+   * (Mode B prompt) with the product image as reference, if there is one
+   * Returns false, with the chain marked as errored, when the policy allows
+   * no further hop
    */
-  async fallbackToVeo3(assetId: string, reason: string, productImageUrl?: string): Promise<void> {
-    console.log(`[UGC Chain Fallback] Starting Veo3 fallback for asset ${assetId}`);
-    console.log(`[UGC Chain Fallback] Reason: ${reason}`);
-    console.log(`[UGC Chain Fallback] Product image available: ${!!productImageUrl}`);
+  async failover(assetId: string, event: FailoverEvent): Promise<boolean> {
+    const failedAsset = await storage.getMediaAsset(assetId);
+    const failedStep = (failedAsset?.chainMetadata as ChainMetadata | null)?.step || 'error';
 
+    const step = await failoverAsset(assetId, event);
+    if (!step) {
+      await this.handleChainError(assetId, failedStep, event.reason);
+      return false;
+    }
+
+    console.log(`[UGC Chain Failover] Asset ${assetId}: ${failedStep} → ${step.label} (${event.trigger}: ${event.reason})`);
+
+    let videoPrompt: string;
+    let productImageUrl: string | undefined;
     try {
+      // Re-fetch - failoverAsset recorded the hop on chain metadata
       const asset = await storage.getMediaAsset(assetId);
       if (!asset) {
         throw new Error(`Asset ${assetId} not found`);
@@ -474,34 +524,19 @@ Be specific and detailed - this description will be used to create a video based
         duration: storedPromptVariables.duration || storedDuration || 10, // Ensure duration is set
       };
 
-      console.log(`[UGC Chain Fallback] Using duration: ${promptVariables.duration}s for video prompt`);
-
-      // Update chain metadata: mark as fallback
-      chainMetadata.step = 'fallback_to_veo3';
-      chainMetadata.fallbackReason = reason;
-      if (!chainMetadata.timestamps.imageCompleted) {
-        chainMetadata.timestamps.imageCompleted = new Date().toISOString(); // Mark image phase done
-      }
-
-      await storage.updateMediaAsset(assetId, {
-        chainMetadata,
-      });
+      productImageUrl = (asset.metadata as any)?.productImageUrl;
 
-      console.log(`[UGC Chain Fallback] Updated chain state to fallback_to_veo3`);
+      // Generate video prompt using Mode B (no image analysis)
+      videoPrompt = generatePrompt(GenerationMode.MODE_B, promptVariables);
 
-      // Generate Veo3 video prompt using Mode B (text-only mode)
-      const videoPrompt = generatePrompt(
-        GenerationMode.MODE_B, // Use Mode B for Veo3-only fallback
-        promptVariables
-      );
+      console.log(`[UGC Chain Failover] Video prompt generated (${videoPrompt.length} chars)`);
 
-      console.log(`[UGC Chain Fallback] Video prompt generated (${videoPrompt.length} chars)`);
-      console.log(`[UGC Chain Fallback] Prompt preview: ${videoPrompt.substring(0, 100)}...`);
-
-      // Update chain metadata with video prompt
+      // Update chain metadata: mark as failing over
+      chainMetadata.step = 'failing_over';
       chainMetadata.videoPrompt = videoPrompt;
-      chainMetadata.imageAnalysis = 'N/A (fallback mode - no image analysis)';
-      chainMetadata.timestamps.analysisCompleted = new Date().toISOString();
+      chainMetadata.imageAnalysis = chainMetadata.imageAnalysis || 'N/A (failover - no image analysis)';
+      chainMetadata.timestamps.imageCompleted = chainMetadata.timestamps.imageCompleted || new Date().toISOString();
+      chainMetadata.timestamps.analysisCompleted = chainMetadata.timestamps.analysisCompleted || new Date().toISOString();
 
       await storage.updateMediaAsset(assetId, {
         chainMetadata,
@@ -511,17 +546,18 @@ Be specific and detailed - this description will be used to create a video based
           fallbackMode: true,
         },
       });
-
-      console.log(`[UGC Chain Fallback] ✅ Proceeding to Veo3 video generation (Mode B)`);
-
-      // Start Veo3 video generation
-      // If product image exists, use it as reference; otherwise text-only
-      await this.startVideoGeneration(assetId, videoPrompt, productImageUrl);
-
     } catch (error: any) {
-      console.error(`[UGC Chain Fallback] ❌ Fallback failed:`, error);
-      await this.handleChainError(assetId, 'fallback_to_veo3', error.message);
-      throw error;
+      console.error(`[UGC Chain Failover] ❌ Failover failed:`, error);
+      await this.handleChainError(assetId, 'failing_over', error.message);
+      return false;
+    }
+
+    try {
+      await this.startVideoGeneration(assetId, videoPrompt, productImageUrl, step);
+      return true;
+    } catch {
+      // startVideoGeneration already failed over again or marked the chain as errored
+      return false;
     }
   },
 
@@ -5,6 +5,9 @@
  * Creates optimized voiceover text for each scene type.
  */
 
+import { SIMULATED_PROVIDERS, simulateRequest } from './simulated/core';
+import { recordTokenCost, toTokenUsage } from './costTracking';
+
 // ==================== TYPES ====================
 
 export interface ProductBrief {
@@ -33,6 +36,7 @@ export interface ScriptGenerationResult {
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.OPEN_AI_API_KEY;
 const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const SIMULATED_SCRIPT_LATENCY_MS = 4000;
 
 const SYSTEM_PROMPT = `You are a UGC (User Generated Content) video script writer specializing in short-form product videos for social media.
 
@@ -69,6 +73,16 @@ Output must be valid JSON with this exact structure:
 export async function generateSceneScripts(
   brief: ProductBrief
 ): Promise<ScriptGenerationResult> {
+  if (SIMULATED_PROVIDERS) {
+    // Offline: template scripts (see simulated/core.ts)
+    try {
+      await simulateRequest('openai', `ugc-script:${brief.productName}`, SIMULATED_SCRIPT_LATENCY_MS);
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+    return { success: true, scripts: getDefaultScripts(brief.productName, brief.productFeatures) };
+  }
+
   if (!OPENAI_API_KEY) {
     console.error('[UGC Script] OpenAI API key not configured');
     return {
@@ -127,6 +141,13 @@ Generate the JSON output with all script components.`;
       throw new Error(`OpenAI API Error (${response.status}): ${errorMessage}`);
     }
 
+    await recordTokenCost({
+      provider: 'openai',
+      operation: 'ugc_script',
+      model: data.model || 'gpt-4o-mini',
+      usage: toTokenUsage(data.usage),
+    });
+
     const content = data.choices?.[0]?.message?.content;
     if (!content) {
       throw new Error('Empty content in response');
@@ -5,7 +5,7 @@
  * 1. Script generation (AI)
  * 2. TTS audio generation (ElevenLabs)
  * 3. Asset preparation (stock footage fallbacks)
- * 4. Remotion composition assembly
+ * 4. Composition props assembly (UGCVideo in my-video)
  * 5. Render worker invocation
  * 6. Upload to CDN
  */
@@ -20,11 +20,28 @@ import {
   type SceneDurationsFromAudio,
 } from './ugcAudioPreparer';
 import { kieService } from './kie';
+import type { GenerationJob } from '@shared/schema';
+import {
+  DEFAULT_VIDEO_ASPECT_RATIO,
+  VIDEO_ASPECT_RATIO_DIMENSIONS,
+  type MediaAssetVariant,
+  type VideoAspectRatio,
+  type VideoThumbnails,
+} from '@shared/videoFormats';
+import { enqueueJob, type JobHandler, type JobTickResult } from './jobQueue';
+import {
+  getRenderCallbackUrl,
+  getRenderPollInterval,
+  type RenderEventHandler,
+} from './renderCallbacks';
+import { getThumbnailFields } from './videoThumbnails';
+import { reportAssetProgress, reportRenderProgress } from './assetProgress';
 
 // ==================== TYPES ====================
 
 export interface GenerateUGCVideoParams {
   userId: string;
+  workspaceId?: string | null;  // Workspace the asset belongs to (the user's own when absent)
   productName: string;
   productFeatures: string;
   productImages: string[];      // 2-4 URLs (minimum 2 required)
@@ -33,6 +50,7 @@ export interface GenerateUGCVideoParams {
   includeAvatar?: boolean;      // Default false
   avatarPrompt?: string;        // For KIE generation
   logoUrl?: string;
+  aspectRatios?: VideoAspectRatio[]; // One MP4 per ratio, default ['9:16'] - the first is resultUrl
 }
 
 export interface UGCGenerationResult {
@@ -44,17 +62,54 @@ export interface UGCGenerationResult {
 export interface RenderJobStatus {
   jobId: string;
   status: 'queued' | 'rendering' | 'complete' | 'failed';
+  stage?: string;               // queued | bundling | rendering | uploading | thumbnails
   progress?: number;
   resultUrl?: string;
+  variants?: MediaAssetVariant[];
+  thumbnails?: VideoThumbnails;
   error?: string;
 }
 
+/**
+ * Input props for the UGCVideo composition
+ * Mirrors UGCCompositionProps in my-video/src/types/UGCSceneProps.ts
+ * (validated by the render worker before the job is queued)
+ */
+interface UGCCompositionProps {
+  productName: string;
+  productImages: string[];
+  logoUrl?: string;
+  hookText: string;
+  tagline?: string;
+  features: Array<{ text: string; icon?: string }>;
+  ctaText: string;
+  audioUrls?: {
+    showcase?: string;
+    features?: string;
+    cta?: string;
+  };
+  avatarVideoUrl?: string;
+  sceneDurations: SceneDurationsFromAudio;
+}
+
+/**
+ * Persisted progress of a ugc_video job (generation_jobs.state)
+ */
+interface UGCVideoJobState {
+  renderJobId?: string;
+  renderStartedAt?: string;
+  totalDuration?: number;
+  sceneDurations?: SceneDurationsFromAudio;
+}
+
 // ==================== CONFIG ====================
 
 const RENDER_WORKER_URL = process.env.RENDER_WORKER_URL || 'http://localhost:3001';
 const FPS = 30;
-const WIDTH = 1080;
-const HEIGHT = 1920;
+
+const PREPARE_TIMEOUT_MS = 5 * 60 * 1000;   // scripts + TTS + submission
+const RENDER_TIMEOUT_MS = 5 * 60 * 1000;    // render worker wait after submission, per aspect ratio
+const RENDER_POLL_INTERVAL_MS = 5000;
 
 // ==================== SERVICE ====================
 
@@ -67,6 +122,7 @@ export async function generateUGCVideo(
 ): Promise<UGCGenerationResult> {
   const {
     userId,
+    workspaceId,
     productName,
     productFeatures,
     productImages,
@@ -99,6 +155,7 @@ export async function generateUGCVideo(
     await storage.createMediaAsset({
       id: assetId,
       userId,
+      workspaceId,
       provider: 'remotion-ugc',
       type: 'video',
       prompt: `UGC Video: ${productName}`,
@@ -108,19 +165,20 @@ export async function generateUGCVideo(
         productFeatures,
         productImages,
         includeAvatar,
+        aspectRatios: getAspectRatios(params),
         startedAt: new Date().toISOString(),
       },
     });
 
     console.log(`[UGC Video] Created asset ${assetId} for user ${userId}`);
 
-    // Start async processing
-    processUGCVideo(assetId, params).catch((error) => {
-      console.error(`[UGC Video] Processing failed for ${assetId}:`, error);
-      storage.updateMediaAsset(assetId, {
-        status: 'error',
-        errorMessage: error.message || 'Unknown processing error',
-      });
+    // Hand off to the durable job queue (survives restarts)
+    await enqueueJob({
+      type: 'ugc_video',
+      mediaAssetId: assetId,
+      userId,
+      payload: params as unknown as Record<string, any>,
+      deadlineMs: PREPARE_TIMEOUT_MS + getRenderTimeout(params),
     });
 
     return {
@@ -137,12 +195,13 @@ export async function generateUGCVideo(
 }
 
 /**
- * Process UGC video generation (async)
+ * Prepare and submit a UGC video render (job phase 1)
+ * Scripts → TTS → scene durations → composition → render worker submission
  */
-async function processUGCVideo(
+async function prepareUGCRender(
   assetId: string,
   params: GenerateUGCVideoParams
-): Promise<void> {
+): Promise<UGCVideoJobState> {
   const {
     productName,
     productFeatures,
@@ -158,6 +217,7 @@ async function processUGCVideo(
 
   // Step 1: Generate scripts (AI or fallback)
   console.log(`[UGC Video] Step 1: Generating scripts...`);
+  reportAssetProgress(assetId, params.userId, 'script');
   const brief: ProductBrief = {
     productName,
     productFeatures,
@@ -184,11 +244,15 @@ async function processUGCVideo(
 
   // Step 2: Generate TTS audio
   console.log(`[UGC Video] Step 2: Generating TTS audio...`);
-  const audioResult = await ugcAudioPreparer.prepareAudio({
-    showcaseNarration: scripts.showcaseNarration,
-    featuresNarration: scripts.featuresNarration,
-    ctaNarration: scripts.ctaNarration,
-  });
+  reportAssetProgress(assetId, params.userId, 'tts');
+  const audioResult = await ugcAudioPreparer.prepareAudio(
+    {
+      showcaseNarration: scripts.showcaseNarration,
+      featuresNarration: scripts.featuresNarration,
+      ctaNarration: scripts.ctaNarration,
+    },
+    (completed, total) => reportAssetProgress(assetId, params.userId, 'tts', (completed / total) * 100)
+  );
 
   if (audioResult.errors.length > 0) {
     console.log(`[UGC Video] TTS warnings: ${audioResult.errors.join(', ')}`);
@@ -222,14 +286,14 @@ async function processUGCVideo(
     },
   });
 
-  // Step 4: Generate composition code
-  console.log(`[UGC Video] Step 4: Generating composition code...`);
-  const compositionCode = generateCompositionCode({
+  // Step 4: Prepare composition props
+  console.log(`[UGC Video] Step 4: Preparing composition...`);
+  const compositionProps: UGCCompositionProps = {
     productName,
     productImages,
     hookText: finalHookText,
     tagline: productName,
-    features: scripts.featuresList,
+    features: scripts.featuresList.map(text => ({ text, icon: '✓' })),
     ctaText,
     logoUrl,
     audioUrls: {
@@ -238,7 +302,7 @@ async function processUGCVideo(
       cta: audioResult.audioAssets.cta?.url,
     },
     sceneDurations,
-  });
+  };
 
   // Step 5: Submit to render worker
   console.log(`[UGC Video] Step 5: Submitting to render worker...`);
@@ -249,16 +313,18 @@ async function processUGCVideo(
     sceneDurations.avatar +
     sceneDurations.cta;
 
-  const renderResult = await submitRenderJob(assetId, compositionCode, {
+  // Primary ratio sets outputConfig; the worker renders every ratio in aspectRatios
+  const aspectRatios = getAspectRatios(params);
+  const renderResult = await submitRenderJob(assetId, compositionProps, {
     fps: FPS,
-    width: WIDTH,
-    height: HEIGHT,
+    ...VIDEO_ASPECT_RATIO_DIMENSIONS[aspectRatios[0]],
     durationInFrames: totalFrames,
-  });
+  }, aspectRatios);
 
   if (!renderResult.success) {
     throw new Error(renderResult.error || 'Render job submission failed');
   }
+  reportAssetProgress(assetId, params.userId, 'queued');
 
   await storage.updateMediaAsset(assetId, {
     metadata: {
@@ -267,291 +333,33 @@ async function processUGCVideo(
     },
   });
 
-  // Step 6: Poll for completion
-  console.log(`[UGC Video] Step 6: Waiting for render completion...`);
-  const finalResult = await waitForRenderCompletion(renderResult.jobId!);
-
-  if (finalResult.status === 'complete' && finalResult.resultUrl) {
-    console.log(`[UGC Video] Render complete: ${finalResult.resultUrl}`);
-    await storage.updateMediaAsset(assetId, {
-      status: 'ready',
-      resultUrl: finalResult.resultUrl,
-      completedAt: new Date(),
-      metadata: {
-        step: 'complete',
-        totalDuration,
-        sceneDurations,
-        hasAvatar: includeAvatar,
-      },
-    });
-  } else {
-    throw new Error(finalResult.error || 'Render failed');
-  }
-}
-
-/**
- * Generate Remotion composition code for render worker
- */
-function generateCompositionCode(params: {
-  productName: string;
-  productImages: string[];
-  hookText: string;
-  tagline: string;
-  features: string[];
-  ctaText: string;
-  logoUrl?: string;
-  audioUrls: {
-    showcase?: string;
-    features?: string;
-    cta?: string;
-  };
-  sceneDurations: SceneDurationsFromAudio;
-}): string {
-  const {
-    productName,
-    productImages,
-    hookText,
-    tagline,
-    features,
-    ctaText,
-    logoUrl,
-    audioUrls,
+  return {
+    renderJobId: renderResult.jobId,
+    renderStartedAt: new Date().toISOString(),
+    totalDuration,
     sceneDurations,
-  } = params;
-
-  // Escape strings for JavaScript
-  const escapeString = (s: string) => s.replace(/'/g, "\\'").replace(/"/g, '\\"');
-
-  return `
-import React from 'react';
-import {
-  AbsoluteFill,
-  Sequence,
-  Img,
-  Audio,
-  OffthreadVideo,
-  useCurrentFrame,
-  useVideoConfig,
-  interpolate,
-  spring,
-  Easing,
-} from 'remotion';
-
-// ==================== HOOK SCENE ====================
-const HookScene = ({ productImage, hookText, durationInFrames }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-
-  const imageScale = interpolate(frame, [0, durationInFrames], [1, 1.08], {
-    easing: Easing.out(Easing.ease),
-  });
-
-  const textProgress = spring({
-    frame: frame - 8,
-    fps,
-    config: { damping: 15, stiffness: 100, mass: 0.8 },
-  });
-
-  const textScale = interpolate(textProgress, [0, 1], [0.8, 1]);
-  const textOpacity = interpolate(textProgress, [0, 1], [0, 1]);
-  const textY = interpolate(textProgress, [0, 1], [30, 0]);
-
-  return (
-    <AbsoluteFill style={{ backgroundColor: 'black' }}>
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center', overflow: 'hidden' }}>
-        <Img src={productImage} style={{ width: '100%', height: '100%', objectFit: 'cover', transform: \`scale(\${imageScale})\` }} />
-      </AbsoluteFill>
-      <AbsoluteFill style={{ background: 'linear-gradient(to bottom, rgba(0,0,0,0.5) 0%, rgba(0,0,0,0.3) 50%, rgba(0,0,0,0.6) 100%)' }} />
-      <AbsoluteFill style={{ justifyContent: 'center', alignItems: 'center', padding: '0 40px' }}>
-        <div style={{ opacity: textOpacity, transform: \`translateY(\${textY}px) scale(\${textScale})\`, textAlign: 'center' }}>
-          <h1 style={{ color: 'white', fontSize: 64, fontWeight: 800, textTransform: 'uppercase', letterSpacing: 2, textShadow: '0 4px 30px rgba(0,0,0,0.9)', lineHeight: 1.2, margin: 0 }}>
-            {hookText}
-          </h1>
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-// ==================== SHOWCASE SCENE ====================
-const ShowcaseScene = ({ productImages, tagline, audioUrl, durationInFrames }) => {
-  const frame = useCurrentFrame();
-  const imagesCount = productImages.length;
-  const framesPerImage = Math.floor(durationInFrames / imagesCount);
-  const currentImageIndex = Math.min(Math.floor(frame / framesPerImage), imagesCount - 1);
-  const frameInCurrentImage = frame - currentImageIndex * framesPerImage;
-
-  const kenBurnsProgress = interpolate(frameInCurrentImage, [0, framesPerImage], [0, 1], { extrapolateRight: 'clamp' });
-  const isZoomIn = currentImageIndex % 2 === 0;
-  const scale = isZoomIn
-    ? interpolate(kenBurnsProgress, [0, 1], [1, 1.15], { easing: Easing.inOut(Easing.ease) })
-    : interpolate(kenBurnsProgress, [0, 1], [1.15, 1], { easing: Easing.inOut(Easing.ease) });
-
-  const transitionDuration = Math.min(15, framesPerImage / 4);
-  const imageOpacity = interpolate(frameInCurrentImage, [0, transitionDuration, framesPerImage - transitionDuration, framesPerImage], [0, 1, 1, 0], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-
-  return (
-    <AbsoluteFill style={{ backgroundColor: 'black' }}>
-      {audioUrl && <Audio src={audioUrl} />}
-      {productImages.map((imageUrl, index) => {
-        if (index !== currentImageIndex && index !== currentImageIndex - 1) return null;
-        const opacity = index === currentImageIndex ? imageOpacity : interpolate(frameInCurrentImage, [0, transitionDuration], [1, 0], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
-        return (
-          <AbsoluteFill key={index} style={{ opacity, justifyContent: 'center', alignItems: 'center', overflow: 'hidden' }}>
-            <Img src={imageUrl} style={{ width: '100%', height: '100%', objectFit: 'cover', transform: index === currentImageIndex ? \`scale(\${scale})\` : 'scale(1)' }} />
-          </AbsoluteFill>
-        );
-      })}
-      <AbsoluteFill style={{ background: 'linear-gradient(to top, rgba(0,0,0,0.7) 0%, transparent 40%, transparent 60%, rgba(0,0,0,0.4) 100%)' }} />
-      {tagline && (
-        <AbsoluteFill style={{ justifyContent: 'flex-end', alignItems: 'center', paddingBottom: 180 }}>
-          <p style={{ color: 'white', fontSize: 48, fontWeight: 600, textShadow: '0 2px 20px rgba(0,0,0,0.8)', lineHeight: 1.3, margin: 0, textAlign: 'center', padding: '0 40px' }}>
-            {tagline}
-          </p>
-        </AbsoluteFill>
-      )}
-    </AbsoluteFill>
-  );
-};
-
-// ==================== FEATURES SCENE ====================
-const FeaturesScene = ({ features, productImage, audioUrl, durationInFrames }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-
-  const bgScale = interpolate(frame, [0, durationInFrames], [1.05, 1], { easing: Easing.out(Easing.ease) });
-
-  return (
-    <AbsoluteFill style={{ backgroundColor: 'black' }}>
-      {audioUrl && <Audio src={audioUrl} />}
-      {productImage && (
-        <AbsoluteFill style={{ overflow: 'hidden' }}>
-          <Img src={productImage} style={{ width: '100%', height: '100%', objectFit: 'cover', transform: \`scale(\${bgScale})\`, filter: 'blur(15px) brightness(0.4)' }} />
-        </AbsoluteFill>
-      )}
-      <AbsoluteFill style={{ background: productImage ? 'linear-gradient(to bottom, rgba(0,0,0,0.4) 0%, rgba(0,0,0,0.6) 100%)' : 'linear-gradient(135deg, #1a1a2e 0%, #16213e 50%, #0f3460 100%)' }} />
-      <AbsoluteFill style={{ padding: '120px 48px', justifyContent: 'center' }}>
-        <h2 style={{ color: 'white', fontSize: 44, fontWeight: 700, textAlign: 'center', textTransform: 'uppercase', letterSpacing: 4, margin: '0 0 48px 0', textShadow: '0 2px 20px rgba(0,0,0,0.8)' }}>
-          Why You'll Love It
-        </h2>
-        <div style={{ display: 'flex', flexDirection: 'column' }}>
-          {features.map((feature, index) => {
-            const staggerDelay = (durationInFrames / 5) * index;
-            const progress = spring({ frame: frame - staggerDelay, fps, config: { damping: 20, stiffness: 80, mass: 0.8 } });
-            const translateX = interpolate(progress, [0, 1], [-50, 0]);
-            const opacity = interpolate(progress, [0, 1], [0, 1]);
-            return (
-              <div key={index} style={{ opacity, transform: \`translateX(\${translateX}px)\`, display: 'flex', alignItems: 'center', gap: 24, padding: '24px 32px', backgroundColor: 'rgba(255,255,255,0.1)', borderRadius: 16, marginBottom: 20 }}>
-                <div style={{ width: 64, height: 64, borderRadius: '50%', backgroundColor: 'rgba(255,255,255,0.2)', display: 'flex', justifyContent: 'center', alignItems: 'center', fontSize: 32, flexShrink: 0 }}>✓</div>
-                <p style={{ color: 'white', fontSize: 36, fontWeight: 600, margin: 0, lineHeight: 1.3, textShadow: '0 2px 10px rgba(0,0,0,0.5)' }}>{feature}</p>
-              </div>
-            );
-          })}
-        </div>
-      </AbsoluteFill>
-    </AbsoluteFill>
-  );
-};
-
-// ==================== CTA SCENE ====================
-const CTAScene = ({ productImage, ctaText, logoUrl, audioUrl, durationInFrames }) => {
-  const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
-
-  const imageProgress = spring({ frame, fps, config: { damping: 15, stiffness: 80 } });
-  const imageScale = interpolate(imageProgress, [0, 1], [1.1, 1]);
-  const imageOpacity = interpolate(imageProgress, [0, 1], [0, 1]);
-
-  const ctaProgress = spring({ frame: frame - 15, fps, config: { damping: 18, stiffness: 100 } });
-  const ctaScale = interpolate(ctaProgress, [0, 1], [0.8, 1]);
-  const ctaOpacity = interpolate(ctaProgress, [0, 1], [0, 1]);
-  const ctaY = interpolate(ctaProgress, [0, 1], [30, 0]);
-
-  const pulseFrame = Math.max(0, frame - 45);
-  const buttonPulse = 1 + Math.sin((pulseFrame / fps) * 4) * 0.03;
-
-  return (
-    <AbsoluteFill style={{ backgroundColor: 'black' }}>
-      {audioUrl && <Audio src={audioUrl} />}
-      <AbsoluteFill style={{ background: 'linear-gradient(135deg, #1a1a2e 0%, #16213e 30%, #0f3460 70%, #1a1a2e 100%)' }} />
-      <AbsoluteFill style={{ justifyContent: 'flex-start', alignItems: 'center', paddingTop: 180 }}>
-        <div style={{ opacity: imageOpacity, transform: \`scale(\${imageScale})\`, width: 400, height: 400, borderRadius: 24, overflow: 'hidden', boxShadow: '0 20px 60px rgba(0,0,0,0.5)', border: '4px solid rgba(255,255,255,0.2)' }}>
-          <Img src={productImage} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-        </div>
-      </AbsoluteFill>
-      <AbsoluteFill style={{ justifyContent: 'flex-end', alignItems: 'center', paddingBottom: 250 }}>
-        <div style={{ opacity: ctaOpacity, transform: \`translateY(\${ctaY}px) scale(\${ctaScale})\`, textAlign: 'center' }}>
-          <div style={{ backgroundColor: 'white', color: '#1a1a2e', fontSize: 40, fontWeight: 700, padding: '24px 64px', borderRadius: 50, transform: \`scale(\${buttonPulse})\`, boxShadow: '0 10px 40px rgba(255,255,255,0.3)', display: 'inline-block' }}>
-            {ctaText}
-          </div>
-        </div>
-      </AbsoluteFill>
-      {logoUrl && (
-        <AbsoluteFill style={{ justifyContent: 'flex-end', alignItems: 'center', paddingBottom: 100 }}>
-          <Img src={logoUrl} style={{ height: 60, objectFit: 'contain', filter: 'brightness(0) invert(1)' }} />
-        </AbsoluteFill>
-      )}
-    </AbsoluteFill>
-  );
-};
-
-// ==================== MAIN COMPOSITION ====================
-const UGCComposition = () => {
-  const productImages = ${JSON.stringify(productImages)};
-  const hookText = '${escapeString(hookText)}';
-  const tagline = '${escapeString(tagline)}';
-  const features = ${JSON.stringify(features)};
-  const ctaText = '${escapeString(ctaText)}';
-  const logoUrl = ${logoUrl ? `'${escapeString(logoUrl)}'` : 'null'};
-  const audioUrls = {
-    showcase: ${audioUrls.showcase ? `'${audioUrls.showcase}'` : 'null'},
-    features: ${audioUrls.features ? `'${audioUrls.features}'` : 'null'},
-    cta: ${audioUrls.cta ? `'${audioUrls.cta}'` : 'null'},
   };
-  const sceneDurations = ${JSON.stringify(sceneDurations)};
-
-  const hookStart = 0;
-  const showcaseStart = hookStart + sceneDurations.hook;
-  const featuresStart = showcaseStart + sceneDurations.showcase;
-  const ctaStart = featuresStart + sceneDurations.features + sceneDurations.avatar;
-
-  return (
-    <AbsoluteFill style={{ backgroundColor: 'black' }}>
-      <Sequence from={hookStart} durationInFrames={sceneDurations.hook}>
-        <HookScene productImage={productImages[0]} hookText={hookText} durationInFrames={sceneDurations.hook} />
-      </Sequence>
-      <Sequence from={showcaseStart} durationInFrames={sceneDurations.showcase}>
-        <ShowcaseScene productImages={productImages} tagline={tagline} audioUrl={audioUrls.showcase} durationInFrames={sceneDurations.showcase} />
-      </Sequence>
-      <Sequence from={featuresStart} durationInFrames={sceneDurations.features}>
-        <FeaturesScene features={features} productImage={productImages[0]} audioUrl={audioUrls.features} durationInFrames={sceneDurations.features} />
-      </Sequence>
-      <Sequence from={ctaStart} durationInFrames={sceneDurations.cta}>
-        <CTAScene productImage={productImages[0]} ctaText={ctaText} logoUrl={logoUrl} audioUrl={audioUrls.cta} durationInFrames={sceneDurations.cta} />
-      </Sequence>
-    </AbsoluteFill>
-  );
-};
-
-export default UGCComposition;
-`;
 }
 
 /**
- * Submit render job to render worker
+ * Submit render job to render worker using the pre-bundled UGCVideo composition
  */
 async function submitRenderJob(
   assetId: string,
-  code: string,
-  config: { fps: number; width: number; height: number; durationInFrames: number }
+  props: UGCCompositionProps,
+  config: { fps: number; width: number; height: number; durationInFrames: number },
+  aspectRatios: VideoAspectRatio[]
 ): Promise<{ success: boolean; jobId?: string; error?: string }> {
   try {
     const response = await axios.post(
       `${RENDER_WORKER_URL}/render`,
       {
         jobId: assetId,
-        code,
+        compositionId: 'UGCVideo',
+        inputProps: props,
+        aspectRatios,
         outputConfig: config,
+        callbackUrl: getRenderCallbackUrl(),
       },
       {
         timeout: 30000, // 30s timeout for submission
@@ -570,46 +378,33 @@ async function submitRenderJob(
       };
     }
   } catch (error: any) {
-    console.error('[UGC Video] Render worker error:', error.message);
+    // 400s carry the worker's inputProps validation errors
+    const workerError: string | undefined = error.response?.data?.error;
+    const details: string[] = error.response?.data?.details || [];
+    console.error('[UGC Video] Render worker error:', workerError || error.message, details);
     return {
       success: false,
-      error: error.message || 'Failed to connect to render worker',
+      error: workerError
+        ? [workerError, ...details].join('; ')
+        : error.message || 'Failed to connect to render worker',
     };
   }
 }
 
 /**
- * Poll render worker for job completion
+ * Check render worker job status once
+ * Returns null when the worker is unreachable (caller retries on next tick)
  */
-async function waitForRenderCompletion(
-  jobId: string,
-  maxWaitMs: number = 300000 // 5 minutes
-): Promise<RenderJobStatus> {
-  const startTime = Date.now();
-  const pollIntervalMs = 5000; // 5 seconds
-
-  while (Date.now() - startTime < maxWaitMs) {
-    try {
-      const response = await axios.get(`${RENDER_WORKER_URL}/status/${jobId}`);
-      const status: RenderJobStatus = response.data;
-
-      if (status.status === 'complete' || status.status === 'failed') {
-        return status;
-      }
-
-      console.log(`[UGC Video] Render progress: ${status.progress || 0}%`);
-    } catch (error: any) {
-      console.error('[UGC Video] Status check error:', error.message);
-    }
-
-    await sleep(pollIntervalMs);
+async function getRenderJobStatus(jobId: string): Promise<RenderJobStatus | null> {
+  try {
+    const response = await axios.get(`${RENDER_WORKER_URL}/status/${jobId}`, {
+      timeout: 10000,
+    });
+    return response.data as RenderJobStatus;
+  } catch (error: any) {
+    console.error('[UGC Video] Status check error:', error.message);
+    return null;
   }
-
-  return {
-    jobId,
-    status: 'failed',
-    error: 'Render timeout exceeded',
-  };
 }
 
 /**
@@ -634,10 +429,128 @@ export async function getUGCVideoStatus(assetId: string): Promise<{
   };
 }
 
+// ==================== JOB HANDLER ====================
+
+/**
+ * ugc_video job handler
+ * Phase 1 prepares and submits the render, phase 2 polls the render worker
+ */
+export const ugcVideoJobHandler: JobHandler = {
+  // Preparation is not retried automatically (TTS/LLM calls are billed)
+  maxAttempts: 1,
+
+  async tick(job: GenerationJob): Promise<JobTickResult> {
+    const assetId = job.mediaAssetId!;
+    const params = job.payload as unknown as GenerateUGCVideoParams;
+    const state = (job.state || {}) as UGCVideoJobState;
+
+    if (!state.renderJobId) {
+      const prepared = await prepareUGCRender(assetId, params);
+      return { done: false, delayMs: RENDER_POLL_INTERVAL_MS, state: { ...prepared } };
+    }
+
+    // Already finalized by the render worker callback
+    const asset = await storage.getMediaAsset(assetId);
+    if (asset && asset.status !== 'processing') {
+      return { done: true };
+    }
+
+    const renderElapsed = Date.now() - new Date(state.renderStartedAt || job.createdAt).getTime();
+    if (renderElapsed > getRenderTimeout(params)) {
+      await failUGCVideo(assetId, 'Render timeout exceeded');
+      return { done: true };
+    }
+
+    const status = await getRenderJobStatus(state.renderJobId);
+
+    if (status?.status === 'complete' && status.resultUrl) {
+      await completeUGCVideo(assetId, params, state, status.resultUrl, status.variants, status.thumbnails);
+      return { done: true };
+    }
+
+    if (status?.status === 'failed' || status?.status === 'complete') {
+      await failUGCVideo(assetId, status.error || 'Render failed');
+      return { done: true };
+    }
+
+    if (status) {
+      console.log(`[UGC Video] Render progress: ${status.progress || 0}%`);
+      reportRenderProgress(assetId, params.userId, status);
+    }
+    return { done: false, delayMs: getRenderPollInterval(RENDER_POLL_INTERVAL_MS) };
+  },
+
+  async onTimeout(job: GenerationJob): Promise<void> {
+    await failUGCVideo(job.mediaAssetId!, 'Render timeout exceeded');
+  },
+
+  async onFailure(job: GenerationJob, error: Error): Promise<void> {
+    console.error(`[UGC Video] Processing failed for ${job.mediaAssetId}:`, error);
+    await failUGCVideo(job.mediaAssetId!, error.message || 'Unknown processing error');
+  },
+};
+
+/**
+ * Render worker callback for ugc_video jobs (see renderCallbacks.ts)
+ */
+export const ugcRenderEventHandler: RenderEventHandler = async (job, event) => {
+  const assetId = job.mediaAssetId!;
+  const asset = await storage.getMediaAsset(assetId);
+  if (!asset || asset.status !== 'processing') {
+    return;
+  }
+
+  if (event.status === 'complete' && event.resultUrl) {
+    const params = job.payload as unknown as GenerateUGCVideoParams;
+    const state = (job.state || {}) as UGCVideoJobState;
+    await completeUGCVideo(assetId, params, state, event.resultUrl, event.variants, event.thumbnails);
+  } else {
+    await failUGCVideo(assetId, event.error || 'Render failed');
+  }
+};
+
 // ==================== HELPERS ====================
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+async function completeUGCVideo(
+  assetId: string,
+  params: GenerateUGCVideoParams,
+  state: UGCVideoJobState,
+  resultUrl: string,
+  variants?: MediaAssetVariant[],
+  thumbnails?: VideoThumbnails
+): Promise<void> {
+  console.log(`[UGC Video] Render complete: ${resultUrl}${variants ? ` (${variants.length} variants)` : ''}`);
+  await storage.updateMediaAsset(assetId, {
+    status: 'ready',
+    resultUrl,
+    variants: variants || null,
+    ...getThumbnailFields(thumbnails),
+    completedAt: new Date(),
+    metadata: {
+      step: 'complete',
+      totalDuration: state.totalDuration,
+      sceneDurations: state.sceneDurations,
+      hasAvatar: params.includeAvatar ?? false,
+    },
+  });
+}
+
+async function failUGCVideo(assetId: string, errorMessage: string): Promise<void> {
+  await storage.updateMediaAsset(assetId, {
+    status: 'error',
+    errorMessage,
+  });
+}
+
+function getAspectRatios(params: GenerateUGCVideoParams): VideoAspectRatio[] {
+  return params.aspectRatios?.length ? params.aspectRatios : [DEFAULT_VIDEO_ASPECT_RATIO];
+}
+
+/**
+ * The worker renders ratios one after another - allow each its own window
+ */
+function getRenderTimeout(params: GenerateUGCVideoParams): number {
+  return RENDER_TIMEOUT_MS * getAspectRatios(params).length;
 }
 
 // ==================== EXPORTS ====================
@@ -0,0 +1,137 @@
+/**
+ * Video Thumbnails (Feb 2026)
+ *
+ * Poster JPEG, looping WebP preview and scrubbing sprite sheet for every
+ * video asset, so tiles don't have to load the full MP4.
+ *
+ * - Render worker videos (UGC, Autopilot, Content Engine) come back with
+ *   their thumbnails in the status / callback event - see getThumbnailFields
+ * - KIE videos (Veo3, Sora2, chain) are queued as a video_thumbnails job that
+ *   asks the render worker's POST /thumbnails to run ffmpeg on the result URL
+ *
+ * Thumbnails are best-effort: the asset is ready either way, and tiles fall
+ * back to the video itself when posterUrl is missing.
+ */
+
+import axios from 'axios';
+import { storage } from '../storage';
+import type { GenerationJob, MediaAsset } from '@shared/schema';
+import type { VideoThumbnails } from '@shared/videoFormats';
+import { enqueueJob, type JobHandler, type JobTickResult } from './jobQueue';
+
+// ==================== TYPES ====================
+
+interface VideoThumbnailsPayload {
+  videoUrl: string;
+  posterTime?: number;
+}
+
+// ==================== CONFIG ====================
+
+const RENDER_WORKER_URL = process.env.RENDER_WORKER_URL || 'http://localhost:3001';
+const REQUEST_TIMEOUT_MS = 3 * 60 * 1000;   // worker downloads and decodes the video inline
+const JOB_DEADLINE_MS = 15 * 60 * 1000;
+
+// ==================== SERVICE ====================
+
+/**
+ * Queue thumbnail generation for a finished KIE video
+ */
+export async function enqueueVideoThumbnails(
+  assetId: string,
+  videoUrl: string,
+  userId?: string | null,
+  posterTime?: number
+): Promise<void> {
+  try {
+    await enqueueJob({
+      type: 'video_thumbnails',
+      mediaAssetId: assetId,
+      userId: userId || undefined,
+      payload: { videoUrl, posterTime } as VideoThumbnailsPayload,
+      deadlineMs: JOB_DEADLINE_MS,
+    });
+  } catch (error: any) {
+    // Never fail a completed generation over its thumbnails
+    console.error(`[Thumbnails] Failed to queue thumbnails for ${assetId}:`, error.message);
+  }
+}
+
+/**
+ * media_assets columns for a set of worker thumbnails
+ * Spread into updateMediaAsset when completing a render
+ */
+export function getThumbnailFields(thumbnails?: VideoThumbnails | null): Pick<MediaAsset, 'posterUrl' | 'previewUrl' | 'spriteSheet'> {
+  return {
+    posterUrl: thumbnails?.posterUrl || null,
+    previewUrl: thumbnails?.previewUrl || null,
+    spriteSheet: thumbnails?.spriteSheet || null,
+  };
+}
+
+/**
+ * Ask the render worker to generate thumbnails for a video URL
+ * Throws when the worker is unreachable or ffmpeg fails (the job retries)
+ */
+async function requestThumbnails(assetId: string, payload: VideoThumbnailsPayload): Promise<VideoThumbnails> {
+  const response = await axios.post(
+    `${RENDER_WORKER_URL}/thumbnails`,
+    {
+      videoUrl: payload.videoUrl,
+      name: assetId,
+      posterTime: payload.posterTime,
+    },
+    { timeout: REQUEST_TIMEOUT_MS }
+  );
+
+  const { posterUrl, previewUrl, spriteSheet } = response.data;
+  if (!posterUrl) {
+    throw new Error('Render worker returned no posterUrl');
+  }
+  return { posterUrl, previewUrl, spriteSheet };
+}
+
+// ==================== JOB HANDLER ====================
+
+/**
+ * video_thumbnails job handler - a single worker request per tick
+ */
+export const videoThumbnailsJobHandler: JobHandler = {
+  async tick(job: GenerationJob): Promise<JobTickResult> {
+    const assetId = job.mediaAssetId!;
+    const payload = job.payload as VideoThumbnailsPayload;
+
+    // Deleted, or the video was replaced (e.g. regenerated) since this was queued
+    const asset = await storage.getMediaAsset(assetId);
+    if (!asset || asset.resultUrl !== payload.videoUrl) {
+      return { done: true };
+    }
+
+    try {
+      const thumbnails = await requestThumbnails(assetId, payload);
+      await storage.updateMediaAsset(assetId, getThumbnailFields(thumbnails));
+      console.log(`[Thumbnails] Stored thumbnails for ${assetId}: ${thumbnails.posterUrl}`);
+      return { done: true };
+    } catch (error: any) {
+      const workerError: string | undefined = error.response?.data?.error;
+      throw new Error(workerError || error.message || 'Thumbnail request failed');
+    }
+  },
+
+  async onTimeout(job: GenerationJob): Promise<void> {
+    console.warn(`[Thumbnails] Gave up on thumbnails for ${job.mediaAssetId} (deadline)`);
+  },
+
+  async onFailure(job: GenerationJob, error: Error): Promise<void> {
+    console.warn(`[Thumbnails] Gave up on thumbnails for ${job.mediaAssetId}:`, error.message);
+  },
+};
+
+// ==================== EXPORTS ====================
+
+export const videoThumbnailsService = {
+  enqueueVideoThumbnails,
+  getThumbnailFields,
+};
+
+export default videoThumbnailsService;
@@ -0,0 +1,486 @@
+/**
+ * Outbound Webhooks (Feb 2026)
+ *
+ * Workspaces register endpoints (settings → Webhooks) subscribed to events in
+ * shared/webhooks.ts. When a media asset settles, a social post publishes or
+ * fails, or an Autopilot run finishes, one webhook_deliveries row is written
+ * per subscribed endpoint and a webhook_delivery job is queued to send it.
+ *
+ * Deliveries ride the durable job queue, so retries survive restarts:
+ * - 2xx: delivered
+ * - network error, timeout, 408, 429 or 5xx: retried with exponential backoff
+ *   (MAX_DELIVERY_ATTEMPTS in total)
+ * - any other 4xx: failed - the receiver rejected it, retrying won't help
+ *
+ * Every event carries a dedupe key (e.g. media.ready:<assetId>), so an asset
+ * whose jobs settle more than once (thumbnails) still sends a single event.
+ * Emitting is best-effort and never throws into the caller.
+ */
+
+import crypto from 'crypto';
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  autopilotConfigs,
+  autopilotHistory,
+  autopilotStores,
+  webhookDeliveries,
+  webhookEndpoints,
+  type GenerationJob,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from '@shared/schema';
+import {
+  WEBHOOK_SECRET_PREFIX,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TEST_EVENT,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type WebhookEvent,
+  type WebhookEventType,
+} from '@shared/webhooks';
+import { enqueueJob, type JobHandler, type JobTickResult } from './jobQueue';
+import { ensurePersonalWorkspace } from './workspaceService';
+import { postToPublicUrl } from './publicHttp';
+import { toAutopilotRunResponse, toMediaResponse, toPostResponse } from '../api/resources';
+
+// ==================== TYPES ====================
+
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+}
+
+export interface WebhookEndpointUpdate extends Partial<WebhookEndpointInput> {
+  enabled?: boolean;
+}
+
+/**
+ * An endpoint as shown in settings (never the secret)
+ */
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'>;
+
+interface WebhookDeliveryJobPayload {
+  deliveryId: string;
+}
+
+type AttemptResult =
+  | { delivered: true }
+  | { delivered: false; retryable: boolean };
+
+// ==================== CONFIG ====================
+
+const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 60 * 1000;        // 1m, 2m, 4m ... ~2h before the last attempt
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_DEADLINE_MS = 24 * 60 * 60 * 1000;
+
+// ==================== ENDPOINTS ====================
+
+/**
+ * Register an endpoint. Returns the signing secret - also the only time it is shown.
+ */
+export async function createEndpoint(
+  workspaceId: string,
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+  const secret = `${WEBHOOK_SECRET_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+
+  const [created] = await db
+    .insert(webhookEndpoints)
+    .values({
+      workspaceId,
+      userId,
+      url: input.url,
+      description: input.description ?? null,
+      events: input.events,
+      secret,
+    })
+    .returning();
+
+  console.log(`[Webhooks] Created endpoint ${created.id} in ${workspaceId} (${input.events.join(', ')})`);
+  return { endpoint: toSummary(created), secret };
+}
+
+export async function listEndpoints(workspaceId: string): Promise<WebhookEndpointSummary[]> {
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.workspaceId, workspaceId))
+    .orderBy(desc(webhookEndpoints.createdAt));
+
+  return endpoints.map(toSummary);
+}
+
+export async function updateEndpoint(
+  workspaceId: string,
+  endpointId: string,
+  updates: WebhookEndpointUpdate
+): Promise<WebhookEndpointSummary | undefined> {
+  const [updated] = await db
+    .update(webhookEndpoints)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(eq(webhookEndpoints.id, endpointId), eq(webhookEndpoints.workspaceId, workspaceId)))
+    .returning();
+
+  return updated ? toSummary(updated) : undefined;
+}
+
+/**
+ * Delete an endpoint and its delivery history (queued retries find nothing and stop)
+ */
+export async function deleteEndpoint(workspaceId: string, endpointId: string): Promise<boolean> {
+  const result = await db
+    .delete(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, endpointId), eq(webhookEndpoints.workspaceId, workspaceId)))
+    .returning({ id: webhookEndpoints.id });
+
+  return result.length > 0;
+}
+
+/**
+ * An endpoint's deliveries, newest first
+ */
+export async function listDeliveries(
+  workspaceId: string,
+  endpointId: string,
+  limit = 50
+): Promise<WebhookDelivery[] | undefined> {
+  const endpoint = await getEndpoint(workspaceId, endpointId);
+  if (!endpoint) {
+    return undefined;
+  }
+
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.endpointId, endpointId))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Send a webhook.test event right away (one attempt, no retries) and
+ * return the logged delivery
+ */
+export async function sendTestEvent(workspaceId: string, endpointId: string): Promise<WebhookDelivery | undefined> {
+  const endpoint = await getEndpoint(workspaceId, endpointId);
+  if (!endpoint) {
+    return undefined;
+  }
+
+  const event: WebhookEvent = {
+    id: crypto.randomUUID(),
+    type: WEBHOOK_TEST_EVENT,
+    createdAt: new Date().toISOString(),
+    workspaceId,
+    data: { message: 'Test event from your webhook settings' },
+  };
+
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      endpointId,
+      eventId: event.id,
+      eventType: event.type,
+      payload: event,
+    })
+    .returning();
+
+  const result = await attemptDelivery(endpoint, delivery);
+  if (!result.delivered) {
+    await markFailed(delivery.id);
+  }
+
+  const [settled] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  return settled ?? delivery;
+}
+
+// ==================== EVENTS ====================
+
+/**
+ * Fan an event out to the workspace's enabled endpoints subscribed to it
+ * @param dedupeKey - identifies the state change, so it is only sent once per endpoint
+ */
+export async function emitWebhookEvent(
+  workspaceId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  dedupeKey: string
+): Promise<void> {
+  try {
+    const endpoints = (await db
+      .select()
+      .from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.workspaceId, workspaceId), eq(webhookEndpoints.enabled, true))))
+      .filter(endpoint => endpoint.events.includes(type));
+
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const event: WebhookEvent = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      workspaceId,
+      data,
+    };
+
+    const deliveries = await db
+      .insert(webhookDeliveries)
+      .values(endpoints.map(endpoint => ({
+        endpointId: endpoint.id,
+        eventId: event.id,
+        eventType: type,
+        dedupeKey,
+        payload: event,
+        nextAttemptAt: new Date(),
+      })))
+      .onConflictDoNothing()
+      .returning();
+
+    for (const delivery of deliveries) {
+      const endpoint = endpoints.find(e => e.id === delivery.endpointId)!;
+      await enqueueJob({
+        type: 'webhook_delivery',
+        userId: endpoint.userId,
+        payload: { deliveryId: delivery.id } as WebhookDeliveryJobPayload,
+        deadlineMs: DELIVERY_DEADLINE_MS,
+      });
+    }
+
+    if (deliveries.length > 0) {
+      console.log(`[Webhooks] ${type} queued for ${deliveries.length} endpoint(s) (${dedupeKey})`);
+    }
+  } catch (error: any) {
+    console.error(`[Webhooks] Failed to emit ${type} (${dedupeKey}):`, error.message);
+  }
+}
+
+/**
+ * media.ready / media.error once an asset leaves 'processing'
+ */
+export async function emitMediaAssetEvent(assetId: string): Promise<void> {
+  try {
+    const asset = await storage.getMediaAsset(assetId);
+    if (!asset || asset.status === 'processing') return;
+
+    const type = asset.status === 'ready' ? 'media.ready' : 'media.error';
+    const workspaceId = await resolveWorkspaceId(asset);
+    await emitWebhookEvent(workspaceId, type, toMediaResponse(asset), `${type}:${asset.id}`);
+  } catch (error: any) {
+    console.error(`[Webhooks] Failed to emit media event for ${assetId}:`, error.message);
+  }
+}
+
+/**
+ * post.published / post.failed once a post reaches either state
+ */
+export async function emitSocialPostEvent(postId: number): Promise<void> {
+  try {
+    const post = await storage.getSocialPost(postId);
+    if (!post || (post.status !== 'published' && post.status !== 'failed')) return;
+
+    const type = post.status === 'published' ? 'post.published' : 'post.failed';
+    const workspaceId = await resolveWorkspaceId(post);
+    await emitWebhookEvent(workspaceId, type, toPostResponse(post), `${type}:${post.id}`);
+  } catch (error: any) {
+    console.error(`[Webhooks] Failed to emit post event for ${postId}:`, error.message);
+  }
+}
+
+/**
+ * autopilot.ready / autopilot.failed once a run finishes
+ */
+export async function emitAutopilotRunEvent(historyId: string): Promise<void> {
+  try {
+    const [row] = await db
+      .select({ run: autopilotHistory, store: autopilotStores })
+      .from(autopilotHistory)
+      .innerJoin(autopilotConfigs, eq(autopilotConfigs.id, autopilotHistory.configId))
+      .innerJoin(autopilotStores, eq(autopilotStores.id, autopilotConfigs.storeId))
+      .where(eq(autopilotHistory.id, historyId));
+
+    if (!row || (row.run.status !== 'ready' && row.run.status !== 'failed')) return;
+
+    const type = row.run.status === 'ready' ? 'autopilot.ready' : 'autopilot.failed';
+    const workspaceId = await resolveWorkspaceId(row.store);
+    await emitWebhookEvent(workspaceId, type, toAutopilotRunResponse(row.run), `${type}:${row.run.id}`);
+  } catch (error: any) {
+    console.error(`[Webhooks] Failed to emit Autopilot event for ${historyId}:`, error.message);
+  }
+}
+
+// ==================== DELIVERY ====================
+
+/**
+ * webhook_delivery job handler - one delivery attempt per tick
+ */
+export const webhookDeliveryJobHandler: JobHandler = {
+  async tick(job: GenerationJob): Promise<JobTickResult> {
+    const { deliveryId } = job.payload as WebhookDeliveryJobPayload;
+
+    const [row] = await db
+      .select({ delivery: webhookDeliveries, endpoint: webhookEndpoints })
+      .from(webhookDeliveries)
+      .innerJoin(webhookEndpoints, eq(webhookEndpoints.id, webhookDeliveries.endpointId))
+      .where(eq(webhookDeliveries.id, deliveryId));
+
+    // Endpoint deleted (cascades) or already settled
+    if (!row || row.delivery.status !== 'pending') {
+      return { done: true };
+    }
+
+    if (!row.endpoint.enabled) {
+      await markFailed(deliveryId, 'Endpoint disabled');
+      return { done: true };
+    }
+
+    const result = await attemptDelivery(row.endpoint, row.delivery);
+    if (result.delivered) {
+      return { done: true };
+    }
+
+    const attempts = row.delivery.attempts + 1;
+    if (!result.retryable || attempts >= MAX_DELIVERY_ATTEMPTS) {
+      await markFailed(deliveryId);
+      return { done: true };
+    }
+
+    const delayMs = RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1);
+    await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: new Date(Date.now() + delayMs) })
+      .where(eq(webhookDeliveries.id, deliveryId));
+
+    return { done: false, delayMs };
+  },
+
+  async onTimeout(job: GenerationJob): Promise<void> {
+    await markFailed((job.payload as WebhookDeliveryJobPayload).deliveryId, 'Delivery deadline exceeded');
+  },
+
+  async onFailure(job: GenerationJob, error: Error): Promise<void> {
+    await markFailed((job.payload as WebhookDeliveryJobPayload).deliveryId, error.message);
+  },
+};
+
+/**
+ * POST the delivery's payload once and record the outcome on the delivery row
+ */
+async function attemptDelivery(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<AttemptResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = crypto
+    .createHmac('sha256', endpoint.secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  let responseStatus: number | null = null;
+  let errorMessage: string | null = null;
+
+  // Only the status is kept - the receiver's body could be anything, and we
+  // don't relay it. Redirects aren't followed, so a 3xx fails the attempt.
+  try {
+    const response = await postToPublicUrl(
+      endpoint.url,
+      {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Delivery': delivery.id,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signature}`,
+      },
+      body,
+      DELIVERY_TIMEOUT_MS
+    );
+
+    responseStatus = response.status;
+    if (responseStatus < 200 || responseStatus >= 300) {
+      errorMessage = `Endpoint responded ${responseStatus}`;
+    }
+  } catch (error: any) {
+    errorMessage = error.message || 'Request failed';
+  }
+
+  const delivered = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: delivered ? 'delivered' : 'pending',
+      attempts: delivery.attempts + 1,
+      responseStatus,
+      errorMessage,
+      deliveredAt: delivered ? new Date() : null,
+      nextAttemptAt: null,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  console.log(`[Webhooks] ${delivery.eventType} delivery ${delivery.id} attempt ${delivery.attempts + 1}: ${responseStatus ?? errorMessage}`);
+
+  if (delivered) {
+    return { delivered: true };
+  }
+  return {
+    delivered: false,
+    retryable: responseStatus === null || responseStatus >= 500 || responseStatus === 408 || responseStatus === 429,
+  };
+}
+
+async function markFailed(deliveryId: string, errorMessage?: string): Promise<void> {
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: 'failed',
+      nextAttemptAt: null,
+      ...(errorMessage ? { errorMessage } : {}),
+    })
+    .where(eq(webhookDeliveries.id, deliveryId));
+}
+
+// ==================== HELPERS ====================
+
+async function getEndpoint(workspaceId: string, endpointId: string): Promise<WebhookEndpoint | undefined> {
+  const [endpoint] = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, endpointId), eq(webhookEndpoints.workspaceId, workspaceId)));
+
+  return endpoint;
+}
+
+/**
+ * Rows from before workspaces belong to their creator's personal workspace
+ */
+async function resolveWorkspaceId(resource: { workspaceId: string | null; userId: string }): Promise<string> {
+  return resource.workspaceId ?? (await ensurePersonalWorkspace(resource.userId)).id;
+}
+
+function toSummary({ secret, ...endpoint }: WebhookEndpoint): WebhookEndpointSummary {
+  return endpoint;
+}
+
+// ==================== EXPORTS ====================
+
+export const webhookService = {
+  createEndpoint,
+  listEndpoints,
+  updateEndpoint,
+  deleteEndpoint,
+  listDeliveries,
+  sendTestEvent,
+  emitWebhookEvent,
+  emitMediaAssetEvent,
+  emitSocialPostEvent,
+  emitAutopilotRunEvent,
+};
+
+export default webhookService;
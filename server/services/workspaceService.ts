@@ -0,0 +1,406 @@
+/**
+ * Workspaces (Feb 2026)
+ *
+ * Membership, roles and invitations for team workspaces (shared/workspaces.ts).
+ * requireAuth resolves the active workspace on every request; routes then
+ * scope resources by req.workspaceId and charge credits to req.creditAccountId,
+ * the workspace owner whose balance is the shared pool.
+ *
+ * Every user owns exactly one workspace, created the first time they sign in.
+ */
+
+import { randomBytes } from 'crypto';
+import { eq, and, asc, gt, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  users,
+  workspaces,
+  workspaceMembers,
+  workspaceInvitations,
+  type Workspace,
+  type WorkspaceInvitation,
+  type WorkspaceMember,
+} from '@shared/schema';
+import type { InvitableRole, WorkspaceRole } from '@shared/workspaces';
+import { resolveTimeZone } from '@shared/timezones';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// ==================== TYPES ====================
+
+/**
+ * The caller's access to a workspace (attached to the request by requireAuth)
+ */
+export interface WorkspaceAccess {
+  workspace: Workspace;
+  role: WorkspaceRole;
+}
+
+/**
+ * Resource rows scoped to a workspace (media assets, posts, channels, stores)
+ */
+export interface WorkspaceScoped {
+  userId: string;
+  workspaceId: string | null;
+}
+
+export interface WorkspaceMemberDetails {
+  userId: string;
+  email: string;
+  fullName: string | null;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+/**
+ * A user's timezone in a workspace - their own wins over the workspace's,
+ * and neither set means UTC
+ */
+export interface TimeZoneSettings {
+  timezone: string | null;
+  workspaceTimezone: string | null;
+  effectiveTimezone: string;
+}
+
+export type WorkspaceResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+// ==================== ACCESS ====================
+
+/**
+ * The user's own workspace, created on first use
+ */
+export async function ensurePersonalWorkspace(userId: string): Promise<Workspace> {
+  const [existing] = await db.select().from(workspaces).where(eq(workspaces.ownerId, userId));
+  if (existing) {
+    return existing;
+  }
+
+  const [user] = await db.select().from(users).where(eq(users.id, userId));
+  const name = `${user?.fullName || user?.email?.split('@')[0] || 'My'}'s Workspace`;
+
+  // A parallel request may create it first - owner_id is unique
+  await db.insert(workspaces).values({ name, ownerId: userId }).onConflictDoNothing();
+  const [workspace] = await db.select().from(workspaces).where(eq(workspaces.ownerId, userId));
+
+  await db
+    .insert(workspaceMembers)
+    .values({ workspaceId: workspace.id, userId, role: 'owner' })
+    .onConflictDoNothing();
+
+  console.log(`[Workspaces] Created personal workspace ${workspace.id} for ${userId}`);
+  return workspace;
+}
+
+/**
+ * Resolve the workspace a request acts in: the requested one if the user is
+ * a member, otherwise (no header) their own. Returns null for non-members.
+ */
+export async function resolveWorkspaceAccess(
+  userId: string,
+  requestedWorkspaceId?: string
+): Promise<WorkspaceAccess | null> {
+  if (!requestedWorkspaceId) {
+    const workspace = await ensurePersonalWorkspace(userId);
+    return { workspace, role: 'owner' };
+  }
+
+  const [row] = await db
+    .select({ workspace: workspaces, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .where(and(
+      eq(workspaceMembers.workspaceId, requestedWorkspaceId),
+      eq(workspaceMembers.userId, userId)
+    ));
+
+  return row ? { workspace: row.workspace, role: row.role as WorkspaceRole } : null;
+}
+
+/**
+ * Is the resource in the caller's active workspace?
+ * Rows from before workspaces (no workspace_id) still belong to their creator.
+ */
+export function isInWorkspace(resource: WorkspaceScoped, workspaceId: string, userId: string): boolean {
+  return resource.workspaceId
+    ? resource.workspaceId === workspaceId
+    : resource.userId === userId;
+}
+
+export async function getWorkspace(workspaceId: string): Promise<Workspace | undefined> {
+  const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, workspaceId));
+  return workspace;
+}
+
+/**
+ * Workspaces the user belongs to, their own first
+ */
+export async function listUserWorkspaces(userId: string): Promise<Array<Workspace & { role: WorkspaceRole }>> {
+  await ensurePersonalWorkspace(userId);
+
+  const rows = await db
+    .select({ workspace: workspaces, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .where(eq(workspaceMembers.userId, userId))
+    .orderBy(asc(workspaceMembers.createdAt));
+
+  return rows
+    .map(row => ({ ...row.workspace, role: row.role as WorkspaceRole }))
+    .sort((a, b) => Number(b.ownerId === userId) - Number(a.ownerId === userId));
+}
+
+export async function renameWorkspace(workspaceId: string, name: string): Promise<Workspace | undefined> {
+  const [updated] = await db
+    .update(workspaces)
+    .set({ name, updatedAt: new Date() })
+    .where(eq(workspaces.id, workspaceId))
+    .returning();
+  return updated;
+}
+
+/**
+ * Set (or with null, clear) the workspace's default timezone
+ */
+export async function setWorkspaceTimezone(workspaceId: string, timezone: string | null): Promise<Workspace | undefined> {
+  const [updated] = await db
+    .update(workspaces)
+    .set({ timezone, updatedAt: new Date() })
+    .where(eq(workspaces.id, workspaceId))
+    .returning();
+  return updated;
+}
+
+export async function getTimeZoneSettings(userId: string, workspaceId?: string): Promise<TimeZoneSettings> {
+  const [[user], workspace] = await Promise.all([
+    db.select({ timezone: users.timezone }).from(users).where(eq(users.id, userId)),
+    workspaceId ? getWorkspace(workspaceId) : Promise.resolve(undefined),
+  ]);
+
+  const timezone = user?.timezone ?? null;
+  const workspaceTimezone = workspace?.timezone ?? null;
+  return { timezone, workspaceTimezone, effectiveTimezone: resolveTimeZone(timezone, workspaceTimezone) };
+}
+
+// ==================== MEMBERS ====================
+
+export async function listMembers(workspaceId: string): Promise<WorkspaceMemberDetails[]> {
+  const rows = await db
+    .select({
+      userId: workspaceMembers.userId,
+      email: users.email,
+      fullName: users.fullName,
+      role: workspaceMembers.role,
+      joinedAt: workspaceMembers.createdAt,
+    })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(users.id, workspaceMembers.userId))
+    .where(eq(workspaceMembers.workspaceId, workspaceId))
+    .orderBy(asc(workspaceMembers.createdAt));
+
+  return rows.map(row => ({ ...row, role: row.role as WorkspaceRole }));
+}
+
+/**
+ * Change a member's role. The owner's role never changes.
+ */
+export async function updateMemberRole(
+  workspaceId: string,
+  memberUserId: string,
+  role: InvitableRole
+): Promise<WorkspaceResult<WorkspaceMember>> {
+  const member = await getMember(workspaceId, memberUserId);
+  if (!member) {
+    return { ok: false, status: 404, error: 'Member not found' };
+  }
+  if (member.role === 'owner') {
+    return { ok: false, status: 400, error: "The owner's role can't be changed" };
+  }
+
+  const [updated] = await db
+    .update(workspaceMembers)
+    .set({ role })
+    .where(eq(workspaceMembers.id, member.id))
+    .returning();
+
+  console.log(`[Workspaces] ${memberUserId} is now ${role} in ${workspaceId}`);
+  return { ok: true, value: updated };
+}
+
+/**
+ * Remove a member (or leave). The owner can't leave their own workspace.
+ */
+export async function removeMember(workspaceId: string, memberUserId: string): Promise<WorkspaceResult<true>> {
+  const member = await getMember(workspaceId, memberUserId);
+  if (!member) {
+    return { ok: false, status: 404, error: 'Member not found' };
+  }
+  if (member.role === 'owner') {
+    return { ok: false, status: 400, error: "The owner can't be removed from their workspace" };
+  }
+
+  await db.delete(workspaceMembers).where(eq(workspaceMembers.id, member.id));
+
+  console.log(`[Workspaces] Removed ${memberUserId} from ${workspaceId}`);
+  return { ok: true, value: true };
+}
+
+async function getMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+  const [member] = await db
+    .select()
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  return member;
+}
+
+// ==================== INVITATIONS ====================
+
+/**
+ * Invite an email to the workspace (replaces any pending invitation for it)
+ */
+export async function createInvitation(
+  workspaceId: string,
+  email: string,
+  role: InvitableRole,
+  invitedBy: string
+): Promise<WorkspaceResult<WorkspaceInvitation>> {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const [existingMember] = await db
+    .select({ id: workspaceMembers.id })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(users.id, workspaceMembers.userId))
+    .where(and(
+      eq(workspaceMembers.workspaceId, workspaceId),
+      sql`lower(${users.email}) = ${normalizedEmail}`
+    ));
+
+  if (existingMember) {
+    return { ok: false, status: 409, error: 'This person is already a member' };
+  }
+
+  await db
+    .update(workspaceInvitations)
+    .set({ status: 'revoked' })
+    .where(and(
+      eq(workspaceInvitations.workspaceId, workspaceId),
+      eq(workspaceInvitations.email, normalizedEmail),
+      eq(workspaceInvitations.status, 'pending')
+    ));
+
+  const [invitation] = await db
+    .insert(workspaceInvitations)
+    .values({
+      workspaceId,
+      email: normalizedEmail,
+      role,
+      token: randomBytes(24).toString('hex'),
+      invitedBy,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+    })
+    .returning();
+
+  console.log(`[Workspaces] Invited ${normalizedEmail} to ${workspaceId} as ${role}`);
+  return { ok: true, value: invitation };
+}
+
+export async function listPendingInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+  return db
+    .select()
+    .from(workspaceInvitations)
+    .where(and(
+      eq(workspaceInvitations.workspaceId, workspaceId),
+      eq(workspaceInvitations.status, 'pending'),
+      gt(workspaceInvitations.expiresAt, new Date())
+    ))
+    .orderBy(asc(workspaceInvitations.createdAt));
+}
+
+/**
+ * Pending invitations addressed to the user's email (shown in the switcher)
+ */
+export async function listInvitationsForEmail(email: string): Promise<Array<WorkspaceInvitation & { workspaceName: string }>> {
+  const rows = await db
+    .select({ invitation: workspaceInvitations, workspaceName: workspaces.name })
+    .from(workspaceInvitations)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceInvitations.workspaceId))
+    .where(and(
+      eq(workspaceInvitations.email, email.trim().toLowerCase()),
+      eq(workspaceInvitations.status, 'pending'),
+      gt(workspaceInvitations.expiresAt, new Date())
+    ));
+
+  return rows.map(row => ({ ...row.invitation, workspaceName: row.workspaceName }));
+}
+
+export async function revokeInvitation(workspaceId: string, invitationId: string): Promise<boolean> {
+  const result = await db
+    .update(workspaceInvitations)
+    .set({ status: 'revoked' })
+    .where(and(
+      eq(workspaceInvitations.id, invitationId),
+      eq(workspaceInvitations.workspaceId, workspaceId),
+      eq(workspaceInvitations.status, 'pending')
+    ))
+    .returning({ id: workspaceInvitations.id });
+  return result.length > 0;
+}
+
+/**
+ * Join a workspace with an invitation token. Only the invited email's
+ * account can accept it.
+ */
+export async function acceptInvitation(
+  token: string,
+  userId: string,
+  userEmail: string
+): Promise<WorkspaceResult<Workspace>> {
+  const [invitation] = await db
+    .select()
+    .from(workspaceInvitations)
+    .where(eq(workspaceInvitations.token, token));
+
+  if (!invitation || invitation.status !== 'pending' || invitation.expiresAt < new Date()) {
+    return { ok: false, status: 404, error: 'Invitation not found or expired' };
+  }
+  if (invitation.email !== userEmail.trim().toLowerCase()) {
+    return { ok: false, status: 403, error: `This invitation was sent to ${invitation.email}` };
+  }
+
+  await db
+    .insert(workspaceMembers)
+    .values({ workspaceId: invitation.workspaceId, userId, role: invitation.role })
+    .onConflictDoNothing();
+
+  await db
+    .update(workspaceInvitations)
+    .set({ status: 'accepted', acceptedAt: new Date() })
+    .where(eq(workspaceInvitations.id, invitation.id));
+
+  const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, invitation.workspaceId));
+
+  console.log(`[Workspaces] ${userId} joined ${invitation.workspaceId} as ${invitation.role}`);
+  return { ok: true, value: workspace };
+}
+
+// ==================== EXPORTS ====================
+
+export const workspaceService = {
+  ensurePersonalWorkspace,
+  resolveWorkspaceAccess,
+  isInWorkspace,
+  getWorkspace,
+  listUserWorkspaces,
+  renameWorkspace,
+  setWorkspaceTimezone,
+  getTimeZoneSettings,
+  listMembers,
+  updateMemberRole,
+  removeMember,
+  createInvitation,
+  listPendingInvitations,
+  listInvitationsForEmail,
+  revokeInvitation,
+  acceptInvitation,
+};
+
+export default workspaceService;
@@ -6,11 +6,14 @@ import {
   projects,
   exports,
   socialPosts,
+  socialPostGroups,
+  postingSlots,
   mediaAssets,
   stripeSettings,
   brandSettings,
   channelConfigs,
   sceneSpecs,
+  autopilotStores,
   type User,
   type InsertUser,
   type Task,
@@ -23,6 +26,8 @@ import {
   type InsertExport,
   type SocialPost,
   type InsertSocialPost,
+  type SocialPostGroup,
+  type PostingSlot,
   type MediaAsset,
   type InsertMediaAsset,
   type StripeSettings,
@@ -33,7 +38,43 @@ import {
   type InsertSceneSpec,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, isNull } from "drizzle-orm";
+import { eq, desc, and, or, isNull, isNotNull, inArray, sql } from "drizzle-orm";
+
+/**
+ * The active workspace of a request (Feb 2026). Workspace resources are
+ * matched by workspace_id; rows from before workspaces still belong to their creator.
+ */
+export interface WorkspaceScope {
+  workspaceId: string;
+  userId: string;
+}
+
+export interface MediaAssetListOptions {
+  excludeContentEngine?: boolean;
+  contentEngineOnly?: boolean;
+  type?: string;
+  status?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SocialPostListOptions {
+  status?: string;
+  limit?: number;
+  // Calendar range - posts dated (scheduled, else created) from <= date < to
+  from?: Date;
+  to?: Date;
+}
+
+export function inWorkspace(
+  table: typeof socialPosts | typeof mediaAssets | typeof channelConfigs | typeof sceneSpecs | typeof autopilotStores | typeof postingSlots,
+  scope: WorkspaceScope
+) {
+  return or(
+    eq(table.workspaceId, scope.workspaceId),
+    and(isNull(table.workspaceId), eq(table.userId, scope.userId))
+  )!;
+}
 
 export interface IStorage {
   // Users
@@ -70,14 +111,29 @@ export interface IStorage {
   getSocialPost(id: number): Promise<SocialPost | undefined>;
   getSocialPostsByProject(projectId: string): Promise<SocialPost[]>;
   getSocialPostsByTask(taskId: string): Promise<SocialPost[]>;
+  createSocialPostGroup(group: typeof socialPostGroups.$inferInsert): Promise<SocialPostGroup>;
+  updateSocialPostGroup(id: number, updates: Partial<Omit<SocialPostGroup, 'id' | 'createdAt'>>): Promise<SocialPostGroup | undefined>;
+  getSocialPostGroup(id: number): Promise<SocialPostGroup | undefined>;
+  getSocialPostsByGroups(groupIds: number[]): Promise<SocialPost[]>;
+  getSocialPostsByWorkspace(scope: WorkspaceScope, options?: SocialPostListOptions): Promise<SocialPost[]>;
+  getScheduledPostsForAccount(scope: WorkspaceScope, accountId: string, after: Date): Promise<SocialPost[]>;
+
+  // Posting Slots
+  getPostingSlots(scope: WorkspaceScope, accountId?: string): Promise<PostingSlot[]>;
+  replacePostingSlots(
+    scope: WorkspaceScope,
+    account: { accountId: string; platform: string; timezone: string },
+    slots: Array<{ dayOfWeek: number; time: string }>
+  ): Promise<PostingSlot[]>;
 
   // Media Assets (Phase 4)
   createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset>;
   getMediaAsset(id: string): Promise<MediaAsset | undefined>;
+  getMediaAssetsByIds(ids: string[]): Promise<MediaAsset[]>;
   updateMediaAsset(id: string, updates: Partial<Omit<MediaAsset, 'id' | 'createdAt'>>): Promise<MediaAsset | undefined>;
-  getMediaAssetsByUser(userId: string, options?: { excludeContentEngine?: boolean; contentEngineOnly?: boolean }): Promise<MediaAsset[]>;
-  softDeleteMediaAsset(assetId: string, userId: string): Promise<MediaAsset | undefined>;
-  rateMediaAsset(assetId: string, userId: string, rating: number): Promise<MediaAsset | undefined>;
+  getMediaAssetsByWorkspace(scope: WorkspaceScope, options?: MediaAssetListOptions): Promise<MediaAsset[]>;
+  softDeleteMediaAsset(assetId: string, scope: WorkspaceScope): Promise<MediaAsset | undefined>;
+  rateMediaAsset(assetId: string, scope: WorkspaceScope, rating: number): Promise<MediaAsset | undefined>;
 
   // Stripe Settings (White-label)
   getStripeSettings(): Promise<StripeSettings | undefined>;
@@ -90,17 +146,17 @@ export interface IStorage {
   // Content Engine - Channel Configs (Jan 2026)
   createChannelConfig(config: InsertChannelConfig): Promise<ChannelConfig>;
   getChannelConfig(id: string): Promise<ChannelConfig | undefined>;
-  getChannelConfigsByUser(userId: string): Promise<ChannelConfig[]>;
+  getChannelConfigsByWorkspace(scope: WorkspaceScope): Promise<ChannelConfig[]>;
   updateChannelConfig(id: string, updates: Partial<Omit<ChannelConfig, 'id' | 'createdAt'>>): Promise<ChannelConfig | undefined>;
-  deleteChannelConfig(id: string, userId: string): Promise<boolean>;
+  deleteChannelConfig(id: string, scope: WorkspaceScope): Promise<boolean>;
 
   // Content Engine - Scene Specs (Jan 2026)
-  createSceneSpec(spec: InsertSceneSpec): Promise<SceneSpec>;
+  createSceneSpec(spec: InsertSceneSpec & { id?: string }): Promise<SceneSpec>;
   getSceneSpec(id: string): Promise<SceneSpec | undefined>;
-  getSceneSpecsByUser(userId: string): Promise<SceneSpec[]>;
+  getSceneSpecsByWorkspace(scope: WorkspaceScope): Promise<SceneSpec[]>;
   getSceneSpecsByChannelConfig(channelConfigId: string): Promise<SceneSpec[]>;
   updateSceneSpec(id: string, updates: Partial<Omit<SceneSpec, 'id' | 'createdAt'>>): Promise<SceneSpec | undefined>;
-  deleteSceneSpec(id: string, userId: string): Promise<boolean>;
+  deleteSceneSpec(id: string, scope: WorkspaceScope): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -286,6 +342,112 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(socialPosts.createdAt));
   }
 
+  // Social Post Groups (Feb 2026) - multi-platform posts
+  async createSocialPostGroup(group: typeof socialPostGroups.$inferInsert): Promise<SocialPostGroup> {
+    const [created] = await db.insert(socialPostGroups).values(group).returning();
+    return created;
+  }
+
+  async updateSocialPostGroup(
+    id: number,
+    updates: Partial<Omit<SocialPostGroup, 'id' | 'createdAt'>>
+  ): Promise<SocialPostGroup | undefined> {
+    const [updated] = await db
+      .update(socialPostGroups)
+      .set(updates)
+      .where(eq(socialPostGroups.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getSocialPostGroup(id: number): Promise<SocialPostGroup | undefined> {
+    const [group] = await db.select().from(socialPostGroups).where(eq(socialPostGroups.id, id));
+    return group || undefined;
+  }
+
+  async getSocialPostsByGroups(groupIds: number[]): Promise<SocialPost[]> {
+    if (groupIds.length === 0) return [];
+    return db
+      .select()
+      .from(socialPosts)
+      .where(inArray(socialPosts.groupId, groupIds))
+      .orderBy(socialPosts.id);
+  }
+
+  async getSocialPostsByWorkspace(
+    scope: WorkspaceScope,
+    options?: SocialPostListOptions
+  ): Promise<SocialPost[]> {
+    const conditions = [inWorkspace(socialPosts, scope)];
+    if (options?.status) {
+      conditions.push(eq(socialPosts.status, options.status));
+    }
+
+    const postDate = sql`coalesce(${socialPosts.scheduledFor}, ${socialPosts.createdAt})`;
+    if (options?.from) {
+      conditions.push(sql`${postDate} >= ${options.from.toISOString()}`);
+    }
+    if (options?.to) {
+      conditions.push(sql`${postDate} < ${options.to.toISOString()}`);
+    }
+
+    const query = db
+      .select()
+      .from(socialPosts)
+      .where(and(...conditions))
+      .orderBy(desc(socialPosts.scheduledFor), desc(socialPosts.createdAt));
+
+    return options?.limit ? query.limit(options.limit) : query;
+  }
+
+  async getScheduledPostsForAccount(scope: WorkspaceScope, accountId: string, after: Date): Promise<SocialPost[]> {
+    return db
+      .select()
+      .from(socialPosts)
+      .where(and(
+        inWorkspace(socialPosts, scope),
+        eq(socialPosts.status, 'scheduled'),
+        sql`${socialPosts.lateTarget}->>'accountId' = ${accountId}`,
+        sql`${socialPosts.scheduledFor} > ${after.toISOString()}`
+      ))
+      .orderBy(socialPosts.scheduledFor);
+  }
+
+  // Posting Slots
+  async getPostingSlots(scope: WorkspaceScope, accountId?: string): Promise<PostingSlot[]> {
+    const conditions = [inWorkspace(postingSlots, scope)];
+    if (accountId) {
+      conditions.push(eq(postingSlots.accountId, accountId));
+    }
+    return db
+      .select()
+      .from(postingSlots)
+      .where(and(...conditions))
+      .orderBy(postingSlots.accountId, postingSlots.dayOfWeek, postingSlots.time);
+  }
+
+  async replacePostingSlots(
+    scope: WorkspaceScope,
+    account: { accountId: string; platform: string; timezone: string },
+    slots: Array<{ dayOfWeek: number; time: string }>
+  ): Promise<PostingSlot[]> {
+    await db
+      .delete(postingSlots)
+      .where(and(inWorkspace(postingSlots, scope), eq(postingSlots.accountId, account.accountId)));
+
+    if (slots.length === 0) return [];
+
+    return db
+      .insert(postingSlots)
+      .values(slots.map(slot => ({
+        userId: scope.userId,
+        workspaceId: scope.workspaceId,
+        ...account,
+        ...slot,
+      })))
+      .returning();
+  }
+
   // Media Assets (Phase 4)
   async createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset> {
     const [created] = await db.insert(mediaAssets).values(asset).returning();
@@ -297,6 +459,11 @@ export class DatabaseStorage implements IStorage {
     return asset || undefined;
   }
 
+  async getMediaAssetsByIds(ids: string[]): Promise<MediaAsset[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(mediaAssets).where(inArray(mediaAssets.id, ids));
+  }
+
   async updateMediaAsset(id: string, updates: Partial<Omit<MediaAsset, 'id' | 'createdAt'>>): Promise<MediaAsset | undefined> {
     const [updated] = await db
       .update(mediaAssets)
@@ -306,14 +473,14 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async getMediaAssetsByUser(
-    userId: string,
-    options?: { excludeContentEngine?: boolean; contentEngineOnly?: boolean }
+  async getMediaAssetsByWorkspace(
+    scope: WorkspaceScope,
+    options?: MediaAssetListOptions
   ): Promise<MediaAsset[]> {
     // Filter out soft-deleted assets (deletedAt IS NULL)
     // Optionally filter by Content Engine status via sceneSpecId
     const conditions = [
-      eq(mediaAssets.userId, userId),
+      inWorkspace(mediaAssets, scope),
       isNull(mediaAssets.deletedAt),
     ];
 
@@ -323,35 +490,30 @@ export class DatabaseStorage implements IStorage {
       conditions.push(isNull(mediaAssets.sceneSpecId));
     } else if (options?.contentEngineOnly) {
       // Content Engine only - include only assets with sceneSpecId
-      // Note: We need to check for NOT NULL, which drizzle handles differently
-      // Using sql template for this case
+      conditions.push(isNotNull(mediaAssets.sceneSpecId));
     }
 
-    let query = db
+    if (options?.type) {
+      conditions.push(eq(mediaAssets.type, options.type));
+    }
+    if (options?.status) {
+      conditions.push(eq(mediaAssets.status, options.status));
+    }
+
+    const query = db
       .select()
       .from(mediaAssets)
       .where(and(...conditions))
       .orderBy(desc(mediaAssets.createdAt));
 
-    // For contentEngineOnly, we need a different approach since drizzle doesn't have isNotNull
-    if (options?.contentEngineOnly) {
-      const { sql } = await import('drizzle-orm');
-      return db
-        .select()
-        .from(mediaAssets)
-        .where(and(
-          eq(mediaAssets.userId, userId),
-          isNull(mediaAssets.deletedAt),
-          sql`${mediaAssets.sceneSpecId} IS NOT NULL`
-        ))
-        .orderBy(desc(mediaAssets.createdAt));
-    }
-
-    return query;
+    // Paged listing (public API) - the app lists everything
+    return options?.limit !== undefined
+      ? query.limit(options.limit).offset(options.offset ?? 0)
+      : query;
   }
 
   // Soft delete a media asset (Dec 2025)
-  async softDeleteMediaAsset(assetId: string, userId: string): Promise<MediaAsset | undefined> {
+  async softDeleteMediaAsset(assetId: string, scope: WorkspaceScope): Promise<MediaAsset | undefined> {
     const [updated] = await db
       .update(mediaAssets)
       .set({
@@ -360,14 +522,14 @@ export class DatabaseStorage implements IStorage {
       })
       .where(and(
         eq(mediaAssets.id, assetId),
-        eq(mediaAssets.userId, userId)
+        inWorkspace(mediaAssets, scope)
       ))
       .returning();
     return updated;
   }
 
   // Rate a media asset 1-5 stars (Dec 2025)
-  async rateMediaAsset(assetId: string, userId: string, rating: number): Promise<MediaAsset | undefined> {
+  async rateMediaAsset(assetId: string, scope: WorkspaceScope, rating: number): Promise<MediaAsset | undefined> {
     const [updated] = await db
       .update(mediaAssets)
       .set({
@@ -376,7 +538,7 @@ export class DatabaseStorage implements IStorage {
       })
       .where(and(
         eq(mediaAssets.id, assetId),
-        eq(mediaAssets.userId, userId)
+        inWorkspace(mediaAssets, scope)
       ))
       .returning();
     return updated;
@@ -460,11 +622,11 @@ export class DatabaseStorage implements IStorage {
     return config || undefined;
   }
 
-  async getChannelConfigsByUser(userId: string): Promise<ChannelConfig[]> {
+  async getChannelConfigsByWorkspace(scope: WorkspaceScope): Promise<ChannelConfig[]> {
     return db
       .select()
       .from(channelConfigs)
-      .where(eq(channelConfigs.userId, userId))
+      .where(inWorkspace(channelConfigs, scope))
       .orderBy(desc(channelConfigs.createdAt));
   }
 
@@ -480,16 +642,16 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async deleteChannelConfig(id: string, userId: string): Promise<boolean> {
+  async deleteChannelConfig(id: string, scope: WorkspaceScope): Promise<boolean> {
     const result = await db
       .delete(channelConfigs)
-      .where(and(eq(channelConfigs.id, id), eq(channelConfigs.userId, userId)))
+      .where(and(eq(channelConfigs.id, id), inWorkspace(channelConfigs, scope)))
       .returning();
     return result.length > 0;
   }
 
   // Scene Specs
-  async createSceneSpec(spec: InsertSceneSpec): Promise<SceneSpec> {
+  async createSceneSpec(spec: InsertSceneSpec & { id?: string }): Promise<SceneSpec> {
     const [created] = await db.insert(sceneSpecs).values(spec).returning();
     return created;
   }
@@ -499,11 +661,11 @@ export class DatabaseStorage implements IStorage {
     return spec || undefined;
   }
 
-  async getSceneSpecsByUser(userId: string): Promise<SceneSpec[]> {
+  async getSceneSpecsByWorkspace(scope: WorkspaceScope): Promise<SceneSpec[]> {
     return db
       .select()
       .from(sceneSpecs)
-      .where(eq(sceneSpecs.userId, userId))
+      .where(inWorkspace(sceneSpecs, scope))
       .orderBy(desc(sceneSpecs.createdAt));
   }
 
@@ -527,10 +689,10 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async deleteSceneSpec(id: string, userId: string): Promise<boolean> {
+  async deleteSceneSpec(id: string, scope: WorkspaceScope): Promise<boolean> {
     const result = await db
       .delete(sceneSpecs)
-      .where(and(eq(sceneSpecs.id, id), eq(sceneSpecs.userId, userId)))
+      .where(and(eq(sceneSpecs.id, id), inWorkspace(sceneSpecs, scope)))
       .returning();
     return result.length > 0;
   }
@@ -0,0 +1,16 @@
+/**
+ * API Key Validation Schemas
+ *
+ * Zod schemas for the API keys settings (/api/api-keys)
+ */
+
+import { z } from "zod";
+import { API_KEY_SCOPES, DEFAULT_API_KEY_RATE_LIMIT, MAX_API_KEY_RATE_LIMIT } from "@shared/apiKeys";
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Key name is required").max(80, "Key name cannot exceed 80 characters"),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Choose at least one scope"),
+  rateLimitPerMinute: z.number().int().min(1).max(MAX_API_KEY_RATE_LIMIT).default(DEFAULT_API_KEY_RATE_LIMIT),
+});
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeySchema>;
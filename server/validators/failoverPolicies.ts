@@ -0,0 +1,77 @@
+/**
+ * Failover Policy Validation Schemas
+ *
+ * Zod schema for the admin failover policy editor (PUT /api/admin/failover-policies/:mode)
+ */
+
+import { z } from "zod";
+import { MEDIA_PROVIDER_IDS } from "@shared/mediaProviders";
+import {
+  FAILOVER_VIDEO_PROVIDERS,
+  UGC_MODE_PRIMARY_PROVIDER,
+  type UgcGenerationMode,
+} from "@shared/failoverPolicies";
+
+// Video models each failover provider can run
+const PROVIDER_MODELS: Record<string, string[]> = {
+  "kie-veo3": ["veo3", "veo3_fast"],
+  "kie-sora2": ["sora2"],
+};
+
+const failoverStepSchema = z.object({
+  provider: z.enum(MEDIA_PROVIDER_IDS),
+  model: z.enum(["veo3", "veo3_fast", "sora2"]).optional(),
+  label: z.string().trim().min(1, "Step label is required").max(40, "Step label cannot exceed 40 characters"),
+  credits: z.number().int().min(0, "Credits cannot be negative"),
+});
+
+/**
+ * Schema for a mode's failover policy (mode comes from the URL)
+ */
+export function failoverPolicySchema(mode: UgcGenerationMode) {
+  return z
+    .object({
+      enabled: z.boolean(),
+      chain: z
+        .array(failoverStepSchema)
+        .min(1, "Chain needs at least the mode's own provider")
+        .max(5, "Chain cannot have more than 5 steps"),
+      triggers: z.object({
+        providerError: z.boolean(),
+        errorCodes: z.array(z.string().trim().min(1).max(20)).max(20),
+        timeout: z.boolean(),
+        readyWithoutUrl: z.boolean(),
+      }),
+      maxTotalAttempts: z.number().int().min(1).max(5),
+      creditAdjustment: z.enum(["refund_difference", "none"]),
+    })
+    .superRefine((policy, ctx) => {
+      const [primary, ...fallbacks] = policy.chain;
+
+      if (primary.provider !== UGC_MODE_PRIMARY_PROVIDER[mode]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["chain", 0, "provider"],
+          message: `The first step of ${mode} must be ${UGC_MODE_PRIMARY_PROVIDER[mode]}`,
+        });
+      }
+
+      fallbacks.forEach((step, i) => {
+        if (!FAILOVER_VIDEO_PROVIDERS.includes(step.provider)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["chain", i + 1, "provider"],
+            message: `Can only fail over to ${FAILOVER_VIDEO_PROVIDERS.join(", ")}`,
+          });
+        } else if (step.model && !PROVIDER_MODELS[step.provider].includes(step.model)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["chain", i + 1, "model"],
+            message: `${step.provider} supports models ${PROVIDER_MODELS[step.provider].join(", ")}`,
+          });
+        }
+      });
+    });
+}
+
+export type FailoverPolicyInput = z.infer<ReturnType<typeof failoverPolicySchema>>;
@@ -5,6 +5,7 @@
  */
 
 import { z } from "zod";
+import { MEDIA_PROVIDER_IDS, getProviderRequestError } from "@shared/mediaProviders";
 
 /**
  * Schema for AI media generation request
@@ -16,9 +17,9 @@ export const generateMediaSchema = z.object({
     .max(1000, "Prompt cannot exceed 1000 characters"),
 
   provider: z
-    .enum(["kie-veo3", "kie-4o-image", "kie-flux-kontext", "gemini-flash"], {
+    .enum(MEDIA_PROVIDER_IDS, {
       errorMap: () => ({
-        message: "Invalid provider. Must be: kie-veo3, kie-4o-image, kie-flux-kontext, or gemini-flash",
+        message: `Invalid provider. Must be one of: ${MEDIA_PROVIDER_IDS.join(", ")}`,
       }),
     }),
 
@@ -36,13 +37,14 @@ export const generateMediaSchema = z.object({
 
   options: z
     .object({
-      // Video options (KIE Veo3)
-      aspectRatio: z.enum(["16:9", "9:16", "1:1"]).optional(),
+      // Aspect ratio / duration ranges depend on the provider (checked below)
+      aspectRatio: z.string().optional(),
+      duration: z.number().int().positive().optional(),
       resolution: z.enum(["720p", "1080p"]).optional(),
 
       // Image options (KIE 4O / Flux)
       size: z.enum(["1:1", "3:2", "2:3"]).optional(),
-      nVariants: z.enum([1, 2, 4]).optional(),
+      nVariants: z.union([z.literal(1), z.literal(2), z.literal(4)]).optional(),
       style: z.string().max(200).optional(),
     })
     .optional(),
@@ -51,38 +53,9 @@ export const generateMediaSchema = z.object({
 export type GenerateMediaInput = z.infer<typeof generateMediaSchema>;
 
 /**
- * Provider-specific limits and capabilities
+ * Check a validated request against the provider's capability descriptor
+ * Returns the reason the provider can't serve it, or null
  */
-export const PROVIDER_CAPABILITIES = {
-  "kie-veo3": {
-    supportedTypes: ['video'],
-    maxPromptLength: 1000,
-    maxDuration: 20, // seconds (text-to-video supports up to 20s; image-to-video auto-capped at 8s in kie.ts)
-    supportedAspectRatios: ['16:9', '9:16', '1:1'],
-  },
-  "kie-4o-image": {
-    supportedTypes: ['image'],
-    maxPromptLength: 1000,
-    supportedSizes: ['1:1', '3:2', '2:3'],
-    maxVariants: 4,
-  },
-  "kie-flux-kontext": {
-    supportedTypes: ['image'],
-    maxPromptLength: 1000,
-    supportedAspectRatios: ['21:9', '16:9', '4:3', '1:1', '3:4', '9:16', '16:21'],
-  },
-  "gemini-flash": {
-    supportedTypes: ['image'],
-    maxPromptLength: 1000,
-    supportedAspectRatios: ['1:1', '16:9', '9:16'],
-  },
-} as const;
-
-/**
- * Validate provider/type combination
- */
-export function validateProviderType(provider: string, type: string): boolean {
-  const capabilities = PROVIDER_CAPABILITIES[provider as keyof typeof PROVIDER_CAPABILITIES];
-  if (!capabilities) return false;
-  return capabilities.supportedTypes.includes(type as any);
+export function validateProviderRequest(input: GenerateMediaInput): string | null {
+  return getProviderRequestError(input.provider, input);
 }
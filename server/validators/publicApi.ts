@@ -0,0 +1,88 @@
+/**
+ * Public API (v1) Validation Schemas
+ *
+ * Query parameters and response shapes of /api/v1. Request bodies reuse the
+ * app's own validators (ugc.ts, social.ts); all of them feed the OpenAPI
+ * document (server/api/openapi.ts), so the docs can't drift from what the API
+ * accepts and returns.
+ */
+
+import { z } from "zod";
+import { VIDEO_ASPECT_RATIOS } from "@shared/videoFormats";
+
+/**
+ * Query for GET /api/v1/media
+ */
+export const listMediaQuerySchema = z.object({
+  type: z.enum(["image", "video"]).optional().describe("Only images or only videos"),
+  status: z.enum(["processing", "ready", "error"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ListMediaQuery = z.infer<typeof listMediaQuerySchema>;
+
+// ==================== RESPONSES ====================
+
+export const mediaAssetResponseSchema = z.object({
+  id: z.string(),
+  type: z.enum(["image", "video"]),
+  provider: z.string(),
+  status: z.enum(["processing", "ready", "error"]),
+  prompt: z.string(),
+  resultUrl: z.string().url().nullable().describe("The finished image or video (first aspect ratio for multi-ratio renders)"),
+  posterUrl: z.string().url().nullable(),
+  variants: z.array(z.object({
+    aspectRatio: z.enum(VIDEO_ASPECT_RATIOS),
+    url: z.string().url(),
+    width: z.number().int(),
+    height: z.number().int(),
+  })).describe("One MP4 per rendered aspect ratio"),
+  errorMessage: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+});
+
+export const mediaListResponseSchema = z.object({
+  data: z.array(mediaAssetResponseSchema),
+  limit: z.number().int(),
+  offset: z.number().int(),
+  hasMore: z.boolean(),
+});
+
+export const generationResponseSchema = z.object({
+  id: z.string().describe("Media asset ID - poll GET /media/{id} until status is ready or error"),
+  status: z.literal("processing"),
+});
+
+export const socialPostResponseSchema = z.object({
+  id: z.number().int(),
+  platform: z.string(),
+  status: z.enum(["posting", "scheduled", "published", "failed", "cancelled"]),
+  caption: z.string().nullable(),
+  scheduledFor: z.string().datetime().nullable(),
+  platformPostUrl: z.string().url().nullable(),
+  groupId: z.number().int().nullable().describe("Parent multi-platform post, when posted with targets"),
+  createdAt: z.string().datetime(),
+});
+
+export const socialPostGroupResponseSchema = z.object({
+  id: z.number().int(),
+  status: z.enum(["posting", "scheduled", "published", "failed", "cancelled"]).describe("published only once every platform has"),
+  caption: z.string().nullable().describe("Default caption - targets may override it"),
+  posts: z.array(socialPostResponseSchema).describe("One post per target platform"),
+  createdAt: z.string().datetime(),
+});
+
+export const creditBalanceResponseSchema = z.object({
+  balance: z.number().int().describe("Spendable credits (held credits excluded)"),
+  reserved: z.number().int().describe("Credits held by generations still in progress"),
+  planCredits: z.number().int().describe("Part of the balance from a monthly plan (expires)"),
+  topUpCredits: z.number().int().describe("Part of the balance from purchases (never expires)"),
+});
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  message: z.string().optional(),
+  details: z.unknown().optional(),
+});
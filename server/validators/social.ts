@@ -5,6 +5,50 @@
  */
 
 import { z } from "zod";
+import { MAX_SLOTS_PER_ACCOUNT, SLOT_TIME_PATTERN } from "@shared/postingSlots";
+import { ianaTimeZoneSchema } from "./timezones";
+
+export const SOCIAL_PLATFORMS = ["instagram", "facebook", "linkedin", "tiktok", "youtube", "googlebusiness"] as const;
+
+export type SocialPlatform = typeof SOCIAL_PLATFORMS[number];
+
+export const MAX_POST_TARGETS = 10;
+
+const socialPlatformSchema = z.enum(SOCIAL_PLATFORMS, {
+  errorMap: () => ({
+    message: "Unsupported platform. Supported: instagram, facebook, linkedin, tiktok, youtube, googlebusiness",
+  }),
+});
+
+/**
+ * One account of a multi-platform post (Feb 2026). Unset fields fall back to
+ * the post's own caption and scheduledFor, and to the platform's default
+ * content type. Caption length and content type are checked against
+ * PLATFORM_LIMITS.
+ */
+export const postTargetSchema = z.object({
+  platform: socialPlatformSchema,
+
+  accountId: z
+    .string()
+    .min(1, "Account ID cannot be empty")
+    .optional()
+    .describe("Connected account to post as (default: the first active account on the platform)"),
+
+  caption: z.string().optional(),
+
+  contentType: z
+    .string()
+    .optional()
+    .describe("e.g. reel, story, short - defaults to the platform's video type"),
+
+  scheduledFor: z
+    .string()
+    .datetime({ message: "scheduledFor must be a valid ISO 8601 UTC timestamp" })
+    .optional(),
+});
+
+export type PostTargetInput = z.infer<typeof postTargetSchema>;
 
 /**
  * Schema for posting a clip to social media
@@ -12,10 +56,16 @@ import { z } from "zod";
  * Validates:
  * - projectId: Must be a non-empty string (for Klap videos)
  * - videoUrl: Direct video URL (for UGC videos from AI Studio)
- * - mediaAssetId: Media asset ID (for UGC videos) - Phase 4.7
- * - platform: Currently only 'instagram' supported
- * - caption: Optional, max 2200 characters (Instagram limit)
+ * - mediaAssetId: Media asset ID (for UGC videos) - Phase 4.7; selects the
+ *   platform's aspect ratio variant when the asset was rendered in several
+ * - platform: Single platform to post to (or use targets)
+ * - targets: Several connected accounts to post to as one Late.dev post, each
+ *   optionally overriding caption, content type and schedule time (Feb 2026)
+ * - caption: Optional, max 2200 characters (Instagram limit); the default for
+ *   targets without their own
  * - scheduledFor: Optional ISO 8601 UTC timestamp for scheduled posts (Phase 3)
+ * - queue: Schedule each account's post in its next free posting slot instead
+ *   of at a set time (Feb 2026)
  */
 export const postToSocialSchema = z.object({
   projectId: z
@@ -33,12 +83,14 @@ export const postToSocialSchema = z.object({
     .min(1, "Media asset ID cannot be empty")
     .optional(),
 
-  platform: z
-    .enum(["instagram", "facebook", "linkedin", "tiktok", "youtube", "googlebusiness"], {
-      errorMap: () => ({
-        message: "Unsupported platform. Supported: instagram, facebook, linkedin, tiktok, youtube, googlebusiness",
-      }),
-    }),
+  platform: socialPlatformSchema.optional(),
+
+  targets: z
+    .array(postTargetSchema)
+    .min(1, "At least one target is required")
+    .max(MAX_POST_TARGETS, `At most ${MAX_POST_TARGETS} targets per post`)
+    .optional()
+    .describe("Post to several connected accounts at once instead of a single platform"),
 
   caption: z
     .string()
@@ -51,9 +103,74 @@ export const postToSocialSchema = z.object({
     .string()
     .datetime({ message: "scheduledFor must be a valid ISO 8601 UTC timestamp" })
     .optional(),
+
+  queue: z
+    .boolean()
+    .optional()
+    .describe("Add to each account's queue - its next free posting slot"),
 }).refine((data) => data.projectId || data.videoUrl, {
   message: "Either projectId (for Klap videos) or videoUrl (for UGC videos) must be provided",
   path: ["projectId"],
+}).superRefine((data, ctx) => {
+  if (!data.platform === !data.targets) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Provide either platform or targets",
+      path: ["platform"],
+    });
+    return;
+  }
+
+  if (data.queue && (data.scheduledFor || data.targets?.some(t => t.scheduledFor))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "A queued post can't also have scheduledFor",
+      path: ["queue"],
+    });
+  }
+
+  if (!data.targets) return;
+
+  const seen = new Set<string>();
+  data.targets.forEach((target, index) => {
+    const limits = PLATFORM_LIMITS[target.platform];
+
+    const key = target.accountId ?? target.platform;
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${target.accountId ? `Account ${target.accountId}` : target.platform} is targeted more than once`,
+        path: ["targets", index],
+      });
+    }
+    seen.add(key);
+
+    if (target.contentType && !(limits.supportedContentTypes as readonly string[]).includes(target.contentType)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${target.platform} supports content types: ${limits.supportedContentTypes.join(", ")}`,
+        path: ["targets", index, "contentType"],
+      });
+    }
+
+    if (target.caption && target.caption.length > limits.maxCaptionLength) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${target.platform} caption limit is ${limits.maxCaptionLength} characters`,
+        path: ["targets", index, "caption"],
+      });
+    }
+  });
+
+  // One Late.dev post either publishes now or is scheduled - no mixing
+  const scheduledCount = data.targets.filter(t => t.scheduledFor ?? data.scheduledFor).length;
+  if (scheduledCount > 0 && scheduledCount < data.targets.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Either schedule every target or none of them",
+      path: ["targets"],
+    });
+  }
 });
 
 /**
@@ -61,6 +178,82 @@ export const postToSocialSchema = z.object({
  */
 export type PostToSocialInput = z.infer<typeof postToSocialSchema>;
 
+/**
+ * Schema for changing a scheduled post (Feb 2026)
+ *
+ * Every field is optional but at least one is required:
+ * - scheduledFor: New ISO 8601 UTC time
+ * - caption: New caption (replaces per-platform captions too)
+ * - videoUrl / mediaAssetId: New video - a media asset alone posts its
+ *   result, with each platform's aspect ratio variant
+ */
+export const updateScheduledPostSchema = z.object({
+  scheduledFor: z
+    .string()
+    .datetime({ message: "scheduledFor must be a valid ISO 8601 UTC timestamp" })
+    .optional(),
+
+  caption: z
+    .string()
+    .max(2200, "Instagram caption limit is 2200 characters")
+    .optional(),
+
+  videoUrl: z
+    .string()
+    .url("Video URL must be a valid HTTPS URL")
+    .optional(),
+
+  mediaAssetId: z
+    .string()
+    .min(1, "Media asset ID cannot be empty")
+    .optional(),
+}).refine((data) => Object.values(data).some(value => value !== undefined), {
+  message: "Provide scheduledFor, caption, videoUrl or mediaAssetId to change",
+});
+
+export type UpdateScheduledPostInput = z.infer<typeof updateScheduledPostSchema>;
+
+export const MAX_CALENDAR_RANGE_DAYS = 62;
+
+/**
+ * Query for the content calendar (Feb 2026) - posts and Autopilot runs in
+ * [from, to). Capped so a month view with its leading/trailing weeks fits.
+ */
+export const calendarQuerySchema = z.object({
+  from: z.string().datetime({ message: "from must be a valid ISO 8601 UTC timestamp" }),
+  to: z.string().datetime({ message: "to must be a valid ISO 8601 UTC timestamp" }),
+}).refine((data) => new Date(data.to) > new Date(data.from), {
+  message: "to must be after from",
+  path: ["to"],
+}).refine(
+  (data) => new Date(data.to).getTime() - new Date(data.from).getTime() <= MAX_CALENDAR_RANGE_DAYS * 24 * 60 * 60 * 1000,
+  { message: `Calendar range cannot exceed ${MAX_CALENDAR_RANGE_DAYS} days`, path: ["to"] }
+);
+
+export type CalendarQuery = z.infer<typeof calendarQuerySchema>;
+
+/**
+ * Schema for an account's recurring posting slots (Feb 2026) - replaces the
+ * account's whole week. Times are wall clock in `timezone`.
+ */
+export const postingSlotsSchema = z.object({
+  platform: socialPlatformSchema,
+
+  timezone: ianaTimeZoneSchema,
+
+  slots: z
+    .array(z.object({
+      dayOfWeek: z.number().int().min(0).max(6),
+      time: z.string().regex(SLOT_TIME_PATTERN, "time must be HH:mm (24-hour)"),
+    }))
+    .max(MAX_SLOTS_PER_ACCOUNT, `At most ${MAX_SLOTS_PER_ACCOUNT} slots per account`),
+}).refine(
+  (data) => new Set(data.slots.map(slot => `${slot.dayOfWeek}-${slot.time}`)).size === data.slots.length,
+  { message: "Each slot can only be listed once", path: ["slots"] }
+);
+
+export type PostingSlotsInput = z.infer<typeof postingSlotsSchema>;
+
 /**
  * Validate posting input and return typed data or error
  *
@@ -0,0 +1,21 @@
+/**
+ * Timezone Validation Schemas (Feb 2026)
+ *
+ * Zod schemas for the user and workspace timezone settings
+ */
+
+import { z } from "zod";
+import { isValidTimeZone } from "@shared/timezones";
+
+export const ianaTimeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: "timezone must be an IANA timezone, e.g. Europe/London" });
+
+/**
+ * null clears it - the user falls back to the workspace's, the workspace to UTC
+ */
+export const updateTimezoneSchema = z.object({
+  timezone: ianaTimeZoneSchema.nullable(),
+});
+
+export type UpdateTimezoneInput = z.infer<typeof updateTimezoneSchema>;
@@ -0,0 +1,30 @@
+/**
+ * UGC Video Validation Schemas
+ *
+ * Zod schemas for product UGC video generation (POST /api/ugc/generate,
+ * POST /api/ugc/generate/batch and the public POST /api/v1/ugc/generations)
+ */
+
+import { z } from "zod";
+import { VIDEO_ASPECT_RATIOS } from "@shared/videoFormats";
+
+/**
+ * Schema for a single UGC video generation
+ */
+export const generateUGCVideoSchema = z.object({
+  productName: z.string().min(1).max(100),
+  productFeatures: z.string().min(10).max(2000),
+  productImages: z.array(z.string().url()).min(2, "Minimum 2 product images required").max(4, "Maximum 4 product images allowed"),
+  hookText: z.string().max(100).optional(),
+  ctaText: z.string().max(50).optional(),
+  includeAvatar: z.boolean().optional().default(false),
+  avatarPrompt: z.string().max(500).optional(),
+  logoUrl: z.string().url().optional(),
+  aspectRatios: z.array(z.enum(VIDEO_ASPECT_RATIOS)).min(1).max(VIDEO_ASPECT_RATIOS.length).optional(),
+});
+
+export const generateUGCBatchSchema = z.object({
+  videos: z.array(generateUGCVideoSchema).min(1).max(10, "Maximum 10 videos per batch"),
+});
+
+export type GenerateUGCVideoInput = z.infer<typeof generateUGCVideoSchema>;
@@ -0,0 +1,35 @@
+/**
+ * Webhook Validation Schemas
+ *
+ * Zod schemas for the webhooks settings (/api/webhooks)
+ */
+
+import { z } from "zod";
+import { WEBHOOK_EVENTS } from "@shared/webhooks";
+import { isPublicHttpsUrl } from "../services/publicHttp";
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url("A valid URL is required")
+  .max(2048, "URL cannot exceed 2048 characters")
+  // Deliveries leave from our servers - the resolved address is checked again on every delivery
+  .refine(isPublicHttpsUrl, "Webhook URLs must use https and a public host");
+
+const webhookEventsSchema = z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Choose at least one event");
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(200, "Description cannot exceed 200 characters").optional(),
+  events: webhookEventsSchema,
+});
+
+export const updateWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(200, "Description cannot exceed 200 characters").nullable().optional(),
+  events: webhookEventsSchema.optional(),
+  enabled: z.boolean().optional(),
+});
+
+export type CreateWebhookEndpointInput = z.infer<typeof createWebhookEndpointSchema>;
+export type UpdateWebhookEndpointInput = z.infer<typeof updateWebhookEndpointSchema>;
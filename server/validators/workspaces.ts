@@ -0,0 +1,29 @@
+/**
+ * Workspace Validation Schemas
+ *
+ * Zod schemas for the workspace members settings (/api/workspaces/*)
+ */
+
+import { z } from "zod";
+import { INVITABLE_ROLES } from "@shared/workspaces";
+
+export const renameWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, "Workspace name is required").max(80, "Workspace name cannot exceed 80 characters"),
+});
+
+export const inviteMemberSchema = z.object({
+  email: z.string().trim().email("A valid email is required"),
+  role: z.enum(INVITABLE_ROLES),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(INVITABLE_ROLES),
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, "Invitation token is required"),
+});
+
+export type RenameWorkspaceInput = z.infer<typeof renameWorkspaceSchema>;
+export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
+export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>;
@@ -0,0 +1,36 @@
+/**
+ * API Key Scopes (Feb 2026)
+ *
+ * Personal API keys call the public /api/v1 API as their creator, in the
+ * workspace they were created in. Each key is limited to the scopes chosen
+ * when it was created; write scopes also need the editor role in that workspace.
+ *
+ * Shared by the server (key auth, OpenAPI document) and the client (API keys settings).
+ */
+
+// ==================== TYPES ====================
+
+export const API_KEY_SCOPES = ['media:read', 'media:write', 'posts:write', 'credits:read'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'media:read': 'List media and check generation status',
+  'media:write': 'Start UGC video generations',
+  'posts:write': 'Publish and schedule social posts',
+  'credits:read': 'Read the workspace credit balance',
+};
+
+/**
+ * Every secret starts with this, so leaked keys are easy to spot (and to grep for)
+ */
+export const API_KEY_PREFIX = 'xpk_';
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;   // requests per minute
+export const MAX_API_KEY_RATE_LIMIT = 600;
+
+// ==================== HELPERS ====================
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,80 @@
+/**
+ * Asset Progress (Feb 2026)
+ *
+ * Live generation progress for media assets, streamed to the browser over
+ * Server-Sent Events (GET /api/ai/media/progress/stream). Shared by the
+ * server (progress hub, SSE route) and the client (useAssetProgress).
+ */
+
+// ==================== STAGES ====================
+
+/**
+ * Pipeline stages in order:
+ * - script / tts: UGC and Autopilot preparation (script generation, ElevenLabs)
+ * - generating: KIE / Gemini generations (no percentage available)
+ * - queued → bundling → rendering → uploading → thumbnails: render worker
+ */
+export const ASSET_PROGRESS_STAGES = [
+  'script',
+  'tts',
+  'generating',
+  'queued',
+  'bundling',
+  'rendering',
+  'uploading',
+  'thumbnails',
+  'complete',
+  'failed',
+] as const;
+
+export type AssetProgressStage = typeof ASSET_PROGRESS_STAGES[number];
+
+export const ASSET_PROGRESS_STAGE_LABELS: Record<AssetProgressStage, string> = {
+  script: 'Writing script',
+  tts: 'Generating voiceover',
+  generating: 'Generating',
+  queued: 'Waiting for a render slot',
+  bundling: 'Bundling composition',
+  rendering: 'Rendering',
+  uploading: 'Uploading',
+  thumbnails: 'Creating thumbnails',
+  complete: 'Complete',
+  failed: 'Failed',
+};
+
+/**
+ * Share of the overall progress bar covered by each stage [start, end]
+ */
+const STAGE_PROGRESS_RANGES: Record<AssetProgressStage, [number, number]> = {
+  script: [0, 10],
+  tts: [10, 25],
+  generating: [0, 95],
+  queued: [25, 28],
+  bundling: [28, 32],
+  rendering: [32, 90],
+  uploading: [90, 96],
+  thumbnails: [96, 99],
+  complete: [100, 100],
+  failed: [0, 0],
+};
+
+// ==================== EVENTS ====================
+
+export interface AssetProgressEvent {
+  assetId: string;
+  status: 'processing' | 'ready' | 'error';
+  stage: AssetProgressStage;
+  progress: number;           // 0-100 across all stages
+  resultUrl?: string;         // set once ready
+  error?: string;             // set once failed
+  updatedAt: string;
+}
+
+/**
+ * Overall progress for a position (0-100) within a stage
+ */
+export function getOverallProgress(stage: AssetProgressStage, stageProgress = 0): number {
+  const [start, end] = STAGE_PROGRESS_RANGES[stage];
+  const clamped = Math.min(Math.max(stageProgress, 0), 100);
+  return Math.round(start + ((end - start) * clamped) / 100);
+}
@@ -0,0 +1,172 @@
+/**
+ * Provider Failover Policies (Feb 2026)
+ *
+ * Per-mode failover chains for UGC generation, e.g. Veo3 → Veo3 Fast → Sora2.
+ * When the current provider hits one of the policy's triggers, the asset moves
+ * on to the next step of the chain. Every hop is recorded on
+ * media_assets.chain_metadata.failover so users can see why their video came
+ * from a different model.
+ *
+ * Admins edit policies (failover_policies table); modes without a row use
+ * DEFAULT_FAILOVER_POLICIES. Shared by the server (server/services/failover.ts)
+ * and the client (admin editor, asset previews).
+ */
+
+import type { MediaProviderId } from './mediaProviders';
+
+// ==================== TYPES ====================
+
+export const UGC_GENERATION_MODES = ['nanobana+veo3', 'veo3-only', 'sora2'] as const;
+
+export type UgcGenerationMode = typeof UGC_GENERATION_MODES[number];
+
+export const FAILOVER_TRIGGERS = ['provider_error', 'timeout', 'ready_without_url'] as const;
+
+export type FailoverTrigger = typeof FAILOVER_TRIGGERS[number];
+
+/**
+ * KIE video model a step runs (Veo3 comes in quality and fast variants)
+ */
+export type FailoverVideoModel = 'veo3' | 'veo3_fast' | 'sora2';
+
+export interface FailoverStep {
+  provider: MediaProviderId;
+  model?: FailoverVideoModel;   // video steps only
+  label: string;
+  credits: number;              // price of a 10s generation - drives the credit adjustment
+}
+
+export interface FailoverTriggers {
+  providerError: boolean;
+  errorCodes: string[];         // only fail over on these provider error codes (empty = any)
+  timeout: boolean;
+  readyWithoutUrl: boolean;     // provider reports ready but never returns a result URL
+}
+
+export interface FailoverPolicy {
+  mode: UgcGenerationMode;
+  enabled: boolean;
+  chain: FailoverStep[];        // chain[0] is the mode's own provider
+  triggers: FailoverTriggers;
+  maxTotalAttempts: number;     // providers tried across the chain, including chain[0]
+  creditAdjustment: 'refund_difference' | 'none';
+}
+
+/**
+ * One move down the chain (chain_metadata.failover.hops)
+ */
+export interface FailoverHop {
+  fromProvider: MediaProviderId;
+  fromLabel: string;
+  toProvider: MediaProviderId;
+  toLabel: string;
+  trigger: FailoverTrigger;
+  errorCode?: string;
+  reason: string;
+  creditsRefunded: number;
+  at: string;
+}
+
+/**
+ * Failover progress of an asset (chain_metadata.failover)
+ */
+export interface FailoverState {
+  mode: UgcGenerationMode;
+  stepIndex: number;
+  attempts: number;
+  creditsRefunded: number;
+  hops: FailoverHop[];
+}
+
+// ==================== DEFAULTS ====================
+
+/**
+ * Provider each mode starts with (chain[0] of its policy)
+ * Mode A starts with the NanoBanana image; its video follows inside the chain
+ */
+export const UGC_MODE_PRIMARY_PROVIDER: Record<UgcGenerationMode, MediaProviderId> = {
+  'nanobana+veo3': 'kie-flux-kontext',
+  'veo3-only': 'kie-veo3',
+  'sora2': 'kie-sora2',
+};
+
+// Providers a chain can fail over to
+export const FAILOVER_VIDEO_PROVIDERS: MediaProviderId[] = ['kie-veo3', 'kie-sora2'];
+
+const DEFAULT_TRIGGERS: FailoverTriggers = {
+  providerError: true,
+  errorCodes: [],
+  timeout: true,
+  readyWithoutUrl: true,
+};
+
+const VEO3_STEP: FailoverStep = { provider: 'kie-veo3', model: 'veo3', label: 'Veo3', credits: 35 };
+const VEO3_FAST_STEP: FailoverStep = { provider: 'kie-veo3', model: 'veo3_fast', label: 'Veo3 Fast', credits: 25 };
+const SORA2_STEP: FailoverStep = { provider: 'kie-sora2', model: 'sora2', label: 'Sora2', credits: 18 };
+
+export const DEFAULT_FAILOVER_POLICIES: Record<UgcGenerationMode, FailoverPolicy> = {
+  'nanobana+veo3': {
+    mode: 'nanobana+veo3',
+    enabled: true,
+    chain: [
+      { provider: 'kie-flux-kontext', label: 'NanoBanana + Veo3', credits: 70 },
+      VEO3_STEP,
+    ],
+    triggers: DEFAULT_TRIGGERS,
+    maxTotalAttempts: 2,
+    creditAdjustment: 'refund_difference',
+  },
+  'veo3-only': {
+    mode: 'veo3-only',
+    enabled: true,
+    chain: [VEO3_STEP, VEO3_FAST_STEP, SORA2_STEP],
+    triggers: DEFAULT_TRIGGERS,
+    maxTotalAttempts: 3,
+    creditAdjustment: 'refund_difference',
+  },
+  'sora2': {
+    mode: 'sora2',
+    enabled: true,
+    chain: [SORA2_STEP, VEO3_STEP],
+    triggers: DEFAULT_TRIGGERS,
+    maxTotalAttempts: 2,
+    creditAdjustment: 'refund_difference',
+  },
+};
+
+// ==================== HELPERS ====================
+
+export function isUgcGenerationMode(mode: string | null | undefined): mode is UgcGenerationMode {
+  return !!mode && (UGC_GENERATION_MODES as readonly string[]).includes(mode);
+}
+
+/**
+ * Whether an event should move the asset down the chain
+ */
+export function matchesFailoverTrigger(
+  triggers: FailoverTriggers,
+  trigger: FailoverTrigger,
+  errorCode?: string
+): boolean {
+  switch (trigger) {
+    case 'provider_error':
+      if (!triggers.providerError) return false;
+      return triggers.errorCodes.length === 0 || (!!errorCode && triggers.errorCodes.includes(errorCode));
+    case 'timeout':
+      return triggers.timeout;
+    case 'ready_without_url':
+      return triggers.readyWithoutUrl;
+  }
+}
+
+/**
+ * Short user-facing explanation of a hop, e.g. "Veo3 timed out - generated with Veo3 Fast"
+ */
+export function describeFailoverHop(hop: FailoverHop): string {
+  const cause = hop.trigger === 'timeout'
+    ? 'timed out'
+    : hop.trigger === 'ready_without_url'
+      ? 'returned no result'
+      : `failed${hop.errorCode ? ` (code ${hop.errorCode})` : ''}`;
+  return `${hop.fromLabel} ${cause} - switched to ${hop.toLabel}`;
+}
@@ -0,0 +1,220 @@
+/**
+ * Media Provider Registry (Feb 2026)
+ *
+ * Capability descriptors for every AI media generator. Shared by the server
+ * (request validation, credit lookups, provider adapters in
+ * server/services/providers) and the client (AI Studio options, labels).
+ *
+ * Adding a model: add its descriptor here and its adapter in
+ * server/services/providers - both registries are keyed by MediaProviderId,
+ * so a missing adapter is a type error.
+ */
+
+// ==================== TYPES ====================
+
+export const MEDIA_PROVIDER_IDS = [
+  'kie-veo3',
+  'kie-sora2',
+  'kie-4o-image',
+  'kie-flux-kontext',
+  'gemini-flash',
+] as const;
+
+export type MediaProviderId = typeof MEDIA_PROVIDER_IDS[number];
+
+export type MediaType = 'image' | 'video';
+
+/**
+ * How a generation reports completion
+ * - sync: result returned by the generate call
+ * - poll: status endpoint checked by the job queue
+ * - callback: provider calls back, polling stays as the fallback
+ */
+export type ProviderStatusMechanism = 'sync' | 'poll' | 'callback';
+
+export interface ProviderDurationLimits {
+  min: number;                // seconds
+  max: number;
+  default: number;
+  steps?: number[];           // only these values are accepted - others snap to the nearest
+  referenceImageMax?: number; // image-to-video cap (longer requests drop the reference image)
+}
+
+export interface MediaProviderDescriptor {
+  id: MediaProviderId;
+  label: string;
+  mediaTypes: MediaType[];
+  durations?: ProviderDurationLimits;     // video providers
+  aspectRatios: string[];
+  defaultAspectRatio?: string;
+  sizes?: string[];                       // 4O Image takes `size` instead of an aspect ratio
+  maxVariants?: number;
+  referenceImage: 'none' | 'optional';
+  maxPromptLength: number;
+  costKey: string;                        // credit_pricing.feature_key
+  status: ProviderStatusMechanism;
+  aliases?: string[];                     // legacy media_assets.provider values
+}
+
+export interface MediaProviderRequest {
+  type: string;
+  referenceImageUrl?: string;
+  options?: {
+    aspectRatio?: string;
+    duration?: number;
+    size?: string;
+    nVariants?: number;
+  };
+}
+
+// ==================== REGISTRY ====================
+
+export const MEDIA_PROVIDERS: Record<MediaProviderId, MediaProviderDescriptor> = {
+  'kie-veo3': {
+    id: 'kie-veo3',
+    label: 'KIE Veo3',
+    mediaTypes: ['video'],
+    // Text-to-video supports up to 20s; image-to-video is hard-capped at ~8s by KIE
+    durations: { min: 6, max: 20, default: 10, referenceImageMax: 8 },
+    aspectRatios: ['16:9', '9:16', '1:1'],
+    defaultAspectRatio: '16:9',
+    referenceImage: 'optional',
+    maxPromptLength: 1000,
+    costKey: 'media_veo3',
+    status: 'callback',
+  },
+  'kie-sora2': {
+    id: 'kie-sora2',
+    label: 'KIE Sora2',
+    mediaTypes: ['video'],
+    // sora-2-text/image-to-video take n_frames "10" or "15" only ("25" is storyboard-only)
+    durations: { min: 6, max: 15, default: 10, steps: [10, 15] },
+    aspectRatios: ['9:16', '16:9'],
+    defaultAspectRatio: '9:16',
+    referenceImage: 'optional',
+    maxPromptLength: 1000,
+    costKey: 'media_sora2',
+    status: 'callback',
+    aliases: ['sora2'],
+  },
+  'kie-4o-image': {
+    id: 'kie-4o-image',
+    label: 'KIE 4O Image',
+    mediaTypes: ['image'],
+    aspectRatios: [],
+    sizes: ['1:1', '3:2', '2:3'],
+    maxVariants: 4,
+    referenceImage: 'optional',
+    maxPromptLength: 1000,
+    costKey: 'media_4o',
+    status: 'callback',
+  },
+  'kie-flux-kontext': {
+    id: 'kie-flux-kontext',
+    label: 'KIE Flux Kontext',
+    mediaTypes: ['image'],
+    aspectRatios: ['21:9', '16:9', '4:3', '1:1', '3:4', '9:16', '16:21'],
+    defaultAspectRatio: '16:9',
+    referenceImage: 'optional',
+    maxPromptLength: 1000,
+    costKey: 'media_flux',
+    status: 'callback',
+  },
+  'gemini-flash': {
+    id: 'gemini-flash',
+    label: 'Gemini Flash',
+    mediaTypes: ['image'],
+    aspectRatios: ['1:1', '16:9', '9:16'],
+    defaultAspectRatio: '1:1',
+    referenceImage: 'none',
+    maxPromptLength: 1000,
+    costKey: 'media_gemini',
+    status: 'sync',
+  },
+};
+
+// ==================== HELPERS ====================
+
+/**
+ * Descriptor for a provider ID or legacy alias (e.g. 'sora2')
+ */
+export function getMediaProvider(provider: string | null | undefined): MediaProviderDescriptor | undefined {
+  if (!provider) return undefined;
+  return MEDIA_PROVIDERS[provider as MediaProviderId]
+    || Object.values(MEDIA_PROVIDERS).find(p => p.aliases?.includes(provider));
+}
+
+export function getMediaProvidersForType(type: MediaType): MediaProviderDescriptor[] {
+  return Object.values(MEDIA_PROVIDERS).filter(p => p.mediaTypes.includes(type));
+}
+
+/**
+ * Longest duration a video provider accepts
+ * With a reference image, the image-to-video cap applies
+ */
+export function getMaxDuration(provider: MediaProviderDescriptor, withReferenceImage = false): number {
+  const limits = provider.durations;
+  if (!limits) return 0;
+  return withReferenceImage && limits.referenceImageMax ? limits.referenceImageMax : limits.max;
+}
+
+/**
+ * Duration the provider will actually produce for a request
+ * Clamps to the provider's range and snaps to its fixed steps
+ */
+export function resolveProviderDuration(provider: MediaProviderDescriptor, requested?: number): number | undefined {
+  const limits = provider.durations;
+  if (!limits) return undefined;
+
+  const clamped = Math.min(Math.max(requested ?? limits.default, limits.min), limits.max);
+  if (!limits.steps || limits.steps.length === 0) return clamped;
+
+  return limits.steps.reduce((closest, step) =>
+    Math.abs(step - clamped) < Math.abs(closest - clamped) ? step : closest
+  );
+}
+
+/**
+ * Why a provider can't serve a request, or null if it can
+ */
+export function getProviderRequestError(provider: string, request: MediaProviderRequest): string | null {
+  const descriptor = getMediaProvider(provider);
+  if (!descriptor) {
+    return `Unknown provider: ${provider}`;
+  }
+
+  if (!descriptor.mediaTypes.includes(request.type as MediaType)) {
+    return `Provider ${descriptor.id} does not support ${request.type} generation`;
+  }
+
+  if (request.referenceImageUrl && descriptor.referenceImage === 'none') {
+    return `Provider ${descriptor.id} does not accept a reference image`;
+  }
+
+  const { aspectRatio, duration, size, nVariants } = request.options || {};
+
+  if (aspectRatio && !descriptor.aspectRatios.includes(aspectRatio)) {
+    return descriptor.aspectRatios.length > 0
+      ? `Provider ${descriptor.id} supports aspect ratios ${descriptor.aspectRatios.join(', ')}`
+      : `Provider ${descriptor.id} takes a size instead of an aspect ratio`;
+  }
+
+  if (size && !descriptor.sizes?.includes(size)) {
+    return `Provider ${descriptor.id} does not support size ${size}`;
+  }
+
+  if (nVariants && nVariants > (descriptor.maxVariants || 1)) {
+    return `Provider ${descriptor.id} supports up to ${descriptor.maxVariants || 1} variants`;
+  }
+
+  if (duration !== undefined) {
+    if (!descriptor.durations) {
+      return `Provider ${descriptor.id} does not take a duration`;
+    }
+    if (duration < descriptor.durations.min || duration > descriptor.durations.max) {
+      return `Provider ${descriptor.id} supports ${descriptor.durations.min}-${descriptor.durations.max} second videos`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,66 @@
+/**
+ * Posting Slots (Feb 2026)
+ *
+ * Recurring weekly times each connected account posts at, e.g. "Mon, Wed and
+ * Fri at 09:00 Australia/Sydney". "Add to queue" puts a post in the account's
+ * next slot that has no scheduled post yet.
+ *
+ * Shared by the server (queue assignment) and the client (slot settings).
+ */
+
+import { getZonedParts, zonedTimeToUtc } from './timezones';
+
+// ==================== TYPES ====================
+
+export interface WeeklySlot {
+  dayOfWeek: number;  // 0 = Sunday
+  time: string;       // HH:mm
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+export const MAX_SLOTS_PER_ACCOUNT = 56;
+
+/**
+ * How far ahead the queue looks for a free slot
+ */
+export const QUEUE_HORIZON_WEEKS = 12;
+
+export const SLOT_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// ==================== HELPERS ====================
+
+/**
+ * Every slot occurrence after `from` (exclusive) and before `until`, earliest first
+ */
+export function getSlotOccurrences(
+  slots: WeeklySlot[],
+  timeZone: string,
+  from: Date,
+  until: Date
+): Date[] {
+  if (slots.length === 0) return [];
+
+  const start = getZonedParts(from, timeZone);
+  const occurrences: Date[] = [];
+
+  // Walk calendar days in the slot timezone (day overflow rolls the month)
+  for (let offset = 0; ; offset++) {
+    const dayStart = zonedTimeToUtc(timeZone, start.year, start.month, start.day + offset);
+    if (dayStart >= until) break;
+
+    const dayOfWeek = (start.dayOfWeek + offset) % 7;
+    for (const slot of slots) {
+      if (slot.dayOfWeek !== dayOfWeek) continue;
+      const [hour, minute] = slot.time.split(':').map(Number);
+      const at = zonedTimeToUtc(timeZone, start.year, start.month, start.day + offset, hour, minute);
+      if (at > from && at < until) occurrences.push(at);
+    }
+  }
+
+  return occurrences.sort((a, b) => a.getTime() - b.getTime());
+}
+
+export function formatSlot(slot: WeeklySlot): string {
+  return `${DAY_NAMES[slot.dayOfWeek].slice(0, 3)} ${slot.time}`;
+}
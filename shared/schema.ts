@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, uuid, numeric, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, jsonb, uuid, numeric, boolean, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -19,10 +19,104 @@ export const users = pgTable("users", {
     "Write an engaging Instagram caption for this video. Be creative, use relevant emojis, and include a call-to-action."
   ),
   captionAutoGenerate: text("caption_auto_generate").default("true").notNull(), // "true" or "false" string for compatibility
+  timezone: text("timezone"), // IANA, e.g. "Australia/Sydney" - overrides the workspace's (Feb 2026)
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// ============================================
+// WORKSPACES (Feb 2026)
+// ============================================
+
+// Workspaces - resources and the credit pool are shared by members
+// Every user owns exactly one (created on first request); its credit pool is
+// the owner's user_credits row, so a solo user's workspace is just their account.
+export const workspaces = pgTable("workspaces", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  ownerId: uuid("owner_id").notNull().references(() => users.id, { onDelete: 'cascade' }).unique(),
+  timezone: text("timezone"), // IANA - default for members without their own
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Workspace Members - one row per user per workspace (the owner included)
+export const workspaceMembers = pgTable("workspace_members", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: uuid("workspace_id").notNull().references(() => workspaces.id, { onDelete: 'cascade' }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: text("role").notNull(), // 'owner' | 'admin' | 'editor' | 'viewer'
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  workspaceUser: unique("workspace_members_workspace_user_key").on(table.workspaceId, table.userId),
+}));
+
+// Workspace Invitations - accepted by the invited email's account via token
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: uuid("workspace_id").notNull().references(() => workspaces.id, { onDelete: 'cascade' }),
+  email: text("email").notNull(),
+  role: text("role").notNull(), // 'admin' | 'editor' | 'viewer'
+  token: text("token").notNull().unique(),
+  invitedBy: uuid("invited_by").references(() => users.id, { onDelete: 'set null' }),
+  status: text("status").notNull().default('pending'), // 'pending' | 'accepted' | 'revoked'
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// API Keys (Feb 2026) - personal keys for the public /api/v1 API
+// Act as their creator in the workspace they were created in; only the
+// SHA-256 of the secret is stored (the secret is shown once at creation).
+export const apiKeys = pgTable("api_keys", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  workspaceId: uuid("workspace_id").notNull().references(() => workspaces.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // first characters of the secret, to tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(), // see API_KEY_SCOPES in shared/apiKeys.ts
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Webhook Endpoints (Feb 2026) - URLs a workspace's events are POSTed to
+// Deliveries are signed with the endpoint's secret (see shared/webhooks.ts).
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: uuid("workspace_id").notNull().references(() => workspaces.id, { onDelete: 'cascade' }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }), // creator
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").$type<string[]>().notNull(), // subscribed WEBHOOK_EVENTS
+  secret: text("secret").notNull(), // HMAC signing secret - needed in plain text to sign
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Webhook Deliveries (Feb 2026) - one row per event per endpoint, the delivery history
+// dedupe_key stops an event from being sent twice (e.g. media.ready:<assetId>)
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  endpointId: uuid("endpoint_id").notNull().references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+  eventId: uuid("event_id").notNull(), // shared by the deliveries of one event
+  eventType: text("event_type").notNull(),
+  dedupeKey: text("dedupe_key"),
+  payload: jsonb("payload").notNull(), // the exact event body sent
+  status: text("status").notNull().default('pending'), // pending, delivered, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  errorMessage: text("error_message"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  endpointDedupe: unique("webhook_deliveries_endpoint_dedupe_key").on(table.endpointId, table.dedupeKey),
+}));
+
 // Tasks table - stores Klap video-to-shorts task data
 export const tasks = pgTable("tasks", {
   id: text("id").primaryKey(), // Klap task ID
@@ -93,14 +187,31 @@ export const apiLogs = pgTable("api_logs", {
 });
 
 // Social Posts table - tracks all social media posts via Late.dev API
+// Social Post Groups (Feb 2026) - parent of the per-platform social_posts rows
+// created by one multi-platform post (a single Late.dev post)
+export const socialPostGroups = pgTable("social_post_groups", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: 'cascade' }),
+  projectId: text("project_id").references(() => projects.id),
+  mediaAssetId: text("media_asset_id").references(() => mediaAssets.id),
+  caption: text("caption"), // default caption; targets may override it
+  latePostId: text("late_post_id"), // the one Late.dev post covering every platform
+  lateResponse: jsonb("late_response"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 export const socialPosts = pgTable("social_posts", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  // Multi-platform posts: the parent group (null for single-platform posts)
+  groupId: integer("group_id").references(() => socialPostGroups.id, { onDelete: 'cascade' }),
   // Klap video references (nullable for UGC posts)
   projectId: text("project_id").references(() => projects.id),
   taskId: text("task_id").references(() => tasks.id),
   // UGC video reference (nullable for Klap posts) - Phase 4.7
   mediaAssetId: text("media_asset_id").references(() => mediaAssets.id),
   userId: uuid("user_id").notNull().references(() => users.id),
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: 'cascade' }),
   platform: text("platform").notNull(), // instagram, tiktok, youtube, etc.
   latePostId: text("late_post_id"), // Late.dev post ID
   platformPostUrl: text("platform_post_url"), // Public URL on social platform
@@ -111,13 +222,29 @@ export const socialPosts = pgTable("social_posts", {
   // Scheduled Posting (Phase 3)
   scheduledFor: timestamp("scheduled_for"), // UTC timestamp for scheduled posts
   isScheduled: text("is_scheduled").default("false").notNull(), // "true" or "false"
-  status: text("status").notNull(), // draft, scheduled, posting, published, failed
+  status: text("status").notNull(), // draft, scheduled, posting, published, failed, cancelled
   errorMessage: text("error_message"),
   lateResponse: jsonb("late_response"), // Full Late API response
+  lateTarget: jsonb("late_target"), // LatePostTarget sent for this platform - resent when the post is edited
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   publishedAt: timestamp("published_at"),
 });
 
+// Posting Slots (Feb 2026) - recurring weekly times a connected account posts at
+// "Add to queue" schedules a post in the account's next free slot. Times are wall
+// clock in the slot's timezone (see shared/postingSlots.ts).
+export const postingSlots = pgTable("posting_slots", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: 'cascade' }),
+  accountId: text("account_id").notNull(), // Late.dev account
+  platform: text("platform").notNull(),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday
+  time: text("time").notNull(), // HH:mm
+  timezone: text("timezone").notNull(), // IANA, e.g. Australia/Sydney
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 // User Usage table - tracks monthly usage for free tier limits
 export const userUsage = pgTable("user_usage", {
   userId: uuid("user_id").notNull().references(() => users.id),
@@ -172,6 +299,43 @@ export const userCredits = pgTable("user_credits", {
   balance: integer("balance").notNull().default(0),
   lifetimePurchased: integer("lifetime_purchased").notNull().default(0),
   lifetimeUsed: integer("lifetime_used").notNull().default(0),
+  reserved: integer("reserved").notNull().default(0), // held by in-flight generations - spendable = balance - reserved
+  grantBalance: integer("grant_balance").notNull().default(0), // part of balance from plan grants - spent first, expires; the rest are top-ups
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Credit Reservations - credits held while an async generation runs
+// Settling writes the credit_transactions debit; releasing (failure, timeout,
+// expiry) writes a zero-amount reversal entry linked by metadata.reservationId.
+export const creditReservations = pgTable("credit_reservations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  amount: integer("amount").notNull(),
+  featureKey: text("feature_key").notNull(),
+  description: text("description").notNull(),
+  status: text("status").notNull().default('held'), // 'held' | 'settled' | 'released'
+  mediaAssetId: text("media_asset_id"), // asset whose outcome settles or releases the hold
+  sceneSpecId: uuid("scene_spec_id"), // Content Engine renders (asset created later)
+  metadata: jsonb("metadata"), // copied onto the debit / reversal entry
+  transactionId: uuid("transaction_id"), // debit or reversal entry
+  releaseReason: text("release_reason"),
+  expiresAt: timestamp("expires_at").notNull(), // released by the sweeper if still held
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Subscriptions - Stripe subscriptions to a credit plan (SUBSCRIPTION_PLANS)
+// users.subscriptionStatus mirrors the active one for feature gating
+export const subscriptions = pgTable("subscriptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  stripeSubscriptionId: text("stripe_subscription_id").notNull().unique(),
+  stripeCustomerId: text("stripe_customer_id"),
+  planId: text("plan_id").notNull(),
+  status: text("status").notNull(), // Stripe status: 'active' | 'trialing' | 'past_due' | 'canceled' | ...
+  currentPeriodEnd: timestamp("current_period_end"),
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").notNull().default(false),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -187,7 +351,10 @@ export const creditTransactions = pgTable("credit_transactions", {
   stripePaymentId: text("stripe_payment_id"), // null for deductions
   metadata: jsonb("metadata"), // additional info (e.g., asset IDs, etc.)
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
-});
+}, (table) => ({
+  // One grant per Stripe payment (Feb 2026)
+  stripePayment: unique("credit_transactions_stripe_payment_id_key").on(table.stripePaymentId),
+}));
 
 // Stripe Settings - white-label Stripe configuration
 export const stripeSettings = pgTable("stripe_settings", {
@@ -227,6 +394,7 @@ export const brandSettings = pgTable("brand_settings", {
 export const channelConfigs = pgTable("channel_configs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: 'cascade' }),
   name: text("name").notNull(), // channel/config name
   niche: text("niche").notNull(), // content niche (e.g., "productivity tips")
   tone: text("tone").notNull(), // voice/style (e.g., "casual, motivational")
@@ -244,6 +412,7 @@ export const sceneSpecs = pgTable("scene_specs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   channelConfigId: uuid("channel_config_id").notNull().references(() => channelConfigs.id, { onDelete: 'cascade' }),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: 'cascade' }),
   // Status lifecycle: draft → approved → rendering → rendered → posted | failed
   status: text("status").notNull().default('draft'), // 'draft' | 'approved' | 'rendering' | 'rendered' | 'posted' | 'failed'
   // Video metadata
@@ -273,7 +442,8 @@ export const sceneSpecs = pgTable("scene_specs", {
 // Media Assets table - tracks AI-generated media (Phase 4)
 export const mediaAssets = pgTable("media_assets", {
   id: text("id").primaryKey(),
-  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }), // creator
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: 'cascade' }),
 
   // Provider and type
   provider: text("provider").notNull(), // 'kie-veo3' | 'kie-4o-image' | 'kie-flux-kontext' | 'gemini-flash'
@@ -290,6 +460,12 @@ export const mediaAssets = pgTable("media_assets", {
   // Output data
   resultUrl: text("result_url"),
   resultUrls: jsonb("result_urls"),
+  variants: jsonb("variants"), // MediaAssetVariant[] - one MP4 per rendered aspect ratio (Feb 2026, see shared/videoFormats.ts)
+
+  // Video thumbnails (Feb 2026) - poster JPEG, looping WebP preview and scrubbing sprite sheet
+  posterUrl: text("poster_url"),
+  previewUrl: text("preview_url"),
+  spriteSheet: jsonb("sprite_sheet"), // VideoSpriteSheet (see shared/videoFormats.ts)
 
   // Error tracking
   errorMessage: text("error_message"),
@@ -301,7 +477,7 @@ export const mediaAssets = pgTable("media_assets", {
 
   // UGC Chain Support (Phase 5)
   generationMode: text("generation_mode"), // 'nanobana+veo3' | 'veo3-only' | 'sora2'
-  chainMetadata: jsonb("chain_metadata"), // Stores: { step, nanoImageUrl, imageAnalysis, videoPrompt, timestamps }
+  chainMetadata: jsonb("chain_metadata"), // Stores: { step, nanoImageUrl, imageAnalysis, videoPrompt, timestamps, failover } - Mode B/C only carry failover
 
   // User Feedback (Dec 2025)
   rating: integer("rating"), // 1-5 stars rating, CHECK constraint in DB
@@ -586,6 +762,17 @@ export type UserCredits = typeof userCredits.$inferSelect;
 export type InsertUserCredits = z.infer<typeof insertUserCreditsSchema>;
 
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
+export type CreditReservation = typeof creditReservations.$inferSelect;
+export type Subscription = typeof subscriptions.$inferSelect;
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type SocialPostGroup = typeof socialPostGroups.$inferSelect;
+export type PostingSlot = typeof postingSlots.$inferSelect;
 export type InsertCreditTransaction = z.infer<typeof insertCreditTransactionSchema>;
 
 export type StripeSettings = typeof stripeSettings.$inferSelect;
@@ -618,6 +805,7 @@ export interface SceneObject {
 export const autopilotStores = pgTable("autopilot_stores", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: 'cascade' }),
   shopifyDomain: text("shopify_domain").notNull(),
   storeName: text("store_name"),
   logoUrl: text("logo_url"),
@@ -672,6 +860,9 @@ export const autopilotConfigs = pgTable("autopilot_configs", {
   // Schedule settings
   videosPerWeek: integer("videos_per_week").notNull().default(3),
   platforms: jsonb("platforms"), // string[] - ["youtube", "instagram", "tiktok"]
+  // Local hours generations may run in, end exclusive (Feb 2026)
+  postingWindowStart: integer("posting_window_start").notNull().default(9),
+  postingWindowEnd: integer("posting_window_end").notNull().default(21),
   // State
   isApproved: boolean("is_approved").notNull().default(false), // First video approved?
   isActive: boolean("is_active").notNull().default(false), // Autopilot running?
@@ -800,3 +991,110 @@ export type InsertAutopilotHistory = z.infer<typeof insertAutopilotHistorySchema
 // ============================================
 // END AUTOPILOT SYSTEM
 // ============================================
+
+// ============================================
+// GENERATION JOBS (Feb 2026)
+// Durable queue for background generation work (survives restarts)
+// ============================================
+
+// Generation Jobs - one row per background pipeline (chain, media, render)
+export const generationJobs = pgTable("generation_jobs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // 'media_generation' | 'ugc_chain' | 'ugc_video' | 'autopilot_video' | 'automation_render' | 'remotion_render' | 'video_thumbnails' | 'webhook_delivery'
+  mediaAssetId: text("media_asset_id").references(() => mediaAssets.id, { onDelete: 'cascade' }),
+  userId: uuid("user_id").references(() => users.id, { onDelete: 'cascade' }),
+  // Status lifecycle: queued → running → queued (rescheduled) ... → completed | failed
+  status: text("status").notNull().default('queued'), // 'queued' | 'running' | 'completed' | 'failed'
+  payload: jsonb("payload").notNull(), // immutable input params for the handler
+  state: jsonb("state"), // handler progress (phase, provider task IDs, step start times)
+  attempts: integer("attempts").notNull().default(0), // consecutive handler errors
+  runAt: timestamp("run_at").notNull().default(sql`now()`), // next time the job is due
+  lockedAt: timestamp("locked_at"), // lease start while running
+  lockedBy: text("locked_by"), // worker instance holding the lease
+  deadlineAt: timestamp("deadline_at"), // hard cap - asset marked as error when exceeded
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+});
+
+export const generationJobsRelations = relations(generationJobs, ({ one }) => ({
+  mediaAsset: one(mediaAssets, {
+    fields: [generationJobs.mediaAssetId],
+    references: [mediaAssets.id],
+  }),
+}));
+
+export const insertGenerationJobSchema = createInsertSchema(generationJobs, {
+  runAt: () => z.date().optional(),
+  lockedAt: () => z.date().optional().nullable(),
+  deadlineAt: () => z.date().optional().nullable(),
+  createdAt: () => z.date().optional(),
+  updatedAt: () => z.date().optional(),
+  completedAt: () => z.date().optional().nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = z.infer<typeof insertGenerationJobSchema>;
+
+// ============================================
+// END GENERATION JOBS
+// ============================================
+
+// ============================================
+// FAILOVER POLICIES (Feb 2026)
+// ============================================
+
+// Failover Policies - admin-configured provider chain per UGC generation mode
+// Modes without a row use DEFAULT_FAILOVER_POLICIES (shared/failoverPolicies.ts)
+export const failoverPolicies = pgTable("failover_policies", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  mode: text("mode").notNull().unique(), // 'nanobana+veo3' | 'veo3-only' | 'sora2'
+  enabled: boolean("enabled").notNull().default(true),
+  chain: jsonb("chain").notNull(), // FailoverStep[] - chain[0] is the mode's own provider
+  triggers: jsonb("triggers").notNull(), // FailoverTriggers
+  maxTotalAttempts: integer("max_total_attempts").notNull().default(2),
+  creditAdjustment: text("credit_adjustment").notNull().default('refund_difference'), // 'refund_difference' | 'none'
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export type FailoverPolicyRow = typeof failoverPolicies.$inferSelect;
+
+// ============================================
+// END FAILOVER POLICIES
+// ============================================
+
+// ============================================
+// PROVIDER COSTS (Feb 2026)
+// ============================================
+
+// Provider Costs - one row per billable external call (generation submits,
+// retries and failover hops, LLM/vision calls, TTS characters, renders),
+// attributed to the asset or scene spec that caused it. Compared against
+// credit_transactions in the admin margin report.
+// No foreign keys on the attribution columns: costs outlive deleted assets.
+export const providerCosts = pgTable("provider_costs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id"),
+  mediaAssetId: text("media_asset_id"),
+  sceneSpecId: uuid("scene_spec_id"),
+  featureKey: text("feature_key"), // credit feature that paid for the call, when known at call time
+  provider: text("provider").notNull(), // 'kie' | 'openai' | 'elevenlabs' | 'gemini' | 'anthropic' | 'render-worker' | ...
+  operation: text("operation").notNull(), // e.g. 'veo3_generate', 'vision', 'tts', 'remotion_render'
+  units: numeric("units", { precision: 14, scale: 2 }).notNull().default("1"), // generations, tokens, characters, seconds
+  unitType: text("unit_type").notNull().default('call'), // 'call' | 'token' | 'character' | 'second' | 'image'
+  costUsd: numeric("cost_usd", { precision: 10, scale: 4 }).notNull(),
+  metadata: jsonb("metadata"), // model, taskId, attempt...
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export type ProviderCost = typeof providerCosts.$inferSelect;
+
+// ============================================
+// END PROVIDER COSTS
+// ============================================
@@ -0,0 +1,16 @@
+/**
+ * Scheduled Social Posts (Feb 2026)
+ *
+ * Editing rules shared by the server (reschedule / edit / cancel routes) and
+ * the schedule dashboard, which disables the actions the server would refuse.
+ */
+
+/**
+ * Late.dev starts processing a scheduled post shortly before its time. From
+ * then on it can no longer be rescheduled, edited or cancelled.
+ */
+export const SCHEDULED_POST_LOCK_MINUTES = 5;
+
+export function isScheduledPostLocked(scheduledFor: Date | string, now: Date = new Date()): boolean {
+  return new Date(scheduledFor).getTime() - now.getTime() < SCHEDULED_POST_LOCK_MINUTES * 60 * 1000;
+}
@@ -0,0 +1,158 @@
+/**
+ * Timezones (Feb 2026)
+ *
+ * Wall-clock <-> UTC conversion for IANA timezones using Intl only, so the
+ * server (which runs in UTC) and the browser agree on when "Monday 9:00 in
+ * Sydney" is. Users and workspaces each have one (the user's wins).
+ */
+
+// ==================== TYPES ====================
+
+export interface ZonedParts {
+  year: number;
+  month: number;      // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  dayOfWeek: number;  // 0 = Sunday
+}
+
+// ==================== HELPERS ====================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock date and time of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    dayOfWeek: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+}
+
+// Milliseconds the timezone is ahead of UTC at an instant
+function offsetAt(date: Date, timeZone: string): number {
+  const zoned = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+/**
+ * The instant a wall-clock time happens in a timezone. Days and months may
+ * overflow (day 32 is the 1st of next month). Times skipped by a DST jump
+ * move forward by the jump (02:30 on a spring-forward night is 03:30).
+ */
+export function zonedTimeToUtc(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = asUtc - offsetAt(new Date(asUtc), timeZone);
+  // The offset can differ on either side of a DST change - check at the guess
+  const adjusted = new Date(asUtc - offsetAt(new Date(guess), timeZone));
+  const zoned = getZonedParts(adjusted, timeZone);
+  if (zoned.hour === new Date(asUtc).getUTCHours() && zoned.minute === new Date(asUtc).getUTCMinutes()) {
+    return adjusted;
+  }
+  // No such wall-clock time (DST gap) - the later reading is past the jump
+  return new Date(Math.max(guess, adjusted.getTime()));
+}
+
+// ==================== DEFAULTS ====================
+
+/**
+ * Used when neither the user nor the workspace has set a timezone
+ */
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * The first valid timezone of the candidates, most specific first - e.g.
+ * `resolveTimeZone(user.timezone, workspace.timezone)`
+ */
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find((timeZone): timeZone is string => !!timeZone && isValidTimeZone(timeZone))
+    ?? DEFAULT_TIMEZONE;
+}
+
+// ==================== WALL CLOCK ====================
+
+/**
+ * A Date whose local fields (getHours(), getDate()...) read the wall-clock time
+ * of `date` in the timezone. Only for display and bucketing with date-fns in
+ * the browser - don't send it anywhere.
+ */
+export function toZonedWallClock(date: Date, timeZone: string): Date {
+  const zoned = getZonedParts(date, timeZone);
+  return new Date(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, date.getSeconds());
+}
+
+/**
+ * The inverse of toZonedWallClock: the instant a local Date's fields happen
+ * in the timezone, e.g. for a datetime-local input meant as timezone time
+ */
+export function fromZonedWallClock(wallClock: Date, timeZone: string): Date {
+  return zonedTimeToUtc(
+    timeZone,
+    wallClock.getFullYear(),
+    wallClock.getMonth() + 1,
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes()
+  );
+}
+
+/**
+ * Move an instant into a daily window of local hours [startHour, endHour),
+ * rounded down to the hour. Before the window it moves to the window's start
+ * that day; from its end on, to the start the next day.
+ */
+export function fitToHourWindow(date: Date, timeZone: string, startHour: number, endHour: number): Date {
+  const zoned = getZonedParts(date, timeZone);
+  if (zoned.hour < startHour) {
+    return zonedTimeToUtc(timeZone, zoned.year, zoned.month, zoned.day, startHour);
+  }
+  if (zoned.hour >= endHour) {
+    return zonedTimeToUtc(timeZone, zoned.year, zoned.month, zoned.day + 1, startHour);
+  }
+  return zonedTimeToUtc(timeZone, zoned.year, zoned.month, zoned.day, zoned.hour);
+}
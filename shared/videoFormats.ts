@@ -0,0 +1,103 @@
+/**
+ * Video Formats (Feb 2026)
+ *
+ * Aspect ratios the Remotion compositions can be rendered in, which
+ * rendered variant to post to each social platform, and the thumbnails
+ * generated for every video asset. Shared by the server (render submission,
+ * posting) and the client (variant pickers, video tiles).
+ */
+
+// ==================== ASPECT RATIOS ====================
+
+export const VIDEO_ASPECT_RATIOS = ['9:16', '16:9', '1:1', '4:5'] as const;
+
+export type VideoAspectRatio = typeof VIDEO_ASPECT_RATIOS[number];
+
+export const DEFAULT_VIDEO_ASPECT_RATIO: VideoAspectRatio = '9:16';
+
+export const VIDEO_ASPECT_RATIO_DIMENSIONS: Record<VideoAspectRatio, { width: number; height: number }> = {
+  '9:16': { width: 1080, height: 1920 },  // Reels, TikTok, Shorts
+  '16:9': { width: 1920, height: 1080 },  // YouTube
+  '1:1': { width: 1080, height: 1080 },   // Square feed posts
+  '4:5': { width: 1080, height: 1350 },   // Portrait feed posts
+};
+
+/**
+ * One rendered MP4 per requested aspect ratio (media_assets.variants)
+ */
+export interface MediaAssetVariant {
+  aspectRatio: VideoAspectRatio;
+  url: string;
+  width: number;
+  height: number;
+}
+
+// ==================== THUMBNAILS ====================
+
+/**
+ * Grid of evenly spaced frames for hover scrubbing (media_assets.sprite_sheet)
+ * Frame i sits at column i % columns, row floor(i / columns) and shows
+ * the video at i * intervalSeconds
+ */
+export interface VideoSpriteSheet {
+  url: string;
+  columns: number;
+  rows: number;
+  frameWidth: number;
+  frameHeight: number;
+  frameCount: number;
+  intervalSeconds: number;
+}
+
+/**
+ * Generated by the render worker for every finished video
+ */
+export interface VideoThumbnails {
+  posterUrl: string;                // JPEG at the chosen poster frame
+  previewUrl?: string;              // short looping animated WebP
+  spriteSheet?: VideoSpriteSheet;
+}
+
+/**
+ * Sprite frame to show at a position (0-1) along the video
+ */
+export function getSpriteFrameIndex(spriteSheet: VideoSpriteSheet, position: number): number {
+  const clamped = Math.min(Math.max(position, 0), 1);
+  return Math.min(Math.floor(clamped * spriteSheet.frameCount), spriteSheet.frameCount - 1);
+}
+
+// ==================== PLATFORMS ====================
+
+/**
+ * Preferred aspect ratios per posting platform, best first
+ */
+export const PLATFORM_ASPECT_RATIOS: Record<string, VideoAspectRatio[]> = {
+  instagram: ['9:16', '4:5', '1:1'],       // posted as Reels
+  tiktok: ['9:16'],
+  youtube: ['16:9', '9:16'],
+  facebook: ['4:5', '1:1', '9:16', '16:9'],
+  linkedin: ['1:1', '16:9', '4:5'],
+  googlebusiness: ['4:5', '1:1', '16:9'],
+};
+
+/**
+ * Pick the variant that fits a platform best
+ * Returns undefined when no preferred ratio was rendered - callers fall back
+ * to the asset's resultUrl
+ */
+export function pickVariantForPlatform(
+  variants: MediaAssetVariant[] | null | undefined,
+  platform: string
+): MediaAssetVariant | undefined {
+  if (!variants || variants.length === 0) {
+    return undefined;
+  }
+
+  for (const aspectRatio of PLATFORM_ASPECT_RATIOS[platform] || [DEFAULT_VIDEO_ASPECT_RATIO]) {
+    const variant = variants.find(v => v.aspectRatio === aspectRatio);
+    if (variant) {
+      return variant;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,61 @@
+/**
+ * Webhook Events (Feb 2026)
+ *
+ * Events a workspace can subscribe its webhook endpoints to, and the shape of
+ * every delivery. Each POST body is a WebhookEvent; `data` uses the same
+ * resource shapes as the public /api/v1 API.
+ *
+ * Deliveries are signed like the render worker callbacks:
+ *   X-Webhook-Signature = sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+ * with the unix timestamp (seconds) in X-Webhook-Timestamp.
+ *
+ * Shared by the server (delivery) and the client (webhooks settings).
+ */
+
+// ==================== TYPES ====================
+
+export const WEBHOOK_EVENTS = [
+  'media.ready',
+  'media.error',
+  'post.published',
+  'post.failed',
+  'autopilot.ready',
+  'autopilot.failed',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  'media.ready': 'An image or video finished generating',
+  'media.error': 'An image or video failed to generate',
+  'post.published': 'A social post went live',
+  'post.failed': 'A social post failed to publish',
+  'autopilot.ready': 'An Autopilot run produced its video',
+  'autopilot.failed': 'An Autopilot run failed',
+};
+
+/**
+ * Sent by "Send test event" in settings, whatever the endpoint subscribes to
+ */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export interface WebhookEvent<T = Record<string, unknown>> {
+  id: string;            // same for every endpoint that receives the event
+  type: WebhookEventType | typeof WEBHOOK_TEST_EVENT;
+  createdAt: string;
+  workspaceId: string;
+  data: T;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// ==================== HELPERS ====================
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
@@ -0,0 +1,45 @@
+/**
+ * Workspace Roles (Feb 2026)
+ *
+ * Members of a workspace share its media assets, social posts, Content Engine
+ * channels and autopilot stores, and spend from its credit pool (the owner's
+ * balance). Roles are ordered - each one can do everything the ones below it can:
+ * - viewer: browse the workspace's resources
+ * - editor: create and change resources, spend credits
+ * - admin:  invite and remove members, change their roles (never the owner's)
+ * - owner:  buy credits and plans, rename the workspace; exactly one per workspace
+ *
+ * Shared by the server (auth middleware, workspace routes) and the client
+ * (workspace switcher, members settings).
+ */
+
+// ==================== TYPES ====================
+
+export const WORKSPACE_ROLES = ['viewer', 'editor', 'admin', 'owner'] as const;
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+/**
+ * Roles an invitation (or a role change) can grant - ownership never moves
+ */
+export const INVITABLE_ROLES = ['admin', 'editor', 'viewer'] as const;
+
+export type InvitableRole = typeof INVITABLE_ROLES[number];
+
+/**
+ * Header the client sends with the active workspace (the user's own when absent)
+ */
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+// ==================== HELPERS ====================
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Does the member's role include everything `required` can do?
+ */
+export function hasWorkspaceRole(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(required);
+}